@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { Landmark, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { PageEmptyState, PageLayout, PageListItem, PageSection } from '@/components/ui/page-layout';
+import { BankAccountFormDialog } from '@/components/bank-accounts/bank-account-form-dialog';
+import { useBankAccountMutations, useBankAccounts, type BankAccountFormData } from '@/hooks/use-bank-accounts';
+import { getOpeningPosition, type BankAccount } from '@/lib/bank-accounts';
+import { formatCurrency, formatDate } from '@/lib/formatting';
+
+export default function BankAccountsPage() {
+  const { data: accounts = [], isLoading } = useBankAccounts();
+  const { createAccount, updateAccount, deleteAccount } = useBankAccountMutations();
+  const { showConfirmation, ConfirmationDialog } = useConfirmationDialog();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<BankAccount | null>(null);
+
+  const { openingBalance, openingDate } = getOpeningPosition(accounts);
+
+  const openCreate = () => {
+    setEditingAccount(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (account: BankAccount) => {
+    setEditingAccount(account);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (data: BankAccountFormData) => {
+    if (editingAccount) {
+      await updateAccount.mutateAsync({ id: editingAccount.id, data });
+    } else {
+      await createAccount.mutateAsync(data);
+    }
+    setDialogOpen(false);
+  };
+
+  const handleDelete = (account: BankAccount) => {
+    showConfirmation({
+      title: 'Delete bank account?',
+      description: `"${account.name}" and its opening balance will be removed. Transactions are not affected.`,
+      confirmText: 'Delete',
+      variant: 'destructive',
+      onConfirm: () => deleteAccount.mutate(account.id),
+    });
+  };
+
+  return (
+    <PageLayout
+      title="Bank Accounts"
+      description="Accounts and opening balances used by cash flow, reconciliation and the dashboard"
+      icon={Landmark}
+      actions={
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Account
+        </Button>
+      }
+    >
+      <PageSection
+        title="Accounts"
+        description={
+          openingDate
+            ? `Combined opening balance ${formatCurrency(openingBalance)} from ${formatDate(openingDate)}`
+            : 'No active accounts - balances start from zero'
+        }
+        icon={Landmark}
+      >
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : accounts.length === 0 ? (
+          <PageEmptyState
+            icon={Landmark}
+            title="No bank accounts yet"
+            description="Add your business account with its opening balance so balance figures start from the right amount."
+            action={
+              <Button onClick={openCreate}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Account
+              </Button>
+            }
+          />
+        ) : (
+          <div className="border rounded-lg">
+            {accounts.map((account, index) => (
+              <PageListItem key={account.id} isLast={index === accounts.length - 1}>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{account.name}</p>
+                      {!account.is_active && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {account.provider || 'No provider'} • {account.currency}
+                      {account.product_code && <> • Product &quot;{account.product_code}&quot;</>}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-medium tabular-nums">{formatCurrency(Number(account.opening_balance))}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Opening balance at {formatDate(account.opening_balance_date)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(account)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(account)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </PageListItem>
+            ))}
+          </div>
+        )}
+      </PageSection>
+
+      <BankAccountFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        account={editingAccount}
+        onSubmit={handleSubmit}
+        isSubmitting={createAccount.isPending || updateAccount.isPending}
+      />
+
+      {ConfirmationDialog}
+    </PageLayout>
+  );
+}
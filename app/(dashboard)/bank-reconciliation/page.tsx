@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { createClient } from '@/supabase/client';
 import { useAuth } from '@/lib/auth-context';
@@ -10,6 +10,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
 import {
   Scale,
   CheckCircle2,
@@ -18,8 +20,19 @@ import {
   Loader2,
   Eye,
   Flag,
+  Landmark,
+  History,
+  FileSignature,
+  Trash2,
+  ListChecks,
 } from 'lucide-react';
 import { format } from 'date-fns';
+import Link from 'next/link';
+import { fetchBankAccounts, getBalanceBroughtForward, getOpeningPosition } from '@/lib/bank-accounts';
+import { useBankAccounts } from '@/hooks/use-bank-accounts';
+import { useReconciliationSessionMutations, useReconciliationSessions } from '@/hooks/use-reconciliation-sessions';
+import type { ReconciliationSession } from '@/lib/reconciliation-sessions';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 type FlagStatus = 'none' | 'verified' | 'suspicious';
 
@@ -28,7 +41,7 @@ interface NearbyTransaction {
   transaction_date: string;
   description: string;
   amount: number;
-  type: 'income' | 'expenditure' | 'capital';
+  type: 'income' | 'expenditure' | 'capital' | 'transfer';
   category_id: string | null;
   category?: {
     name: string;
@@ -40,6 +53,12 @@ interface NearbyTransaction {
 const formatAmount = (amount: number) =>
   new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' }).format(amount);
 
+const nextDay = (dateStr: string) => {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().split('T')[0];
+};
+
 const formatDate = (dateStr: string) =>
   new Date(dateStr).toLocaleDateString('en-GB', {
     day: 'numeric',
@@ -55,49 +74,115 @@ export default function BankReconciliationPage() {
   const [statementBalance, setStatementBalance] = useState(0);
   const [reconciledDate, setReconciledDate] = useState('');
   const [flaggedTransactions, setFlaggedTransactions] = useState<Record<string, FlagStatus>>({});
+  const [selectedAccount, setSelectedAccount] = useState<string>('all');
+  const [reconciledAccount, setReconciledAccount] = useState<string>('all');
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [needsSave, setNeedsSave] = useState(false);
+  const [signOffNotes, setSignOffNotes] = useState('');
+  const [confirmSignOff, setConfirmSignOff] = useState(false);
+  const { data: bankAccounts = [] } = useBankAccounts();
+  const { data: sessions = [], isLoading: isLoadingSessions } = useReconciliationSessions();
+  const { saveSession, setItemFlag, signOff, deleteSession } = useReconciliationSessionMutations();
+  const { mutate: saveSessionMutate } = saveSession;
+  const hasResumed = useRef(false);
+
+  const activeSession = sessions.find(s => s.id === sessionId) ?? null;
+  const isSignedOff = activeSession?.status === 'signed_off';
 
   // Fetch all transactions up to statement date for balance calculation
   const { data: balanceData, isLoading: isLoadingBalance } = useQuery({
-    queryKey: ['reconciliation-balance', user?.id, reconciledDate],
+    queryKey: ['reconciliation-balance', user?.id, reconciledDate, reconciledAccount],
     queryFn: async () => {
       const supabase = createClient();
+      const accountId = reconciledAccount === 'all' ? undefined : reconciledAccount;
+
+      // Opening balance comes from the bank accounts; anything dated before
+      // the opening date is already part of it
+      const accounts = await fetchBankAccounts(supabase);
+      const account = accounts.find(a => a.id === accountId);
+      const { openingBalance, openingDate } = account
+        ? { openingBalance: Number(account.opening_balance), openingDate: account.opening_balance_date }
+        : getOpeningPosition(accounts);
+      const fromDate = openingDate ?? '0001-01-01';
 
       // Fetch income total
-      const { data: incomeData, error: incomeError } = await supabase
+      let incomeQuery = supabase
         .from('transactions')
         .select('amount')
         .eq('type', 'income')
+        .gte('transaction_date', fromDate)
         .lte('transaction_date', reconciledDate);
+      if (accountId) incomeQuery = incomeQuery.eq('bank_account_id', accountId);
+      const { data: incomeData, error: incomeError } = await incomeQuery;
 
       if (incomeError) throw incomeError;
 
       // Fetch expenditure total
-      const { data: expenditureData, error: expenditureError } = await supabase
+      let expenditureQuery = supabase
         .from('transactions')
         .select('amount')
         .eq('type', 'expenditure')
+        .gte('transaction_date', fromDate)
         .lte('transaction_date', reconciledDate);
+      if (accountId) expenditureQuery = expenditureQuery.eq('bank_account_id', accountId);
+      const { data: expenditureData, error: expenditureError } = await expenditureQuery;
 
       if (expenditureError) throw expenditureError;
 
       // Fetch capital transactions with category info for movement type
-      const { data: capitalData, error: capitalError } = await supabase
+      let capitalQuery = supabase
         .from('transactions')
         .select('amount, categories:category_id(capital_movement_type)')
         .eq('type', 'capital')
+        .gte('transaction_date', fromDate)
         .lte('transaction_date', reconciledDate);
+      if (accountId) capitalQuery = capitalQuery.eq('bank_account_id', accountId);
+      const { data: capitalData, error: capitalError } = await capitalQuery;
 
       if (capitalError) throw capitalError;
 
+      // Transfers cancel out across all accounts but move a single account's balance
+      let netTransfers = 0;
+      if (accountId) {
+        const { data: transferData, error: transferError } = await supabase
+          .from('transactions')
+          .select('amount, transfer_direction')
+          .eq('type', 'transfer')
+          .eq('bank_account_id', accountId)
+          .gte('transaction_date', fromDate)
+          .lte('transaction_date', reconciledDate);
+
+        if (transferError) throw transferError;
+
+        netTransfers = (transferData || []).reduce((sum, t) =>
+          sum + (t.transfer_direction === 'out' ? -Math.abs(Number(t.amount)) : Math.abs(Number(t.amount))), 0);
+      }
+
       // Fetch uncategorized count
-      const { count: uncategorizedCount, error: uncatError } = await supabase
+      let uncategorizedQuery = supabase
         .from('transactions')
         .select('id', { count: 'exact', head: true })
         .is('category_id', null)
+        .neq('type', 'transfer')
         .lte('transaction_date', reconciledDate);
+      if (accountId) uncategorizedQuery = uncategorizedQuery.eq('bank_account_id', accountId);
+      const { count: uncategorizedCount, error: uncatError } = await uncategorizedQuery;
 
       if (uncatError) throw uncatError;
 
+      // Per-account balances at the statement date when reconciling all accounts
+      const accountBalances = accountId
+        ? []
+        : await Promise.all(
+            accounts
+              .filter(a => a.is_active)
+              .map(async a => ({
+                id: a.id,
+                name: a.name,
+                balance: await getBalanceBroughtForward(supabase, nextDay(reconciledDate), a.id),
+              }))
+          );
+
       const totalIncome = (incomeData || []).reduce((sum, t) => sum + Number(t.amount), 0);
       const totalExpenditure = (expenditureData || []).reduce((sum, t) => sum + Number(t.amount), 0);
 
@@ -111,25 +196,18 @@ export default function BankReconciliationPage() {
         else if (movementType === 'drawing') capitalDrawings += amount;
       }
 
-      // Get opening balance from localStorage
-      let openingBalance = 0;
-      if (typeof window !== 'undefined') {
-        const stored = localStorage.getItem('herbarium-opening-balance');
-        if (stored) {
-          const parsed = parseFloat(stored);
-          if (!isNaN(parsed)) openingBalance = parsed;
-        }
-      }
-
-      const calculatedBalance = openingBalance + totalIncome - totalExpenditure + capitalInjections - capitalDrawings;
+      const calculatedBalance = openingBalance + totalIncome - totalExpenditure + capitalInjections - capitalDrawings + netTransfers;
 
       return {
         openingBalance,
+        openingDate,
         totalIncome,
         totalExpenditure,
         capitalInjections,
         capitalDrawings,
+        netTransfers,
         calculatedBalance,
+        accountBalances,
         uncategorizedCount: uncategorizedCount || 0,
       };
     },
@@ -139,7 +217,7 @@ export default function BankReconciliationPage() {
 
   // Fetch nearby transactions (7 days before statement date)
   const { data: nearbyTransactions, isLoading: isLoadingNearby } = useQuery({
-    queryKey: ['reconciliation-nearby', user?.id, reconciledDate],
+    queryKey: ['reconciliation-nearby', user?.id, reconciledDate, reconciledAccount],
     queryFn: async () => {
       const supabase = createClient();
       const endDate = reconciledDate;
@@ -148,7 +226,7 @@ export default function BankReconciliationPage() {
         'yyyy-MM-dd'
       );
 
-      const { data, error } = await supabase
+      let query = supabase
         .from('transactions')
         .select(`
           id,
@@ -164,8 +242,13 @@ export default function BankReconciliationPage() {
           )
         `)
         .gte('transaction_date', startDate)
-        .lte('transaction_date', endDate)
-        .order('transaction_date', { ascending: false });
+        .lte('transaction_date', endDate);
+
+      if (reconciledAccount !== 'all') {
+        query = query.eq('bank_account_id', reconciledAccount);
+      }
+
+      const { data, error } = await query.order('transaction_date', { ascending: false });
 
       if (error) throw error;
 
@@ -186,25 +269,101 @@ export default function BankReconciliationPage() {
   const handleReconcile = useCallback(() => {
     const parsed = parseFloat(statementBalanceInput);
     if (isNaN(parsed) || !statementDate) return;
+
+    // Re-running the same draft keeps its flags; anything else starts a new session
+    const sameDraft = activeSession?.status === 'draft' &&
+      activeSession.statement_date === statementDate &&
+      (activeSession.bank_account_id ?? 'all') === selectedAccount;
+    if (!sameDraft) {
+      setSessionId(null);
+      setFlaggedTransactions({});
+      setSignOffNotes('');
+    }
+
     setStatementBalance(parsed);
     setReconciledDate(statementDate);
+    setReconciledAccount(selectedAccount);
+    setHasReconciled(true);
+    setNeedsSave(true);
+  }, [statementBalanceInput, statementDate, selectedAccount, activeSession]);
+
+  // Load a saved session back into the page
+  const openSession = useCallback((session: ReconciliationSession) => {
+    const account = session.bank_account_id ?? 'all';
+    const balance = Number(session.statement_balance);
+    setSessionId(session.id);
+    setStatementDate(session.statement_date);
+    setStatementBalanceInput(balance.toFixed(2));
+    setSelectedAccount(account);
+    setStatementBalance(balance);
+    setReconciledDate(session.statement_date);
+    setReconciledAccount(account);
+    setSignOffNotes(session.notes ?? '');
+    setFlaggedTransactions(Object.fromEntries(
+      (session.reconciliation_session_items || []).map(item => [item.transaction_id, item.flag])
+    ));
     setHasReconciled(true);
-    setFlaggedTransactions({});
-  }, [statementBalanceInput, statementDate]);
+    // Drafts pick up any transactions added since they were last saved
+    setNeedsSave(session.status === 'draft');
+  }, []);
+
+  // Resume the latest draft so a refresh doesn't lose work in progress
+  useEffect(() => {
+    if (hasResumed.current || isLoadingSessions) return;
+    hasResumed.current = true;
+    const latestDraft = sessions.find(s => s.status === 'draft');
+    if (latestDraft && !hasReconciled) openSession(latestDraft);
+  }, [sessions, isLoadingSessions, hasReconciled, openSession]);
 
   const toggleFlag = useCallback((id: string) => {
-    setFlaggedTransactions(prev => {
-      const current = prev[id] || 'none';
-      const next: FlagStatus = current === 'none' ? 'verified' : current === 'verified' ? 'suspicious' : 'none';
-      return { ...prev, [id]: next };
-    });
-  }, []);
+    if (isSignedOff) return;
+    const current = flaggedTransactions[id] || 'none';
+    const next: FlagStatus = current === 'none' ? 'verified' : current === 'verified' ? 'suspicious' : 'none';
+    setFlaggedTransactions(prev => ({ ...prev, [id]: next }));
+    if (sessionId) {
+      setItemFlag.mutate({ sessionId, transactionId: id, flag: next === 'none' ? null : next });
+    }
+  }, [flaggedTransactions, isSignedOff, sessionId, setItemFlag]);
 
   const variance = useMemo(() => {
     if (!balanceData) return null;
     return statementBalance - balanceData.calculatedBalance;
   }, [statementBalance, balanceData]);
 
+  // Save the draft once its calculated balance is known
+  useEffect(() => {
+    if (!needsSave || !balanceData || variance === null) return;
+    setNeedsSave(false);
+    saveSessionMutate(
+      {
+        id: sessionId ?? undefined,
+        bank_account_id: reconciledAccount === 'all' ? null : reconciledAccount,
+        statement_date: reconciledDate,
+        statement_balance: statementBalance,
+        calculated_balance: balanceData.calculatedBalance,
+        variance,
+      },
+      { onSuccess: (session) => setSessionId(session.id) }
+    );
+  }, [needsSave, balanceData, variance, sessionId, reconciledAccount, reconciledDate, statementBalance, saveSessionMutate]);
+
+  const handleSignOff = () => {
+    if (!sessionId || !balanceData || variance === null) return;
+    setConfirmSignOff(false);
+    signOff.mutate({
+      id: sessionId,
+      bank_account_id: reconciledAccount === 'all' ? null : reconciledAccount,
+      statement_date: reconciledDate,
+      statement_balance: statementBalance,
+      calculated_balance: balanceData.calculatedBalance,
+      variance,
+      notes: signOffNotes.trim(),
+    });
+  };
+
+  const accountLabel = (bankAccountId: string | null) =>
+    bankAccountId ? bankAccounts.find(a => a.id === bankAccountId)?.name ?? 'Unknown account' : 'All accounts';
+
   const varianceStatus = useMemo(() => {
     if (variance === null) return 'neutral';
     const absVariance = Math.abs(variance);
@@ -266,6 +425,14 @@ export default function BankReconciliationPage() {
       title="Bank Reconciliation"
       description="Compare your calculated balance against your bank statement to identify discrepancies"
       icon={Scale}
+      actions={
+        <Button asChild variant="outline">
+          <Link href="/bank-reconciliation/statement-lines">
+            <ListChecks className="h-4 w-4 mr-2" />
+            Line by Line
+          </Link>
+        </Button>
+      }
     >
       {/* Statement Balance Input */}
       <PageSection
@@ -273,7 +440,23 @@ export default function BankReconciliationPage() {
         description="Enter the details from your bank statement"
         icon={Info}
       >
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
+        <div className={`grid grid-cols-1 gap-6 items-end ${bankAccounts.length > 0 ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
+          {bankAccounts.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="statement-account">Account</Label>
+              <Select value={selectedAccount} onValueChange={setSelectedAccount}>
+                <SelectTrigger id="statement-account">
+                  <SelectValue placeholder="All accounts" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Accounts</SelectItem>
+                  {bankAccounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <div className="space-y-2">
             <Label htmlFor="statement-date">Statement Date</Label>
             <Input
@@ -322,6 +505,29 @@ export default function BankReconciliationPage() {
       {/* Reconciliation Results */}
       {hasReconciled && balanceData && (
         <>
+          {/* Sign-off status of an opened session */}
+          {isSignedOff && activeSession && (
+            <Card className="border-emerald-500/25 bg-emerald-500/5">
+              <CardContent className="py-4 flex items-start gap-3">
+                <FileSignature className="w-5 h-5 text-emerald-500 mt-0.5" />
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium text-foreground">
+                    Signed off by {activeSession.signed_off_by_email ?? 'unknown user'}
+                    {activeSession.signed_off_at && ` on ${formatDate(activeSession.signed_off_at)}`}
+                  </p>
+                  <p className="text-muted-foreground">
+                    Calculated balance at sign-off {formatAmount(Number(activeSession.calculated_balance))}, variance{' '}
+                    {formatAmount(Number(activeSession.variance))}.
+                    {Math.abs(Number(activeSession.calculated_balance) - balanceData.calculatedBalance) > 0.01 && (
+                      <span className="text-amber-500"> Transactions have changed since - the balance is now {formatAmount(balanceData.calculatedBalance)}.</span>
+                    )}
+                  </p>
+                  {activeSession.notes && <p className="text-muted-foreground">{activeSession.notes}</p>}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Balance Comparison Cards */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <Card>
@@ -396,7 +602,7 @@ export default function BankReconciliationPage() {
             description="How the calculated balance was derived"
             icon={Eye}
           >
-            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
               <div className="space-y-1">
                 <p className="text-xs text-muted-foreground">Opening Balance</p>
                 <p className="text-sm font-semibold tabular-nums text-foreground">
@@ -427,9 +633,37 @@ export default function BankReconciliationPage() {
                   -{formatAmount(balanceData.capitalDrawings)}
                 </p>
               </div>
+              {balanceData.netTransfers !== 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Net Transfers</p>
+                  <p className="text-sm font-semibold tabular-nums text-sky-500">
+                    {formatAmount(balanceData.netTransfers)}
+                  </p>
+                </div>
+              )}
             </div>
           </PageSection>
 
+          {/* Per-account balances when reconciling all accounts */}
+          {balanceData.accountBalances.length > 0 && (
+            <PageSection
+              title="Balance by Account"
+              description={`Calculated balance of each account at ${formatDate(reconciledDate)}`}
+              icon={Landmark}
+            >
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {balanceData.accountBalances.map(account => (
+                  <div key={account.id} className="space-y-1">
+                    <p className="text-xs text-muted-foreground truncate">{account.name}</p>
+                    <p className="text-sm font-semibold tabular-nums text-foreground">
+                      {formatAmount(account.balance)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </PageSection>
+          )}
+
           {/* Summary Tips */}
           {varianceStatus !== 'green' && (
             <Card className="border-amber-500/25 bg-amber-500/5">
@@ -459,9 +693,10 @@ export default function BankReconciliationPage() {
                   </li>
                   <li className="flex items-start gap-2">
                     <span className="text-amber-500 mt-0.5">--</span>
-                    Ensure your opening balance is correct (currently {formatAmount(balanceData.openingBalance)}).
-                    You can update it via <code className="text-xs bg-muted px-1 py-0.5 rounded">localStorage</code> key{' '}
-                    <code className="text-xs bg-muted px-1 py-0.5 rounded">herbarium-opening-balance</code>.
+                    Ensure your opening balance is correct (currently {formatAmount(balanceData.openingBalance)}
+                    {balanceData.openingDate ? ` at ${formatDate(balanceData.openingDate)}` : ''}).
+                    You can update it on the{' '}
+                    <Link href="/bank-accounts" className="text-primary hover:underline">Bank Accounts</Link> page.
                   </li>
                   {variance !== null && variance < 0 && (
                     <li className="flex items-start gap-2">
@@ -556,6 +791,8 @@ export default function BankReconciliationPage() {
                               ? 'bg-emerald-500/15 text-emerald-500 border-emerald-500/25'
                               : tx.type === 'expenditure'
                               ? 'bg-rose-500/15 text-rose-500 border-rose-500/25'
+                              : tx.type === 'transfer'
+                              ? 'bg-sky-500/15 text-sky-500 border-sky-500/25'
                               : 'bg-violet-500/15 text-violet-500 border-violet-500/25'
                           }
                         >
@@ -568,6 +805,8 @@ export default function BankReconciliationPage() {
                               ? 'text-emerald-500'
                               : tx.type === 'expenditure'
                               ? 'text-rose-500'
+                              : tx.type === 'transfer'
+                              ? 'text-sky-500'
                               : 'text-violet-500'
                           }`}
                         >
@@ -578,6 +817,7 @@ export default function BankReconciliationPage() {
                           variant="ghost"
                           size="sm"
                           onClick={() => toggleFlag(tx.id)}
+                          disabled={isSignedOff}
                           className={`h-7 px-2 text-xs ${
                             flagStatus === 'verified'
                               ? 'text-emerald-500 hover:text-emerald-600'
@@ -608,8 +848,140 @@ export default function BankReconciliationPage() {
               </p>
             )}
           </PageSection>
+
+          {/* Sign-off */}
+          {!isSignedOff && (
+            <PageSection
+              title="Sign Off"
+              description="Signing off records who agreed this reconciliation and marks every transaction up to the statement date as reconciled"
+              icon={FileSignature}
+            >
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sign-off-notes">Notes</Label>
+                  <Textarea
+                    id="sign-off-notes"
+                    value={signOffNotes}
+                    onChange={(e) => setSignOffNotes(e.target.value)}
+                    placeholder="e.g. £3.20 difference is a pending card refund"
+                    rows={2}
+                  />
+                </div>
+                <Button
+                  onClick={() => (varianceStatus === 'green' ? handleSignOff() : setConfirmSignOff(true))}
+                  disabled={!sessionId || signOff.isPending || saveSession.isPending}
+                >
+                  {signOff.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <FileSignature className="w-4 h-4 mr-2" />
+                  )}
+                  Sign Off Reconciliation
+                </Button>
+              </div>
+            </PageSection>
+          )}
         </>
       )}
+
+      {/* Saved sessions */}
+      <PageSection
+        title="Reconciliation History"
+        description="Saved reconciliations - drafts can be reopened and finished later"
+        icon={History}
+      >
+        {isLoadingSessions ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No reconciliations saved yet. Reconcile a statement above to start one.
+          </p>
+        ) : (
+          <div className="divide-y divide-border">
+            {sessions.map(session => {
+              const items = session.reconciliation_session_items || [];
+              const suspicious = items.filter(i => i.flag === 'suspicious').length;
+
+              return (
+                <div
+                  key={session.id}
+                  className={`flex flex-col sm:flex-row sm:items-center gap-3 py-3 first:pt-0 last:pb-0 ${
+                    session.id === sessionId ? 'bg-muted/50 -mx-6 px-6' : ''
+                  }`}
+                >
+                  <div className="flex-1 min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-foreground">
+                        {formatDate(session.statement_date)} • {accountLabel(session.bank_account_id)}
+                      </p>
+                      <Badge
+                        variant="outline"
+                        className={
+                          session.status === 'signed_off'
+                            ? 'bg-emerald-500/15 text-emerald-500 border-emerald-500/25'
+                            : 'bg-amber-500/15 text-amber-500 border-amber-500/25'
+                        }
+                      >
+                        {session.status === 'signed_off' ? 'Signed off' : 'Draft'}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Statement {formatAmount(Number(session.statement_balance))} • Calculated{' '}
+                      {formatAmount(Number(session.calculated_balance))} • Variance {formatAmount(Number(session.variance))}
+                      {items.length > 0 && ` • ${items.length} flagged${suspicious > 0 ? ` (${suspicious} suspicious)` : ''}`}
+                    </p>
+                    {session.status === 'signed_off' && (
+                      <p className="text-xs text-muted-foreground">
+                        Signed off by {session.signed_off_by_email ?? 'unknown user'}
+                        {session.signed_off_at && ` on ${formatDate(session.signed_off_at)}`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => openSession(session)}>
+                      <Eye className="w-4 h-4 mr-1" />
+                      Open
+                    </Button>
+                    {session.status === 'draft' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          if (session.id === sessionId) {
+                            setSessionId(null);
+                            setHasReconciled(false);
+                          }
+                          deleteSession.mutate(session.id);
+                        }}
+                        disabled={deleteSession.isPending}
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </PageSection>
+
+      <ConfirmationDialog
+        isOpen={confirmSignOff}
+        onClose={() => setConfirmSignOff(false)}
+        onConfirm={handleSignOff}
+        title="Sign off with a variance?"
+        description={
+          variance !== null
+            ? `The calculated balance differs from the statement by ${formatAmount(variance)}. ` +
+              'Add a note explaining the difference before signing off.'
+            : ''
+        }
+        confirmText="Sign Off"
+        isLoading={signOff.isPending}
+      />
     </PageLayout>
   );
 }
@@ -0,0 +1,270 @@
+'use client';
+
+import { Fragment, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { format, startOfMonth } from 'date-fns';
+import { AlertTriangle, ArrowLeft, Check, CheckCheck, Info, ListChecks, Loader2, Scale, Undo2 } from 'lucide-react';
+import { PageEmptyState, PageLayout, PageListItem, PageSection } from '@/components/ui/page-layout';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBankAccounts } from '@/hooks/use-bank-accounts';
+import { useStatementLineMutations, useStatementLines } from '@/hooks/use-statement-lines';
+import { StatementReconciler, type BalanceBreak } from '@/lib/statement-reconciler';
+import { toStatementLineEntry } from '@/lib/statement-lines';
+import { formatCurrency, formatDate } from '@/lib/formatting';
+
+export default function StatementLineReconciliationPage() {
+  const [selectedAccount, setSelectedAccount] = useState('all');
+  const [fromDate, setFromDate] = useState(() => format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const { data: bankAccounts = [] } = useBankAccounts();
+  const { data, isLoading } = useStatementLines(selectedAccount, fromDate, toDate);
+  const { tickLines, untickLine } = useStatementLineMutations();
+
+  const lines = useMemo(() => (data?.lines ?? []).map(toStatementLineEntry), [data]);
+  const walked = useMemo(() => StatementReconciler.walk(lines), [lines]);
+  const suggestions = useMemo(
+    () => StatementReconciler.suggestTicks(lines, (data?.ledger ?? []).filter(entry => !entry.ticked)),
+    [lines, data]
+  );
+
+  const ledgerById = useMemo(() => new Map((data?.ledger ?? []).map(entry => [entry.id, entry])), [data]);
+  const suggestionByLine = useMemo(() => new Map(suggestions.map(s => [s.lineId, s])), [suggestions]);
+
+  // Ledger rows in the range that no statement line accounts for - usually duplicated or mis-dated imports
+  const ledgerOnly = useMemo(() => {
+    const suggested = new Set(suggestions.map(s => s.transactionId));
+    return (data?.ledger ?? []).filter(entry =>
+      !entry.ticked && !suggested.has(entry.id) && entry.date >= fromDate && entry.date <= toDate
+    );
+  }, [data, suggestions, fromDate, toDate]);
+
+  const tickedCount = lines.filter(l => l.transactionId).length;
+  const breakCount = walked.filter(w => w.balanceBreak).length;
+  const hasMultipleAccounts = new Set(lines.map(l => l.accountKey)).size > 1;
+
+  const accountName = (accountKey: string | null) =>
+    bankAccounts.find(a => a.id === accountKey)?.name ?? accountKey ?? 'Unassigned';
+
+  const describeBreak = (balanceBreak: BalanceBreak) =>
+    balanceBreak.kind === 'duplicate'
+      ? 'Balance is unchanged from the previous line - this row looks like a duplicate import.'
+      : `Balance jumps by ${formatCurrency(balanceBreak.difference)} (expected ${formatCurrency(balanceBreak.expectedBalance)}, ` +
+        `statement shows ${formatCurrency(balanceBreak.actualBalance)}) - rows are probably missing before this line.`;
+
+  return (
+    <PageLayout
+      title="Statement Lines"
+      description="Tick off each imported bank row against the ledger and find breaks in the running balance"
+      icon={ListChecks}
+      actions={
+        <Button asChild variant="outline">
+          <Link href="/bank-reconciliation">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Balance Reconciliation
+          </Link>
+        </Button>
+      }
+    >
+      <PageSection title="Statement Period" description="Choose the account and dates to walk through" icon={Info}>
+        <div className={`grid grid-cols-1 gap-6 items-end ${bankAccounts.length > 0 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+          {bankAccounts.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="lines-account">Account</Label>
+              <Select value={selectedAccount} onValueChange={setSelectedAccount}>
+                <SelectTrigger id="lines-account">
+                  <SelectValue placeholder="All accounts" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Accounts</SelectItem>
+                  {bankAccounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="lines-from">From</Label>
+            <Input
+              id="lines-from"
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="tabular-nums"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lines-to">To</Label>
+            <Input
+              id="lines-to"
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="tabular-nums"
+            />
+          </div>
+        </div>
+      </PageSection>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : lines.length === 0 ? (
+        <PageEmptyState
+          icon={ListChecks}
+          title="No statement lines in this period"
+          description="Statement lines are saved from completed rows when a bank export is imported."
+        />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="border rounded-lg p-4">
+              <p className="text-sm text-muted-foreground">Statement Lines</p>
+              <p className="text-2xl font-bold tabular-nums">{lines.length}</p>
+            </div>
+            <div className="border rounded-lg p-4">
+              <p className="text-sm text-muted-foreground">Ticked Off</p>
+              <p className="text-2xl font-bold tabular-nums text-green-600">{tickedCount}</p>
+            </div>
+            <div className="border rounded-lg p-4">
+              <p className="text-sm text-muted-foreground">Balance Breaks</p>
+              <p className={`text-2xl font-bold tabular-nums ${breakCount > 0 ? 'text-red-600' : ''}`}>{breakCount}</p>
+            </div>
+            <div className="border rounded-lg p-4">
+              <p className="text-sm text-muted-foreground">Ledger Only</p>
+              <p className={`text-2xl font-bold tabular-nums ${ledgerOnly.length > 0 ? 'text-amber-600' : ''}`}>{ledgerOnly.length}</p>
+            </div>
+          </div>
+
+          <PageSection
+            title="Bank Rows"
+            description="In statement order, with the running balance checked line by line"
+            icon={Scale}
+            actions={
+              <Button
+                size="sm"
+                onClick={() => tickLines.mutate(suggestions.map(({ lineId, transactionId }) => ({ lineId, transactionId })))}
+                disabled={suggestions.length === 0 || tickLines.isPending}
+              >
+                {tickLines.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCheck className="h-4 w-4 mr-2" />
+                )}
+                Tick Suggested ({suggestions.length})
+              </Button>
+            }
+          >
+            <div className="border rounded-lg">
+              {walked.map(({ line, balanceBreak }, index) => {
+                const suggestion = suggestionByLine.get(line.id);
+                const ticked = line.transactionId ? ledgerById.get(line.transactionId) : undefined;
+                const suggested = suggestion ? ledgerById.get(suggestion.transactionId) : undefined;
+                const startsAccount = hasMultipleAccounts && (index === 0 || walked[index - 1].line.accountKey !== line.accountKey);
+
+                return (
+                  <Fragment key={line.id}>
+                    {startsAccount && (
+                      <div className="px-4 py-2 bg-muted/50 border-b text-sm font-medium">{accountName(line.accountKey)}</div>
+                    )}
+                    {balanceBreak && (
+                      <div className="flex items-start gap-2 px-4 py-2 bg-red-50 dark:bg-red-950/30 border-b text-sm text-red-700 dark:text-red-400">
+                        <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        <span>{describeBreak(balanceBreak)}</span>
+                      </div>
+                    )}
+                    <PageListItem isLast={index === walked.length - 1}>
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="flex-1 min-w-0 space-y-0.5">
+                          <p className="text-sm font-medium truncate">{line.description}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatDate(line.date)}
+                            {line.fee !== 0 && ` • Fee ${formatCurrency(line.fee)}`}
+                          </p>
+                        </div>
+                        <div className="text-right w-28">
+                          <p className={`text-sm font-medium tabular-nums ${line.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {formatCurrency(line.amount)}
+                          </p>
+                          <p className="text-xs text-muted-foreground tabular-nums">{formatCurrency(line.balance)}</p>
+                        </div>
+                        <div className="w-64 flex items-center justify-end gap-2 min-w-0">
+                          {line.transactionId ? (
+                            <>
+                              <Badge className="bg-green-100 text-green-800">Ticked</Badge>
+                              {ticked && <span className="text-xs text-muted-foreground truncate">{ticked.description}</span>}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => untickLine.mutate(line.id)}
+                                disabled={untickLine.isPending}
+                                title="Untick"
+                              >
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          ) : suggestion && suggested ? (
+                            <>
+                              <span className="text-xs text-muted-foreground truncate">
+                                {formatDate(suggested.date)} • {suggested.description}
+                              </span>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => tickLines.mutate([{ lineId: line.id, transactionId: suggestion.transactionId }])}
+                                disabled={tickLines.isPending}
+                              >
+                                <Check className="h-4 w-4 mr-1" />
+                                Tick
+                              </Button>
+                            </>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">No ledger match</span>
+                          )}
+                        </div>
+                      </div>
+                    </PageListItem>
+                  </Fragment>
+                );
+              })}
+            </div>
+          </PageSection>
+
+          <PageSection
+            title="In Ledger, Not on Statement"
+            description="Transactions in this period that no bank row accounts for - often duplicated or mis-dated imports"
+            icon={AlertTriangle}
+          >
+            {ledgerOnly.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every ledger transaction in this period is on the statement.</p>
+            ) : (
+              <div className="border rounded-lg">
+                {ledgerOnly.map((entry, index) => (
+                  <PageListItem key={entry.id} isLast={index === ledgerOnly.length - 1}>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="min-w-0 space-y-0.5">
+                        <p className="text-sm font-medium truncate">{entry.description}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(entry.date)}
+                          {selectedAccount === 'all' && ` • ${accountName(entry.bankAccountId)}`}
+                        </p>
+                      </div>
+                      <p className={`text-sm font-medium tabular-nums ${entry.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatCurrency(entry.amount)}
+                      </p>
+                    </div>
+                  </PageListItem>
+                ))}
+              </div>
+            )}
+          </PageSection>
+        </>
+      )}
+    </PageLayout>
+  );
+}
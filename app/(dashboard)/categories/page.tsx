@@ -13,6 +13,9 @@ import { SortableHierarchyList } from '@/components/hierarchy/sortable-hierarchy
 import { CollapsiblePLPreview } from '@/components/hierarchy/collapsible-pl-preview';
 import { CreateCategoryForm } from '@/components/categories/category-picker';
 import { UnallocatedCategoriesPanel } from '@/components/categories/unallocated-categories-panel';
+import { CategoryVatSelect } from '@/components/categories/category-vat-select';
+import { CategorySa103Select } from '@/components/categories/category-sa103-select';
+import { CategoryBusinessUseSelect } from '@/components/categories/category-business-use-select';
 import { useUnallocatedCategoriesStats } from '@/hooks/use-unallocated-categories';
 import { useConfirmationDialog } from '@/components/ui/confirmation-dialog';
 import { toast } from 'sonner';
@@ -369,6 +372,8 @@ export default function CategoriesPage() {
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
+                        <CategoryVatSelect category={category} />
+                        <CategorySa103Select category={category} />
                         <Button
                           variant="ghost"
                           size="sm"
@@ -431,6 +436,9 @@ export default function CategoriesPage() {
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
+                        <CategoryVatSelect category={category} />
+                        <CategorySa103Select category={category} />
+                        <CategoryBusinessUseSelect category={category} />
                         <Button
                           variant="ghost"
                           size="sm"
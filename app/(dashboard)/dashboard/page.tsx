@@ -4,6 +4,7 @@ import { StatsCards } from '@/components/dashboard/stats-cards';
 import { IncomeVsExpenditureChart } from '@/components/dashboard/income-vs-expenditure-chart';
 import { RecentTransactions } from '@/components/dashboard/recent-transactions';
 import { IncomeExpenditurePieChart } from '@/components/dashboard/category-pie-chart';
+import { BudgetAlerts } from '@/components/dashboard/budget-alerts';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 
 function StatsCardsSkeleton() {
@@ -102,6 +103,11 @@ export default function DashboardPage() {
             </Suspense>
           </div>
         </div>
+
+        {/* Over-budget spending */}
+        <Suspense fallback={<TransactionsSkeleton />}>
+          <BudgetAlerts />
+        </Suspense>
       </div>
     </div>
   );
@@ -9,13 +9,18 @@ import { Progress } from '@/components/ui/progress';
 import { useRevolutImport } from '@/hooks/use-revolut-import';
 import { useCategorySuggestions } from '@/hooks/use-category-suggestions';
 import { useCategories } from '@/hooks/use-categories';
-import { useCommitImport } from '@/hooks/use-commit-import';
+import { useCommitImport, useGetCommitPreview } from '@/hooks/use-commit-import';
+import { useBankAccounts } from '@/hooks/use-bank-accounts';
+import { useBankCSVProfiles } from '@/hooks/import/use-bank-csv-profiles';
+import { CommitSummary } from '@/components/import/commit-summary';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { createClient } from '@/supabase/client';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
 import Link from 'next/link';
 import { format } from 'date-fns';
-import type { MatchingResult, TransactionMatch } from '@/lib/revolut-types';
+import type { MatchingResult, MatchStatus, TransactionMatch } from '@/lib/revolut-types';
+import type { CommitPlan } from '@/lib/import-commit-planner';
 
 interface ImportedTransaction {
   id: string;
@@ -23,6 +28,7 @@ interface ImportedTransaction {
   amount: number;
   transaction_date: string;
   type: 'income' | 'expenditure' | 'capital';
+  match_status: MatchStatus;
   category_id?: string;
   category?: {
     id: string;
@@ -38,10 +44,15 @@ export default function BankUploadPage() {
   const [importStats, setImportStats] = useState<MatchingResult | null>(null);
   const [currentStep, setCurrentStep] = useState<'upload' | 'processing' | 'review' | 'complete'>('upload');
 
-  const { importCSV, isProcessing } = useRevolutImport();
+  const { importFile, isProcessing } = useRevolutImport();
+  const { data: bankAccounts = [] } = useBankAccounts();
+  const { data: csvProfiles } = useBankCSVProfiles();
+  const [targetAccount, setTargetAccount] = useState<string>('auto');
   const { getSuggestionsForTransaction } = useCategorySuggestions();
   const { data: categories = [] } = useCategories();
   const { mutate: commitImport, isPending: isCommitting } = useCommitImport();
+  const { mutateAsync: getCommitPreview, isPending: isLoadingPreview } = useGetCommitPreview();
+  const [commitPlan, setCommitPlan] = useState<CommitPlan | null>(null);
   
   const supabase = createClient();
   
@@ -55,11 +66,14 @@ export default function BankUploadPage() {
 
     for (const transaction of transactionsWithCategories) {
       try {
+        // Matched rows keep their status so the commit links them instead of
+        // inserting a duplicate; everything else is marked reviewed
+        const isMatched = transaction.match_status === 'matched' || transaction.match_status === 'verified';
         const { error } = await supabase
           .from('imported_transactions_test')
           .update({ 
             suggested_category_id: transaction.category_id,
-            match_status: 'reviewed' // Mark as reviewed so commit knows to use the category
+            ...(!isMatched && { match_status: 'reviewed' })
           })
           .eq('id', transaction.id);
 
@@ -110,8 +124,12 @@ export default function BankUploadPage() {
     setCurrentStep('processing');
     
     try {
-      // Import the CSV file
-      const result = await importCSV(selectedFile);
+      // Import the statement file
+      const result = await importFile(selectedFile, {
+        source: 'bank_upload',
+        bankAccountId: targetAccount === 'auto' ? undefined : targetAccount,
+        csvProfiles,
+      });
       
       // Convert the matching result to our transaction format
       const transactions: ImportedTransaction[] = result.matches?.map((match: TransactionMatch) => ({
@@ -120,6 +138,7 @@ export default function BankUploadPage() {
         amount: match.importedTransaction.amount,
         transaction_date: match.importedTransaction.completed_date || match.importedTransaction.started_date,
         type: match.importedTransaction.amount > 0 ? 'income' : 'expenditure',
+        match_status: match.status,
         category_id: match.suggestedCategory?.id,
         category: match.suggestedCategory,
       })) || [];
@@ -193,7 +212,7 @@ export default function BankUploadPage() {
               </h1>
             </div>
             <p className="text-xl text-muted-foreground max-w-3xl mx-auto leading-relaxed">
-              Import your Revolut CSV with intelligent categorization and duplicate detection
+              Import your Revolut CSV or any bank&apos;s OFX/QFX, CAMT.053 or MT940 statement with intelligent categorization and duplicate detection
             </p>
           </div>
           
@@ -239,7 +258,7 @@ export default function BankUploadPage() {
         {currentStep === 'upload' && (
           <Card>
             <CardHeader>
-              <CardTitle>Upload Your Revolut CSV File</CardTitle>
+              <CardTitle>Upload Your Bank Statement</CardTitle>
             </CardHeader>
             <CardContent>
               <div
@@ -264,6 +283,23 @@ export default function BankUploadPage() {
                       </p>
                     </div>
                     
+                    {bankAccounts.length > 0 && (
+                      <div className="flex items-center justify-center gap-2">
+                        <span className="text-sm text-muted-foreground">Import into</span>
+                        <Select value={targetAccount} onValueChange={setTargetAccount}>
+                          <SelectTrigger className="w-64">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">Auto-detect from Product or account number</SelectItem>
+                            {bankAccounts.filter(a => a.is_active).map(account => (
+                              <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
                     <div className="flex justify-center space-x-3">
                       <Button onClick={() => setSelectedFile(null)} variant="outline">
                         Remove File
@@ -276,11 +312,11 @@ export default function BankUploadPage() {
                 ) : (
                   <div className="space-y-4">
                     <p className="text-lg text-muted-foreground">
-                      Drag and drop your Revolut CSV file here, or click to browse
+                      Drag and drop your Revolut CSV or OFX/QFX, CAMT.053 or MT940 file here, or click to browse
                     </p>
                     <input
                       type="file"
-                      accept=".csv"
+                      accept=".csv,.ofx,.qfx,.xml,.camt,.053,.sta,.mt940,.940,.txt"
                       onChange={handleFileInput}
                       className="hidden"
                       id="file-input"
@@ -291,7 +327,7 @@ export default function BankUploadPage() {
                       </Button>
                     </label>
                     <p className="text-sm text-muted-foreground">
-                      Supports CSV files up to 10MB
+                      Supports CSV, OFX, QFX, CAMT.053 (XML) and MT940 files up to 10MB
                     </p>
                   </div>
                 )}
@@ -314,6 +350,19 @@ export default function BankUploadPage() {
                       <span className="w-5 h-5 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center text-xs font-medium">3</span>
                       <p>Download and upload here</p>
                     </div>
+                    <p className="pt-2">
+                      Other banks: download the statement as OFX or QFX (sometimes labelled Microsoft Money or
+                      Quicken). Rows are checked for duplicates by the bank&apos;s transaction id.
+                    </p>
+                    <p>
+                      UK bank CSVs: Monzo, Starling, Barclays, HSBC, Lloyds, NatWest, Tide and Revolut Business
+                      exports are recognised from their headers, as are CSV profiles saved on the transactions import.
+                      Revolut Business rows are checked for duplicates by their Revolut transaction ID.
+                    </p>
+                    <p>
+                      Business accounts: CAMT.053 (ISO 20022 XML) and MT940 statements keep the counterparty
+                      name and payment reference separate, so categorisation patterns can match on who was paid.
+                    </p>
                   </div>
                 </div>
                 
@@ -352,7 +401,7 @@ export default function BankUploadPage() {
                     <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
                       <CheckCircle className="h-5 w-5 text-blue-600" />
                     </div>
-                    <span>Parsing CSV file and validating transactions</span>
+                    <span>Parsing statement file and validating transactions</span>
                   </div>
                   <div className="flex items-center space-x-3">
                     <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
@@ -394,25 +443,18 @@ export default function BankUploadPage() {
                           // First save category assignments to database
                           await saveCategoryAssignments();
                           
-                          // Then commit the import
-                          commitImport(undefined, {
-                            onSuccess: () => {
-                              setCurrentStep('complete');
-                              toast.success('Transactions successfully committed to database!');
-                            },
-                            onError: (error) => {
-                              toast.error(`Failed to commit transactions: ${error.message}`);
-                            }
-                          });
+                          // Then show what the commit will do before anything is written
+                          const preview = await getCommitPreview();
+                          setCommitPlan(preview.plan);
                         } catch (error) {
-                          toast.error('Failed to save category assignments');
-                          console.error('Error saving categories:', error);
+                          toast.error('Failed to prepare commit preview');
+                          console.error('Error preparing commit:', error);
                         }
                       }}
-                      disabled={isCommitting}
+                      disabled={isCommitting || isLoadingPreview}
                       className="bg-green-600 hover:bg-green-700"
                     >
-                      {isCommitting ? 'Committing...' : `Commit ${importedTransactions.length} Transactions to Database`}
+                      {isLoadingPreview ? 'Preparing...' : `Review & Commit ${importedTransactions.length} Transactions`}
                     </Button>
                   </div>
                 </div>
@@ -456,7 +498,7 @@ export default function BankUploadPage() {
                     <h4 className="font-medium text-blue-800">Important: Two-Step Process</h4>
                     <p className="text-blue-700 mt-1">
                       Your transactions have been analyzed but are not yet saved to the database.
-                      {`Click "Commit Transactions" above to permanently save them. This will replace your existing manual transactions.`}
+                      {`Click "Review & Commit" above to see what will be inserted, linked or skipped before saving. Existing transactions are never changed.`}
                     </p>
                   </div>
                 </div>
@@ -597,6 +639,42 @@ export default function BankUploadPage() {
           </div>
         )}
 
+        {/* Commit summary - reviewed before anything is written */}
+        <Dialog open={!!commitPlan} onOpenChange={(open) => !open && setCommitPlan(null)}>
+          <DialogContent className="sm:max-w-[720px]">
+            <DialogHeader>
+              <DialogTitle>Review Commit</DialogTitle>
+              <DialogDescription>
+                Unmatched rows are inserted, matched rows are linked to the transaction they match,
+                and unresolved rows stay in the import. Nothing else is changed.
+              </DialogDescription>
+            </DialogHeader>
+            {commitPlan && <CommitSummary plan={commitPlan} />}
+            <DialogFooter className="flex gap-2 mt-4">
+              <Button variant="outline" onClick={() => setCommitPlan(null)} disabled={isCommitting}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => {
+                  commitImport({ mode: 'incremental' }, {
+                    onSuccess: () => {
+                      setCommitPlan(null);
+                      setCurrentStep('complete');
+                    },
+                    onError: (error) => {
+                      toast.error(`Failed to commit transactions: ${error.message}`);
+                    }
+                  });
+                }}
+                disabled={isCommitting || (!!commitPlan && commitPlan.summary.inserted + commitPlan.summary.linked === 0)}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                {isCommitting ? 'Committing...' : 'Commit Changes'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Step 4: Complete */}
         {currentStep === 'complete' && (
           <Card>
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, FileText, History, Loader2, Undo2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { PageEmptyState, PageLayout, PageListItem, PageSection } from '@/components/ui/page-layout';
+import { useImportBatches, useRollbackImportBatch } from '@/hooks/use-import-batches';
+import { IMPORT_SOURCE_LABELS, type ImportBatch, type ImportBatchStatus } from '@/lib/import-batches';
+import { formatNumber } from '@/lib/formatting';
+
+const STATUS_STYLES: Record<ImportBatchStatus, { label: string; className: string }> = {
+  staged: { label: 'Staged', className: 'bg-yellow-100 text-yellow-800' },
+  committed: { label: 'Committed', className: 'bg-green-100 text-green-800' },
+  rolled_back: { label: 'Rolled Back', className: 'bg-muted text-muted-foreground' },
+};
+
+export default function ImportHistoryPage() {
+  const { data: batches = [], isLoading } = useImportBatches();
+  const rollback = useRollbackImportBatch();
+  const [batchToRollback, setBatchToRollback] = useState<ImportBatch | null>(null);
+
+  const handleConfirmRollback = async () => {
+    if (!batchToRollback) return;
+    try {
+      await rollback.mutateAsync(batchToRollback.id);
+    } finally {
+      setBatchToRollback(null);
+    }
+  };
+
+  return (
+    <PageLayout
+      title="Import History"
+      description="Every import run, with the option to undo one cleanly"
+      icon={History}
+      actions={
+        <Button asChild variant="outline">
+          <Link href="/import">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Database Management
+          </Link>
+        </Button>
+      }
+    >
+      <PageSection
+        title="Import Batches"
+        description="Rolling back removes the batch's transactions, their metadata and any pattern learning it caused"
+        icon={FileText}
+      >
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : batches.length === 0 ? (
+          <PageEmptyState
+            icon={History}
+            title="No imports yet"
+            description="Imports from Revolut, bank uploads and transaction CSVs will appear here."
+          />
+        ) : (
+          <div className="border rounded-lg">
+            {batches.map((batch, index) => (
+              <PageListItem key={batch.id} isLast={index === batches.length - 1}>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{batch.file_name}</p>
+                      <Badge className={STATUS_STYLES[batch.status].className}>
+                        {STATUS_STYLES[batch.status].label}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {IMPORT_SOURCE_LABELS[batch.source]} • {new Date(batch.created_at).toLocaleString('en-GB')}
+                      {batch.file_checksum && <> • <span className="font-mono">{batch.file_checksum.slice(0, 12)}</span></>}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatNumber(batch.total_rows)} rows • {formatNumber(batch.imported_rows)} imported •{' '}
+                      {formatNumber(batch.duplicate_rows)} duplicates • {formatNumber(batch.failed_rows)} failed •{' '}
+                      {formatNumber(batch.committed_rows)} committed
+                    </p>
+                    {batch.rolled_back_at && (
+                      <p className="text-xs text-muted-foreground">
+                        Rolled back {new Date(batch.rolled_back_at).toLocaleString('en-GB')}
+                      </p>
+                    )}
+                  </div>
+                  {batch.status !== 'rolled_back' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setBatchToRollback(batch)}
+                      disabled={rollback.isPending}
+                    >
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Roll Back
+                    </Button>
+                  )}
+                </div>
+              </PageListItem>
+            ))}
+          </div>
+        )}
+      </PageSection>
+
+      <ConfirmationDialog
+        isOpen={!!batchToRollback}
+        onClose={() => setBatchToRollback(null)}
+        onConfirm={handleConfirmRollback}
+        title="Roll back import?"
+        description={
+          batchToRollback
+            ? `This undoes the ${formatNumber(batchToRollback.committed_rows)} rows committed from "${batchToRollback.file_name}": ` +
+              'transactions it created are removed with their notes, bank details it added to existing transactions ' +
+              'are cleared and any categorisation patterns learned from them are reverted. This cannot be undone.'
+            : ''
+        }
+        confirmText="Roll Back"
+        variant="destructive"
+        isLoading={rollback.isPending}
+      />
+    </PageLayout>
+  );
+}
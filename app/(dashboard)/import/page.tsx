@@ -2,7 +2,7 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Database, CreditCard, ShoppingCart, RotateCcw, CheckCircle } from 'lucide-react';
+import { Database, CreditCard, FileText, ShoppingCart, RotateCcw, CheckCircle, History } from 'lucide-react';
 import Link from 'next/link';
 
 const managementSections = [
@@ -22,6 +22,21 @@ const managementSections = [
     action: 'Import Revolut CSV',
     featured: true,
   },
+  {
+    title: 'QIF Import',
+    description: 'Bring in historical data exported as QIF from desktop accounting tools',
+    icon: FileText,
+    href: '/import/qif',
+    status: 'Available',
+    statusColor: 'green',
+    features: [
+      'Bank, credit card and cash accounts',
+      'Split transactions become one line per category',
+      'Map QIF categories onto yours',
+      'Skips transactions already in the ledger'
+    ],
+    action: 'Import QIF File',
+  },
   {
     title: 'Pattern Management',
     description: 'Manage categorization patterns for intelligent transaction processing',
@@ -37,6 +52,21 @@ const managementSections = [
     ],
     action: 'Manage Patterns',
   },
+  {
+    title: 'Import History',
+    description: 'Review past imports and roll back any run that went wrong',
+    icon: History,
+    href: '/import/history',
+    status: 'Available',
+    statusColor: 'green',
+    features: [
+      'Every import run recorded with its file',
+      'Duplicate file detection by checksum',
+      'One-click rollback of a single import',
+      'Reverses pattern learning from the import'
+    ],
+    action: 'View Import History',
+  },
   {
     title: 'Shopify Integration',
     description: 'Connect your Shopify store for detailed sales analytics and income tracking',
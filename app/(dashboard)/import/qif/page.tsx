@@ -0,0 +1,236 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, CheckCircle, FileText, Loader2, Tags, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PageLayout, PageSection } from '@/components/ui/page-layout';
+import { QIFCategoryMapping } from '@/components/import/qif-category-mapping';
+import { useQIFImport, type QIFImportResult } from '@/hooks/import/use-qif-import';
+import { useBankAccounts } from '@/hooks/use-bank-accounts';
+import { useCategories } from '@/hooks/use-categories';
+import { computeFileChecksum } from '@/lib/import-batches';
+import { formatDate } from '@/lib/formatting';
+import {
+  QIF_ACCOUNT_TYPE_LABELS,
+  detectQIFDateFormat,
+  parseQIF,
+  qifImportLines,
+  suggestQIFCategoryIds,
+  type QIFDateFormat,
+} from '@/lib/qif';
+
+const NO_ACCOUNT = 'none';
+
+export default function ImportQIFPage() {
+  const { data: bankAccounts = [] } = useBankAccounts();
+  const { data: categories = [] } = useCategories();
+  const qifImport = useQIFImport();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [content, setContent] = useState('');
+  const [dateFormat, setDateFormat] = useState<QIFDateFormat>('dmy');
+  const [bankAccountId, setBankAccountId] = useState(NO_ACCOUNT);
+  const [categoryIds, setCategoryIds] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<QIFImportResult | null>(null);
+  const [error, setError] = useState('');
+
+  const records = useMemo(() => (content ? parseQIF(content, dateFormat) : []), [content, dateFormat]);
+  const lines = useMemo(() => qifImportLines(records), [records]);
+  const accountTypes = [...new Set(records.map(record => QIF_ACCOUNT_TYPE_LABELS[record.accountType]))];
+  const dates = lines.map(line => line.date).sort();
+  const splitRecords = records.filter(record => record.splits.length > 0).length;
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setError('');
+    setResult(null);
+
+    if (!selected.name.toLowerCase().endsWith('.qif')) {
+      setError('File must be a QIF file');
+      return;
+    }
+
+    const text = await selected.text();
+    const detected = detectQIFDateFormat(text);
+    const parsedLines = qifImportLines(parseQIF(text, detected));
+    if (parsedLines.length === 0) {
+      setError('No bank, card or cash transactions found in this file');
+      return;
+    }
+
+    setFile(selected);
+    setContent(text);
+    setDateFormat(detected);
+    setCategoryIds(suggestQIFCategoryIds(parsedLines, categories));
+  };
+
+  const handleCategoryChange = (key: string, categoryId: string | null) => {
+    setCategoryIds(current => {
+      const next = { ...current };
+      if (categoryId) next[key] = categoryId;
+      else delete next[key];
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    try {
+      const imported = await qifImport.mutateAsync({
+        lines,
+        categoryIds,
+        bankAccountId: bankAccountId === NO_ACCOUNT ? null : bankAccountId,
+        sourceFile: { fileName: file.name, checksum: await computeFileChecksum(file) },
+      });
+      setResult(imported);
+    } catch (importError) {
+      // Error toast already handled by mutation
+      console.error('Failed to import QIF file:', importError);
+    }
+  };
+
+  const handleStartOver = () => {
+    setFile(null);
+    setContent('');
+    setCategoryIds({});
+    setResult(null);
+    setError('');
+  };
+
+  return (
+    <PageLayout
+      title="Import QIF"
+      description="Bring in history from desktop accounting tools, mapping their categories onto yours"
+      icon={FileText}
+      actions={
+        <Link href="/import">
+          <Button variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Import
+          </Button>
+        </Link>
+      }
+    >
+      {result ? (
+        <PageSection title="Import Complete" icon={CheckCircle}>
+          <div className="grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+            <div>
+              <p className="text-muted-foreground">Imported</p>
+              <p className="text-2xl font-semibold text-green-600">{result.successful}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Already in ledger</p>
+              <p className="text-2xl font-semibold text-yellow-600">{result.duplicates}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Failed</p>
+              <p className="text-2xl font-semibold text-red-600">{result.failed}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Transfers paired</p>
+              <p className="text-2xl font-semibold">{result.transfersPaired}</p>
+            </div>
+          </div>
+          <div className="flex gap-3 pt-6">
+            <Button variant="outline" onClick={handleStartOver}>Import Another File</Button>
+            <Link href="/import/history">
+              <Button variant="outline">View Import History</Button>
+            </Link>
+            <Link href="/transactions">
+              <Button>View Transactions</Button>
+            </Link>
+          </div>
+        </PageSection>
+      ) : !file ? (
+        <PageSection
+          title="Upload QIF File"
+          description="Bank, credit card and cash accounts are imported, including split transactions. Investment accounts and category lists are skipped."
+          icon={Upload}
+        >
+          <div className="border-2 border-dashed rounded-lg p-8 text-center space-y-4">
+            <Upload className="h-12 w-12 text-muted-foreground mx-auto" />
+            <input
+              type="file"
+              accept=".qif"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="hidden"
+              id="qif-file-input"
+            />
+            <label htmlFor="qif-file-input" className="inline-block">
+              <Button variant="outline" className="cursor-pointer" asChild>
+                <span>Browse Files</span>
+              </Button>
+            </label>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        </PageSection>
+      ) : (
+        <>
+          <PageSection
+            title={file.name}
+            description={`${records.length} records${splitRecords > 0 ? `, ${splitRecords} split` : ''} → ${lines.length} transactions${dates.length > 0 ? ` from ${formatDate(dates[0])} to ${formatDate(dates[dates.length - 1])}` : ''}`}
+            icon={FileText}
+            actions={<Button variant="outline" onClick={handleStartOver}>Choose Another File</Button>}
+          >
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="qif-date-format">Date order</Label>
+                <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as QIFDateFormat)}>
+                  <SelectTrigger id="qif-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="dmy">Day first (31/12/2024)</SelectItem>
+                    <SelectItem value="mdy">Month first (12/31/2024)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="qif-account">Import into</Label>
+                <Select value={bankAccountId} onValueChange={setBankAccountId}>
+                  <SelectTrigger id="qif-account">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                    {bankAccounts.filter(a => a.is_active).map(account => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Account type in file</Label>
+                <p className="text-sm pt-2">{accountTypes.join(', ') || '—'}</p>
+              </div>
+            </div>
+          </PageSection>
+
+          <PageSection
+            title="Map Categories"
+            description="Choose one of your categories for each QIF category. Matching names are mapped already; anything left unmapped is imported uncategorised."
+            icon={Tags}
+          >
+            <QIFCategoryMapping lines={lines} categoryIds={categoryIds} onChange={handleCategoryChange} />
+            <div className="flex justify-end pt-6">
+              <Button onClick={handleImport} disabled={qifImport.isPending || lines.length === 0}>
+                {qifImport.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  `Import ${lines.length} Transactions`
+                )}
+              </Button>
+            </div>
+          </PageSection>
+        </>
+      )}
+    </PageLayout>
+  );
+}
@@ -4,19 +4,17 @@ import { useState, useEffect } from 'react';
 import { ArrowLeft, AlertTriangle, CheckCircle, Database, Trash2, Upload, Eye } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { useCommitImport, useGetCommitPreview } from '@/hooks/use-commit-import';
+import { Switch } from '@/components/ui/switch';
+import { CommitSummary } from '@/components/import/commit-summary';
+import { useCommitImport, useGetCommitPreview, type CommitPreview } from '@/hooks/use-commit-import';
+import type { CommitMode } from '@/lib/import-commit-planner';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 
 export default function CommitImportPage() {
   const [showConfirmation, setShowConfirmation] = useState(false);
-  const [previewData, setPreviewData] = useState<{
-    manualTransactionsToDelete: number;
-    totalImportedTransactions: number;
-    verifiedTransactions: number;
-    unmatchedTransactions: number;
-    rejectedTransactions: number;
-  } | null>(null);
+  const [mode, setMode] = useState<CommitMode>('incremental');
+  const [previewData, setPreviewData] = useState<CommitPreview | null>(null);
   
   const commitImport = useCommitImport();
   const getPreview = useGetCommitPreview();
@@ -34,7 +32,7 @@ export default function CommitImportPage() {
 
   const handleCommit = async () => {
     try {
-      await commitImport.mutateAsync();
+      await commitImport.mutateAsync({ mode });
       // Redirect to dashboard after successful commit
       setTimeout(() => {
         router.push('/dashboard');
@@ -93,134 +91,170 @@ export default function CommitImportPage() {
               <h1 className="text-3xl font-bold text-foreground">Commit Bank Import</h1>
             </div>
             <p className="text-muted-foreground">
-              Replace your manual transactions with bank data, preserving verified descriptions and categories.
+              {mode === 'incremental'
+                ? 'Add new bank transactions and link matches to your existing records. Nothing existing is changed.'
+                : 'Replace your manual transactions with bank data, preserving verified descriptions and categories.'}
             </p>
           </div>
         </div>
 
-        {/* Warning Card */}
-        <Card className="border-yellow-200 bg-yellow-50">
-          <div className="p-6">
-            <div className="flex items-start space-x-3">
-              <AlertTriangle className="h-6 w-6 text-yellow-600 mt-1" />
-              <div>
-                <h3 className="text-lg font-semibold text-yellow-800 mb-2">Important: This Action Cannot Be Undone</h3>
-                <p className="text-yellow-700 mb-4">
-                  This will permanently delete all your existing manual transactions and replace them with bank data. 
-                  {`Make sure you've verified all important matches before proceeding.`}
-                </p>
-                <div className="text-sm text-yellow-600">
-                  <strong>Backup Recommendation:</strong> Consider exporting your current data before proceeding.
-                </div>
-              </div>
+        {/* Commit Mode */}
+        <Card className="p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-semibold text-foreground">Replace all transactions</h3>
+              <p className="text-sm text-muted-foreground">
+                Off (recommended): only unmatched rows are inserted. On: every existing transaction is deleted first.
+              </p>
             </div>
+            <Switch
+              checked={mode === 'replace'}
+              onCheckedChange={(checked) => {
+                setMode(checked ? 'replace' : 'incremental');
+                setShowConfirmation(false);
+              }}
+            />
           </div>
         </Card>
 
-        {/* Preview Summary */}
-        <Card className="p-6">
-          <h3 className="text-xl font-semibold mb-6">Commit Preview</h3>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* What Will Be Deleted */}
-            <div className="space-y-4">
-              <h4 className="font-medium text-red-700 flex items-center">
-                <Trash2 className="h-4 w-4 mr-2" />
-                Will Be Deleted
-              </h4>
-              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-red-700">{previewData.manualTransactionsToDelete}</div>
-                  <div className="text-sm text-red-600">Manual Transactions</div>
+        {mode === 'incremental' && (
+          <Card className="p-6">
+            <h3 className="text-xl font-semibold mb-2">Commit Preview</h3>
+            <p className="text-sm text-muted-foreground mb-6">
+              Review exactly what will be written. Manual entries, notes and category edits are left untouched.
+            </p>
+            <CommitSummary plan={previewData.plan} />
+          </Card>
+        )}
+
+        {mode === 'replace' && (
+          <>
+            {/* Warning Card */}
+            <Card className="border-yellow-200 bg-yellow-50">
+              <div className="p-6">
+                <div className="flex items-start space-x-3">
+                  <AlertTriangle className="h-6 w-6 text-yellow-600 mt-1" />
+                  <div>
+                    <h3 className="text-lg font-semibold text-yellow-800 mb-2">Important: This Action Cannot Be Undone</h3>
+                    <p className="text-yellow-700 mb-4">
+                      This will permanently delete all your existing manual transactions and replace them with bank data. 
+                      {`Make sure you've verified all important matches before proceeding.`}
+                    </p>
+                    <div className="text-sm text-yellow-600">
+                      <strong>Backup Recommendation:</strong> Consider exporting your current data before proceeding.
+                    </div>
+                  </div>
                 </div>
               </div>
-            </div>
+            </Card>
 
-            {/* What Will Be Added */}
-            <div className="space-y-4">
-              <h4 className="font-medium text-green-700 flex items-center">
-                <Upload className="h-4 w-4 mr-2" />
-                Will Be Added
-              </h4>
-              <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-green-700">{previewData.totalImportedTransactions}</div>
-                  <div className="text-sm text-green-600">Bank Transactions</div>
+            {/* Preview Summary */}
+            <Card className="p-6">
+              <h3 className="text-xl font-semibold mb-6">Commit Preview</h3>
+              
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* What Will Be Deleted */}
+                <div className="space-y-4">
+                  <h4 className="font-medium text-red-700 flex items-center">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Will Be Deleted
+                  </h4>
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-red-700">{previewData.manualTransactionsToDelete}</div>
+                      <div className="text-sm text-red-600">Manual Transactions</div>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
-          </div>
 
-          {/* Detailed Breakdown */}
-          <div className="mt-8 space-y-4">
-            <h4 className="font-medium text-foreground">Transaction Breakdown</h4>
-            
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 text-center">
-                <div className="text-xl font-bold text-purple-700">{previewData.verifiedTransactions}</div>
-                <div className="text-sm text-purple-600">Verified</div>
-                <div className="text-xs text-purple-500 mt-1">Will keep your descriptions & categories</div>
+                {/* What Will Be Added */}
+                <div className="space-y-4">
+                  <h4 className="font-medium text-green-700 flex items-center">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Will Be Added
+                  </h4>
+                  <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-green-700">{previewData.totalImportedTransactions}</div>
+                      <div className="text-sm text-green-600">Bank Transactions</div>
+                    </div>
+                  </div>
+                </div>
               </div>
-              
-              <div className="bg-muted border border-border rounded-lg p-4 text-center">
-                <div className="text-xl font-bold text-foreground">{previewData.unmatchedTransactions}</div>
-                <div className="text-sm text-muted-foreground">Unmatched</div>
-                <div className="text-xs text-muted-foreground mt-1">Ready for categorization</div>
+
+              {/* Detailed Breakdown */}
+              <div className="mt-8 space-y-4">
+                <h4 className="font-medium text-foreground">Transaction Breakdown</h4>
+                
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 text-center">
+                    <div className="text-xl font-bold text-purple-700">{previewData.verifiedTransactions}</div>
+                    <div className="text-sm text-purple-600">Verified</div>
+                    <div className="text-xs text-purple-500 mt-1">Will keep your descriptions & categories</div>
+                  </div>
+                  
+                  <div className="bg-muted border border-border rounded-lg p-4 text-center">
+                    <div className="text-xl font-bold text-foreground">{previewData.unmatchedTransactions}</div>
+                    <div className="text-sm text-muted-foreground">Unmatched</div>
+                    <div className="text-xs text-muted-foreground mt-1">Ready for categorization</div>
+                  </div>
+                  
+                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-center">
+                    <div className="text-xl font-bold text-blue-700">{previewData.rejectedTransactions}</div>
+                    <div className="text-sm text-blue-600">Rejected</div>
+                    <div className="text-xs text-blue-500 mt-1">Will use bank descriptions</div>
+                  </div>
+                </div>
               </div>
+            </Card>
+
+            {/* What Will Happen */}
+            <Card className="p-6">
+              <h3 className="text-xl font-semibold mb-4">What Will Happen</h3>
               
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-center">
-                <div className="text-xl font-bold text-blue-700">{previewData.rejectedTransactions}</div>
-                <div className="text-sm text-blue-600">Rejected</div>
-                <div className="text-xs text-blue-500 mt-1">Will use bank descriptions</div>
+              <div className="space-y-4">
+                <div className="flex items-start space-x-3">
+                  <div className="w-6 h-6 bg-red-100 text-red-600 rounded-full flex items-center justify-center text-xs font-medium">1</div>
+                  <div>
+                    <p className="font-medium text-foreground">Delete All Manual Transactions</p>
+                    <p className="text-sm text-muted-foreground">Your {previewData.manualTransactionsToDelete} existing manual transactions will be permanently removed.</p>
+                  </div>
+                </div>
+                
+                <div className="flex items-start space-x-3">
+                  <div className="w-6 h-6 bg-green-100 text-green-600 rounded-full flex items-center justify-center text-xs font-medium">2</div>
+                  <div>
+                    <p className="font-medium text-foreground">Import Bank Transactions</p>
+                    <p className="text-sm text-muted-foreground">All {previewData.totalImportedTransactions} bank transactions will become your new main transaction data.</p>
+                  </div>
+                </div>
+                
+                <div className="flex items-start space-x-3">
+                  <div className="w-6 h-6 bg-purple-100 text-purple-600 rounded-full flex items-center justify-center text-xs font-medium">3</div>
+                  <div>
+                    <p className="font-medium text-foreground">Preserve Verified Data</p>
+                    <p className="text-sm text-muted-foreground">
+                      {previewData.verifiedTransactions} verified transactions will use your detailed descriptions and categories
+                      {` (e.g., "Amazon - Natural Calico tablecloth" instead of just "Amazon").`}
+                    </p>
+                  </div>
+                </div>
+                
+                <div className="flex items-start space-x-3">
+                  <div className="w-6 h-6 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center text-xs font-medium">4</div>
+                  <div>
+                    <p className="font-medium text-foreground">Ready for Categorization</p>
+                    <p className="text-sm text-muted-foreground">
+                      {previewData.unmatchedTransactions + previewData.rejectedTransactions} transactions will be uncategorized 
+                      and ready for you to assign categories.
+                    </p>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-        </Card>
+            </Card>
 
-        {/* What Will Happen */}
-        <Card className="p-6">
-          <h3 className="text-xl font-semibold mb-4">What Will Happen</h3>
-          
-          <div className="space-y-4">
-            <div className="flex items-start space-x-3">
-              <div className="w-6 h-6 bg-red-100 text-red-600 rounded-full flex items-center justify-center text-xs font-medium">1</div>
-              <div>
-                <p className="font-medium text-foreground">Delete All Manual Transactions</p>
-                <p className="text-sm text-muted-foreground">Your {previewData.manualTransactionsToDelete} existing manual transactions will be permanently removed.</p>
-              </div>
-            </div>
-            
-            <div className="flex items-start space-x-3">
-              <div className="w-6 h-6 bg-green-100 text-green-600 rounded-full flex items-center justify-center text-xs font-medium">2</div>
-              <div>
-                <p className="font-medium text-foreground">Import Bank Transactions</p>
-                <p className="text-sm text-muted-foreground">All {previewData.totalImportedTransactions} bank transactions will become your new main transaction data.</p>
-              </div>
-            </div>
-            
-            <div className="flex items-start space-x-3">
-              <div className="w-6 h-6 bg-purple-100 text-purple-600 rounded-full flex items-center justify-center text-xs font-medium">3</div>
-              <div>
-                <p className="font-medium text-foreground">Preserve Verified Data</p>
-                <p className="text-sm text-muted-foreground">
-                  {previewData.verifiedTransactions} verified transactions will use your detailed descriptions and categories
-                  {` (e.g., "Amazon - Natural Calico tablecloth" instead of just "Amazon").`}
-                </p>
-              </div>
-            </div>
-            
-            <div className="flex items-start space-x-3">
-              <div className="w-6 h-6 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center text-xs font-medium">4</div>
-              <div>
-                <p className="font-medium text-foreground">Ready for Categorization</p>
-                <p className="text-sm text-muted-foreground">
-                  {previewData.unmatchedTransactions + previewData.rejectedTransactions} transactions will be uncategorized 
-                  and ready for you to assign categories.
-                </p>
-              </div>
-            </div>
-          </div>
-        </Card>
+          </>
+        )}
 
         {/* Action Buttons */}
         <div className="flex items-center justify-between">
@@ -237,7 +271,8 @@ export default function CommitImportPage() {
             {!showConfirmation ? (
               <Button 
                 onClick={() => setShowConfirmation(true)}
-                className="bg-red-600 hover:bg-red-700"
+                className={mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'}
+                disabled={mode === 'incremental' && previewData.plan.summary.inserted + previewData.plan.summary.linked === 0}
               >
                 <Database className="h-4 w-4 mr-2" />
                 Commit Import
@@ -253,7 +288,7 @@ export default function CommitImportPage() {
                 <Button 
                   onClick={handleCommit}
                   disabled={commitImport.isPending}
-                  className="bg-red-600 hover:bg-red-700"
+                  className={mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'}
                 >
                   {commitImport.isPending ? (
                     <>
@@ -263,7 +298,7 @@ export default function CommitImportPage() {
                   ) : (
                     <>
                       <CheckCircle className="h-4 w-4 mr-2" />
-                      Yes, Replace All Data
+                      {mode === 'replace' ? 'Yes, Replace All Data' : 'Yes, Commit Changes'}
                     </>
                   )}
                 </Button>
@@ -272,7 +307,28 @@ export default function CommitImportPage() {
           </div>
         </div>
 
-        {showConfirmation && (
+        {showConfirmation && mode === 'incremental' && (
+          <Card className="border-green-200 bg-green-50">
+            <div className="p-6">
+              <div className="flex items-start space-x-3">
+                <CheckCircle className="h-6 w-6 text-green-600 mt-1" />
+                <div>
+                  <h3 className="text-lg font-semibold text-green-800 mb-2">Confirm Commit</h3>
+                  <div className="text-sm text-green-700">
+                    <strong>This will:</strong>
+                    <ul className="list-disc list-inside mt-1 space-y-1">
+                      <li>Insert {previewData.plan.summary.inserted} new bank transactions</li>
+                      <li>Link {previewData.plan.summary.linked} imported rows to existing transactions without changing them</li>
+                      <li>Leave {previewData.plan.summary.skipped} unresolved rows in the import for later review</li>
+                    </ul>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {showConfirmation && mode === 'replace' && (
           <Card className="border-red-200 bg-red-50">
             <div className="p-6">
               <div className="flex items-start space-x-3">
@@ -305,7 +361,9 @@ export default function CommitImportPage() {
                 <div>
                   <h3 className="text-lg font-semibold text-green-800 mb-2">Import Committed Successfully!</h3>
                   <p className="text-green-700 mb-4">
-                    Your bank transactions are now your main transaction data. Redirecting to dashboard...
+                    {mode === 'replace'
+                      ? 'Your bank transactions are now your main transaction data.'
+                      : 'Your bank transactions have been added alongside your existing data.'} Redirecting to dashboard...
                   </p>
                 </div>
               </div>
@@ -15,7 +15,7 @@ export default function RevolutImportPage() {
   const [importResult, setImportResult] = useState<MatchingResult | null>(null);
   const [dragActive, setDragActive] = useState(false);
 
-  const { importCSV, isProcessing, importStats } = useRevolutImport();
+  const { importFile, isProcessing, importStats } = useRevolutImport();
   const { data: statistics } = useImportStatistics();
   const clearImportedTransactions = useClearImportedTransactions();
 
@@ -56,7 +56,7 @@ export default function RevolutImportPage() {
     if (!selectedFile) return;
 
     try {
-      const result = await importCSV(selectedFile);
+      const result = await importFile(selectedFile);
       setImportResult(result);
     } catch (error) {
       console.error('Import failed:', error);
@@ -102,7 +102,7 @@ export default function RevolutImportPage() {
             </h1>
           </div>
           <p className="text-xl text-muted-foreground max-w-3xl mx-auto leading-relaxed">
-            Import your Revolut CSV export and match transactions with existing manual entries. 
+            Import your Revolut or Revolut Business CSV export and match transactions with existing manual entries. 
             {`This is a safe testing environment that won't overwrite your existing data.`}
           </p>
         </div>
@@ -286,6 +286,12 @@ export default function RevolutImportPage() {
                     <span>Expenditure:</span>
                     <span className="font-medium">{formatCurrency(importStats.expenditureAmount)}</span>
                   </div>
+                  {importStats.transferAmount > 0 && (
+                    <div className="flex justify-between text-sky-600">
+                      <span>Transfers between products:</span>
+                      <span className="font-medium">{formatCurrency(importStats.transferAmount)}</span>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -395,6 +401,9 @@ export default function RevolutImportPage() {
               <div className="w-6 h-6 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center text-xs font-medium">4</div>
               <p>Download the file and upload it here</p>
             </div>
+            <p className="pt-2">
+              {`Revolut Business: go to "Transactions" → "Statement", choose "CSV" and upload the export as it is. Rows are checked for duplicates by their Revolut transaction ID.`}
+            </p>
           </div>
         </Card>
       </div>
@@ -8,7 +8,10 @@ import Link from 'next/link';
 import { FileUploader } from '@/components/import/file-uploader';
 import { TransactionImportPreview } from '@/components/import/transaction-import-preview';
 import { ProgressTracker } from '@/components/import/progress-tracker';
-import { useTransactionImport } from '@/hooks/import/use-transaction-import';
+import { useTransactionImport, type TransactionImportType } from '@/hooks/import/use-transaction-import';
+import { useBankCSVProfiles } from '@/hooks/import/use-bank-csv-profiles';
+import { computeFileChecksum } from '@/lib/import-batches';
+import { BANK_CSV_PROFILES, readCSVFile, type BankCSVProfile } from '@/lib/bank-csv-profiles';
 
 type ImportStep = 'upload' | 'preview' | 'importing' | 'complete';
 
@@ -16,20 +19,40 @@ export default function ImportTransactionsPage() {
   const [currentStep, setCurrentStep] = useState<ImportStep>('upload');
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [parsedData, setParsedData] = useState<Record<string, string>[]>([]);
+  const [detectedProfile, setDetectedProfile] = useState<BankCSVProfile | null>(null);
   const [importResults, setImportResults] = useState<{ total: number; successful: number; duplicates: number; failed: number; strategy: string; errors: string[]; duplicateDetails?: { transaction: { date: string; supplier: string; description: string; amount: number }; reason: string; fingerprint: string }[] } | null>(null);
 
   const { importTransactions, isImporting } = useTransactionImport();
+  const { data: profiles } = useBankCSVProfiles();
+
+  const handleFileUpload = async (file: File, data: Record<string, string>[]) => {
+    // A known bank export is re-read with its profile - headerless files and
+    // non-UTF-8 encodings need the raw file rather than the uploader's rows
+    let rows = data;
+    let profile: BankCSVProfile | null = null;
+    try {
+      const read = await readCSVFile(file, profiles ?? BANK_CSV_PROFILES);
+      if (read.profile) {
+        profile = read.profile;
+        rows = read.rows;
+      }
+    } catch (error) {
+      console.error('Bank profile detection failed:', error);
+    }
 
-  const handleFileUpload = (file: File, data: Record<string, string>[]) => {
     setUploadedFile(file);
-    setParsedData(data);
+    setParsedData(rows);
+    setDetectedProfile(profile);
     setCurrentStep('preview');
   };
 
-  const handleImport = async (mappedData: { date: string; supplier: string; description: string; amount: number; category: string; fingerprint: string }[], duplicateStrategy: string, transactionType: 'income' | 'expenditure') => {
+  const handleImport = async (mappedData: { date: string; supplier: string; description: string; amount: number; category: string; type?: 'income' | 'expenditure'; fingerprint: string }[], duplicateStrategy: string, transactionType: TransactionImportType) => {
     setCurrentStep('importing');
     try {
-      const results = await importTransactions(mappedData, duplicateStrategy, transactionType);
+      const sourceFile = uploadedFile
+        ? { fileName: uploadedFile.name, checksum: await computeFileChecksum(uploadedFile) }
+        : undefined;
+      const results = await importTransactions(mappedData, duplicateStrategy, transactionType, sourceFile);
       setImportResults(results);
       setCurrentStep('complete');
     } catch (error) {
@@ -42,6 +65,7 @@ export default function ImportTransactionsPage() {
     setCurrentStep('upload');
     setUploadedFile(null);
     setParsedData([]);
+    setDetectedProfile(null);
     setImportResults(null);
   };
 
@@ -53,7 +77,7 @@ export default function ImportTransactionsPage() {
             onFileUpload={handleFileUpload}
             acceptedTypes=".csv"
             maxSize={10 * 1024 * 1024} // 10MB
-            description="Upload a CSV file containing your transaction data. The file should include columns for date, supplier, description, amount, and category."
+            description="Upload a CSV file containing your transaction data, or a CSV export from your bank. The file should include columns for date, supplier, description, amount, and category."
           />
         );
 
@@ -62,6 +86,7 @@ export default function ImportTransactionsPage() {
           <TransactionImportPreview
             data={parsedData}
             fileName={uploadedFile?.name || ''}
+            profile={detectedProfile}
             onImport={handleImport}
             onCancel={() => setCurrentStep('upload')}
           />
@@ -256,12 +281,21 @@ export default function ImportTransactionsPage() {
                   </p>
                 </div>
               </div>
+              <div className="flex items-start space-x-3">
+                <CheckCircle className="h-5 w-5 text-green-500 mt-0.5" />
+                <div>
+                  <h4 className="font-medium">Bank Exports</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Monzo, Starling, Barclays, HSBC, Lloyds, NatWest, Tide and Revolut Business CSVs are recognised automatically. Other banks can be mapped once and saved as a profile
+                  </p>
+                </div>
+              </div>
               <div className="flex items-start space-x-3">
                 <CheckCircle className="h-5 w-5 text-green-500 mt-0.5" />
                 <div>
                   <h4 className="font-medium">Date Format</h4>
                   <p className="text-sm text-muted-foreground">
-                    Supports DD/MM/YYYY, MM/DD/YYYY, and YYYY-MM-DD formats
+                    Supports DD/MM/YYYY, MM/DD/YYYY, YYYY-MM-DD, and DD MMM YYYY formats
                   </p>
                 </div>
               </div>
@@ -0,0 +1,282 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CalendarClock, Check, Loader2, Pencil, Plus, Repeat, RotateCcw, SkipForward, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { PageEmptyState, PageLayout, PageListItem, PageSection } from '@/components/ui/page-layout';
+import { RecurringTransactionFormDialog } from '@/components/recurring/recurring-transaction-form-dialog';
+import {
+  useExpectedPayments,
+  useRecurringTransactionMutations,
+  useRecurringTransactions,
+  type RecurringTransactionFormData,
+} from '@/hooks/use-recurring-transactions';
+import { formatCurrency, formatDate } from '@/lib/formatting';
+import {
+  EXPECTED_PAYMENT_FLAG_LABELS,
+  RECURRING_CADENCE_LABELS,
+  RECURRING_MATCH_DAYS,
+  expectedPaymentFlag,
+  type ExpectedPaymentFlag,
+  type RecurringTransaction,
+} from '@/lib/recurring-transactions';
+
+const FLAG_CLASSES: Record<ExpectedPaymentFlag, string> = {
+  upcoming: 'border-blue-500/25 bg-blue-500/10 text-blue-700 dark:text-blue-400',
+  overdue: 'border-amber-500/25 bg-amber-500/10 text-amber-700 dark:text-amber-400',
+  missing: 'border-rose-500/25 bg-rose-500/10 text-rose-700 dark:text-rose-400',
+  fulfilled: 'border-emerald-500/25 bg-emerald-500/10 text-emerald-700 dark:text-emerald-400',
+  skipped: '',
+};
+
+export default function RecurringTransactionsPage() {
+  const { data: templates = [], isLoading: templatesLoading } = useRecurringTransactions();
+  const { data: payments = [], isLoading: paymentsLoading } = useExpectedPayments();
+  const { createRecurring, updateRecurring, deleteRecurring, generate, setExpectedPaymentStatus } =
+    useRecurringTransactionMutations();
+  const { showConfirmation, ConfirmationDialog } = useConfirmationDialog();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<RecurringTransaction | null>(null);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const flagged = useMemo(
+    () => payments.map(payment => ({ payment, flag: expectedPaymentFlag(payment, today) })),
+    [payments, today],
+  );
+  const overdue = flagged.filter(({ flag }) => flag === 'overdue');
+  const missing = flagged.filter(({ flag }) => flag === 'missing');
+
+  const openCreate = () => {
+    setEditing(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (recurring: RecurringTransaction) => {
+    setEditing(recurring);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (data: RecurringTransactionFormData) => {
+    try {
+      if (editing) {
+        await updateRecurring.mutateAsync({ id: editing.id, data });
+      } else {
+        await createRecurring.mutateAsync(data);
+      }
+      setDialogOpen(false);
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to save recurring transaction:', error);
+    }
+  };
+
+  const handleDelete = (recurring: RecurringTransaction) => {
+    showConfirmation({
+      title: 'Delete recurring transaction?',
+      description: `"${recurring.description}" and its expected payments will be removed. Transactions are not affected.`,
+      confirmText: 'Delete',
+      variant: 'destructive',
+      onConfirm: () => deleteRecurring.mutate(recurring.id),
+    });
+  };
+
+  return (
+    <PageLayout
+      title="Recurring Transactions"
+      description="Payments that repeat on a schedule, with the expected payments bank imports tick off"
+      icon={Repeat}
+      actions={
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => generate.mutate()} disabled={generate.isPending}>
+            <CalendarClock className="h-4 w-4 mr-2" />
+            Generate Expected
+          </Button>
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Recurring
+          </Button>
+        </div>
+      }
+    >
+      {(overdue.length > 0 || missing.length > 0) && (
+        <div className="flex items-start gap-3 rounded-lg border border-amber-500/25 bg-amber-500/10 p-4 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+          <div className="space-y-1">
+            {missing.length > 0 && (
+              <p className="font-semibold">
+                {missing.length} expected {missing.length === 1 ? 'payment has' : 'payments have'} gone missing -
+                more than {RECURRING_MATCH_DAYS} days late with no matching bank row
+              </p>
+            )}
+            {overdue.length > 0 && (
+              <p>
+                {overdue.length} {overdue.length === 1 ? 'payment is' : 'payments are'} overdue. Import the latest
+                bank statement to tick {overdue.length === 1 ? 'it' : 'them'} off, or mark as paid or skipped below.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <PageSection
+        title="Expected Payments"
+        description={`The last 90 days and the month ahead. Bank rows within ${RECURRING_MATCH_DAYS} days of the due date mark a payment as paid.`}
+        icon={CalendarClock}
+      >
+        {paymentsLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : flagged.length === 0 ? (
+          <PageEmptyState
+            icon={CalendarClock}
+            title="No expected payments"
+            description="Add a recurring transaction and its due dates will show here."
+          />
+        ) : (
+          <div className="border rounded-lg">
+            {flagged.map(({ payment, flag }, index) => (
+              <PageListItem key={payment.id} isLast={index === flagged.length - 1}>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{payment.recurring_transaction.description}</p>
+                      <Badge variant="outline" className={`text-xs ${FLAG_CLASSES[flag]}`}>
+                        {EXPECTED_PAYMENT_FLAG_LABELS[flag]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Due {formatDate(payment.due_date)}
+                      {payment.recurring_transaction.category && <> • {payment.recurring_transaction.category.name}</>}
+                      {payment.fulfilled_date && (
+                        <> • Paid {formatDate(payment.fulfilled_date)}
+                          {payment.fulfilled_description && <> as &quot;{payment.fulfilled_description}&quot;</>}
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-medium tabular-nums ${payment.recurring_transaction.type === 'income' ? 'text-green-600' : ''}`}>
+                      {formatCurrency(Number(payment.fulfilled_amount ?? payment.amount))}
+                    </p>
+                    {payment.fulfilled_amount !== null && Number(payment.fulfilled_amount) !== Number(payment.amount) && (
+                      <p className="text-xs text-muted-foreground">Expected {formatCurrency(Number(payment.amount))}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {payment.status === 'pending' ? (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpectedPaymentStatus.mutate({ payment, status: 'fulfilled' })}
+                          disabled={setExpectedPaymentStatus.isPending}
+                          title="Mark as paid"
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpectedPaymentStatus.mutate({ payment, status: 'skipped' })}
+                          disabled={setExpectedPaymentStatus.isPending}
+                          title="Skip this payment"
+                        >
+                          <SkipForward className="h-4 w-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpectedPaymentStatus.mutate({ payment, status: 'pending' })}
+                        disabled={setExpectedPaymentStatus.isPending}
+                        title="Expect this payment again"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </PageListItem>
+            ))}
+          </div>
+        )}
+      </PageSection>
+
+      <PageSection
+        title="Templates"
+        description="Amount, category and schedule for each recurring transaction"
+        icon={Repeat}
+      >
+        {templatesLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : templates.length === 0 ? (
+          <PageEmptyState
+            icon={Repeat}
+            title="No recurring transactions yet"
+            description="Add rent, subscriptions or insurance so each payment is expected and late ones are flagged."
+            action={
+              <Button onClick={openCreate}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Recurring
+              </Button>
+            }
+          />
+        ) : (
+          <div className="border rounded-lg">
+            {templates.map((recurring, index) => (
+              <PageListItem key={recurring.id} isLast={index === templates.length - 1}>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{recurring.description}</p>
+                      {!recurring.is_active && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {RECURRING_CADENCE_LABELS[recurring.cadence]} from {formatDate(recurring.start_date)}
+                      {recurring.end_date && <> to {formatDate(recurring.end_date)}</>}
+                      {recurring.category && <> • {recurring.category.name}</>}
+                      {recurring.match_text && <> • Matches &quot;{recurring.match_text}&quot;</>}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-medium tabular-nums ${recurring.type === 'income' ? 'text-green-600' : ''}`}>
+                      {formatCurrency(Number(recurring.amount))}
+                    </p>
+                    {recurring.is_active && (
+                      <p className="text-xs text-muted-foreground">Next generated {formatDate(recurring.next_date)}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(recurring)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(recurring)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </PageListItem>
+            ))}
+          </div>
+        )}
+      </PageSection>
+
+      <RecurringTransactionFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        recurring={editing}
+        onSubmit={handleSubmit}
+        isSubmitting={createRecurring.isPending || updateRecurring.isPending}
+      />
+
+      {ConfirmationDialog}
+    </PageLayout>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { BalanceSheetReport } from '@/components/reports/balance-sheet-report';
+import { PageLayout } from '@/components/ui/page-layout';
+import { FileText, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import Link from 'next/link';
+
+export default function BalanceSheetPage() {
+  return (
+    <PageLayout
+      title="Balance Sheet"
+      description="Assets, liabilities and owner's equity at any date, with a comparison date"
+      icon={FileText}
+      actions={
+        <Link href="/reports">
+          <Button variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Reports
+          </Button>
+        </Link>
+      }
+    >
+      <BalanceSheetReport className="w-full" />
+    </PageLayout>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { BudgetVsActualReport } from '@/components/reports/budget-vs-actual-report';
+import { PageLayout } from '@/components/ui/page-layout';
+import { Target, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import Link from 'next/link';
+
+export default function BudgetVsActualPage() {
+  return (
+    <PageLayout
+      title="Budget vs Actual"
+      description="Monthly or annual budgets per category or hierarchy against the year's income and expenditure"
+      icon={Target}
+      actions={
+        <Link href="/reports">
+          <Button variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Reports
+          </Button>
+        </Link>
+      }
+    >
+      <BudgetVsActualReport className="w-full" />
+    </PageLayout>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { FixedAssetRegisterReport } from '@/components/reports/fixed-asset-register-report';
+import { PageLayout } from '@/components/ui/page-layout';
+import { Package, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import Link from 'next/link';
+
+export default function FixedAssetRegisterPage() {
+  return (
+    <PageLayout
+      title="Fixed Asset Register"
+      description="Capitalised equipment with depreciation schedules, net book values and disposals"
+      icon={Package}
+      actions={
+        <Link href="/reports">
+          <Button variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Reports
+          </Button>
+        </Link>
+      }
+    >
+      <FixedAssetRegisterReport className="w-full" />
+    </PageLayout>
+  );
+}
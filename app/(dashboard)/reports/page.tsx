@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { Plus, FileText, FileSpreadsheet, BarChart3, Download, Settings, TrendingUp, Star, ArrowRight } from 'lucide-react';
+import { Plus, FileText, FileSpreadsheet, Receipt, BarChart3, Download, Settings, TrendingUp, Star, ArrowRight, Package, Car, CalendarClock, Target } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { PageLayout, PageSection, PageCard, PageEmptyState } from '@/components/ui/page-layout';
@@ -210,26 +210,160 @@ export default function ReportsPage() {
             </Link>
           </PageCard>
 
-          <PageCard className="hover:shadow-md transition-shadow cursor-pointer opacity-60">
-            <div className="flex items-start gap-4">
-              <div className="p-3 bg-purple-50 rounded-lg">
-                <FileText className="h-6 w-6 text-purple-600" />
+          <PageCard className="hover:shadow-md transition-shadow cursor-pointer">
+            <Link href="/reports/tax/tax-calendar" className="block">
+              <div className="flex items-start gap-4">
+                <div className="p-3 bg-orange-50 dark:bg-orange-950/30 rounded-lg">
+                  <CalendarClock className="h-6 w-6 text-orange-600 dark:text-orange-400" />
+                </div>
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="font-semibold text-foreground">Tax Calendar</h3>
+                    <Badge variant="secondary" className="text-xs">
+                      <Star className="w-3 h-3 mr-1" />
+                      New
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    Balancing payments and payments on account for this tax year and next, with a monthly tax pot
+                  </p>
+                  <div className="flex items-center text-sm text-primary font-medium">
+                    <span>View Report</span>
+                    <ArrowRight className="w-4 h-4 ml-1" />
+                  </div>
+                </div>
               </div>
-              <div className="flex-1">
-                <div className="flex items-center gap-2 mb-1">
-                  <h3 className="font-semibold text-foreground">Balance Sheet</h3>
-                  <Badge variant="outline" className="text-xs">
-                    Coming Soon
-                  </Badge>
+            </Link>
+          </PageCard>
+
+          <PageCard className="hover:shadow-md transition-shadow cursor-pointer">
+            <Link href="/reports/tax/vat-return" className="block">
+              <div className="flex items-start gap-4">
+                <div className="p-3 bg-teal-50 dark:bg-teal-950/30 rounded-lg">
+                  <Receipt className="h-6 w-6 text-teal-600 dark:text-teal-400" />
                 </div>
-                <p className="text-sm text-muted-foreground mb-3">
-                  Assets, liabilities, and equity statement with period comparisons
-                </p>
-                <div className="flex items-center text-sm text-muted-foreground font-medium">
-                  <span>Available Soon</span>
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="font-semibold text-foreground">VAT Return</h3>
+                    <Badge variant="secondary" className="text-xs">
+                      <Star className="w-3 h-3 mr-1" />
+                      New
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    Nine-box VAT return by quarter under standard, flat rate or cash accounting, with drill-down to each box
+                  </p>
+                  <div className="flex items-center text-sm text-primary font-medium">
+                    <span>View Report</span>
+                    <ArrowRight className="w-4 h-4 ml-1" />
+                  </div>
                 </div>
               </div>
-            </div>
+            </Link>
+          </PageCard>
+
+          <PageCard className="hover:shadow-md transition-shadow cursor-pointer">
+            <Link href="/reports/balance-sheet" className="block">
+              <div className="flex items-start gap-4">
+                <div className="p-3 bg-purple-50 dark:bg-purple-950/30 rounded-lg">
+                  <FileText className="h-6 w-6 text-purple-600 dark:text-purple-400" />
+                </div>
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="font-semibold text-foreground">Balance Sheet</h3>
+                    <Badge variant="secondary" className="text-xs">
+                      <Star className="w-3 h-3 mr-1" />
+                      New
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    Assets, liabilities, and equity statement at any date with a comparison date
+                  </p>
+                  <div className="flex items-center text-sm text-primary font-medium">
+                    <span>View Report</span>
+                    <ArrowRight className="w-4 h-4 ml-1" />
+                  </div>
+                </div>
+              </div>
+            </Link>
+          </PageCard>
+
+          <PageCard className="hover:shadow-md transition-shadow cursor-pointer">
+            <Link href="/reports/fixed-assets" className="block">
+              <div className="flex items-start gap-4">
+                <div className="p-3 bg-violet-50 dark:bg-violet-950/30 rounded-lg">
+                  <Package className="h-6 w-6 text-violet-600 dark:text-violet-400" />
+                </div>
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="font-semibold text-foreground">Fixed Asset Register</h3>
+                    <Badge variant="secondary" className="text-xs">
+                      <Star className="w-3 h-3 mr-1" />
+                      New
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    Capitalised equipment with depreciation schedules, net book values and disposals
+                  </p>
+                  <div className="flex items-center text-sm text-primary font-medium">
+                    <span>View Report</span>
+                    <ArrowRight className="w-4 h-4 ml-1" />
+                  </div>
+                </div>
+              </div>
+            </Link>
+          </PageCard>
+
+          <PageCard className="hover:shadow-md transition-shadow cursor-pointer">
+            <Link href="/reports/simplified-expenses" className="block">
+              <div className="flex items-start gap-4">
+                <div className="p-3 bg-teal-50 dark:bg-teal-950/30 rounded-lg">
+                  <Car className="h-6 w-6 text-teal-600 dark:text-teal-400" />
+                </div>
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="font-semibold text-foreground">Simplified Expenses</h3>
+                    <Badge variant="secondary" className="text-xs">
+                      <Star className="w-3 h-3 mr-1" />
+                      New
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    Business mileage log and use-of-home flat rates for the Self Assessment return
+                  </p>
+                  <div className="flex items-center text-sm text-primary font-medium">
+                    <span>View Report</span>
+                    <ArrowRight className="w-4 h-4 ml-1" />
+                  </div>
+                </div>
+              </div>
+            </Link>
+          </PageCard>
+
+          <PageCard className="hover:shadow-md transition-shadow cursor-pointer">
+            <Link href="/reports/budget-vs-actual" className="block">
+              <div className="flex items-start gap-4">
+                <div className="p-3 bg-rose-50 dark:bg-rose-950/30 rounded-lg">
+                  <Target className="h-6 w-6 text-rose-600 dark:text-rose-400" />
+                </div>
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="font-semibold text-foreground">Budget vs Actual</h3>
+                    <Badge variant="secondary" className="text-xs">
+                      <Star className="w-3 h-3 mr-1" />
+                      New
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    Budgets per category or hierarchy with variances and a full-year forecast
+                  </p>
+                  <div className="flex items-center text-sm text-primary font-medium">
+                    <span>View Report</span>
+                    <ArrowRight className="w-4 h-4 ml-1" />
+                  </div>
+                </div>
+              </div>
+            </Link>
           </PageCard>
         </div>
       </PageSection>
@@ -0,0 +1,27 @@
+'use client';
+
+import { SimplifiedExpensesReport } from '@/components/reports/simplified-expenses-report';
+import { PageLayout } from '@/components/ui/page-layout';
+import { Car, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import Link from 'next/link';
+
+export default function SimplifiedExpensesPage() {
+  return (
+    <PageLayout
+      title="Simplified Expenses"
+      description="Business mileage and use-of-home flat rates claimed on the Self Assessment return"
+      icon={Car}
+      actions={
+        <Link href="/reports">
+          <Button variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Reports
+          </Button>
+        </Link>
+      }
+    >
+      <SimplifiedExpensesReport className="w-full" />
+    </PageLayout>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { TaxCalendarReport } from '@/components/reports/tax-calendar-report';
+import { PageLayout } from '@/components/ui/page-layout';
+import { CalendarClock, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import Link from 'next/link';
+
+export default function TaxCalendarPage() {
+  return (
+    <PageLayout
+      title="Tax Calendar"
+      description="Self Assessment balancing payments and payments on account for this tax year and next, with a monthly tax pot"
+      icon={CalendarClock}
+      actions={
+        <Link href="/reports">
+          <Button variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Reports
+          </Button>
+        </Link>
+      }
+    >
+      <TaxCalendarReport className="w-full" />
+    </PageLayout>
+  );
+}
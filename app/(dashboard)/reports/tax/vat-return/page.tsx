@@ -0,0 +1,27 @@
+'use client';
+
+import { VatReturnReport } from '@/components/reports/vat-return-report';
+import { PageLayout } from '@/components/ui/page-layout';
+import { Receipt, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import Link from 'next/link';
+
+export default function VatReturnPage() {
+  return (
+    <PageLayout
+      title="VAT Return"
+      description="The nine VAT return boxes for a quarter, worked out from each transaction's VAT treatment or its category default."
+      icon={Receipt}
+      actions={
+        <Link href="/reports">
+          <Button variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Reports
+          </Button>
+        </Link>
+      }
+    >
+      <VatReturnReport className="w-full" />
+    </PageLayout>
+  );
+}
@@ -11,8 +11,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { EnhancedTransactionList } from '@/components/transactions/enhanced-transaction-list';
 import { DateRangePicker, type DateRange } from '@/components/ui/date-range-picker';
-import { RefreshCw, List, ChevronLeft, ChevronRight, Search, X, SlidersHorizontal } from 'lucide-react';
+import { RefreshCw, List, ChevronLeft, ChevronRight, Search, X, SlidersHorizontal, Landmark } from 'lucide-react';
 import { format } from 'date-fns';
+import { useBankAccounts } from '@/hooks/use-bank-accounts';
+import { summariseByAccount, UNASSIGNED_ACCOUNT } from '@/lib/bank-accounts';
+import { formatCurrency } from '@/lib/formatting';
+import type { VatTreatment } from '@/lib/vat';
+import type { CapitalAllowancePool } from '@/lib/capital-allowances';
+import type { SimplifiedExpenseKind } from '@/lib/simplified-expenses';
 
 const PAGE_SIZES = [25, 50, 100] as const;
 
@@ -20,19 +26,39 @@ interface Transaction {
   id: string;
   transaction_date: string;
   description: string;
+  counterparty_name?: string | null;
+  remittance_info?: string | null;
   amount: number;
-  type: 'income' | 'expenditure' | 'capital';
+  type: 'income' | 'expenditure' | 'capital' | 'transfer';
+  transfer_direction?: 'in' | 'out' | null;
+  reconciled_session_id?: string | null;
+  vat_return_id?: string | null;
+  fixed_asset_id?: string | null;
+  capital_allowance_pool?: CapitalAllowancePool | null;
+  aia_eligible?: boolean;
+  business_use_percent?: number | null;
+  disallowable?: boolean;
+  simplified_expense?: SimplifiedExpenseKind | null;
+  vat_treatment?: VatTreatment | null;
+  vat_rate?: number | null;
+  vat_amount?: number | null;
+  tax_point_date?: string | null;
   category_id?: string;
   category?: {
     id: string;
     name: string;
     color: string;
+    vat_treatment?: VatTreatment | null;
+    vat_rate?: number | null;
+    business_use_percent?: number | null;
+    disallowable?: boolean;
   };
 }
 
 interface Filters {
   search: string;
-  type: 'all' | 'income' | 'expenditure' | 'capital';
+  type: 'all' | 'income' | 'expenditure' | 'capital' | 'transfer';
+  account: string; // 'all', UNASSIGNED_ACCOUNT or a bank account id
   amountMin: string;
   amountMax: string;
   dateRange: DateRange;
@@ -41,11 +67,75 @@ interface Filters {
 const DEFAULT_FILTERS: Filters = {
   search: '',
   type: 'all',
+  account: 'all',
   amountMin: '',
   amountMax: '',
   dateRange: { from: null, to: null, preset: 'all' },
 };
 
+interface AppliedFilters {
+  search: string;
+  type: Filters['type'];
+  account: string;
+  amountMin: string;
+  amountMax: string;
+  from: Date | null;
+  to: Date | null;
+}
+
+// Structural subset of the Supabase filter builder, so the list and the
+// account subtotals share one set of filters
+interface FilterableQuery<Q> {
+  ilike(column: string, pattern: string): Q;
+  eq(column: string, value: string): Q;
+  is(column: string, value: null): Q;
+  gte(column: string, value: string | number): Q;
+  lte(column: string, value: string | number): Q;
+}
+
+function applyFilters<Q extends FilterableQuery<Q>>(query: Q, filters: AppliedFilters): Q {
+  // Apply search filter
+  if (filters.search) {
+    query = query.ilike('description', `%${filters.search}%`);
+  }
+
+  // Apply type filter
+  if (filters.type !== 'all') {
+    query = query.eq('type', filters.type);
+  }
+
+  // Apply account filter
+  if (filters.account === UNASSIGNED_ACCOUNT) {
+    query = query.is('bank_account_id', null);
+  } else if (filters.account !== 'all') {
+    query = query.eq('bank_account_id', filters.account);
+  }
+
+  // Apply amount range filters
+  if (filters.amountMin) {
+    const min = parseFloat(filters.amountMin);
+    if (!isNaN(min)) {
+      query = query.gte('amount', min);
+    }
+  }
+  if (filters.amountMax) {
+    const max = parseFloat(filters.amountMax);
+    if (!isNaN(max)) {
+      query = query.lte('amount', max);
+    }
+  }
+
+  // Apply date range filters
+  if (filters.from) {
+    query = query.gte('transaction_date', format(filters.from, 'yyyy-MM-dd'));
+  }
+  if (filters.to) {
+    query = query.lte('transaction_date', format(filters.to, 'yyyy-MM-dd'));
+  }
+
+  return query;
+}
+
 function useDebounce<T>(value: T, delay: number): T {
   const [debouncedValue, setDebouncedValue] = useState<T>(value);
 
@@ -75,16 +165,17 @@ export default function TransactionsPage() {
     let count = 0;
     if (debouncedSearch) count++;
     if (filters.type !== 'all') count++;
+    if (filters.account !== 'all') count++;
     if (debouncedAmountMin) count++;
     if (debouncedAmountMax) count++;
     if (filters.dateRange.from || filters.dateRange.to) count++;
     return count;
-  }, [debouncedSearch, filters.type, debouncedAmountMin, debouncedAmountMax, filters.dateRange]);
+  }, [debouncedSearch, filters.type, filters.account, debouncedAmountMin, debouncedAmountMax, filters.dateRange]);
 
   const hasActiveFilters = activeFilterCount > 0;
 
   // Reset to page 1 when any debounced filter changes
-  const filterKey = `${debouncedSearch}|${filters.type}|${debouncedAmountMin}|${debouncedAmountMax}|${filters.dateRange.from?.toISOString()}|${filters.dateRange.to?.toISOString()}`;
+  const filterKey = `${debouncedSearch}|${filters.type}|${filters.account}|${debouncedAmountMin}|${debouncedAmountMax}|${filters.dateRange.from?.toISOString()}|${filters.dateRange.to?.toISOString()}`;
   const prevFilterKeyRef = useRef(filterKey);
 
   useEffect(() => {
@@ -94,8 +185,20 @@ export default function TransactionsPage() {
     }
   }, [filterKey]);
 
+  const appliedFilters: AppliedFilters = {
+    search: debouncedSearch,
+    type: filters.type,
+    account: filters.account,
+    amountMin: debouncedAmountMin,
+    amountMax: debouncedAmountMax,
+    from: filters.dateRange.from,
+    to: filters.dateRange.to,
+  };
+
+  const { data: bankAccounts = [] } = useBankAccounts();
+
   const { data, isLoading, isFetching, error, refetch } = useQuery({
-    queryKey: ['transactions-paginated', user?.id, page, pageSize, debouncedSearch, filters.type, debouncedAmountMin, debouncedAmountMax, filters.dateRange.from?.toISOString(), filters.dateRange.to?.toISOString()],
+    queryKey: ['transactions-paginated', user?.id, page, pageSize, debouncedSearch, filters.type, filters.account, debouncedAmountMin, debouncedAmountMax, filters.dateRange.from?.toISOString(), filters.dateRange.to?.toISOString()],
     queryFn: async () => {
       const supabase = createClient();
       const start = (page - 1) * pageSize;
@@ -107,47 +210,36 @@ export default function TransactionsPage() {
           id,
           transaction_date,
           description,
+          counterparty_name,
+          remittance_info,
           amount,
           type,
+          transfer_direction,
+          reconciled_session_id,
+          vat_return_id,
+          fixed_asset_id,
+          capital_allowance_pool,
+          aia_eligible,
+          business_use_percent,
+          disallowable,
+          simplified_expense,
+          vat_treatment,
+          vat_rate,
+          vat_amount,
+          tax_point_date,
           category_id,
           categories (
             id,
             name,
-            color
+            color,
+            vat_treatment,
+            vat_rate,
+            business_use_percent,
+            disallowable
           )
         `, { count: 'exact' });
 
-      // Apply search filter
-      if (debouncedSearch) {
-        query = query.ilike('description', `%${debouncedSearch}%`);
-      }
-
-      // Apply type filter
-      if (filters.type !== 'all') {
-        query = query.eq('type', filters.type);
-      }
-
-      // Apply amount range filters
-      if (debouncedAmountMin) {
-        const min = parseFloat(debouncedAmountMin);
-        if (!isNaN(min)) {
-          query = query.gte('amount', min);
-        }
-      }
-      if (debouncedAmountMax) {
-        const max = parseFloat(debouncedAmountMax);
-        if (!isNaN(max)) {
-          query = query.lte('amount', max);
-        }
-      }
-
-      // Apply date range filters
-      if (filters.dateRange.from) {
-        query = query.gte('transaction_date', format(filters.dateRange.from, 'yyyy-MM-dd'));
-      }
-      if (filters.dateRange.to) {
-        query = query.lte('transaction_date', format(filters.dateRange.to, 'yyyy-MM-dd'));
-      }
+      query = applyFilters(query, appliedFilters);
 
       const { data, error, count } = await query
         .order('transaction_date', { ascending: false })
@@ -170,6 +262,24 @@ export default function TransactionsPage() {
     staleTime: 2 * 60 * 1000,
   });
 
+  // Per-account subtotals across every page of the filtered results
+  const { data: accountSubtotals = [] } = useQuery({
+    queryKey: ['transactions-account-subtotals', user?.id, debouncedSearch, filters.type, filters.account, debouncedAmountMin, debouncedAmountMax, filters.dateRange.from?.toISOString(), filters.dateRange.to?.toISOString(), bankAccounts.length],
+    queryFn: async () => {
+      const supabase = createClient();
+      const baseQuery = supabase
+        .from('transactions')
+        .select('amount, type, bank_account_id, transfer_direction, simplified_expense, categories(capital_movement_type)');
+
+      const { data, error } = await applyFilters(baseQuery, appliedFilters);
+      if (error) throw error;
+
+      return summariseByAccount(data || [], bankAccounts);
+    },
+    enabled: !!user?.id && bankAccounts.length > 0,
+    staleTime: 2 * 60 * 1000,
+  });
+
   const handlePageSizeChange = useCallback((value: string) => {
     setPageSize(Number(value));
     setPage(1);
@@ -338,6 +448,8 @@ export default function TransactionsPage() {
                     ? 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20'
                     : filters.type === 'expenditure'
                     ? 'bg-rose-500/10 text-rose-500 border-rose-500/20'
+                    : filters.type === 'transfer'
+                    ? 'bg-sky-500/10 text-sky-500 border-sky-500/20'
                     : 'bg-violet-500/10 text-violet-500 border-violet-500/20'
                 }`}
               >
@@ -347,6 +459,16 @@ export default function TransactionsPage() {
                 </button>
               </Badge>
             )}
+            {filters.account !== 'all' && (
+              <Badge variant="secondary" className="gap-1">
+                Account: {filters.account === UNASSIGNED_ACCOUNT
+                  ? 'Unassigned'
+                  : bankAccounts.find(a => a.id === filters.account)?.name ?? 'Unknown'}
+                <button onClick={() => updateFilter('account', 'all')} className="ml-1 hover:text-foreground">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
             {(debouncedAmountMin || debouncedAmountMax) && (
               <Badge variant="secondary" className="gap-1">
                 Amount: {debouncedAmountMin ? `£${debouncedAmountMin}` : '£0'} - {debouncedAmountMax ? `£${debouncedAmountMax}` : 'any'}
@@ -383,7 +505,7 @@ export default function TransactionsPage() {
               </div>
             </CardHeader>
             <CardContent className="space-y-6">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className={`grid grid-cols-1 gap-6 ${bankAccounts.length > 0 ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
                 {/* Type Filter */}
                 <div className="space-y-2">
                   <label className="text-sm font-medium text-foreground">Transaction Type</label>
@@ -411,10 +533,35 @@ export default function TransactionsPage() {
                           Capital
                         </span>
                       </SelectItem>
+                      <SelectItem value="transfer">
+                        <span className="flex items-center gap-2">
+                          <span className="h-2 w-2 rounded-full bg-sky-500" />
+                          Transfer
+                        </span>
+                      </SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
+                {/* Account Filter */}
+                {bankAccounts.length > 0 && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-foreground">Account</label>
+                    <Select value={filters.account} onValueChange={(value) => updateFilter('account', value)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="All accounts" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Accounts</SelectItem>
+                        {bankAccounts.map(account => (
+                          <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                        ))}
+                        <SelectItem value={UNASSIGNED_ACCOUNT}>Unassigned</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 {/* Amount Range */}
                 <div className="space-y-2">
                   <label className="text-sm font-medium text-foreground">Amount Range (£)</label>
@@ -451,6 +598,31 @@ export default function TransactionsPage() {
           </Card>
         )}
 
+        {/* Account Subtotals */}
+        {accountSubtotals.length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {accountSubtotals.map(subtotal => (
+              <button
+                key={subtotal.bankAccountId ?? UNASSIGNED_ACCOUNT}
+                type="button"
+                onClick={() => updateFilter('account', subtotal.bankAccountId ?? UNASSIGNED_ACCOUNT)}
+                className="border rounded-lg p-4 text-left hover:bg-muted transition-colors"
+              >
+                <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+                  <Landmark className="h-4 w-4 text-muted-foreground" />
+                  <span className="truncate">{subtotal.name}</span>
+                </div>
+                <div className={`text-xl font-bold tabular-nums mt-1 ${subtotal.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(subtotal.net)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {subtotal.transactionCount} transactions • +{formatCurrency(subtotal.inflows)} / -{formatCurrency(subtotal.outflows)}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Fetching indicator overlay */}
         {isFetching && !isLoading && (
           <div className="text-center">
@@ -0,0 +1,173 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowLeftRight, ArrowRight, Check, Loader2, ScanSearch, Unlink } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { PageEmptyState, PageLayout, PageListItem, PageSection } from '@/components/ui/page-layout';
+import { useBankAccounts } from '@/hooks/use-bank-accounts';
+import { useTransferPairMutations, useTransferPairs } from '@/hooks/use-transfer-pairs';
+import { TRANSFER_STATUS_LABELS, type TransferLeg, type TransferPairStatus, type TransferPairWithLegs } from '@/lib/transfers';
+import { formatCurrency, formatDate } from '@/lib/formatting';
+
+const STATUS_STYLES: Record<TransferPairStatus, string> = {
+  suggested: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-green-100 text-green-800',
+  broken: 'bg-muted text-muted-foreground',
+};
+
+export default function TransfersPage() {
+  const { data: pairs = [], isLoading } = useTransferPairs();
+  const { data: bankAccounts = [] } = useBankAccounts();
+  const { detectTransfers, confirmPair, breakPair } = useTransferPairMutations();
+  const [pairToBreak, setPairToBreak] = useState<TransferPairWithLegs | null>(null);
+
+  const suggested = pairs.filter(p => p.status === 'suggested');
+  const confirmed = pairs.filter(p => p.status === 'confirmed');
+  const brokenCount = pairs.filter(p => p.status === 'broken').length;
+
+  const accountName = (leg: TransferLeg | null) =>
+    bankAccounts.find(a => a.id === leg?.bank_account_id)?.name ?? 'Unknown account';
+
+  const handleConfirmBreak = async () => {
+    if (!pairToBreak) return;
+    try {
+      await breakPair.mutateAsync(pairToBreak);
+    } finally {
+      setPairToBreak(null);
+    }
+  };
+
+  const renderLeg = (leg: TransferLeg | null) => (
+    <div className="min-w-0 space-y-0.5">
+      <p className="text-sm font-medium truncate">{accountName(leg)}</p>
+      <p className="text-xs text-muted-foreground truncate">
+        {leg ? `${formatDate(leg.transaction_date)} • ${leg.description}` : 'Transaction deleted'}
+      </p>
+    </div>
+  );
+
+  const renderPairs = (list: TransferPairWithLegs[]) => (
+    <div className="border rounded-lg">
+      {list.map((pair, index) => (
+        <PageListItem key={pair.id} isLast={index === list.length - 1}>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-3">
+                {renderLeg(pair.outgoing)}
+                <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                {renderLeg(pair.incoming)}
+              </div>
+              {pair.match_reasons && pair.match_reasons.length > 0 && (
+                <p className="text-xs text-muted-foreground">{pair.match_reasons.join(' • ')}</p>
+              )}
+            </div>
+            <div className="text-right space-y-1">
+              <p className="font-medium tabular-nums">{formatCurrency(Number(pair.amount))}</p>
+              <Badge className={STATUS_STYLES[pair.status]}>{TRANSFER_STATUS_LABELS[pair.status]}</Badge>
+            </div>
+            <div className="flex items-center gap-1">
+              {pair.status === 'suggested' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => confirmPair.mutate(pair.id)}
+                  disabled={confirmPair.isPending}
+                >
+                  <Check className="h-4 w-4 mr-2" />
+                  Confirm
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPairToBreak(pair)}
+                disabled={breakPair.isPending}
+              >
+                <Unlink className="h-4 w-4 mr-2" />
+                Break
+              </Button>
+            </div>
+          </div>
+        </PageListItem>
+      ))}
+    </div>
+  );
+
+  return (
+    <PageLayout
+      title="Transfers"
+      description="Money moved between our own accounts, kept out of income and expenditure"
+      icon={ArrowLeftRight}
+      actions={
+        <Button onClick={() => detectTransfers.mutate()} disabled={detectTransfers.isPending}>
+          {detectTransfers.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <ScanSearch className="h-4 w-4 mr-2" />
+          )}
+          Detect Transfers
+        </Button>
+      }
+    >
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : pairs.length === 0 ? (
+        <PageEmptyState
+          icon={ArrowLeftRight}
+          title="No transfers detected"
+          description="Transfers are suggested automatically when a bank import is committed. Transactions need a bank account to be paired."
+        />
+      ) : (
+        <>
+          <PageSection
+            title="Needs Review"
+            description="Equal and opposite amounts on different accounts within a few days of each other. They count towards the P&L until confirmed"
+            icon={ScanSearch}
+          >
+            {suggested.length === 0 ? (
+              <p className="text-sm text-muted-foreground">All detected transfers have been reviewed.</p>
+            ) : (
+              renderPairs(suggested)
+            )}
+          </PageSection>
+
+          <PageSection
+            title="Confirmed"
+            description={
+              brokenCount > 0
+                ? `${brokenCount} pairing${brokenCount === 1 ? ' has' : 's have'} been broken and won't be suggested again`
+                : 'Transfers you have checked'
+            }
+            icon={Check}
+          >
+            {confirmed.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No confirmed transfers yet.</p>
+            ) : (
+              renderPairs(confirmed)
+            )}
+          </PageSection>
+        </>
+      )}
+
+      <ConfirmationDialog
+        isOpen={!!pairToBreak}
+        onClose={() => setPairToBreak(null)}
+        onConfirm={handleConfirmBreak}
+        title="Break transfer pairing?"
+        description={
+          pairToBreak
+            ? `Both transactions go back to being ${pairToBreak.outgoing_original_type} and ${pairToBreak.incoming_original_type} ` +
+              'and will count towards the P&L again. This pair won\'t be suggested again.'
+            : ''
+        }
+        confirmText="Break Pairing"
+        variant="destructive"
+        isLoading={breakPair.isPending}
+      />
+    </PageLayout>
+  );
+}
@@ -26,6 +26,7 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { PatternMatcher } from '@/lib/pattern-matcher';
+import { RECONCILED_EDIT_WARNING } from '@/lib/reconciliation-sessions';
 
 const PAGE_SIZES = [25, 50, 100] as const;
 
@@ -33,6 +34,7 @@ interface UncategorizedTransaction {
   id: string;
   transaction_date: string;
   description: string;
+  counterparty_name: string | null;
   amount: number;
   type: 'income' | 'expenditure' | 'capital';
 }
@@ -57,7 +59,7 @@ export default function UncategorizedPage() {
 
       const { data, error, count } = await supabase
         .from('transactions')
-        .select('id, transaction_date, description, amount, type', { count: 'exact' })
+        .select('id, transaction_date, description, counterparty_name, amount, type', { count: 'exact' })
         .is('category_id', null)
         .order('transaction_date', { ascending: false })
         .range(start, end);
@@ -68,6 +70,7 @@ export default function UncategorizedPage() {
         id: t.id,
         transaction_date: t.transaction_date,
         description: t.description || '',
+        counterparty_name: t.counterparty_name ?? null,
         amount: Number(t.amount),
         type: t.type as UncategorizedTransaction['type'],
       }));
@@ -86,17 +89,20 @@ export default function UncategorizedPage() {
   const assignCategory = useMutation({
     mutationFn: async ({ txId, categoryId }: { txId: string; categoryId: string }) => {
       const supabase = createClient();
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('transactions')
         .update({ category_id: categoryId })
-        .eq('id', txId);
+        .eq('id', txId)
+        .select('import_batch_id, reconciled_session_id')
+        .maybeSingle();
 
       if (error) throw error;
+      return data;
     },
     onMutate: ({ txId }) => {
       setAssigningId(txId);
     },
-    onSuccess: (_data, { txId, categoryId }) => {
+    onSuccess: (updated, { txId, categoryId }) => {
       // Find the transaction to show a nice toast
       const tx = transactions.find(t => t.id === txId);
       toast.success(
@@ -104,6 +110,7 @@ export default function UncategorizedPage() {
           ? `Categorized "${tx.description.slice(0, 40)}${tx.description.length > 40 ? '...' : ''}"`
           : 'Transaction categorized'
       );
+      if (updated?.reconciled_session_id) toast.warning(RECONCILED_EDIT_WARNING);
 
       // Fire-and-forget: learn pattern from this manual categorization
       if (tx?.description && user?.id) {
@@ -112,7 +119,9 @@ export default function UncategorizedPage() {
           tx.description,
           categoryId,
           user.id,
-          supabase
+          supabase,
+          updated?.import_batch_id,
+          tx.counterparty_name
         ).catch((err) => console.error('Pattern learning failed:', err));
       }
       // Invalidate relevant queries
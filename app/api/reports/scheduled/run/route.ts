@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createAdminClient } from '@/supabase/admin';
+import { runDueScheduledReports } from '@/lib/scheduled-report-runner';
+
+// Node runtime is required: delivery transports use fs/net
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Called by Vercel Cron (or any scheduler) with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    return NextResponse.json(
+      { success: false, error: 'CRON_SECRET is not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await runDueScheduledReports(createAdminClient());
+
+    return NextResponse.json({
+      success: result.outcomes.every(o => o.status !== 'failed'),
+      ...result,
+    });
+  } catch (error) {
+    console.error('Scheduled report runner failed:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
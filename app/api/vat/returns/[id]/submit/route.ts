@@ -0,0 +1,74 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createClient } from '@/supabase/server';
+import { getMtdVatClient, MtdVatApiError } from '@/lib/mtd-vat';
+import { recordVatReturnSubmission, type VatReturnRecord } from '@/lib/vat-returns';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Sends a finalised VAT return's stored payload to the MTD VAT API and records HMRC's receipt.
+// MTD_VAT_API_URL points at HMRC's sandbox by default, or a local mock server for testing.
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from('vat_returns')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!data) {
+      return NextResponse.json(
+        { success: false, error: 'VAT return not found' },
+        { status: 404 }
+      );
+    }
+
+    const vatReturn = data as VatReturnRecord;
+    if (vatReturn.status === 'submitted') {
+      return NextResponse.json(
+        { success: false, error: `VAT return ${vatReturn.period_key} has already been submitted` },
+        { status: 409 }
+      );
+    }
+
+    const receipt = await getMtdVatClient().submitReturn(vatReturn.vrn, vatReturn.payload);
+
+    try {
+      const submitted = await recordVatReturnSubmission(supabase, vatReturn.id, receipt);
+      return NextResponse.json({ success: true, vatReturn: submitted });
+    } catch (recordError) {
+      // HMRC has accepted the return - hand the receipt back so it isn't lost
+      console.error('VAT return submitted but the receipt could not be saved:', recordError, receipt);
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Submitted to HMRC (form bundle ${receipt.formBundleNumber}) but the receipt could not be saved`,
+          receipt,
+        },
+        { status: 500 }
+      );
+    }
+  } catch (error) {
+    console.error('VAT return submission failed:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: error instanceof MtdVatApiError && error.status < 500 ? 422 : 500 }
+    );
+  }
+}
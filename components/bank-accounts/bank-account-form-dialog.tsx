@@ -0,0 +1,203 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Landmark } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CURRENCY } from '@/lib/constants';
+import type { BankAccount } from '@/lib/bank-accounts';
+import type { BankAccountFormData } from '@/hooks/use-bank-accounts';
+
+interface BankAccountFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account?: BankAccount | null;
+  onSubmit: (data: BankAccountFormData) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export function BankAccountFormDialog({
+  open,
+  onOpenChange,
+  account,
+  onSubmit,
+  isSubmitting = false,
+}: BankAccountFormDialogProps) {
+  const [name, setName] = useState('');
+  const [provider, setProvider] = useState('');
+  const [currency, setCurrency] = useState(CURRENCY);
+  const [productCode, setProductCode] = useState('');
+  const [openingBalance, setOpeningBalance] = useState('0.00');
+  const [openingBalanceDate, setOpeningBalanceDate] = useState(today());
+  const [isActive, setIsActive] = useState(true);
+  const [error, setError] = useState('');
+
+  // Load the account being edited, or reset for a new one
+  useEffect(() => {
+    if (!open) return;
+    setName(account?.name ?? '');
+    setProvider(account?.provider ?? '');
+    setCurrency(account?.currency ?? CURRENCY);
+    setProductCode(account?.product_code ?? '');
+    setOpeningBalance(account ? Number(account.opening_balance).toFixed(2) : '0.00');
+    setOpeningBalanceDate(account?.opening_balance_date ?? today());
+    setIsActive(account?.is_active ?? true);
+    setError('');
+  }, [open, account]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedBalance = parseFloat(openingBalance);
+    if (!name.trim()) {
+      setError('Account name is required');
+      return;
+    }
+    if (isNaN(parsedBalance)) {
+      setError('Opening balance must be a number');
+      return;
+    }
+    if (!openingBalanceDate) {
+      setError('Opening balance date is required');
+      return;
+    }
+
+    await onSubmit({
+      name: name.trim(),
+      provider: provider.trim() || null,
+      currency: currency.trim().toUpperCase() || CURRENCY,
+      product_code: productCode.trim() || null,
+      opening_balance: parsedBalance,
+      opening_balance_date: openingBalanceDate,
+      is_active: isActive,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5" />
+            {account ? 'Edit Bank Account' : 'Add Bank Account'}
+          </DialogTitle>
+          <DialogDescription>
+            The opening balance is the account balance at the start of the opening balance date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="account-name">Account Name</Label>
+            <Input
+              id="account-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Business Current Account"
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-provider">Provider</Label>
+              <Input
+                id="account-provider"
+                value={provider}
+                onChange={(e) => setProvider(e.target.value)}
+                placeholder="e.g. Revolut"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-currency">Currency</Label>
+              <Input
+                id="account-currency"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                maxLength={3}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="account-product-code">Statement Product</Label>
+            <Input
+              id="account-product-code"
+              value={productCode}
+              onChange={(e) => setProductCode(e.target.value)}
+              placeholder="e.g. Current, Savings"
+              disabled={isSubmitting}
+            />
+            <p className="text-xs text-muted-foreground">
+              Imported rows whose Product column, or OFX account number, matches this value are assigned to this account
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-opening-balance">Opening Balance</Label>
+              <Input
+                id="account-opening-balance"
+                type="number"
+                step="0.01"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+                className="tabular-nums"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-opening-date">Opening Balance Date</Label>
+              <Input
+                id="account-opening-date"
+                type="date"
+                value={openingBalanceDate}
+                onChange={(e) => setOpeningBalanceDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label htmlFor="account-active">Active</Label>
+              <p className="text-xs text-muted-foreground">Inactive accounts are left out of balance figures</p>
+            </div>
+            <Switch
+              id="account-active"
+              checked={isActive}
+              onCheckedChange={setIsActive}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : account ? 'Save Changes' : 'Add Account'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatCurrency } from '@/lib/formatting';
+import { BUDGET_PERIOD_LABELS, type BudgetPeriod, type BudgetVarianceRow } from '@/lib/budgets';
+
+interface BudgetFormDialogProps {
+  /** Category or hierarchy row being budgeted; the dialog is open while set */
+  row: BudgetVarianceRow | null;
+  /** Whether the row is a hierarchy rather than a category */
+  isHierarchy: boolean;
+  year: number;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: { period: BudgetPeriod; amount: number }) => Promise<void>;
+  onRemove: (budgetId: string) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+export function BudgetFormDialog({
+  row,
+  isHierarchy,
+  year,
+  onOpenChange,
+  onSubmit,
+  onRemove,
+  isSubmitting = false,
+}: BudgetFormDialogProps) {
+  const [period, setPeriod] = useState<BudgetPeriod>('monthly');
+  const [amount, setAmount] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!row) return;
+    const entered = row.period ?? 'monthly';
+    setPeriod(entered);
+    setAmount(row.hasOwnBudget && row.annualBudget !== null
+      ? String(entered === 'monthly' ? Math.round((row.annualBudget / 12) * 100) / 100 : row.annualBudget)
+      : '');
+    setError('');
+  }, [row]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount < 0) {
+      setError('Budget must be zero or more');
+      return;
+    }
+
+    await onSubmit({ period, amount: Math.round(parsedAmount * 100) / 100 });
+  };
+
+  const parsedAmount = parseFloat(amount);
+
+  return (
+    <Dialog open={!!row} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Budget for {row?.name}</DialogTitle>
+          <DialogDescription>
+            {isHierarchy
+              ? `A budget for the whole group in ${year}. It takes the place of any budgets on its categories in the group total.`
+              : `A budget for this category in ${year}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="budget-period">Period</Label>
+              <Select value={period} onValueChange={(value) => setPeriod(value as BudgetPeriod)}>
+                <SelectTrigger id="budget-period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BUDGET_PERIOD_LABELS) as BudgetPeriod[]).map(value => (
+                    <SelectItem key={value} value={value}>{BUDGET_PERIOD_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-amount">Amount</Label>
+              <Input
+                id="budget-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          {period === 'monthly' && !isNaN(parsedAmount) && parsedAmount > 0 && (
+            <p className="text-xs text-muted-foreground">{formatCurrency(parsedAmount * 12)} for the year</p>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter className="gap-2">
+            {row?.hasOwnBudget && row.budgetId && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onRemove(row.budgetId!)}
+                disabled={isSubmitting}
+                className="sm:mr-auto text-destructive hover:text-destructive"
+              >
+                Remove Budget
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save Budget'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
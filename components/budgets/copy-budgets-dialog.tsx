@@ -0,0 +1,107 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { CopyBudgetsData } from '@/hooks/use-budgets';
+
+interface CopyBudgetsDialogProps {
+  open: boolean;
+  year: number;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: Omit<CopyBudgetsData, 'year'>) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+export function CopyBudgetsDialog({
+  open,
+  year,
+  onOpenChange,
+  onSubmit,
+  isSubmitting = false,
+}: CopyBudgetsDialogProps) {
+  const [level, setLevel] = useState<CopyBudgetsData['level']>('category');
+  const [uplift, setUplift] = useState('0');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setLevel('category');
+    setUplift('0');
+    setError('');
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const upliftPercent = parseFloat(uplift);
+    if (isNaN(upliftPercent) || upliftPercent <= -100) {
+      setError('Uplift must be more than -100%');
+      return;
+    }
+
+    await onSubmit({ level, upliftPercent });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Copy Budgets from {year - 1}</DialogTitle>
+          <DialogDescription>
+            Sets an annual budget for {year} from each total in {year - 1}&apos;s income and expenditure, with an
+            optional uplift. Existing {year} budgets at the chosen level are replaced.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="copy-budgets-level">Budget each</Label>
+              <Select value={level} onValueChange={(value) => setLevel(value as CopyBudgetsData['level'])}>
+                <SelectTrigger id="copy-budgets-level">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="category">Category</SelectItem>
+                  <SelectItem value="hierarchy">Hierarchy</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="copy-budgets-uplift">Uplift (%)</Label>
+              <Input
+                id="copy-budgets-uplift"
+                type="number"
+                step="0.1"
+                value={uplift}
+                onChange={(e) => setUplift(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Copying...' : 'Copy Budgets'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCategoryMutations, type Category } from '@/hooks/use-categories';
+import { BUSINESS_USE_MODE_LABELS, businessUseMode, type BusinessUseMode } from '@/lib/business-use';
+
+/**
+ * Default business-use treatment for an expense category, applied to its
+ * transactions unless they set their own
+ */
+export function CategoryBusinessUseSelect({ category }: { category: Category }) {
+  const { updateCategory } = useCategoryMutations();
+  const [mode, setMode] = useState<BusinessUseMode>(businessUseMode(category));
+  const [percent, setPercent] = useState('');
+
+  useEffect(() => {
+    setMode(businessUseMode(category));
+    setPercent(category.business_use_percent != null ? String(Number(category.business_use_percent)) : '');
+  }, [category]);
+
+  const save = (business_use_percent: number | null, disallowable: boolean) => {
+    updateCategory.mutate({ id: category.id, data: { business_use_percent, disallowable } });
+  };
+
+  const handleModeChange = (value: string) => {
+    const next = value as BusinessUseMode;
+    setMode(next);
+    // Part private use waits for a percentage before saving
+    if (next === 'allowable') save(null, false);
+    if (next === 'disallowable') save(null, true);
+  };
+
+  const handlePercentBlur = () => {
+    const value = parseFloat(percent);
+    if (isNaN(value) || value < 0 || value > 100) return;
+    if (value === Number(category.business_use_percent) && !category.disallowable) return;
+    save(value, false);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={mode} onValueChange={handleModeChange} disabled={updateCategory.isPending}>
+        <SelectTrigger className="h-8 w-40 text-xs" aria-label={`Business use for ${category.name}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(BUSINESS_USE_MODE_LABELS) as BusinessUseMode[]).map(option => (
+            <SelectItem key={option} value={option}>{BUSINESS_USE_MODE_LABELS[option]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {mode === 'partial' && (
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          step="0.01"
+          value={percent}
+          onChange={(e) => setPercent(e.target.value)}
+          onBlur={handlePercentBlur}
+          placeholder="%"
+          className="h-8 w-16 text-xs"
+          aria-label={`Business use percentage for ${category.name}`}
+          disabled={updateCategory.isPending}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { toast } from 'sonner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCategoryMutations, type Category } from '@/hooks/use-categories';
+import { useUpdateCategoryHierarchy } from '@/hooks/use-category-hierarchies';
+import { SA103_LINES, sa103LineOptionLabel, type Sa103Form, type Sa103Line } from '@/lib/sa103';
+
+const NO_BOX = 'none';
+
+function Sa103LineSelect({
+  value,
+  type,
+  form,
+  noneLabel,
+  ariaLabel,
+  disabled,
+  onChange,
+}: {
+  value: Sa103Line | null;
+  type: 'income' | 'expenditure';
+  form?: Sa103Form;
+  noneLabel: string;
+  ariaLabel: string;
+  disabled: boolean;
+  onChange: (line: Sa103Line | null) => void;
+}) {
+  const kind = type === 'income' ? 'income' : 'expense';
+
+  return (
+    <Select
+      value={value ?? NO_BOX}
+      onValueChange={(selected) => onChange(selected === NO_BOX ? null : (selected as Sa103Line))}
+      disabled={disabled}
+    >
+      <SelectTrigger className="h-8 w-48 text-xs" aria-label={ariaLabel}>
+        <SelectValue placeholder={noneLabel} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_BOX}>{noneLabel}</SelectItem>
+        {SA103_LINES.filter(definition => definition.kind === kind).map(definition => (
+          <SelectItem key={definition.line} value={definition.line}>
+            {sa103LineOptionLabel(definition.line, form)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * SA103 box for a category, overriding the box set on its hierarchy
+ */
+export function CategorySa103Select({
+  category,
+  form,
+}: {
+  category: Pick<Category, 'id' | 'name' | 'type' | 'sa103_box'>;
+  form?: Sa103Form;
+}) {
+  const { updateCategory } = useCategoryMutations();
+
+  if (category.type === 'capital') return null;
+
+  return (
+    <Sa103LineSelect
+      value={category.sa103_box ?? null}
+      type={category.type}
+      form={form}
+      noneLabel="Use hierarchy SA103 box"
+      ariaLabel={`SA103 box for ${category.name}`}
+      disabled={updateCategory.isPending}
+      onChange={(line) => updateCategory.mutate({ id: category.id, data: { sa103_box: line } })}
+    />
+  );
+}
+
+/**
+ * Default SA103 box for every category in a hierarchy
+ */
+export function HierarchySa103Select({
+  hierarchy,
+  form,
+}: {
+  hierarchy: { id: string; name: string; type: 'income' | 'expenditure'; sa103_box: Sa103Line | null };
+  form?: Sa103Form;
+}) {
+  const updateHierarchy = useUpdateCategoryHierarchy();
+
+  const handleChange = (line: Sa103Line | null) => {
+    updateHierarchy.mutate(
+      { id: hierarchy.id, sa103_box: line },
+      {
+        onSuccess: () => toast.success(`SA103 box updated for "${hierarchy.name}"`),
+        onError: (error) => {
+          console.error('Error updating hierarchy SA103 box:', error);
+          toast.error('Failed to update SA103 box. Please try again.');
+        },
+      }
+    );
+  };
+
+  return (
+    <Sa103LineSelect
+      value={hierarchy.sa103_box}
+      type={hierarchy.type}
+      form={form}
+      noneLabel="No SA103 box"
+      ariaLabel={`SA103 box for ${hierarchy.name}`}
+      disabled={updateHierarchy.isPending}
+      onChange={handleChange}
+    />
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCategoryMutations, type Category } from '@/hooks/use-categories';
+import { DEFAULT_VAT_RATES, VAT_TREATMENT_LABELS, type VatTreatment } from '@/lib/vat';
+
+const NO_DEFAULT = 'none';
+
+export function vatTreatmentOptionLabel(treatment: VatTreatment, rate?: number | null): string {
+  const effectiveRate = rate ?? DEFAULT_VAT_RATES[treatment];
+  return effectiveRate > 0 ? `${VAT_TREATMENT_LABELS[treatment]} (${effectiveRate}%)` : VAT_TREATMENT_LABELS[treatment];
+}
+
+/**
+ * Default VAT treatment for a category, applied to its transactions unless they set their own
+ */
+export function CategoryVatSelect({ category }: { category: Category }) {
+  const { updateCategory } = useCategoryMutations();
+
+  const handleChange = (value: string) => {
+    updateCategory.mutate({
+      id: category.id,
+      data: {
+        vat_treatment: value === NO_DEFAULT ? null : (value as VatTreatment),
+        vat_rate: null,
+      },
+    });
+  };
+
+  return (
+    <Select
+      value={category.vat_treatment ?? NO_DEFAULT}
+      onValueChange={handleChange}
+      disabled={updateCategory.isPending}
+    >
+      <SelectTrigger className="h-8 w-44 text-xs" aria-label={`VAT default for ${category.name}`}>
+        <SelectValue placeholder="No VAT default" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_DEFAULT}>No VAT default</SelectItem>
+        {(Object.keys(VAT_TREATMENT_LABELS) as VatTreatment[]).map(treatment => (
+          <SelectItem key={treatment} value={treatment}>
+            {vatTreatmentOptionLabel(treatment, category.vat_treatment === treatment ? category.vat_rate : null)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
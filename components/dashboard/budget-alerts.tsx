@@ -0,0 +1,110 @@
+'use client';
+
+import Link from 'next/link';
+import { AlertTriangle, ArrowRight, CheckCircle2, Target } from 'lucide-react';
+import { useBudgetVsActual } from '@/hooks/use-budgets';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCurrency } from '@/lib/formatting';
+import type { BudgetVarianceRow } from '@/lib/budgets';
+
+interface OverBudgetLine extends BudgetVarianceRow {
+  hierarchyName: string | null;
+}
+
+export function BudgetAlerts() {
+  const year = new Date().getFullYear();
+  const { data, isLoading, error } = useBudgetVsActual(year);
+
+  const header = (
+    <CardHeader>
+      <CardTitle className="flex items-center">
+        <Target className="h-5 w-5 mr-2" />
+        Budgets {year}
+      </CardTitle>
+      <CardDescription>Spending against budget for the year so far</CardDescription>
+    </CardHeader>
+  );
+
+  if (isLoading) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 bg-muted rounded animate-pulse" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <p className="text-sm text-red-600">Failed to load budgets</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const hasBudgets = data.totals.income.annualBudget !== null || data.totals.expenditure.annualBudget !== null;
+  const overBudget: OverBudgetLine[] = data.expenditure
+    .flatMap(section => [
+      ...(section.isOverBudget ? [{ ...section, hierarchyName: null }] : []),
+      ...section.categories
+        .filter(category => category.isOverBudget)
+        .map(category => ({ ...category, hierarchyName: section.name })),
+    ])
+    .sort((a, b) => a.variance - b.variance);
+
+  return (
+    <Card>
+      {header}
+      <CardContent>
+        {!hasBudgets ? (
+          <div className="text-center py-6">
+            <p className="text-muted-foreground mb-2">No budgets set for {year}</p>
+            <Link href="/reports/budget-vs-actual" className="text-sm text-primary font-medium inline-flex items-center">
+              Set budgets
+              <ArrowRight className="w-4 h-4 ml-1" />
+            </Link>
+          </div>
+        ) : overBudget.length === 0 ? (
+          <div className="flex items-center gap-3 text-sm">
+            <CheckCircle2 className="h-5 w-5 text-green-600 dark:text-green-400" />
+            <span>All budgeted spending is within budget so far this year.</span>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {overBudget.map(line => (
+              <div key={line.id} className="flex items-center justify-between p-3 rounded-lg border">
+                <div className="flex items-center gap-3 min-w-0">
+                  <AlertTriangle className="h-4 w-4 text-red-600 dark:text-red-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm truncate">{line.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {line.hierarchyName ?? 'Hierarchy'} · {formatCurrency(line.actual)} of {formatCurrency(line.budget)} budgeted to date
+                    </p>
+                  </div>
+                </div>
+                <p className="font-semibold text-sm text-red-600 dark:text-red-400 tabular-nums flex-shrink-0 ml-3">
+                  {formatCurrency(-line.variance)} over
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+        {hasBudgets && (
+          <Link href="/reports/budget-vs-actual" className="mt-4 text-sm text-primary font-medium inline-flex items-center">
+            View Budget vs Actual
+            <ArrowRight className="w-4 h-4 ml-1" />
+          </Link>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,18 +4,24 @@ import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
 import {
   BarChart3,
+  CalendarClock,
   CreditCard,
   TrendingUp,
   TrendingDown,
   Tags,
   FileText,
   FileSpreadsheet,
+  Landmark,
   List,
+  Receipt,
+  Repeat,
   Settings,
   Scale,
   StickyNote,
+  Target,
   Wallet,
   AlertTriangle,
+  ArrowLeftRight,
   LogOut,
   User,
 } from 'lucide-react';
@@ -50,6 +56,8 @@ const navigationSections: NavigationSection[] = [
       { name: 'All Transactions', href: '/transactions', icon: List },
       { name: 'Uncategorized', href: '/uncategorized', icon: AlertTriangle },
       { name: 'Transaction Notes', href: '/transaction-notes', icon: StickyNote },
+      { name: 'Transfers', href: '/transfers', icon: ArrowLeftRight },
+      { name: 'Recurring', href: '/recurring', icon: Repeat },
     ],
   },
   {
@@ -57,6 +65,9 @@ const navigationSections: NavigationSection[] = [
     items: [
       { name: 'Reports', href: '/reports', icon: FileText },
       { name: 'Self Assessment', href: '/reports/tax/self-assessment', icon: FileSpreadsheet },
+      { name: 'Tax Calendar', href: '/reports/tax/tax-calendar', icon: CalendarClock },
+      { name: 'Budget vs Actual', href: '/reports/budget-vs-actual', icon: Target },
+      { name: 'VAT Return', href: '/reports/tax/vat-return', icon: Receipt },
       { name: 'Bank Reconciliation', href: '/bank-reconciliation', icon: Scale },
     ],
   },
@@ -64,6 +75,8 @@ const navigationSections: NavigationSection[] = [
     label: 'Data Management',
     items: [
       { name: 'Revolut Import', href: '/import/bank', icon: CreditCard },
+      { name: 'QIF Import', href: '/import/qif', icon: FileText },
+      { name: 'Bank Accounts', href: '/bank-accounts', icon: Landmark },
       { name: 'Pattern Management', href: '/patterns', icon: Settings },
       { name: 'Category Management', href: '/categories', icon: Tags },
       { name: 'Add Income', href: '/add-income', icon: TrendingUp },
@@ -161,10 +161,6 @@ export function StatsCards() {
   const expenditureChangeDisplay = getChangeDisplay(expenditureChange, previousMonthExpenditure > 0);
   const balanceChangeDisplay = getChangeDisplay(balanceChange, previousMonthIncome > 0 || previousMonthExpenditure > 0);
 
-  const displayBankBalance = dateFilter === 'this-month'
-    ? (currentMonthIncome - currentMonthExpenditure + totalCapitalIn - totalCapitalOut)
-    : bankBalance;
-
   const capitalSubtitle = totalCapitalIn > 0 || totalCapitalOut > 0
     ? `+${formatCurrency(totalCapitalIn)} injections / -${formatCurrency(totalCapitalOut)} drawings`
     : 'No capital movements';
@@ -242,9 +238,9 @@ export function StatsCards() {
         </CardHeader>
         <CardContent>
           <div className={`text-2xl font-bold tabular-nums ${
-            displayBankBalance >= 0 ? 'text-blue-600' : 'text-red-600'
+            bankBalance >= 0 ? 'text-blue-600' : 'text-red-600'
           }`}>
-            {formatCurrency(displayBankBalance)}
+            {formatCurrency(bankBalance)}
           </div>
           <div className="flex items-center mt-2">
             <span className="text-xs text-muted-foreground">
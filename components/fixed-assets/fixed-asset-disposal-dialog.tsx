@@ -0,0 +1,170 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useDisposalCandidates, type FixedAssetDisposalData } from '@/hooks/use-fixed-assets';
+import { formatCurrency, formatDate } from '@/lib/formatting';
+import { disposalGain, type FixedAsset } from '@/lib/fixed-assets';
+
+const NO_TRANSACTION = 'none';
+
+interface FixedAssetDisposalDialogProps {
+  asset: FixedAsset | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: FixedAssetDisposalData) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+export function FixedAssetDisposalDialog({
+  asset,
+  onOpenChange,
+  onSubmit,
+  isSubmitting = false,
+}: FixedAssetDisposalDialogProps) {
+  const [disposalDate, setDisposalDate] = useState('');
+  const [proceeds, setProceeds] = useState('0.00');
+  const [transactionId, setTransactionId] = useState(NO_TRANSACTION);
+  const [error, setError] = useState('');
+
+  const { data: candidates = [] } = useDisposalCandidates(asset ? disposalDate || null : null);
+
+  useEffect(() => {
+    if (!asset) return;
+    setDisposalDate(new Date().toISOString().split('T')[0]);
+    setProceeds('0.00');
+    setTransactionId(NO_TRANSACTION);
+    setError('');
+  }, [asset]);
+
+  const handleTransactionChange = (value: string) => {
+    setTransactionId(value);
+    const candidate = candidates.find(c => c.id === value);
+    if (candidate) {
+      setProceeds(Math.abs(candidate.amount).toFixed(2));
+      setDisposalDate(candidate.transaction_date);
+    }
+  };
+
+  const parsedProceeds = parseFloat(proceeds);
+  const previewGain = asset && disposalDate && disposalDate >= asset.acquisition_date && !isNaN(parsedProceeds)
+    ? disposalGain({ ...asset, disposal_date: disposalDate, disposal_proceeds: parsedProceeds })
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!asset) return;
+
+    if (!disposalDate) {
+      setError('Disposal date is required');
+      return;
+    }
+    if (disposalDate < asset.acquisition_date) {
+      setError('An asset can\'t be disposed of before it was acquired');
+      return;
+    }
+    if (isNaN(parsedProceeds) || parsedProceeds < 0) {
+      setError('Proceeds must be zero or more');
+      return;
+    }
+
+    await onSubmit({
+      asset,
+      disposal_date: disposalDate,
+      disposal_proceeds: parsedProceeds,
+      disposal_transaction_id: transactionId === NO_TRANSACTION ? null : transactionId,
+    });
+  };
+
+  return (
+    <Dialog open={!!asset} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Dispose of {asset?.name}</DialogTitle>
+          <DialogDescription>
+            Depreciation stops the month before disposal. The difference between net book value and proceeds
+            is posted as a profit or loss on sale.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="disposal-date">Disposal date</Label>
+              <Input
+                id="disposal-date"
+                type="date"
+                value={disposalDate}
+                onChange={(e) => setDisposalDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="disposal-proceeds">Proceeds (£)</Label>
+              <Input
+                id="disposal-proceeds"
+                type="number"
+                step="0.01"
+                min="0"
+                value={proceeds}
+                onChange={(e) => setProceeds(e.target.value)}
+                className="tabular-nums"
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="disposal-transaction">Sale proceeds transaction (optional)</Label>
+            <Select value={transactionId} onValueChange={handleTransactionChange}>
+              <SelectTrigger id="disposal-transaction">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TRANSACTION}>None - scrapped or not yet received</SelectItem>
+                {candidates.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {formatDate(candidate.transaction_date)} · {candidate.description} · {formatCurrency(Math.abs(candidate.amount))}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              The linked income is taken out of the P&amp;L so the sale isn&apos;t counted twice.
+            </p>
+          </div>
+
+          {previewGain !== null && (
+            <p className="text-sm text-muted-foreground">
+              {previewGain >= 0 ? 'Profit' : 'Loss'} on disposal:{' '}
+              <span className={`font-medium ${previewGain >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                {formatCurrency(Math.abs(previewGain))}
+              </span>
+            </p>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Record Disposal'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CategoryPicker } from '@/components/categories/category-picker';
+import { formatCurrency } from '@/lib/formatting';
+import { DEPRECIATION_METHOD_LABELS, buildDepreciationSchedule, type DepreciationMethod } from '@/lib/fixed-assets';
+import type { FixedAssetFormData } from '@/hooks/use-fixed-assets';
+
+interface FixedAssetFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Expenditure transaction being capitalised; the form is prefilled from it */
+  transaction?: {
+    id: string;
+    description: string;
+    amount: number;
+    transaction_date: string;
+    category_id?: string;
+  } | null;
+  onSubmit: (data: FixedAssetFormData) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export function FixedAssetFormDialog({
+  open,
+  onOpenChange,
+  transaction,
+  onSubmit,
+  isSubmitting = false,
+}: FixedAssetFormDialogProps) {
+  const [name, setName] = useState('');
+  const [cost, setCost] = useState('');
+  const [acquisitionDate, setAcquisitionDate] = useState(today());
+  const [usefulLifeMonths, setUsefulLifeMonths] = useState('36');
+  const [method, setMethod] = useState<DepreciationMethod>('straight_line');
+  const [rate, setRate] = useState('25');
+  const [residualValue, setResidualValue] = useState('0.00');
+  const [categoryId, setCategoryId] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setName(transaction?.description ?? '');
+    setCost(transaction ? Math.abs(transaction.amount).toFixed(2) : '');
+    setAcquisitionDate(transaction?.transaction_date ?? today());
+    setUsefulLifeMonths('36');
+    setMethod('straight_line');
+    setRate('25');
+    setResidualValue('0.00');
+    setCategoryId(transaction?.category_id ?? '');
+    setError('');
+  }, [open, transaction]);
+
+  const parsedCost = parseFloat(cost);
+  const parsedLife = parseInt(usefulLifeMonths, 10);
+  const parsedRate = parseFloat(rate);
+  const parsedResidual = parseFloat(residualValue) || 0;
+
+  // First month's charge, so the user can sanity-check the method before saving
+  const firstCharge = parsedCost > 0 && parsedLife > 0 && parsedResidual < parsedCost
+    ? buildDepreciationSchedule({
+        cost: parsedCost,
+        acquisition_date: acquisitionDate || today(),
+        useful_life_months: parsedLife,
+        method,
+        reducing_balance_rate: method === 'reducing_balance' ? parsedRate || 0 : null,
+        residual_value: parsedResidual,
+        disposal_date: null,
+        disposal_proceeds: null,
+      })[0]?.amount ?? null
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setError('Asset name is required');
+      return;
+    }
+    if (isNaN(parsedCost) || parsedCost <= 0) {
+      setError('Cost must be more than zero');
+      return;
+    }
+    if (!acquisitionDate) {
+      setError('Acquisition date is required');
+      return;
+    }
+    if (isNaN(parsedLife) || parsedLife <= 0) {
+      setError('Useful life must be at least one month');
+      return;
+    }
+    if (method === 'reducing_balance' && (isNaN(parsedRate) || parsedRate <= 0 || parsedRate > 100)) {
+      setError('Reducing balance rate must be between 0 and 100%');
+      return;
+    }
+    if (parsedResidual < 0 || parsedResidual >= parsedCost) {
+      setError('Residual value must be zero or more and less than the cost');
+      return;
+    }
+    if (!categoryId) {
+      setError('Choose the expense category depreciation is charged to');
+      return;
+    }
+
+    await onSubmit({
+      name: name.trim(),
+      source_transaction_id: transaction?.id ?? null,
+      cost: parsedCost,
+      acquisition_date: acquisitionDate,
+      useful_life_months: parsedLife,
+      method,
+      reducing_balance_rate: method === 'reducing_balance' ? parsedRate : null,
+      residual_value: parsedResidual,
+      depreciation_category_id: categoryId,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{transaction ? 'Capitalise as Fixed Asset' : 'Add Fixed Asset'}</DialogTitle>
+          <DialogDescription>
+            {transaction
+              ? 'The purchase leaves the P&L and is replaced by monthly depreciation over the asset\'s useful life.'
+              : 'Record an asset bought outside the imported transactions. Depreciation is charged monthly from the acquisition date.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="asset-name">Name</Label>
+            <Input
+              id="asset-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Delivery van, Laptop"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="asset-cost">Cost (£)</Label>
+              <Input
+                id="asset-cost"
+                type="number"
+                step="0.01"
+                min="0"
+                value={cost}
+                onChange={(e) => setCost(e.target.value)}
+                className="tabular-nums"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="asset-acquisition-date">Acquisition date</Label>
+              <Input
+                id="asset-acquisition-date"
+                type="date"
+                value={acquisitionDate}
+                onChange={(e) => setAcquisitionDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="asset-method">Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as DepreciationMethod)}>
+                <SelectTrigger id="asset-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DEPRECIATION_METHOD_LABELS) as DepreciationMethod[]).map(option => (
+                    <SelectItem key={option} value={option}>{DEPRECIATION_METHOD_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="asset-life">Useful life (months)</Label>
+              <Input
+                id="asset-life"
+                type="number"
+                step="1"
+                min="1"
+                value={usefulLifeMonths}
+                onChange={(e) => setUsefulLifeMonths(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {method === 'reducing_balance' && (
+              <div className="space-y-2">
+                <Label htmlFor="asset-rate">Annual rate (%)</Label>
+                <Input
+                  id="asset-rate"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={rate}
+                  onChange={(e) => setRate(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="asset-residual">Residual value (£)</Label>
+              <Input
+                id="asset-residual"
+                type="number"
+                step="0.01"
+                min="0"
+                value={residualValue}
+                onChange={(e) => setResidualValue(e.target.value)}
+                className="tabular-nums"
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Depreciation category</Label>
+            <CategoryPicker
+              type="expenditure"
+              value={categoryId || undefined}
+              onValueChange={setCategoryId}
+              placeholder="Select an expense category"
+            />
+            <p className="text-xs text-muted-foreground">
+              Depreciation and any profit or loss on disposal appear in this category on the P&amp;L.
+            </p>
+          </div>
+
+          {firstCharge !== null && (
+            <p className="text-sm text-muted-foreground">
+              First month&apos;s depreciation: <span className="font-medium text-foreground">{formatCurrency(firstCharge)}</span>
+            </p>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : transaction ? 'Capitalise' : 'Add Asset'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { Link2, Plus, SkipForward } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { formatCurrency, formatDate } from '@/lib/formatting';
+import type { CommitAction, CommitPlan } from '@/lib/import-commit-planner';
+
+interface CommitSummaryProps {
+  plan: CommitPlan;
+}
+
+const ACTION_STYLES: Record<CommitAction, { label: string; className: string }> = {
+  insert: { label: 'Insert', className: 'bg-green-100 text-green-800' },
+  link: { label: 'Link', className: 'bg-blue-100 text-blue-800' },
+  skip: { label: 'Skip', className: 'bg-muted text-muted-foreground' },
+};
+
+export function CommitSummary({ plan }: CommitSummaryProps) {
+  const [filter, setFilter] = useState<CommitAction | 'all'>('all');
+
+  const items = filter === 'all' ? plan.items : plan.items.filter(i => i.action === filter);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <button
+          type="button"
+          onClick={() => setFilter(filter === 'insert' ? 'all' : 'insert')}
+          className={`bg-green-50 border rounded-lg p-4 text-center ${filter === 'insert' ? 'border-green-500' : 'border-green-200'}`}
+        >
+          <Plus className="h-4 w-4 text-green-600 mx-auto mb-1" />
+          <div className="text-2xl font-bold text-green-700">{plan.summary.inserted}</div>
+          <div className="text-sm text-green-600">Inserted</div>
+          <div className="text-xs text-green-500 mt-1">New transactions from the bank</div>
+        </button>
+
+        <button
+          type="button"
+          onClick={() => setFilter(filter === 'link' ? 'all' : 'link')}
+          className={`bg-blue-50 border rounded-lg p-4 text-center ${filter === 'link' ? 'border-blue-500' : 'border-blue-200'}`}
+        >
+          <Link2 className="h-4 w-4 text-blue-600 mx-auto mb-1" />
+          <div className="text-2xl font-bold text-blue-700">{plan.summary.linked}</div>
+          <div className="text-sm text-blue-600">Linked</div>
+          <div className="text-xs text-blue-500 mt-1">Existing transactions kept as they are</div>
+        </button>
+
+        <button
+          type="button"
+          onClick={() => setFilter(filter === 'skip' ? 'all' : 'skip')}
+          className={`bg-muted border rounded-lg p-4 text-center ${filter === 'skip' ? 'border-foreground' : 'border-border'}`}
+        >
+          <SkipForward className="h-4 w-4 text-muted-foreground mx-auto mb-1" />
+          <div className="text-2xl font-bold text-foreground">{plan.summary.skipped}</div>
+          <div className="text-sm text-muted-foreground">Skipped</div>
+          <div className="text-xs text-muted-foreground mt-1">Left in the import for review</div>
+        </button>
+      </div>
+
+      <div className="border rounded-lg divide-y max-h-80 overflow-y-auto">
+        {items.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground text-center">No transactions in this group</p>
+        ) : (
+          items.map(item => (
+            <div key={item.importedId} className="flex items-center justify-between p-3 text-sm">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{item.description}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDate(item.date)} • {item.reason}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 ml-4">
+                <span className={item.amount >= 0 ? 'text-green-600' : 'text-red-600'}>
+                  {formatCurrency(item.amount)}
+                </span>
+                <Badge className={ACTION_STYLES[item.action].className}>
+                  {ACTION_STYLES[item.action].label}
+                </Badge>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {filter !== 'all' && (
+        <Button variant="ghost" size="sm" onClick={() => setFilter('all')}>
+          Show all
+        </Button>
+      )}
+    </div>
+  );
+}
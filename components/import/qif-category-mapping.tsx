@@ -0,0 +1,74 @@
+'use client';
+
+import { useMemo } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CategoryPicker } from '@/components/categories/category-picker';
+import { formatCurrency } from '@/lib/formatting';
+import { isQIFTransfer, qifCategoryKey, type QIFImportLine } from '@/lib/qif';
+
+interface QIFCategoryMappingProps {
+  lines: QIFImportLine[];
+  categoryIds: Record<string, string>;
+  onChange: (key: string, categoryId: string | null) => void;
+}
+
+interface MappingRow {
+  key: string;
+  name: string | null;
+  type: 'income' | 'expenditure';
+  count: number;
+  total: number;
+}
+
+export function QIFCategoryMapping({ lines, categoryIds, onChange }: QIFCategoryMappingProps) {
+  const rows = useMemo(() => {
+    const byKey = new Map<string, MappingRow>();
+    lines.forEach(line => {
+      const key = qifCategoryKey(line);
+      const row = byKey.get(key) ?? { key, name: line.category, type: line.type, count: 0, total: 0 };
+      row.count += 1;
+      row.total += line.amount;
+      byKey.set(key, row);
+    });
+
+    return [...byKey.values()].sort((a, b) =>
+      a.type.localeCompare(b.type) || (a.name ?? '').localeCompare(b.name ?? '')
+    );
+  }, [lines]);
+
+  return (
+    <div className="border rounded-lg divide-y">
+      {rows.map(row => (
+        <div key={row.key} className="flex flex-col gap-3 p-4 md:flex-row md:items-center md:justify-between">
+          <div className="min-w-0 space-y-1">
+            <div className="flex items-center gap-2">
+              <p className="font-medium truncate">{row.name ?? 'No category'}</p>
+              <Badge variant="outline" className="text-xs capitalize">{row.type}</Badge>
+              {isQIFTransfer(row.name) && <Badge variant="secondary" className="text-xs">Transfer</Badge>}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {row.count} {row.count === 1 ? 'transaction' : 'transactions'} • {formatCurrency(row.total)}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 md:w-80">
+            <div className="flex-1">
+              <CategoryPicker
+                type={row.type}
+                value={categoryIds[row.key]}
+                onValueChange={(categoryId) => onChange(row.key, categoryId)}
+                placeholder="Leave uncategorised"
+              />
+            </div>
+            {categoryIds[row.key] && (
+              <Button variant="ghost" size="sm" onClick={() => onChange(row.key, null)} title="Leave uncategorised">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
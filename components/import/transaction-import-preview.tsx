@@ -5,13 +5,31 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, AlertTriangle, Eye, EyeOff, Settings, Shield } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { CheckCircle, AlertTriangle, Eye, EyeOff, Settings, Shield, Landmark, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
 import { useCategories } from '@/hooks/use-categories';
+import { useBankCSVProfiles, useBankCSVProfileMutations } from '@/hooks/import/use-bank-csv-profiles';
+import type { TransactionImportType } from '@/hooks/import/use-transaction-import';
+import {
+  CSV_DATE_FORMAT_LABELS,
+  CSV_ENCODING_LABELS,
+  CSV_SIGN_CONVENTION_LABELS,
+  detectCSVDateFormat,
+  parseCSVAmount,
+  parseCSVDate,
+  type BankCSVProfile,
+  type CSVDateFormat,
+  type CSVEncoding,
+  type CSVSignConvention,
+} from '@/lib/bank-csv-profiles';
 
 interface TransactionImportPreviewProps {
   data: Record<string, string>[];
   fileName: string;
-  onImport: (mappedData: ParsedTransaction[], duplicateStrategy: string, transactionType: 'income' | 'expenditure') => void;
+  /** Profile detected from the file's headers, if any */
+  profile?: BankCSVProfile | null;
+  onImport: (mappedData: ParsedTransaction[], duplicateStrategy: string, transactionType: TransactionImportType) => void;
   onCancel: () => void;
 }
 
@@ -20,6 +38,8 @@ interface ColumnMapping {
   supplier: string;
   description: string;
   amount: string;
+  debit: string;
+  credit: string;
   category: string;
 }
 
@@ -29,28 +49,40 @@ interface ParsedTransaction {
   description: string;
   amount: number;
   category: string;
+  type?: 'income' | 'expenditure';
   originalRow: Record<string, string>;
   fingerprint: string;
   isDuplicate?: boolean;
   duplicateReason?: string;
 }
 
+const CUSTOM_MAPPING = 'custom';
+
+const EMPTY_MAPPING: ColumnMapping = {
+  date: '',
+  supplier: '',
+  description: '',
+  amount: '',
+  debit: '',
+  credit: '',
+  category: '',
+};
+
 const DUPLICATE_STRATEGIES = [
   { value: 'skip', label: 'Skip Duplicates', description: 'Skip importing duplicate transactions' },
   { value: 'import', label: 'Import All', description: 'Import all transactions including duplicates' },
   { value: 'update', label: 'Update Existing', description: 'Update existing transactions with new data' },
 ];
 
-export function TransactionImportPreview({ data, fileName, onImport, onCancel }: TransactionImportPreviewProps) {
-  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({
-    date: '',
-    supplier: '',
-    description: '',
-    amount: '',
-    category: '',
-  });
+export function TransactionImportPreview({ data, fileName, profile, onImport, onCancel }: TransactionImportPreviewProps) {
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [profileId, setProfileId] = useState(profile?.id ?? CUSTOM_MAPPING);
+  const [dateFormat, setDateFormat] = useState<CSVDateFormat | 'auto'>('auto');
+  const [signConvention, setSignConvention] = useState<CSVSignConvention>('signed');
+  const [encoding, setEncoding] = useState<CSVEncoding>('utf-8');
+  const [profileName, setProfileName] = useState('');
   const [duplicateStrategy, setDuplicateStrategy] = useState('skip');
-  const [transactionType, setTransactionType] = useState<'income' | 'expenditure'>('expenditure');
+  const [transactionType, setTransactionType] = useState<TransactionImportType>('expenditure');
   const [showPreview, setShowPreview] = useState(true);
   const [validationResults, setValidationResults] = useState<{
     total: number;
@@ -61,7 +93,10 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
     issues: string[];
   } | null>(null);
 
-  const { data: categories } = useCategories(transactionType);
+  const { data: categories } = useCategories(transactionType === 'auto' ? undefined : transactionType);
+  const { data: profiles = [] } = useBankCSVProfiles();
+  const { saveProfile, deleteProfile } = useBankCSVProfileMutations();
+  const selectedProfile = profiles.find(p => p.id === profileId) ?? (profile?.id === profileId ? profile : null);
 
   // Get available columns from the data
   const columns = useMemo(() => {
@@ -69,16 +104,43 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
     return Object.keys(data[0]);
   }, [data]);
 
-  // Auto-detect column mappings based on common column names
+  // Bank exports differ in header case and spacing from the profile
+  const findColumn = (name: string | undefined): string =>
+    name ? columns.find(col => col.trim().toLowerCase() === name.trim().toLowerCase()) ?? '' : '';
+
+  // A profile names its payee column counterparty; without one the description is the supplier
+  const applyProfile = (selected: BankCSVProfile) => {
+    const { columns: profileColumns } = selected;
+    setColumnMapping({
+      date: findColumn(profileColumns.date),
+      supplier: findColumn(profileColumns.counterparty ?? profileColumns.description),
+      description: profileColumns.counterparty ? findColumn(profileColumns.description) : '',
+      amount: findColumn(profileColumns.amount),
+      debit: findColumn(profileColumns.debit),
+      credit: findColumn(profileColumns.credit),
+      category: findColumn(profileColumns.category),
+    });
+    setDateFormat(selected.dateFormat);
+    setSignConvention(selected.signConvention);
+    setEncoding(selected.encoding);
+    setTransactionType('auto');
+  };
+
+  const handleProfileChange = (value: string) => {
+    setProfileId(value);
+    const selected = profiles.find(p => p.id === value);
+    if (selected) applyProfile(selected);
+  };
+
+  // Use the detected bank profile, or guess from common column names
   useMemo(() => {
+    if (profile && columns.length > 0) {
+      applyProfile(profile);
+      return;
+    }
+
     if (columns.length > 0) {
-      const mapping: ColumnMapping = {
-        date: '',
-        supplier: '',
-        description: '',
-        amount: '',
-        category: '',
-      };
+      const mapping: ColumnMapping = { ...EMPTY_MAPPING };
 
       columns.forEach(col => {
         const lowerCol = col.toLowerCase();
@@ -97,11 +159,15 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
 
       setColumnMapping(mapping);
     }
-  }, [columns]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [columns, profile]);
 
   // Parse and validate transactions
   const parsedTransactions = useMemo(() => {
-    if (!data || !columnMapping.date || !columnMapping.supplier || !columnMapping.amount) {
+    const hasAmount = signConvention === 'split'
+      ? columnMapping.debit || columnMapping.credit
+      : columnMapping.amount;
+    if (!data || !columnMapping.date || !columnMapping.supplier || !hasAmount) {
       return [];
     }
 
@@ -110,45 +176,31 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
 
     data.forEach((row, index) => {
       try {
-        // Parse date
-        const dateStr = row[columnMapping.date];
-        let dateForStorage: string;
-        
-        if (dateStr.includes('/')) {
-          // Handle DD/MM/YYYY format (UK format)
-          const parts = dateStr.split('/');
-          if (parts.length === 3) {
-            const day = parseInt(parts[0]);
-            const month = parseInt(parts[1]);
-            const year = parseInt(parts[2]);
-            
-            // Validate date parts
-            if (day < 1 || day > 31 || month < 1 || month > 12 || year < 1900) {
-              throw new Error('Invalid date values');
-            }
-            
-            // Create timezone-neutral date string in YYYY-MM-DD format
-            const paddedMonth = month.toString().padStart(2, '0');
-            const paddedDay = day.toString().padStart(2, '0');
-            dateForStorage = `${year}-${paddedMonth}-${paddedDay}`;
-          } else {
-            throw new Error('Invalid date format');
+        // Parse date - 'auto' reads slashed dates as DD/MM/YYYY (UK format)
+        const dateForStorage = parseCSVDate(row[columnMapping.date] ?? '', dateFormat);
+
+        // Parse amount, signed so money in is positive
+        let signedAmount: number;
+        if (signConvention === 'split') {
+          const moneyOut = parseCSVAmount(row[columnMapping.debit] ?? '');
+          const moneyIn = parseCSVAmount(row[columnMapping.credit] ?? '');
+          if (isNaN(moneyOut) && isNaN(moneyIn)) {
+            throw new Error('Invalid amount');
           }
+          signedAmount = (isNaN(moneyIn) ? 0 : Math.abs(moneyIn)) - (isNaN(moneyOut) ? 0 : Math.abs(moneyOut));
         } else {
-          // For other formats, try to parse and convert
-          const parsedDate = new Date(dateStr);
-          if (isNaN(parsedDate.getTime())) {
-            throw new Error('Invalid date');
+          signedAmount = parseCSVAmount(row[columnMapping.amount] ?? '');
+          if (isNaN(signedAmount)) {
+            throw new Error('Invalid amount');
           }
-          dateForStorage = parsedDate.toISOString().split('T')[0];
+          if (signConvention === 'inverted') signedAmount = -signedAmount;
         }
 
-        // Parse amount
-        const amountStr = row[columnMapping.amount].toString().replace(/[£$€,]/g, '');
-        const amount = parseFloat(amountStr);
-        if (isNaN(amount)) {
-          throw new Error('Invalid amount');
-        }
+        // Importing both directions takes each row's type from the sign
+        const type = transactionType === 'auto'
+          ? (signedAmount < 0 ? 'expenditure' : 'income')
+          : undefined;
+        const amount = type ? Math.round(Math.abs(signedAmount) * 100) / 100 : signedAmount;
 
         // Get other fields
         const supplier = row[columnMapping.supplier] || '';
@@ -174,6 +226,7 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
           description,
           amount,
           category,
+          type,
           originalRow: row,
           fingerprint,
           isDuplicate,
@@ -185,7 +238,7 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
     });
 
     return transactions;
-  }, [data, columnMapping]);
+  }, [data, columnMapping, dateFormat, signConvention, transactionType]);
 
   // Validate the mapping and data
   const validateMapping = () => {
@@ -246,7 +299,55 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
     }
   };
 
-  const isValidMapping = columnMapping.date && columnMapping.supplier && columnMapping.amount;
+  const isValidMapping = columnMapping.date && columnMapping.supplier &&
+    (signConvention === 'split' ? columnMapping.debit || columnMapping.credit : columnMapping.amount);
+
+  // Saved profiles keep the mapping as column names, so the next file from the same bank is detected
+  const handleSaveProfile = async () => {
+    const savedDateFormat = dateFormat === 'auto'
+      ? detectCSVDateFormat(data.slice(0, 50).map(row => row[columnMapping.date] ?? ''))
+      : dateFormat;
+    if (!savedDateFormat) {
+      toast.error('Choose a date format before saving the profile');
+      return;
+    }
+
+    try {
+      const id = await saveProfile.mutateAsync({
+        name: profileName.trim(),
+        columns: {
+          date: columnMapping.date,
+          description: columnMapping.description || columnMapping.supplier,
+          counterparty: columnMapping.description ? columnMapping.supplier : undefined,
+          amount: signConvention === 'split' ? undefined : columnMapping.amount,
+          debit: signConvention === 'split' ? columnMapping.debit || undefined : undefined,
+          credit: signConvention === 'split' ? columnMapping.credit || undefined : undefined,
+          category: columnMapping.category || undefined,
+        },
+        dateFormat: savedDateFormat,
+        signConvention,
+        encoding,
+      });
+      setProfileId(id);
+      setDateFormat(savedDateFormat);
+      setProfileName('');
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to save CSV profile:', error);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!selectedProfile?.custom) return;
+
+    try {
+      await deleteProfile.mutateAsync(selectedProfile.id);
+      setProfileId(CUSTOM_MAPPING);
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to delete CSV profile:', error);
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -263,6 +364,49 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
         </div>
       </div>
 
+      {/* Bank Profile */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Landmark className="h-5 w-5" />
+            <span>Bank Profile</span>
+          </CardTitle>
+          <CardDescription>
+            Choose your bank to fill in the column mapping, or map the columns yourself
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-2">
+            <Select value={profileId} onValueChange={handleProfileChange}>
+              <SelectTrigger className="w-72">
+                <SelectValue placeholder="Select bank profile" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CUSTOM_MAPPING}>Custom mapping</SelectItem>
+                {profiles.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}{option.custom ? ' (saved)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {profile && profileId === profile.id && (
+              <Badge variant="secondary">Detected</Badge>
+            )}
+            {selectedProfile?.custom && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleDeleteProfile}
+                disabled={deleteProfile.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Transaction Type Selection */}
       <Card>
         <CardHeader>
@@ -271,7 +415,7 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
             <span>Transaction Type</span>
           </CardTitle>
           <CardDescription>
-            {`Select whether you're importing income or expenditure transactions`}
+            {`Select whether you're importing income, expenditure, or both`}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -283,7 +427,7 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
                 name="transactionType"
                 value="expenditure"
                 checked={transactionType === 'expenditure'}
-                onChange={(e) => setTransactionType(e.target.value as 'income' | 'expenditure')}
+                onChange={(e) => setTransactionType(e.target.value as TransactionImportType)}
                 className="mt-1"
               />
               <div>
@@ -300,7 +444,7 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
                 name="transactionType"
                 value="income"
                 checked={transactionType === 'income'}
-                onChange={(e) => setTransactionType(e.target.value as 'income' | 'expenditure')}
+                onChange={(e) => setTransactionType(e.target.value as TransactionImportType)}
                 className="mt-1"
               />
               <div>
@@ -310,6 +454,23 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
                 <p className="text-sm text-muted-foreground">Import sales, revenue, and incoming payments</p>
               </div>
             </div>
+            <div className="flex items-start space-x-3">
+              <input
+                type="radio"
+                id="auto"
+                name="transactionType"
+                value="auto"
+                checked={transactionType === 'auto'}
+                onChange={(e) => setTransactionType(e.target.value as TransactionImportType)}
+                className="mt-1"
+              />
+              <div>
+                <label htmlFor="auto" className="font-medium cursor-pointer">
+                  Both (from amount sign)
+                </label>
+                <p className="text-sm text-muted-foreground">Money in becomes income and money out becomes expenditure, as on a bank statement</p>
+              </div>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -363,15 +524,76 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
               </Select>
             </div>
 
+            {signConvention === 'split' ? (
+              <>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">
+                    Money Out Column *
+                  </label>
+                  <Select value={columnMapping.debit || 'none'} onValueChange={(value) => setColumnMapping(prev => ({ ...prev, debit: value === 'none' ? '' : value }))}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select money out column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {columns.map((column) => (
+                        <SelectItem key={column} value={column}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium mb-2 block">
+                    Money In Column *
+                  </label>
+                  <Select value={columnMapping.credit || 'none'} onValueChange={(value) => setColumnMapping(prev => ({ ...prev, credit: value === 'none' ? '' : value }))}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select money in column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {columns.map((column) => (
+                        <SelectItem key={column} value={column}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            ) : (
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Amount Column *
+                </label>
+                <Select value={columnMapping.amount} onValueChange={(value) => setColumnMapping(prev => ({ ...prev, amount: value }))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select amount column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div>
               <label className="text-sm font-medium mb-2 block">
-                Amount Column *
+                Description Column
               </label>
-              <Select value={columnMapping.amount} onValueChange={(value) => setColumnMapping(prev => ({ ...prev, amount: value }))}>
+              <Select value={columnMapping.description || 'none'} onValueChange={(value) => setColumnMapping(prev => ({ ...prev, description: value === 'none' ? '' : value }))}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Select amount column" />
+                  <SelectValue placeholder="Select description column" />
                 </SelectTrigger>
                 <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
                   {columns.map((column) => (
                     <SelectItem key={column} value={column}>
                       {column}
@@ -383,11 +605,11 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
 
             <div>
               <label className="text-sm font-medium mb-2 block">
-                Description Column
+                Category Column
               </label>
-              <Select value={columnMapping.description || 'none'} onValueChange={(value) => setColumnMapping(prev => ({ ...prev, description: value === 'none' ? '' : value }))}>
+              <Select value={columnMapping.category || 'none'} onValueChange={(value) => setColumnMapping(prev => ({ ...prev, category: value === 'none' ? '' : value }))}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Select description column" />
+                  <SelectValue placeholder="Select category column" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="none">None</SelectItem>
@@ -402,23 +624,82 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
 
             <div>
               <label className="text-sm font-medium mb-2 block">
-                Category Column
+                Amount Sign
               </label>
-              <Select value={columnMapping.category || 'none'} onValueChange={(value) => setColumnMapping(prev => ({ ...prev, category: value === 'none' ? '' : value }))}>
+              <Select value={signConvention} onValueChange={(value) => setSignConvention(value as CSVSignConvention)}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Select category column" />
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="none">None</SelectItem>
-                  {columns.map((column) => (
-                    <SelectItem key={column} value={column}>
-                      {column}
+                  {Object.entries(CSV_SIGN_CONVENTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-2 block">
+                Date Format
+              </label>
+              <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as CSVDateFormat | 'auto')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto (DD/MM/YYYY if slashed)</SelectItem>
+                  {Object.entries(CSV_DATE_FORMAT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
+
+          {/* Save the mapping for the next export from the same bank */}
+          {profileId === CUSTOM_MAPPING && isValidMapping && (
+            <div className="flex flex-wrap items-end gap-2 pt-4 border-t">
+              <div className="flex-1 min-w-48">
+                <label className="text-sm font-medium mb-2 block">
+                  Save as Profile
+                </label>
+                <Input
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  placeholder="e.g. Metro Bank Business"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Encoding
+                </label>
+                <Select value={encoding} onValueChange={(value) => setEncoding(value as CSVEncoding)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CSV_ENCODING_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleSaveProfile}
+                disabled={!profileName.trim() || saveProfile.isPending}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Profile
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -487,7 +768,9 @@ export function TransactionImportPreview({ data, fileName, onImport, onCancel }:
                         <div className="flex items-center space-x-4">
                           <div className="text-sm font-medium">{transaction.date}</div>
                           <div className="text-sm">{transaction.supplier}</div>
-                          <div className="text-sm font-medium">£{transaction.amount.toFixed(2)}</div>
+                          <div className={`text-sm font-medium ${transaction.type === 'income' ? 'text-green-600' : transaction.type === 'expenditure' ? 'text-red-600' : ''}`}>
+                            £{transaction.amount.toFixed(2)}
+                          </div>
                         </div>
                         <div className="flex items-center space-x-2">
                           {transaction.category && (
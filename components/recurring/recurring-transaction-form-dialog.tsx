@@ -0,0 +1,279 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CategoryPicker } from '@/components/categories/category-picker';
+import { useBankAccounts } from '@/hooks/use-bank-accounts';
+import {
+  RECURRING_CADENCE_LABELS,
+  type RecurringCadence,
+  type RecurringTransaction,
+} from '@/lib/recurring-transactions';
+import type { RecurringTransactionFormData } from '@/hooks/use-recurring-transactions';
+
+interface RecurringTransactionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recurring?: RecurringTransaction | null;
+  onSubmit: (data: RecurringTransactionFormData) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+const NO_ACCOUNT = 'none';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export function RecurringTransactionFormDialog({
+  open,
+  onOpenChange,
+  recurring,
+  onSubmit,
+  isSubmitting = false,
+}: RecurringTransactionFormDialogProps) {
+  const { data: accounts = [] } = useBankAccounts();
+  const [description, setDescription] = useState('');
+  const [type, setType] = useState<'income' | 'expenditure'>('expenditure');
+  const [amount, setAmount] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [bankAccountId, setBankAccountId] = useState(NO_ACCOUNT);
+  const [cadence, setCadence] = useState<RecurringCadence>('monthly');
+  const [startDate, setStartDate] = useState(today());
+  const [endDate, setEndDate] = useState('');
+  const [matchText, setMatchText] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [error, setError] = useState('');
+
+  // Load the template being edited, or reset for a new one
+  useEffect(() => {
+    if (!open) return;
+    setDescription(recurring?.description ?? '');
+    setType(recurring?.type ?? 'expenditure');
+    setAmount(recurring ? Number(recurring.amount).toFixed(2) : '');
+    setCategoryId(recurring?.category_id ?? '');
+    setBankAccountId(recurring?.bank_account_id ?? NO_ACCOUNT);
+    setCadence(recurring?.cadence ?? 'monthly');
+    setStartDate(recurring?.start_date ?? today());
+    setEndDate(recurring?.end_date ?? '');
+    setMatchText(recurring?.match_text ?? '');
+    setIsActive(recurring?.is_active ?? true);
+    setError('');
+  }, [open, recurring]);
+
+  const handleTypeChange = (value: 'income' | 'expenditure') => {
+    setType(value);
+    // Categories are per type, so the old one no longer fits
+    setCategoryId('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedAmount = parseFloat(amount);
+    if (!description.trim()) {
+      setError('Description is required');
+      return;
+    }
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      setError('Amount must be more than zero');
+      return;
+    }
+    if (!startDate) {
+      setError('First due date is required');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      setError('End date must be after the first due date');
+      return;
+    }
+
+    await onSubmit({
+      description: description.trim(),
+      type,
+      amount: Math.round(parsedAmount * 100) / 100,
+      category_id: categoryId || null,
+      bank_account_id: bankAccountId === NO_ACCOUNT ? null : bankAccountId,
+      cadence,
+      start_date: startDate,
+      end_date: endDate || null,
+      match_text: matchText.trim() || null,
+      is_active: isActive,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            {recurring ? 'Edit Recurring Transaction' : 'Add Recurring Transaction'}
+          </DialogTitle>
+          <DialogDescription>
+            An expected payment is generated for each due date. Bank imports mark it as paid when a matching row
+            arrives within a few days of the due date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="recurring-description">Description</Label>
+            <Input
+              id="recurring-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Office rent"
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-type">Type</Label>
+              <Select value={type} onValueChange={(value) => handleTypeChange(value as 'income' | 'expenditure')}>
+                <SelectTrigger id="recurring-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="expenditure">Expenditure</SelectItem>
+                  <SelectItem value="income">Income</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-amount">Amount</Label>
+              <Input
+                id="recurring-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+                className="tabular-nums"
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <CategoryPicker
+              type={type}
+              value={categoryId || undefined}
+              onValueChange={setCategoryId}
+              placeholder="Select a category"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-cadence">Repeats</Label>
+              <Select value={cadence} onValueChange={(value) => setCadence(value as RecurringCadence)}>
+                <SelectTrigger id="recurring-cadence">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RECURRING_CADENCE_LABELS) as RecurringCadence[]).map(value => (
+                    <SelectItem key={value} value={value}>{RECURRING_CADENCE_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-start-date">First due</Label>
+              <Input
+                id="recurring-start-date"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-end-date">Ends</Label>
+              <Input
+                id="recurring-end-date"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-account">Bank account</Label>
+              <Select value={bankAccountId} onValueChange={setBankAccountId}>
+                <SelectTrigger id="recurring-account">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ACCOUNT}>Any account</SelectItem>
+                  {accounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-match-text">Bank description contains</Label>
+              <Input
+                id="recurring-match-text"
+                value={matchText}
+                onChange={(e) => setMatchText(e.target.value)}
+                placeholder="e.g. ADOBE"
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-muted-foreground">Left empty, the bank description must resemble the description above</p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label htmlFor="recurring-active">Active</Label>
+              <p className="text-xs text-muted-foreground">Inactive templates stop generating expected payments</p>
+            </div>
+            <Switch
+              id="recurring-active"
+              checked={isActive}
+              onCheckedChange={setIsActive}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {recurring && (
+            <p className="text-xs text-muted-foreground">
+              Saving regenerates the pending payments from the changed schedule. Paid and skipped payments are kept.
+            </p>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : recurring ? 'Save Changes' : 'Add Recurring'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
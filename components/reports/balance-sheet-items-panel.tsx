@@ -0,0 +1,245 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Edit3, Plus, Trash2, Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useBalanceSheetItemMutations, useBalanceSheetItems } from '@/hooks/use-balance-sheet';
+import { formatCurrency, formatDate } from '@/lib/formatting';
+import {
+  BALANCE_SHEET_CATEGORY_LABELS,
+  isAssetCategory,
+  itemBalanceAt,
+  type BalanceSheetItem,
+  type BalanceSheetItemCategory,
+} from '@/lib/balance-sheet';
+
+type DialogState = { mode: 'add' } | { mode: 'value'; item: BalanceSheetItem } | null;
+
+/**
+ * Assets and liabilities the ledger can't see, each with dated balances
+ */
+export function BalanceSheetItemsPanel({ asOf }: { asOf: string }) {
+  const { data: items = [], isLoading } = useBalanceSheetItems();
+  const { createItem, deleteItem, setItemValue } = useBalanceSheetItemMutations();
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [itemToDelete, setItemToDelete] = useState<BalanceSheetItem | null>(null);
+
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<BalanceSheetItemCategory>('equipment');
+  const [valueDate, setValueDate] = useState(asOf);
+  const [amount, setAmount] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!dialog) return;
+    setName('');
+    setCategory('equipment');
+    setValueDate(asOf);
+    setAmount(dialog.mode === 'value' ? itemBalanceAt(dialog.item, asOf).toFixed(2) : '');
+    setError('');
+  }, [dialog, asOf]);
+
+  const isSubmitting = createItem.isPending || setItemValue.isPending;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dialog) return;
+
+    const parsedAmount = parseFloat(amount);
+    if (dialog.mode === 'add' && !name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (isNaN(parsedAmount) || parsedAmount < 0) {
+      setError('Balance must be zero or more - choose a liability type for amounts owed');
+      return;
+    }
+    if (!valueDate) {
+      setError('Date is required');
+      return;
+    }
+
+    try {
+      if (dialog.mode === 'add') {
+        await createItem.mutateAsync({
+          name: name.trim(),
+          category,
+          notes: null,
+          initialValue: { as_of_date: valueDate, amount: parsedAmount },
+        });
+      } else {
+        await setItemValue.mutateAsync({ itemId: dialog.item.id, as_of_date: valueDate, amount: parsedAmount });
+      }
+      setDialog(null);
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to save balance sheet item:', error);
+    }
+  };
+
+  return (
+    <Card className="print:hidden">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Other Assets &amp; Liabilities
+          </CardTitle>
+          <CardDescription className="mt-1.5">
+            Balances the bank ledger doesn&apos;t hold. Record a new value whenever one changes; the balance sheet
+            uses the latest value on or before its date.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setDialog({ mode: 'add' })}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Item
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-12 bg-muted rounded animate-pulse" />
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No equipment, debtors, creditors, loans or tax owed recorded yet.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {items.map(item => {
+              const latest = [...(item.balance_sheet_item_values ?? [])]
+                .sort((a, b) => b.as_of_date.localeCompare(a.as_of_date))[0];
+              return (
+                <div key={item.id} className="flex items-center gap-4 py-3 text-sm">
+                  <div className="flex-1">
+                    <p className="font-medium">{item.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {latest ? `Last updated ${formatDate(latest.as_of_date)}` : 'No balance recorded'}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className={isAssetCategory(item.category) ? 'text-emerald-600' : 'text-rose-600'}>
+                    {BALANCE_SHEET_CATEGORY_LABELS[item.category]}
+                  </Badge>
+                  <span className="w-28 text-right tabular-nums">{formatCurrency(itemBalanceAt(item, asOf))}</span>
+                  <Button variant="ghost" size="sm" onClick={() => setDialog({ mode: 'value', item })} className="h-7 px-2">
+                    <Edit3 className="h-3 w-3 mr-1" />
+                    Update
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setItemToDelete(item)}
+                    className="h-7 px-2 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{dialog?.mode === 'value' ? `Update ${dialog.item.name}` : 'Add Asset or Liability'}</DialogTitle>
+            <DialogDescription>
+              The balance applies from this date until a later value is recorded.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {dialog?.mode === 'add' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="balance-item-name">Name</Label>
+                  <Input
+                    id="balance-item-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Laptop, Bank loan"
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="balance-item-category">Type</Label>
+                  <Select value={category} onValueChange={(value) => setCategory(value as BalanceSheetItemCategory)}>
+                    <SelectTrigger id="balance-item-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(BALANCE_SHEET_CATEGORY_LABELS) as BalanceSheetItemCategory[]).map(option => (
+                        <SelectItem key={option} value={option}>{BALANCE_SHEET_CATEGORY_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="balance-item-date">As at</Label>
+                <Input
+                  id="balance-item-date"
+                  type="date"
+                  value={valueDate}
+                  onChange={(e) => setValueDate(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="balance-item-amount">Balance (£)</Label>
+                <Input
+                  id="balance-item-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="tabular-nums"
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialog(null)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : dialog?.mode === 'value' ? 'Save Balance' : 'Add Item'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        isOpen={!!itemToDelete}
+        onClose={() => setItemToDelete(null)}
+        onConfirm={() => itemToDelete && deleteItem.mutate(itemToDelete.id)}
+        title="Delete Balance Sheet Item"
+        description={`Delete "${itemToDelete?.name}" and all of its recorded balances? It will disappear from every balance sheet date.`}
+        confirmText="Delete"
+        variant="destructive"
+        isLoading={deleteItem.isPending}
+      />
+    </Card>
+  );
+}
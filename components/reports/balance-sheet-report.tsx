@@ -0,0 +1,244 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { format, subYears } from 'date-fns';
+import { AlertCircle, Download, Printer, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BalanceSheetItemsPanel } from '@/components/reports/balance-sheet-items-panel';
+import { useBalanceSheet } from '@/hooks/use-balance-sheet';
+import { formatCurrency, formatDate } from '@/lib/formatting';
+import type { BalanceSheetData, BalanceSheetLine } from '@/lib/balance-sheet';
+import { toast } from 'sonner';
+
+interface BalanceSheetReportProps {
+  className?: string;
+}
+
+interface ComparedLine {
+  key: string;
+  label: string;
+  current: number;
+  previous: number | null;
+}
+
+/**
+ * Pair lines by key so an item only present at one date still gets a row
+ */
+function compareLines(current: BalanceSheetLine[], previous: BalanceSheetLine[] | null): ComparedLine[] {
+  const rows: ComparedLine[] = current.map(line => ({
+    key: line.key,
+    label: line.label,
+    current: line.amount,
+    previous: previous ? previous.find(p => p.key === line.key)?.amount ?? 0 : null,
+  }));
+
+  previous?.forEach(line => {
+    if (!rows.some(row => row.key === line.key)) {
+      rows.push({ key: line.key, label: line.label, current: 0, previous: line.amount });
+    }
+  });
+
+  return rows;
+}
+
+function AmountCell({ value, bold = false }: { value: number | null; bold?: boolean }) {
+  if (value === null) return null;
+  return (
+    <td className={`py-2 text-right tabular-nums w-36 ${bold ? 'font-semibold' : ''} ${value < 0 ? 'text-rose-600 dark:text-rose-400' : ''}`}>
+      {formatCurrency(value)}
+    </td>
+  );
+}
+
+export function BalanceSheetReport({ className }: BalanceSheetReportProps) {
+  const [asOf, setAsOf] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [compareTo, setCompareTo] = useState(() => format(subYears(new Date(), 1), 'yyyy-MM-dd'));
+
+  const { data, isLoading, error, refetch } = useBalanceSheet(asOf, compareTo || null);
+  const current = data?.current;
+  const previous = data?.previous ?? null;
+  const hasComparison = !!previous;
+
+  const totalRow = (label: string, pick: (sheet: BalanceSheetData) => number, emphasis = false) => (
+    <tr className={emphasis ? 'border-t-2 border-foreground/20' : 'border-t'}>
+      <td className={`py-2 ${emphasis ? 'font-bold' : 'font-semibold'}`}>{label}</td>
+      <AmountCell value={current ? pick(current) : 0} bold />
+      {hasComparison && <AmountCell value={pick(previous!)} bold />}
+    </tr>
+  );
+
+  const handleExport = () => {
+    if (!current) {
+      toast.error('No data to export');
+      return;
+    }
+
+    const rows: string[] = [];
+    rows.push(`Balance Sheet as at ${formatDate(asOf)}`);
+    rows.push(hasComparison ? `Line,${asOf},${compareTo}` : `Line,${asOf}`);
+    const push = (label: string, currentValue: number, previousValue: number | null) => {
+      rows.push(`"${label}",${currentValue.toFixed(2)}${hasComparison ? `,${(previousValue ?? 0).toFixed(2)}` : ''}`);
+    };
+
+    current.sections.forEach((section, index) => {
+      rows.push(section.label.toUpperCase());
+      compareLines(section.lines, previous?.sections[index].lines ?? null).forEach(line =>
+        push(line.label, line.current, line.previous)
+      );
+      push(`Total ${section.label}`, section.total, previous?.sections[index].total ?? null);
+    });
+    push('Net Assets', current.totals.netAssets, previous?.totals.netAssets ?? null);
+    rows.push('EQUITY');
+    compareLines(current.equity, previous?.equity ?? null).forEach(line => push(line.label, line.current, line.previous));
+    push('Total Equity', current.totals.equity, previous?.totals.equity ?? null);
+
+    const csv = rows.join('\n');
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `balance-sheet-${asOf}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success('Balance sheet exported');
+  };
+
+  const handleRefresh = () => {
+    refetch();
+    toast.success('Report refreshed');
+  };
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      {/* Controls */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-end gap-4 print:hidden">
+        <div className="space-y-1">
+          <Label htmlFor="balance-sheet-as-of" className="text-xs">As at</Label>
+          <Input
+            id="balance-sheet-as-of"
+            type="date"
+            value={asOf}
+            onChange={(e) => e.target.value && setAsOf(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="balance-sheet-compare" className="text-xs">Compare with (optional)</Label>
+          <Input
+            id="balance-sheet-compare"
+            type="date"
+            value={compareTo}
+            onChange={(e) => setCompareTo(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2 sm:ml-auto">
+          <Button variant="outline" size="sm" onClick={handleRefresh}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={!current}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Balance Sheet as at {formatDate(asOf)}</CardTitle>
+          <CardDescription>
+            Cash at bank from the ledger, fixed assets at net book value from the asset register, other assets
+            and liabilities from the balances maintained below, and equity built up since the bank opening balance date.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 8 }).map((_, i) => (
+                <div key={i} className="h-8 bg-muted rounded animate-pulse" />
+              ))}
+            </div>
+          ) : error || !current ? (
+            <div className="text-center py-12">
+              <p className="text-destructive font-medium mb-2">Failed to load balance sheet</p>
+              <Button variant="outline" onClick={handleRefresh}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Retry
+              </Button>
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="py-2 text-left font-medium"></th>
+                  <th className="py-2 text-right font-medium">{formatDate(asOf)}</th>
+                  {hasComparison && <th className="py-2 text-right font-medium">{formatDate(compareTo)}</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {current.sections.map((section, index) => {
+                  const previousSection = previous?.sections[index] ?? null;
+                  const lines = compareLines(section.lines, previousSection?.lines ?? null);
+                  if (lines.length === 0) return null;
+                  return (
+                    <Fragment key={section.key}>
+                      <tr>
+                        <td colSpan={3} className="pt-4 pb-1 font-semibold text-foreground">{section.label}</td>
+                      </tr>
+                      {lines.map(line => (
+                        <tr key={line.key}>
+                          <td className="py-2 pl-4">{line.label}</td>
+                          <AmountCell value={line.current} />
+                          {hasComparison && <AmountCell value={line.previous} />}
+                        </tr>
+                      ))}
+                      <tr className="border-t">
+                        <td className="py-2 pl-4 text-muted-foreground">Total {section.label}</td>
+                        <AmountCell value={section.total} bold />
+                        {hasComparison && <AmountCell value={previousSection?.total ?? 0} bold />}
+                      </tr>
+                    </Fragment>
+                  );
+                })}
+                {totalRow('Total Assets', sheet => sheet.totals.assets)}
+                {totalRow('Total Liabilities', sheet => sheet.totals.liabilities)}
+                {totalRow('Net Assets', sheet => sheet.totals.netAssets, true)}
+
+                <tr>
+                  <td colSpan={3} className="pt-6 pb-1 font-semibold text-foreground">Owner&apos;s Equity</td>
+                </tr>
+                {compareLines(current.equity, previous?.equity ?? null).map(line => (
+                  <tr key={line.key}>
+                    <td className="py-2 pl-4">{line.label}</td>
+                    <AmountCell value={line.current} />
+                    {hasComparison && <AmountCell value={line.previous} />}
+                  </tr>
+                ))}
+                {totalRow('Total Equity', sheet => sheet.totals.equity, true)}
+              </tbody>
+            </table>
+          )}
+
+          {current && current.totals.difference !== 0 && (
+            <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900/50">
+              <AlertCircle className="h-4 w-4 text-amber-600 dark:text-amber-400 mt-0.5 shrink-0" />
+              <p className="text-sm text-amber-800 dark:text-amber-300">
+                Net assets and equity differ by {formatCurrency(current.totals.difference)}. This usually means
+                transactions in categories that aren&apos;t assigned to a P&amp;L hierarchy, or transfers with only
+                one leg imported.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <BalanceSheetItemsPanel asOf={asOf} />
+    </div>
+  );
+}
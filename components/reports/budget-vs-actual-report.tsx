@@ -0,0 +1,377 @@
+'use client';
+
+import { Fragment, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Copy, Download, Pencil, Printer, Target } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BudgetFormDialog } from '@/components/budgets/budget-form-dialog';
+import { CopyBudgetsDialog } from '@/components/budgets/copy-budgets-dialog';
+import { useBudgetMutations, useBudgetVsActual, type CopyBudgetsData } from '@/hooks/use-budgets';
+import { formatCurrency, formatPercentage } from '@/lib/formatting';
+import {
+  isBudgetableSection,
+  type BudgetPeriod,
+  type BudgetVarianceRow,
+  type BudgetVarianceSection,
+} from '@/lib/budgets';
+import { toast } from 'sonner';
+
+interface BudgetVsActualReportProps {
+  className?: string;
+}
+
+interface EditingBudget {
+  row: BudgetVarianceRow;
+  isHierarchy: boolean;
+}
+
+const YEARS_SHOWN = 6;
+
+function VarianceCell({ row }: { row: BudgetVarianceRow }) {
+  if (row.annualBudget === null) {
+    return <td className="py-2 text-right tabular-nums text-muted-foreground">---</td>;
+  }
+  return (
+    <td className={`py-2 text-right tabular-nums ${row.variance < 0 ? 'text-rose-600 dark:text-rose-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+      {formatCurrency(row.variance)}
+    </td>
+  );
+}
+
+function VariancePercentCell({ row }: { row: BudgetVarianceRow }) {
+  if (row.variancePercent === null) {
+    return <td className="py-2 text-right tabular-nums text-muted-foreground">---</td>;
+  }
+  return (
+    <td className={`py-2 text-right tabular-nums ${row.variancePercent < 0 ? 'text-rose-600 dark:text-rose-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+      {formatPercentage(row.variancePercent)}
+    </td>
+  );
+}
+
+export function BudgetVsActualReport({ className }: BudgetVsActualReportProps) {
+  const currentYear = useMemo(() => new Date().getFullYear(), []);
+  const [year, setYear] = useState(currentYear);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<EditingBudget | null>(null);
+  const [isCopyOpen, setIsCopyOpen] = useState(false);
+
+  const { data, isLoading, error } = useBudgetVsActual(year);
+  const { saveBudget, deleteBudget, copyFromActuals } = useBudgetMutations();
+
+  const toggle = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleSave = async ({ period, amount }: { period: BudgetPeriod; amount: number }) => {
+    if (!editing) return;
+    try {
+      await saveBudget.mutateAsync({
+        year,
+        target: editing.isHierarchy ? { hierarchyId: editing.row.id } : { categoryId: editing.row.id },
+        period,
+        amount,
+      });
+      setEditing(null);
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to save budget:', error);
+    }
+  };
+
+  const handleRemove = async (budgetId: string) => {
+    try {
+      await deleteBudget.mutateAsync(budgetId);
+      setEditing(null);
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to remove budget:', error);
+    }
+  };
+
+  const handleCopy = async (copy: Omit<CopyBudgetsData, 'year'>) => {
+    try {
+      await copyFromActuals.mutateAsync({ ...copy, year });
+      setIsCopyOpen(false);
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to copy budgets:', error);
+    }
+  };
+
+  const handleExport = () => {
+    if (!data) {
+      toast.error('No data to export');
+      return;
+    }
+
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const line = (label: string, row: BudgetVarianceRow) => [
+      quote(label),
+      row.annualBudget?.toFixed(2) ?? '',
+      row.budget.toFixed(2),
+      row.actual.toFixed(2),
+      row.annualBudget !== null ? row.variance.toFixed(2) : '',
+      row.variancePercent?.toFixed(1) ?? '',
+      row.forecast.toFixed(2),
+    ].join(',');
+
+    const lines: string[] = [];
+    lines.push(`Budget vs Actual - ${year} (${data.monthsElapsed} of 12 months)`);
+    lines.push('');
+    lines.push('Line,Annual Budget,Budget to Date,Actual,Variance,Variance %,Forecast');
+    const addSections = (title: string, sections: BudgetVarianceSection[], total: BudgetVarianceRow) => {
+      lines.push(title);
+      sections.forEach(section => {
+        lines.push(line(section.name, section));
+        section.categories.forEach(category => lines.push(line(`  ${category.name}`, category)));
+      });
+      lines.push(line(total.name, total));
+      lines.push('');
+    };
+    addSections('INCOME', data.income, data.totals.income);
+    addSections('EXPENDITURE', data.expenditure, data.totals.expenditure);
+    lines.push(line(data.totals.netProfit.name, data.totals.netProfit));
+
+    const csv = lines.join('\n');
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `budget-vs-actual-${year}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success('Budget vs Actual exported');
+  };
+
+  const budgetCell = (row: BudgetVarianceRow, isHierarchy: boolean) => (
+    <td className="py-2 text-right tabular-nums">
+      <div className="flex items-center justify-end gap-1">
+        <span className={row.annualBudget === null ? 'text-muted-foreground' : row.hasOwnBudget ? '' : 'italic'}>
+          {row.annualBudget === null ? '---' : formatCurrency(row.annualBudget)}
+        </span>
+        {isBudgetableSection(row) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setEditing({ row, isHierarchy })}
+            className="h-6 px-1 print:hidden"
+            aria-label={`Set budget for ${row.name}`}
+          >
+            <Pencil className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    </td>
+  );
+
+  const figures = (row: BudgetVarianceRow) => (
+    <>
+      <td className="py-2 text-right tabular-nums">{row.annualBudget === null ? '---' : formatCurrency(row.budget)}</td>
+      <td className="py-2 text-right tabular-nums">{formatCurrency(row.actual)}</td>
+      <VarianceCell row={row} />
+      <VariancePercentCell row={row} />
+      <td className="py-2 text-right tabular-nums">{formatCurrency(row.forecast)}</td>
+    </>
+  );
+
+  const sectionTable = (title: string, sections: BudgetVarianceSection[], total: BudgetVarianceRow) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {sections.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-12">
+            No {title.toLowerCase()} hierarchies set up yet.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground border-b">
+                <th className="py-2 text-left font-medium">Line</th>
+                <th className="py-2 text-right font-medium">Annual budget</th>
+                <th className="py-2 text-right font-medium">Budget to date</th>
+                <th className="py-2 text-right font-medium">Actual</th>
+                <th className="py-2 text-right font-medium">Variance</th>
+                <th className="py-2 text-right font-medium">Variance %</th>
+                <th className="py-2 text-right font-medium">Forecast</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sections.map(section => {
+                const isExpanded = expandedIds.has(section.id);
+                return (
+                  <Fragment key={section.id}>
+                    <tr className="border-b">
+                      <td className="py-2">
+                        <button
+                          type="button"
+                          onClick={() => toggle(section.id)}
+                          className="flex items-center gap-1 font-medium text-left hover:underline"
+                        >
+                          {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                          {section.name}
+                          {section.isOverBudget && (
+                            <Badge variant="destructive" className="ml-2 text-xs">Over budget</Badge>
+                          )}
+                        </button>
+                      </td>
+                      {budgetCell(section, true)}
+                      {figures(section)}
+                    </tr>
+                    {isExpanded && section.categories.map(category => (
+                      <tr key={category.id} className="border-b bg-muted/30">
+                        <td className="py-2 pl-6">
+                          {category.name}
+                          {category.isOverBudget && (
+                            <Badge variant="destructive" className="ml-2 text-xs">Over budget</Badge>
+                          )}
+                        </td>
+                        {budgetCell(category, false)}
+                        {figures(category)}
+                      </tr>
+                    ))}
+                  </Fragment>
+                );
+              })}
+              <tr className="border-t-2 border-foreground/20 font-semibold">
+                <td className="py-2">{total.name}</td>
+                <td className="py-2 text-right tabular-nums">
+                  {total.annualBudget === null ? '---' : formatCurrency(total.annualBudget)}
+                </td>
+                {figures(total)}
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      {/* Controls */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-end gap-4 print:hidden">
+        <div className="space-y-1">
+          <Label htmlFor="budget-year" className="text-xs">Year</Label>
+          <Select value={String(year)} onValueChange={(value) => setYear(parseInt(value, 10))}>
+            <SelectTrigger id="budget-year" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: YEARS_SHOWN }, (_, i) => currentYear + 1 - i).map(value => (
+                <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2 sm:ml-auto">
+          <Button size="sm" onClick={() => setIsCopyOpen(true)}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy from {year - 1}
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={!data}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <div className="h-28 bg-muted rounded-lg animate-pulse" />
+          <div className="h-64 bg-muted rounded-lg animate-pulse" />
+        </div>
+      ) : error || !data ? (
+        <p className="text-destructive font-medium text-center py-12">Failed to load Budget vs Actual</p>
+      ) : (
+        <>
+          {/* Net profit against budget */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Target className="h-5 w-5" />
+                Net Profit {year}
+              </CardTitle>
+              <CardDescription>
+                {data.monthsElapsed === 0
+                  ? `${year} hasn't started, so there are no actuals yet.`
+                  : `Actuals for ${data.monthsElapsed} of 12 months against the same share of each budget. The forecast
+                    carries the run rate so far to the end of the year. Variances are positive when income is above
+                    budget or spending is below it.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Budget to date</p>
+                  <p className="text-2xl font-bold tabular-nums">
+                    {data.totals.netProfit.annualBudget === null ? '---' : formatCurrency(data.totals.netProfit.budget)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Actual</p>
+                  <p className="text-2xl font-bold tabular-nums">{formatCurrency(data.totals.netProfit.actual)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Variance</p>
+                  <p className={`text-2xl font-bold tabular-nums ${data.totals.netProfit.variance < 0 ? 'text-rose-600 dark:text-rose-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+                    {data.totals.netProfit.annualBudget === null ? '---' : formatCurrency(data.totals.netProfit.variance)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Full-year forecast</p>
+                  <p className="text-2xl font-bold tabular-nums">{formatCurrency(data.totals.netProfit.forecast)}</p>
+                  {data.totals.netProfit.annualBudget !== null && (
+                    <p className="text-xs text-muted-foreground">
+                      Budget {formatCurrency(data.totals.netProfit.annualBudget)}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {sectionTable('Income', data.income, data.totals.income)}
+          {sectionTable('Expenditure', data.expenditure, data.totals.expenditure)}
+
+          <p className="text-xs text-muted-foreground">
+            Hierarchy budgets shown in italics are the total of their categories&apos; budgets. Setting a budget on
+            the hierarchy itself takes their place.
+          </p>
+        </>
+      )}
+
+      <BudgetFormDialog
+        row={editing?.row ?? null}
+        isHierarchy={editing?.isHierarchy ?? false}
+        year={year}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSubmit={handleSave}
+        onRemove={handleRemove}
+        isSubmitting={saveBudget.isPending || deleteBudget.isPending}
+      />
+
+      <CopyBudgetsDialog
+        open={isCopyOpen}
+        year={year}
+        onOpenChange={setIsCopyOpen}
+        onSubmit={handleCopy}
+        isSubmitting={copyFromActuals.isPending}
+      />
+    </div>
+  );
+}
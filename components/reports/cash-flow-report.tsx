@@ -8,8 +8,9 @@ import {
   Wallet,
   RefreshCw,
   Download,
-  PoundSterling,
+  Landmark,
 } from 'lucide-react';
+import Link from 'next/link';
 import {
   Area,
   Line,
@@ -23,14 +24,15 @@ import {
 } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import {
   reportDataEngine,
   FlexibleReportConfig,
   CashFlowData,
 } from '@/lib/reports-data-engine';
 import { DateRangePicker } from '@/components/reports/date-range-picker';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBankAccounts } from '@/hooks/use-bank-accounts';
+import type { AccountSubtotal } from '@/lib/bank-accounts';
 import { getPresetDateRange } from '@/lib/date-range-utils';
 import type { CustomDateRange } from '@/lib/types';
 import { toast } from 'sonner';
@@ -153,26 +155,10 @@ export function CashFlowReport({ className }: CashFlowReportProps) {
   const [data, setData] = useState<CashFlowData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [openingBalance, setOpeningBalance] = useState<number>(() => {
-    if (typeof window !== 'undefined') {
-      const stored = localStorage.getItem('herbarium-opening-balance');
-      if (stored !== null) {
-        const parsed = parseFloat(stored);
-        if (!isNaN(parsed)) return parsed;
-      }
-    }
-    return 0;
-  });
-  const [openingBalanceInput, setOpeningBalanceInput] = useState<string>(() => {
-    if (typeof window !== 'undefined') {
-      const stored = localStorage.getItem('herbarium-opening-balance');
-      if (stored !== null) {
-        const parsed = parseFloat(stored);
-        if (!isNaN(parsed)) return parsed.toFixed(2);
-      }
-    }
-    return '0';
-  });
+  const [openingBalance, setOpeningBalance] = useState<number>(0);
+  const [accountFilter, setAccountFilter] = useState<string>('all');
+  const [accountSubtotals, setAccountSubtotals] = useState<AccountSubtotal[]>([]);
+  const { data: bankAccounts = [] } = useBankAccounts();
 
   const fetchData = useCallback(async () => {
     setIsLoading(true);
@@ -189,10 +175,18 @@ export function CashFlowReport({ className }: CashFlowReportProps) {
         groupBy: 'category',
         includeTypes: ['income', 'expenditure', 'capital'],
         visualizations: ['table', 'line_chart'],
+        filters: accountFilter === 'all' ? undefined : { bankAccountId: accountFilter },
       };
 
-      const cashFlowData = await reportDataEngine.getCashFlowData(config, openingBalance);
+      // Bank account opening balances rolled forward to the start of the range
+      const broughtForward = await reportDataEngine.getOpeningBalance(dateRange.start, config.filters?.bankAccountId);
+      const [cashFlowData, subtotals] = await Promise.all([
+        reportDataEngine.getCashFlowData(config, broughtForward),
+        reportDataEngine.getCashFlowByAccount(config),
+      ]);
+      setOpeningBalance(broughtForward);
       setData(cashFlowData);
+      setAccountSubtotals(subtotals);
     } catch (err) {
       console.error('Error fetching cash flow data:', err);
       setError('Failed to load cash flow data. Please try again.');
@@ -200,7 +194,7 @@ export function CashFlowReport({ className }: CashFlowReportProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [dateRange, openingBalance]);
+  }, [dateRange, accountFilter]);
 
   useEffect(() => {
     fetchData();
@@ -210,30 +204,6 @@ export function CashFlowReport({ className }: CashFlowReportProps) {
     setDateRange(range);
   };
 
-  const handleOpeningBalanceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setOpeningBalanceInput(value);
-  };
-
-  const handleOpeningBalanceBlur = () => {
-    const parsed = parseFloat(openingBalanceInput);
-    if (!isNaN(parsed)) {
-      setOpeningBalance(parsed);
-      setOpeningBalanceInput(parsed.toFixed(2));
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('herbarium-opening-balance', parsed.toString());
-      }
-    } else {
-      setOpeningBalanceInput(openingBalance.toFixed(2));
-    }
-  };
-
-  const handleOpeningBalanceKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      (e.target as HTMLInputElement).blur();
-    }
-  };
-
   const handleRefresh = () => {
     fetchData();
     toast.success('Report refreshed');
@@ -246,15 +216,18 @@ export function CashFlowReport({ className }: CashFlowReportProps) {
   const totalCapitalOut = data.reduce((sum, d) => sum + d.capital_out, 0);
   const totalInflows = totalIncome + totalCapitalIn;
   const totalOutflows = totalExpenditure + totalCapitalOut;
-  const netCashFlow = totalInflows - totalOutflows;
+  // Transfers only move the balance when a single account is selected
+  const totalTransfers = data.reduce((sum, d) => sum + d.transfers, 0);
+  const showTransfers = accountFilter !== 'all';
+  const netCashFlow = totalInflows - totalOutflows + totalTransfers;
   const endBalance = data.length > 0 ? data[data.length - 1].running_balance : openingBalance;
 
   // Simplified chart data: combine income+capital_in as inflows, expenditure+capital_out as outflows
   const chartData = useMemo(() => {
     return data.map((d) => ({
       date: d.date,
-      total_inflows: d.income + d.capital_in,
-      total_outflows: d.expenditure + d.capital_out,
+      total_inflows: d.income + d.capital_in + Math.max(d.transfers, 0),
+      total_outflows: d.expenditure + d.capital_out + Math.max(-d.transfers, 0),
       running_balance: d.running_balance,
     }));
   }, [data]);
@@ -266,13 +239,14 @@ export function CashFlowReport({ className }: CashFlowReportProps) {
       return;
     }
 
-    const headers = ['Date', 'Income', 'Capital In', 'Expenditure', 'Capital Out', 'Net Flow', 'Running Balance'];
+    const headers = ['Date', 'Income', 'Capital In', 'Expenditure', 'Capital Out', 'Transfers', 'Net Flow', 'Running Balance'];
     const rows = data.map((d) => [
       formatDateFull(d.date),
       d.income.toFixed(2),
       d.capital_in.toFixed(2),
       d.expenditure.toFixed(2),
       d.capital_out.toFixed(2),
+      d.transfers.toFixed(2),
       d.net_flow.toFixed(2),
       d.running_balance.toFixed(2),
     ]);
@@ -317,25 +291,27 @@ export function CashFlowReport({ className }: CashFlowReportProps) {
         <div className="w-full sm:w-80">
           <DateRangePicker value={dateRange} onChange={handleDateRangeChange} />
         </div>
-        <div className="flex items-end gap-2">
-          <div className="space-y-1.5">
-            <Label htmlFor="opening-balance" className="text-sm font-medium text-muted-foreground">
-              Opening Balance
-            </Label>
-            <div className="relative">
-              <PoundSterling className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                id="opening-balance"
-                type="number"
-                step="0.01"
-                value={openingBalanceInput}
-                onChange={handleOpeningBalanceChange}
-                onBlur={handleOpeningBalanceBlur}
-                onKeyDown={handleOpeningBalanceKeyDown}
-                className="pl-9 w-40 tabular-nums"
-                placeholder="0.00"
-              />
-            </div>
+        {bankAccounts.length > 0 && (
+          <Select value={accountFilter} onValueChange={setAccountFilter}>
+            <SelectTrigger className="w-full sm:w-56">
+              <SelectValue placeholder="All accounts" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Accounts</SelectItem>
+              {bankAccounts.map(account => (
+                <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="space-y-1">
+          <p className="text-sm font-medium text-muted-foreground">Opening Balance</p>
+          <div className="flex items-center gap-2">
+            <span className="font-semibold tabular-nums">{formatCurrency(openingBalance)}</span>
+            <Link href="/bank-accounts" className="inline-flex items-center text-xs text-primary hover:underline">
+              <Landmark className="w-3 h-3 mr-1" />
+              Bank accounts
+            </Link>
           </div>
         </div>
         <div className="flex gap-2 sm:ml-auto">
@@ -563,6 +539,47 @@ export function CashFlowReport({ className }: CashFlowReportProps) {
         </CardContent>
       </Card>
 
+      {/* Per-Account Subtotals */}
+      {bankAccounts.length > 0 && accountSubtotals.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>By Account</CardTitle>
+            <CardDescription>Inflows and outflows per bank account for the selected period</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Account</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Transactions</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Inflows</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Outflows</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Net Flow</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {accountSubtotals.map((subtotal) => (
+                    <tr
+                      key={subtotal.bankAccountId ?? 'unassigned'}
+                      className={`border-b border-border last:border-0 ${subtotal.bankAccountId === accountFilter ? 'bg-muted/50' : ''}`}
+                    >
+                      <td className="py-3 px-4 font-medium">{subtotal.name}</td>
+                      <td className="py-3 px-4 text-right tabular-nums">{subtotal.transactionCount}</td>
+                      <td className="py-3 px-4 text-right tabular-nums text-green-600">{formatCurrency(subtotal.inflows)}</td>
+                      <td className="py-3 px-4 text-right tabular-nums text-red-600">{formatCurrency(subtotal.outflows)}</td>
+                      <td className={`py-3 px-4 text-right tabular-nums font-medium ${subtotal.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(subtotal.net)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Daily Breakdown Table */}
       <Card>
         <CardHeader>
@@ -601,6 +618,11 @@ export function CashFlowReport({ className }: CashFlowReportProps) {
                     <th className="text-right py-3 px-4 font-medium text-muted-foreground">
                       Capital Out
                     </th>
+                    {showTransfers && (
+                      <th className="text-right py-3 px-4 font-medium text-muted-foreground">
+                        Transfers
+                      </th>
+                    )}
                     <th className="text-right py-3 px-4 font-medium text-muted-foreground">
                       Net Flow
                     </th>
@@ -634,6 +656,11 @@ export function CashFlowReport({ className }: CashFlowReportProps) {
                       <td className="py-3 px-4 text-right tabular-nums text-violet-600 dark:text-violet-400">
                         {row.capital_out > 0 ? formatCurrency(row.capital_out) : '-'}
                       </td>
+                      {showTransfers && (
+                        <td className="py-3 px-4 text-right tabular-nums text-sky-600 dark:text-sky-400">
+                          {row.transfers !== 0 ? formatCurrency(row.transfers) : '-'}
+                        </td>
+                      )}
                       <td
                         className={`py-3 px-4 text-right tabular-nums font-medium ${
                           row.net_flow >= 0
@@ -672,6 +699,11 @@ export function CashFlowReport({ className }: CashFlowReportProps) {
                     <td className="py-3 px-4 text-right tabular-nums font-bold text-violet-600 dark:text-violet-400">
                       {formatCurrency(totalCapitalOut)}
                     </td>
+                    {showTransfers && (
+                      <td className="py-3 px-4 text-right tabular-nums font-bold text-sky-600 dark:text-sky-400">
+                        {formatCurrency(totalTransfers)}
+                      </td>
+                    )}
                     <td
                       className={`py-3 px-4 text-right tabular-nums font-bold ${
                         netCashFlow >= 0
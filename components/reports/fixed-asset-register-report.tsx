@@ -0,0 +1,326 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronRight, Download, PackageX, Plus, Printer, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FixedAssetDisposalDialog } from '@/components/fixed-assets/fixed-asset-disposal-dialog';
+import { FixedAssetFormDialog } from '@/components/fixed-assets/fixed-asset-form-dialog';
+import {
+  useFixedAssetMutations,
+  useFixedAssets,
+  type FixedAssetDisposalData,
+  type FixedAssetFormData,
+} from '@/hooks/use-fixed-assets';
+import { formatCurrency, formatDate } from '@/lib/formatting';
+import {
+  DEPRECIATION_METHOD_LABELS,
+  accumulatedDepreciationAt,
+  buildDepreciationSchedule,
+  disposalGain,
+  netBookValueAt,
+  type FixedAsset,
+} from '@/lib/fixed-assets';
+import { toast } from 'sonner';
+
+interface FixedAssetRegisterReportProps {
+  className?: string;
+}
+
+interface AnnualScheduleRow {
+  year: string;
+  charge: number;
+  closingValue: number;
+}
+
+/**
+ * Depreciation per calendar year with the book value carried forward
+ */
+function annualSchedule(asset: FixedAsset): AnnualScheduleRow[] {
+  const rows: AnnualScheduleRow[] = [];
+  let bookValue = Number(asset.cost);
+
+  buildDepreciationSchedule(asset)
+    .filter(entry => entry.entry_type === 'depreciation')
+    .forEach(entry => {
+      const year = entry.entry_date.slice(0, 4);
+      let row = rows[rows.length - 1];
+      if (!row || row.year !== year) {
+        row = { year, charge: 0, closingValue: bookValue };
+        rows.push(row);
+      }
+      row.charge = Math.round((row.charge + entry.amount) * 100) / 100;
+      bookValue = Math.round((bookValue - entry.amount) * 100) / 100;
+      row.closingValue = bookValue;
+    });
+
+  return rows;
+}
+
+export function FixedAssetRegisterReport({ className }: FixedAssetRegisterReportProps) {
+  const [asOf, setAsOf] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [assetToDispose, setAssetToDispose] = useState<FixedAsset | null>(null);
+  const [assetToDelete, setAssetToDelete] = useState<FixedAsset | null>(null);
+
+  const { data: assets = [], isLoading, error } = useFixedAssets();
+  const { createAsset, disposeAsset, deleteAsset } = useFixedAssetMutations();
+
+  const held = assets.filter(asset => asset.acquisition_date <= asOf);
+  const rows = held.map(asset => ({
+    asset,
+    depreciation: asset.disposal_date && asset.disposal_date <= asOf ? null : accumulatedDepreciationAt(asset, asOf),
+    netBookValue: netBookValueAt(asset, asOf),
+    gain: asset.disposal_date && asset.disposal_date <= asOf ? disposalGain(asset) : null,
+  }));
+  const totals = rows.reduce(
+    (sum, row) => ({
+      cost: sum.cost + (row.depreciation === null ? 0 : Number(row.asset.cost)),
+      depreciation: sum.depreciation + (row.depreciation ?? 0),
+      netBookValue: sum.netBookValue + row.netBookValue,
+    }),
+    { cost: 0, depreciation: 0, netBookValue: 0 }
+  );
+
+  const handleCreate = async (data: FixedAssetFormData) => {
+    try {
+      await createAsset.mutateAsync(data);
+      setIsAddOpen(false);
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to create fixed asset:', error);
+    }
+  };
+
+  const handleDispose = async (data: FixedAssetDisposalData) => {
+    try {
+      await disposeAsset.mutateAsync(data);
+      setAssetToDispose(null);
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to dispose of fixed asset:', error);
+    }
+  };
+
+  const handleExport = () => {
+    if (rows.length === 0) {
+      toast.error('No data to export');
+      return;
+    }
+
+    const lines: string[] = [];
+    lines.push(`Fixed Asset Register as at ${formatDate(asOf)}`);
+    lines.push('Asset,Acquired,Method,Useful life (months),Cost,Accumulated depreciation,Net book value,Disposed,Proceeds,Profit/(loss) on disposal');
+    rows.forEach(({ asset, depreciation, netBookValue, gain }) => {
+      lines.push([
+        `"${asset.name.replace(/"/g, '""')}"`,
+        asset.acquisition_date,
+        DEPRECIATION_METHOD_LABELS[asset.method],
+        asset.useful_life_months,
+        Number(asset.cost).toFixed(2),
+        (depreciation ?? 0).toFixed(2),
+        netBookValue.toFixed(2),
+        gain !== null ? asset.disposal_date : '',
+        gain !== null ? Number(asset.disposal_proceeds ?? 0).toFixed(2) : '',
+        gain !== null ? gain.toFixed(2) : '',
+      ].join(','));
+    });
+    lines.push(`Total,,,,${totals.cost.toFixed(2)},${totals.depreciation.toFixed(2)},${totals.netBookValue.toFixed(2)},,,`);
+
+    const csv = lines.join('\n');
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `fixed-asset-register-${asOf}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success('Asset register exported');
+  };
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      {/* Controls */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-end gap-4 print:hidden">
+        <div className="space-y-1">
+          <Label htmlFor="asset-register-as-of" className="text-xs">As at</Label>
+          <Input
+            id="asset-register-as-of"
+            type="date"
+            value={asOf}
+            onChange={(e) => e.target.value && setAsOf(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2 sm:ml-auto">
+          <Button size="sm" onClick={() => setIsAddOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Asset
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={rows.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Fixed Asset Register as at {formatDate(asOf)}</CardTitle>
+          <CardDescription>
+            Cost, depreciation to date and net book value of each asset. Capitalise a purchase from its transaction
+            details, or add one here. Expand an asset to see its depreciation by year.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 4 }).map((_, i) => (
+                <div key={i} className="h-8 bg-muted rounded animate-pulse" />
+              ))}
+            </div>
+          ) : error ? (
+            <p className="text-destructive font-medium text-center py-12">Failed to load the asset register</p>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">
+              No fixed assets acquired on or before this date.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground border-b">
+                  <th className="py-2 text-left font-medium">Asset</th>
+                  <th className="py-2 text-left font-medium">Acquired</th>
+                  <th className="py-2 text-left font-medium">Method</th>
+                  <th className="py-2 text-right font-medium">Cost</th>
+                  <th className="py-2 text-right font-medium">Depreciation</th>
+                  <th className="py-2 text-right font-medium">Net book value</th>
+                  <th className="py-2 text-right font-medium print:hidden"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ asset, depreciation, netBookValue, gain }) => {
+                  const isExpanded = expandedId === asset.id;
+                  return (
+                    <Fragment key={asset.id}>
+                      <tr className="border-b">
+                        <td className="py-2">
+                          <button
+                            type="button"
+                            onClick={() => setExpandedId(isExpanded ? null : asset.id)}
+                            className="flex items-center gap-1 font-medium text-left hover:underline"
+                          >
+                            {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                            {asset.name}
+                          </button>
+                          {gain !== null && (
+                            <Badge variant="outline" className={`mt-1 text-xs ${gain >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                              Disposed {formatDate(asset.disposal_date!)} · {gain >= 0 ? 'profit' : 'loss'} {formatCurrency(Math.abs(gain))}
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="py-2">{formatDate(asset.acquisition_date)}</td>
+                        <td className="py-2">
+                          {DEPRECIATION_METHOD_LABELS[asset.method]}
+                          <span className="text-muted-foreground">
+                            {asset.method === 'reducing_balance'
+                              ? ` ${Number(asset.reducing_balance_rate)}%`
+                              : ` ${asset.useful_life_months}m`}
+                          </span>
+                        </td>
+                        <td className="py-2 text-right tabular-nums">{formatCurrency(Number(asset.cost))}</td>
+                        <td className="py-2 text-right tabular-nums">{depreciation === null ? '-' : formatCurrency(depreciation)}</td>
+                        <td className="py-2 text-right tabular-nums font-semibold">{formatCurrency(netBookValue)}</td>
+                        <td className="py-2 text-right whitespace-nowrap print:hidden">
+                          {!asset.disposal_date && (
+                            <Button variant="ghost" size="sm" onClick={() => setAssetToDispose(asset)} className="h-7 px-2">
+                              <PackageX className="h-3 w-3 mr-1" />
+                              Dispose
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setAssetToDelete(asset)}
+                            className="h-7 px-2 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-b bg-muted/40">
+                          <td colSpan={7} className="py-3 px-6">
+                            <table className="w-full max-w-md text-xs">
+                              <thead>
+                                <tr className="text-muted-foreground">
+                                  <th className="py-1 text-left font-medium">Year</th>
+                                  <th className="py-1 text-right font-medium">Depreciation</th>
+                                  <th className="py-1 text-right font-medium">Closing book value</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {annualSchedule(asset).map(row => (
+                                  <tr key={row.year}>
+                                    <td className="py-1">{row.year}</td>
+                                    <td className="py-1 text-right tabular-nums">{formatCurrency(row.charge)}</td>
+                                    <td className="py-1 text-right tabular-nums">{formatCurrency(row.closingValue)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+                <tr className="border-t-2 border-foreground/20 font-semibold">
+                  <td className="py-2" colSpan={3}>Total assets held</td>
+                  <td className="py-2 text-right tabular-nums">{formatCurrency(totals.cost)}</td>
+                  <td className="py-2 text-right tabular-nums">{formatCurrency(totals.depreciation)}</td>
+                  <td className="py-2 text-right tabular-nums">{formatCurrency(totals.netBookValue)}</td>
+                  <td className="print:hidden"></td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <FixedAssetFormDialog
+        open={isAddOpen}
+        onOpenChange={setIsAddOpen}
+        onSubmit={handleCreate}
+        isSubmitting={createAsset.isPending}
+      />
+
+      <FixedAssetDisposalDialog
+        asset={assetToDispose}
+        onOpenChange={(open) => !open && setAssetToDispose(null)}
+        onSubmit={handleDispose}
+        isSubmitting={disposeAsset.isPending}
+      />
+
+      <ConfirmationDialog
+        isOpen={!!assetToDelete}
+        onClose={() => setAssetToDelete(null)}
+        onConfirm={() => assetToDelete && deleteAsset.mutate(assetToDelete.id)}
+        title="Delete Fixed Asset"
+        description={`Delete "${assetToDelete?.name}" and its depreciation? Its purchase and any sale transactions go back into the P&L as ordinary income and expenditure.`}
+        confirmText="Delete"
+        variant="destructive"
+        isLoading={deleteAsset.isPending}
+      />
+    </div>
+  );
+}
@@ -17,6 +17,8 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -30,6 +32,7 @@ import {
   FlexibleReportConfig
 } from '@/lib/reports-data-engine';
 import { CSVExporter } from '@/lib/csv-export';
+import { netOfDisallowable } from '@/lib/business-use';
 import { DateRangePicker } from '@/components/reports/date-range-picker';
 import { ComparisonSelector } from '@/components/reports/comparison-selector';
 import { PeriodComparisonReport } from '@/components/reports/period-comparison-report';
@@ -176,7 +179,9 @@ export function HierarchicalPLReport({ className }: HierarchicalPLReportProps) {
   const [dateRange, setDateRange] = useState<CustomDateRange>(() =>
     getPresetDateRange('last_month')
   );
-  const [plData, setPLData] = useState<HierarchicalPLData | null>(null);
+  const [grossPLData, setGrossPLData] = useState<HierarchicalPLData | null>(null);
+  // Gross shows expenses in full, including the private-use share and disallowable spend
+  const [showGross, setShowGross] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedHierarchies, setExpandedHierarchies] = useState<Record<string, boolean>>({});
@@ -207,7 +212,7 @@ export function HierarchicalPLReport({ className }: HierarchicalPLReportProps) {
 
       // Load standard P&L data
       const data = await reportDataEngine.getHierarchicalPLData(config);
-      setPLData(data);
+      setGrossPLData(data);
 
       // Load comparison data if comparison is enabled
       if (comparisonConfig) {
@@ -252,6 +257,9 @@ export function HierarchicalPLReport({ className }: HierarchicalPLReportProps) {
     }));
   };
 
+  const plData = grossPLData && !showGross ? netOfDisallowable(grossPLData) : grossPLData;
+  const excludedExpenses = grossPLData?.totals.total_disallowable ?? 0;
+
   const handleExpandAll = () => {
     if (!plData) return;
     const newState: Record<string, boolean> = {};
@@ -362,6 +370,12 @@ export function HierarchicalPLReport({ className }: HierarchicalPLReportProps) {
                 onChange={setDateRange}
                 className="w-64"
               />
+              <div className="flex items-center gap-2 px-1">
+                <Switch id="pl-gross-figures" checked={showGross} onCheckedChange={setShowGross} />
+                <Label htmlFor="pl-gross-figures" className="text-sm font-normal">
+                  Gross figures
+                </Label>
+              </div>
               <Button variant="outline" size="sm" onClick={handleExpandAll}>
                 <Expand className="h-4 w-4" />
               </Button>
@@ -505,6 +519,16 @@ export function HierarchicalPLReport({ className }: HierarchicalPLReportProps) {
                   {formatCurrency(totals.total_expenditure)}
                 </span>
               </div>
+              {excludedExpenses !== 0 && (
+                <div className="flex items-center justify-between px-5 py-2 bg-rose-50 dark:bg-rose-950/30 text-xs text-rose-700 dark:text-rose-300">
+                  <span>
+                    {showGross
+                      ? 'Includes private use and disallowable expenses of'
+                      : 'Excludes private use and disallowable expenses of'}
+                  </span>
+                  <span className="tabular-nums">{formatCurrency(excludedExpenses)}</span>
+                </div>
+              )}
             </div>
 
             {/* ═══════════════ NET OPERATING PROFIT/LOSS ═══════════════ */}
@@ -7,3 +7,9 @@ export { ReportBuilderDialog } from './report-builder-dialog';
 export { HierarchicalPLReport } from './hierarchical-pl-report';
 export { CashFlowReport } from './cash-flow-report';
 export { SelfAssessmentReport } from './self-assessment-report';
+export { VatReturnReport } from './vat-return-report';
+export { BalanceSheetReport } from './balance-sheet-report';
+export { FixedAssetRegisterReport } from './fixed-asset-register-report';
+export { SimplifiedExpensesReport } from './simplified-expenses-report';
+export { TaxCalendarReport } from './tax-calendar-report';
+export { BudgetVsActualReport } from './budget-vs-actual-report';
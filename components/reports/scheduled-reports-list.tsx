@@ -10,14 +10,17 @@ import {
   Trash2, 
   Edit,
   Mail,
-  FileText
+  FileText,
+  CheckCircle,
+  XCircle,
+  Loader2
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
-import { useScheduleMutations } from '@/hooks/use-reports';
-import { ScheduledReport } from '@/lib/reports-types';
+import { useScheduleMutations, useScheduledReportRuns } from '@/hooks/use-reports';
+import { ScheduledReport, ScheduledReportRun } from '@/lib/reports-types';
 
 interface ScheduledReportsListProps {
   scheduledReports: ScheduledReport[];
@@ -26,15 +29,17 @@ interface ScheduledReportsListProps {
 
 export function ScheduledReportsList({ scheduledReports, isLoading }: ScheduledReportsListProps) {
   const { toggleSchedule, deleteSchedule } = useScheduleMutations();
+  const { data: runs = [] } = useScheduledReportRuns();
   const [togglingId, setTogglingId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
 
-  const handleToggle = async (scheduleId: string, currentStatus: boolean) => {
-    setTogglingId(scheduleId);
+  const handleToggle = async (schedule: ScheduledReport) => {
+    setTogglingId(schedule.id);
     try {
       await toggleSchedule.mutateAsync({
-        scheduleId,
-        isActive: !currentStatus,
+        scheduleId: schedule.id,
+        isActive: !schedule.is_active,
+        scheduleConfig: schedule.schedule_config,
       });
     } catch (error) {
       console.error('Failed to toggle schedule:', error);
@@ -84,6 +89,36 @@ export function ScheduledReportsList({ scheduledReports, isLoading }: ScheduledR
     return format(date, 'MMM d, yyyy HH:mm');
   };
 
+  // Runs come back newest first, so the first match is the latest
+  const getLatestRun = (scheduleId: string): ScheduledReportRun | undefined =>
+    runs.find(run => run.scheduled_report_id === scheduleId);
+
+  const getRunStatusDisplay = (run: ScheduledReportRun) => {
+    switch (run.status) {
+      case 'success':
+        return (
+          <span className="flex items-center gap-1 text-green-600">
+            <CheckCircle className="w-3 h-3" />
+            Delivered
+          </span>
+        );
+      case 'failed':
+        return (
+          <span className="flex items-center gap-1 text-red-600" title={run.error_message}>
+            <XCircle className="w-3 h-3" />
+            Failed
+          </span>
+        );
+      default:
+        return (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Running
+          </span>
+        );
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-4">
@@ -126,145 +161,163 @@ export function ScheduledReportsList({ scheduledReports, isLoading }: ScheduledR
 
   return (
     <div className="space-y-4">
-      {scheduledReports.map((schedule) => (
-        <Card key={schedule.id} className="hover:shadow-md transition-shadow">
-          <CardHeader className="pb-3">
-            <div className="flex items-start justify-between">
-              <div className="flex-1">
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <FileText className="w-5 h-5 text-primary" />
-                  {(schedule as unknown as { report?: { name?: string } }).report?.name || 'Unknown Report'}
-                </CardTitle>
-                <CardDescription className="mt-1">
-                  {(schedule as unknown as { report?: { description?: string } }).report?.description || 'No description available'}
-                </CardDescription>
-              </div>
-              <div className="flex items-center gap-2">
-                <Switch
-                  checked={schedule.is_active}
-                  onCheckedChange={() => handleToggle(schedule.id, schedule.is_active)}
-                  disabled={togglingId === schedule.id}
-                />
-                <Badge variant={schedule.is_active ? 'default' : 'secondary'}>
-                  {schedule.is_active ? 'Active' : 'Paused'}
-                </Badge>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent className="pt-0">
-            <div className="grid gap-4 md:grid-cols-2">
-              {/* Schedule Details */}
-              <div className="space-y-3">
-                <div className="flex items-center gap-2 text-sm">
-                  <Clock className="w-4 h-4 text-muted-foreground" />
-                  <span className="font-medium">Frequency:</span>
-                  <Badge variant="outline">
-                    {getFrequencyLabel(schedule.schedule_config.frequency)}
+      {scheduledReports.map((schedule) => {
+        const latestRun = getLatestRun(schedule.id);
+
+        return (
+          <Card key={schedule.id} className="hover:shadow-md transition-shadow">
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <FileText className="w-5 h-5 text-primary" />
+                    {(schedule as unknown as { report?: { name?: string } }).report?.name || 'Unknown Report'}
+                  </CardTitle>
+                  <CardDescription className="mt-1">
+                    {(schedule as unknown as { report?: { description?: string } }).report?.description || 'No description available'}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={schedule.is_active}
+                    onCheckedChange={() => handleToggle(schedule)}
+                    disabled={togglingId === schedule.id}
+                  />
+                  <Badge variant={schedule.is_active ? 'default' : 'secondary'}>
+                    {schedule.is_active ? 'Active' : 'Paused'}
                   </Badge>
                 </div>
-                
-                {schedule.schedule_config.time && (
+              </div>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <div className="grid gap-4 md:grid-cols-2">
+                {/* Schedule Details */}
+                <div className="space-y-3">
                   <div className="flex items-center gap-2 text-sm">
                     <Clock className="w-4 h-4 text-muted-foreground" />
-                    <span className="font-medium">Time:</span>
-                    <span>{schedule.schedule_config.time}</span>
-                  </div>
-                )}
-
-                {schedule.schedule_config.emailRecipients && 
-                 schedule.schedule_config.emailRecipients.length > 0 && (
-                  <div className="flex items-center gap-2 text-sm">
-                    <Mail className="w-4 h-4 text-muted-foreground" />
-                    <span className="font-medium">Recipients:</span>
-                    <span>{schedule.schedule_config.emailRecipients.length}</span>
+                    <span className="font-medium">Frequency:</span>
+                    <Badge variant="outline">
+                      {getFrequencyLabel(schedule.schedule_config.frequency)}
+                    </Badge>
                   </div>
-                )}
-              </div>
+                  
+                  {schedule.schedule_config.time && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Clock className="w-4 h-4 text-muted-foreground" />
+                      <span className="font-medium">Time:</span>
+                      <span>{schedule.schedule_config.time}</span>
+                    </div>
+                  )}
 
-              {/* Run Information */}
-              <div className="space-y-3">
-                <div className="text-sm">
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Next Run:</span>
-                    <span className="font-medium">
-                      {getNextRunDisplay(schedule.next_run)}
-                    </span>
-                  </div>
+                  {schedule.schedule_config.emailRecipients && 
+                   schedule.schedule_config.emailRecipients.length > 0 && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Mail className="w-4 h-4 text-muted-foreground" />
+                      <span className="font-medium">Recipients:</span>
+                      <span>{schedule.schedule_config.emailRecipients.length}</span>
+                    </div>
+                  )}
                 </div>
 
-                {schedule.last_run && (
+                {/* Run Information */}
+                <div className="space-y-3">
                   <div className="text-sm">
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Last Run:</span>
-                      <span>{format(new Date(schedule.last_run), 'MMM d, yyyy HH:mm')}</span>
+                      <span className="text-muted-foreground">Next Run:</span>
+                      <span className="font-medium">
+                        {getNextRunDisplay(schedule.next_run)}
+                      </span>
                     </div>
                   </div>
-                )}
 
-                <div className="text-sm">
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Created:</span>
-                    <span>{format(new Date(schedule.created_at), 'MMM d, yyyy')}</span>
+                  {schedule.last_run && (
+                    <div className="text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Last Run:</span>
+                        <span>{format(new Date(schedule.last_run), 'MMM d, yyyy HH:mm')}</span>
+                      </div>
+                    </div>
+                  )}
+
+                  {latestRun && (
+                    <div className="text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Last Result:</span>
+                        {getRunStatusDisplay(latestRun)}
+                      </div>
+                      {latestRun.error_message && (
+                        <p className="text-xs text-red-600 mt-1 truncate">
+                          {latestRun.error_message}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Created:</span>
+                      <span>{format(new Date(schedule.created_at), 'MMM d, yyyy')}</span>
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
 
-            {/* Export Formats */}
-            {schedule.schedule_config.format && 
-             schedule.schedule_config.format.length > 0 && (
-              <div className="mt-4 pt-4 border-t">
-                <div className="flex items-center gap-2 text-sm">
-                  <span className="text-muted-foreground">Export Formats:</span>
-                  <div className="flex gap-1">
-                    {schedule.schedule_config.format.map((format) => (
-                      <Badge key={format} variant="outline" className="text-xs">
-                        {format.toUpperCase()}
-                      </Badge>
-                    ))}
+              {/* Export Formats */}
+              {schedule.schedule_config.format && 
+               schedule.schedule_config.format.length > 0 && (
+                <div className="mt-4 pt-4 border-t">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">Export Formats:</span>
+                    <div className="flex gap-1">
+                      {schedule.schedule_config.format.map((format) => (
+                        <Badge key={format} variant="outline" className="text-xs">
+                          {format.toUpperCase()}
+                        </Badge>
+                      ))}
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
 
-            {/* Actions */}
-            <div className="flex gap-2 mt-4 pt-4 border-t">
-              <Button variant="outline" size="sm">
-                <Edit className="w-3 h-3 mr-1" />
-                Edit
-              </Button>
-              <Button 
-                variant="outline" 
-                size="sm"
-                onClick={() => handleToggle(schedule.id, schedule.is_active)}
-                disabled={togglingId === schedule.id}
-              >
-                {schedule.is_active ? (
-                  <>
-                    <Pause className="w-3 h-3 mr-1" />
-                    Pause
-                  </>
-                ) : (
-                  <>
-                    <Play className="w-3 h-3 mr-1" />
-                    Resume
-                  </>
-                )}
-              </Button>
-              <Button 
-                variant="outline" 
-                size="sm" 
-                className="text-red-600 hover:text-red-700"
-                onClick={() => handleDelete(schedule.id)}
-                disabled={deletingId === schedule.id}
-              >
-                <Trash2 className="w-3 h-3 mr-1" />
-                {deletingId === schedule.id ? 'Deleting...' : 'Delete'}
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-      ))}
+              {/* Actions */}
+              <div className="flex gap-2 mt-4 pt-4 border-t">
+                <Button variant="outline" size="sm">
+                  <Edit className="w-3 h-3 mr-1" />
+                  Edit
+                </Button>
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={() => handleToggle(schedule)}
+                  disabled={togglingId === schedule.id}
+                >
+                  {schedule.is_active ? (
+                    <>
+                      <Pause className="w-3 h-3 mr-1" />
+                      Pause
+                    </>
+                  ) : (
+                    <>
+                      <Play className="w-3 h-3 mr-1" />
+                      Resume
+                    </>
+                  )}
+                </Button>
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => handleDelete(schedule.id)}
+                  disabled={deletingId === schedule.id}
+                >
+                  <Trash2 className="w-3 h-3 mr-1" />
+                  {deletingId === schedule.id ? 'Deleting...' : 'Delete'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
     </div>
   );
 }
@@ -13,7 +13,11 @@ import {
   Calculator,
   PoundSterling,
   Wallet,
+  Landmark,
+  FileSpreadsheet,
+  CalendarClock,
 } from 'lucide-react';
+import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import {
@@ -30,6 +34,20 @@ import {
   HierarchySection,
   CategoryInHierarchy,
 } from '@/lib/reports-data-engine';
+import { useCapitalAllowances } from '@/hooks/use-capital-allowances';
+import {
+  CAPITAL_ALLOWANCE_POOL_LABELS,
+  SA103_CAPITAL_ALLOWANCE_BOXES,
+  type CapitalAllowancePool,
+} from '@/lib/capital-allowances';
+import { useTaxSettings } from '@/hooks/use-tax-settings';
+import { buildTaxAdjustments, calculateTaxEstimate, type TaxAdjustments } from '@/lib/tax-engine';
+import { TAX_REGION_LABELS, getTaxYearRates, type TaxRegion } from '@/lib/tax-rates';
+import { useSa103Mappings } from '@/hooks/use-sa103';
+import { SA103_FORM_LABELS, buildSa103Summary, sa103SummaryToCsv, type Sa103Form } from '@/lib/sa103';
+import { CategorySa103Select, HierarchySa103Select } from '@/components/categories/category-sa103-select';
+import { useSimplifiedExpenses } from '@/hooks/use-simplified-expenses';
+import { simplifiedExpenseSa103Lines } from '@/lib/simplified-expenses';
 import { toast } from 'sonner';
 
 // ---------------------------------------------------------------------------
@@ -91,6 +109,10 @@ function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
+function formatRate(rate: number): string {
+  return `${parseFloat((rate * 100).toFixed(2))}%`;
+}
+
 function formatDate(date: Date): string {
   return date.toLocaleDateString('en-GB', {
     day: 'numeric',
@@ -99,78 +121,6 @@ function formatDate(date: Date): string {
   });
 }
 
-// ---------------------------------------------------------------------------
-// UK Tax calculation (2024-25 rates, hardcoded)
-// ---------------------------------------------------------------------------
-
-interface TaxEstimate {
-  personalAllowance: number;
-  basicRate: number;
-  higherRate: number;
-  additionalRate: number;
-  totalIncomeTax: number;
-  class4Nics: number;
-  class2Nics: number;
-  totalTax: number;
-}
-
-function calculateTaxEstimate(netProfit: number): TaxEstimate {
-  const profit = Math.max(0, netProfit);
-
-  // Personal allowance tapering: reduced by 1 for every 2 above 100,000
-  let personalAllowance = 12570;
-  if (profit > 100000) {
-    personalAllowance = Math.max(0, 12570 - Math.floor((profit - 100000) / 2));
-  }
-
-  // Income tax
-  let basicRate = 0;
-  let higherRate = 0;
-  let additionalRate = 0;
-
-  const taxable = Math.max(0, profit - personalAllowance);
-
-  if (taxable > 0) {
-    const basicBand = Math.min(taxable, 50270 - personalAllowance);
-    basicRate = Math.max(0, basicBand) * 0.2;
-
-    const higherBand = Math.min(
-      Math.max(0, taxable - (50270 - personalAllowance)),
-      125140 - 50270
-    );
-    higherRate = higherBand * 0.4;
-
-    const additionalBand = Math.max(0, taxable - (125140 - personalAllowance));
-    additionalRate = additionalBand * 0.45;
-  }
-
-  const totalIncomeTax = basicRate + higherRate + additionalRate;
-
-  // Class 4 NICs
-  let class4Nics = 0;
-  if (profit > 12570) {
-    const lowerBand = Math.min(profit, 50270) - 12570;
-    class4Nics += lowerBand * 0.09;
-    if (profit > 50270) {
-      class4Nics += (profit - 50270) * 0.02;
-    }
-  }
-
-  // Class 2 NICs — 3.45/week if profits above threshold, ~179.40/year
-  const class2Nics = profit > 12570 ? 179.40 : 0;
-
-  return {
-    personalAllowance,
-    basicRate,
-    higherRate,
-    additionalRate,
-    totalIncomeTax,
-    class4Nics,
-    class2Nics,
-    totalTax: totalIncomeTax + class4Nics + class2Nics,
-  };
-}
-
 // ---------------------------------------------------------------------------
 // Skeleton loader
 // ---------------------------------------------------------------------------
@@ -269,6 +219,11 @@ function CategoryRow({
       </td>
       <td className={`py-1.5 px-4 text-right tabular-nums text-sm ${colorClass}`}>
         {formatCurrency(Math.abs(category.total_amount))}
+        {category.disallowable_amount !== 0 && (
+          <span className="block text-xs text-muted-foreground">
+            {formatCurrency(category.disallowable_amount)} disallowable
+          </span>
+        )}
       </td>
     </tr>
   );
@@ -289,6 +244,15 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
     () => taxYears.find((y) => y.label === selectedYear) || taxYears[0],
     [selectedYear, taxYears],
   );
+  const { data: capitalAllowances } = useCapitalAllowances(activeTaxYear.start.getFullYear());
+  const { data: simplifiedExpenses } = useSimplifiedExpenses(activeTaxYear.start.getFullYear());
+  const { settings: taxSettings, saveSettings: saveTaxSettings } = useTaxSettings();
+  const { data: sa103Mappings } = useSa103Mappings();
+  const [showBoxAssignments, setShowBoxAssignments] = useState(false);
+  const { rates: taxRates, isAssumed: ratesAssumed } = useMemo(
+    () => getTaxYearRates(activeTaxYear.start.getFullYear()),
+    [activeTaxYear],
+  );
 
   // ------ Fetch data -------------------------------------------------------
 
@@ -326,10 +290,35 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
 
   // ------ Derived values ---------------------------------------------------
 
+  // Mileage and use-of-home claims not yet generated as transactions
+  const simplifiedExpenseLines = useMemo(
+    () => (simplifiedExpenses ? simplifiedExpenseSa103Lines(simplifiedExpenses) : []),
+    [simplifiedExpenses],
+  );
+  const totalSimplifiedExpenses = simplifiedExpenseLines.reduce((sum, line) => sum + line.amount, 0);
+
+  const taxAdjustments = useMemo(
+    (): TaxAdjustments => buildTaxAdjustments(
+      data?.totals.total_disallowable ?? 0,
+      capitalAllowances?.addBack ?? 0,
+      totalSimplifiedExpenses,
+      capitalAllowances?.year,
+    ),
+    [capitalAllowances, data, totalSimplifiedExpenses],
+  );
+
   const taxEstimate = useMemo(() => {
     if (!data) return null;
-    return calculateTaxEstimate(data.totals.net_operating_profit);
-  }, [data]);
+    return calculateTaxEstimate(data.totals.net_operating_profit, taxRates, taxSettings.region, taxAdjustments);
+  }, [data, taxRates, taxSettings.region, taxAdjustments]);
+
+  const sa103Summary = useMemo(() => {
+    if (!data || !sa103Mappings) return null;
+    return buildSa103Summary(data, sa103Mappings, taxSettings.sa103Form, simplifiedExpenseLines);
+  }, [data, sa103Mappings, taxSettings.sa103Form, simplifiedExpenseLines]);
+
+  const allowanceYear = capitalAllowances?.year ?? null;
+  const hasCapitalAllowances = !!allowanceYear || taxAdjustments.addBack !== 0;
 
   // Capital breakdown
   const capitalBreakdown = useMemo(() => {
@@ -378,16 +367,21 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
     rows.push('');
 
     // Expenses
-    rows.push('ALLOWABLE EXPENSES (SA103 Expenses)');
-    rows.push('Hierarchy,Category,Transactions,Amount');
+    rows.push('EXPENSES (SA103 Expenses)');
+    rows.push('Hierarchy,Category,Transactions,Amount,Disallowable');
     data.expenditure.forEach((h) => {
       h.categories.forEach((c) => {
         rows.push(
-          `"${h.name}","${c.name}",${c.transaction_count},${Math.abs(c.total_amount).toFixed(2)}`,
+          `"${h.name}","${c.name}",${c.transaction_count},${Math.abs(c.total_amount).toFixed(2)},${c.disallowable_amount.toFixed(2)}`,
         );
       });
     });
     rows.push(`,,Total Expenses,${data.totals.total_expenditure.toFixed(2)}`);
+    rows.push(`,,Disallowable Expenses,${data.totals.total_disallowable.toFixed(2)}`);
+    rows.push(`,,Allowable Expenses,${(data.totals.total_expenditure - data.totals.total_disallowable).toFixed(2)}`);
+    simplifiedExpenseLines.forEach((line) => {
+      rows.push(`,,"${line.name} - simplified expenses",${line.amount.toFixed(2)}`);
+    });
     rows.push('');
 
     // Net Profit
@@ -401,14 +395,40 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
     rows.push(`Drawings,${capitalBreakdown.drawings.toFixed(2)}`);
     rows.push('');
 
+    // Capital allowances
+    if (hasCapitalAllowances) {
+      rows.push('CAPITAL ALLOWANCES');
+      rows.push('Item,SA103S Box,Amount');
+      rows.push(`Depreciation and capital items added back,,${taxAdjustments.addBack.toFixed(2)}`);
+      rows.push(`Disallowable expenses added back,,${taxAdjustments.disallowableExpenses.toFixed(2)}`);
+      rows.push(`Simplified expenses deducted,,${taxAdjustments.simplifiedExpenses.toFixed(2)}`);
+      rows.push(`Annual Investment Allowance,${SA103_CAPITAL_ALLOWANCE_BOXES.annualInvestmentAllowance},${(allowanceYear?.aiaClaimed ?? 0).toFixed(2)}`);
+      rows.push(`Small pools allowance,${SA103_CAPITAL_ALLOWANCE_BOXES.smallPoolsAllowance},${(allowanceYear?.smallPoolsAllowance ?? 0).toFixed(2)}`);
+      rows.push(`Writing-down allowances,${SA103_CAPITAL_ALLOWANCE_BOXES.otherCapitalAllowances},${((allowanceYear?.totalAllowances ?? 0) - (allowanceYear?.aiaClaimed ?? 0)).toFixed(2)}`);
+      rows.push(`Balancing charges,${SA103_CAPITAL_ALLOWANCE_BOXES.balancingCharges},${(allowanceYear?.balancingCharges ?? 0).toFixed(2)}`);
+      if (allowanceYear) {
+        rows.push('Pool,Brought forward,Additions,Disposals,Allowance,Balancing charge,Carried forward');
+        (Object.keys(CAPITAL_ALLOWANCE_POOL_LABELS) as CapitalAllowancePool[]).forEach((key) => {
+          const pool = allowanceYear.pools[key];
+          rows.push(
+            `${CAPITAL_ALLOWANCE_POOL_LABELS[key]},${pool.broughtForward.toFixed(2)},${pool.additions.toFixed(2)},${pool.disposals.toFixed(2)},${pool.writingDownAllowance.toFixed(2)},${pool.balancingCharge.toFixed(2)},${pool.carriedForward.toFixed(2)}`,
+          );
+        });
+      }
+      rows.push('');
+    }
+
     // Tax estimate
     if (taxEstimate) {
-      rows.push('TAX ESTIMATE (informational only - 2024-25 rates)');
+      rows.push(
+        `TAX ESTIMATE (informational only - ${taxRates.label} ${TAX_REGION_LABELS[taxSettings.region]} rates)`,
+      );
       rows.push('Item,Amount');
+      rows.push(`Taxable Profit,${taxEstimate.taxableProfit.toFixed(2)}`);
       rows.push(`Personal Allowance,${taxEstimate.personalAllowance.toFixed(2)}`);
-      rows.push(`Income Tax (Basic Rate 20%),${taxEstimate.basicRate.toFixed(2)}`);
-      rows.push(`Income Tax (Higher Rate 40%),${taxEstimate.higherRate.toFixed(2)}`);
-      rows.push(`Income Tax (Additional Rate 45%),${taxEstimate.additionalRate.toFixed(2)}`);
+      taxEstimate.bands.forEach((band) => {
+        rows.push(`Income Tax (${band.name} ${formatRate(band.rate)}),${band.tax.toFixed(2)}`);
+      });
       rows.push(`Total Income Tax,${taxEstimate.totalIncomeTax.toFixed(2)}`);
       rows.push(`Class 4 NICs,${taxEstimate.class4Nics.toFixed(2)}`);
       rows.push(`Class 2 NICs,${taxEstimate.class2Nics.toFixed(2)}`);
@@ -424,7 +444,23 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
     a.click();
     URL.revokeObjectURL(url);
     toast.success('Self Assessment report exported');
-  }, [data, activeTaxYear, capitalBreakdown, taxEstimate]);
+  }, [data, activeTaxYear, capitalBreakdown, simplifiedExpenseLines, taxEstimate, taxAdjustments, allowanceYear, hasCapitalAllowances, taxRates, taxSettings.region]);
+
+  const handleExportBoxes = useCallback(() => {
+    if (!sa103Summary) {
+      toast.error('No data to export');
+      return;
+    }
+
+    const blob = new Blob([sa103SummaryToCsv(sa103Summary, activeTaxYear.label)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `sa103-${sa103Summary.form}-${activeTaxYear.label}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success('SA103 boxes exported');
+  }, [sa103Summary, activeTaxYear]);
 
   // ------ Print handler ----------------------------------------------------
 
@@ -479,6 +515,40 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
             </SelectContent>
           </Select>
         </div>
+        <div className="w-full sm:w-72">
+          <Select
+            value={taxSettings.region}
+            onValueChange={(value) => saveTaxSettings({ ...taxSettings, region: value as TaxRegion })}
+          >
+            <SelectTrigger aria-label="Income tax region">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TAX_REGION_LABELS) as TaxRegion[]).map((region) => (
+                <SelectItem key={region} value={region}>
+                  {TAX_REGION_LABELS[region]} rates
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-full sm:w-48">
+          <Select
+            value={taxSettings.sa103Form}
+            onValueChange={(value) => saveTaxSettings({ ...taxSettings, sa103Form: value as Sa103Form })}
+          >
+            <SelectTrigger aria-label="SA103 form">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SA103_FORM_LABELS) as Sa103Form[]).map((form) => (
+                <SelectItem key={form} value={form}>
+                  {SA103_FORM_LABELS[form]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <div className="flex gap-2 sm:ml-auto">
           <Button variant="outline" size="sm" onClick={handleRefresh}>
             <RefreshCw className="w-4 h-4 mr-2" />
@@ -488,6 +558,10 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
             <Download className="w-4 h-4 mr-2" />
             Export CSV
           </Button>
+          <Button variant="outline" size="sm" onClick={handleExportBoxes} disabled={!sa103Summary}>
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Export SA103 boxes
+          </Button>
           <Button variant="outline" size="sm" onClick={handlePrint}>
             <Printer className="w-4 h-4 mr-2" />
             Print
@@ -531,7 +605,11 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
                 <p className="text-2xl font-bold tabular-nums text-rose-600 dark:text-rose-400">
                   {formatCurrency(data.totals.total_expenditure)}
                 </p>
-                <p className="text-xs text-muted-foreground mt-1">SA103 Allowable Expenses</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {data.totals.total_disallowable !== 0
+                    ? `${formatCurrency(data.totals.total_disallowable)} disallowable`
+                    : 'SA103 Allowable Expenses'}
+                </p>
               </div>
               <div className="p-3 bg-rose-100 dark:bg-rose-950/50 rounded-lg print:bg-rose-100">
                 <TrendingDown className="h-6 w-6 text-rose-600 dark:text-rose-400" />
@@ -589,7 +667,7 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
             Income &mdash; SA103 Trading Income
           </CardTitle>
           <CardDescription>
-            Total turnover / income for the tax year. Maps to Box 10&ndash;15 on the SA103.
+            Total turnover / income for the tax year. See SA103 Boxes below for the box each category goes in.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -636,11 +714,11 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
         <CardHeader>
           <CardTitle className="flex items-center gap-2 text-rose-700 dark:text-rose-400">
             <TrendingDown className="h-5 w-5" />
-            Allowable Expenses &mdash; SA103 Expenses
+            Expenses &mdash; SA103 Expenses
           </CardTitle>
           <CardDescription>
-            Total allowable expenses for the tax year. Review category breakdown and assign to the
-            appropriate SA103 boxes when completing your return.
+            Total expenses for the tax year by category, with the private-use share and disallowable
+            expenses separated out. See SA103 Boxes below for the per-box totals to enter on your return.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -675,6 +753,44 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
                       {formatCurrency(data.totals.total_expenditure)}
                     </td>
                   </tr>
+                  {data.totals.total_disallowable !== 0 && (
+                    <>
+                      <tr>
+                        <td className="py-2 px-4 text-muted-foreground">Disallowable expenses and private use</td>
+                        <td />
+                        <td className="py-2 px-4 text-right tabular-nums text-muted-foreground">
+                          &minus;{formatCurrency(data.totals.total_disallowable)}
+                        </td>
+                      </tr>
+                      <tr className="font-semibold">
+                        <td className="py-2 px-4 text-foreground">Allowable Expenses</td>
+                        <td />
+                        <td className="py-2 px-4 text-right tabular-nums text-rose-600 dark:text-rose-400">
+                          {formatCurrency(data.totals.total_expenditure - data.totals.total_disallowable)}
+                        </td>
+                      </tr>
+                    </>
+                  )}
+                  {simplifiedExpenseLines.length > 0 && (
+                    <>
+                      {simplifiedExpenseLines.map((line) => (
+                        <tr key={line.id}>
+                          <td className="py-2 px-4 text-muted-foreground">{line.name} &mdash; simplified expenses</td>
+                          <td />
+                          <td className="py-2 px-4 text-right tabular-nums text-muted-foreground">
+                            {formatCurrency(line.amount)}
+                          </td>
+                        </tr>
+                      ))}
+                      <tr className="font-semibold">
+                        <td className="py-2 px-4 text-foreground">Allowable Expenses including simplified expenses</td>
+                        <td />
+                        <td className="py-2 px-4 text-right tabular-nums text-rose-600 dark:text-rose-400">
+                          {formatCurrency(data.totals.total_expenditure - data.totals.total_disallowable + totalSimplifiedExpenses)}
+                        </td>
+                      </tr>
+                    </>
+                  )}
                 </tfoot>
               </table>
             </div>
@@ -690,8 +806,8 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
             Net Profit / Loss
           </CardTitle>
           <CardDescription>
-            Turnover minus allowable expenses. This is the figure for your tax return (SA103 Box 29
-            or Box 31).
+            Turnover minus expenses per the accounts. The return figure is in SA103 Boxes below, before
+            capital allowances.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -713,6 +829,324 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
         </CardContent>
       </Card>
 
+      {/* SA103 Boxes */}
+      {sa103Summary && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5 text-primary" />
+              SA103 Boxes &mdash; {SA103_FORM_LABELS[sa103Summary.form]}
+            </CardTitle>
+            <CardDescription>
+              Per-box totals from the SA103 box set on each category, or on its hierarchy when the category has
+              none. Capital allowances go in their own boxes, shown below.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {sa103Summary.unmapped.length > 0 && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900/50 print:bg-amber-50">
+                  <AlertCircle className="h-4 w-4 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
+                  <div className="flex-1 space-y-2">
+                    <p className="text-xs text-amber-800 dark:text-amber-300">
+                      {sa103Summary.unmapped.length} {sa103Summary.unmapped.length === 1 ? 'category has' : 'categories have'}{' '}
+                      no SA103 box and {sa103Summary.unmapped.length === 1 ? 'is' : 'are'} left out of the totals below.
+                    </p>
+                    <div className="space-y-1">
+                      {sa103Summary.unmapped.map((category) => (
+                        <div key={category.id} className="flex items-center justify-between gap-2 text-xs">
+                          <span className="text-amber-800 dark:text-amber-300">
+                            {category.hierarchyName} &rsaquo; {category.name} ({formatCurrency(Math.abs(category.amount))})
+                          </span>
+                          {category.id.startsWith('uncategorized') ? (
+                            <span className="text-muted-foreground print:hidden">Categorise these transactions</span>
+                          ) : (
+                            <span className="print:hidden">
+                              <CategorySa103Select
+                                form={sa103Summary.form}
+                                category={{
+                                  id: category.id,
+                                  name: category.name,
+                                  type: category.kind === 'income' ? 'income' : 'expenditure',
+                                  sa103_box: sa103Mappings?.categories[category.id] ?? null,
+                                }}
+                              />
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="py-2 px-4 text-left font-medium text-muted-foreground">Box</th>
+                      <th className="py-2 px-4 text-left font-medium text-muted-foreground">Description</th>
+                      <th className="py-2 px-4 text-right font-medium text-muted-foreground">Amount</th>
+                      {sa103Summary.form === 'full' && (
+                        <th className="py-2 px-4 text-right font-medium text-muted-foreground">Disallowable</th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border/50">
+                    {sa103Summary.boxes.map((box) => (
+                      <tr key={box.box}>
+                        <td className="py-2 px-4 tabular-nums text-muted-foreground align-top">{box.box}</td>
+                        <td className="py-2 px-4">
+                          <p className="text-foreground">{box.label}</p>
+                          {box.categories.length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              {box.categories.map((category) => category.name).join(', ')}
+                            </p>
+                          )}
+                        </td>
+                        <td
+                          className={`py-2 px-4 text-right tabular-nums align-top ${
+                            box.kind === 'income'
+                              ? 'text-emerald-600 dark:text-emerald-400'
+                              : 'text-rose-600 dark:text-rose-400'
+                          }`}
+                        >
+                          {formatCurrency(box.amount)}
+                        </td>
+                        {sa103Summary.form === 'full' && (
+                          <td className="py-2 px-4 text-right tabular-nums align-top text-muted-foreground">
+                            {box.disallowableBox !== null && (
+                              <>
+                                {formatCurrency(box.disallowable)}{' '}
+                                <span className="text-xs">(box {box.disallowableBox})</span>
+                              </>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr className="border-t-2 border-border font-semibold">
+                      <td className="py-2 px-4 tabular-nums">{sa103Summary.totalExpensesBox}</td>
+                      <td className="py-2 px-4 text-foreground">
+                        {sa103Summary.form === 'full' ? 'Total expenses' : 'Total allowable expenses'}
+                      </td>
+                      <td className="py-2 px-4 text-right tabular-nums text-rose-600 dark:text-rose-400">
+                        {formatCurrency(sa103Summary.totalExpenses)}
+                      </td>
+                      {sa103Summary.form === 'full' && (
+                        <td className="py-2 px-4 text-right tabular-nums text-muted-foreground">
+                          {formatCurrency(sa103Summary.totalDisallowable)}{' '}
+                          <span className="text-xs">(box {sa103Summary.totalDisallowableBox})</span>
+                        </td>
+                      )}
+                    </tr>
+                    <tr className="font-bold">
+                      <td className="py-2 px-4 tabular-nums">
+                        {sa103Summary.netProfit >= 0 ? sa103Summary.netProfitBox : sa103Summary.netLossBox}
+                      </td>
+                      <td className="py-2 px-4 text-foreground">
+                        {sa103Summary.netProfit >= 0 ? 'Net profit' : 'Net loss'}
+                      </td>
+                      <td
+                        className={`py-2 px-4 text-right tabular-nums ${
+                          sa103Summary.netProfit >= 0
+                            ? 'text-emerald-600 dark:text-emerald-400'
+                            : 'text-rose-600 dark:text-rose-400'
+                        }`}
+                      >
+                        {formatCurrency(Math.abs(sa103Summary.netProfit))}
+                      </td>
+                      {sa103Summary.form === 'full' && <td />}
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+
+              {/* Box assignments */}
+              <div className="print:hidden">
+                <Button variant="ghost" size="sm" onClick={() => setShowBoxAssignments(!showBoxAssignments)}>
+                  {showBoxAssignments ? (
+                    <ChevronDown className="w-4 h-4 mr-2" />
+                  ) : (
+                    <ChevronRight className="w-4 h-4 mr-2" />
+                  )}
+                  Assign boxes
+                </Button>
+                {showBoxAssignments && (
+                  <div className="mt-2 space-y-3">
+                    {(
+                      [
+                        ['income', data.income],
+                        ['expenditure', data.expenditure],
+                      ] as const
+                    ).map(([type, sections]) =>
+                      sections
+                        .filter((section) => !section.id.startsWith('uncategorized'))
+                        .map((section) => (
+                          <div key={section.id} className="border rounded-lg p-3 space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="text-sm font-medium">{section.name}</span>
+                              <HierarchySa103Select
+                                form={sa103Summary.form}
+                                hierarchy={{
+                                  id: section.id,
+                                  name: section.name,
+                                  type,
+                                  sa103_box: sa103Mappings?.hierarchies[section.id] ?? null,
+                                }}
+                              />
+                            </div>
+                            {section.categories.map((category) => (
+                              <div key={category.id} className="flex items-center justify-between gap-2 pl-4">
+                                <span className="text-sm text-muted-foreground">{category.name}</span>
+                                <CategorySa103Select
+                                  form={sa103Summary.form}
+                                  category={{
+                                    id: category.id,
+                                    name: category.name,
+                                    type,
+                                    sa103_box: sa103Mappings?.categories[category.id] ?? null,
+                                  }}
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        )),
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Capital Allowances */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-sky-700 dark:text-sky-400">
+            <Landmark className="h-5 w-5" />
+            Capital Allowances
+          </CardTitle>
+          <CardDescription>
+            Tax relief on equipment flagged as a capital purchase, in place of depreciation. Pool balances carry
+            forward from earlier tax years. Not available under the cash basis except for cars.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!hasCapitalAllowances ? (
+            <p className="text-muted-foreground text-sm py-4 text-center">
+              No capital purchases flagged. Open a transaction and set its capital allowance pool to claim.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Net profit per accounts</span>
+                  <span className="tabular-nums">{formatCurrency(data.totals.net_operating_profit)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Add back depreciation and capital items</span>
+                  <span className="tabular-nums">{formatCurrency(taxAdjustments.addBack)}</span>
+                </div>
+                {taxAdjustments.disallowableExpenses !== 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Add back disallowable expenses</span>
+                    <span className="tabular-nums">{formatCurrency(taxAdjustments.disallowableExpenses)}</span>
+                  </div>
+                )}
+                {taxAdjustments.simplifiedExpenses !== 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Deduct simplified expenses</span>
+                    <span className="tabular-nums">&minus;{formatCurrency(taxAdjustments.simplifiedExpenses)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">
+                    Annual Investment Allowance (Box {SA103_CAPITAL_ALLOWANCE_BOXES.annualInvestmentAllowance})
+                  </span>
+                  <span className="tabular-nums">&minus;{formatCurrency(allowanceYear?.aiaClaimed ?? 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">
+                    Small pools allowance (Box {SA103_CAPITAL_ALLOWANCE_BOXES.smallPoolsAllowance})
+                  </span>
+                  <span className="tabular-nums">&minus;{formatCurrency(allowanceYear?.smallPoolsAllowance ?? 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">
+                    Writing-down allowances (Box {SA103_CAPITAL_ALLOWANCE_BOXES.otherCapitalAllowances})
+                  </span>
+                  <span className="tabular-nums">
+                    &minus;{formatCurrency((allowanceYear?.totalAllowances ?? 0) - (allowanceYear?.aiaClaimed ?? 0))}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">
+                    Balancing charges (Box {SA103_CAPITAL_ALLOWANCE_BOXES.balancingCharges})
+                  </span>
+                  <span className="tabular-nums">{formatCurrency(allowanceYear?.balancingCharges ?? 0)}</span>
+                </div>
+                {taxEstimate && (
+                  <div className="flex justify-between font-semibold border-t border-border pt-1 mt-1">
+                    <span className="text-foreground">Taxable profit</span>
+                    <span className="tabular-nums">{formatCurrency(taxEstimate.taxableProfit)}</span>
+                  </div>
+                )}
+              </div>
+
+              {allowanceYear && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="py-2 px-4 text-left font-medium text-muted-foreground">Pool</th>
+                        <th className="py-2 px-4 text-right font-medium text-muted-foreground">Brought fwd</th>
+                        <th className="py-2 px-4 text-right font-medium text-muted-foreground">Additions</th>
+                        <th className="py-2 px-4 text-right font-medium text-muted-foreground">Disposals</th>
+                        <th className="py-2 px-4 text-right font-medium text-muted-foreground">Allowance</th>
+                        <th className="py-2 px-4 text-right font-medium text-muted-foreground">Carried fwd</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border/50">
+                      {(Object.keys(CAPITAL_ALLOWANCE_POOL_LABELS) as CapitalAllowancePool[]).map((key) => {
+                        const pool = allowanceYear.pools[key];
+                        const rate = key === 'main' ? allowanceYear.rates.mainRate : allowanceYear.rates.specialRate;
+                        return (
+                          <tr key={key}>
+                            <td className="py-2 px-4">
+                              {CAPITAL_ALLOWANCE_POOL_LABELS[key]}{' '}
+                              <span className="text-muted-foreground">
+                                ({pool.smallPoolWriteOff ? 'small pool' : `${Math.round(rate * 100)}%`})
+                              </span>
+                            </td>
+                            <td className="py-2 px-4 text-right tabular-nums">{formatCurrency(pool.broughtForward)}</td>
+                            <td className="py-2 px-4 text-right tabular-nums">{formatCurrency(pool.additions)}</td>
+                            <td className="py-2 px-4 text-right tabular-nums">{formatCurrency(pool.disposals)}</td>
+                            <td className="py-2 px-4 text-right tabular-nums">
+                              {pool.balancingCharge > 0
+                                ? `Charge ${formatCurrency(pool.balancingCharge)}`
+                                : formatCurrency(pool.writingDownAllowance)}
+                            </td>
+                            <td className="py-2 px-4 text-right tabular-nums">{formatCurrency(pool.carriedForward)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Additions exclude {formatCurrency(allowanceYear.aiaClaimed)} relieved by the Annual Investment
+                    Allowance (limit {formatCurrency(allowanceYear.rates.aiaLimit)}).
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Capital Movements */}
       <Card>
         <CardHeader>
@@ -789,15 +1223,20 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-amber-700 dark:text-amber-400">
               <Calculator className="h-5 w-5" />
-              Tax Estimate (2024&ndash;25 Rates)
+              Tax Estimate ({taxRates.label} Rates)
             </CardTitle>
             <CardDescription>
-              Estimated tax liability based on net profit using 2024&ndash;25 UK tax rates. This is
-              for informational purposes only.
+              Estimated tax liability based on net profit after disallowable expenses and capital allowances using {taxRates.label}{' '}
+              {TAX_REGION_LABELS[taxSettings.region]} tax rates. This is for informational purposes only.
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
+              <div className="flex justify-between text-sm font-semibold">
+                <span className="text-foreground">Taxable Profit</span>
+                <span className="tabular-nums text-foreground">{formatCurrency(taxEstimate.taxableProfit)}</span>
+              </div>
+
               {/* Income Tax breakdown */}
               <div>
                 <h4 className="text-sm font-semibold text-foreground mb-2">Income Tax</h4>
@@ -810,28 +1249,16 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
                       {formatCurrency(taxEstimate.personalAllowance)}
                     </span>
                   </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">
-                      Basic Rate (20% up to {formatCurrency(50270)})
-                    </span>
-                    <span className="tabular-nums text-foreground">
-                      {formatCurrency(taxEstimate.basicRate)}
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">
-                      Higher Rate (40% up to {formatCurrency(125140)})
-                    </span>
-                    <span className="tabular-nums text-foreground">
-                      {formatCurrency(taxEstimate.higherRate)}
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Additional Rate (45% above)</span>
-                    <span className="tabular-nums text-foreground">
-                      {formatCurrency(taxEstimate.additionalRate)}
-                    </span>
-                  </div>
+                  {taxEstimate.bands.map((band) => (
+                    <div key={band.name} className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        {band.name} ({formatRate(band.rate)} on {formatCurrency(band.income)})
+                      </span>
+                      <span className="tabular-nums text-foreground">
+                        {formatCurrency(band.tax)}
+                      </span>
+                    </div>
+                  ))}
                   <div className="flex justify-between text-sm font-semibold border-t border-border pt-1 mt-1">
                     <span className="text-foreground">Total Income Tax</span>
                     <span className="tabular-nums text-amber-600 dark:text-amber-400">
@@ -849,8 +1276,10 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
                 <div className="space-y-1">
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">
-                      Class 4 NICs (9% on {formatCurrency(12570)}&ndash;{formatCurrency(50270)}, 2%
-                      above)
+                      Class 4 NICs ({formatRate(taxRates.class4.mainRate)} on{' '}
+                      {formatCurrency(taxRates.class4.lowerProfitsLimit)}&ndash;
+                      {formatCurrency(taxRates.class4.upperProfitsLimit)},{' '}
+                      {formatRate(taxRates.class4.additionalRate)} above)
                     </span>
                     <span className="tabular-nums text-foreground">
                       {formatCurrency(taxEstimate.class4Nics)}
@@ -858,7 +1287,9 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">
-                      Class 2 NICs ({formatCurrency(3.45)}/week)
+                      {taxRates.class2
+                        ? `Class 2 NICs (${formatCurrency(taxRates.class2.weeklyRate)}/week)`
+                        : 'Class 2 NICs (no longer compulsory)'}
                     </span>
                     <span className="tabular-nums text-foreground">
                       {formatCurrency(taxEstimate.class2Nics)}
@@ -877,13 +1308,23 @@ export function SelfAssessmentReport({ className }: SelfAssessmentReportProps) {
                 </span>
               </div>
 
+              <Link
+                href="/reports/tax/tax-calendar"
+                className="flex items-center gap-1 text-sm text-primary font-medium hover:underline print:hidden"
+              >
+                <CalendarClock className="h-4 w-4" />
+                Payment dates, payments on account and tax pot
+              </Link>
+
               {/* Disclaimer */}
               <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900/50 print:bg-amber-50">
                 <AlertCircle className="h-4 w-4 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
                 <p className="text-xs text-amber-800 dark:text-amber-300">
-                  This is an estimate only based on 2024&ndash;25 UK tax rates. It does not account
-                  for other income sources, reliefs, or allowances. Consult your accountant for
-                  actual tax liability.
+                  {ratesAssumed &&
+                    `Rates for ${activeTaxYear.label} haven't been added yet, so ${taxRates.label} rates are used. `}
+                  This is an estimate only based on {taxRates.label} tax rates. It does not account
+                  for other income sources or reliefs beyond the capital allowances above. Consult your
+                  accountant for actual tax liability.
                 </p>
               </div>
             </div>
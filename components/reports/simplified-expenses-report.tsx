@@ -0,0 +1,452 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { addMonths, format, parseISO } from 'date-fns';
+import { Download, Plus, Printer, Receipt, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MileageTripFormDialog } from '@/components/simplified-expenses/mileage-trip-form-dialog';
+import { GenerateTransactionsDialog } from '@/components/simplified-expenses/generate-transactions-dialog';
+import {
+  useSimplifiedExpenseMutations,
+  useSimplifiedExpenses,
+  type MileageTripFormData,
+} from '@/hooks/use-simplified-expenses';
+import { taxYearLabel, taxYearStartYear } from '@/lib/capital-allowances';
+import { formatCurrency, formatDate } from '@/lib/formatting';
+import {
+  MILEAGE_RATES,
+  SIMPLIFIED_EXPENSE_LABELS,
+  USE_OF_HOME_RATES,
+  type SimplifiedExpenseKind,
+  type UseOfHomeClaimLine,
+} from '@/lib/simplified-expenses';
+import { toast } from 'sonner';
+
+interface SimplifiedExpensesReportProps {
+  className?: string;
+}
+
+interface EntryToDelete {
+  kind: SimplifiedExpenseKind;
+  id: string;
+  transactionId: string | null;
+  label: string;
+}
+
+const TAX_YEARS_SHOWN = 6;
+
+function UseOfHomeHoursInput({ month, line }: { month: string; line?: UseOfHomeClaimLine }) {
+  const { saveUseOfHomeMonth } = useSimplifiedExpenseMutations();
+  const [hours, setHours] = useState('');
+
+  useEffect(() => {
+    setHours(line ? String(line.hours) : '');
+  }, [line]);
+
+  const handleBlur = () => {
+    const value = parseFloat(hours);
+    if (isNaN(value) || value < 0 || value === line?.hours) return;
+    saveUseOfHomeMonth.mutate({ month, hours: Math.round(value * 10) / 10 });
+  };
+
+  return (
+    <Input
+      type="number"
+      min={0}
+      step="0.5"
+      value={hours}
+      onChange={(e) => setHours(e.target.value)}
+      onBlur={handleBlur}
+      placeholder="0"
+      className="h-8 w-24 ml-auto text-right tabular-nums"
+      aria-label={`Hours worked at home in ${format(parseISO(month), 'MMMM yyyy')}`}
+      // A generated month's transaction holds the amount, so the hours are fixed until it's deleted
+      disabled={!!line?.month.transaction_id || saveUseOfHomeMonth.isPending}
+    />
+  );
+}
+
+export function SimplifiedExpensesReport({ className }: SimplifiedExpensesReportProps) {
+  const currentStartYear = useMemo(() => taxYearStartYear(format(new Date(), 'yyyy-MM-dd')), []);
+  const [startYear, setStartYear] = useState(currentStartYear);
+  const [isAddTripOpen, setIsAddTripOpen] = useState(false);
+  const [generateKind, setGenerateKind] = useState<SimplifiedExpenseKind | null>(null);
+  const [entryToDelete, setEntryToDelete] = useState<EntryToDelete | null>(null);
+
+  const { data: summary, isLoading, error } = useSimplifiedExpenses(startYear);
+  const { addTrip, deleteEntry, generateTransactions } = useSimplifiedExpenseMutations();
+
+  // April to March, whether or not hours have been entered
+  const months = useMemo(
+    () => Array.from({ length: 12 }, (_, i) => format(addMonths(new Date(startYear, 3, 1), i), 'yyyy-MM-dd')),
+    [startYear],
+  );
+
+  const mileage = summary?.mileage;
+  const useOfHome = summary?.useOfHome;
+  const totalClaim = (mileage?.amount ?? 0) + (useOfHome?.amount ?? 0);
+  const totalOutstanding = (mileage?.outstandingAmount ?? 0) + (useOfHome?.outstandingAmount ?? 0);
+
+  const pendingCount = (kind: SimplifiedExpenseKind) =>
+    kind === 'mileage'
+      ? (mileage?.lines ?? []).filter(line => !line.trip.transaction_id && line.amount > 0).length
+      : (useOfHome?.lines ?? []).filter(line => !line.month.transaction_id && line.amount > 0).length;
+
+  const handleAddTrip = async (data: MileageTripFormData) => {
+    try {
+      await addTrip.mutateAsync(data);
+      setIsAddTripOpen(false);
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to add mileage trip:', error);
+    }
+  };
+
+  const handleGenerate = async (categoryId: string) => {
+    if (!generateKind || !summary) return;
+    try {
+      await generateTransactions.mutateAsync({ kind: generateKind, summary, categoryId });
+      setGenerateKind(null);
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to generate simplified expense transactions:', error);
+    }
+  };
+
+  const handleExport = () => {
+    if (!mileage || !useOfHome || (mileage.lines.length === 0 && useOfHome.lines.length === 0)) {
+      toast.error('No data to export');
+      return;
+    }
+
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const lines: string[] = [];
+    lines.push(`Simplified Expenses - Tax Year ${taxYearLabel(startYear)}`);
+    lines.push('');
+    lines.push('MILEAGE LOG');
+    lines.push('Date,Purpose,From,To,Miles,Miles at 45p,Miles at 25p,Claim,Generated');
+    mileage.lines.forEach(line => {
+      lines.push([
+        line.trip.trip_date,
+        quote(line.trip.purpose),
+        quote(line.trip.from_location),
+        quote(line.trip.to_location),
+        line.miles,
+        line.higherRateMiles,
+        line.lowerRateMiles,
+        line.amount.toFixed(2),
+        line.trip.transaction_id ? 'Yes' : 'No',
+      ].join(','));
+    });
+    lines.push(`Total,,,,${mileage.totalMiles},${mileage.higherRateMiles},${mileage.lowerRateMiles},${mileage.amount.toFixed(2)},`);
+    lines.push('');
+    lines.push('USE OF HOME');
+    lines.push('Month,Hours,Claim,Generated');
+    useOfHome.lines.forEach(line => {
+      lines.push(`${line.month.month.slice(0, 7)},${line.hours},${line.amount.toFixed(2)},${line.month.transaction_id ? 'Yes' : 'No'}`);
+    });
+    lines.push(`Total,,${useOfHome.amount.toFixed(2)},`);
+    lines.push('');
+    lines.push(`Total claim,,${totalClaim.toFixed(2)},`);
+
+    const csv = lines.join('\n');
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `simplified-expenses-${taxYearLabel(startYear)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success('Simplified expenses exported');
+  };
+
+  const generateButton = (kind: SimplifiedExpenseKind) => (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => setGenerateKind(kind)}
+      disabled={pendingCount(kind) === 0}
+      className="print:hidden"
+    >
+      <Receipt className="w-4 h-4 mr-2" />
+      Generate Transactions
+    </Button>
+  );
+
+  const loadingRows = (
+    <div className="space-y-2">
+      {Array.from({ length: 4 }).map((_, i) => (
+        <div key={i} className="h-8 bg-muted rounded animate-pulse" />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      {/* Controls */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-end gap-4 print:hidden">
+        <div className="space-y-1">
+          <Label htmlFor="simplified-expenses-year" className="text-xs">Tax year</Label>
+          <Select value={String(startYear)} onValueChange={(value) => setStartYear(parseInt(value, 10))}>
+            <SelectTrigger id="simplified-expenses-year" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: TAX_YEARS_SHOWN }, (_, i) => currentStartYear - i).map(year => (
+                <SelectItem key={year} value={String(year)}>{taxYearLabel(year)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2 sm:ml-auto">
+          <Button size="sm" onClick={() => setIsAddTripOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Trip
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={!summary}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-destructive font-medium text-center py-12">Failed to load simplified expenses</p>
+      ) : (
+        <>
+          {/* Claim summary */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Claim for {taxYearLabel(startYear)}</CardTitle>
+              <CardDescription>
+                Flat-rate amounts HMRC allows instead of working out actual costs. Anything not generated as
+                transactions is added to the Self Assessment report as its own expense line.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">{SIMPLIFIED_EXPENSE_LABELS.mileage}</p>
+                  <p className="text-2xl font-bold tabular-nums">{formatCurrency(mileage?.amount ?? 0)}</p>
+                  <p className="text-xs text-muted-foreground">{(mileage?.totalMiles ?? 0).toLocaleString('en-GB')} miles</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">{SIMPLIFIED_EXPENSE_LABELS.use_of_home}</p>
+                  <p className="text-2xl font-bold tabular-nums">{formatCurrency(useOfHome?.amount ?? 0)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {(useOfHome?.lines ?? []).filter(line => line.amount > 0).length} qualifying months
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Total claim</p>
+                  <p className="text-2xl font-bold tabular-nums">{formatCurrency(totalClaim)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(totalOutstanding)} not generated as transactions
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Mileage log */}
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>Mileage Log</CardTitle>
+                <CardDescription>
+                  {MILEAGE_RATES.higherRate * 100}p a mile for the first{' '}
+                  {MILEAGE_RATES.higherRateMiles.toLocaleString('en-GB')} business miles of the tax year, then{' '}
+                  {MILEAGE_RATES.lowerRate * 100}p. Trips are counted in date order, so a trip crossing the
+                  threshold is split between the two rates.
+                </CardDescription>
+              </div>
+              {generateButton('mileage')}
+            </CardHeader>
+            <CardContent>
+              {isLoading || !mileage ? loadingRows : mileage.lines.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-12">
+                  No business trips logged in this tax year.
+                </p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-muted-foreground border-b">
+                      <th className="py-2 text-left font-medium">Date</th>
+                      <th className="py-2 text-left font-medium">Purpose</th>
+                      <th className="py-2 text-left font-medium">Route</th>
+                      <th className="py-2 text-right font-medium">Miles</th>
+                      <th className="py-2 text-right font-medium">At {MILEAGE_RATES.higherRate * 100}p</th>
+                      <th className="py-2 text-right font-medium">At {MILEAGE_RATES.lowerRate * 100}p</th>
+                      <th className="py-2 text-right font-medium">Claim</th>
+                      <th className="py-2 text-right font-medium print:hidden"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {mileage.lines.map(line => (
+                      <tr key={line.trip.id} className="border-b">
+                        <td className="py-2">{formatDate(line.trip.trip_date)}</td>
+                        <td className="py-2">
+                          {line.trip.purpose}
+                          {line.trip.transaction_id && (
+                            <Badge variant="outline" className="ml-2 text-xs">Generated</Badge>
+                          )}
+                        </td>
+                        <td className="py-2 text-muted-foreground">
+                          {line.trip.from_location} &rarr; {line.trip.to_location}
+                        </td>
+                        <td className="py-2 text-right tabular-nums">{line.miles.toLocaleString('en-GB')}</td>
+                        <td className="py-2 text-right tabular-nums">{line.higherRateMiles.toLocaleString('en-GB')}</td>
+                        <td className="py-2 text-right tabular-nums">{line.lowerRateMiles.toLocaleString('en-GB')}</td>
+                        <td className="py-2 text-right tabular-nums font-semibold">{formatCurrency(line.amount)}</td>
+                        <td className="py-2 text-right print:hidden">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEntryToDelete({
+                              kind: 'mileage',
+                              id: line.trip.id,
+                              transactionId: line.trip.transaction_id,
+                              label: `the trip on ${formatDate(line.trip.trip_date)}`,
+                            })}
+                            className="h-7 px-2 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                    <tr className="border-t-2 border-foreground/20 font-semibold">
+                      <td className="py-2" colSpan={3}>Total</td>
+                      <td className="py-2 text-right tabular-nums">{mileage.totalMiles.toLocaleString('en-GB')}</td>
+                      <td className="py-2 text-right tabular-nums">{mileage.higherRateMiles.toLocaleString('en-GB')}</td>
+                      <td className="py-2 text-right tabular-nums">{mileage.lowerRateMiles.toLocaleString('en-GB')}</td>
+                      <td className="py-2 text-right tabular-nums">{formatCurrency(mileage.amount)}</td>
+                      <td className="print:hidden"></td>
+                    </tr>
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Use of home */}
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>Use of Home</CardTitle>
+                <CardDescription>
+                  Hours worked at home each month:{' '}
+                  {[...USE_OF_HOME_RATES].reverse().map((rate, i, rates) => {
+                    const next = rates[i + 1];
+                    const range = next ? `${rate.minHours}-${next.minHours - 1}` : `${rate.minHours}+`;
+                    return `${range} hours ${formatCurrency(rate.monthlyAmount)}`;
+                  }).join(', ')}. Fewer than {USE_OF_HOME_RATES[USE_OF_HOME_RATES.length - 1].minHours} hours
+                  can&apos;t be claimed.
+                </CardDescription>
+              </div>
+              {generateButton('use_of_home')}
+            </CardHeader>
+            <CardContent>
+              {isLoading || !useOfHome ? loadingRows : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-muted-foreground border-b">
+                      <th className="py-2 text-left font-medium">Month</th>
+                      <th className="py-2 text-right font-medium">Hours</th>
+                      <th className="py-2 text-right font-medium">Claim</th>
+                      <th className="py-2 text-right font-medium print:hidden"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {months.map(month => {
+                      const line = useOfHome.lines.find(l => l.month.month === month);
+                      return (
+                        <tr key={month} className="border-b">
+                          <td className="py-2">
+                            {format(parseISO(month), 'MMMM yyyy')}
+                            {line?.month.transaction_id && (
+                              <Badge variant="outline" className="ml-2 text-xs">Generated</Badge>
+                            )}
+                          </td>
+                          <td className="py-1 text-right">
+                            <UseOfHomeHoursInput month={month} line={line} />
+                          </td>
+                          <td className="py-2 text-right tabular-nums font-semibold">
+                            {formatCurrency(line?.amount ?? 0)}
+                          </td>
+                          <td className="py-2 text-right print:hidden">
+                            {line && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setEntryToDelete({
+                                  kind: 'use_of_home',
+                                  id: line.month.id,
+                                  transactionId: line.month.transaction_id,
+                                  label: `the hours for ${format(parseISO(month), 'MMMM yyyy')}`,
+                                })}
+                                className="h-7 px-2 text-destructive hover:text-destructive"
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                    <tr className="border-t-2 border-foreground/20 font-semibold">
+                      <td className="py-2" colSpan={2}>Total</td>
+                      <td className="py-2 text-right tabular-nums">{formatCurrency(useOfHome.amount)}</td>
+                      <td className="print:hidden"></td>
+                    </tr>
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <MileageTripFormDialog
+        open={isAddTripOpen}
+        onOpenChange={setIsAddTripOpen}
+        onSubmit={handleAddTrip}
+        isSubmitting={addTrip.isPending}
+      />
+
+      <GenerateTransactionsDialog
+        kind={generateKind}
+        count={generateKind ? pendingCount(generateKind) : 0}
+        amount={generateKind === 'mileage' ? mileage?.outstandingAmount ?? 0 : useOfHome?.outstandingAmount ?? 0}
+        onOpenChange={(open) => !open && setGenerateKind(null)}
+        onSubmit={handleGenerate}
+        isSubmitting={generateTransactions.isPending}
+      />
+
+      <ConfirmationDialog
+        isOpen={!!entryToDelete}
+        onClose={() => setEntryToDelete(null)}
+        onConfirm={() => entryToDelete && deleteEntry.mutate(entryToDelete)}
+        title="Delete Entry"
+        description={
+          entryToDelete?.transactionId
+            ? `Delete ${entryToDelete.label}? Its generated expenditure transaction is deleted too.`
+            : `Delete ${entryToDelete?.label}?`
+        }
+        confirmText="Delete"
+        variant="destructive"
+        isLoading={deleteEntry.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, CalendarClock, PiggyBank, Calculator, Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useTaxCalendar } from '@/hooks/use-tax-calendar';
+import { useTaxSettings } from '@/hooks/use-tax-settings';
+import { taxYearLabel } from '@/lib/capital-allowances';
+import { formatCurrency, formatDate, formatPercentage } from '@/lib/formatting';
+import { PAYMENT_ON_ACCOUNT_THRESHOLD, TAX_PAYMENT_LABELS } from '@/lib/tax-calendar';
+import { TAX_REGION_LABELS } from '@/lib/tax-rates';
+
+interface TaxCalendarReportProps {
+  className?: string;
+}
+
+export function TaxCalendarReport({ className }: TaxCalendarReportProps) {
+  const { settings: taxSettings } = useTaxSettings();
+  const { data, isLoading, error } = useTaxCalendar(taxSettings.region);
+
+  if (isLoading) {
+    return (
+      <div className={`space-y-6 ${className || ''}`}>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-28 bg-muted rounded-lg animate-pulse" />
+          ))}
+        </div>
+        <div className="h-64 bg-muted rounded-lg animate-pulse" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className={className}>
+        <p className="text-destructive font-medium text-center py-12">Failed to load the tax calendar</p>
+      </div>
+    );
+  }
+
+  const forecast = data.liabilities.find(liability => liability.startYear === data.currentStartYear)!;
+  const nextDate = data.dates.find(date => !date.isPast && date.total > 0);
+  const { taxPot, reduction } = data;
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">
+                  Forecast bill {taxYearLabel(data.currentStartYear)}
+                </p>
+                <p className="text-2xl font-bold tabular-nums text-amber-600 dark:text-amber-400">
+                  {formatCurrency(forecast.estimate.totalTax)}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  On {formatCurrency(forecast.taxableProfit)} projected taxable profit
+                </p>
+              </div>
+              <div className="p-3 bg-amber-100 dark:bg-amber-950/50 rounded-lg">
+                <Calculator className="h-6 w-6 text-amber-600 dark:text-amber-400" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Next payment</p>
+                <p className="text-2xl font-bold tabular-nums">
+                  {nextDate ? formatCurrency(nextDate.total) : '---'}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {nextDate ? `Due ${formatDate(nextDate.dueDate)}` : 'Nothing due in the calendar'}
+                </p>
+              </div>
+              <div className="p-3 bg-blue-100 dark:bg-blue-950/50 rounded-lg">
+                <CalendarClock className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Tax pot so far</p>
+                <p className="text-2xl font-bold tabular-nums text-emerald-600 dark:text-emerald-400">
+                  {formatCurrency(taxPot.totalSetAside)}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatPercentage(taxPot.rate * 100)} of each month&apos;s profit
+                </p>
+              </div>
+              <div className="p-3 bg-emerald-100 dark:bg-emerald-950/50 rounded-lg">
+                <PiggyBank className="h-6 w-6 text-emerald-600 dark:text-emerald-400" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {reduction && (
+        <div className="flex items-start gap-3 rounded-lg border border-amber-500/25 bg-amber-500/10 p-4 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+          <div className="space-y-1">
+            <p className="font-semibold">Consider reducing your payments on account for {taxYearLabel(reduction.startYear)}</p>
+            <p>
+              HMRC will ask for {formatCurrency(reduction.currentPayment)} twice, based on last year&apos;s bill, but
+              this year&apos;s forecast only needs {formatCurrency(reduction.suggestedPayment)} each
+              {reduction.suggestedPayment === 0 && ` (under the ${formatCurrency(PAYMENT_ON_ACCOUNT_THRESHOLD)} threshold)`}.
+              Reducing them (form SA303 or in your online account) would keep {formatCurrency(reduction.saving)} in
+              the business until the balancing payment. If the final bill turns out higher, HMRC charges interest on
+              the difference.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Payment calendar */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Payment Calendar
+          </CardTitle>
+          <CardDescription>
+            Self Assessment payments for {taxYearLabel(data.currentStartYear)} and{' '}
+            {taxYearLabel(data.currentStartYear + 1)}. Payments on account are each half of the previous
+            year&apos;s income tax and Class 4 NICs, and aren&apos;t due when that was under{' '}
+            {formatCurrency(PAYMENT_ON_ACCOUNT_THRESHOLD)}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.dates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">
+              No Self Assessment payments expected for these tax years.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground border-b">
+                  <th className="py-2 text-left font-medium">Due</th>
+                  <th className="py-2 text-left font-medium">Payment</th>
+                  <th className="py-2 text-left font-medium">Tax year</th>
+                  <th className="py-2 text-right font-medium">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.dates.map(date => (
+                  date.payments.map((payment, index) => (
+                    <tr
+                      key={`${date.dueDate}-${payment.kind}`}
+                      className={`${index === date.payments.length - 1 ? 'border-b' : ''} ${date.isPast ? 'text-muted-foreground' : ''}`}
+                    >
+                      <td className="py-2 align-top">
+                        {index === 0 && (
+                          <div className="space-y-1">
+                            <p className="font-medium">{formatDate(date.dueDate)}</p>
+                            <div className="flex gap-1">
+                              {date.isPast && <Badge variant="outline" className="text-xs">Past</Badge>}
+                              {date.isEstimate && <Badge variant="secondary" className="text-xs">Estimate</Badge>}
+                            </div>
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        {TAX_PAYMENT_LABELS[payment.kind]}
+                        {payment.amount < 0 && <span className="text-muted-foreground"> (overpaid - refund due)</span>}
+                      </td>
+                      <td className="py-2">{taxYearLabel(payment.startYear)}</td>
+                      <td className="py-2 text-right tabular-nums font-semibold">{formatCurrency(payment.amount)}</td>
+                    </tr>
+                  ))
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Liabilities behind the calendar */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calculator className="h-5 w-5" />
+            Tax by Year
+          </CardTitle>
+          <CardDescription>
+            Estimated bills at {TAX_REGION_LABELS[taxSettings.region]} rates, after capital allowances, disallowable
+            expenses and simplified expenses. The current year is projected from the profit so far; the next is
+            assumed to match it. Assumes no other income.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground border-b">
+                <th className="py-2 text-left font-medium">Tax year</th>
+                <th className="py-2 text-right font-medium">Taxable profit</th>
+                <th className="py-2 text-right font-medium">Income tax</th>
+                <th className="py-2 text-right font-medium">Class 4 NICs</th>
+                <th className="py-2 text-right font-medium">Class 2 NICs</th>
+                <th className="py-2 text-right font-medium">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.liabilities.map(liability => (
+                <tr key={liability.startYear} className="border-b">
+                  <td className="py-2">
+                    {taxYearLabel(liability.startYear)}
+                    {liability.isForecast && <Badge variant="secondary" className="ml-2 text-xs">Forecast</Badge>}
+                  </td>
+                  <td className="py-2 text-right tabular-nums">{formatCurrency(liability.taxableProfit)}</td>
+                  <td className="py-2 text-right tabular-nums">{formatCurrency(liability.estimate.totalIncomeTax)}</td>
+                  <td className="py-2 text-right tabular-nums">{formatCurrency(liability.estimate.class4Nics)}</td>
+                  <td className="py-2 text-right tabular-nums">{formatCurrency(liability.estimate.class2Nics)}</td>
+                  <td className="py-2 text-right tabular-nums font-semibold">{formatCurrency(liability.estimate.totalTax)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {/* Tax pot */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Tax Pot
+          </CardTitle>
+          <CardDescription>
+            Put aside {formatPercentage(taxPot.rate * 100)} of each month&apos;s profit - the forecast bill as a
+            share of the forecast profit - or {formatCurrency(taxPot.suggestedMonthly)} a month to cover{' '}
+            {taxYearLabel(data.currentStartYear)} evenly.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {taxPot.months.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">
+              No income or expenses recorded in this tax year yet.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground border-b">
+                  <th className="py-2 text-left font-medium">Month</th>
+                  <th className="py-2 text-right font-medium">Profit</th>
+                  <th className="py-2 text-right font-medium">Set aside</th>
+                </tr>
+              </thead>
+              <tbody>
+                {taxPot.months.map(month => (
+                  <tr key={month.month} className="border-b">
+                    <td className="py-2">{format(parseISO(`${month.month}-01`), 'MMMM yyyy')}</td>
+                    <td className={`py-2 text-right tabular-nums ${month.profit < 0 ? 'text-rose-600 dark:text-rose-400' : ''}`}>
+                      {formatCurrency(month.profit)}
+                    </td>
+                    <td className="py-2 text-right tabular-nums font-semibold">{formatCurrency(month.setAside)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t-2 border-foreground/20 font-semibold">
+                  <td className="py-2">Year to date</td>
+                  <td className="py-2 text-right tabular-nums">{formatCurrency(taxPot.totalProfit)}</td>
+                  <td className="py-2 text-right tabular-nums">{formatCurrency(taxPot.totalSetAside)}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { isValidPeriodKey, isValidVrn } from '@/lib/mtd-vat';
+import type { VatPeriod } from '@/lib/vat';
+
+interface VatReturnFinaliseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  period: VatPeriod;
+  defaultVrn: string;
+  onSubmit: (data: { vrn: string; periodKey: string }) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+export function VatReturnFinaliseDialog({
+  open,
+  onOpenChange,
+  period,
+  defaultVrn,
+  onSubmit,
+  isSubmitting = false,
+}: VatReturnFinaliseDialogProps) {
+  const [vrn, setVrn] = useState('');
+  const [periodKey, setPeriodKey] = useState('');
+  const [declared, setDeclared] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setVrn(defaultVrn);
+    setPeriodKey('');
+    setDeclared(false);
+    setError('');
+  }, [open, defaultVrn]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const cleanVrn = vrn.replace(/\s+/g, '').replace(/^GB/i, '');
+    const cleanPeriodKey = periodKey.trim().toUpperCase();
+    if (!isValidVrn(cleanVrn)) {
+      setError('VAT registration number must be 9 digits');
+      return;
+    }
+    if (!isValidPeriodKey(cleanPeriodKey)) {
+      setError('Period key must be the 4 characters HMRC gives for this obligation, e.g. 24A1');
+      return;
+    }
+    if (!declared) {
+      setError('Confirm the declaration to finalise the return');
+      return;
+    }
+
+    await onSubmit({ vrn: cleanVrn, periodKey: cleanPeriodKey });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            Finalise VAT Return
+          </DialogTitle>
+          <DialogDescription>
+            {period.label}. The boxes are fixed as they are now, every transaction in the period is locked and no
+            new ones can be dated in it until the return is reopened.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vat-vrn">VAT Registration Number</Label>
+              <Input
+                id="vat-vrn"
+                value={vrn}
+                onChange={(e) => setVrn(e.target.value)}
+                placeholder="123456789"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vat-period-key">Period Key</Label>
+              <Input
+                id="vat-period-key"
+                value={periodKey}
+                onChange={(e) => setPeriodKey(e.target.value)}
+                placeholder="e.g. 24A1"
+                maxLength={4}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+            <Label htmlFor="vat-declaration" className="text-sm font-normal leading-snug">
+              When I submit this VAT information I am making a legal declaration that the information is
+              true and complete.
+            </Label>
+            <Switch
+              id="vat-declaration"
+              checked={declared}
+              onCheckedChange={setDeclared}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Finalising...' : 'Finalise Return'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,484 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, CheckCircle2, ChevronRight, Download, Lock, Printer, RefreshCw, Send, Unlock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TransactionDrillDown } from '@/components/reports/transaction-drill-down';
+import { VatReturnFinaliseDialog } from '@/components/reports/vat-return-finalise-dialog';
+import { useVatReturn, useVatSettings } from '@/hooks/use-vat';
+import { useVatReturnMutations, useVatReturns } from '@/hooks/use-vat-returns';
+import { formatCurrency, formatDate } from '@/lib/formatting';
+import {
+  VAT_SCHEME_LABELS,
+  VAT_TREATMENT_LABELS,
+  getVatQuarters,
+  type VatScheme,
+  type VatStagger,
+} from '@/lib/vat';
+import {
+  DERIVED_VAT_BOXES,
+  VAT_BOX_LABELS,
+  VatReturnCalculator,
+  type VatBoxNumber,
+  type VatReturnRow,
+} from '@/lib/vat-return';
+import { vatReturnBoxes, type VatReturnRecord } from '@/lib/vat-returns';
+import type { DrillDownContext, TransactionDetail } from '@/lib/reports-types';
+import { toast } from 'sonner';
+
+interface VatReturnReportProps {
+  className?: string;
+}
+
+const BOX_NUMBERS: VatBoxNumber[] = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+const STAGGER_LABELS: Record<VatStagger, string> = {
+  1: 'Mar, Jun, Sep, Dec',
+  2: 'Apr, Jul, Oct, Jan',
+  3: 'May, Aug, Nov, Feb',
+};
+
+/** Boxes 6-9 are reported in whole pounds */
+const formatBox = (box: VatBoxNumber, value: number) =>
+  box >= 6 ? formatCurrency(value).replace(/\.\d{2}$/, '') : formatCurrency(value);
+
+const categoryName = (row: VatReturnRow) => {
+  const category = Array.isArray(row.categories) ? row.categories[0] : row.categories;
+  return category?.name ?? 'Uncategorized';
+};
+
+export function VatReturnReport({ className }: VatReturnReportProps) {
+  const { settings, saveSettings, isSaving } = useVatSettings();
+  const quarters = useMemo(() => getVatQuarters(settings.stagger), [settings.stagger]);
+  const [selectedQuarter, setSelectedQuarter] = useState(0);
+  const [flatRateInput, setFlatRateInput] = useState<string | null>(null);
+  const [drillDownContext, setDrillDownContext] = useState<DrillDownContext | null>(null);
+  const [showFinaliseDialog, setShowFinaliseDialog] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<'submit' | 'reopen' | null>(null);
+
+  const period = quarters[selectedQuarter] ?? quarters[0];
+  const { data, isLoading, error, refetch } = useVatReturn(period, settings);
+  const { data: vatReturns = [] } = useVatReturns();
+  const { finaliseReturn, submitReturn, reopenReturn } = useVatReturnMutations();
+
+  // A finalised period shows its stored figures, not a recalculation
+  const record = vatReturns.find(r =>
+    r.period_start === format(period.start, 'yyyy-MM-dd') && r.period_end === format(period.end, 'yyyy-MM-dd')
+  );
+  const boxes = record ? vatReturnBoxes(record) : data?.boxes;
+
+  const toDetail = (row: VatReturnRow, amount: number, hierarchy: string): TransactionDetail => ({
+    id: row.id,
+    date: VatReturnCalculator.taxPoint(row, settings),
+    description: row.description || '',
+    amount,
+    category: categoryName(row),
+    categoryId: row.category_id || '',
+    hierarchy,
+    hierarchyId: '',
+    type: row.type === 'income' ? 'income' : 'expenditure',
+  });
+
+  const handleBoxClick = (box: VatBoxNumber) => {
+    if (record) return;
+    const contributions = data?.contributions[box];
+    if (!contributions?.length) return;
+
+    setDrillDownContext({
+      dateRange: { start: period.start, end: period.end },
+      type: box === 4 || box === 7 ? 'expenditure' : 'income',
+      categoryName: `Box ${box}`,
+      hierarchyName: VAT_BOX_LABELS[box],
+      transactions: contributions.map(({ row, vat, amount }) =>
+        toDetail(row, amount, `${VAT_TREATMENT_LABELS[vat.treatment]}${vat.rate > 0 ? ` (${vat.rate}%)` : ''}`)
+      ),
+    });
+  };
+
+  const handleUnassignedClick = () => {
+    if (!data?.unassigned.length) return;
+
+    setDrillDownContext({
+      dateRange: { start: period.start, end: period.end },
+      type: 'expenditure',
+      categoryName: 'No VAT treatment',
+      hierarchyName: 'Not included in the return',
+      transactions: data.unassigned.map(row => toDetail(row, Math.abs(Number(row.amount)), 'No VAT treatment')),
+    });
+  };
+
+  const handleSchemeChange = (scheme: string) => {
+    saveSettings({ ...settings, scheme: scheme as VatScheme });
+  };
+
+  const handleStaggerChange = (stagger: string) => {
+    setSelectedQuarter(0);
+    saveSettings({ ...settings, stagger: Number(stagger) as VatStagger });
+  };
+
+  const handleFlatRateBlur = () => {
+    if (flatRateInput === null) return;
+    const percentage = parseFloat(flatRateInput);
+    setFlatRateInput(null);
+    if (isNaN(percentage) || percentage < 0 || percentage > 100) {
+      toast.error('Flat rate percentage must be between 0 and 100');
+      return;
+    }
+    if (percentage !== settings.flatRatePercentage) {
+      saveSettings({ ...settings, flatRatePercentage: percentage });
+    }
+  };
+
+  const handleFinalise = async ({ vrn, periodKey }: { vrn: string; periodKey: string }) => {
+    if (vrn !== settings.vrn) {
+      saveSettings({ ...settings, vrn });
+    }
+    try {
+      await finaliseReturn.mutateAsync({ vrn, periodKey, period, settings });
+      setShowFinaliseDialog(false);
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to finalise VAT return:', error);
+    }
+  };
+
+  const handleConfirmAction = () => {
+    if (!record) return;
+    if (confirmAction === 'submit') submitReturn.mutate(record.id);
+    if (confirmAction === 'reopen') reopenReturn.mutate(record.id);
+  };
+
+  const handleExport = () => {
+    if (!boxes) {
+      toast.error('No data to export');
+      return;
+    }
+
+    const rows: string[] = [];
+    rows.push(`VAT Return - ${period.label}`);
+    rows.push(`Period: ${formatDate(period.start)} to ${formatDate(period.end)}`);
+    rows.push(`Scheme: ${VAT_SCHEME_LABELS[record?.scheme ?? settings.scheme]}`);
+    if (record) {
+      rows.push(`Period key: ${record.period_key}`);
+      rows.push(`Status: ${record.status}${record.receipt ? ` (form bundle ${record.receipt.formBundleNumber})` : ''}`);
+    }
+    rows.push('');
+    rows.push('Box,Description,Value');
+    BOX_NUMBERS.forEach(box => {
+      rows.push(`${box},"${VAT_BOX_LABELS[box]}",${boxes[box].toFixed(box >= 6 ? 0 : 2)}`);
+    });
+
+    const csv = rows.join('\n');
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `vat-return-${period.end.getFullYear()}-${String(period.end.getMonth() + 1).padStart(2, '0')}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success('VAT return exported');
+  };
+
+  const handleRefresh = () => {
+    refetch();
+    toast.success('Report refreshed');
+  };
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      {/* Controls */}
+      <div className="flex flex-col lg:flex-row items-start lg:items-end gap-4 print:hidden">
+        <div className="space-y-1 w-full lg:w-56">
+          <Label className="text-xs">VAT quarter</Label>
+          <Select value={String(selectedQuarter)} onValueChange={(value) => setSelectedQuarter(Number(value))}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select quarter" />
+            </SelectTrigger>
+            <SelectContent>
+              {quarters.map((quarter, index) => (
+                <SelectItem key={quarter.label} value={String(index)}>
+                  {quarter.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1 w-full lg:w-52">
+          <Label className="text-xs">Scheme</Label>
+          <Select value={settings.scheme} onValueChange={handleSchemeChange} disabled={isSaving}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(VAT_SCHEME_LABELS) as VatScheme[]).map(scheme => (
+                <SelectItem key={scheme} value={scheme}>{VAT_SCHEME_LABELS[scheme]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {settings.scheme === 'flat_rate' && (
+          <div className="space-y-1 w-full lg:w-32">
+            <Label htmlFor="flat-rate-percentage" className="text-xs">Flat rate (%)</Label>
+            <Input
+              id="flat-rate-percentage"
+              type="number"
+              step="0.1"
+              min="0"
+              max="100"
+              value={flatRateInput ?? String(settings.flatRatePercentage)}
+              onChange={(e) => setFlatRateInput(e.target.value)}
+              onBlur={handleFlatRateBlur}
+            />
+          </div>
+        )}
+        <div className="space-y-1 w-full lg:w-48">
+          <Label className="text-xs">Quarters end in</Label>
+          <Select value={String(settings.stagger)} onValueChange={handleStaggerChange} disabled={isSaving}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {([1, 2, 3] as VatStagger[]).map(stagger => (
+                <SelectItem key={stagger} value={String(stagger)}>{STAGGER_LABELS[stagger]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2 lg:ml-auto">
+          <Button variant="outline" size="sm" onClick={handleRefresh}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={!boxes}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+          {!record && (
+            <Button size="sm" onClick={() => setShowFinaliseDialog(true)} disabled={!data || finaliseReturn.isPending}>
+              <Lock className="w-4 h-4 mr-2" />
+              Finalise Period
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Print header (only visible when printing) */}
+      <div className="hidden print:block print:mb-6">
+        <h1 className="text-2xl font-bold">VAT Return</h1>
+        <p className="text-sm text-muted-foreground">
+          {formatDate(period.start)} to {formatDate(period.end)} &mdash; {VAT_SCHEME_LABELS[settings.scheme]}
+        </p>
+      </div>
+
+      {record && (
+        <VatReturnStatus
+          record={record}
+          onSubmit={() => setConfirmAction('submit')}
+          onReopen={() => setConfirmAction('reopen')}
+          isBusy={submitReturn.isPending || reopenReturn.isPending}
+        />
+      )}
+
+      {!record && data && data.unassigned.length > 0 && (
+        <button
+          type="button"
+          onClick={handleUnassignedClick}
+          className="w-full flex items-start gap-2 p-3 rounded-lg text-left bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900/50 print:hidden"
+        >
+          <AlertCircle className="h-4 w-4 text-amber-600 dark:text-amber-400 mt-0.5 shrink-0" />
+          <p className="text-sm text-amber-800 dark:text-amber-300">
+            {data.unassigned.length} transaction{data.unassigned.length === 1 ? ' has' : 's have'} no VAT
+            treatment and {data.unassigned.length === 1 ? 'is' : 'are'} left out of this return. Set a VAT default
+            on their categories or on the transactions themselves.
+          </p>
+          <ChevronRight className="h-4 w-4 text-amber-600 dark:text-amber-400 mt-0.5 ml-auto shrink-0" />
+        </button>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{period.label}</CardTitle>
+          <CardDescription>
+            {record
+              ? 'Figures as finalised for this period.'
+              : settings.scheme === 'cash'
+                ? 'Transactions are included by payment date. Click a box to see the transactions behind it.'
+                : 'Transactions are included by invoice date, or payment date where no invoice date is recorded. Click a box to see the transactions behind it.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && !record ? (
+            <div className="space-y-2">
+              {BOX_NUMBERS.map(box => (
+                <div key={box} className="h-12 bg-muted rounded animate-pulse" />
+              ))}
+            </div>
+          ) : error && !record ? (
+            <div className="text-center py-12">
+              <p className="text-destructive font-medium mb-2">Failed to load VAT return</p>
+              <Button variant="outline" onClick={handleRefresh}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Retry
+              </Button>
+            </div>
+          ) : boxes ? (
+            <div className="divide-y">
+              {BOX_NUMBERS.map(box => {
+                const isDerived = DERIVED_VAT_BOXES.includes(box);
+                const count = record ? 0 : data?.contributions[box]?.length ?? 0;
+                const value = boxes[box];
+                return (
+                  <button
+                    key={box}
+                    type="button"
+                    onClick={() => handleBoxClick(box)}
+                    disabled={isDerived || count === 0}
+                    className={`w-full flex items-center gap-4 py-3 px-2 text-left rounded-md enabled:hover:bg-muted/50 disabled:cursor-default ${
+                      isDerived ? 'bg-muted/30 font-semibold' : ''
+                    }`}
+                  >
+                    <span className="w-16 shrink-0 text-sm font-medium text-muted-foreground">Box {box}</span>
+                    <span className="flex-1 text-sm">
+                      {VAT_BOX_LABELS[box]}
+                      {count > 0 && (
+                        <span className="block text-xs text-muted-foreground">
+                          {count} transaction{count === 1 ? '' : 's'}
+                        </span>
+                      )}
+                    </span>
+                    <span
+                      className={`tabular-nums text-right ${
+                        box === 5 && value < 0 ? 'text-emerald-600 dark:text-emerald-400' : ''
+                      }`}
+                    >
+                      {formatBox(box, value)}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          ) : null}
+          {boxes && boxes[5] < 0 && (
+            <p className="text-xs text-muted-foreground mt-4">
+              A negative box 5 is a repayment due from HMRC.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {vatReturns.length > 0 && (
+        <Card className="print:hidden">
+          <CardHeader>
+            <CardTitle>Finalised Returns</CardTitle>
+            <CardDescription>Returns fixed for filing, latest period first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {vatReturns.map(vatReturn => (
+                <div key={vatReturn.id} className="flex items-center gap-4 py-3 text-sm">
+                  <span className="w-16 font-medium">{vatReturn.period_key}</span>
+                  <span className="flex-1 text-muted-foreground">
+                    {formatDate(vatReturn.period_start)} to {formatDate(vatReturn.period_end)}
+                  </span>
+                  <span className="tabular-nums">{formatCurrency(vatReturnBoxes(vatReturn)[5])}</span>
+                  <Badge variant={vatReturn.status === 'submitted' ? 'default' : 'secondary'} className="w-20 justify-center">
+                    {vatReturn.status === 'submitted' ? 'Submitted' : 'Finalised'}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <TransactionDrillDown context={drillDownContext} onClose={() => setDrillDownContext(null)} />
+
+      <VatReturnFinaliseDialog
+        open={showFinaliseDialog}
+        onOpenChange={setShowFinaliseDialog}
+        period={period}
+        defaultVrn={settings.vrn}
+        onSubmit={handleFinalise}
+        isSubmitting={finaliseReturn.isPending}
+      />
+
+      <ConfirmationDialog
+        isOpen={confirmAction !== null}
+        onClose={() => setConfirmAction(null)}
+        onConfirm={handleConfirmAction}
+        title={confirmAction === 'submit' ? 'Submit VAT Return to HMRC' : 'Reopen VAT Return'}
+        description={confirmAction === 'submit'
+          ? `Send return ${record?.period_key} for VRN ${record?.vrn}. Once HMRC accepts it the return can't be changed or reopened.`
+          : `Discard finalised return ${record?.period_key} and unlock its transactions. The boxes will be recalculated from the current transactions.`}
+        confirmText={confirmAction === 'submit' ? 'Submit Return' : 'Reopen Return'}
+        variant={confirmAction === 'reopen' ? 'destructive' : 'default'}
+      />
+    </div>
+  );
+}
+
+function VatReturnStatus({
+  record,
+  onSubmit,
+  onReopen,
+  isBusy,
+}: {
+  record: VatReturnRecord;
+  onSubmit: () => void;
+  onReopen: () => void;
+  isBusy: boolean;
+}) {
+  if (record.status === 'submitted' && record.receipt) {
+    return (
+      <div className="flex items-start gap-3 p-4 rounded-lg bg-emerald-50 dark:bg-emerald-950/30 border border-emerald-200 dark:border-emerald-900/50">
+        <CheckCircle2 className="h-5 w-5 text-emerald-600 dark:text-emerald-400 mt-0.5 shrink-0" />
+        <div className="text-sm space-y-1">
+          <p className="font-medium text-emerald-800 dark:text-emerald-300">
+            Submitted to HMRC - period {record.period_key}, VRN {record.vrn}
+          </p>
+          <p className="text-emerald-700 dark:text-emerald-400">
+            Form bundle {record.receipt.formBundleNumber}, processed {formatDate(record.receipt.processingDate)}
+            {record.receipt.chargeRefNumber && `, charge reference ${record.receipt.chargeRefNumber}`}
+            {record.receipt.paymentIndicator && ` (${record.receipt.paymentIndicator === 'DD' ? 'Direct Debit' : 'bank payment'})`}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-lg bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-900/50">
+      <Lock className="h-5 w-5 text-blue-600 dark:text-blue-400 shrink-0" />
+      <div className="flex-1 text-sm">
+        <p className="font-medium text-blue-800 dark:text-blue-300">
+          Finalised - period {record.period_key}, VRN {record.vrn}
+        </p>
+        <p className="text-blue-700 dark:text-blue-400">
+          Finalised {formatDate(record.finalised_at)}
+          {record.finalised_by_email && ` by ${record.finalised_by_email}`}. Its transactions are locked until it&apos;s reopened.
+        </p>
+      </div>
+      <div className="flex gap-2 print:hidden">
+        <Button variant="outline" size="sm" onClick={onReopen} disabled={isBusy}>
+          <Unlock className="w-4 h-4 mr-2" />
+          Reopen
+        </Button>
+        <Button size="sm" onClick={onSubmit} disabled={isBusy}>
+          <Send className="w-4 h-4 mr-2" />
+          Submit to HMRC
+        </Button>
+      </div>
+    </div>
+  );
+}
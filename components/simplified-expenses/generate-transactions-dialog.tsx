@@ -0,0 +1,107 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CategoryPicker } from '@/components/categories/category-picker';
+import { formatCurrency } from '@/lib/formatting';
+import { getSa103Line } from '@/lib/sa103';
+import {
+  SIMPLIFIED_EXPENSE_LABELS,
+  SIMPLIFIED_EXPENSE_SA103_LINES,
+  type SimplifiedExpenseKind,
+} from '@/lib/simplified-expenses';
+
+interface GenerateTransactionsDialogProps {
+  /** Claim to generate transactions for; the dialog is open while set */
+  kind: SimplifiedExpenseKind | null;
+  /** Number of trips or months not generated yet, and their total */
+  count: number;
+  amount: number;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (categoryId: string) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+export function GenerateTransactionsDialog({
+  kind,
+  count,
+  amount,
+  onOpenChange,
+  onSubmit,
+  isSubmitting = false,
+}: GenerateTransactionsDialogProps) {
+  const [categoryId, setCategoryId] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!kind) return;
+    setCategoryId('');
+    setError('');
+  }, [kind]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!categoryId) {
+      setError('Choose the expense category the transactions go in');
+      return;
+    }
+
+    await onSubmit(categoryId);
+  };
+
+  const unit = kind === 'mileage' ? (count === 1 ? 'trip' : 'trips') : (count === 1 ? 'month' : 'months');
+
+  return (
+    <Dialog open={!!kind} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Generate {kind ? SIMPLIFIED_EXPENSE_LABELS[kind] : ''} Transactions</DialogTitle>
+          <DialogDescription>
+            Adds one expenditure transaction for each of the {count} {unit} not generated yet, totalling{' '}
+            {formatCurrency(amount)}. They count as paid personally, so the bank balance doesn&apos;t change, and
+            the claim then comes through the category instead of as a separate line on the return.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Expense category</Label>
+            <CategoryPicker
+              type="expenditure"
+              value={categoryId || undefined}
+              onValueChange={setCategoryId}
+              placeholder="Select an expense category"
+            />
+            {kind && (
+              <p className="text-xs text-muted-foreground">
+                Map the category to &ldquo;{getSa103Line(SIMPLIFIED_EXPENSE_SA103_LINES[kind]).label}&rdquo; so the
+                claim stays in the right SA103 box.
+              </p>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Generating...' : 'Generate'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
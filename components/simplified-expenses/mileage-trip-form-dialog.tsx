@@ -0,0 +1,165 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { MILEAGE_RATES } from '@/lib/simplified-expenses';
+import type { MileageTripFormData } from '@/hooks/use-simplified-expenses';
+
+interface MileageTripFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: MileageTripFormData) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export function MileageTripFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  isSubmitting = false,
+}: MileageTripFormDialogProps) {
+  const [tripDate, setTripDate] = useState(today());
+  const [purpose, setPurpose] = useState('');
+  const [fromLocation, setFromLocation] = useState('');
+  const [toLocation, setToLocation] = useState('');
+  const [miles, setMiles] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setTripDate(today());
+    setPurpose('');
+    setFromLocation('');
+    setToLocation('');
+    setMiles('');
+    setError('');
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedMiles = parseFloat(miles);
+    if (!tripDate) {
+      setError('Trip date is required');
+      return;
+    }
+    if (!purpose.trim()) {
+      setError('Business purpose is required');
+      return;
+    }
+    if (!fromLocation.trim() || !toLocation.trim()) {
+      setError('Enter where the trip started and finished');
+      return;
+    }
+    if (isNaN(parsedMiles) || parsedMiles <= 0) {
+      setError('Miles must be more than zero');
+      return;
+    }
+
+    await onSubmit({
+      trip_date: tripDate,
+      purpose: purpose.trim(),
+      from_location: fromLocation.trim(),
+      to_location: toLocation.trim(),
+      miles: Math.round(parsedMiles * 10) / 10,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Trip</DialogTitle>
+          <DialogDescription>
+            Business journeys in your own car or van are claimed at {MILEAGE_RATES.higherRate * 100}p a mile for
+            the first {MILEAGE_RATES.higherRateMiles.toLocaleString('en-GB')} miles of the tax year and{' '}
+            {MILEAGE_RATES.lowerRate * 100}p after that.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="trip-date">Date</Label>
+              <Input
+                id="trip-date"
+                type="date"
+                value={tripDate}
+                onChange={(e) => setTripDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trip-miles">Miles</Label>
+              <Input
+                id="trip-miles"
+                type="number"
+                step="0.1"
+                min="0"
+                value={miles}
+                onChange={(e) => setMiles(e.target.value)}
+                className="tabular-nums"
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="trip-purpose">Purpose</Label>
+            <Input
+              id="trip-purpose"
+              value={purpose}
+              onChange={(e) => setPurpose(e.target.value)}
+              placeholder="e.g. Client meeting, Delivering stock"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="trip-from">From</Label>
+              <Input
+                id="trip-from"
+                value={fromLocation}
+                onChange={(e) => setFromLocation(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trip-to">To</Label>
+              <Input
+                id="trip-to"
+                value={toLocation}
+                onChange={(e) => setToLocation(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Add Trip'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,19 +12,42 @@ import { useCategorySuggestions } from '@/hooks/use-category-suggestions';
 import { useCategories } from '@/hooks/use-categories';
 import { StickyNote, Search, Download } from 'lucide-react';
 import { CSVExporter } from '@/lib/csv-export';
+import { buildQIF, downloadQIF } from '@/lib/qif';
 import { toast } from 'sonner';
+import type { VatTreatment } from '@/lib/vat';
+import type { CapitalAllowancePool } from '@/lib/capital-allowances';
+import type { SimplifiedExpenseKind } from '@/lib/simplified-expenses';
 
 interface Transaction {
   id: string;
   description: string;
+  counterparty_name?: string | null;
+  remittance_info?: string | null;
   amount: number;
   transaction_date: string;
-  type: 'income' | 'expenditure' | 'capital';
+  type: 'income' | 'expenditure' | 'capital' | 'transfer';
+  transfer_direction?: 'in' | 'out' | null;
+  reconciled_session_id?: string | null;
+  vat_return_id?: string | null;
+  fixed_asset_id?: string | null;
+  capital_allowance_pool?: CapitalAllowancePool | null;
+  aia_eligible?: boolean;
+  business_use_percent?: number | null;
+  disallowable?: boolean;
+  simplified_expense?: SimplifiedExpenseKind | null;
+  vat_treatment?: VatTreatment | null;
+  vat_rate?: number | null;
+  vat_amount?: number | null;
+  tax_point_date?: string | null;
   category_id?: string;
   category?: {
     id: string;
     name: string;
     color: string;
+    vat_treatment?: VatTreatment | null;
+    vat_rate?: number | null;
+    business_use_percent?: number | null;
+    disallowable?: boolean;
   };
 }
 
@@ -116,8 +139,9 @@ export function EnhancedTransactionList({
     return metadata && (metadata.user_notes || metadata.extended_description || (metadata.tags && metadata.tags.length > 0));
   };
 
-  const formatAmount = (amount: number, type: string) => {
-    const prefix = type === 'expenditure' ? '-' : '';
+  const formatAmount = (transaction: Transaction) => {
+    const { amount, type } = transaction;
+    const prefix = type === 'expenditure' || transaction.transfer_direction === 'out' ? '-' : '';
     return `${prefix}£${Math.abs(amount).toFixed(2)}`;
   };
 
@@ -126,6 +150,7 @@ export function EnhancedTransactionList({
       case 'income': return 'bg-green-100 text-green-800';
       case 'expenditure': return 'bg-red-100 text-red-800';
       case 'capital': return 'bg-purple-100 text-purple-800';
+      case 'transfer': return 'bg-sky-100 text-sky-800';
       default: return 'bg-muted text-foreground';
     }
   };
@@ -168,6 +193,7 @@ export function EnhancedTransactionList({
                   <SelectItem value="income">Income</SelectItem>
                   <SelectItem value="expenditure">Expenditure</SelectItem>
                   <SelectItem value="capital">Capital</SelectItem>
+                  <SelectItem value="transfer">Transfer</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -237,28 +263,51 @@ export function EnhancedTransactionList({
               )}
             </div>
             
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => {
-                try {
-                  // Create enhanced transaction data with metadata
-                  const enhancedTransactions = filteredTransactions.map(transaction => ({
-                    ...transaction,
-                    metadata: getMetadataForTransaction(transaction.id)
-                  }));
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  try {
+                    // Create enhanced transaction data with metadata
+                    const enhancedTransactions = filteredTransactions.map(transaction => ({
+                      ...transaction,
+                      metadata: getMetadataForTransaction(transaction.id)
+                    }));
                   
-                  CSVExporter.exportTransactions(enhancedTransactions, 'filtered_transactions');
-                  toast.success(`Exported ${enhancedTransactions.length} transactions to CSV`);
-                } catch {
-                  toast.error('Failed to export transactions');
-                }
-              }}
-              className="flex items-center gap-2"
-            >
-              <Download className="h-4 w-4" />
-              Export CSV ({filteredTransactions.length})
-            </Button>
+                    CSVExporter.exportTransactions(enhancedTransactions, 'filtered_transactions');
+                    toast.success(`Exported ${enhancedTransactions.length} transactions to CSV`);
+                  } catch {
+                    toast.error('Failed to export transactions');
+                  }
+                }}
+                className="flex items-center gap-2"
+              >
+                <Download className="h-4 w-4" />
+                Export CSV ({filteredTransactions.length})
+              </Button>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  try {
+                    const qif = buildQIF(filteredTransactions.map(transaction => ({
+                      ...transaction,
+                      memo: getMetadataForTransaction(transaction.id)?.user_notes,
+                    })));
+                    downloadQIF(qif, 'filtered_transactions');
+                    toast.success(`Exported ${filteredTransactions.length} transactions to QIF`);
+                  } catch {
+                    toast.error('Failed to export transactions');
+                  }
+                }}
+                className="flex items-center gap-2"
+              >
+                <Download className="h-4 w-4" />
+                Export QIF
+              </Button>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -298,7 +347,25 @@ export function EnhancedTransactionList({
                         </Badge>
                       )}
                       
-                      {!transaction.category_id && (
+                      {transaction.reconciled_session_id && (
+                        <Badge variant="outline" className="text-xs text-emerald-600">
+                          Reconciled
+                        </Badge>
+                      )}
+
+                      {transaction.vat_return_id && (
+                        <Badge variant="outline" className="text-xs text-blue-600">
+                          VAT Locked
+                        </Badge>
+                      )}
+
+                      {transaction.fixed_asset_id && (
+                        <Badge variant="outline" className="text-xs text-violet-600">
+                          Fixed Asset
+                        </Badge>
+                      )}
+
+                      {!transaction.category_id && transaction.type !== 'transfer' && (
                         <Badge variant="outline" className="text-xs text-orange-600">
                           Needs Category
                         </Badge>
@@ -322,7 +389,7 @@ export function EnhancedTransactionList({
                     
                     <div className="text-right">
                       <p className="font-medium">
-                        {formatAmount(transaction.amount, transaction.type)}
+                        {formatAmount(transaction)}
                       </p>
                     </div>
                   </div>
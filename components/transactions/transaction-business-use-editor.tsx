@@ -0,0 +1,145 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Edit3, Percent } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBusinessUseMutations } from '@/hooks/use-business-use';
+import {
+  BUSINESS_USE_MODE_LABELS,
+  businessUseMode,
+  describeBusinessUse,
+  type BusinessUseMode,
+  type BusinessUseSettings,
+} from '@/lib/business-use';
+
+const USE_CATEGORY = 'category';
+
+interface TransactionBusinessUseEditorProps {
+  transaction: BusinessUseSettings & {
+    id: string;
+    category?: BusinessUseSettings & { name: string };
+  };
+  onUpdate?: () => void;
+}
+
+function transactionMode(transaction: BusinessUseSettings): string {
+  if (!transaction.disallowable && transaction.business_use_percent == null) return USE_CATEGORY;
+  return businessUseMode(transaction);
+}
+
+export function TransactionBusinessUseEditor({ transaction, onUpdate }: TransactionBusinessUseEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [mode, setMode] = useState<string>(USE_CATEGORY);
+  const [percent, setPercent] = useState('');
+  const { updateTransactionBusinessUse } = useBusinessUseMutations();
+
+  useEffect(() => {
+    setMode(transactionMode(transaction));
+    setPercent(transaction.business_use_percent != null ? String(Number(transaction.business_use_percent)) : '');
+  }, [transaction, isEditing]);
+
+  const percentValue = parseFloat(percent);
+  const percentValid = !isNaN(percentValue) && percentValue >= 0 && percentValue <= 100;
+
+  const handleSave = async () => {
+    try {
+      await updateTransactionBusinessUse.mutateAsync({
+        transactionId: transaction.id,
+        business_use_percent: mode === 'partial' ? percentValue : mode === 'allowable' ? 100 : null,
+        disallowable: mode === 'disallowable',
+      });
+      setIsEditing(false);
+      onUpdate?.();
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to update business use:', error);
+    }
+  };
+
+  const categorySettings = transaction.category ?? {};
+  const usesCategory = transactionMode(transaction) === USE_CATEGORY;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Percent className="h-4 w-4" />
+          Business Use
+        </h3>
+        {!isEditing && (
+          <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)} className="h-7 px-2">
+            <Edit3 className="h-3 w-3 mr-1" />
+            Edit
+          </Button>
+        )}
+      </div>
+
+      {!isEditing ? (
+        <p className="text-sm">
+          <span className="font-semibold">
+            {describeBusinessUse(usesCategory ? categorySettings : transaction)}
+          </span>
+          {usesCategory && transaction.category && (
+            <span className="text-muted-foreground"> - from {transaction.category.name}</span>
+          )}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="business-use-mode" className="text-xs">Tax treatment</Label>
+              <Select value={mode} onValueChange={setMode}>
+                <SelectTrigger id="business-use-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={USE_CATEGORY}>
+                    Category default ({describeBusinessUse(categorySettings)})
+                  </SelectItem>
+                  {(Object.keys(BUSINESS_USE_MODE_LABELS) as BusinessUseMode[]).map(option => (
+                    <SelectItem key={option} value={option}>{BUSINESS_USE_MODE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {mode === 'partial' && (
+              <div className="space-y-1">
+                <Label htmlFor="business-use-percent" className="text-xs">Business use %</Label>
+                <Input
+                  id="business-use-percent"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={percent}
+                  onChange={(e) => setPercent(e.target.value)}
+                  placeholder="e.g. 60"
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={updateTransactionBusinessUse.isPending || (mode === 'partial' && !percentValid)}
+            >
+              Save
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEditing(false)}
+              disabled={updateTransactionBusinessUse.isPending}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
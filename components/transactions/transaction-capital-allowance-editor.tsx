@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Edit3, Landmark } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCapitalAllowanceMutations } from '@/hooks/use-capital-allowances';
+import { CAPITAL_ALLOWANCE_POOL_LABELS, type CapitalAllowancePool } from '@/lib/capital-allowances';
+
+const NOT_CAPITAL = 'none';
+
+interface TransactionCapitalAllowanceEditorProps {
+  transaction: {
+    id: string;
+    type: string;
+    capital_allowance_pool?: CapitalAllowancePool | null;
+    aia_eligible?: boolean;
+  };
+  onUpdate?: () => void;
+}
+
+export function TransactionCapitalAllowanceEditor({ transaction, onUpdate }: TransactionCapitalAllowanceEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [pool, setPool] = useState<string>(NOT_CAPITAL);
+  const [aiaEligible, setAiaEligible] = useState(true);
+  const { updateTransactionCapitalAllowance } = useCapitalAllowanceMutations();
+
+  const isDisposal = transaction.type === 'income';
+
+  useEffect(() => {
+    setPool(transaction.capital_allowance_pool ?? NOT_CAPITAL);
+    setAiaEligible(transaction.aia_eligible ?? true);
+  }, [transaction, isEditing]);
+
+  const handleSave = async () => {
+    try {
+      await updateTransactionCapitalAllowance.mutateAsync({
+        transactionId: transaction.id,
+        capital_allowance_pool: pool === NOT_CAPITAL ? null : (pool as CapitalAllowancePool),
+        aia_eligible: aiaEligible,
+      });
+      setIsEditing(false);
+      onUpdate?.();
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to update capital allowances:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Landmark className="h-4 w-4" />
+          Capital Allowances
+        </h3>
+        {!isEditing && (
+          <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)} className="h-7 px-2">
+            <Edit3 className="h-3 w-3 mr-1" />
+            Edit
+          </Button>
+        )}
+      </div>
+
+      {!isEditing ? (
+        transaction.capital_allowance_pool ? (
+          <p className="text-sm">
+            <span className="font-semibold">
+              {isDisposal ? 'Sale proceeds from the ' : ''}
+              {CAPITAL_ALLOWANCE_POOL_LABELS[transaction.capital_allowance_pool]}
+            </span>
+            {!isDisposal && (
+              <span className="text-muted-foreground">
+                {transaction.aia_eligible === false ? ' - no Annual Investment Allowance' : ' - Annual Investment Allowance claimed first'}
+              </span>
+            )}
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {isDisposal
+              ? 'Not flagged as the sale of equipment.'
+              : 'Not flagged as a capital purchase - deducted as an ordinary expense.'}
+          </p>
+        )
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="capital-allowance-pool" className="text-xs">
+                {isDisposal ? 'Sale of an asset from' : 'Capital purchase for'}
+              </Label>
+              <Select value={pool} onValueChange={setPool}>
+                <SelectTrigger id="capital-allowance-pool">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_CAPITAL}>Not capital</SelectItem>
+                  {(Object.keys(CAPITAL_ALLOWANCE_POOL_LABELS) as CapitalAllowancePool[]).map(option => (
+                    <SelectItem key={option} value={option}>{CAPITAL_ALLOWANCE_POOL_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {!isDisposal && pool !== NOT_CAPITAL && (
+              <div className="flex items-center gap-3 md:pt-5">
+                <Switch id="capital-allowance-aia" checked={aiaEligible} onCheckedChange={setAiaEligible} />
+                <Label htmlFor="capital-allowance-aia" className="text-sm font-normal">
+                  Qualifies for AIA (not cars)
+                </Label>
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} disabled={updateTransactionCapitalAllowance.isPending}>
+              Save
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEditing(false)}
+              disabled={updateTransactionCapitalAllowance.isPending}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
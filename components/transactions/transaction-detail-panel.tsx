@@ -12,19 +12,47 @@ import { useCategorySuggestions, type CategorySuggestion } from '@/hooks/use-cat
 import { CategorySuggestionCard } from './category-suggestion-card';
 import { CategoryPicker } from '@/components/categories/category-picker';
 import { toast } from 'sonner';
-import { FileText, Save, Edit3, StickyNote, X, Receipt, Lightbulb } from 'lucide-react';
+import { FileText, Save, Edit3, StickyNote, X, Receipt, Lightbulb, Lock, Car } from 'lucide-react';
+import { RECONCILED_EDIT_WARNING } from '@/lib/reconciliation-sessions';
+import { VAT_LOCKED_EDIT_WARNING } from '@/lib/vat-returns';
+import type { VatTreatment } from '@/lib/vat';
+import type { CapitalAllowancePool } from '@/lib/capital-allowances';
+import { SIMPLIFIED_EXPENSE_TRANSACTION_NOTE, type SimplifiedExpenseKind } from '@/lib/simplified-expenses';
+import { TransactionVatEditor } from './transaction-vat-editor';
+import { TransactionFixedAssetSection } from './transaction-fixed-asset-section';
+import { TransactionCapitalAllowanceEditor } from './transaction-capital-allowance-editor';
+import { TransactionBusinessUseEditor } from './transaction-business-use-editor';
 
 interface Transaction {
   id: string;
   description: string;
+  counterparty_name?: string | null;
+  remittance_info?: string | null;
   amount: number;
   transaction_date: string;
-  type: 'income' | 'expenditure' | 'capital';
+  type: 'income' | 'expenditure' | 'capital' | 'transfer';
+  transfer_direction?: 'in' | 'out' | null;
+  reconciled_session_id?: string | null;
+  vat_return_id?: string | null;
+  fixed_asset_id?: string | null;
+  capital_allowance_pool?: CapitalAllowancePool | null;
+  aia_eligible?: boolean;
+  business_use_percent?: number | null;
+  disallowable?: boolean;
+  simplified_expense?: SimplifiedExpenseKind | null;
+  vat_treatment?: VatTreatment | null;
+  vat_rate?: number | null;
+  vat_amount?: number | null;
+  tax_point_date?: string | null;
   category_id?: string;
   category?: {
     id: string;
     name: string;
     color: string;
+    vat_treatment?: VatTreatment | null;
+    vat_rate?: number | null;
+    business_use_percent?: number | null;
+    disallowable?: boolean;
   };
 }
 
@@ -141,7 +169,8 @@ export function TransactionDetailPanel({
       try {
         const suggestions = await getSuggestionsForTransaction(
           transaction.description,
-          transaction.amount
+          transaction.amount,
+          transaction.counterparty_name
         );
         setSuggestions(suggestions);
       } catch (error) {
@@ -158,6 +187,7 @@ export function TransactionDetailPanel({
         transactionId: transaction.id,
         categoryId: suggestion.category_id,
         description: transaction.description,
+        counterparty: transaction.counterparty_name,
         patternId: suggestion.pattern_id,
       });
       setSuggestions(suggestions.filter(s => s !== suggestion));
@@ -191,6 +221,7 @@ export function TransactionDetailPanel({
         transactionId: transaction.id,
         categoryId: categoryId,
         description: transaction.description,
+        counterparty: transaction.counterparty_name,
       });
 
       // Wait a brief moment for cache to refresh
@@ -242,6 +273,27 @@ export function TransactionDetailPanel({
         </CardHeader>
         
         <CardContent className="space-y-6 p-6">
+          {transaction.reconciled_session_id && (
+            <div className="flex items-start gap-2 rounded-lg border border-amber-500/25 bg-amber-500/10 p-3 text-sm text-amber-600 dark:text-amber-400">
+              <Lock className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              {RECONCILED_EDIT_WARNING}
+            </div>
+          )}
+
+          {transaction.vat_return_id && (
+            <div className="flex items-start gap-2 rounded-lg border border-blue-500/25 bg-blue-500/10 p-3 text-sm text-blue-600 dark:text-blue-400">
+              <Lock className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              {VAT_LOCKED_EDIT_WARNING}
+            </div>
+          )}
+
+          {transaction.simplified_expense && (
+            <div className="flex items-start gap-2 rounded-lg border border-emerald-500/25 bg-emerald-500/10 p-3 text-sm text-emerald-600 dark:text-emerald-400">
+              <Car className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              {SIMPLIFIED_EXPENSE_TRANSACTION_NOTE}
+            </div>
+          )}
+
           {/* Transaction Info */}
           <div className="bg-muted rounded-lg p-4">
             <h3 className="font-semibold mb-3 flex items-center gap-2">
@@ -253,10 +305,22 @@ export function TransactionDetailPanel({
                 <span className="text-muted-foreground font-medium">Description:</span>
                 <p className="font-semibold text-foreground mt-1">{transaction.description}</p>
               </div>
+              {transaction.counterparty_name && (
+                <div>
+                  <span className="text-muted-foreground font-medium">Counterparty:</span>
+                  <p className="font-semibold text-foreground mt-1">{transaction.counterparty_name}</p>
+                </div>
+              )}
+              {transaction.remittance_info && (
+                <div>
+                  <span className="text-muted-foreground font-medium">Remittance info:</span>
+                  <p className="font-semibold text-foreground mt-1">{transaction.remittance_info}</p>
+                </div>
+              )}
               <div>
                 <span className="text-muted-foreground font-medium">Amount:</span>
                 <p className="font-semibold text-foreground mt-1">
-                  {transaction.type === 'expenditure' ? '-' : ''}£
+                  {transaction.type === 'expenditure' || transaction.transfer_direction === 'out' ? '-' : ''}£
                   {Math.abs(transaction.amount).toFixed(2)}
                 </p>
               </div>
@@ -283,7 +347,7 @@ export function TransactionDetailPanel({
             <div className="mt-4">
               <div className="flex items-center justify-between">
                 <span className="text-muted-foreground font-medium">Category:</span>
-                {!isEditingCategory && (
+                {!isEditingCategory && transaction.type !== 'transfer' && !transaction.vat_return_id && (
                   <Button
                     variant="ghost"
                     size="sm"
@@ -296,7 +360,7 @@ export function TransactionDetailPanel({
                 )}
               </div>
 
-              {isEditingCategory ? (
+              {isEditingCategory && transaction.type !== 'transfer' ? (
                 <div className="mt-2 space-y-2">
                   <CategoryPicker
                     type={transaction.type}
@@ -333,6 +397,8 @@ export function TransactionDetailPanel({
                 >
                   {transaction.category.name}
                 </Badge>
+              ) : transaction.type === 'transfer' ? (
+                <p className="text-sm text-muted-foreground mt-1">Transfers between accounts aren&apos;t categorised</p>
               ) : (
                 <p className="text-sm text-muted-foreground mt-1">No category assigned</p>
               )}
@@ -340,7 +406,7 @@ export function TransactionDetailPanel({
           </div>
 
           {/* Category Suggestions */}
-          {!transaction.category_id && (
+          {!transaction.category_id && transaction.type !== 'transfer' && (
             <>
               <Separator />
               <div className="space-y-3">
@@ -382,6 +448,34 @@ export function TransactionDetailPanel({
             </>
           )}
 
+          {(transaction.type === 'income' || transaction.type === 'expenditure') && (
+            <>
+              <Separator />
+              <TransactionVatEditor transaction={transaction} onUpdate={onTransactionUpdate} />
+            </>
+          )}
+
+          {(transaction.type === 'expenditure' || transaction.fixed_asset_id) && !transaction.simplified_expense && (
+            <>
+              <Separator />
+              <TransactionFixedAssetSection transaction={transaction} onUpdate={onTransactionUpdate} />
+            </>
+          )}
+
+          {(transaction.type === 'income' || transaction.type === 'expenditure') && (
+            <>
+              <Separator />
+              <TransactionCapitalAllowanceEditor transaction={transaction} onUpdate={onTransactionUpdate} />
+            </>
+          )}
+
+          {transaction.type === 'expenditure' && !transaction.fixed_asset_id && !transaction.simplified_expense && (
+            <>
+              <Separator />
+              <TransactionBusinessUseEditor transaction={transaction} onUpdate={onTransactionUpdate} />
+            </>
+          )}
+
           <Separator />
 
           {/* Enhanced Notes Section */}
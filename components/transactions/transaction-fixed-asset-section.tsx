@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Package } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FixedAssetFormDialog } from '@/components/fixed-assets/fixed-asset-form-dialog';
+import { useFixedAssetMutations, type FixedAssetFormData } from '@/hooks/use-fixed-assets';
+
+interface TransactionFixedAssetSectionProps {
+  transaction: {
+    id: string;
+    description: string;
+    amount: number;
+    transaction_date: string;
+    type: string;
+    category_id?: string;
+    fixed_asset_id?: string | null;
+  };
+  onUpdate?: () => void;
+}
+
+export function TransactionFixedAssetSection({ transaction, onUpdate }: TransactionFixedAssetSectionProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { createAsset } = useFixedAssetMutations();
+
+  const handleSubmit = async (data: FixedAssetFormData) => {
+    try {
+      await createAsset.mutateAsync(data);
+      setIsDialogOpen(false);
+      onUpdate?.();
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to capitalise transaction:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Package className="h-4 w-4" />
+          Fixed Asset
+        </h3>
+        {!transaction.fixed_asset_id && transaction.type === 'expenditure' && (
+          <Button variant="outline" size="sm" onClick={() => setIsDialogOpen(true)} className="h-7 px-2">
+            Capitalise
+          </Button>
+        )}
+      </div>
+
+      {transaction.fixed_asset_id ? (
+        <p className="text-sm text-muted-foreground">
+          {transaction.type === 'income' ? 'Sale proceeds of an asset' : 'Capitalised'} in the{' '}
+          <Link href="/reports/fixed-assets" className="underline underline-offset-2">fixed asset register</Link>
+          {' '}- depreciation and any profit or loss on sale replace this amount in the P&amp;L.
+        </p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Equipment or vehicles kept for more than a year can be capitalised, spreading the cost over their useful life.
+        </p>
+      )}
+
+      <FixedAssetFormDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        transaction={transaction}
+        onSubmit={handleSubmit}
+        isSubmitting={createAsset.isPending}
+      />
+    </div>
+  );
+}
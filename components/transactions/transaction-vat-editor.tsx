@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Percent, Edit3 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useVatMutations } from '@/hooks/use-vat';
+import { formatCurrency, formatDate } from '@/lib/formatting';
+import { DEFAULT_VAT_RATES, VAT_TREATMENT_LABELS, resolveVat, type VatTreatment } from '@/lib/vat';
+
+const CATEGORY_DEFAULT = 'category';
+
+interface TransactionVatEditorProps {
+  transaction: {
+    id: string;
+    amount: number;
+    vat_treatment?: VatTreatment | null;
+    vat_rate?: number | null;
+    vat_amount?: number | null;
+    tax_point_date?: string | null;
+    vat_return_id?: string | null;
+    category?: {
+      vat_treatment?: VatTreatment | null;
+      vat_rate?: number | null;
+    };
+  };
+  onUpdate?: () => void;
+}
+
+export function TransactionVatEditor({ transaction, onUpdate }: TransactionVatEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [treatment, setTreatment] = useState<string>(CATEGORY_DEFAULT);
+  const [rate, setRate] = useState('');
+  const [vatAmount, setVatAmount] = useState('');
+  const [taxPointDate, setTaxPointDate] = useState('');
+  const { updateTransactionVat } = useVatMutations();
+
+  const vat = resolveVat({
+    amount: transaction.amount,
+    vat_treatment: transaction.vat_treatment ?? null,
+    vat_rate: transaction.vat_rate ?? null,
+    vat_amount: transaction.vat_amount ?? null,
+    categories: transaction.category
+      ? { vat_treatment: transaction.category.vat_treatment ?? null, vat_rate: transaction.category.vat_rate ?? null }
+      : null,
+  });
+
+  useEffect(() => {
+    setTreatment(transaction.vat_treatment ?? CATEGORY_DEFAULT);
+    setRate(transaction.vat_rate != null ? String(transaction.vat_rate) : '');
+    setVatAmount(transaction.vat_amount != null ? String(transaction.vat_amount) : '');
+    setTaxPointDate(transaction.tax_point_date ?? '');
+  }, [transaction, isEditing]);
+
+  const handleTreatmentChange = (value: string) => {
+    setTreatment(value);
+    setRate(value === CATEGORY_DEFAULT ? '' : String(DEFAULT_VAT_RATES[value as VatTreatment]));
+    setVatAmount('');
+  };
+
+  const handleSave = async () => {
+    const useCategoryDefault = treatment === CATEGORY_DEFAULT;
+    try {
+      await updateTransactionVat.mutateAsync({
+        transactionId: transaction.id,
+        vat_treatment: useCategoryDefault ? null : (treatment as VatTreatment),
+        vat_rate: useCategoryDefault || rate === '' ? null : parseFloat(rate),
+        vat_amount: useCategoryDefault || vatAmount === '' ? null : parseFloat(vatAmount),
+        tax_point_date: taxPointDate || null,
+      });
+      setIsEditing(false);
+      onUpdate?.();
+    } catch (error) {
+      // Error toast already handled by mutation
+      console.error('Failed to update VAT:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Percent className="h-4 w-4" />
+          VAT
+        </h3>
+        {!isEditing && !transaction.vat_return_id && (
+          <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)} className="h-7 px-2">
+            <Edit3 className="h-3 w-3 mr-1" />
+            Edit
+          </Button>
+        )}
+      </div>
+
+      {!isEditing ? (
+        vat ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <span className="text-muted-foreground font-medium">Treatment:</span>
+              <p className="font-semibold text-foreground mt-1">
+                {VAT_TREATMENT_LABELS[vat.treatment]}
+                {vat.rate > 0 && ` (${vat.rate}%)`}
+              </p>
+              {!vat.isOverride && <p className="text-xs text-muted-foreground">From category default</p>}
+            </div>
+            <div>
+              <span className="text-muted-foreground font-medium">VAT:</span>
+              <p className="font-semibold text-foreground mt-1">{formatCurrency(vat.vatAmount)}</p>
+            </div>
+            <div>
+              <span className="text-muted-foreground font-medium">Net:</span>
+              <p className="font-semibold text-foreground mt-1">{formatCurrency(vat.netAmount)}</p>
+            </div>
+            <div>
+              <span className="text-muted-foreground font-medium">Invoice date:</span>
+              <p className="font-semibold text-foreground mt-1">
+                {transaction.tax_point_date ? formatDate(transaction.tax_point_date) : 'Same as payment'}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No VAT treatment set on this transaction or its category - it won&apos;t appear on the VAT return.
+          </p>
+        )
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="vat-treatment" className="text-xs">Treatment</Label>
+              <Select value={treatment} onValueChange={handleTreatmentChange}>
+                <SelectTrigger id="vat-treatment">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CATEGORY_DEFAULT}>Category default</SelectItem>
+                  {(Object.keys(VAT_TREATMENT_LABELS) as VatTreatment[]).map(option => (
+                    <SelectItem key={option} value={option}>{VAT_TREATMENT_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="vat-rate" className="text-xs">Rate (%)</Label>
+              <Input
+                id="vat-rate"
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                disabled={treatment === CATEGORY_DEFAULT}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="vat-amount" className="text-xs">VAT amount (£)</Label>
+              <Input
+                id="vat-amount"
+                type="number"
+                step="0.01"
+                placeholder="Calculated"
+                value={vatAmount}
+                onChange={(e) => setVatAmount(e.target.value)}
+                disabled={treatment === CATEGORY_DEFAULT}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="vat-tax-point" className="text-xs">Invoice date</Label>
+              <Input
+                id="vat-tax-point"
+                type="date"
+                value={taxPointDate}
+                onChange={(e) => setTaxPointDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} disabled={updateTransactionVat.isPending}>
+              Save VAT
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEditing(false)}
+              disabled={updateTransactionVat.isPending}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
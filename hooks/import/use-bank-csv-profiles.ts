@@ -0,0 +1,122 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import {
+  BANK_CSV_PROFILES,
+  type BankCSVProfile,
+  type CSVColumnMapping,
+  type CSVDateFormat,
+  type CSVEncoding,
+  type CSVSignConvention,
+} from '@/lib/bank-csv-profiles';
+
+export type BankCSVProfileFormData = Pick<BankCSVProfile, 'name' | 'columns' | 'dateFormat' | 'signConvention' | 'encoding'>;
+
+interface BankCSVProfileRow {
+  id: string;
+  name: string;
+  columns: CSVColumnMapping;
+  date_format: CSVDateFormat;
+  sign_convention: CSVSignConvention;
+  encoding: CSVEncoding;
+}
+
+/**
+ * Hook for CSV profiles - saved ones first, then the built-in bank presets
+ */
+export function useBankCSVProfiles() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['bank-csv-profiles', user?.id],
+    queryFn: async (): Promise<BankCSVProfile[]> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      // Note: No user_id filter - saved profiles follow the shared data model
+      const supabase = createClient();
+      const { data, error } = await supabase
+        .from('bank_csv_profiles')
+        .select('id, name, columns, date_format, sign_convention, encoding')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      const saved = ((data || []) as BankCSVProfileRow[]).map(row => ({
+        id: row.id,
+        name: row.name,
+        columns: row.columns,
+        dateFormat: row.date_format,
+        signConvention: row.sign_convention,
+        encoding: row.encoding,
+        custom: true,
+      }));
+
+      return [...saved, ...BANK_CSV_PROFILES];
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useBankCSVProfileMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const saveProfile = useMutation({
+    mutationFn: async (data: BankCSVProfileFormData): Promise<string> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { data: created, error } = await supabase
+        .from('bank_csv_profiles')
+        .insert({
+          user_id: user.id,
+          name: data.name,
+          columns: data.columns,
+          date_format: data.dateFormat,
+          sign_convention: data.signConvention,
+          encoding: data.encoding,
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return created.id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bank-csv-profiles'] });
+      toast.success('CSV profile saved');
+    },
+    onError: (error: Error) => {
+      console.error('Error saving CSV profile:', error);
+      toast.error('Failed to save CSV profile. Please try again.');
+    },
+  });
+
+  const deleteProfile = useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('bank_csv_profiles')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bank-csv-profiles'] });
+      toast.success('CSV profile deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting CSV profile:', error);
+      toast.error('Failed to delete CSV profile. Please try again.');
+    },
+  });
+
+  return { saveProfile, deleteProfile };
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import { createImportBatch, updateImportBatch } from '@/lib/import-batches';
+import { detectTransferPairs } from '@/lib/transfers';
+import { qifCategoryKey, type QIFImportLine } from '@/lib/qif';
+
+export interface QIFImportParams {
+  lines: QIFImportLine[];
+  /** Category id for each QIF category, by `qifCategoryKey`. Unmapped lines are left uncategorised. */
+  categoryIds: Record<string, string>;
+  bankAccountId: string | null;
+  sourceFile: { fileName: string; checksum?: string | null };
+}
+
+export interface QIFImportResult {
+  total: number;
+  successful: number;
+  duplicates: number;
+  failed: number;
+  transfersPaired: number;
+  importBatchId: string;
+}
+
+// Keeps inserts well under the PostgREST request size limit
+const INSERT_CHUNK_SIZE = 500;
+
+const fingerprint = (row: { date: string; type: string; amount: number; description: string }): string =>
+  `${row.date}_${row.type}_${row.amount.toFixed(2)}_${row.description.toLowerCase().trim().substring(0, 50)}`;
+
+export function useQIFImport() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ lines, categoryIds, bankAccountId, sourceFile }: QIFImportParams): Promise<QIFImportResult> => {
+      if (!user?.id) throw new Error('User not authenticated');
+      if (lines.length === 0) throw new Error('The QIF file has no transactions to import');
+
+      const supabase = createClient();
+      const dates = lines.map(line => line.date).sort();
+
+      // Note: No user_id filter - transactions follow the shared data model
+      const { data: existing, error: existingError } = await supabase
+        .from('transactions')
+        .select('transaction_date, type, amount, description')
+        .gte('transaction_date', dates[0])
+        .lte('transaction_date', dates[dates.length - 1]);
+
+      if (existingError) {
+        throw new Error(`Failed to check for duplicates: ${existingError.message}`);
+      }
+
+      // Counted rather than a set, so two identical payments on one day only
+      // count as duplicates when both are already there
+      const existingCounts = new Map<string, number>();
+      (existing || []).forEach(t => {
+        const key = fingerprint({
+          date: t.transaction_date,
+          type: t.type,
+          amount: Number(t.amount),
+          description: t.description || '',
+        });
+        existingCounts.set(key, (existingCounts.get(key) || 0) + 1);
+      });
+
+      const batch = await createImportBatch(supabase, {
+        userId: user.id,
+        source: 'qif',
+        fileName: sourceFile.fileName,
+        fileChecksum: sourceFile.checksum,
+        totalRows: lines.length,
+      });
+
+      const toInsert = lines
+        .filter(line => {
+          const key = fingerprint(line);
+          const count = existingCounts.get(key) || 0;
+          if (count === 0) return true;
+          existingCounts.set(key, count - 1);
+          return false;
+        })
+        .map(line => ({
+          user_id: user.id,
+          description: line.description,
+          amount: line.amount,
+          transaction_date: line.date,
+          type: line.type,
+          category_id: categoryIds[qifCategoryKey(line)] || null,
+          import_batch_id: batch.id,
+          bank_account_id: bankAccountId,
+        }));
+
+      const result: QIFImportResult = {
+        total: lines.length,
+        successful: 0,
+        duplicates: lines.length - toInsert.length,
+        failed: 0,
+        transfersPaired: 0,
+        importBatchId: batch.id,
+      };
+
+      for (let i = 0; i < toInsert.length; i += INSERT_CHUNK_SIZE) {
+        const chunk = toInsert.slice(i, i + INSERT_CHUNK_SIZE);
+        const { error } = await supabase.from('transactions').insert(chunk);
+
+        if (error) {
+          console.error('Failed to insert QIF transactions:', error.message);
+          result.failed += chunk.length;
+        } else {
+          result.successful += chunk.length;
+        }
+      }
+
+      // QIF rows go straight into transactions, so the batch is committed as soon as it lands
+      await updateImportBatch(supabase, batch.id, {
+        imported_rows: result.successful,
+        duplicate_rows: result.duplicates,
+        failed_rows: result.failed,
+        committed_rows: result.successful,
+        status: 'committed',
+        committed_at: new Date().toISOString(),
+      });
+
+      // [Account] transfers arrive as an expenditure and an income once both accounts are imported
+      if (bankAccountId && result.successful > 0) {
+        try {
+          result.transfersPaired = await detectTransferPairs(supabase, user.id, {
+            from: dates[0],
+            to: dates[dates.length - 1],
+          });
+        } catch (error) {
+          console.warn('Transfer detection failed:', error);
+        }
+      }
+
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['recent-transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['monthly-data'] });
+      queryClient.invalidateQueries({ queryKey: ['category-breakdown'] });
+      queryClient.invalidateQueries({ queryKey: ['transfer-pairs'] });
+
+      if (result.successful > 0) {
+        toast.success(`Imported ${result.successful} transactions from QIF`);
+      }
+      if (result.duplicates > 0) {
+        toast.info(`Skipped ${result.duplicates} transactions already in the ledger`);
+      }
+      if (result.failed > 0) {
+        toast.error(`Failed to import ${result.failed} transactions`);
+      }
+    },
+    onError: (error: Error) => {
+      console.error('QIF import failed:', error);
+      toast.error('Failed to import QIF file. Please try again.');
+    },
+  });
+}
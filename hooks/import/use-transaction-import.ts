@@ -5,6 +5,10 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { createClient } from '@/supabase/client';
 import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
+import { createImportBatch, updateImportBatch } from '@/lib/import-batches';
+
+/** 'auto' takes each row's direction from the sign of its amount in the file */
+export type TransactionImportType = 'income' | 'expenditure' | 'auto';
 
 interface TransactionImportData {
   date: string;
@@ -13,6 +17,13 @@ interface TransactionImportData {
   amount: number;
   category: string;
   fingerprint: string;
+  /** Set on every row of an 'auto' import */
+  type?: 'income' | 'expenditure';
+}
+
+interface ImportSourceFile {
+  fileName: string;
+  checksum?: string | null;
 }
 
 interface ImportResult {
@@ -23,6 +34,7 @@ interface ImportResult {
   strategy: string;
   errors: string[];
   duplicateDetails: Array<{ transaction: TransactionImportData; reason: string; fingerprint: string }>;
+  importBatchId: string;
 }
 
 export function useTransactionImport() {
@@ -33,7 +45,8 @@ export function useTransactionImport() {
   const importTransactions = async (
     transactions: TransactionImportData[], 
     duplicateStrategy: string,
-    transactionType: 'income' | 'expenditure'
+    transactionType: TransactionImportType,
+    sourceFile?: ImportSourceFile
   ): Promise<ImportResult> => {
     if (!user?.id) {
       throw new Error('User not authenticated');
@@ -69,19 +82,24 @@ export function useTransactionImport() {
         throw userError;
       }
 
+      const transactionTypes = transactionType === 'auto' ? ['income', 'expenditure'] : [transactionType];
+      const rowType = (transaction: TransactionImportData): 'income' | 'expenditure' =>
+        transaction.type ?? (transactionType === 'auto' ? 'expenditure' : transactionType);
+
       // Get existing categories to map category names to IDs
       const { data: categories, error: categoriesError } = await supabase
         .from('categories')
         .select('id, name, type')
         .eq('user_id', user.id)
-        .eq('type', transactionType);
+        .in('type', transactionTypes);
 
       if (categoriesError) {
         throw categoriesError;
       }
 
+      // Keyed by type too, as an import of both can use a name for each
       const categoryMap = new Map(
-        categories?.map(cat => [cat.name.toLowerCase(), cat.id]) || []
+        categories?.map(cat => [`${cat.type}|${cat.name.toLowerCase()}`, cat.id]) || []
       );
 
       // Get existing transactions for duplicate detection
@@ -89,7 +107,7 @@ export function useTransactionImport() {
         .from('transactions')
         .select('id, transaction_date, description, amount, category_id, user_id')
         .eq('user_id', user.id)
-        .eq('type', transactionType);
+        .in('type', transactionTypes);
 
       if (existingError) {
         throw existingError;
@@ -105,6 +123,15 @@ export function useTransactionImport() {
         }) || []
       );
 
+      // Record this run so it can be rolled back from Import History
+      const importBatch = await createImportBatch(supabase, {
+        userId: user.id,
+        source: 'transaction_csv',
+        fileName: sourceFile?.fileName || 'Transaction CSV',
+        fileChecksum: sourceFile?.checksum,
+        totalRows: transactions.length,
+      });
+
       const result: ImportResult = {
         total: transactions.length,
         successful: 0,
@@ -113,6 +140,7 @@ export function useTransactionImport() {
         strategy: duplicateStrategy,
         errors: [],
         duplicateDetails: [],
+        importBatchId: importBatch.id,
       };
 
       // Process transactions in batches
@@ -149,7 +177,7 @@ export function useTransactionImport() {
             // Map category name to category ID
             let categoryId = null;
             if (transaction.category) {
-              categoryId = categoryMap.get(transaction.category.toLowerCase());
+              categoryId = categoryMap.get(`${rowType(transaction)}|${transaction.category.toLowerCase()}`);
               if (!categoryId) {
                 // Category not found, we could create it or skip
                 result.errors.push(`Category "${transaction.category}" not found for transaction on ${transaction.date}`);
@@ -161,9 +189,10 @@ export function useTransactionImport() {
               user_id: user.id,
               category_id: categoryId,
               amount: transaction.amount,
-              type: transactionType,
+              type: rowType(transaction),
               description: `${transaction.supplier}${transaction.description ? ` - ${transaction.description}` : ''}`,
               transaction_date: transaction.date,
+              import_batch_id: importBatch.id,
             };
 
             transactionsToInsert.push(transactionData);
@@ -198,7 +227,18 @@ export function useTransactionImport() {
         }
       }
 
+      // CSV rows go straight into transactions, so the batch is committed as soon as it lands
+      await updateImportBatch(supabase, importBatch.id, {
+        imported_rows: result.successful,
+        duplicate_rows: result.duplicates,
+        failed_rows: result.failed,
+        committed_rows: result.successful,
+        status: 'committed',
+        committed_at: new Date().toISOString(),
+      });
+
       // Invalidate relevant queries
+      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
       queryClient.invalidateQueries({ queryKey: ['recent-transactions'] });
@@ -212,11 +252,12 @@ export function useTransactionImport() {
   };
 
   const importMutation = useMutation({
-    mutationFn: ({ transactions, duplicateStrategy, transactionType }: { 
+    mutationFn: ({ transactions, duplicateStrategy, transactionType, sourceFile }: { 
       transactions: TransactionImportData[], 
       duplicateStrategy: string,
-      transactionType: 'income' | 'expenditure'
-    }) => importTransactions(transactions, duplicateStrategy, transactionType),
+      transactionType: TransactionImportType,
+      sourceFile?: ImportSourceFile
+    }) => importTransactions(transactions, duplicateStrategy, transactionType, sourceFile),
     onSuccess: (result) => {
       if (result.successful > 0) {
         toast.success(`Successfully imported ${result.successful} transactions!`);
@@ -235,8 +276,8 @@ export function useTransactionImport() {
   });
 
   return {
-    importTransactions: (transactions: TransactionImportData[], duplicateStrategy: string, transactionType: 'income' | 'expenditure') =>
-      importMutation.mutateAsync({ transactions, duplicateStrategy, transactionType }),
+    importTransactions: (transactions: TransactionImportData[], duplicateStrategy: string, transactionType: TransactionImportType, sourceFile?: ImportSourceFile) =>
+      importMutation.mutateAsync({ transactions, duplicateStrategy, transactionType, sourceFile }),
     isImporting: isImporting || importMutation.isPending,
     error: importMutation.error,
   };
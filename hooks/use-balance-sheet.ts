@@ -0,0 +1,167 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import { reportDataEngine } from '@/lib/reports-data-engine';
+import type { BalanceSheetData, BalanceSheetItem, BalanceSheetItemCategory } from '@/lib/balance-sheet';
+
+export interface BalanceSheetItemFormData {
+  name: string;
+  category: BalanceSheetItemCategory;
+  notes: string | null;
+}
+
+export interface BalanceSheetItemValueData {
+  itemId: string;
+  as_of_date: string;
+  amount: number;
+}
+
+/**
+ * Hook for the balance sheet at `asOf`, with an optional comparison date
+ */
+export function useBalanceSheet(asOf: string, compareTo: string | null) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['balance-sheet', user?.id, asOf, compareTo],
+    queryFn: async (): Promise<{ current: BalanceSheetData; previous: BalanceSheetData | null }> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const [current, previous] = await Promise.all([
+        reportDataEngine.getBalanceSheetData(asOf),
+        compareTo ? reportDataEngine.getBalanceSheetData(compareTo) : Promise.resolve(null),
+      ]);
+      return { current, previous };
+    },
+    enabled: !!user?.id && !!asOf,
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * Hook for the manually maintained assets and liabilities with their dated values
+ */
+export function useBalanceSheetItems() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['balance-sheet-items', user?.id],
+    queryFn: async (): Promise<BalanceSheetItem[]> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      // Note: No user_id filter - balance sheet items follow the shared data model
+      const supabase = createClient();
+      const { data, error } = await supabase
+        .from('balance_sheet_items')
+        .select('*, balance_sheet_item_values(id, as_of_date, amount)')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as BalanceSheetItem[];
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useBalanceSheetItemMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidateBalanceSheet = () => {
+    queryClient.invalidateQueries({ queryKey: ['balance-sheet-items'] });
+    queryClient.invalidateQueries({ queryKey: ['balance-sheet'] });
+  };
+
+  const createItem = useMutation({
+    mutationFn: async (data: BalanceSheetItemFormData & { initialValue?: { as_of_date: string; amount: number } }) => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const { initialValue, ...itemData } = data;
+      const supabase = createClient();
+      const { data: item, error } = await supabase
+        .from('balance_sheet_items')
+        .insert({ ...itemData, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (initialValue) {
+        const { error: valueError } = await supabase
+          .from('balance_sheet_item_values')
+          .insert({ item_id: item.id, ...initialValue });
+
+        if (valueError) throw valueError;
+      }
+
+      return item as BalanceSheetItem;
+    },
+    onSuccess: () => {
+      invalidateBalanceSheet();
+      toast.success('Balance sheet item added');
+    },
+    onError: (error: Error) => {
+      console.error('Error creating balance sheet item:', error);
+      toast.error('Failed to add balance sheet item. Please try again.');
+    },
+  });
+
+  const deleteItem = useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('balance_sheet_items')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateBalanceSheet();
+      toast.success('Balance sheet item deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting balance sheet item:', error);
+      toast.error('Failed to delete balance sheet item. Please try again.');
+    },
+  });
+
+  // Recording a value on a date that already has one replaces it
+  const setItemValue = useMutation({
+    mutationFn: async ({ itemId, as_of_date, amount }: BalanceSheetItemValueData): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('balance_sheet_item_values')
+        .upsert({ item_id: itemId, as_of_date, amount }, { onConflict: 'item_id,as_of_date' });
+
+      if (error) throw error;
+
+      await supabase
+        .from('balance_sheet_items')
+        .update({ updated_at: new Date().toISOString() })
+        .eq('id', itemId);
+    },
+    onSuccess: () => {
+      invalidateBalanceSheet();
+      toast.success('Balance updated');
+    },
+    onError: (error: Error) => {
+      console.error('Error updating balance sheet value:', error);
+      toast.error('Failed to update balance. Please try again.');
+    },
+  });
+
+  return {
+    createItem,
+    deleteItem,
+    setItemValue,
+  };
+}
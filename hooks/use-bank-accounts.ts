@@ -0,0 +1,124 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import { fetchBankAccounts, type BankAccount } from '@/lib/bank-accounts';
+
+export interface BankAccountFormData {
+  name: string;
+  provider: string | null;
+  currency: string;
+  product_code: string | null;
+  opening_balance: number;
+  opening_balance_date: string;
+  is_active: boolean;
+}
+
+export function useBankAccounts() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['bank-accounts', user?.id],
+    queryFn: async (): Promise<BankAccount[]> => {
+      if (!user?.id) {
+        throw new Error('User not authenticated');
+      }
+
+      return fetchBankAccounts(createClient());
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+export function useBankAccountMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Opening balances feed every balance figure in the app
+  const invalidateBalances = () => {
+    queryClient.invalidateQueries({ queryKey: ['bank-accounts'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+    queryClient.invalidateQueries({ queryKey: ['reconciliation-balance'] });
+    queryClient.invalidateQueries({ queryKey: ['cashFlow'] });
+  };
+
+  const createAccount = useMutation({
+    mutationFn: async (data: BankAccountFormData): Promise<BankAccount> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { data: account, error } = await supabase
+        .from('bank_accounts')
+        .insert({ ...data, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return account as BankAccount;
+    },
+    onSuccess: (account) => {
+      invalidateBalances();
+      toast.success(`Bank account "${account.name}" created successfully!`);
+    },
+    onError: (error: Error) => {
+      console.error('Error creating bank account:', error);
+      toast.error('Failed to create bank account. Please try again.');
+    },
+  });
+
+  const updateAccount = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<BankAccountFormData> }): Promise<BankAccount> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { data: account, error } = await supabase
+        .from('bank_accounts')
+        .update({ ...data, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return account as BankAccount;
+    },
+    onSuccess: (account) => {
+      invalidateBalances();
+      toast.success(`Bank account "${account.name}" updated successfully!`);
+    },
+    onError: (error: Error) => {
+      console.error('Error updating bank account:', error);
+      toast.error('Failed to update bank account. Please try again.');
+    },
+  });
+
+  const deleteAccount = useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('bank_accounts')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateBalances();
+      toast.success('Bank account deleted successfully!');
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting bank account:', error);
+      toast.error('Failed to delete bank account. Please try again.');
+    },
+  });
+
+  return {
+    createAccount,
+    updateAccount,
+    deleteAccount,
+  };
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import { reportDataEngine } from '@/lib/reports-data-engine';
+import {
+  budgetMonthsElapsed,
+  budgetsFromActuals,
+  buildBudgetVsActual,
+  fetchBudgetTargets,
+  fetchBudgets,
+  type BudgetPeriod,
+  type BudgetTarget,
+  type BudgetVsActualData,
+} from '@/lib/budgets';
+
+export interface BudgetFormData {
+  year: number;
+  target: BudgetTarget;
+  period: BudgetPeriod;
+  amount: number;
+}
+
+export interface CopyBudgetsData {
+  /** Year to set budgets for - actuals come from the year before */
+  year: number;
+  level: 'category' | 'hierarchy';
+  upliftPercent: number;
+}
+
+function calendarYearPL(year: number, through: string) {
+  return reportDataEngine.getHierarchicalPLData({
+    name: 'Budget vs Actual',
+    // Midday avoids toISOString() moving the date across a timezone boundary
+    dateRange: { start: new Date(`${year}-01-01T12:00:00`), end: new Date(`${through}T12:00:00`), period: 'annual' },
+    groupBy: 'hierarchy',
+    includeTypes: ['income', 'expenditure'],
+    visualizations: ['table'],
+  });
+}
+
+/**
+ * Hook for Budget vs Actual over the calendar year to date (the whole year once it's over)
+ */
+export function useBudgetVsActual(year: number) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['budget-vs-actual', user?.id, year],
+    queryFn: async (): Promise<BudgetVsActualData> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const yearEnd = `${year}-12-31`;
+
+      // Note: No user_id filter - budgets follow the shared data model
+      const supabase = createClient();
+      const [budgets, targets, pl] = await Promise.all([
+        fetchBudgets(supabase, year),
+        fetchBudgetTargets(supabase),
+        calendarYearPL(year, today < yearEnd ? today : yearEnd),
+      ]);
+
+      return buildBudgetVsActual(pl, budgets, targets, year, budgetMonthsElapsed(year, today));
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useBudgetMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['budget-vs-actual'] });
+  };
+
+  // The unique indexes are partial (one per target column), so upsert can't use
+  // them as a conflict target - look for the existing row instead
+  const saveBudget = useMutation({
+    mutationFn: async ({ year, target, period, amount }: BudgetFormData): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const column = target.categoryId ? 'category_id' : 'hierarchy_id';
+      const targetId = target.categoryId ?? target.hierarchyId;
+
+      const { data: existing, error: findError } = await supabase
+        .from('budgets')
+        .select('id')
+        .eq('year', year)
+        .eq(column, targetId)
+        .maybeSingle();
+
+      if (findError) throw findError;
+
+      const { error } = existing
+        ? await supabase
+            .from('budgets')
+            .update({ period, amount, updated_at: new Date().toISOString() })
+            .eq('id', existing.id)
+        : await supabase
+            .from('budgets')
+            .insert({ year, period, amount, [column]: targetId, user_id: user.id });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Budget saved');
+    },
+    onError: (error: Error) => {
+      console.error('Error saving budget:', error);
+      toast.error('Failed to save budget. Please try again.');
+    },
+  });
+
+  const deleteBudget = useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('budgets')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Budget removed');
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting budget:', error);
+      toast.error('Failed to remove budget. Please try again.');
+    },
+  });
+
+  // Replaces the year's budgets at the chosen level; budgets at the other level are kept
+  const copyFromActuals = useMutation({
+    mutationFn: async ({ year, level, upliftPercent }: CopyBudgetsData): Promise<number> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const pl = await calendarYearPL(year - 1, `${year - 1}-12-31`);
+      const budgets = budgetsFromActuals(pl, level, upliftPercent);
+      const column = level === 'category' ? 'category_id' : 'hierarchy_id';
+
+      const supabase = createClient();
+      const { error: deleteError } = await supabase
+        .from('budgets')
+        .delete()
+        .eq('year', year)
+        .not(column, 'is', null);
+
+      if (deleteError) throw deleteError;
+
+      if (budgets.length > 0) {
+        const { error } = await supabase
+          .from('budgets')
+          .insert(budgets.map(({ target, amount }) => ({
+            year,
+            period: 'annual',
+            amount,
+            category_id: target.categoryId ?? null,
+            hierarchy_id: target.hierarchyId ?? null,
+            user_id: user.id,
+          })));
+
+        if (error) throw error;
+      }
+
+      return budgets.length;
+    },
+    onSuccess: (count) => {
+      invalidate();
+      toast.success(`${count} ${count === 1 ? 'budget' : 'budgets'} copied from last year`);
+    },
+    onError: (error: Error) => {
+      console.error('Error copying budgets from actuals:', error);
+      toast.error('Failed to copy budgets. Please try again.');
+    },
+  });
+
+  return {
+    saveBudget,
+    deleteBudget,
+    copyFromActuals,
+  };
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+
+export interface TransactionBusinessUseUpdate {
+  transactionId: string;
+  business_use_percent: number | null;
+  disallowable: boolean;
+}
+
+export function useBusinessUseMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const updateTransactionBusinessUse = useMutation({
+    mutationFn: async ({ transactionId, ...settings }: TransactionBusinessUseUpdate): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('transactions')
+        .update(settings)
+        .eq('id', transactionId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions-paginated'] });
+      toast.success('Business use saved');
+    },
+    onError: (error: Error) => {
+      console.error('Error updating business use:', error);
+      toast.error(`Failed to save business use: ${error.message}`);
+    },
+  });
+
+  return {
+    updateTransactionBusinessUse,
+  };
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import {
+  calculateCapitalAllowances,
+  capitalAddBack,
+  fetchCapitalAllowanceTransactions,
+  fetchDepreciationCharged,
+  type CapitalAllowancePool,
+  type CapitalAllowanceTransaction,
+  type CapitalAllowanceYear,
+} from '@/lib/capital-allowances';
+
+export interface TransactionCapitalAllowanceUpdate {
+  transactionId: string;
+  capital_allowance_pool: CapitalAllowancePool | null;
+  aia_eligible: boolean;
+}
+
+export interface CapitalAllowanceSummary {
+  /** The selected tax year, null when nothing has ever been flagged */
+  year: CapitalAllowanceYear | null;
+  /** Flagged purchases and disposals in the selected year */
+  transactions: CapitalAllowanceTransaction[];
+  /** Depreciation and uncapitalised capital items to reverse out of the accounts profit */
+  addBack: number;
+}
+
+/**
+ * Hook for capital allowances in the tax year starting 6 April `startYear`,
+ * with pools carried forward from earlier years
+ */
+export function useCapitalAllowances(startYear: number) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['capital-allowances', user?.id, startYear],
+    queryFn: async (): Promise<CapitalAllowanceSummary> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const startDate = `${startYear}-04-06`;
+      const endDate = `${startYear + 1}-04-05`;
+      const [transactions, depreciation] = await Promise.all([
+        fetchCapitalAllowanceTransactions(supabase, endDate),
+        fetchDepreciationCharged(supabase, startDate, endDate),
+      ]);
+
+      const years = calculateCapitalAllowances(transactions, startYear);
+      return {
+        year: years.find(y => y.startYear === startYear) ?? null,
+        transactions: transactions.filter(t => t.transaction_date >= startDate),
+        addBack: capitalAddBack(transactions, depreciation, startYear),
+      };
+    },
+    enabled: !!user?.id,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useCapitalAllowanceMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const updateTransactionCapitalAllowance = useMutation({
+    mutationFn: async ({ transactionId, ...flags }: TransactionCapitalAllowanceUpdate): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('transactions')
+        .update(flags)
+        .eq('id', transactionId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['capital-allowances'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions-paginated'] });
+      toast.success('Capital allowance details saved');
+    },
+    onError: (error: Error) => {
+      console.error('Error updating capital allowance flags:', error);
+      toast.error(`Failed to save capital allowance details: ${error.message}`);
+    },
+  });
+
+  return {
+    updateTransactionCapitalAllowance,
+  };
+}
@@ -4,6 +4,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { createClient } from '@/supabase/client';
 import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
+import type { VatTreatment } from '@/lib/vat';
+import type { Sa103Line } from '@/lib/sa103';
 
 export interface Category {
   id: string;
@@ -11,6 +13,11 @@ export interface Category {
   name: string;
   type: 'income' | 'expenditure' | 'capital';
   color: string;
+  vat_treatment?: VatTreatment | null;
+  vat_rate?: number | null;
+  sa103_box?: Sa103Line | null;
+  business_use_percent?: number | null;
+  disallowable?: boolean;
   created_at: string;
 }
 
@@ -23,6 +30,11 @@ export interface CreateCategoryData {
 export interface UpdateCategoryData {
   name?: string;
   color?: string;
+  vat_treatment?: VatTreatment | null;
+  vat_rate?: number | null;
+  sa103_box?: Sa103Line | null;
+  business_use_percent?: number | null;
+  disallowable?: boolean;
 }
 
 export function useCategories(type?: 'income' | 'expenditure' | 'capital') {
@@ -140,6 +152,8 @@ export function useCategoryMutations() {
       queryClient.invalidateQueries({ queryKey: ['categories'] });
       // Also invalidate related queries
       queryClient.invalidateQueries({ queryKey: ['category-breakdown'] });
+      queryClient.invalidateQueries({ queryKey: ['vat-return'] });
+      queryClient.invalidateQueries({ queryKey: ['sa103-mappings'] });
       toast.success(`Category "${updatedCategory.name}" updated successfully!`);
     },
     onError: (error: Error) => {
@@ -25,7 +25,8 @@ export function useCategoryBreakdown() {
           type,
           category:categories(name, color)
         `)
-        ;
+        .neq('type', 'transfer')
+        .is('fixed_asset_id', null);
 
       if (error) throw error;
 
@@ -3,6 +3,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { createClient } from '@/supabase/client';
 import { useAuth } from '@/lib/auth-context';
+import type { Sa103Line } from '@/lib/sa103';
 
 export interface CategoryHierarchy {
   id: string;
@@ -10,6 +11,7 @@ export interface CategoryHierarchy {
   name: string;
   type: 'income' | 'expenditure' | 'capital';
   display_order: number;
+  sa103_box?: Sa103Line | null;
   created_at: string;
   updated_at: string;
 }
@@ -161,7 +163,7 @@ export function useUpdateCategoryHierarchy() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (data: { id: string; name?: string; display_order?: number }) => {
+    mutationFn: async (data: { id: string; name?: string; display_order?: number; sa103_box?: Sa103Line | null }) => {
       if (!user?.id) {
         throw new Error('User not authenticated');
       }
@@ -171,6 +173,7 @@ export function useUpdateCategoryHierarchy() {
       const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
       if (data.name !== undefined) updateData.name = data.name;
       if (data.display_order !== undefined) updateData.display_order = data.display_order;
+      if (data.sa103_box !== undefined) updateData.sa103_box = data.sa103_box;
 
       const { data: result, error } = await supabase
         .from('category_hierarchies')
@@ -186,6 +189,7 @@ export function useUpdateCategoryHierarchy() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['category-hierarchies', user?.id] });
       queryClient.invalidateQueries({ queryKey: ['category-hierarchies-with-categories', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['sa103-mappings', user?.id] });
     },
   });
 }
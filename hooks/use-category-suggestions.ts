@@ -5,6 +5,7 @@ import { createClient } from '@/supabase/client';
 import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
 import { PatternMatcher } from '@/lib/pattern-matcher';
+import { RECONCILED_EDIT_WARNING } from '@/lib/reconciliation-sessions';
 
 export interface CategorySuggestion {
   category_id: string;
@@ -31,11 +32,13 @@ export function useCategorySuggestions() {
    * Get suggestions for a transaction
    * @param description Transaction description
    * @param amount Transaction amount
+   * @param counterparty Counterparty name from a structured bank statement, if any
    * @returns Array of category suggestions
    */
   const getSuggestionsForTransaction = async (
     description: string,
-    amount: number
+    amount: number,
+    counterparty?: string | null
   ): Promise<CategorySuggestion[]> => {
     if (!user?.id) return [];
 
@@ -63,8 +66,8 @@ export function useCategorySuggestions() {
         category: Array.isArray(p.category) ? p.category[0] : p.category
       }));
 
-      // 2. Match patterns against the description
-      const matches = PatternMatcher.matchPatterns(description, transformedPatterns);
+      // 2. Match patterns against the counterparty and description
+      const matches = PatternMatcher.matchPatterns(description, transformedPatterns, counterparty);
 
       // 3. Sort by confidence and return top suggestions
       return matches
@@ -85,16 +88,19 @@ export function useCategorySuggestions() {
       transactionId: string;
       categoryId: string;
       description: string;
+      counterparty?: string | null;
       patternId?: string;
-    }): Promise<void> => {
+    }): Promise<{ reconciled: boolean }> => {
       if (!user?.id) throw new Error('User not authenticated');
 
       // 1. Update the transaction with the suggested category
-      const { error: updateError } = await supabase
+      const { data: updated, error: updateError } = await supabase
         .from('transactions')
         .update({ category_id: data.categoryId })
         .eq('id', data.transactionId)
-        .eq('user_id', user.id);
+        .eq('user_id', user.id)
+        .select('import_batch_id, reconciled_session_id')
+        .maybeSingle();
 
       if (updateError) throw updateError;
 
@@ -117,11 +123,15 @@ export function useCategorySuggestions() {
           data.description,
           data.categoryId,
           user.id,
-          supabase
+          supabase,
+          updated?.import_batch_id,
+          data.counterparty
         );
       }
+
+      return { reconciled: !!updated?.reconciled_session_id };
     },
-    onSuccess: () => {
+    onSuccess: ({ reconciled }) => {
       queryClient.invalidateQueries({
         queryKey: ['transactions', user?.id],
       });
@@ -129,6 +139,7 @@ export function useCategorySuggestions() {
         queryKey: ['categorization-patterns', user?.id],
       });
       toast.success('Category suggestion applied');
+      if (reconciled) toast.warning(RECONCILED_EDIT_WARNING);
     },
     onError: (error) => {
       toast.error(`Failed to apply suggestion: ${error.message}`);
@@ -250,15 +261,18 @@ export function useCategorySuggestions() {
       transactionId: string;
       categoryId: string | null;
       description?: string;
-    }): Promise<void> => {
+      counterparty?: string | null;
+    }): Promise<{ reconciled: boolean }> => {
       if (!user?.id) throw new Error('User not authenticated');
 
       // Update the transaction with the new category (or null to clear)
-      const { error: updateError } = await supabase
+      const { data: updated, error: updateError } = await supabase
         .from('transactions')
         .update({ category_id: data.categoryId })
         .eq('id', data.transactionId)
-        .eq('user_id', user.id);
+        .eq('user_id', user.id)
+        .select('import_batch_id, reconciled_session_id')
+        .maybeSingle();
 
       if (updateError) throw updateError;
 
@@ -268,15 +282,20 @@ export function useCategorySuggestions() {
           data.description,
           data.categoryId,
           user.id,
-          supabase
+          supabase,
+          updated?.import_batch_id,
+          data.counterparty
         ).catch((err) => console.error('Pattern learning failed:', err));
       }
+
+      return { reconciled: !!updated?.reconciled_session_id };
     },
-    onSuccess: () => {
+    onSuccess: ({ reconciled }) => {
       queryClient.invalidateQueries({
         queryKey: ['transactions', user?.id],
       });
       toast.success('Category updated successfully');
+      if (reconciled) toast.warning(RECONCILED_EDIT_WARNING);
     },
     onError: (error) => {
       toast.error(`Failed to update category: ${error.message}`);
@@ -3,158 +3,436 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { createClient } from '@/supabase/client';
 import { toast } from 'sonner';
+import { ImportCommitPlanner, type CommitMode, type CommitPlan } from '@/lib/import-commit-planner';
+import { recordBatchLinks, updateImportBatch, type ImportBatchLink } from '@/lib/import-batches';
+import { detectTransferPairs } from '@/lib/transfers';
+import type { ImportedTransaction } from '@/lib/revolut-types';
 
 const supabase = createClient();
 
-export function useCommitImport() {
-  const queryClient = useQueryClient();
+export interface CommitImportOptions {
+  mode?: CommitMode;
+}
 
-  return useMutation({
-    mutationFn: async () => {
-      const { data: { user }, error: userError } = await supabase.auth.getUser();
-      if (userError || !user) {
-        throw new Error('User not authenticated');
-      }
+export interface CommitImportResult {
+  mode: CommitMode;
+  inserted: number;
+  linked: number;
+  skipped: number;
+  deleted: number;
+  transfersPaired: number;
+  /** First and last date of the committed rows, used to scope transfer detection */
+  dateRange: { from: string; to: string } | null;
+}
 
-      // Start a transaction to ensure data consistency
-      // Note: No user_id filter needed due to shared data model - all users can see all transactions
-      const { data: importedTransactions, error: fetchError } = await supabase
-        .from('matched_transactions_view')
-        .select('*');
+export interface CommitPreview {
+  manualTransactionsToDelete: number;
+  totalImportedTransactions: number;
+  verifiedTransactions: number;
+  unmatchedTransactions: number;
+  rejectedTransactions: number;
+  plan: CommitPlan;
+}
 
-      if (fetchError) {
-        throw new Error(`Failed to fetch imported transactions: ${fetchError.message}`);
-      }
+function committedDateRange(dates: string[]): { from: string; to: string } | null {
+  if (dates.length === 0) return null;
+  const sorted = [...dates].sort();
+  return { from: sorted[0], to: sorted[sorted.length - 1] };
+}
 
-      if (!importedTransactions || importedTransactions.length === 0) {
-        throw new Error('No imported transactions found to commit');
-      }
+// The view predates import batches, accounts, FITIDs and counterparty details, so read those columns from the staging table
+async function withStagingColumns(importedTransactions: ImportedTransaction[]): Promise<ImportedTransaction[]> {
+  if (importedTransactions.length === 0) return importedTransactions;
 
-      // Step 1: Clear foreign key references first, then delete transactions
-      const { error: clearRefsError } = await supabase
-        .from('imported_transactions_test')
-        .update({ matched_transaction_id: null })
-        .eq('user_id', user.id);
+  const { data, error } = await supabase
+    .from('imported_transactions_test')
+    .select('id, import_batch_id, bank_account_id, fitid, counterparty_name, remittance_info, end_to_end_id');
+
+  if (error) {
+    console.warn('Failed to fetch import batch and account ids:', error.message);
+    return importedTransactions;
+  }
+
+  const stagingById = new Map((data || []).map(row => [row.id as string, row]));
+  return importedTransactions.map(t => ({
+    ...t,
+    import_batch_id: stagingById.get(t.id)?.import_batch_id ?? null,
+    bank_account_id: stagingById.get(t.id)?.bank_account_id ?? null,
+    fitid: stagingById.get(t.id)?.fitid ?? null,
+    counterparty_name: stagingById.get(t.id)?.counterparty_name ?? null,
+    remittance_info: stagingById.get(t.id)?.remittance_info ?? null,
+    end_to_end_id: stagingById.get(t.id)?.end_to_end_id ?? null,
+  }));
+}
+
+// Count committed rows per batch, inserted or linked, and mark those batches committed
+async function markBatchesCommitted(committed: { import_batch_id?: string | null }[]): Promise<void> {
+  const counts = new Map<string, number>();
+  committed.forEach(t => {
+    if (t.import_batch_id) counts.set(t.import_batch_id, (counts.get(t.import_batch_id) || 0) + 1);
+  });
+
+  const committedAt = new Date().toISOString();
+  for (const [batchId, count] of counts) {
+    await updateImportBatch(supabase, batchId, {
+      status: 'committed',
+      committed_rows: count,
+      committed_at: committedAt,
+    });
+  }
+}
+
+// Fetch staged rows and build the incremental plan against what's in transactions now
+async function loadCommitPlan(): Promise<{ importedTransactions: ImportedTransaction[]; plan: CommitPlan }> {
+  // Note: No user_id filter needed due to shared data model - all users can see all transactions
+  const { data, error: fetchError } = await supabase
+    .from('matched_transactions_view')
+    .select('*');
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch imported transactions: ${fetchError.message}`);
+  }
+
+  const importedTransactions = await withStagingColumns((data || []) as ImportedTransaction[]);
+
+  const matchedIds = [...new Set(
+    importedTransactions
+      .map(t => t.matched_transaction_id)
+      .filter((id): id is string => !!id)
+  )];
+
+  let existingIds = new Set<string>();
+  if (matchedIds.length > 0) {
+    const { data: existing, error: existingError } = await supabase
+      .from('transactions')
+      .select('id')
+      .in('id', matchedIds);
 
-      if (clearRefsError) {
-        throw new Error(`Failed to clear transaction references: ${clearRefsError.message}`);
+    if (existingError) {
+      throw new Error(`Failed to check matched transactions: ${existingError.message}`);
+    }
+
+    existingIds = new Set((existing || []).map(t => t.id));
+  }
+
+  return {
+    importedTransactions,
+    plan: ImportCommitPlanner.buildPlan(importedTransactions, existingIds),
+  };
+}
+
+async function commitIncremental(userId: string): Promise<CommitImportResult> {
+  const { importedTransactions, plan } = await loadCommitPlan();
+
+  if (importedTransactions.length === 0) {
+    throw new Error('No imported transactions found to commit');
+  }
+
+  const importedById = new Map(importedTransactions.map(t => [t.id, t]));
+  const toInsert = plan.items.filter(i => i.action === 'insert');
+  const toLink = plan.items.filter(i => i.action === 'link');
+
+  // Step 1: Insert only rows with no existing transaction
+  if (toInsert.length > 0) {
+    const newTransactions = toInsert.map(item =>
+      ImportCommitPlanner.toTransactionInsert(importedById.get(item.importedId)!, userId)
+    );
+
+    const { error: insertError } = await supabase
+      .from('transactions')
+      .insert(newTransactions);
+
+    if (insertError) {
+      throw new Error(`Failed to insert new transactions: ${insertError.message}`);
+    }
+  }
+
+  // Step 2: Link matched rows by stamping the bank reference, account, FITID and counterparty
+  // details on the existing transaction. Description, category and metadata are left as they are.
+  // Each update only fills empty columns; what it wrote is recorded so a rollback can clear it.
+  const links: ImportBatchLink[] = [];
+  for (const item of toLink) {
+    const imported = importedById.get(item.importedId);
+    const link: ImportBatchLink = {
+      import_batch_id: imported?.import_batch_id ?? '',
+      transaction_id: item.transactionId!,
+      bank_reference: null,
+      bank_account_id: null,
+      fitid: null,
+      counterparty_name: null,
+      remittance_info: null,
+      end_to_end_id: null,
+    };
+
+    const { data: linked, error: linkError } = await supabase
+      .from('transactions')
+      .update({ bank_reference: item.description })
+      .eq('id', item.transactionId!)
+      .is('bank_reference', null)
+      .select('id');
+
+    if (linkError) {
+      console.warn(`Failed to link transaction ${item.transactionId}:`, linkError.message);
+    } else if (linked?.length) {
+      link.bank_reference = item.description;
+    }
+
+    const bankAccountId = imported?.bank_account_id;
+    if (bankAccountId) {
+      const { data: updated, error: accountError } = await supabase
+        .from('transactions')
+        .update({ bank_account_id: bankAccountId })
+        .eq('id', item.transactionId!)
+        .is('bank_account_id', null)
+        .select('id');
+
+      if (accountError) {
+        console.warn(`Failed to set account on transaction ${item.transactionId}:`, accountError.message);
+      } else if (updated?.length) {
+        link.bank_account_id = bankAccountId;
       }
+    }
 
-      // Now delete all existing manual transactions
-      const { error: deleteError } = await supabase
+    const fitid = imported?.fitid;
+    if (fitid) {
+      const { data: updated, error: fitidError } = await supabase
         .from('transactions')
-        .delete()
-        .eq('user_id', user.id);
+        .update({ fitid })
+        .eq('id', item.transactionId!)
+        .is('fitid', null)
+        .select('id');
 
-      if (deleteError) {
-        throw new Error(`Failed to delete existing transactions: ${deleteError.message}`);
+      if (fitidError) {
+        console.warn(`Failed to set FITID on transaction ${item.transactionId}:`, fitidError.message);
+      } else if (updated?.length) {
+        link.fitid = fitid;
       }
+    }
 
-      // Step 2: Prepare new transactions from imported data
-      const newTransactions = importedTransactions.map(imported => {
-        // For verified transactions, use the existing description and category
-        // For others, use bank description and assigned category (if any)
-        const useExistingData = imported.match_status === 'verified' && imported.existing_description;
-        
-        // Add verification info to description if verified
-        let description = useExistingData ? imported.existing_description : imported.original_description;
-        if (imported.verification_note) {
-          description += ` (${imported.verification_note})`;
-        }
-        
-        return {
-          user_id: user.id,
-          description: description,
-          amount: Math.abs(imported.amount), // Always positive, type determines income/expenditure
-          transaction_date: imported.started_date.split('T')[0], // Convert to date only
-          type: imported.amount > 0 ? 'income' : 'expenditure',
-          category_id: imported.suggested_category_id || null, // Use assigned category from import review
-          bank_reference: imported.original_description // Store original bank description for future duplicate detection
-        };
-      });
-
-      // Step 3: Insert new transactions
-      const { data: insertedTransactions, error: insertError } = await supabase
+    if (imported?.counterparty_name || imported?.remittance_info || imported?.end_to_end_id) {
+      const counterparty = {
+        counterparty_name: imported.counterparty_name ?? null,
+        remittance_info: imported.remittance_info ?? null,
+        end_to_end_id: imported.end_to_end_id ?? null,
+      };
+      const { data: updated, error: counterpartyError } = await supabase
         .from('transactions')
-        .insert(newTransactions)
-        .select();
+        .update(counterparty)
+        .eq('id', item.transactionId!)
+        .is('counterparty_name', null)
+        .is('remittance_info', null)
+        .is('end_to_end_id', null)
+        .select('id');
 
-      if (insertError) {
-        throw new Error(`Failed to insert new transactions: ${insertError.message}`);
+      if (counterpartyError) {
+        console.warn(`Failed to set counterparty on transaction ${item.transactionId}:`, counterpartyError.message);
+      } else if (updated?.length) {
+        Object.assign(link, counterparty);
       }
+    }
 
-      // Step 4: Get categories BEFORE we clear the import data
-      const { data: categories, error: categoryError } = await supabase
-        .from('categories')
-        .select('id, name')
-        .eq('user_id', user.id);
+    if (link.import_batch_id) links.push(link);
+  }
+
+  await recordBatchLinks(supabase, userId, links);
+  await markBatchesCommitted([
+    ...toInsert.map(item => importedById.get(item.importedId)!),
+    ...toLink.map(item => importedById.get(item.importedId)!),
+  ]);
 
-      if (categoryError) {
-        console.warn('Failed to fetch categories for restoration:', categoryError.message);
+  // Step 3: Clear committed rows from staging. Skipped rows stay so they can
+  // be reviewed and committed later.
+  const committedIds = [...toInsert, ...toLink].map(i => i.importedId);
+  if (committedIds.length > 0) {
+    const { error: clearError } = await supabase
+      .from('imported_transactions_test')
+      .delete()
+      .in('id', committedIds);
+
+    if (clearError) {
+      // Don't fail the whole operation if clearing fails
+      console.warn('Failed to clear committed import rows:', clearError.message);
+    }
+  }
+
+  return {
+    mode: 'incremental',
+    inserted: toInsert.length,
+    linked: toLink.length,
+    skipped: plan.summary.skipped,
+    deleted: 0,
+    transfersPaired: 0,
+    dateRange: committedDateRange(
+      committedIds.map(id => importedById.get(id)!.started_date.split('T')[0])
+    ),
+  };
+}
+
+async function commitReplace(userId: string): Promise<CommitImportResult> {
+  // Start a transaction to ensure data consistency
+  // Note: No user_id filter needed due to shared data model - all users can see all transactions
+  const { data, error: fetchError } = await supabase
+    .from('matched_transactions_view')
+    .select('*');
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch imported transactions: ${fetchError.message}`);
+  }
+
+  const importedTransactions = await withStagingColumns((data || []) as ImportedTransaction[]);
+
+  if (importedTransactions.length === 0) {
+    throw new Error('No imported transactions found to commit');
+  }
+
+  // Step 1: Clear foreign key references first, then delete transactions
+  const { error: clearRefsError } = await supabase
+    .from('imported_transactions_test')
+    .update({ matched_transaction_id: null })
+    .eq('user_id', userId);
+
+  if (clearRefsError) {
+    throw new Error(`Failed to clear transaction references: ${clearRefsError.message}`);
+  }
+
+  // Now delete all existing manual transactions
+  const { count: deletedCount, error: deleteError } = await supabase
+    .from('transactions')
+    .delete({ count: 'exact' })
+    .eq('user_id', userId);
+
+  if (deleteError) {
+    throw new Error(`Failed to delete existing transactions: ${deleteError.message}`);
+  }
+
+  // Step 2: Prepare new transactions from imported data
+  // For verified transactions, use the existing description and category
+  // For others, use bank description and assigned category (if any)
+  const newTransactions = importedTransactions.map(imported =>
+    ImportCommitPlanner.toTransactionInsert(imported, userId, { preferExistingDescription: true })
+  );
+
+  // Step 3: Insert new transactions
+  const { data: insertedTransactions, error: insertError } = await supabase
+    .from('transactions')
+    .insert(newTransactions)
+    .select();
+
+  if (insertError) {
+    throw new Error(`Failed to insert new transactions: ${insertError.message}`);
+  }
+
+  await markBatchesCommitted(newTransactions);
+
+  // Step 4: Get categories BEFORE we clear the import data
+  const { data: categories, error: categoryError } = await supabase
+    .from('categories')
+    .select('id, name')
+    .eq('user_id', userId);
+
+  if (categoryError) {
+    console.warn('Failed to fetch categories for restoration:', categoryError.message);
+  }
+
+  // Step 5: For verified transactions, restore category assignments
+  const verifiedTransactions = importedTransactions.filter(t =>
+    t.match_status === 'verified' && t.existing_category_name
+  );
+
+  if (verifiedTransactions.length > 0 && categories) {
+    const categoryMap = new Map(categories.map(c => [c.name, c.id]));
+
+    // Update transactions with category IDs
+    for (const verified of verifiedTransactions) {
+      const categoryId = categoryMap.get(verified.existing_category_name!);
+      if (!categoryId) continue;
+
+      // Find the corresponding new transaction
+      const transactionIndex = importedTransactions.findIndex(t => t.id === verified.id);
+      const newTransaction = insertedTransactions?.[transactionIndex];
+      if (!newTransaction) continue;
+
+      const { error: updateError } = await supabase
+        .from('transactions')
+        .update({ category_id: categoryId })
+        .eq('id', newTransaction.id);
+
+      if (updateError) {
+        console.warn(`Failed to restore category for transaction ${newTransaction.id}:`, updateError.message);
       }
+    }
+  }
 
-      // Step 5: For verified transactions, restore category assignments
-      const verifiedTransactions = importedTransactions.filter(t => 
-        t.match_status === 'verified' && t.existing_category_name
-      );
-
-      let categoriesRestored = 0;
-      if (verifiedTransactions.length > 0 && categories) {
-        const categoryMap = new Map(categories.map(c => [c.name, c.id]));
-        
-        // Update transactions with category IDs
-        for (let i = 0; i < verifiedTransactions.length; i++) {
-          const verified = verifiedTransactions[i];
-          const categoryId = categoryMap.get(verified.existing_category_name!);
-          
-          if (categoryId) {
-            // Find the corresponding new transaction
-            const transactionIndex = importedTransactions.findIndex(t => t.id === verified.id);
-            if (transactionIndex >= 0 && insertedTransactions![transactionIndex]) {
-              const newTransaction = insertedTransactions![transactionIndex];
-              
-              const { error: updateError } = await supabase
-                .from('transactions')
-                .update({ category_id: categoryId })
-                .eq('id', newTransaction.id);
-              
-              if (!updateError) {
-                categoriesRestored++;
-              } else {
-                console.warn(`Failed to restore category for transaction ${newTransaction.id}:`, updateError.message);
-              }
-            }
-          }
-        }
+  // Step 6: Clear the imported test data (after we've used the category info)
+  const { error: clearError } = await supabase
+    .from('imported_transactions_test')
+    .delete()
+    .eq('user_id', userId);
+
+  if (clearError) {
+    // Don't fail the whole operation if clearing fails
+    console.warn('Failed to clear imported test data:', clearError.message);
+  }
+
+  return {
+    mode: 'replace',
+    inserted: insertedTransactions?.length || 0,
+    linked: 0,
+    skipped: 0,
+    deleted: deletedCount || 0,
+    transfersPaired: 0,
+    dateRange: committedDateRange(newTransactions.map(t => t.transaction_date)),
+  };
+}
+
+export function useCommitImport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (options: CommitImportOptions = {}): Promise<CommitImportResult> => {
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User not authenticated');
       }
 
-      // Step 6: Clear the imported test data (after we've used the category info)
-      const { error: clearError } = await supabase
-        .from('imported_transactions_test')
-        .delete()
-        .eq('user_id', user.id);
+      // Incremental is the default - replace wipes manual entries, metadata and category edits
+      const result = options.mode === 'replace'
+        ? await commitReplace(user.id)
+        : await commitIncremental(user.id);
 
-      if (clearError) {
-        // Don't fail the whole operation if clearing fails
-        console.warn('Failed to clear imported test data:', clearError.message);
+      // Movements between our own accounts arrive as an expenditure and an income.
+      // Only the committed dates are scanned - older rows are left to the Transfers page.
+      if (result.dateRange) {
+        try {
+          result.transfersPaired = await detectTransferPairs(supabase, user.id, result.dateRange);
+        } catch (error) {
+          console.warn('Transfer detection failed:', error);
+        }
       }
 
-      return {
-        totalCommitted: insertedTransactions!.length,
-        verifiedWithCategories: verifiedTransactions.length,
-        readyForCategorization: insertedTransactions!.length - verifiedTransactions.length
-      };
+      return result;
     },
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['imported-transactions'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
-      
-      toast.success(
-        `Import committed! ${result.totalCommitted} transactions imported. ` +
-        `${result.verifiedWithCategories} with categories restored, ` +
-        `${result.readyForCategorization} ready for categorization.`
-      );
+      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['transfer-pairs'] });
+
+      if (result.mode === 'replace') {
+        toast.success(
+          `Import committed! ${result.deleted} transactions replaced with ${result.inserted} bank transactions.`
+        );
+      } else {
+        toast.success(
+          `Import committed! ${result.inserted} inserted, ${result.linked} linked, ` +
+          `${result.skipped} skipped.`
+        );
+      }
+
+      if (result.transfersPaired > 0) {
+        toast.info(`${result.transfersPaired} transfers between accounts detected - review them on the Transfers page.`);
+      }
     },
     onError: (error) => {
       toast.error(`Failed to commit import: ${error.message}`);
@@ -164,7 +442,7 @@ export function useCommitImport() {
 
 export function useGetCommitPreview() {
   return useMutation({
-    mutationFn: async () => {
+    mutationFn: async (): Promise<CommitPreview> => {
       const { data: { user }, error: userError } = await supabase.auth.getUser();
       if (userError || !user) {
         throw new Error('User not authenticated');
@@ -180,25 +458,17 @@ export function useGetCommitPreview() {
         throw new Error(`Failed to count manual transactions: ${manualError.message}`);
       }
 
-      // Get imported transactions breakdown
-      const { data: importedTransactions, error: importedError } = await supabase
-        .from('imported_transactions_test')
-        .select('match_status, verified')
-        .eq('user_id', user.id);
-
-      if (importedError) {
-        throw new Error(`Failed to fetch imported transactions: ${importedError.message}`);
-      }
+      // Nothing is written here - the plan is what an incremental commit would do
+      const { importedTransactions, plan } = await loadCommitPlan();
 
-      const stats = {
+      return {
         manualTransactionsToDelete: manualCount || 0,
-        totalImportedTransactions: importedTransactions?.length || 0,
-        verifiedTransactions: importedTransactions?.filter(t => t.match_status === 'verified').length || 0,
-        unmatchedTransactions: importedTransactions?.filter(t => t.match_status === 'unmatched').length || 0,
-        rejectedTransactions: importedTransactions?.filter(t => t.match_status === 'reviewed').length || 0
+        totalImportedTransactions: importedTransactions.length,
+        verifiedTransactions: importedTransactions.filter(t => t.match_status === 'verified').length,
+        unmatchedTransactions: importedTransactions.filter(t => t.match_status === 'unmatched').length,
+        rejectedTransactions: importedTransactions.filter(t => t.match_status === 'reviewed').length,
+        plan,
       };
-
-      return stats;
     }
   });
 }
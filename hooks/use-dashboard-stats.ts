@@ -4,6 +4,7 @@ import { useQuery } from '@tanstack/react-query';
 import { createClient } from '@/supabase/client';
 import { useAuth } from '@/lib/auth-context';
 import { useDateFilter } from '@/lib/date-filter-context';
+import { getBalanceBroughtForward } from '@/lib/bank-accounts';
 
 interface DashboardStats {
   totalIncome: number;
@@ -32,6 +33,7 @@ async function getTypeTotals(
     .from('transactions')
     .select('amount, type')
     .in('type', ['income', 'expenditure'])
+    .is('fixed_asset_id', null)
     .gte('transaction_date', startDate)
     .lte('transaction_date', endDate);
 
@@ -80,6 +82,12 @@ function toDateString(date: Date): string {
   return date.toISOString().split('T')[0];
 }
 
+function nextDay(dateString: string): string {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return toDateString(date);
+}
+
 export function useDashboardStats() {
   const { user } = useAuth();
   const { dateFilter, getDateRange, isClient } = useDateFilter();
@@ -110,7 +118,7 @@ export function useDashboardStats() {
         : toDateString(now);
 
       // Run queries in parallel — each fetches only what's needed
-      const [currentMonth, previousMonth, filtered, capital] = await Promise.all([
+      const [currentMonth, previousMonth, filtered, capital, closingBalance] = await Promise.all([
         // Current month totals
         getTypeTotals(supabase, currentMonthStart, currentMonthEnd),
         // Previous month totals
@@ -119,6 +127,8 @@ export function useDashboardStats() {
         getTypeTotals(supabase, filteredStart, filteredEnd),
         // Capital totals for filtered period
         getCapitalTotals(supabase, filteredStart, filteredEnd),
+        // Bank balance at the end of the filtered period, from the account opening balances
+        getBalanceBroughtForward(supabase, nextDay(filteredEnd)),
       ]);
 
       // Calculate percentage changes
@@ -142,7 +152,7 @@ export function useDashboardStats() {
         netBalance: filtered.income - filtered.expenditure,
         totalCapitalIn: capital.injections,
         totalCapitalOut: capital.drawings,
-        bankBalance: filtered.income - filtered.expenditure + capital.injections - capital.drawings,
+        bankBalance: closingBalance,
         currentMonthIncome: currentMonth.income,
         currentMonthExpenditure: currentMonth.expenditure,
         previousMonthIncome: previousMonth.income,
@@ -0,0 +1,216 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import { syncFixedAssetEntries, type FixedAsset } from '@/lib/fixed-assets';
+
+export type FixedAssetFormData = Pick<
+  FixedAsset,
+  | 'name'
+  | 'source_transaction_id'
+  | 'cost'
+  | 'acquisition_date'
+  | 'useful_life_months'
+  | 'method'
+  | 'reducing_balance_rate'
+  | 'residual_value'
+  | 'depreciation_category_id'
+>;
+
+export interface FixedAssetDisposalData {
+  asset: FixedAsset;
+  disposal_date: string;
+  disposal_proceeds: number;
+  /** Income transaction holding the sale proceeds, taken out of the P&L */
+  disposal_transaction_id: string | null;
+}
+
+/**
+ * Hook for the fixed asset register, newest acquisition first
+ */
+export function useFixedAssets() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['fixed-assets', user?.id],
+    queryFn: async (): Promise<FixedAsset[]> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      // Note: No user_id filter - fixed assets follow the shared data model
+      const supabase = createClient();
+      const { data, error } = await supabase
+        .from('fixed_assets')
+        .select('*')
+        .order('acquisition_date', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as FixedAsset[];
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export interface DisposalCandidate {
+  id: string;
+  description: string;
+  amount: number;
+  transaction_date: string;
+}
+
+/**
+ * Hook for income transactions within a month of `date` that could hold an asset's sale proceeds
+ */
+export function useDisposalCandidates(date: string | null) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['fixed-asset-disposal-candidates', user?.id, date],
+    queryFn: async (): Promise<DisposalCandidate[]> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const day = parseISO(date!);
+      const supabase = createClient();
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, description, amount, transaction_date')
+        .eq('type', 'income')
+        .is('fixed_asset_id', null)
+        .gte('transaction_date', format(subDays(day, 30), 'yyyy-MM-dd'))
+        .lte('transaction_date', format(addDays(day, 30), 'yyyy-MM-dd'))
+        .order('transaction_date', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as DisposalCandidate[];
+    },
+    enabled: !!user?.id && !!date,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useFixedAssetMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidateAssets = () => {
+    queryClient.invalidateQueries({ queryKey: ['fixed-assets'] });
+    queryClient.invalidateQueries({ queryKey: ['balance-sheet'] });
+    queryClient.invalidateQueries({ queryKey: ['capital-allowances'] });
+    queryClient.invalidateQueries({ queryKey: ['transactions-paginated'] });
+  };
+
+  // Tag a purchase or sale transaction so the P&L uses the asset's entries instead
+  const linkTransaction = async (transactionId: string, assetId: string) => {
+    const supabase = createClient();
+    const { error } = await supabase
+      .from('transactions')
+      .update({ fixed_asset_id: assetId })
+      .eq('id', transactionId);
+
+    if (error) throw error;
+  };
+
+  const createAsset = useMutation({
+    mutationFn: async (data: FixedAssetFormData): Promise<FixedAsset> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { data: asset, error } = await supabase
+        .from('fixed_assets')
+        .insert({ ...data, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      try {
+        if (data.source_transaction_id) {
+          await linkTransaction(data.source_transaction_id, asset.id);
+        }
+        await syncFixedAssetEntries(supabase, asset as FixedAsset);
+      } catch (linkError) {
+        // Don't leave a half-created asset behind; deleting it also releases the transaction
+        await supabase.from('fixed_assets').delete().eq('id', asset.id);
+        throw linkError;
+      }
+
+      return asset as FixedAsset;
+    },
+    onSuccess: () => {
+      invalidateAssets();
+      toast.success('Fixed asset added to the register');
+    },
+    onError: (error: Error) => {
+      console.error('Error creating fixed asset:', error);
+      toast.error('Failed to create fixed asset. Please try again.');
+    },
+  });
+
+  const disposeAsset = useMutation({
+    mutationFn: async ({ asset, disposal_date, disposal_proceeds, disposal_transaction_id }: FixedAssetDisposalData) => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { data: updated, error } = await supabase
+        .from('fixed_assets')
+        .update({
+          disposal_date,
+          disposal_proceeds,
+          disposal_transaction_id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', asset.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (disposal_transaction_id) {
+        await linkTransaction(disposal_transaction_id, asset.id);
+      }
+      await syncFixedAssetEntries(supabase, updated as FixedAsset);
+
+      return updated as FixedAsset;
+    },
+    onSuccess: () => {
+      invalidateAssets();
+      toast.success('Disposal recorded');
+    },
+    onError: (error: Error) => {
+      console.error('Error disposing fixed asset:', error);
+      toast.error('Failed to record disposal. Please try again.');
+    },
+  });
+
+  // Deleting an asset returns its purchase and sale transactions to the P&L
+  const deleteAsset = useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('fixed_assets')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateAssets();
+      toast.success('Fixed asset deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting fixed asset:', error);
+      toast.error('Failed to delete fixed asset. Please try again.');
+    },
+  });
+
+  return {
+    createAsset,
+    disposeAsset,
+    deleteAsset,
+  };
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import type { ImportBatch } from '@/lib/import-batches';
+import { countReconciledTransactions } from '@/lib/reconciliation-sessions';
+
+export interface RollbackResult {
+  transactionsDeleted: number;
+  stagedRowsDeleted: number;
+  patternsDeleted: number;
+  patternsReverted: number;
+  /** Existing transactions the batch linked to, with the details it stamped cleared */
+  linksCleared: number;
+  /** Deleted transactions that were part of a signed-off reconciliation */
+  reconciledDeleted: number;
+}
+
+// Keeps .in() filters well under the PostgREST URL length limit
+const ID_CHUNK_SIZE = 200;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Hook for listing import batches, newest first
+ */
+export function useImportBatches() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['import-batches', user?.id],
+    queryFn: async (): Promise<ImportBatch[]> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      // Note: No user_id filter - import batches follow the shared data model
+      const supabase = createClient();
+      const { data, error } = await supabase
+        .from('import_batches')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as ImportBatch[];
+    },
+    enabled: !!user?.id,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * Hook for undoing an import batch: removes its transactions, their metadata,
+ * any staged rows and the pattern learning it caused, clears what it stamped on
+ * transactions it linked to, and reopens the expected payments it fulfilled
+ */
+export function useRollbackImportBatch() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (batchId: string): Promise<RollbackResult> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+
+      // 1. Find the transactions this batch created, to warn about signed-off reconciliations
+      const { data: transactions, error: fetchError } = await supabase
+        .from('transactions')
+        .select('id')
+        .eq('import_batch_id', batchId);
+
+      if (fetchError) {
+        throw new Error(`Failed to fetch batch transactions: ${fetchError.message}`);
+      }
+
+      const transactionIds = (transactions || []).map(t => t.id as string);
+
+      let reconciledDeleted = 0;
+      for (const ids of chunk(transactionIds, ID_CHUNK_SIZE)) {
+        reconciledDeleted += await countReconciledTransactions(supabase, ids);
+      }
+
+      // 2. Everything else happens in one database transaction, so a failure leaves the
+      // batch untouched. Batches with VAT-locked transactions are refused outright.
+      const { data: rolledBack, error: rollbackError } = await supabase
+        .rpc('rollback_import_batch', { target_batch_id: batchId });
+
+      if (rollbackError) {
+        throw new Error(rollbackError.message);
+      }
+
+      const counts = rolledBack as {
+        transactions_deleted: number;
+        staged_rows_deleted: number;
+        links_cleared: number;
+        patterns_deleted: number;
+        patterns_reverted: number;
+      };
+
+      return {
+        transactionsDeleted: counts.transactions_deleted,
+        stagedRowsDeleted: counts.staged_rows_deleted,
+        patternsDeleted: counts.patterns_deleted,
+        patternsReverted: counts.patterns_reverted,
+        linksCleared: counts.links_cleared,
+        reconciledDeleted,
+      };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['imported-transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['categorization-patterns'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['recent-transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['monthly-data'] });
+      queryClient.invalidateQueries({ queryKey: ['category-breakdown'] });
+      queryClient.invalidateQueries({ queryKey: ['expected-payments'] });
+
+      toast.success(
+        `Import rolled back: ${result.transactionsDeleted} transactions removed, ` +
+        `${result.patternsDeleted + result.patternsReverted} patterns reverted.`
+      );
+
+      if (result.reconciledDeleted > 0) {
+        toast.warning(
+          `${result.reconciledDeleted} of the removed transactions were in a signed-off reconciliation period - ` +
+          'those reconciliations may no longer match.'
+        );
+      }
+    },
+    onError: (error: Error) => {
+      console.error('Import rollback failed:', error);
+      toast.error(`Failed to roll back import: ${error.message}`);
+    },
+  });
+}
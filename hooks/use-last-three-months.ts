@@ -54,6 +54,7 @@ export function useLastThreeMonths() {
         .from('transactions')
         .select('amount, type, transaction_date')
         .in('type', ['income', 'expenditure'])
+        .is('fixed_asset_id', null)
         .gte('transaction_date', toDateString(rangeStart))
         .lte('transaction_date', toDateString(rangeEnd))
         .order('transaction_date', { ascending: true });
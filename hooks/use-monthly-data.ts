@@ -24,6 +24,8 @@ export function useMonthlyData() {
       const { data, error } = await supabase
         .from('transactions')
         .select('amount, type, transaction_date')
+        .neq('type', 'transfer')
+        .is('fixed_asset_id', null)
         .gte('transaction_date', sixMonthsAgo.toISOString().split('T')[0])
         .order('transaction_date', { ascending: true });
 
@@ -0,0 +1,188 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import {
+  markTransactionsReconciled,
+  type ReconciliationFlag,
+  type ReconciliationSession,
+} from '@/lib/reconciliation-sessions';
+
+export interface ReconciliationSessionInput {
+  id?: string;
+  bank_account_id: string | null;
+  statement_date: string;
+  statement_balance: number;
+  calculated_balance: number;
+  variance: number;
+}
+
+/**
+ * Hook for listing reconciliation sessions with their flagged items, latest statement first
+ */
+export function useReconciliationSessions() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['reconciliation-sessions', user?.id],
+    queryFn: async (): Promise<ReconciliationSession[]> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      // Note: No user_id filter - reconciliations follow the shared data model
+      const supabase = createClient();
+      const { data, error } = await supabase
+        .from('reconciliation_sessions')
+        .select('*, reconciliation_session_items(transaction_id, flag)')
+        .order('statement_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as ReconciliationSession[];
+    },
+    enabled: !!user?.id,
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useReconciliationSessionMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidateSessions = () => {
+    queryClient.invalidateQueries({ queryKey: ['reconciliation-sessions'] });
+  };
+
+  // Creates the draft on first reconcile, then keeps its balances up to date
+  const saveSession = useMutation({
+    mutationFn: async ({ id, ...data }: ReconciliationSessionInput): Promise<ReconciliationSession> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { data: session, error } = id
+        ? await supabase
+            .from('reconciliation_sessions')
+            .update({ ...data, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .select()
+            .single()
+        : await supabase
+            .from('reconciliation_sessions')
+            .insert({ ...data, user_id: user.id })
+            .select()
+            .single();
+
+      if (error) throw error;
+      return session as ReconciliationSession;
+    },
+    onSuccess: () => {
+      invalidateSessions();
+    },
+    onError: (error: Error) => {
+      console.error('Error saving reconciliation session:', error);
+      toast.error('Failed to save reconciliation. Please try again.');
+    },
+  });
+
+  const setItemFlag = useMutation({
+    mutationFn: async ({
+      sessionId,
+      transactionId,
+      flag,
+    }: {
+      sessionId: string;
+      transactionId: string;
+      flag: ReconciliationFlag | null;
+    }): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = flag
+        ? await supabase
+            .from('reconciliation_session_items')
+            .upsert({ session_id: sessionId, transaction_id: transactionId, flag }, { onConflict: 'session_id,transaction_id' })
+        : await supabase
+            .from('reconciliation_session_items')
+            .delete()
+            .eq('session_id', sessionId)
+            .eq('transaction_id', transactionId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateSessions();
+    },
+    onError: (error: Error) => {
+      console.error('Error saving transaction flag:', error);
+      toast.error('Failed to save flag. Please try again.');
+    },
+  });
+
+  const signOff = useMutation({
+    mutationFn: async (session: ReconciliationSessionInput & { id: string; notes?: string }): Promise<number> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { data: signed, error } = await supabase
+        .from('reconciliation_sessions')
+        .update({
+          statement_balance: session.statement_balance,
+          calculated_balance: session.calculated_balance,
+          variance: session.variance,
+          notes: session.notes || null,
+          status: 'signed_off',
+          signed_off_by: user.id,
+          signed_off_by_email: user.email ?? null,
+          signed_off_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', session.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return markTransactionsReconciled(supabase, signed as ReconciliationSession);
+    },
+    onSuccess: (reconciledCount) => {
+      invalidateSessions();
+      queryClient.invalidateQueries({ queryKey: ['transactions-paginated'] });
+      toast.success(`Reconciliation signed off - ${reconciledCount} transactions marked as reconciled`);
+    },
+    onError: (error: Error) => {
+      console.error('Error signing off reconciliation:', error);
+      toast.error('Failed to sign off reconciliation. Please try again.');
+    },
+  });
+
+  const deleteSession = useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('reconciliation_sessions')
+        .delete()
+        .eq('id', id)
+        .eq('status', 'draft');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateSessions();
+      toast.success('Draft reconciliation deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting reconciliation session:', error);
+      toast.error('Failed to delete reconciliation. Please try again.');
+    },
+  });
+
+  return {
+    saveSession,
+    setItemFlag,
+    signOff,
+    deleteSession,
+  };
+}
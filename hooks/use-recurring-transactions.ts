@@ -0,0 +1,242 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { addDays, format, subDays } from 'date-fns';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import {
+  RECURRING_GENERATE_AHEAD_DAYS,
+  RECURRING_MATCH_DAYS,
+  RECURRING_TRANSACTION_SELECT,
+  fetchExpectedPayments,
+  generateExpectedPayments,
+  nextDueDateAfter,
+  type ExpectedPayment,
+  type ExpectedPaymentStatus,
+  type RecurringTransaction,
+} from '@/lib/recurring-transactions';
+
+export type RecurringTransactionFormData = Pick<
+  RecurringTransaction,
+  | 'description'
+  | 'type'
+  | 'amount'
+  | 'category_id'
+  | 'bank_account_id'
+  | 'cadence'
+  | 'start_date'
+  | 'end_date'
+  | 'match_text'
+  | 'is_active'
+>;
+
+/** How far back the schedule shows payments */
+const EXPECTED_PAYMENTS_HISTORY_DAYS = 90;
+
+const generateThrough = () => format(addDays(new Date(), RECURRING_GENERATE_AHEAD_DAYS), 'yyyy-MM-dd');
+
+/**
+ * First due date to generate for a new or changed template. Dates too old for a
+ * bank row to match are skipped, so rent paid since years ago doesn't start
+ * with years of missing payments.
+ */
+function firstNextDate(data: RecurringTransactionFormData): string {
+  const before = format(subDays(new Date(), RECURRING_MATCH_DAYS + 1), 'yyyy-MM-dd');
+  if (data.start_date > before) return data.start_date;
+  return nextDueDateAfter(data, before) ?? data.end_date ?? data.start_date;
+}
+
+/**
+ * Hook for the recurring transaction templates, by description
+ */
+export function useRecurringTransactions() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['recurring-transactions', user?.id],
+    queryFn: async (): Promise<RecurringTransaction[]> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      // Note: No user_id filter - recurring transactions follow the shared data model
+      const supabase = createClient();
+      const { data, error } = await supabase
+        .from('recurring_transactions')
+        .select(RECURRING_TRANSACTION_SELECT)
+        .order('description', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as RecurringTransaction[];
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook for expected payments from the last few months up to the generator's horizon
+ */
+export function useExpectedPayments() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['expected-payments', user?.id],
+    queryFn: async (): Promise<ExpectedPayment[]> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      return fetchExpectedPayments(createClient(), {
+        from: format(subDays(new Date(), EXPECTED_PAYMENTS_HISTORY_DAYS), 'yyyy-MM-dd'),
+        through: generateThrough(),
+      });
+    },
+    enabled: !!user?.id,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useRecurringTransactionMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['recurring-transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['expected-payments'] });
+  };
+
+  // New templates start generating straight away
+  const createRecurring = useMutation({
+    mutationFn: async (data: RecurringTransactionFormData): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('recurring_transactions')
+        .insert({ ...data, next_date: firstNextDate(data), user_id: user.id });
+
+      if (error) throw error;
+
+      await generateExpectedPayments(supabase, user.id, generateThrough());
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Recurring transaction added');
+    },
+    onError: (error: Error) => {
+      console.error('Error creating recurring transaction:', error);
+      toast.error('Failed to add recurring transaction. Please try again.');
+    },
+  });
+
+  // Pending payments already generated are replaced from the changed schedule;
+  // fulfilled and skipped ones are kept
+  const updateRecurring = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: RecurringTransactionFormData }): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('recurring_transactions')
+        .update({ ...data, next_date: firstNextDate(data), updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      const { error: deleteError } = await supabase
+        .from('expected_payments')
+        .delete()
+        .eq('recurring_transaction_id', id)
+        .eq('status', 'pending');
+
+      if (deleteError) throw deleteError;
+
+      await generateExpectedPayments(supabase, user.id, generateThrough());
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Recurring transaction updated');
+    },
+    onError: (error: Error) => {
+      console.error('Error updating recurring transaction:', error);
+      toast.error('Failed to update recurring transaction. Please try again.');
+    },
+  });
+
+  const deleteRecurring = useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('recurring_transactions')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Recurring transaction deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting recurring transaction:', error);
+      toast.error('Failed to delete recurring transaction. Please try again.');
+    },
+  });
+
+  const generate = useMutation({
+    mutationFn: async (): Promise<number> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      return generateExpectedPayments(createClient(), user.id, generateThrough());
+    },
+    onSuccess: (count) => {
+      invalidate();
+      toast.success(count > 0
+        ? `${count} expected ${count === 1 ? 'payment' : 'payments'} generated`
+        : 'Expected payments are up to date');
+    },
+    onError: (error: Error) => {
+      console.error('Error generating expected payments:', error);
+      toast.error('Failed to generate expected payments. Please try again.');
+    },
+  });
+
+  // Marking paid by hand is for payments that won't come through a bank import
+  const setExpectedPaymentStatus = useMutation({
+    mutationFn: async ({ payment, status }: { payment: ExpectedPayment; status: ExpectedPaymentStatus }): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const fulfilled = status === 'fulfilled';
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('expected_payments')
+        .update({
+          status,
+          fulfilled_date: fulfilled ? format(new Date(), 'yyyy-MM-dd') : null,
+          fulfilled_amount: fulfilled ? payment.amount : null,
+          fulfilled_description: null,
+          import_batch_id: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', payment.id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { status }) => {
+      invalidate();
+      toast.success(status === 'fulfilled' ? 'Marked as paid' : status === 'skipped' ? 'Payment skipped' : 'Payment expected again');
+    },
+    onError: (error: Error) => {
+      console.error('Error updating expected payment:', error);
+      toast.error('Failed to update expected payment. Please try again.');
+    },
+  });
+
+  return {
+    createRecurring,
+    updateRecurring,
+    deleteRecurring,
+    generate,
+    setExpectedPaymentStatus,
+  };
+}
@@ -4,10 +4,12 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { createClient } from '@/supabase/client';
 import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
+import { computeNextRun } from '@/lib/report-schedule';
 import type {
   Report,
   ReportTemplate,
   ScheduledReport,
+  ScheduledReportRun,
   CreateReportRequest,
   UpdateReportRequest,
   CreateTemplateRequest,
@@ -439,6 +441,7 @@ export function useScheduleMutations() {
           report_id: data.report_id,
           schedule_config: data.schedule_config,
           is_active: true,
+          next_run: computeNextRun(data.schedule_config).toISOString(),
         })
         .select()
         .single();
@@ -463,7 +466,11 @@ export function useScheduleMutations() {
       const supabase = createClient();
       const { data: scheduledReport, error } = await supabase
         .from('scheduled_reports')
-        .update(data)
+        .update({
+          ...data,
+          // Changing the schedule moves the next run to match
+          ...(data.schedule_config && { next_run: computeNextRun(data.schedule_config).toISOString() }),
+        })
         .eq('id', scheduleId)
         .select()
         .single();
@@ -504,13 +511,17 @@ export function useScheduleMutations() {
   });
 
   const toggleSchedule = useMutation({
-    mutationFn: async ({ scheduleId, isActive }: { scheduleId: string; isActive: boolean }): Promise<ScheduledReport> => {
+    mutationFn: async ({ scheduleId, isActive, scheduleConfig }: { scheduleId: string; isActive: boolean; scheduleConfig?: ScheduledReport['schedule_config'] }): Promise<ScheduledReport> => {
       if (!user?.id) throw new Error('User not authenticated');
 
       const supabase = createClient();
       const { data: scheduledReport, error } = await supabase
         .from('scheduled_reports')
-        .update({ is_active: isActive })
+        .update({
+          is_active: isActive,
+          // Resuming shouldn't fire every run missed while paused
+          ...(isActive && scheduleConfig && { next_run: computeNextRun(scheduleConfig).toISOString() }),
+        })
         .eq('id', scheduleId)
         .select()
         .single();
@@ -536,6 +547,32 @@ export function useScheduleMutations() {
   };
 }
 
+export function useScheduledReportRuns(limit: number = 100) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['scheduled-report-runs', user?.id, limit],
+    queryFn: async (): Promise<ScheduledReportRun[]> => {
+      if (!user?.id) {
+        throw new Error('User not authenticated');
+      }
+
+      // Note: No user_id filter - run history follows the shared data model
+      const supabase = createClient();
+      const { data, error } = await supabase
+        .from('scheduled_report_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id,
+    staleTime: 60 * 1000,
+  });
+}
+
 // =====================================================
 // REPORT STATISTICS
 // =====================================================
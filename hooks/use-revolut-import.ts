@@ -4,30 +4,72 @@ import { useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { createClient } from '@/supabase/client';
 import { RevolutCSVParser } from '@/lib/revolut-parser';
+import { OFXParser } from '@/lib/ofx-parser';
+import { CAMT053Parser } from '@/lib/camt053-parser';
+import { MT940Parser } from '@/lib/mt940-parser';
+import { BANK_CSV_PROFILES, applyCSVProfile, readCSVFile, toRevolutTransactions, type BankCSVProfile } from '@/lib/bank-csv-profiles';
 import { TransactionMatcher } from '@/lib/transaction-matcher';
 import { PatternMatcher } from '@/lib/pattern-matcher';
+import {
+  computeFileChecksum,
+  createImportBatch,
+  findPreviousImports,
+  updateImportBatch,
+  type ImportBatchSource
+} from '@/lib/import-batches';
+import { fetchBankAccounts, matchAccountByProduct } from '@/lib/bank-accounts';
+import { recordStatementLines } from '@/lib/statement-lines';
+import {
+  RECURRING_MATCH_DAYS,
+  fetchExpectedPayments,
+  fulfilExpectedPayments,
+  generateExpectedPayments
+} from '@/lib/recurring-transactions';
+import { addDays, format, parseISO } from 'date-fns';
 import {
   ImportedTransaction,
   MatchingResult,
-  RevolutImportStats
+  RevolutImportStats,
+  RevolutTransaction
 } from '@/lib/revolut-types';
 import { toast } from 'sonner';
 
 const supabase = createClient();
 
-// Hook for importing Revolut CSV file
+// Read a statement file with the parser for its extension. CSVs from a bank with a
+// profile go through the profile, anything else is read as a Revolut personal or Business CSV
+async function parseStatementFile(file: File, csvProfiles: BankCSVProfile[]): Promise<RevolutTransaction[]> {
+  if (OFXParser.isOFXFile(file)) return OFXParser.parseOFX(await OFXParser.validateOFXFile(file));
+  if (CAMT053Parser.isCAMT053File(file)) return CAMT053Parser.parseCAMT053(await CAMT053Parser.validateCAMT053File(file));
+  if (MT940Parser.isMT940File(file)) return MT940Parser.parseMT940(await MT940Parser.validateMT940File(file));
+
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    const { profile, rows } = await readCSVFile(file, csvProfiles);
+    // The Revolut Business profile is read by the Revolut parser, which keeps state and account
+    if (profile && !profile.parser) {
+      const transactions = toRevolutTransactions(applyCSVProfile(rows, profile), profile);
+      if (transactions.length === 0) throw new Error(`No transactions could be read from this ${profile.name} CSV`);
+      return transactions;
+    }
+  }
+  return RevolutCSVParser.parseCSV(await RevolutCSVParser.validateCSVFile(file));
+}
+
+// Hook for importing a Revolut CSV, bank CSV, OFX/QFX, CAMT.053 or MT940 statement file
 export function useRevolutImport() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [importStats, setImportStats] = useState<RevolutImportStats | null>(null);
   const queryClient = useQueryClient();
 
-  const importCSV = async (file: File): Promise<MatchingResult> => {
+  const importFile = async (
+    file: File,
+    options: { source?: ImportBatchSource; bankAccountId?: string; csvProfiles?: BankCSVProfile[] } = {}
+  ): Promise<MatchingResult> => {
     setIsProcessing(true);
     
     try {
-      // 1. Validate and parse CSV file
-      const csvContent = await RevolutCSVParser.validateCSVFile(file);
-      const revolutTransactions = RevolutCSVParser.parseCSV(csvContent);
+      // 1. Validate and parse the file
+      const revolutTransactions = await parseStatementFile(file, options.csvProfiles ?? BANK_CSV_PROFILES);
       
       // Generate import statistics
       const stats = RevolutCSVParser.generateStats(revolutTransactions);
@@ -39,6 +81,45 @@ export function useRevolutImport() {
         throw new Error('User not authenticated');
       }
 
+      // 2.5. Record this run as an import batch so it can be rolled back later
+      const fileChecksum = await computeFileChecksum(file);
+      const previousImports = await findPreviousImports(supabase, fileChecksum);
+      if (previousImports.length > 0) {
+        toast.warning(`This file was already imported on ${new Date(previousImports[0].created_at).toLocaleDateString('en-GB')}`);
+      }
+
+      const batch = await createImportBatch(supabase, {
+        userId: user.id,
+        source: options.source ?? 'revolut',
+        fileName: file.name,
+        fileChecksum,
+        totalRows: revolutTransactions.length,
+      });
+
+      // 2.6. Use the chosen account, or detect one per row from the Product column
+      const bankAccounts = options.bankAccountId ? [] : await fetchBankAccounts(supabase);
+      const resolveAccountId = (product: string): string | null =>
+        options.bankAccountId ?? matchAccountByProduct(product, bankAccounts)?.id ?? null;
+
+      // 2.7. Keep completed rows and their running balance for line-by-line reconciliation.
+      // Pending and reverted rows never reach the balance.
+      await recordStatementLines(supabase, {
+        userId: user.id,
+        importBatchId: batch.id,
+        lines: revolutTransactions
+          .filter(t => t.state === 'COMPLETED' && t.completedDate && Number.isFinite(t.balance))
+          .map(t => ({
+            bankAccountId: resolveAccountId(t.product),
+            product: t.product || null,
+            date: t.completedDate!,
+            description: t.description,
+            amount: t.amount,
+            fee: t.fee,
+            balance: t.balance,
+            currency: t.currency,
+          })),
+      });
+
       // 3. Clear any existing test imports to prevent false duplicates
       // NOTE: Using SHARED DATA MODEL - clear entire staging table for new import session
       const { error: clearError } = await supabase
@@ -74,18 +155,31 @@ export function useRevolutImport() {
           reviewed: false,
           verified: false,
           verification_note: null,
-          notes: null
+          notes: null,
+          import_batch_id: batch.id,
+          bank_account_id: resolveAccountId(transaction.product),
+          fitid: transaction.fitid ?? null,
+          counterparty_name: transaction.counterparty ?? null,
+          remittance_info: transaction.remittanceInfo ?? null,
+          end_to_end_id: transaction.endToEndId ?? null
         }));
 
+      if (!options.bankAccountId && bankAccounts.length > 0) {
+        const unassigned = importedTransactions.filter(t => !t.bank_account_id).length;
+        if (unassigned > 0) {
+          toast.warning(`${unassigned} transactions didn't match an account's statement product and were left unassigned`);
+        }
+      }
+
       // 4. Get existing data for duplicate checking
       // NOTE: Using SHARED DATA MODEL - all users see all transactions (no user_id filter)
       const [existingImportsResult, existingTransactionsResult] = await Promise.all([
         supabase
           .from('imported_transactions_test')
-          .select('original_description, amount, started_date'),
+          .select('original_description, amount, started_date, bank_account_id, fitid'),
         supabase
           .from('transactions')
-          .select('description, amount, transaction_date, type')
+          .select('description, amount, transaction_date, type, bank_account_id, fitid')
       ]);
 
       if (existingImportsResult.error) {
@@ -99,9 +193,32 @@ export function useRevolutImport() {
       const existingImports = existingImportsResult.data || [];
       const existingCommittedTransactions = existingTransactionsResult.data || [];
 
+      // FITIDs are unique within an account, so rows that both carry one are the
+      // same bank row exactly when the ids agree. Rows without one (CSV imports,
+      // manual entries) fall back to the description, amount and date checks.
+      type FitidRow = { bank_account_id?: string | null; fitid?: string | null };
+      const bothHaveFitid = (existing: FitidRow, newRow: FitidRow): boolean =>
+        !!existing.fitid && !!newRow.fitid;
+      const sameFitid = (existing: FitidRow, newRow: FitidRow): boolean =>
+        bothHaveFitid(existing, newRow) &&
+        existing.fitid === newRow.fitid &&
+        (!existing.bank_account_id || !newRow.bank_account_id || existing.bank_account_id === newRow.bank_account_id);
+
+      const seenFitids: FitidRow[] = [];
       const uniqueTransactions = importedTransactions.filter(newTransaction => {
+        // Statement files can repeat a row when date ranges overlap within one download
+        if (seenFitids.some(seen => sameFitid(seen, newTransaction))) return false;
+        if (newTransaction.fitid) seenFitids.push(newTransaction);
+
+        if (existingImports.some(existing => sameFitid(existing, newTransaction)) ||
+            existingCommittedTransactions.some(existing => sameFitid(existing, newTransaction))) {
+          return false;
+        }
+
         // Check against existing imports
         const isDuplicateImport = existingImports.some(existing => {
+          if (bothHaveFitid(existing, newTransaction)) return false;
+
           const existingDate = new Date(existing.started_date);
           const newDate = new Date(newTransaction.started_date);
           const daysDiff = Math.abs((existingDate.getTime() - newDate.getTime()) / (1000 * 60 * 60 * 24));
@@ -113,6 +230,8 @@ export function useRevolutImport() {
 
         // Improved duplicate detection against committed transactions
         const isDuplicateTransaction = existingCommittedTransactions.some(existing => {
+          if (bothHaveFitid(existing, newTransaction)) return false;
+
           const existingDate = new Date(existing.transaction_date);
           const newDate = new Date(newTransaction.started_date);
           const daysDiff = Math.abs((existingDate.getTime() - newDate.getTime()) / (1000 * 60 * 60 * 24));
@@ -163,9 +282,15 @@ export function useRevolutImport() {
         toast.info(`Skipped ${duplicateCount} duplicate transactions`);
       }
 
+      await updateImportBatch(supabase, batch.id, {
+        duplicate_rows: duplicateCount,
+        imported_rows: uniqueTransactions.length,
+      });
+
       if (uniqueTransactions.length === 0) {
         toast.warning('All transactions appear to be duplicates - no new data imported');
         return {
+          importBatchId: batch.id,
           totalImported: 0,
           highConfidenceMatches: 0,
           mediumConfidenceMatches: 0,
@@ -182,6 +307,7 @@ export function useRevolutImport() {
         .select();
 
       if (insertError) {
+        await updateImportBatch(supabase, batch.id, { imported_rows: 0, failed_rows: uniqueTransactions.length });
         throw new Error(`Failed to import transactions: ${insertError.message}`);
       }
 
@@ -238,13 +364,14 @@ export function useRevolutImport() {
       // 6.6. For transactions without good category suggestions, try pattern matching
       for (const match of matches) {
         const description = match.importedTransaction.original_description;
+        const counterparty = match.importedTransaction.counterparty_name;
 
         // If no category suggested yet, or if it's a low confidence match, try patterns
         if (!match.suggestedCategory || match.matchConfidence === 'LOW') {
-          const patternMatches = PatternMatcher.matchPatterns(description, transformedPatterns);
+          const patternMatches = PatternMatcher.matchPatterns(description, transformedPatterns, counterparty);
 
           if (patternMatches.length > 0) {
-            // Use the best pattern match
+            // Use the best pattern match - counterparty matches come first
             const bestPatternMatch = patternMatches[0];
             console.log(`[Pattern Matching] "${description}" → ${bestPatternMatch.category.name} (confidence: ${bestPatternMatch.confidence})`);
 
@@ -253,7 +380,8 @@ export function useRevolutImport() {
 
             // Add pattern match reason
             if (!match.matchReasons.includes('Pattern match')) {
-              match.matchReasons.push(`Pattern match: ${bestPatternMatch.confidence}% confidence`);
+              const source = bestPatternMatch.matched_on === 'counterparty' ? 'Counterparty pattern match' : 'Pattern match';
+              match.matchReasons.push(`${source}: ${bestPatternMatch.confidence}% confidence`);
             }
           } else {
             console.log(`[Pattern Matching] No pattern match for: "${description}"`);
@@ -261,6 +389,56 @@ export function useRevolutImport() {
         }
       }
 
+      // 6.7. Mark expected recurring payments as fulfilled by the rows that match them,
+      // and suggest the template's category where nothing better was found
+      try {
+        const importedDates = (insertedTransactions as ImportedTransaction[])
+          .map(t => t.started_date.split('T')[0])
+          .sort();
+        const firstDate = importedDates[0];
+        const lastDate = importedDates[importedDates.length - 1];
+
+        await generateExpectedPayments(supabase, user.id, lastDate);
+        const expectedPayments = await fetchExpectedPayments(supabase, {
+          from: format(addDays(parseISO(firstDate), -RECURRING_MATCH_DAYS), 'yyyy-MM-dd'),
+          through: format(addDays(parseISO(lastDate), RECURRING_MATCH_DAYS), 'yyyy-MM-dd'),
+          status: 'pending',
+        });
+        const recurringMatches = TransactionMatcher.matchExpectedPayments(
+          insertedTransactions as ImportedTransaction[],
+          expectedPayments
+        );
+
+        await fulfilExpectedPayments(
+          supabase,
+          recurringMatches.map(({ expectedPayment, importedTransaction }) => ({
+            expectedPaymentId: expectedPayment.id,
+            date: importedTransaction.started_date.split('T')[0],
+            amount: Math.abs(importedTransaction.amount),
+            description: importedTransaction.original_description,
+          })),
+          batch.id
+        );
+
+        for (const { expectedPayment, importedTransaction } of recurringMatches) {
+          const match = matches.find(m => m.importedTransaction.id === importedTransaction.id);
+          if (!match) continue;
+
+          const template = expectedPayment.recurring_transaction;
+          if (template.category && (!match.suggestedCategory || match.matchConfidence === 'LOW')) {
+            match.suggestedCategory = template.category;
+          }
+          match.matchReasons.push(`Recurring: ${template.description}`);
+        }
+
+        if (recurringMatches.length > 0) {
+          toast.info(`${recurringMatches.length} expected recurring ${recurringMatches.length === 1 ? 'payment' : 'payments'} fulfilled`);
+        }
+      } catch (recurringError) {
+        // Not critical - the import itself has worked
+        console.error('[Recurring] Failed to match expected payments:', recurringError);
+      }
+
       // 7. Update imported transactions with match results
       const updatePromises = matches.map(match => {
         if (match.status !== 'unmatched' || match.suggestedCategory) {
@@ -283,6 +461,7 @@ export function useRevolutImport() {
       // 8. Generate matching result
       const matchingStats = TransactionMatcher.getMatchingStats(matches);
       const result: MatchingResult = {
+        importBatchId: batch.id,
         totalImported: insertedTransactions.length,
         highConfidenceMatches: matchingStats.highConfidence,
         mediumConfidenceMatches: matchingStats.mediumConfidence,
@@ -293,6 +472,8 @@ export function useRevolutImport() {
 
       // Invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: ['imported-transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['expected-payments'] });
       
       toast.success(`Successfully imported ${insertedTransactions.length} transactions`);
       
@@ -308,7 +489,7 @@ export function useRevolutImport() {
   };
 
   return {
-    importCSV,
+    importFile,
     isProcessing,
     importStats
   };
@@ -0,0 +1,23 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { fetchSa103Mappings, type Sa103Mappings } from '@/lib/sa103';
+
+/**
+ * Hook for the SA103 box assigned to each category and hierarchy
+ */
+export function useSa103Mappings() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['sa103-mappings', user?.id],
+    queryFn: async (): Promise<Sa103Mappings> => {
+      if (!user?.id) throw new Error('User not authenticated');
+      return fetchSa103Mappings(createClient());
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+}
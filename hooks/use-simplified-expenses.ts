@@ -0,0 +1,216 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import { endOfMonth, format, parseISO } from 'date-fns';
+import {
+  calculateMileageClaim,
+  calculateUseOfHomeClaim,
+  fetchMileageTrips,
+  fetchUseOfHomeMonths,
+  mileageTripDescription,
+  type MileageTrip,
+  type SimplifiedExpenseKind,
+  type SimplifiedExpensesSummary,
+} from '@/lib/simplified-expenses';
+
+export type MileageTripFormData = Pick<MileageTrip, 'trip_date' | 'purpose' | 'from_location' | 'to_location' | 'miles'>;
+
+export interface GenerateSimplifiedExpensesData {
+  kind: SimplifiedExpenseKind;
+  summary: SimplifiedExpensesSummary;
+  categoryId: string;
+}
+
+/**
+ * Hook for the mileage and use-of-home claims in the tax year starting 6 April `startYear`
+ */
+export function useSimplifiedExpenses(startYear: number) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['simplified-expenses', user?.id, startYear],
+    queryFn: async (): Promise<SimplifiedExpensesSummary> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      // Note: No user_id filter - simplified expense logs follow the shared data model
+      const supabase = createClient();
+      const [trips, months] = await Promise.all([
+        fetchMileageTrips(supabase, `${startYear}-04-06`, `${startYear + 1}-04-05`),
+        fetchUseOfHomeMonths(supabase, startYear),
+      ]);
+
+      return {
+        mileage: calculateMileageClaim(trips, startYear),
+        useOfHome: calculateUseOfHomeClaim(months, startYear),
+      };
+    },
+    enabled: !!user?.id,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useSimplifiedExpenseMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['simplified-expenses'] });
+  };
+
+  const addTrip = useMutation({
+    mutationFn: async (data: MileageTripFormData): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('mileage_trips')
+        .insert({ ...data, user_id: user.id });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Trip added to the mileage log');
+    },
+    onError: (error: Error) => {
+      console.error('Error adding mileage trip:', error);
+      toast.error('Failed to add trip. Please try again.');
+    },
+  });
+
+  // A generated transaction goes with its trip or month, so the claim isn't left in the accounts
+  const deleteEntry = useMutation({
+    mutationFn: async ({ kind, id, transactionId }: { kind: SimplifiedExpenseKind; id: string; transactionId: string | null }): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from(kind === 'mileage' ? 'mileage_trips' : 'use_of_home_months')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      if (transactionId) {
+        const { error: transactionError } = await supabase
+          .from('transactions')
+          .delete()
+          .eq('id', transactionId);
+
+        if (transactionError) throw transactionError;
+      }
+    },
+    onSuccess: (_, { transactionId }) => {
+      invalidate();
+      if (transactionId) {
+        queryClient.invalidateQueries({ queryKey: ['transactions-paginated'] });
+      }
+      toast.success('Entry deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting simplified expense entry:', error);
+      toast.error('Failed to delete entry. Please try again.');
+    },
+  });
+
+  const saveUseOfHomeMonth = useMutation({
+    mutationFn: async ({ month, hours }: { month: string; hours: number }): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('use_of_home_months')
+        .upsert(
+          { month, hours, user_id: user.id, updated_at: new Date().toISOString() },
+          { onConflict: 'month' }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Hours saved');
+    },
+    onError: (error: Error) => {
+      console.error('Error saving use of home hours:', error);
+      toast.error('Failed to save hours. Please try again.');
+    },
+  });
+
+  // One expenditure transaction per trip or month not already generated, each
+  // linked back so it's only claimed once
+  const generateTransactions = useMutation({
+    mutationFn: async ({ kind, summary, categoryId }: GenerateSimplifiedExpensesData): Promise<number> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const entries = kind === 'mileage'
+        ? summary.mileage.lines
+            .filter(line => !line.trip.transaction_id && line.amount > 0)
+            .map(line => ({
+              id: line.trip.id,
+              amount: line.amount,
+              date: line.trip.trip_date,
+              description: mileageTripDescription(line.trip),
+            }))
+        : summary.useOfHome.lines
+            .filter(line => !line.month.transaction_id && line.amount > 0)
+            .map(line => ({
+              id: line.month.id,
+              amount: line.amount,
+              date: format(endOfMonth(parseISO(line.month.month)), 'yyyy-MM-dd'),
+              description: `Use of home: ${format(parseISO(line.month.month), 'MMMM yyyy')} (${line.hours} hours)`,
+            }));
+
+      const supabase = createClient();
+      for (const entry of entries) {
+        const { data: transaction, error } = await supabase
+          .from('transactions')
+          .insert({
+            user_id: user.id,
+            category_id: categoryId,
+            amount: entry.amount,
+            type: 'expenditure',
+            description: entry.description,
+            transaction_date: entry.date,
+            simplified_expense: kind,
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+
+        const { error: linkError } = await supabase
+          .from(kind === 'mileage' ? 'mileage_trips' : 'use_of_home_months')
+          .update({ transaction_id: transaction.id, updated_at: new Date().toISOString() })
+          .eq('id', entry.id);
+
+        if (linkError) {
+          await supabase.from('transactions').delete().eq('id', transaction.id);
+          throw linkError;
+        }
+      }
+
+      return entries.length;
+    },
+    onSuccess: (count) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['transactions-paginated'] });
+      queryClient.invalidateQueries({ queryKey: ['balance-sheet'] });
+      toast.success(`${count} expenditure ${count === 1 ? 'transaction' : 'transactions'} generated`);
+    },
+    onError: (error: Error) => {
+      console.error('Error generating simplified expense transactions:', error);
+      toast.error('Failed to generate transactions. Please try again.');
+    },
+  });
+
+  return {
+    addTrip,
+    deleteEntry,
+    saveUseOfHomeMonth,
+    generateTransactions,
+  };
+}
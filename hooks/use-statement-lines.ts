@@ -0,0 +1,143 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import { cashMovement } from '@/lib/bank-accounts';
+import { StatementReconciler, type LedgerEntry } from '@/lib/statement-reconciler';
+import type { BankStatementLine } from '@/lib/statement-lines';
+
+export interface StatementLedgerEntry extends LedgerEntry {
+  /** Ticked off against any statement line, including ones outside the range */
+  ticked: boolean;
+}
+
+export interface StatementLinesData {
+  lines: BankStatementLine[];
+  ledger: StatementLedgerEntry[];
+}
+
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+};
+
+/**
+ * Hook for the statement lines in a date range alongside the ledger
+ * transactions they could be ticked off against
+ */
+export function useStatementLines(bankAccountId: string, from: string, to: string) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['statement-lines', user?.id, bankAccountId, from, to],
+    queryFn: async (): Promise<StatementLinesData> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      // Note: No user_id filter - statement lines follow the shared data model
+      const supabase = createClient();
+      let linesQuery = supabase
+        .from('bank_statement_lines')
+        .select('*')
+        .gte('line_date', `${from}T00:00:00Z`)
+        .lt('line_date', `${shiftDate(to, 1)}T00:00:00Z`)
+        .order('line_date', { ascending: true })
+        .order('line_index', { ascending: true });
+      if (bankAccountId !== 'all') linesQuery = linesQuery.eq('bank_account_id', bankAccountId);
+
+      // Ledger side is widened by the matching window so lines near the edges can still tick off
+      let ledgerQuery = supabase
+        .from('transactions')
+        .select('id, description, amount, type, transaction_date, bank_account_id, transfer_direction, categories(capital_movement_type), bank_statement_lines(id)')
+        .gte('transaction_date', shiftDate(from, -StatementReconciler.DATE_WINDOW_DAYS))
+        .lte('transaction_date', shiftDate(to, StatementReconciler.DATE_WINDOW_DAYS))
+        // Simplified expense claims have no bank line to match
+        .is('simplified_expense', null)
+        .order('transaction_date', { ascending: true });
+      if (bankAccountId !== 'all') ledgerQuery = ledgerQuery.eq('bank_account_id', bankAccountId);
+
+      const [linesResult, ledgerResult] = await Promise.all([linesQuery, ledgerQuery]);
+
+      if (linesResult.error) throw linesResult.error;
+      if (ledgerResult.error) throw ledgerResult.error;
+
+      const ledger = (ledgerResult.data || []).map(row => ({
+        id: row.id as string,
+        amount: cashMovement(row),
+        date: row.transaction_date as string,
+        bankAccountId: (row.bank_account_id as string | null) ?? null,
+        description: row.description as string,
+        ticked: Array.isArray(row.bank_statement_lines) ? row.bank_statement_lines.length > 0 : !!row.bank_statement_lines,
+      }));
+
+      return { lines: (linesResult.data || []) as BankStatementLine[], ledger };
+    },
+    enabled: !!user?.id && !!from && !!to,
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useStatementLineMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidateLines = () => {
+    queryClient.invalidateQueries({ queryKey: ['statement-lines'] });
+  };
+
+  // Each tick links one statement line to one ledger transaction
+  const tickLines = useMutation({
+    mutationFn: async (ticks: { lineId: string; transactionId: string }[]): Promise<number> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const tickedAt = new Date().toISOString();
+      for (const tick of ticks) {
+        const { error } = await supabase
+          .from('bank_statement_lines')
+          .update({ transaction_id: tick.transactionId, ticked_at: tickedAt })
+          .eq('id', tick.lineId);
+
+        if (error) throw error;
+      }
+
+      return ticks.length;
+    },
+    onSuccess: (count) => {
+      invalidateLines();
+      toast.success(count === 1 ? 'Statement line ticked off' : `${count} statement lines ticked off`);
+    },
+    onError: (error: Error) => {
+      console.error('Error ticking statement lines:', error);
+      toast.error('Failed to tick off statement lines. Please try again.');
+    },
+  });
+
+  const untickLine = useMutation({
+    mutationFn: async (lineId: string): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('bank_statement_lines')
+        .update({ transaction_id: null, ticked_at: null })
+        .eq('id', lineId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateLines();
+    },
+    onError: (error: Error) => {
+      console.error('Error unticking statement line:', error);
+      toast.error('Failed to untick statement line. Please try again.');
+    },
+  });
+
+  return {
+    tickLines,
+    untickLine,
+  };
+}
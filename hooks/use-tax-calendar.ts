@@ -0,0 +1,119 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { reportDataEngine, type HierarchicalPLData } from '@/lib/reports-data-engine';
+import {
+  calculateCapitalAllowances,
+  capitalAddBack,
+  fetchCapitalAllowanceTransactions,
+  fetchDepreciationCharged,
+  taxYearStartYear,
+} from '@/lib/capital-allowances';
+import {
+  calculateMileageClaim,
+  calculateUseOfHomeClaim,
+  fetchMileageTrips,
+  fetchUseOfHomeMonths,
+  simplifiedExpenseSa103Lines,
+} from '@/lib/simplified-expenses';
+import {
+  annualise,
+  buildTaxCalendar,
+  buildTaxPot,
+  suggestPaymentOnAccountReduction,
+  taxYearLiability,
+  type PaymentOnAccountReduction,
+  type TaxCalendarDate,
+  type TaxPot,
+  type TaxYearLiability,
+} from '@/lib/tax-calendar';
+import { buildTaxAdjustments, profitAfterAllowances, profitBeforeAllowances } from '@/lib/tax-engine';
+import type { TaxRegion } from '@/lib/tax-rates';
+
+export interface TaxCalendarSummary {
+  /** Tax year running today */
+  currentStartYear: number;
+  asOf: string;
+  /** The two years before the current one, the current one projected from the year to date, and the next assumed the same */
+  liabilities: TaxYearLiability[];
+  dates: TaxCalendarDate[];
+  /** Payments on account for the current year that the forecast says are too high */
+  reduction: PaymentOnAccountReduction | null;
+  taxPot: TaxPot;
+}
+
+/**
+ * Hook for the Self Assessment payment calendar and tax pot for the current
+ * and next tax year, from the P&L of the years before and the year to date
+ */
+export function useTaxCalendar(region: TaxRegion) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['tax-calendar', user?.id, region],
+    queryFn: async (): Promise<TaxCalendarSummary> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const asOf = format(new Date(), 'yyyy-MM-dd');
+      const current = taxYearStartYear(asOf);
+      const years = [current - 2, current - 1, current];
+      const endOf = (year: number) => (year === current ? asOf : `${year + 1}-04-05`);
+
+      // Note: No user_id filter - tax figures follow the shared data model
+      const supabase = createClient();
+      const [pls, capitalTransactions, depreciation, trips, homeMonths] = await Promise.all([
+        Promise.all(years.map(year => reportDataEngine.getHierarchicalPLData({
+          name: 'Tax Calendar',
+          // Midday avoids toISOString() moving the date across a timezone boundary
+          dateRange: { start: new Date(`${year}-04-06T12:00:00`), end: new Date(`${endOf(year)}T12:00:00`), period: 'annual' },
+          groupBy: 'hierarchy',
+          includeTypes: ['income', 'expenditure'],
+          visualizations: ['table'],
+        }))),
+        fetchCapitalAllowanceTransactions(supabase, asOf),
+        Promise.all(years.map(year => fetchDepreciationCharged(supabase, `${year}-04-06`, endOf(year)))),
+        fetchMileageTrips(supabase, `${years[0]}-04-06`, asOf),
+        Promise.all(years.map(year => fetchUseOfHomeMonths(supabase, year))),
+      ]);
+      const allowanceYears = calculateCapitalAllowances(capitalTransactions, current);
+
+      // Same adjustments as the Self Assessment estimate. Only the accounts
+      // profit is projected for the current year; allowances are as claimed so far.
+      const taxableProfit = (year: number, pl: HierarchicalPLData, index: number) => {
+        const simplified = simplifiedExpenseSa103Lines({
+          mileage: calculateMileageClaim(trips, year),
+          useOfHome: calculateUseOfHomeClaim(homeMonths[index], year),
+        }).reduce((sum, line) => sum + line.amount, 0);
+        const adjustments = buildTaxAdjustments(
+          pl.totals.total_disallowable,
+          capitalAddBack(capitalTransactions, depreciation[index], year),
+          simplified,
+          allowanceYears.find(y => y.startYear === year)
+        );
+        const accountsProfit = profitBeforeAllowances(pl.totals.net_operating_profit, adjustments);
+
+        return profitAfterAllowances(year === current ? annualise(accountsProfit, year, asOf) : accountsProfit, adjustments);
+      };
+
+      const liabilities = years.map((year, index) =>
+        taxYearLiability(year, taxableProfit(year, pls[index], index), region, year === current)
+      );
+      const forecast = liabilities[liabilities.length - 1];
+      liabilities.push(taxYearLiability(current + 1, forecast.taxableProfit, region, true));
+
+      return {
+        currentStartYear: current,
+        asOf,
+        liabilities,
+        dates: buildTaxCalendar(liabilities, current, current + 1, asOf),
+        reduction: suggestPaymentOnAccountReduction(liabilities[1], forecast),
+        taxPot: buildTaxPot(pls[pls.length - 1], forecast),
+      };
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { useSetUserPreference, useUserPreference } from '@/hooks/use-user-preferences';
+import { DEFAULT_TAX_SETTINGS, TAX_SETTINGS_PREFERENCE_KEY, type TaxSettings } from '@/lib/tax-rates';
+
+/**
+ * Hook for the user's income tax region and SA103 form, stored as a user preference
+ */
+export function useTaxSettings() {
+  const query = useUserPreference<TaxSettings>(TAX_SETTINGS_PREFERENCE_KEY, DEFAULT_TAX_SETTINGS);
+  const setPreference = useSetUserPreference();
+
+  return {
+    settings: { ...DEFAULT_TAX_SETTINGS, ...query.data },
+    isLoading: query.isLoading,
+    saveSettings: (settings: TaxSettings) =>
+      setPreference.mutate({ key: TAX_SETTINGS_PREFERENCE_KEY, value: settings }),
+    isSaving: setPreference.isPending,
+  };
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import { detectTransferPairs, type TransferPair, type TransferPairWithLegs } from '@/lib/transfers';
+import { countReconciledTransactions, RECONCILED_EDIT_WARNING } from '@/lib/reconciliation-sessions';
+
+const LEG_COLUMNS = 'id, description, amount, transaction_date, bank_account_id';
+
+/**
+ * Hook for listing transfer pairs with both legs, newest first
+ */
+export function useTransferPairs() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['transfer-pairs', user?.id],
+    queryFn: async (): Promise<TransferPairWithLegs[]> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      // Note: No user_id filter - transfers follow the shared data model
+      const supabase = createClient();
+      const { data, error } = await supabase
+        .from('transfer_pairs')
+        .select(`
+          *,
+          outgoing:transactions!transfer_pairs_outgoing_transaction_id_fkey(${LEG_COLUMNS}),
+          incoming:transactions!transfer_pairs_incoming_transaction_id_fkey(${LEG_COLUMNS})
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as TransferPairWithLegs[];
+    },
+    enabled: !!user?.id,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * Hook for detecting transfers and confirming or breaking pairs
+ */
+export function useTransferPairMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Pairing changes transaction types, so every total that splits by type moves
+  const invalidateTransfers = () => {
+    queryClient.invalidateQueries({ queryKey: ['transfer-pairs'] });
+    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['transactions-paginated'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+    queryClient.invalidateQueries({ queryKey: ['reconciliation-balance'] });
+    queryClient.invalidateQueries({ queryKey: ['cashFlow'] });
+  };
+
+  const detectTransfers = useMutation({
+    mutationFn: async (): Promise<number> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      return detectTransferPairs(createClient(), user.id);
+    },
+    onSuccess: (count) => {
+      invalidateTransfers();
+      if (count > 0) {
+        toast.success(`Found ${count} new transfer${count === 1 ? '' : 's'} between accounts`);
+      } else {
+        toast.info('No new transfers found');
+      }
+    },
+    onError: (error: Error) => {
+      console.error('Error detecting transfers:', error);
+      toast.error('Failed to detect transfers. Please try again.');
+    },
+  });
+
+  // Suggested legs keep their original types; confirming is what takes them out of the P&L
+  const confirmPair = useMutation({
+    mutationFn: async (pairId: string): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase.rpc('confirm_transfer_pair', { target_pair_id: pairId });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateTransfers();
+      toast.success('Transfer confirmed');
+    },
+    onError: (error: Error) => {
+      console.error('Error confirming transfer:', error);
+      toast.error('Failed to confirm transfer. Please try again.');
+    },
+  });
+
+  // Restores both legs to their original types. The pair is kept as 'broken'
+  // so detection doesn't suggest it again.
+  const breakPair = useMutation({
+    mutationFn: async (pair: TransferPair): Promise<{ reconciled: boolean }> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const legs = [
+        { id: pair.outgoing_transaction_id, type: pair.outgoing_original_type },
+        { id: pair.incoming_transaction_id, type: pair.incoming_original_type },
+      ];
+
+      for (const leg of legs) {
+        const { error } = await supabase
+          .from('transactions')
+          .update({ type: leg.type, transfer_direction: null, transfer_pair_id: null })
+          .eq('id', leg.id)
+          .eq('transfer_pair_id', pair.id);
+
+        if (error) throw error;
+      }
+
+      const { error } = await supabase
+        .from('transfer_pairs')
+        .update({ status: 'broken', broken_at: new Date().toISOString() })
+        .eq('id', pair.id);
+
+      if (error) throw error;
+
+      const reconciledCount = await countReconciledTransactions(supabase, legs.map(leg => leg.id));
+      return { reconciled: reconciledCount > 0 };
+    },
+    onSuccess: ({ reconciled }) => {
+      invalidateTransfers();
+      toast.success('Transfer pairing removed');
+      if (reconciled) toast.warning(RECONCILED_EDIT_WARNING);
+    },
+    onError: (error: Error) => {
+      console.error('Error breaking transfer pair:', error);
+      toast.error('Failed to break transfer pair. Please try again.');
+    },
+  });
+
+  return {
+    detectTransfers,
+    confirmPair,
+    breakPair,
+  };
+}
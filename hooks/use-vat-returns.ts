@@ -0,0 +1,128 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import type { VatPeriod, VatSettings } from '@/lib/vat';
+import { finaliseVatReturn, type VatReturnRecord } from '@/lib/vat-returns';
+
+export interface FinaliseVatReturnData {
+  vrn: string;
+  periodKey: string;
+  period: VatPeriod;
+  settings: VatSettings;
+}
+
+/**
+ * Hook for listing finalised and submitted VAT returns, latest period first
+ */
+export function useVatReturns() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['vat-returns', user?.id],
+    queryFn: async (): Promise<VatReturnRecord[]> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      // Note: No user_id filter - VAT returns follow the shared data model
+      const supabase = createClient();
+      const { data, error } = await supabase
+        .from('vat_returns')
+        .select('*')
+        .order('period_end', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as VatReturnRecord[];
+    },
+    enabled: !!user?.id,
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useVatReturnMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidateReturns = () => {
+    queryClient.invalidateQueries({ queryKey: ['vat-returns'] });
+    queryClient.invalidateQueries({ queryKey: ['vat-return'] });
+    queryClient.invalidateQueries({ queryKey: ['transactions-paginated'] });
+  };
+
+  const finaliseReturn = useMutation({
+    mutationFn: async ({ vrn, periodKey, period, settings }: FinaliseVatReturnData) => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      return finaliseVatReturn(createClient(), {
+        userId: user.id,
+        userEmail: user.email ?? null,
+        vrn,
+        periodKey,
+        period,
+        settings,
+      });
+    },
+    onSuccess: ({ record, locked }) => {
+      invalidateReturns();
+      toast.success(`VAT return ${record.period_key} finalised - ${locked} transactions locked`);
+    },
+    onError: (error: Error) => {
+      console.error('Error finalising VAT return:', error);
+      toast.error(error.message);
+    },
+  });
+
+  // Submission runs server-side: HMRC's API doesn't accept browser requests and the token stays on the server
+  const submitReturn = useMutation({
+    mutationFn: async (returnId: string): Promise<VatReturnRecord> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const response = await fetch(`/api/vat/returns/${returnId}/submit`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to submit VAT return');
+      }
+      return result.vatReturn as VatReturnRecord;
+    },
+    onSuccess: (record) => {
+      invalidateReturns();
+      toast.success(`VAT return ${record.period_key} submitted - receipt ${record.receipt?.formBundleNumber}`);
+    },
+    onError: (error: Error) => {
+      console.error('Error submitting VAT return:', error);
+      toast.error(error.message);
+    },
+  });
+
+  // Only finalised returns can be reopened; the database refuses to delete submitted ones
+  const reopenReturn = useMutation({
+    mutationFn: async (returnId: string): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('vat_returns')
+        .delete()
+        .eq('id', returnId)
+        .eq('status', 'finalised');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateReturns();
+      toast.success('VAT return reopened - its transactions are unlocked');
+    },
+    onError: (error: Error) => {
+      console.error('Error reopening VAT return:', error);
+      toast.error(`Failed to reopen VAT return: ${error.message}`);
+    },
+  });
+
+  return {
+    finaliseReturn,
+    submitReturn,
+    reopenReturn,
+  };
+}
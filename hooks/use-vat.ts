@@ -0,0 +1,96 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { createClient } from '@/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+import { useSetUserPreference, useUserPreference } from '@/hooks/use-user-preferences';
+import {
+  DEFAULT_VAT_SETTINGS,
+  VAT_SETTINGS_PREFERENCE_KEY,
+  type VatPeriod,
+  type VatSettings,
+  type VatTreatment,
+} from '@/lib/vat';
+import { VatReturnCalculator, type VatReturn } from '@/lib/vat-return';
+import { fetchVatReturnRows } from '@/lib/vat-returns';
+
+export interface TransactionVatUpdate {
+  transactionId: string;
+  vat_treatment: VatTreatment | null;
+  vat_rate: number | null;
+  vat_amount: number | null;
+  tax_point_date: string | null;
+}
+
+/**
+ * Hook for the business's VAT scheme, stored as a user preference
+ */
+export function useVatSettings() {
+  const query = useUserPreference<VatSettings>(VAT_SETTINGS_PREFERENCE_KEY, DEFAULT_VAT_SETTINGS);
+  const setPreference = useSetUserPreference();
+
+  return {
+    settings: { ...DEFAULT_VAT_SETTINGS, ...query.data },
+    isLoading: query.isLoading,
+    saveSettings: (settings: VatSettings) =>
+      setPreference.mutate({ key: VAT_SETTINGS_PREFERENCE_KEY, value: settings }),
+    isSaving: setPreference.isPending,
+  };
+}
+
+/**
+ * Hook for the nine VAT return boxes for a period under the given scheme,
+ * from transactions not already locked by a finalised return
+ */
+export function useVatReturn(period: VatPeriod | null, settings: VatSettings) {
+  const { user } = useAuth();
+  const start = period ? format(period.start, 'yyyy-MM-dd') : '';
+  const end = period ? format(period.end, 'yyyy-MM-dd') : '';
+
+  return useQuery({
+    queryKey: ['vat-return', user?.id, start, end, settings],
+    queryFn: async (): Promise<VatReturn> => {
+      if (!user?.id) throw new Error('User not authenticated');
+      if (!period) throw new Error('No VAT period selected');
+
+      const rows = await fetchVatReturnRows(createClient(), period, settings.scheme);
+      return VatReturnCalculator.calculate(rows, settings);
+    },
+    enabled: !!user?.id && !!period,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useVatMutations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const updateTransactionVat = useMutation({
+    mutationFn: async ({ transactionId, ...vat }: TransactionVatUpdate): Promise<void> => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('transactions')
+        .update(vat)
+        .eq('id', transactionId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vat-return'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions-paginated'] });
+      toast.success('VAT details saved');
+    },
+    onError: (error: Error) => {
+      console.error('Error updating transaction VAT:', error);
+      toast.error(`Failed to save VAT details: ${error.message}`);
+    },
+  });
+
+  return {
+    updateTransactionVat,
+  };
+}
@@ -0,0 +1,188 @@
+// Balance Sheet
+// Assets, liabilities and owner's equity at a date from the bank balance, manual balances and the P&L
+
+import { netBookValueAt, type FixedAsset } from './fixed-assets';
+
+export type BalanceSheetItemCategory =
+  | 'equipment'
+  | 'debtors'
+  | 'other_asset'
+  | 'creditors'
+  | 'tax_owed'
+  | 'loans'
+  | 'other_liability';
+
+export type BalanceSheetSectionKey = 'fixed_assets' | 'current_assets' | 'current_liabilities' | 'long_term_liabilities';
+
+export interface BalanceSheetItemValue {
+  id: string;
+  item_id: string;
+  as_of_date: string;
+  amount: number;
+}
+
+export interface BalanceSheetItem {
+  id: string;
+  user_id: string;
+  name: string;
+  category: BalanceSheetItemCategory;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  balance_sheet_item_values?: Pick<BalanceSheetItemValue, 'id' | 'as_of_date' | 'amount'>[];
+}
+
+export interface BalanceSheetLine {
+  key: string;
+  label: string;
+  amount: number;
+}
+
+export interface BalanceSheetSection {
+  key: BalanceSheetSectionKey;
+  label: string;
+  lines: BalanceSheetLine[];
+  total: number;
+}
+
+export interface BalanceSheetInputs {
+  asOf: string;
+  bankBalance: number;
+  items: BalanceSheetItem[];
+  /** Register assets - carried at net book value, already reflected in retained profit via depreciation */
+  fixedAssets: FixedAsset[];
+  /** Bank opening balances - money already in the business when records start */
+  openingBalance: number;
+  capitalInjections: number;
+  /** Positive amount taken out by the owner */
+  drawings: number;
+  /** Net operating profit from the opening date to `asOf` */
+  retainedProfit: number;
+}
+
+export interface BalanceSheetData {
+  asOf: string;
+  sections: BalanceSheetSection[];
+  equity: BalanceSheetLine[];
+  totals: {
+    assets: number;
+    liabilities: number;
+    netAssets: number;
+    equity: number;
+    /** Net assets less equity; non-zero when ledger rows fall outside the P&L (e.g. unallocated categories) */
+    difference: number;
+  };
+}
+
+export const BALANCE_SHEET_CATEGORY_LABELS: Record<BalanceSheetItemCategory, string> = {
+  equipment: 'Equipment',
+  debtors: 'Debtors',
+  other_asset: 'Other asset',
+  creditors: 'Creditors',
+  tax_owed: 'Tax owed',
+  loans: 'Loans',
+  other_liability: 'Other liability',
+};
+
+export const BALANCE_SHEET_CATEGORY_SECTIONS: Record<BalanceSheetItemCategory, BalanceSheetSectionKey> = {
+  equipment: 'fixed_assets',
+  debtors: 'current_assets',
+  other_asset: 'current_assets',
+  creditors: 'current_liabilities',
+  tax_owed: 'current_liabilities',
+  other_liability: 'current_liabilities',
+  loans: 'long_term_liabilities',
+};
+
+const SECTION_LABELS: Record<BalanceSheetSectionKey, string> = {
+  fixed_assets: 'Fixed Assets',
+  current_assets: 'Current Assets',
+  current_liabilities: 'Current Liabilities',
+  long_term_liabilities: 'Long-term Liabilities',
+};
+
+const ASSET_SECTIONS: BalanceSheetSectionKey[] = ['fixed_assets', 'current_assets'];
+const LIABILITY_SECTIONS: BalanceSheetSectionKey[] = ['current_liabilities', 'long_term_liabilities'];
+
+const roundPence = (value: number) => Math.round(value * 100) / 100;
+
+export function isAssetCategory(category: BalanceSheetItemCategory): boolean {
+  return ASSET_SECTIONS.includes(BALANCE_SHEET_CATEGORY_SECTIONS[category]);
+}
+
+/**
+ * An item's balance at a date: its latest value on or before the date, or
+ * zero when it has no value yet.
+ */
+export function itemBalanceAt(item: BalanceSheetItem, asOf: string): number {
+  const latest = (item.balance_sheet_item_values ?? [])
+    .filter(value => value.as_of_date <= asOf)
+    .sort((a, b) => b.as_of_date.localeCompare(a.as_of_date))[0];
+  return latest ? Number(latest.amount) : 0;
+}
+
+/**
+ * Lay out the balance sheet. The ledger is cash-based, so manual balances
+ * (equipment, debtors, creditors...) carry their own equity adjustment;
+ * whatever is left over is reported as the difference rather than hidden.
+ */
+export function buildBalanceSheet(inputs: BalanceSheetInputs): BalanceSheetData {
+  const sectionLines = new Map<BalanceSheetSectionKey, BalanceSheetLine[]>(
+    [...ASSET_SECTIONS, ...LIABILITY_SECTIONS].map(key => [key, []])
+  );
+
+  sectionLines.get('current_assets')!.push({ key: 'bank', label: 'Cash at bank', amount: roundPence(inputs.bankBalance) });
+
+  inputs.fixedAssets.forEach(asset => {
+    const amount = netBookValueAt(asset, inputs.asOf);
+    if (amount === 0) return;
+    sectionLines.get('fixed_assets')!.push({ key: `asset-${asset.id}`, label: asset.name, amount });
+  });
+
+  let manualAssets = 0;
+  let manualLiabilities = 0;
+  inputs.items.forEach(item => {
+    const amount = itemBalanceAt(item, inputs.asOf);
+    if (amount === 0) return;
+
+    sectionLines.get(BALANCE_SHEET_CATEGORY_SECTIONS[item.category])!.push({ key: item.id, label: item.name, amount });
+    if (isAssetCategory(item.category)) manualAssets += amount;
+    else manualLiabilities += amount;
+  });
+
+  const sections: BalanceSheetSection[] = Array.from(sectionLines.entries()).map(([key, lines]) => ({
+    key,
+    label: SECTION_LABELS[key],
+    lines,
+    total: roundPence(lines.reduce((sum, line) => sum + line.amount, 0)),
+  }));
+
+  const sumSections = (keys: BalanceSheetSectionKey[]) =>
+    roundPence(sections.filter(s => keys.includes(s.key)).reduce((sum, s) => sum + s.total, 0));
+
+  const assets = sumSections(ASSET_SECTIONS);
+  const liabilities = sumSections(LIABILITY_SECTIONS);
+  const netAssets = roundPence(assets - liabilities);
+
+  const equity: BalanceSheetLine[] = [
+    { key: 'opening', label: 'Opening balances brought forward', amount: roundPence(inputs.openingBalance) },
+    { key: 'injections', label: 'Capital introduced', amount: roundPence(inputs.capitalInjections) },
+    { key: 'drawings', label: 'Drawings', amount: roundPence(-inputs.drawings) },
+    { key: 'retained', label: 'Retained profit', amount: roundPence(inputs.retainedProfit) },
+    { key: 'manual', label: 'Non-cash balances (assets less liabilities)', amount: roundPence(manualAssets - manualLiabilities) },
+  ];
+  const totalEquity = roundPence(equity.reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    asOf: inputs.asOf,
+    sections,
+    equity,
+    totals: {
+      assets,
+      liabilities,
+      netAssets,
+      equity: totalEquity,
+      difference: roundPence(netAssets - totalEquity),
+    },
+  };
+}
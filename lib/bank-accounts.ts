@@ -0,0 +1,185 @@
+// Bank Accounts
+// Opening balances and balance brought forward for cash flow, reconciliation and the dashboard
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface BankAccount {
+  id: string;
+  user_id: string;
+  name: string;
+  provider: string | null;
+  currency: string;
+  /** `Product` value in bank exports that belongs to this account, e.g. "Current" or "Savings" */
+  product_code: string | null;
+  opening_balance: number;
+  opening_balance_date: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OpeningPosition {
+  openingBalance: number;
+  /** Earliest opening balance date across active accounts, null when none are set up */
+  openingDate: string | null;
+}
+
+export interface AccountSubtotal {
+  bankAccountId: string | null;
+  name: string;
+  transactionCount: number;
+  inflows: number;
+  outflows: number;
+  net: number;
+}
+
+interface CashMovementRow {
+  amount: string | number;
+  type: string;
+  bank_account_id?: string | null;
+  transfer_direction?: string | null;
+  /** Set on simplified expense claims, which are paid personally rather than from the bank */
+  simplified_expense?: string | null;
+  categories?: { capital_movement_type: string | null } | { capital_movement_type: string | null }[] | null;
+}
+
+/** Filter value for transactions that haven't been tagged with an account */
+export const UNASSIGNED_ACCOUNT = 'unassigned';
+
+/**
+ * Combined opening position of the active accounts. Transactions dated before
+ * the opening date are already reflected in the opening balance.
+ */
+export function getOpeningPosition(accounts: BankAccount[]): OpeningPosition {
+  const active = accounts.filter(a => a.is_active);
+  if (active.length === 0) {
+    return { openingBalance: 0, openingDate: null };
+  }
+
+  return {
+    openingBalance: active.reduce((sum, a) => sum + Number(a.opening_balance), 0),
+    openingDate: active.map(a => a.opening_balance_date).sort()[0],
+  };
+}
+
+/**
+ * Effect of one transaction on the bank balance. Same rules as the cash flow
+ * statement: capital without a movement type falls back to the amount's sign.
+ * Transfers move money between accounts, so they cancel out across all accounts.
+ * Simplified expense claims never touch the bank.
+ */
+export function cashMovement(row: CashMovementRow): number {
+  const amount = parseFloat(String(row.amount));
+
+  if (row.simplified_expense) return 0;
+  if (row.type === 'income') return amount;
+  if (row.type === 'expenditure') return -Math.abs(amount);
+  if (row.type === 'transfer') return row.transfer_direction === 'out' ? -Math.abs(amount) : Math.abs(amount);
+  if (row.type !== 'capital') return 0;
+
+  const category = Array.isArray(row.categories) ? row.categories[0] : row.categories;
+  const movementType = category?.capital_movement_type;
+  if (movementType === 'injection') return Math.abs(amount);
+  if (movementType === 'drawing') return -Math.abs(amount);
+  return amount;
+}
+
+export function netCashMovement(rows: CashMovementRow[]): number {
+  return rows.reduce((net, row) => net + cashMovement(row), 0);
+}
+
+/**
+ * Inflows, outflows and net movement per account, in account order with
+ * untagged transactions last.
+ */
+export function summariseByAccount(rows: CashMovementRow[], accounts: BankAccount[]): AccountSubtotal[] {
+  const subtotals = new Map<string | null, AccountSubtotal>();
+
+  rows.forEach(row => {
+    const accountId = row.bank_account_id ?? null;
+    if (!subtotals.has(accountId)) {
+      subtotals.set(accountId, {
+        bankAccountId: accountId,
+        name: accounts.find(a => a.id === accountId)?.name ?? 'Unassigned',
+        transactionCount: 0,
+        inflows: 0,
+        outflows: 0,
+        net: 0,
+      });
+    }
+
+    const subtotal = subtotals.get(accountId)!;
+    const movement = cashMovement(row);
+    subtotal.transactionCount++;
+    if (movement >= 0) subtotal.inflows += movement;
+    else subtotal.outflows += Math.abs(movement);
+    subtotal.net += movement;
+  });
+
+  const order = (id: string | null) => (id === null ? accounts.length : accounts.findIndex(a => a.id === id));
+  return Array.from(subtotals.values()).sort((a, b) => order(a.bankAccountId) - order(b.bankAccountId));
+}
+
+/**
+ * Account whose product code matches a bank export's `Product` column
+ * (case-insensitive). Inactive accounts are never picked.
+ */
+export function matchAccountByProduct(product: string | null | undefined, accounts: BankAccount[]): BankAccount | null {
+  const normalised = product?.trim().toLowerCase();
+  if (!normalised) return null;
+
+  return accounts.find(a => a.is_active && a.product_code?.trim().toLowerCase() === normalised) ?? null;
+}
+
+export async function fetchBankAccounts(supabase: SupabaseClient): Promise<BankAccount[]> {
+  // Note: No user_id filter - bank accounts follow the shared data model
+  const { data, error } = await supabase
+    .from('bank_accounts')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch bank accounts: ${error.message}`);
+  }
+
+  return (data || []) as BankAccount[];
+}
+
+/**
+ * Bank balance at the start of `beforeDate` (YYYY-MM-DD): the opening balance
+ * rolled forward by every transaction from the opening date up to the day before.
+ * With `bankAccountId` only that account's opening balance and transactions count.
+ */
+export async function getBalanceBroughtForward(
+  supabase: SupabaseClient,
+  beforeDate: string,
+  bankAccountId?: string
+): Promise<number> {
+  const accounts = await fetchBankAccounts(supabase);
+  const account = bankAccountId ? accounts.find(a => a.id === bankAccountId) : undefined;
+  const { openingBalance, openingDate } = account
+    ? { openingBalance: Number(account.opening_balance), openingDate: account.opening_balance_date }
+    : getOpeningPosition(accounts);
+
+  if (!openingDate || beforeDate <= openingDate) {
+    return openingBalance;
+  }
+
+  let query = supabase
+    .from('transactions')
+    .select('amount, type, transfer_direction, simplified_expense, categories(capital_movement_type)')
+    .gte('transaction_date', openingDate)
+    .lt('transaction_date', beforeDate);
+
+  if (bankAccountId) {
+    query = query.eq('bank_account_id', bankAccountId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to calculate balance brought forward: ${error.message}`);
+  }
+
+  return openingBalance + netCashMovement(data || []);
+}
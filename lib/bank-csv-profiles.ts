@@ -0,0 +1,466 @@
+// Bank CSV Profiles
+// Column layouts for UK bank CSV exports, detected from the header row
+
+import Papa from 'papaparse';
+import { RevolutCSVParser } from './revolut-parser';
+import type { RevolutTransaction } from './revolut-types';
+
+export type CSVDateFormat = 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'yyyy-MM-dd' | 'dd MMM yyyy';
+
+/**
+ * signed - one amount column, negative for money out.
+ * inverted - one amount column, positive for money out (most card statements).
+ * split - separate money out and money in columns, both positive.
+ */
+export type CSVSignConvention = 'signed' | 'inverted' | 'split';
+
+export type CSVEncoding = 'utf-8' | 'windows-1252';
+
+export interface CSVColumnMapping {
+  date: string;
+  description: string;
+  counterparty?: string;
+  amount?: string;
+  /** Money out, for split sign conventions */
+  debit?: string;
+  /** Money in, for split sign conventions */
+  credit?: string;
+  balance?: string;
+  category?: string;
+  /** The bank's own id for the row, used as an exact duplicate key */
+  transactionId?: string;
+}
+
+export interface BankCSVProfile {
+  id: string;
+  name: string;
+  columns: CSVColumnMapping;
+  dateFormat: CSVDateFormat;
+  signConvention: CSVSignConvention;
+  encoding: CSVEncoding;
+  /** Column names for exports without a header row, in file order */
+  headerless?: string[];
+  /** Saved from the mapping screen rather than built in */
+  custom?: boolean;
+  /** Read by RevolutCSVParser instead of the column mapping; the columns name what it produces */
+  parser?: 'revolut';
+}
+
+export interface CSVProfileRow {
+  /** yyyy-MM-dd */
+  date: string;
+  description: string;
+  counterparty: string | null;
+  /** Signed - money in is positive */
+  amount: number;
+  balance: number | null;
+  category: string | null;
+  transactionId: string | null;
+}
+
+export const CSV_DATE_FORMAT_LABELS: Record<CSVDateFormat, string> = {
+  'dd/MM/yyyy': 'Day first (31/12/2024)',
+  'MM/dd/yyyy': 'Month first (12/31/2024)',
+  'yyyy-MM-dd': 'ISO (2024-12-31)',
+  'dd MMM yyyy': 'Month name (31 Dec 2024)',
+};
+
+export const CSV_SIGN_CONVENTION_LABELS: Record<CSVSignConvention, string> = {
+  signed: 'One amount column, negative for money out',
+  inverted: 'One amount column, positive for money out',
+  split: 'Separate money out and money in columns',
+};
+
+export const CSV_ENCODING_LABELS: Record<CSVEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Windows-1252 (older desktop banking)',
+};
+
+export const BANK_CSV_PROFILES: BankCSVProfile[] = [
+  {
+    id: 'monzo',
+    name: 'Monzo',
+    columns: {
+      date: 'Date',
+      description: 'Description',
+      counterparty: 'Name',
+      amount: 'Amount',
+      category: 'Category',
+      transactionId: 'Transaction ID',
+    },
+    dateFormat: 'dd/MM/yyyy',
+    signConvention: 'signed',
+    encoding: 'utf-8',
+  },
+  {
+    id: 'starling',
+    name: 'Starling',
+    columns: {
+      date: 'Date',
+      description: 'Reference',
+      counterparty: 'Counter Party',
+      amount: 'Amount (GBP)',
+      balance: 'Balance (GBP)',
+      category: 'Spending Category',
+    },
+    dateFormat: 'dd/MM/yyyy',
+    signConvention: 'signed',
+    encoding: 'utf-8',
+  },
+  {
+    id: 'barclays',
+    name: 'Barclays',
+    columns: {
+      date: 'Date',
+      description: 'Memo',
+      amount: 'Amount',
+    },
+    dateFormat: 'dd/MM/yyyy',
+    signConvention: 'signed',
+    encoding: 'windows-1252',
+  },
+  {
+    id: 'hsbc',
+    name: 'HSBC',
+    columns: {
+      date: 'Date',
+      description: 'Description',
+      amount: 'Amount',
+    },
+    dateFormat: 'dd/MM/yyyy',
+    signConvention: 'signed',
+    encoding: 'windows-1252',
+    headerless: ['Date', 'Description', 'Amount'],
+  },
+  {
+    id: 'lloyds',
+    name: 'Lloyds',
+    columns: {
+      date: 'Transaction Date',
+      description: 'Transaction Description',
+      debit: 'Debit Amount',
+      credit: 'Credit Amount',
+      balance: 'Balance',
+    },
+    dateFormat: 'dd/MM/yyyy',
+    signConvention: 'split',
+    encoding: 'windows-1252',
+  },
+  {
+    id: 'natwest',
+    name: 'NatWest',
+    columns: {
+      date: 'Date',
+      description: 'Description',
+      amount: 'Value',
+      balance: 'Balance',
+    },
+    dateFormat: 'dd MMM yyyy',
+    signConvention: 'signed',
+    encoding: 'windows-1252',
+  },
+  {
+    id: 'tide',
+    name: 'Tide',
+    columns: {
+      date: 'Date',
+      description: 'Reference',
+      counterparty: 'Transaction description',
+      debit: 'Paid out',
+      credit: 'Paid in',
+      transactionId: 'Transaction ID',
+    },
+    dateFormat: 'yyyy-MM-dd',
+    signConvention: 'split',
+    encoding: 'utf-8',
+  },
+  {
+    id: 'revolut_business',
+    name: 'Revolut Business',
+    columns: {
+      date: 'Date started (UTC)',
+      description: 'Description',
+      counterparty: 'Counterparty',
+      amount: 'Amount',
+      balance: 'Balance',
+      transactionId: 'ID',
+    },
+    dateFormat: 'yyyy-MM-dd',
+    signConvention: 'signed',
+    encoding: 'utf-8',
+    parser: 'revolut',
+  },
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const normalizeHeader = (header: string): string => header.replace(/^\uFEFF/, '').trim().toLowerCase();
+
+/**
+ * The columns a profile reads, so detection can check they are all there
+ */
+export function profileColumns(profile: Pick<BankCSVProfile, 'columns'>): string[] {
+  return Object.values(profile.columns).filter((column): column is string => !!column);
+}
+
+/**
+ * The profile whose columns are all in the header row. Saved profiles win
+ * over built-in ones, then the profile reading the most columns, so a
+ * three-column layout doesn't claim a richer export that shares its names.
+ * Headerless profiles match on shape: the same column count, with a date
+ * and an amount where the profile expects them. A Revolut Business export
+ * always goes to its parser profile, so it reads the same on every import page.
+ */
+export function detectCSVProfile(headers: string[], profiles: BankCSVProfile[] = BANK_CSV_PROFILES): BankCSVProfile | null {
+  const available = new Set(headers.map(normalizeHeader));
+
+  const matches = profiles.filter(profile => {
+    if (profile.parser === 'revolut') {
+      return RevolutCSVParser.isBusinessLayout(headers.map(header => header.replace(/^\uFEFF/, '').trim()));
+    }
+    if (profile.headerless) {
+      return headers.length === profile.headerless.length &&
+        isCSVDate(headers[profile.headerless.indexOf(profile.columns.date)] ?? '', profile.dateFormat) &&
+        !isNaN(parseCSVAmount(headers[profile.headerless.indexOf(profile.columns.amount ?? '')] ?? ''));
+    }
+    return profileColumns(profile).every(column => available.has(normalizeHeader(column)));
+  });
+
+  matches.sort((a, b) =>
+    Number(!!b.parser) - Number(!!a.parser) ||
+    Number(!!b.custom) - Number(!!a.custom) ||
+    profileColumns(b).length - profileColumns(a).length
+  );
+  return matches[0] ?? null;
+}
+
+/**
+ * Read a CSV file into rows keyed by column name, decoding it with the
+ * detected profile's encoding. Files are read as UTF-8 first; one that
+ * doesn't decode cleanly is read again as the profile asks. A parser profile's
+ * rows are what its parser read, under the profile's column names.
+ */
+export async function readCSVFile(
+  file: File,
+  profiles: BankCSVProfile[] = BANK_CSV_PROFILES
+): Promise<{ profile: BankCSVProfile | null; headers: string[]; rows: Record<string, string>[] }> {
+  const buffer = await file.arrayBuffer();
+  const text = new TextDecoder('utf-8').decode(buffer);
+  let records = parseCSVRecords(text);
+  const profile = detectCSVProfile(records[0] ?? [], profiles);
+
+  if (profile?.parser === 'revolut') {
+    return { profile, headers: profileColumns(profile), rows: revolutProfileRows(RevolutCSVParser.parseCSV(text), profile) };
+  }
+
+  if (profile && profile.encoding !== 'utf-8' && records.some(record => record.some(value => value.includes('\uFFFD')))) {
+    records = parseCSVRecords(new TextDecoder(profile.encoding).decode(buffer));
+  }
+
+  const headers = profile?.headerless ?? (records[0] ?? []).map(header => header.replace(/^\uFEFF/, '').trim());
+  const rows = (profile?.headerless ? records : records.slice(1)).map(record =>
+    Object.fromEntries(headers.map((header, index) => [header, record[index] ?? '']))
+  );
+
+  return { profile, headers, rows };
+}
+
+/**
+ * Revolut transactions as rows keyed by a parser profile's columns. Dates are
+ * the started date, as on the bank import.
+ */
+function revolutProfileRows(transactions: RevolutTransaction[], profile: BankCSVProfile): Record<string, string>[] {
+  const { columns } = profile;
+  return transactions.map(transaction => {
+    const date = transaction.startedDate;
+    const row: Record<string, string> = {
+      [columns.date]: [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-'),
+      [columns.description]: transaction.description,
+    };
+    if (columns.counterparty) row[columns.counterparty] = transaction.counterparty ?? '';
+    if (columns.amount) row[columns.amount] = String(transaction.amount);
+    if (columns.balance) row[columns.balance] = isNaN(transaction.balance) ? '' : String(transaction.balance);
+    if (columns.transactionId) row[columns.transactionId] = transaction.fitid ?? '';
+    return row;
+  });
+}
+
+/**
+ * Rows for a headerless profile when the file was read with its first row
+ * taken as the header
+ */
+export function withHeaderlessColumns(
+  rows: Record<string, string>[],
+  headers: string[],
+  profile: BankCSVProfile
+): Record<string, string>[] {
+  if (!profile.headerless) return rows;
+  const columns = profile.headerless;
+  const toRow = (values: string[]) => Object.fromEntries(columns.map((column, index) => [column, values[index] ?? '']));
+  return [toRow(headers), ...rows.map(row => toRow(headers.map(header => row[header] ?? '')))];
+}
+
+/**
+ * Map rows with a profile. Rows that can't be read are skipped.
+ */
+export function applyCSVProfile(rows: Record<string, string>[], profile: BankCSVProfile): CSVProfileRow[] {
+  if (rows.length === 0) return [];
+
+  // Header case and spacing varies between exports of the same bank
+  const keys = new Map(Object.keys(rows[0]).map(key => [normalizeHeader(key), key]));
+  const read = (row: Record<string, string>, column: string | undefined): string =>
+    column ? (row[keys.get(normalizeHeader(column)) ?? column] ?? '').trim() : '';
+
+  const parsed: CSVProfileRow[] = [];
+  rows.forEach((row, index) => {
+    try {
+      const description = read(row, profile.columns.description);
+      const counterparty = read(row, profile.columns.counterparty);
+      const balance = parseCSVAmount(read(row, profile.columns.balance));
+
+      parsed.push({
+        date: parseCSVDate(read(row, profile.columns.date), profile.dateFormat),
+        description: description || counterparty,
+        counterparty: counterparty || null,
+        amount: signedAmount(row, profile, read),
+        balance: isNaN(balance) ? null : balance,
+        category: read(row, profile.columns.category) || null,
+        transactionId: read(row, profile.columns.transactionId) || null,
+      });
+    } catch (error) {
+      console.warn(`Error parsing ${profile.name} CSV row ${index + 1}:`, error);
+      // Continue processing other rows
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * Profile rows as statement transactions for the bank import review flow.
+ * The profile name stands in for the Revolut Product column, so a bank
+ * account whose statement product is e.g. "Monzo" picks the rows up.
+ */
+export function toRevolutTransactions(rows: CSVProfileRow[], profile: BankCSVProfile): RevolutTransaction[] {
+  return rows
+    .filter(row => row.amount !== 0)
+    .map(row => {
+      const [year, month, day] = row.date.split('-').map(Number);
+      const date = new Date(year, month - 1, day, 12);
+
+      return {
+        type: 'TRANSFER',
+        product: profile.name,
+        startedDate: date,
+        completedDate: date,
+        description: row.description || 'Bank transaction',
+        amount: row.amount,
+        fee: 0,
+        currency: 'GBP',
+        state: 'COMPLETED',
+        balance: row.balance ?? NaN,
+        fitid: row.transactionId ?? undefined,
+        counterparty: row.counterparty ?? undefined
+      };
+    });
+}
+
+/**
+ * A yyyy-MM-dd date. 'auto' reads slashed dates day first and anything else
+ * as JavaScript would.
+ */
+export function parseCSVDate(value: string, format: CSVDateFormat | 'auto'): string {
+  const text = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (format === 'auto') {
+    if (text.includes('/')) return parseCSVDate(text, 'dd/MM/yyyy');
+    const parsed = new Date(text);
+    if (isNaN(parsed.getTime())) throw new Error(`Invalid date: ${value}`);
+    return parsed.toISOString().split('T')[0];
+  }
+
+  if (format === 'yyyy-MM-dd') {
+    const match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (!match) throw new Error(`Invalid date: ${value}`);
+    [year, month, day] = match.slice(1).map(Number);
+  } else if (format === 'dd MMM yyyy') {
+    const match = text.match(/^(\d{1,2})[\s-]+([A-Za-z]{3})[A-Za-z]*[\s-]+(\d{4}|\d{2})$/);
+    if (!match) throw new Error(`Invalid date: ${value}`);
+    day = Number(match[1]);
+    month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    year = Number(match[3]) + (match[3].length === 2 ? 2000 : 0);
+  } else {
+    const match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})/);
+    if (!match) throw new Error(`Invalid date: ${value}`);
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    [day, month] = format === 'dd/MM/yyyy' ? [first, second] : [second, first];
+    year = Number(match[3]) + (match[3].length === 2 ? 2000 : 0);
+  }
+
+  // Round-trip through a Date so 31/02 is refused rather than rejected by Postgres on insert
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (year < 1900 || date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * The first format every sample date reads in, day first ahead of month
+ * first as these are UK exports
+ */
+export function detectCSVDateFormat(values: string[]): CSVDateFormat | null {
+  const samples = values.filter(value => value.trim());
+  if (samples.length === 0) return null;
+
+  const formats = Object.keys(CSV_DATE_FORMAT_LABELS) as CSVDateFormat[];
+  return formats.find(format => samples.every(value => isCSVDate(value, format))) ?? null;
+}
+
+export function isCSVDate(value: string, format: CSVDateFormat): boolean {
+  try {
+    parseCSVDate(value, format);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Amounts with currency symbols and thousands separators. Accounting-style
+ * brackets are negative. Empty cells are NaN, so callers can tell them from zero.
+ */
+export function parseCSVAmount(value: string): number {
+  const text = value.trim();
+  if (!text) return NaN;
+
+  const negative = /^\(.*\)$/.test(text);
+  const amount = parseFloat(text.replace(/[£$€,\s()]/g, ''));
+  return negative ? -Math.abs(amount) : amount;
+}
+
+function signedAmount(
+  row: Record<string, string>,
+  profile: BankCSVProfile,
+  read: (row: Record<string, string>, column: string | undefined) => string
+): number {
+  if (profile.signConvention === 'split') {
+    const debit = parseCSVAmount(read(row, profile.columns.debit));
+    const credit = parseCSVAmount(read(row, profile.columns.credit));
+    if (isNaN(debit) && isNaN(credit)) throw new Error('Missing money in and money out');
+    return Math.round(((isNaN(credit) ? 0 : Math.abs(credit)) - (isNaN(debit) ? 0 : Math.abs(debit))) * 100) / 100;
+  }
+
+  const amount = parseCSVAmount(read(row, profile.columns.amount));
+  if (isNaN(amount)) throw new Error('Invalid amount');
+  return profile.signConvention === 'inverted' ? -amount : amount;
+}
+
+function parseCSVRecords(text: string): string[][] {
+  const result = Papa.parse<string[]>(text, { header: false, skipEmptyLines: 'greedy' });
+  return result.data;
+}
@@ -0,0 +1,327 @@
+// Budgets
+// Monthly or annual budgets per category or hierarchy, and Budget vs Actual from the P&L
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { HierarchicalPLData, HierarchySection } from './reports-data-engine';
+
+export type BudgetPeriod = 'monthly' | 'annual';
+
+export interface Budget {
+  id: string;
+  user_id: string;
+  /** Calendar year the budget is for */
+  year: number;
+  category_id: string | null;
+  hierarchy_id: string | null;
+  period: BudgetPeriod;
+  amount: number | string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BudgetTarget = { categoryId: string; hierarchyId?: never } | { hierarchyId: string; categoryId?: never };
+
+export interface BudgetVarianceRow {
+  id: string;
+  name: string;
+  /** Amount for the whole year, null when no budget is set */
+  annualBudget: number | null;
+  /** The budget's share for the months reported */
+  budget: number;
+  actual: number;
+  /** Positive is favourable: income above budget or spending below it */
+  variance: number;
+  /** Variance as a percentage of the budget, null without a budget */
+  variancePercent: number | null;
+  /** Full-year figure at the run rate so far */
+  forecast: number;
+  isOverBudget: boolean;
+  /** The budget is on the row itself rather than added up from its categories */
+  hasOwnBudget: boolean;
+  budgetId: string | null;
+  /** How the row's own budget was entered, null without one */
+  period: BudgetPeriod | null;
+}
+
+export interface BudgetVarianceSection extends BudgetVarianceRow {
+  categories: BudgetVarianceRow[];
+}
+
+export interface BudgetVsActualData {
+  year: number;
+  /** Months of the year included in the actuals, 1-12 */
+  monthsElapsed: number;
+  income: BudgetVarianceSection[];
+  expenditure: BudgetVarianceSection[];
+  totals: {
+    income: BudgetVarianceRow;
+    expenditure: BudgetVarianceRow;
+    netProfit: BudgetVarianceRow;
+  };
+}
+
+/** A hierarchy and its categories, whether or not they have any transactions */
+export interface BudgetTargetHierarchy {
+  id: string;
+  name: string;
+  type: 'income' | 'expenditure';
+  display_order: number;
+  categories: { id: string; name: string }[];
+}
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  monthly: 'Per month',
+  annual: 'Per year',
+};
+
+const roundPence = (value: number) => Math.round(value * 100) / 100;
+
+export function annualBudget(budget: Pick<Budget, 'period' | 'amount'>): number {
+  const amount = Number(budget.amount);
+  return roundPence(budget.period === 'monthly' ? amount * 12 : amount);
+}
+
+/**
+ * Uncategorised transactions are grouped under a made-up section that can't be budgeted
+ */
+export function isBudgetableSection(section: Pick<HierarchySection, 'id'>): boolean {
+  return !section.id.startsWith('uncategorized-');
+}
+
+function varianceRow(
+  row: Pick<BudgetVarianceRow, 'id' | 'name' | 'annualBudget' | 'actual' | 'hasOwnBudget' | 'budgetId' | 'period'>,
+  kind: 'income' | 'expense',
+  monthsElapsed: number
+): BudgetVarianceRow {
+  const budget = roundPence(((row.annualBudget ?? 0) * monthsElapsed) / 12);
+  const actual = roundPence(row.actual);
+  const variance = roundPence(kind === 'income' ? actual - budget : budget - actual);
+
+  return {
+    ...row,
+    actual,
+    budget,
+    variance,
+    variancePercent: budget !== 0 ? (variance / budget) * 100 : null,
+    // Nothing to project from before the year starts, so the budget stands
+    forecast: monthsElapsed > 0 ? roundPence((actual * 12) / monthsElapsed) : row.annualBudget ?? 0,
+    isOverBudget: kind === 'expense' && row.annualBudget !== null && actual > budget,
+  };
+}
+
+function sumBudgets(values: (number | null)[]): number | null {
+  const set = values.filter((value): value is number => value !== null);
+  return set.length > 0 ? roundPence(set.reduce((sum, value) => sum + value, 0)) : null;
+}
+
+/**
+ * The P&L sections with every hierarchy and category in `targets` added at
+ * nil, so they can be budgeted before anything is spent
+ */
+function withAllTargets(sections: HierarchySection[], targets: BudgetTargetHierarchy[]): HierarchySection[] {
+  const byId = new Map(sections.map(section => [section.id, section]));
+  const merged = targets.map((target): HierarchySection => {
+    const section = byId.get(target.id);
+    const categories = section?.categories ?? [];
+    const known = new Set(categories.map(category => category.id));
+
+    return {
+      id: target.id,
+      name: target.name,
+      type: target.type,
+      total_amount: section?.total_amount ?? 0,
+      disallowable_amount: section?.disallowable_amount ?? 0,
+      categories: [
+        ...categories,
+        ...target.categories
+          .filter(category => !known.has(category.id))
+          .map(category => ({
+            ...category,
+            total_amount: 0,
+            disallowable_amount: 0,
+            transaction_count: 0,
+            transactions: [],
+          })),
+      ],
+      display_order: target.display_order,
+    };
+  });
+
+  const listed = new Set(targets.map(target => target.id));
+  return [...merged, ...sections.filter(section => !listed.has(section.id))];
+}
+
+/**
+ * Budget vs Actual for the first `monthsElapsed` months of the year. A hierarchy
+ * uses its own budget when it has one, otherwise the total of its categories'.
+ * Only expense rows with a budget of their own are flagged as over budget.
+ */
+export function buildBudgetVsActual(
+  data: HierarchicalPLData,
+  budgets: Budget[],
+  targets: BudgetTargetHierarchy[],
+  year: number,
+  monthsElapsed: number
+): BudgetVsActualData {
+  const byCategory = new Map(budgets.filter(b => b.category_id).map(b => [b.category_id!, b]));
+  const byHierarchy = new Map(budgets.filter(b => b.hierarchy_id).map(b => [b.hierarchy_id!, b]));
+
+  const buildSections = (sections: HierarchySection[], kind: 'income' | 'expense') =>
+    sections.map(section => {
+      const categories = section.categories
+        .map(category => {
+          const budget = byCategory.get(category.id);
+          return varianceRow({
+            id: category.id,
+            name: category.name,
+            annualBudget: budget ? annualBudget(budget) : null,
+            actual: category.total_amount,
+            hasOwnBudget: !!budget,
+            budgetId: budget?.id ?? null,
+            period: budget?.period ?? null,
+          }, kind, monthsElapsed);
+        });
+
+      const own = byHierarchy.get(section.id);
+      return {
+        ...varianceRow({
+          id: section.id,
+          name: section.name,
+          annualBudget: own ? annualBudget(own) : sumBudgets(categories.map(row => row.annualBudget)),
+          actual: section.total_amount,
+          hasOwnBudget: !!own,
+          budgetId: own?.id ?? null,
+          period: own?.period ?? null,
+        }, kind, monthsElapsed),
+        // Unbudgeted categories still count in the actual, so only the
+        // hierarchy's own budget can put it over - otherwise its categories say
+        ...(own ? {} : { isOverBudget: false }),
+        categories,
+      };
+    });
+
+  const income = buildSections(withAllTargets(data.income, targets.filter(t => t.type === 'income')), 'income');
+  const expenditure = buildSections(
+    withAllTargets(data.expenditure, targets.filter(t => t.type === 'expenditure')),
+    'expense'
+  );
+
+  const total = (id: string, name: string, sections: BudgetVarianceSection[], kind: 'income' | 'expense') =>
+    varianceRow({
+      id,
+      name,
+      annualBudget: sumBudgets(sections.map(section => section.annualBudget)),
+      actual: sections.reduce((sum, section) => sum + section.actual, 0),
+      hasOwnBudget: false,
+      budgetId: null,
+      period: null,
+    }, kind, monthsElapsed);
+
+  const totalIncome = total('total-income', 'Total Income', income, 'income');
+  const totalExpenditure = total('total-expenditure', 'Total Expenditure', expenditure, 'expense');
+  const netBudget = totalIncome.annualBudget !== null || totalExpenditure.annualBudget !== null
+    ? roundPence((totalIncome.annualBudget ?? 0) - (totalExpenditure.annualBudget ?? 0))
+    : null;
+
+  return {
+    year,
+    monthsElapsed,
+    income,
+    expenditure,
+    totals: {
+      income: totalIncome,
+      expenditure: totalExpenditure,
+      // Profit is judged like income - above budget is favourable
+      netProfit: varianceRow({
+        id: 'net-profit',
+        name: 'Net Profit',
+        annualBudget: netBudget,
+        actual: totalIncome.actual - totalExpenditure.actual,
+        hasOwnBudget: false,
+        budgetId: null,
+        period: null,
+      }, 'income', monthsElapsed),
+    },
+  };
+}
+
+/**
+ * Budgets from a year's actuals with a percentage uplift, one annual amount per
+ * category or per hierarchy. Negative totals (net refunds) aren't budgeted.
+ */
+export function budgetsFromActuals(
+  data: HierarchicalPLData,
+  level: 'category' | 'hierarchy',
+  upliftPercent: number
+): { target: BudgetTarget; amount: number }[] {
+  const uplift = (amount: number) => roundPence(amount * (1 + upliftPercent / 100));
+  const sections = [...data.income, ...data.expenditure].filter(isBudgetableSection);
+
+  if (level === 'hierarchy') {
+    return sections
+      .filter(section => section.total_amount > 0)
+      .map(section => ({ target: { hierarchyId: section.id }, amount: uplift(section.total_amount) }));
+  }
+
+  // A category in more than one hierarchy still only gets one budget
+  const categories = new Map(sections.flatMap(section => section.categories).map(category => [category.id, category]));
+  return Array.from(categories.values())
+    .filter(category => category.total_amount > 0)
+    .map(category => ({ target: { categoryId: category.id }, amount: uplift(category.total_amount) }));
+}
+
+/**
+ * Months of `year` covered up to `asOf` (yyyy-MM-dd): 12 for past years, 0 for future ones
+ */
+export function budgetMonthsElapsed(year: number, asOf: string): number {
+  const asOfYear = Number(asOf.slice(0, 4));
+  if (asOfYear > year) return 12;
+  if (asOfYear < year) return 0;
+  return Number(asOf.slice(5, 7));
+}
+
+export async function fetchBudgets(supabase: SupabaseClient, year: number): Promise<Budget[]> {
+  const { data, error } = await supabase
+    .from('budgets')
+    .select('*')
+    .eq('year', year);
+
+  if (error) {
+    throw new Error(`Failed to fetch budgets: ${error.message}`);
+  }
+
+  return (data || []) as Budget[];
+}
+
+/**
+ * Income and expenditure hierarchies with their categories, in display order
+ */
+export async function fetchBudgetTargets(supabase: SupabaseClient): Promise<BudgetTargetHierarchy[]> {
+  const { data, error } = await supabase
+    .from('category_hierarchies')
+    .select('id, name, type, display_order, category_hierarchy_assignments(categories(id, name))')
+    .in('type', ['income', 'expenditure'])
+    .order('display_order', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch budget categories: ${error.message}`);
+  }
+
+  type Row = {
+    id: string;
+    name: string;
+    type: 'income' | 'expenditure';
+    display_order: number | null;
+    category_hierarchy_assignments: { categories: { id: string; name: string } | { id: string; name: string }[] | null }[];
+  };
+
+  return ((data || []) as Row[]).map(row => ({
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    display_order: row.display_order ?? 0,
+    categories: row.category_hierarchy_assignments
+      .flatMap(assignment => assignment.categories ?? [])
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  }));
+}
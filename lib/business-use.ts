@@ -0,0 +1,101 @@
+// Business Use
+// Private-use percentages and disallowable flags on expenses, and the P&L view net of them
+
+import type { HierarchicalPLData, HierarchySection } from './reports-data-engine';
+
+export interface BusinessUseSettings {
+  /** Share of the cost that's for the business, 0-100; null/undefined when not set */
+  business_use_percent?: number | string | null;
+  /** Not deductible at all, e.g. client entertaining */
+  disallowable?: boolean | null;
+}
+
+export type BusinessUseMode = 'allowable' | 'partial' | 'disallowable';
+
+export const BUSINESS_USE_MODE_LABELS: Record<BusinessUseMode, string> = {
+  allowable: 'Fully allowable',
+  partial: 'Part private use',
+  disallowable: 'Disallowable',
+};
+
+const roundPence = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Business-use percentage that applies to an expense. The transaction's own
+ * flag or percentage wins; otherwise the category's; otherwise 100%.
+ */
+export function effectiveBusinessUsePercent(
+  transaction: BusinessUseSettings,
+  category?: BusinessUseSettings | null
+): number {
+  if (transaction.disallowable) return 0;
+  if (transaction.business_use_percent != null) return Number(transaction.business_use_percent);
+  if (category?.disallowable) return 0;
+  if (category?.business_use_percent != null) return Number(category.business_use_percent);
+  return 100;
+}
+
+/**
+ * Part of an expense that isn't allowable for tax (keeps the sign, so refunds reduce it)
+ */
+export function disallowablePortion(
+  amount: number,
+  transaction: BusinessUseSettings,
+  category?: BusinessUseSettings | null
+): number {
+  const percent = effectiveBusinessUsePercent(transaction, category);
+  return percent >= 100 ? 0 : roundPence((amount * (100 - percent)) / 100);
+}
+
+export function businessUseMode(settings: BusinessUseSettings): BusinessUseMode {
+  if (settings.disallowable) return 'disallowable';
+  return settings.business_use_percent != null && Number(settings.business_use_percent) < 100 ? 'partial' : 'allowable';
+}
+
+export function describeBusinessUse(settings: BusinessUseSettings): string {
+  switch (businessUseMode(settings)) {
+    case 'disallowable':
+      return 'Disallowable';
+    case 'partial':
+      return `${Number(settings.business_use_percent)}% business use`;
+    default:
+      return BUSINESS_USE_MODE_LABELS.allowable;
+  }
+}
+
+/**
+ * The P&L with expenses reduced to their business share. The excluded amount is
+ * private use or disallowable spend, so it comes off profit but still leaves the
+ * bank, and the net bank position is unchanged.
+ */
+export function netOfDisallowable(data: HierarchicalPLData): HierarchicalPLData {
+  if (data.totals.total_disallowable === 0) return data;
+
+  const netSection = (section: HierarchySection): HierarchySection => ({
+    ...section,
+    total_amount: roundPence(section.total_amount - section.disallowable_amount),
+    disallowable_amount: 0,
+    categories: section.categories.map(category => ({
+      ...category,
+      total_amount: roundPence(category.total_amount - category.disallowable_amount),
+      disallowable_amount: 0,
+      transactions: category.transactions.map(transaction => ({
+        ...transaction,
+        amount: roundPence(transaction.amount - transaction.disallowable_amount),
+        disallowable_amount: 0,
+      })),
+    })),
+  });
+
+  const totalExpenditure = roundPence(data.totals.total_expenditure - data.totals.total_disallowable);
+  return {
+    ...data,
+    expenditure: data.expenditure.map(netSection),
+    totals: {
+      ...data.totals,
+      total_expenditure: totalExpenditure,
+      net_operating_profit: roundPence(data.totals.total_income - totalExpenditure),
+      total_disallowable: 0,
+    },
+  };
+}
@@ -0,0 +1,358 @@
+// CAMT.053 Parser Utility
+// Reads ISO 20022 bank-to-customer statements (camt.053), versions 001.02 to 001.08 and later
+
+import {
+  RevolutTransaction,
+  RevolutTransactionState,
+  RevolutTransactionType
+} from './revolut-types';
+
+export interface CAMT053Statement {
+  /** IBAN, or the bank's own account number when there is no IBAN */
+  accountId: string;
+  currency: string;
+  /** OPBD - booked balance at the start of the statement */
+  openingBalance: number | null;
+  /** CLBD - booked balance at the end of the statement */
+  closingBalance: number | null;
+  closingBalanceDate: Date | null;
+  transactions: RevolutTransaction[];
+}
+
+interface EntryDetail {
+  amount: number;
+  counterparty?: string;
+  remittanceInfo?: string;
+  endToEndId?: string;
+  reference?: string;
+  additionalInfo?: string;
+}
+
+const CAMT_EXTENSIONS = ['.xml', '.camt', '.053'];
+
+const roundPence = (value: number): number => Math.round(value * 100) / 100;
+
+export class CAMT053Parser {
+  /**
+   * Whether a file should be read as CAMT.053 XML
+   */
+  static isCAMT053File(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return CAMT_EXTENSIONS.some(extension => name.endsWith(extension));
+  }
+
+  /**
+   * Parse CAMT.053 content into transactions, with running balances from each statement's booked balances
+   */
+  static parseCAMT053(content: string): RevolutTransaction[] {
+    return this.parseStatements(content).flatMap(statement => statement.transactions);
+  }
+
+  /**
+   * Parse each Stmt in the file. A bank may send several accounts, or several
+   * days for one account, in a single message.
+   */
+  static parseStatements(content: string): CAMT053Statement[] {
+    if (!/<(?:\w+:)?BkToCstmrStmt[\s>]/.test(content)) {
+      throw new Error('File is not a CAMT.053 statement');
+    }
+
+    const statements = this.blocks(content, 'Stmt');
+    if (statements.length === 0) {
+      throw new Error('CAMT.053 file contains no statements');
+    }
+
+    return statements.map(statement => this.parseStatement(statement));
+  }
+
+  private static parseStatement(statement: string): CAMT053Statement {
+    const account = this.blocks(statement, 'Acct')[0] ?? '';
+    const otherId = this.blocks(account, 'Othr')[0];
+    const accountId = this.value(account, 'IBAN') ?? (otherId ? this.value(otherId, 'Id') : null) ?? '';
+    const currency = this.value(account, 'Ccy') ?? this.attribute(statement, 'Amt', 'Ccy') ?? 'GBP';
+
+    // A balance's credit line has an Amt of its own
+    const balances = this.blocks(statement, 'Bal').map(block => this.withoutBlocks(block, 'CdtLine')).map(balance => ({
+      code: this.value(balance, 'Cd'),
+      amount: this.signed(this.parseAmount(this.value(balance, 'Amt') ?? ''), this.value(balance, 'CdtDbtInd')),
+      date: this.parseDate(this.value(balance, 'Dt') ?? this.value(balance, 'DtTm') ?? ''),
+    }));
+    const opening = balances.find(b => b.code === 'OPBD') ?? balances.find(b => b.code === 'PRCD');
+    const closing = balances.find(b => b.code === 'CLBD');
+
+    if (!opening && !closing) {
+      throw new Error(`CAMT.053 statement for account ${accountId || 'unknown'} has no booked balance`);
+    }
+
+    const transactions: RevolutTransaction[] = [];
+    this.blocks(statement, 'Ntry').forEach((entry, index) => {
+      try {
+        transactions.push(...this.parseEntry(entry, accountId, currency));
+      } catch (error) {
+        console.warn(`Error parsing CAMT.053 entry ${index + 1}:`, error);
+        // Continue processing other entries
+      }
+    });
+
+    return {
+      accountId,
+      currency,
+      openingBalance: opening?.amount ?? null,
+      closingBalance: closing?.amount ?? null,
+      closingBalanceDate: closing?.date ?? null,
+      transactions: this.withRunningBalances(transactions, opening?.amount ?? null, closing?.amount ?? null),
+    };
+  }
+
+  /**
+   * One row per entry, or one per transaction when a batch booking lists
+   * transaction details whose amounts add up to the entry
+   */
+  private static parseEntry(entry: string, accountId: string, currency: string): RevolutTransaction[] {
+    const amountValue = this.value(entry, 'Amt');
+    const bookingBlock = this.blocks(entry, 'BookgDt')[0] ?? '';
+    const booked = this.value(bookingBlock, 'Dt') ?? this.value(bookingBlock, 'DtTm');
+    if (!amountValue) throw new Error('Missing Amt');
+    if (!booked) throw new Error('Missing BookgDt');
+
+    const credit = this.value(entry, 'CdtDbtInd') === 'CRDT';
+    const amount = this.signed(this.parseAmount(amountValue), credit ? 'CRDT' : 'DBIT');
+    const bookingDate = this.parseDate(booked);
+    const valueBlock = this.blocks(entry, 'ValDt')[0];
+    const valueDate = valueBlock ? this.value(valueBlock, 'Dt') ?? this.value(valueBlock, 'DtTm') : null;
+    // <Sts>BOOK</Sts> before version 001.08, <Sts><Cd>BOOK</Cd></Sts> after
+    const status = this.blocks(entry, 'Sts')[0] ?? 'BOOK';
+    const state: RevolutTransactionState = /PDNG/.test(status) ? 'PENDING' : 'COMPLETED';
+    const entryReference = this.value(this.withoutBlocks(entry, 'NtryDtls'), 'AcctSvcrRef') ?? this.value(entry, 'NtryRef');
+    const entryInfo = this.value(entry, 'AddtlNtryInf') ?? undefined;
+    const type = this.mapTransactionType(entry, amount);
+
+    const details = this.blocks(entry, 'TxDtls').map(detail => this.parseDetail(detail, credit));
+    const detailTotal = roundPence(details.reduce((sum, detail) => sum + detail.amount, 0));
+    const split = details.length > 1 && details.every(detail => detail.amount !== 0) &&
+      Math.abs(detailTotal - Math.abs(amount)) < 0.01;
+    const rows = split ? details : [{ ...details[0], amount: Math.abs(amount) }];
+
+    return rows.map((detail, index) => {
+      const reference = detail.reference ??
+        (entryReference ? (split ? `${entryReference}-${index + 1}` : entryReference) : undefined);
+
+      return {
+        type,
+        product: accountId,
+        startedDate: valueDate ? this.parseDate(valueDate) : bookingDate,
+        completedDate: bookingDate,
+        description: this.description(detail, entryInfo),
+        amount: credit ? detail.amount : -detail.amount,
+        fee: 0,
+        currency: this.attribute(entry, 'Amt', 'Ccy') ?? currency,
+        state,
+        balance: NaN,
+        fitid: reference,
+        counterparty: detail.counterparty,
+        remittanceInfo: detail.remittanceInfo,
+        endToEndId: detail.endToEndId
+      };
+    });
+  }
+
+  /**
+   * The counterparty is the debtor for money in and the creditor for money
+   * out. From version 001.08 the name sits one level down, under Pty.
+   */
+  private static parseDetail(detail: string, credit: boolean): EntryDetail {
+    // AmtDtls can also hold the instructed amount in another currency, so only TxAmt is used from it
+    const transactionAmount = this.blocks(this.blocks(detail, 'AmtDtls')[0] ?? '', 'TxAmt')[0];
+    const amountValue = transactionAmount
+      ? this.value(transactionAmount, 'Amt')
+      : this.value(this.withoutBlocks(this.withoutBlocks(detail, 'AmtDtls'), 'Chrgs'), 'Amt');
+
+    const parties = this.blocks(detail, 'RltdPties')[0] ?? '';
+    const party = this.blocks(parties, credit ? 'Dbtr' : 'Cdtr')[0] ??
+      this.blocks(parties, credit ? 'UltmtDbtr' : 'UltmtCdtr')[0];
+
+    const remittance = this.blocks(detail, 'RmtInf')[0] ?? '';
+    const unstructured = this.values(remittance, 'Ustrd').join(' ');
+    const creditorReference = this.blocks(remittance, 'CdtrRefInf').map(ref => this.value(ref, 'Ref')).find(Boolean);
+
+    const refs = this.blocks(detail, 'Refs')[0] ?? '';
+    const endToEndId = this.value(refs, 'EndToEndId');
+
+    return {
+      amount: amountValue ? Math.abs(this.parseAmount(amountValue)) : 0,
+      counterparty: (party ? this.value(party, 'Nm') : null) ?? undefined,
+      remittanceInfo: unstructured || creditorReference || undefined,
+      // NOTPROVIDED is the scheme's placeholder for "no reference"
+      endToEndId: endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined,
+      reference: this.value(refs, 'AcctSvcrRef') ?? undefined,
+      additionalInfo: this.value(detail, 'AddtlTxInf') ?? undefined,
+    };
+  }
+
+  /**
+   * What the bank would print on the statement line
+   */
+  private static description(detail: EntryDetail, entryInfo: string | undefined): string {
+    const parts = [detail.counterparty, detail.remittanceInfo].filter(Boolean);
+    if (parts.length > 0) return parts.join(' - ');
+    return detail.additionalInfo ?? entryInfo ?? 'Bank transaction';
+  }
+
+  /**
+   * From the ISO bank transaction code (domain/family/sub-family), falling
+   * back to TRANSFER so income and expenditure follow the amount's sign
+   */
+  private static mapTransactionType(entry: string, amount: number): RevolutTransactionType {
+    const code = this.blocks(entry, 'BkTxCd')[0] ?? '';
+    const family = this.blocks(code, 'Fmly')[0];
+    const familyCode = family ? this.value(family, 'Cd') : null;
+    const subFamilyCode = family ? this.value(family, 'SubFmlyCd') : null;
+
+    if (amount < 0 && ['CHRG', 'COMM', 'FEES'].includes(subFamilyCode ?? '')) return 'FEE';
+    if (amount < 0 && familyCode === 'CCRD') return 'CARD_PAYMENT';
+    return 'TRANSFER';
+  }
+
+  /**
+   * Booked rows run forward from the opening balance, or back from the
+   * closing balance when the statement has no opening one. Pending rows
+   * aren't in either balance.
+   */
+  private static withRunningBalances(
+    transactions: RevolutTransaction[],
+    openingBalance: number | null,
+    closingBalance: number | null
+  ): RevolutTransaction[] {
+    const ordered = transactions
+      .map((transaction, index) => ({ transaction, index }))
+      .sort((a, b) =>
+        a.transaction.completedDate!.getTime() - b.transaction.completedDate!.getTime() || a.index - b.index
+      )
+      .map(({ transaction }) => transaction);
+
+    const booked = ordered.filter(t => t.state === 'COMPLETED');
+    const movement = booked.reduce((sum, t) => sum + t.amount, 0);
+    let balance = openingBalance ?? closingBalance! - movement;
+
+    if (openingBalance !== null && closingBalance !== null && Math.abs(roundPence(openingBalance + movement) - closingBalance) >= 0.01) {
+      console.warn(`CAMT.053 entries don't add up to the closing balance (${openingBalance} + ${roundPence(movement)} ≠ ${closingBalance})`);
+    }
+
+    return ordered.map(transaction => {
+      if (transaction.state !== 'COMPLETED') return transaction;
+      balance = roundPence(balance + transaction.amount);
+      return { ...transaction, balance };
+    });
+  }
+
+  /**
+   * Contents of each <Tag>...</Tag> element, with or without a namespace
+   * prefix. Tags sharing a prefix (Dbtr, DbtrAcct) are told apart.
+   */
+  private static blocks(content: string, tag: string): string[] {
+    const pattern = new RegExp(`<((?:\\w+:)?${tag})(?:\\s[^>]*)?>([\\s\\S]*?)</\\1>`, 'g');
+    return Array.from(content.matchAll(pattern), match => match[2]);
+  }
+
+  private static withoutBlocks(content: string, tag: string): string {
+    return content.replace(new RegExp(`<((?:\\w+:)?${tag})(?:\\s[^>]*)?>[\\s\\S]*?</\\1>`, 'g'), '');
+  }
+
+  /**
+   * First text-only element with this tag
+   */
+  private static value(content: string, tag: string): string | null {
+    return this.values(content, tag)[0] ?? null;
+  }
+
+  private static values(content: string, tag: string): string[] {
+    const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([^<]*)</(?:\\w+:)?${tag}>`, 'g');
+    return Array.from(content.matchAll(pattern), match => this.decodeEntities(match[1].trim())).filter(Boolean);
+  }
+
+  private static attribute(content: string, tag: string, name: string): string | null {
+    const match = content.match(new RegExp(`<(?:\\w+:)?${tag}\\s[^>]*\\b${name}="([^"]*)"`));
+    return match ? match[1] : null;
+  }
+
+  private static decodeEntities(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+      .replace(/&amp;/g, '&');
+  }
+
+  private static signed(amount: number, indicator: string | null): number {
+    return indicator === 'DBIT' ? -Math.abs(amount) : Math.abs(amount);
+  }
+
+  /**
+   * Amounts are unsigned with a decimal point; CdtDbtInd gives the direction
+   */
+  private static parseAmount(value: string): number {
+    const amount = parseFloat(value.trim());
+    if (isNaN(amount)) {
+      throw new Error(`Invalid CAMT.053 amount: ${value}`);
+    }
+    return amount;
+  }
+
+  /**
+   * ISO dates (YYYY-MM-DD) or date-times. As with OFX the bank's calendar
+   * date is what matters, so date-only values are set to midday.
+   */
+  private static parseDate(value: string): Date {
+    const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?/);
+    if (!match) {
+      throw new Error(`Invalid CAMT.053 date: ${value}`);
+    }
+
+    const [, year, month, day, hours, minutes, seconds] = match;
+    return hours
+      ? new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds ?? 0))
+      : new Date(Number(year), Number(month) - 1, Number(day), 12);
+  }
+
+  /**
+   * Validate CAMT.053 file before processing
+   */
+  static validateCAMT053File(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.isCAMT053File(file)) {
+        reject(new Error('File must be a CAMT.053 XML file'));
+        return;
+      }
+
+      if (file.size > 10 * 1024 * 1024) { // 10MB limit
+        reject(new Error('File size must be less than 10MB'));
+        return;
+      }
+
+      const reader = new FileReader();
+
+      reader.onload = (e) => {
+        const content = e.target?.result as string;
+        if (!content) {
+          reject(new Error('Failed to read file content'));
+          return;
+        }
+
+        if (!/<(?:\w+:)?BkToCstmrStmt[\s>]/.test(content)) {
+          reject(new Error('XML file is not a CAMT.053 bank statement'));
+          return;
+        }
+
+        resolve(content);
+      };
+
+      reader.onerror = () => {
+        reject(new Error('Failed to read file'));
+      };
+
+      reader.readAsText(file);
+    });
+  }
+}
@@ -0,0 +1,261 @@
+// Capital Allowances
+// Annual Investment Allowance, main and special rate pools and writing-down allowances per tax year
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { effectiveBusinessUsePercent, type BusinessUseSettings } from './business-use';
+
+export type CapitalAllowancePool = 'main' | 'special_rate';
+
+export interface CapitalAllowanceTransaction extends BusinessUseSettings {
+  id: string;
+  description: string;
+  amount: number | string;
+  type: string;
+  transaction_date: string;
+  capital_allowance_pool: CapitalAllowancePool;
+  aia_eligible: boolean;
+  fixed_asset_id: string | null;
+  categories?: BusinessUseSettings | BusinessUseSettings[] | null;
+}
+
+export interface CapitalAllowanceRates {
+  aiaLimit: number;
+  mainRate: number;
+  specialRate: number;
+  /** A pool at or below this can be written off in full */
+  smallPoolsLimit: number;
+}
+
+export interface PoolYear {
+  pool: CapitalAllowancePool;
+  broughtForward: number;
+  /** Purchases not covered by AIA */
+  additions: number;
+  disposals: number;
+  writingDownAllowance: number;
+  /** True when the whole balance was claimed under the small pools allowance */
+  smallPoolWriteOff: boolean;
+  balancingCharge: number;
+  carriedForward: number;
+}
+
+export interface CapitalAllowanceYear {
+  /** Calendar year the tax year starts in, e.g. 2024 for 2024-25 */
+  startYear: number;
+  label: string;
+  rates: CapitalAllowanceRates;
+  qualifyingExpenditure: number;
+  aiaClaimed: number;
+  pools: Record<CapitalAllowancePool, PoolYear>;
+  /** AIA plus writing-down allowances, excluding small pool write-offs */
+  totalAllowances: number;
+  smallPoolsAllowance: number;
+  balancingCharges: number;
+}
+
+export const CAPITAL_ALLOWANCE_POOL_LABELS: Record<CapitalAllowancePool, string> = {
+  main: 'Main pool',
+  special_rate: 'Special rate pool',
+};
+
+/** SA103S boxes the allowance figures are entered in */
+export const SA103_CAPITAL_ALLOWANCE_BOXES = {
+  annualInvestmentAllowance: 23,
+  smallPoolsAllowance: 24,
+  otherCapitalAllowances: 26,
+  balancingCharges: 27,
+} as const;
+
+const POOLS: CapitalAllowancePool[] = ['special_rate', 'main'];
+
+const roundPence = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Business share of a flagged purchase or sale, as used for the private-use
+ * share in the P&L
+ */
+function businessShare(transaction: CapitalAllowanceTransaction): number {
+  const category = Array.isArray(transaction.categories) ? transaction.categories[0] : transaction.categories;
+  return (Math.abs(Number(transaction.amount)) * effectiveBusinessUsePercent(transaction, category)) / 100;
+}
+
+/**
+ * Rates for the tax year starting 6 April `startYear`. The £1m AIA and the 6%
+ * special rate apply from 2019-20; earlier years use £200k and 8%.
+ */
+export function capitalAllowanceRates(startYear: number): CapitalAllowanceRates {
+  return {
+    aiaLimit: startYear >= 2019 ? 1_000_000 : 200_000,
+    mainRate: 0.18,
+    specialRate: startYear >= 2019 ? 0.06 : 0.08,
+    smallPoolsLimit: 1000,
+  };
+}
+
+/**
+ * Calendar year the tax year containing `date` (yyyy-MM-dd) starts in
+ */
+export function taxYearStartYear(date: string): number {
+  const year = Number(date.slice(0, 4));
+  return date.slice(5) >= '04-06' ? year : year - 1;
+}
+
+export function taxYearLabel(startYear: number): string {
+  return `${startYear}-${String(startYear + 1).slice(2)}`;
+}
+
+/**
+ * Run the pools from the first year with a flagged transaction up to and
+ * including `throughStartYear`, carrying each pool's balance forward.
+ * Purchases are expenditure; income flagged with a pool is disposal proceeds.
+ * Both count at their business share, so private use cuts the allowances
+ * back. AIA is used on special rate purchases first as they'd otherwise get
+ * the slowest relief.
+ */
+export function calculateCapitalAllowances(
+  transactions: CapitalAllowanceTransaction[],
+  throughStartYear: number
+): CapitalAllowanceYear[] {
+  if (transactions.length === 0) return [];
+
+  const firstYear = Math.min(...transactions.map(t => taxYearStartYear(t.transaction_date)));
+  const years: CapitalAllowanceYear[] = [];
+  const balances: Record<CapitalAllowancePool, number> = { main: 0, special_rate: 0 };
+
+  for (let startYear = firstYear; startYear <= throughStartYear; startYear++) {
+    const rates = capitalAllowanceRates(startYear);
+    const inYear = transactions.filter(t => taxYearStartYear(t.transaction_date) === startYear);
+
+    let aiaRemaining = rates.aiaLimit;
+    let qualifyingExpenditure = 0;
+    const pools = {} as Record<CapitalAllowancePool, PoolYear>;
+
+    POOLS.forEach(pool => {
+      const poolTransactions = inYear.filter(t => t.capital_allowance_pool === pool);
+      const purchases = poolTransactions.filter(t => t.type === 'expenditure');
+      const eligible = purchases.filter(t => t.aia_eligible).reduce((sum, t) => sum + businessShare(t), 0);
+      const ineligible = purchases.filter(t => !t.aia_eligible).reduce((sum, t) => sum + businessShare(t), 0);
+      const disposals = roundPence(
+        poolTransactions.filter(t => t.type === 'income').reduce((sum, t) => sum + businessShare(t), 0)
+      );
+
+      const aia = Math.min(eligible, aiaRemaining);
+      aiaRemaining -= aia;
+      qualifyingExpenditure += eligible + ineligible;
+
+      const broughtForward = balances[pool];
+      const additions = roundPence(eligible - aia + ineligible);
+      const balance = roundPence(broughtForward + additions - disposals);
+
+      let writingDownAllowance = 0;
+      let balancingCharge = 0;
+      let smallPoolWriteOff = false;
+      if (balance < 0) {
+        balancingCharge = -balance;
+      } else if (balance <= rates.smallPoolsLimit) {
+        writingDownAllowance = balance;
+        smallPoolWriteOff = balance > 0;
+      } else {
+        writingDownAllowance = roundPence(balance * (pool === 'main' ? rates.mainRate : rates.specialRate));
+      }
+
+      const carriedForward = balance < 0 ? 0 : roundPence(balance - writingDownAllowance);
+      balances[pool] = carriedForward;
+      pools[pool] = {
+        pool,
+        broughtForward,
+        additions,
+        disposals,
+        writingDownAllowance,
+        smallPoolWriteOff,
+        balancingCharge,
+        carriedForward,
+      };
+    });
+
+    const aiaClaimed = roundPence(rates.aiaLimit - aiaRemaining);
+    const poolList = Object.values(pools);
+    const smallPoolsAllowance = roundPence(
+      poolList.filter(p => p.smallPoolWriteOff).reduce((sum, p) => sum + p.writingDownAllowance, 0)
+    );
+    const writingDown = roundPence(
+      poolList.filter(p => !p.smallPoolWriteOff).reduce((sum, p) => sum + p.writingDownAllowance, 0)
+    );
+
+    years.push({
+      startYear,
+      label: taxYearLabel(startYear),
+      rates,
+      qualifyingExpenditure: roundPence(qualifyingExpenditure),
+      aiaClaimed,
+      pools,
+      totalAllowances: roundPence(aiaClaimed + writingDown),
+      smallPoolsAllowance,
+      balancingCharges: roundPence(poolList.reduce((sum, p) => sum + p.balancingCharge, 0)),
+    });
+  }
+
+  return years;
+}
+
+/**
+ * Amounts in the accounts that capital allowances replace, for the tax year
+ * starting `startYear`: depreciation and disposal gains/losses, plus flagged
+ * purchases and sale proceeds that were never capitalised and so still sit
+ * in the P&L. Positive means the accounts profit is increased for tax.
+ * Only the business share of a purchase is added back here: the private-use
+ * share is already added back with the P&L's disallowable expenses.
+ */
+export function capitalAddBack(
+  transactions: CapitalAllowanceTransaction[],
+  depreciationCharged: number,
+  startYear: number
+): number {
+  const uncapitalised = transactions
+    .filter(t => !t.fixed_asset_id && taxYearStartYear(t.transaction_date) === startYear)
+    .reduce((sum, t) => sum + (t.type === 'expenditure' ? businessShare(t) : -Math.abs(Number(t.amount))), 0);
+  return roundPence(depreciationCharged + uncapitalised);
+}
+
+/**
+ * Every transaction flagged with a pool up to `endDate`, since pools carry forward from the first one
+ */
+export async function fetchCapitalAllowanceTransactions(
+  supabase: SupabaseClient,
+  endDate: string
+): Promise<CapitalAllowanceTransaction[]> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('id, description, amount, type, transaction_date, capital_allowance_pool, aia_eligible, fixed_asset_id, business_use_percent, disallowable, categories(business_use_percent, disallowable)')
+    .not('capital_allowance_pool', 'is', null)
+    .in('type', ['income', 'expenditure'])
+    .lte('transaction_date', endDate)
+    .order('transaction_date', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch capital allowance transactions: ${error.message}`);
+  }
+
+  return (data || []) as unknown as CapitalAllowanceTransaction[];
+}
+
+/**
+ * Depreciation and disposal gains/losses charged between two dates (inclusive)
+ */
+export async function fetchDepreciationCharged(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('fixed_asset_entries')
+    .select('amount')
+    .gte('entry_date', startDate)
+    .lte('entry_date', endDate);
+
+  if (error) {
+    throw new Error(`Failed to fetch depreciation: ${error.message}`);
+  }
+
+  return roundPence((data || []).reduce((sum, row) => sum + Number(row.amount), 0));
+}
@@ -0,0 +1,166 @@
+// Fixed Assets
+// Asset register, depreciation schedules, net book values and disposal gains/losses
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { format } from 'date-fns';
+
+export type DepreciationMethod = 'straight_line' | 'reducing_balance';
+
+export type FixedAssetEntryType = 'depreciation' | 'disposal';
+
+export interface FixedAsset {
+  id: string;
+  user_id: string;
+  name: string;
+  source_transaction_id: string | null;
+  cost: number;
+  acquisition_date: string;
+  useful_life_months: number;
+  method: DepreciationMethod;
+  /** Annual percentage, reducing balance only */
+  reducing_balance_rate: number | null;
+  residual_value: number;
+  depreciation_category_id: string | null;
+  disposal_date: string | null;
+  disposal_proceeds: number | null;
+  disposal_transaction_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScheduledAssetEntry {
+  entry_type: FixedAssetEntryType;
+  entry_date: string;
+  /** Depreciation charge, or loss on disposal (negative for a profit) */
+  amount: number;
+}
+
+export type FixedAssetSchedule = Pick<
+  FixedAsset,
+  'cost' | 'acquisition_date' | 'useful_life_months' | 'method' | 'reducing_balance_rate' | 'residual_value' | 'disposal_date' | 'disposal_proceeds'
+>;
+
+export const DEPRECIATION_METHOD_LABELS: Record<DepreciationMethod, string> = {
+  straight_line: 'Straight line',
+  reducing_balance: 'Reducing balance',
+};
+
+const roundPence = (value: number) => Math.round(value * 100) / 100;
+
+const monthEnd = (year: number, month: number) => format(new Date(year, month + 1, 0), 'yyyy-MM-dd');
+
+/**
+ * Monthly depreciation from the month of acquisition, ending with the useful
+ * life or the month before disposal, followed by the disposal gain/loss.
+ * Straight line reaches the residual value at the end of the useful life;
+ * reducing balance leaves the remaining book value until disposal.
+ * Entries are dated the last day of each month; the book value never goes
+ * below the residual value.
+ */
+export function buildDepreciationSchedule(asset: FixedAssetSchedule): ScheduledAssetEntry[] {
+  const cost = Number(asset.cost);
+  const residual = Number(asset.residual_value);
+  const [startYear, startMonth] = asset.acquisition_date.split('-').map(Number);
+  const disposalMonth = asset.disposal_date ? asset.disposal_date.slice(0, 7) : null;
+
+  const entries: ScheduledAssetEntry[] = [];
+  let bookValue = cost;
+
+  for (let i = 0; i < asset.useful_life_months; i++) {
+    const date = monthEnd(startYear, startMonth - 1 + i);
+    if (disposalMonth && date.slice(0, 7) >= disposalMonth) break;
+
+    const remaining = roundPence(bookValue - residual);
+    if (remaining <= 0) break;
+
+    let charge: number;
+    if (asset.method === 'straight_line') {
+      // The last month clears any rounding
+      charge = i === asset.useful_life_months - 1
+        ? remaining
+        : roundPence((cost - residual) / asset.useful_life_months);
+    } else {
+      charge = roundPence((bookValue * Number(asset.reducing_balance_rate ?? 0)) / 1200);
+    }
+    charge = Math.min(charge, remaining);
+    if (charge <= 0) continue;
+
+    entries.push({ entry_type: 'depreciation', entry_date: date, amount: charge });
+    bookValue = roundPence(bookValue - charge);
+  }
+
+  if (asset.disposal_date) {
+    entries.push({
+      entry_type: 'disposal',
+      entry_date: asset.disposal_date,
+      amount: roundPence(bookValue - Number(asset.disposal_proceeds ?? 0)),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * P&L description for a generated entry
+ */
+export function fixedAssetEntryLabel(entryType: FixedAssetEntryType, amount: number): string {
+  if (entryType === 'depreciation') return 'Depreciation';
+  return amount < 0 ? 'Profit on disposal' : 'Loss on disposal';
+}
+
+/**
+ * Depreciation charged up to and including `date`
+ */
+export function accumulatedDepreciationAt(asset: FixedAssetSchedule, date: string): number {
+  return roundPence(
+    buildDepreciationSchedule(asset)
+      .filter(entry => entry.entry_type === 'depreciation' && entry.entry_date <= date)
+      .reduce((sum, entry) => sum + entry.amount, 0)
+  );
+}
+
+/**
+ * Cost less accumulated depreciation at `date`; zero before acquisition and from disposal
+ */
+export function netBookValueAt(asset: FixedAssetSchedule, date: string): number {
+  if (date < asset.acquisition_date) return 0;
+  if (asset.disposal_date && date >= asset.disposal_date) return 0;
+  return roundPence(Number(asset.cost) - accumulatedDepreciationAt(asset, date));
+}
+
+/**
+ * Profit (positive) or loss (negative) on sale, null while the asset is held
+ */
+export function disposalGain(asset: FixedAssetSchedule): number | null {
+  const disposal = buildDepreciationSchedule(asset).find(entry => entry.entry_type === 'disposal');
+  return disposal ? -disposal.amount : null;
+}
+
+/**
+ * Replace an asset's stored entries with a freshly generated schedule.
+ * Called after every create, edit or disposal so the P&L stays in step.
+ */
+export async function syncFixedAssetEntries(
+  supabase: SupabaseClient,
+  asset: FixedAssetSchedule & { id: string }
+): Promise<number> {
+  const { error: deleteError } = await supabase
+    .from('fixed_asset_entries')
+    .delete()
+    .eq('asset_id', asset.id);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear depreciation entries: ${deleteError.message}`);
+  }
+
+  const entries = buildDepreciationSchedule(asset).map(entry => ({ ...entry, asset_id: asset.id }));
+  if (entries.length === 0) return 0;
+
+  const { error } = await supabase.from('fixed_asset_entries').insert(entries);
+
+  if (error) {
+    throw new Error(`Failed to save depreciation entries: ${error.message}`);
+  }
+
+  return entries.length;
+}
@@ -0,0 +1,166 @@
+// Import Batch Utilities
+// Records each import run so its transactions and side effects can be rolled back
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type ImportBatchSource = 'revolut' | 'bank_upload' | 'transaction_csv' | 'qif';
+
+export type ImportBatchStatus = 'staged' | 'committed' | 'rolled_back';
+
+export interface ImportBatch {
+  id: string;
+  user_id: string;
+  source: ImportBatchSource;
+  file_name: string;
+  file_checksum: string | null;
+  total_rows: number;
+  imported_rows: number;
+  duplicate_rows: number;
+  failed_rows: number;
+  committed_rows: number;
+  status: ImportBatchStatus;
+  created_at: string;
+  committed_at: string | null;
+  rolled_back_at: string | null;
+}
+
+export type PatternEffectType = 'created' | 'reinforced' | 'weakened';
+
+export interface PatternLearningEffect {
+  pattern_id: string;
+  effect: PatternEffectType;
+  match_count_delta: number;
+  confidence_delta: number;
+}
+
+/** Values a commit wrote onto an existing transaction it linked to; null where it wrote nothing */
+export interface ImportBatchLink {
+  import_batch_id: string;
+  transaction_id: string;
+  bank_reference: string | null;
+  bank_account_id: string | null;
+  fitid: string | null;
+  counterparty_name: string | null;
+  remittance_info: string | null;
+  end_to_end_id: string | null;
+}
+
+export const IMPORT_SOURCE_LABELS: Record<ImportBatchSource, string> = {
+  revolut: 'Revolut Import',
+  bank_upload: 'Bank Upload',
+  transaction_csv: 'Transaction CSV',
+  qif: 'QIF File',
+};
+
+/**
+ * SHA-256 of the uploaded file, hex encoded. Used to spot re-imports of the
+ * same statement.
+ */
+export async function computeFileChecksum(file: Blob): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function createImportBatch(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    source: ImportBatchSource;
+    fileName: string;
+    fileChecksum?: string | null;
+    totalRows: number;
+  }
+): Promise<ImportBatch> {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .insert({
+      user_id: params.userId,
+      source: params.source,
+      file_name: params.fileName,
+      file_checksum: params.fileChecksum ?? null,
+      total_rows: params.totalRows,
+      status: 'staged',
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create import batch: ${error.message}`);
+  }
+
+  return data as ImportBatch;
+}
+
+export async function updateImportBatch(
+  supabase: SupabaseClient,
+  batchId: string,
+  updates: Partial<Omit<ImportBatch, 'id' | 'user_id' | 'created_at'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('import_batches')
+    .update(updates)
+    .eq('id', batchId);
+
+  if (error) {
+    // Batch bookkeeping should never fail the import itself
+    console.warn(`Failed to update import batch ${batchId}:`, error.message);
+  }
+}
+
+/**
+ * Earlier, non-rolled-back batches with the same file checksum, whoever imported them.
+ */
+export async function findPreviousImports(
+  supabase: SupabaseClient,
+  fileChecksum: string
+): Promise<ImportBatch[]> {
+  // Note: No user_id filter - import batches follow the shared data model
+  const { data, error } = await supabase
+    .from('import_batches')
+    .select('*')
+    .eq('file_checksum', fileChecksum)
+    .neq('status', 'rolled_back');
+
+  if (error) {
+    console.warn('Failed to check previous imports:', error.message);
+    return [];
+  }
+
+  return (data || []) as ImportBatch[];
+}
+
+export async function recordPatternEffects(
+  supabase: SupabaseClient,
+  userId: string,
+  importBatchId: string,
+  effects: PatternLearningEffect[]
+): Promise<void> {
+  if (effects.length === 0) return;
+
+  const { error } = await supabase
+    .from('import_batch_pattern_effects')
+    .insert(effects.map(effect => ({ ...effect, user_id: userId, import_batch_id: importBatchId })));
+
+  if (error) {
+    console.warn('Failed to record pattern learning effects:', error.message);
+  }
+}
+
+export async function recordBatchLinks(
+  supabase: SupabaseClient,
+  userId: string,
+  links: ImportBatchLink[]
+): Promise<void> {
+  if (links.length === 0) return;
+
+  const { error } = await supabase
+    .from('import_batch_links')
+    .insert(links.map(link => ({ ...link, user_id: userId })));
+
+  if (error) {
+    console.warn('Failed to record linked transactions:', error.message);
+  }
+}
@@ -0,0 +1,140 @@
+// Import Commit Planner
+// Decides how staged bank import rows are committed without touching existing data
+
+import type { ImportedTransaction } from './revolut-types';
+
+export type CommitMode = 'incremental' | 'replace';
+
+export type CommitAction = 'insert' | 'link' | 'skip';
+
+export interface CommitPlanItem {
+  importedId: string;
+  action: CommitAction;
+  description: string;
+  amount: number;
+  date: string;
+  transactionId?: string;
+  reason: string;
+}
+
+export interface CommitPlanSummary {
+  inserted: number;
+  linked: number;
+  skipped: number;
+}
+
+export interface CommitPlan {
+  items: CommitPlanItem[];
+  summary: CommitPlanSummary;
+}
+
+export interface TransactionInsert {
+  user_id: string;
+  description: string;
+  amount: number;
+  transaction_date: string;
+  type: 'income' | 'expenditure';
+  category_id: string | null;
+  bank_reference: string;
+  import_batch_id: string | null;
+  bank_account_id: string | null;
+  fitid: string | null;
+  counterparty_name: string | null;
+  remittance_info: string | null;
+  end_to_end_id: string | null;
+}
+
+export class ImportCommitPlanner {
+  /**
+   * Decide what an incremental commit will do with each staged import row.
+   * Matched/verified rows link to the transaction they matched, unmatched and
+   * rejected rows are inserted, and unresolved potential matches are skipped
+   * so they can't create duplicates.
+   */
+  static buildPlan(
+    importedTransactions: ImportedTransaction[],
+    existingTransactionIds: Set<string>
+  ): CommitPlan {
+    const items = importedTransactions.map(imported => this.planItem(imported, existingTransactionIds));
+
+    return {
+      items,
+      summary: {
+        inserted: items.filter(i => i.action === 'insert').length,
+        linked: items.filter(i => i.action === 'link').length,
+        skipped: items.filter(i => i.action === 'skip').length,
+      },
+    };
+  }
+
+  private static planItem(
+    imported: ImportedTransaction,
+    existingTransactionIds: Set<string>
+  ): CommitPlanItem {
+    const base = {
+      importedId: imported.id,
+      description: imported.original_description,
+      amount: imported.amount,
+      date: imported.started_date.split('T')[0],
+    };
+
+    switch (imported.match_status) {
+      case 'matched':
+      case 'verified':
+        if (imported.matched_transaction_id && existingTransactionIds.has(imported.matched_transaction_id)) {
+          return {
+            ...base,
+            action: 'link',
+            transactionId: imported.matched_transaction_id,
+            reason: imported.match_status === 'verified' ? 'Verified match' : 'Matched existing transaction',
+          };
+        }
+        return { ...base, action: 'insert', reason: 'Matched transaction no longer exists' };
+
+      case 'potential':
+        return { ...base, action: 'skip', reason: 'Potential match needs review' };
+
+      case 'reviewed':
+        return { ...base, action: 'insert', reason: 'Match rejected during review' };
+
+      case 'unmatched':
+      default:
+        return { ...base, action: 'insert', reason: 'No existing transaction' };
+    }
+  }
+
+  /**
+   * Map a staged import row to a new transactions row.
+   * Verified rows in replace mode keep the user's existing description.
+   */
+  static toTransactionInsert(
+    imported: ImportedTransaction,
+    userId: string,
+    options: { preferExistingDescription?: boolean } = {}
+  ): TransactionInsert {
+    const useExistingData = options.preferExistingDescription &&
+      imported.match_status === 'verified' &&
+      imported.existing_description;
+
+    let description = useExistingData ? imported.existing_description! : imported.original_description;
+    if (imported.verification_note) {
+      description += ` (${imported.verification_note})`;
+    }
+
+    return {
+      user_id: userId,
+      description,
+      amount: Math.abs(imported.amount), // Always positive, type determines income/expenditure
+      transaction_date: imported.started_date.split('T')[0], // Convert to date only
+      type: imported.amount > 0 ? 'income' : 'expenditure',
+      category_id: imported.suggested_category_id || null, // Use assigned category from import review
+      bank_reference: imported.original_description, // Store original bank description for future duplicate detection
+      import_batch_id: imported.import_batch_id ?? null, // Lets the import be rolled back from Import History
+      bank_account_id: imported.bank_account_id ?? null,
+      fitid: imported.fitid ?? null, // Exact duplicate detection for OFX re-imports
+      counterparty_name: imported.counterparty_name ?? null, // Structured details from CAMT.053 and MT940
+      remittance_info: imported.remittance_info ?? null,
+      end_to_end_id: imported.end_to_end_id ?? null
+    };
+  }
+}
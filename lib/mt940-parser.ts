@@ -0,0 +1,371 @@
+// MT940 Parser Utility
+// Reads SWIFT MT940 customer statements, including the structured :86: layouts used by European banks
+
+import {
+  RevolutTransaction,
+  RevolutTransactionType
+} from './revolut-types';
+
+export interface MT940Statement {
+  /** :25: account identification - an IBAN or sort code and account number */
+  accountId: string;
+  currency: string;
+  /** :60F: or :60M: - booked balance at the start of the statement */
+  openingBalance: number;
+  /** :62F: or :62M: - booked balance at the end of the statement */
+  closingBalance: number | null;
+  transactions: RevolutTransaction[];
+}
+
+interface Field {
+  tag: string;
+  value: string;
+}
+
+interface Narrative {
+  description: string;
+  counterparty?: string;
+  remittanceInfo?: string;
+  endToEndId?: string;
+}
+
+const MT940_EXTENSIONS = ['.sta', '.mt940', '.940', '.txt'];
+
+// Codes that start a value in the /CODE/value layout, from the SWIFT and Dutch bank guides
+const STRUCTURED_CODES = [
+  'EREF', 'NAME', 'REMI', 'CNTP', 'ORDP', 'BENM', 'ADDR', 'IREF', 'MARF', 'CSID', 'BUSP',
+  'PURP', 'RTRN', 'ULTC', 'ULTD', 'ULTB', 'ID', 'TRCD', 'PREF', 'EXCH', 'CHGS', 'OCMT',
+];
+
+const roundPence = (value: number): number => Math.round(value * 100) / 100;
+
+export class MT940Parser {
+  /**
+   * Whether a file should be read as MT940
+   */
+  static isMT940File(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return MT940_EXTENSIONS.some(extension => name.endsWith(extension));
+  }
+
+  /**
+   * Parse MT940 content into transactions, with running balances from each statement's opening balance
+   */
+  static parseMT940(content: string): RevolutTransaction[] {
+    return this.parseStatements(content).flatMap(statement => statement.transactions);
+  }
+
+  /**
+   * Parse each statement in the file. A statement starts at its :20: field;
+   * SWIFT envelope blocks and the `-` trailer between messages are ignored.
+   */
+  static parseStatements(content: string): MT940Statement[] {
+    const fields = this.fields(content);
+    const statements: Field[][] = [];
+
+    fields.forEach(field => {
+      if (field.tag === '20' || statements.length === 0) statements.push([]);
+      statements[statements.length - 1].push(field);
+    });
+
+    const parsed = statements
+      .filter(statement => statement.some(field => field.tag.startsWith('60')))
+      .map(statement => this.parseStatement(statement));
+
+    if (parsed.length === 0) {
+      throw new Error('MT940 file contains no statements');
+    }
+
+    return parsed;
+  }
+
+  private static parseStatement(fields: Field[]): MT940Statement {
+    const accountId = fields.find(field => field.tag === '25')?.value.trim() ?? '';
+    const opening = this.parseBalance(fields.find(field => field.tag.startsWith('60'))!.value);
+    const closingField = fields.find(field => field.tag.startsWith('62'));
+    const closing = closingField ? this.parseBalance(closingField.value) : null;
+
+    const transactions: RevolutTransaction[] = [];
+    fields.forEach((field, index) => {
+      if (field.tag !== '61') return;
+      try {
+        const next = fields[index + 1];
+        const narrative = next?.tag === '86' ? next.value : '';
+        transactions.push(this.parseTransaction(field.value, narrative, accountId, opening.currency));
+      } catch (error) {
+        console.warn(`Error parsing MT940 transaction ${field.value.split('\n')[0]}:`, error);
+        // Continue processing other transactions
+      }
+    });
+
+    let balance = opening.amount;
+    const withBalances = transactions.map(transaction => {
+      balance = roundPence(balance + transaction.amount);
+      return { ...transaction, balance };
+    });
+
+    if (closing && Math.abs(balance - closing.amount) >= 0.01) {
+      console.warn(`MT940 transactions don't add up to the closing balance (${balance} ≠ ${closing.amount})`);
+    }
+
+    return {
+      accountId,
+      currency: opening.currency,
+      openingBalance: opening.amount,
+      closingBalance: closing?.amount ?? null,
+      transactions: withBalances,
+    };
+  }
+
+  /**
+   * :61: is value date, optional entry date, debit/credit mark, optional
+   * funds code, amount, transaction type, customer reference and an optional
+   * //bank reference, then supplementary details on the next line
+   */
+  private static parseTransaction(
+    line: string,
+    narrative: string,
+    accountId: string,
+    currency: string
+  ): RevolutTransaction {
+    const match = line.match(/^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([NFS][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/);
+    if (!match) {
+      throw new Error(`Invalid :61: line: ${line}`);
+    }
+
+    const [, valueDateText, entryDateText, mark, , amountText, typeCode, customerReference, bankReference, supplementary] = match;
+    const valueDate = this.parseDate(valueDateText);
+    const bookingDate = entryDateText ? this.entryDate(entryDateText, valueDate) : valueDate;
+
+    // RC reverses a credit and RD a debit, so they move money the other way
+    const amount = this.parseAmount(amountText) * (mark === 'C' || mark === 'RD' ? 1 : -1);
+    const details = this.parseNarrative(narrative);
+    const reference = [bankReference, customerReference]
+      .map(value => value?.trim())
+      .find(value => value && value.toUpperCase() !== 'NONREF');
+
+    return {
+      type: this.mapTransactionType(typeCode, amount),
+      product: accountId,
+      startedDate: valueDate,
+      completedDate: bookingDate,
+      description: details.description || supplementary?.trim() || customerReference.trim() || 'Bank transaction',
+      amount,
+      fee: 0,
+      currency,
+      state: 'COMPLETED',
+      balance: NaN,
+      // Only the bank's reference is unique - customer references repeat
+      fitid: bankReference?.trim() && reference === bankReference.trim() ? reference : undefined,
+      counterparty: details.counterparty,
+      remittanceInfo: details.remittanceInfo,
+      endToEndId: details.endToEndId
+    };
+  }
+
+  /**
+   * :86: comes in three shapes - the German `?20` subfield layout, the
+   * `/NAME/.../REMI/...` layout, or free text with no structure
+   */
+  private static parseNarrative(narrative: string): Narrative {
+    if (/^\d{3}\?/.test(narrative.replace(/\s+/g, ''))) {
+      return this.parseSubfieldNarrative(narrative);
+    }
+    if (/\/(NAME|REMI|CNTP|EREF)\//.test(narrative)) {
+      return this.parseStructuredNarrative(narrative);
+    }
+    return { description: narrative.replace(/\s*\n\s*/g, ' ').trim() };
+  }
+
+  /**
+   * ?00 booking text, ?20-?29 and ?60-?63 purpose, ?32-?33 counterparty name.
+   * SEPA rows tag the purpose with EREF+ and SVWZ+.
+   */
+  private static parseSubfieldNarrative(narrative: string): Narrative {
+    const subfields = new Map<number, string>();
+    narrative
+      .replace(/\r?\n/g, '')
+      .split('?')
+      .slice(1)
+      .forEach(part => subfields.set(Number(part.slice(0, 2)), part.slice(2)));
+
+    const join = (from: number, to: number) =>
+      Array.from({ length: to - from + 1 }, (_, i) => subfields.get(from + i) ?? '').join('').trim();
+
+    const purpose = `${join(20, 29)}${join(60, 63)}`;
+    const counterparty = join(32, 33) || undefined;
+    const sepa = this.sepaFields(purpose);
+    const remittanceInfo = sepa ? sepa.SVWZ : purpose || undefined;
+
+    return {
+      description: [counterparty, remittanceInfo].filter(Boolean).join(' - ') || join(0, 0),
+      counterparty,
+      remittanceInfo,
+      endToEndId: sepa?.EREF && sepa.EREF !== 'NOTPROVIDED' ? sepa.EREF : undefined,
+    };
+  }
+
+  /**
+   * SEPA keywords in a purpose text, or null when it has none
+   */
+  private static sepaFields(purpose: string): Record<string, string | undefined> | null {
+    const parts = purpose.split(/(EREF|KREF|MREF|CRED|DEBT|SVWZ|ABWA|ABWE)\+/);
+    if (parts.length < 3) return null;
+
+    const fields: Record<string, string | undefined> = {};
+    for (let i = 1; i < parts.length; i += 2) {
+      fields[parts[i]] = parts[i + 1].trim() || undefined;
+    }
+    return fields;
+  }
+
+  /**
+   * `/CODE/value` pairs. CNTP holds account/BIC/name/city, and REMI starts
+   * with USTD// for free text or STRD/CUR/ for a creditor reference.
+   */
+  private static parseStructuredNarrative(narrative: string): Narrative {
+    const text = narrative.replace(/\r?\n/g, '');
+    const values: Record<string, string> = {};
+    const pattern = new RegExp(`/(${STRUCTURED_CODES.join('|')})/`, 'g');
+    const matches = Array.from(text.matchAll(pattern));
+
+    matches.forEach((match, index) => {
+      const start = match.index! + match[0].length;
+      const end = index + 1 < matches.length ? matches[index + 1].index! : text.length;
+      if (values[match[1]] === undefined) values[match[1]] = text.slice(start, end);
+    });
+
+    const clean = (value: string | undefined) => value?.replace(/^\/+|\/+$/g, '').trim() || undefined;
+    const counterparty = clean(values.NAME) ?? clean(values.CNTP?.split('/')[2]);
+    const remittanceInfo = clean(values.REMI?.replace(/^(USTD\/\/|STRD\/CUR\/)/, ''));
+    const endToEndId = clean(values.EREF);
+
+    return {
+      description: [counterparty, remittanceInfo].filter(Boolean).join(' - ') || text.trim(),
+      counterparty,
+      remittanceInfo,
+      endToEndId: endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined,
+    };
+  }
+
+  /**
+   * Fee types are kept apart; everything else becomes TRANSFER so income
+   * and expenditure follow the amount's sign
+   */
+  private static mapTransactionType(typeCode: string, amount: number): RevolutTransactionType {
+    const code = typeCode.slice(1).toUpperCase();
+    if (amount < 0 && (code === 'CHG' || code === 'COM')) return 'FEE';
+    return 'TRANSFER';
+  }
+
+  /**
+   * Tagged fields in file order. A field runs until the next line that
+   * starts with a tag, so wrapped :86: lines stay together.
+   */
+  private static fields(content: string): Field[] {
+    const fields: Field[] = [];
+
+    content.split(/\r?\n/).forEach(line => {
+      const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+      if (match) {
+        fields.push({ tag: match[1], value: match[2] });
+      } else if (fields.length > 0 && line.trim() && !/^-\}?$|^\{/.test(line.trim())) {
+        fields[fields.length - 1].value += `\n${line}`;
+      }
+    });
+
+    return fields;
+  }
+
+  /**
+   * D/C mark, YYMMDD date, currency and amount - e.g. C240131GBP1234,56
+   */
+  private static parseBalance(value: string): { amount: number; currency: string; date: Date } {
+    const match = value.trim().match(/^([CD])(\d{6})([A-Z]{3})(\d+,\d*)/);
+    if (!match) {
+      throw new Error(`Invalid MT940 balance: ${value}`);
+    }
+
+    const [, mark, date, currency, amount] = match;
+    return {
+      amount: this.parseAmount(amount) * (mark === 'D' ? -1 : 1),
+      currency,
+      date: this.parseDate(date),
+    };
+  }
+
+  /**
+   * MT940 amounts always use a decimal comma
+   */
+  private static parseAmount(value: string): number {
+    const amount = parseFloat(value.replace(',', '.'));
+    if (isNaN(amount)) {
+      throw new Error(`Invalid MT940 amount: ${value}`);
+    }
+    return amount;
+  }
+
+  /**
+   * YYMMDD, set to midday like the other statement formats
+   */
+  private static parseDate(value: string): Date {
+    const [year, month, day] = [value.slice(0, 2), value.slice(2, 4), value.slice(4, 6)].map(Number);
+    const date = new Date(2000 + year, month - 1, day, 12);
+    if (isNaN(date.getTime()) || month < 1 || month > 12) {
+      throw new Error(`Invalid MT940 date: ${value}`);
+    }
+    return date;
+  }
+
+  /**
+   * The entry date has no year, so it takes the value date's - moved a year
+   * when the two fall either side of New Year
+   */
+  private static entryDate(value: string, valueDate: Date): Date {
+    const month = Number(value.slice(0, 2));
+    let year = valueDate.getFullYear();
+    if (month === 12 && valueDate.getMonth() === 0) year -= 1;
+    if (month === 1 && valueDate.getMonth() === 11) year += 1;
+    return new Date(year, month - 1, Number(value.slice(2, 4)), 12);
+  }
+
+  /**
+   * Validate MT940 file before processing
+   */
+  static validateMT940File(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.isMT940File(file)) {
+        reject(new Error('File must be an MT940 statement file'));
+        return;
+      }
+
+      if (file.size > 10 * 1024 * 1024) { // 10MB limit
+        reject(new Error('File size must be less than 10MB'));
+        return;
+      }
+
+      const reader = new FileReader();
+
+      reader.onload = (e) => {
+        const content = e.target?.result as string;
+        if (!content) {
+          reject(new Error('Failed to read file content'));
+          return;
+        }
+
+        if (!/^:20:/m.test(content) || !/^:60[FM]:/m.test(content)) {
+          reject(new Error('File is not an MT940 statement'));
+          return;
+        }
+
+        resolve(content);
+      };
+
+      reader.onerror = () => {
+        reject(new Error('Failed to read file'));
+      };
+
+      reader.readAsText(file);
+    });
+  }
+}
@@ -0,0 +1,203 @@
+// Making Tax Digital for VAT
+// Purpose: Build the MTD VAT return request body and submit it through a pluggable HTTP client
+// Part of: VAT return submission (called from /api/vat/returns/[id]/submit)
+
+import type { VatBoxNumber } from './vat-return';
+
+export const MTD_VAT_SANDBOX_URL = 'https://test-api.service.hmrc.gov.uk';
+export const MTD_VAT_PRODUCTION_URL = 'https://api.service.hmrc.gov.uk';
+
+/** Request body for POST /organisations/vat/{vrn}/returns */
+export interface MtdVatReturnPayload {
+  periodKey: string;
+  vatDueSales: number;
+  vatDueAcquisitions: number;
+  totalVatDue: number;
+  vatReclaimedCurrPeriod: number;
+  /** Always positive - HMRC works out the direction from boxes 3 and 4 */
+  netVatDue: number;
+  totalValueSalesExVAT: number;
+  totalValuePurchasesExVAT: number;
+  totalValueGoodsSuppliedExVAT: number;
+  totalAcquisitionsExVAT: number;
+  /** The user's declaration that the return is true and complete */
+  finalised: boolean;
+}
+
+export interface MtdVatReceipt {
+  processingDate: string;
+  formBundleNumber: string;
+  paymentIndicator?: 'DD' | 'BANK';
+  chargeRefNumber?: string;
+  /** X-CorrelationId response header, quoted to HMRC when chasing a submission */
+  correlationId?: string;
+}
+
+export interface VatHttpRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface VatHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/** Anything that can send a request - real fetch in production, a stub or local mock server in testing */
+export interface VatHttpClient {
+  send(request: VatHttpRequest): Promise<VatHttpResponse>;
+}
+
+export class MtdVatApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'MtdVatApiError';
+  }
+}
+
+const PERIOD_KEY_PATTERN = /^[A-Z0-9#]{4}$/;
+const VRN_PATTERN = /^\d{9}$/;
+
+export function isValidPeriodKey(periodKey: string): boolean {
+  return PERIOD_KEY_PATTERN.test(periodKey);
+}
+
+export function isValidVrn(vrn: string): boolean {
+  return VRN_PATTERN.test(vrn);
+}
+
+/**
+ * Turn the nine boxes into the MTD request body. Box 5 is sent as an absolute
+ * value and boxes 6-9 as whole pounds, as the API requires.
+ */
+export function buildMtdVatPayload(
+  periodKey: string,
+  boxes: Record<VatBoxNumber, number>
+): MtdVatReturnPayload {
+  if (!isValidPeriodKey(periodKey)) {
+    throw new Error(`Invalid VAT period key "${periodKey}" - expected 4 characters, e.g. 24A1`);
+  }
+
+  const pence = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    periodKey,
+    vatDueSales: pence(boxes[1]),
+    vatDueAcquisitions: pence(boxes[2]),
+    totalVatDue: pence(boxes[3]),
+    vatReclaimedCurrPeriod: pence(boxes[4]),
+    netVatDue: pence(Math.abs(boxes[5])),
+    totalValueSalesExVAT: Math.trunc(boxes[6]),
+    totalValuePurchasesExVAT: Math.trunc(boxes[7]),
+    totalValueGoodsSuppliedExVAT: Math.trunc(boxes[8]),
+    totalAcquisitionsExVAT: Math.trunc(boxes[9]),
+    finalised: true,
+  };
+}
+
+// ============================================================================
+// HTTP CLIENTS
+// ============================================================================
+
+/**
+ * Default client using the global fetch
+ */
+export class FetchVatHttpClient implements VatHttpClient {
+  constructor(private timeoutMs: number = 30000) {}
+
+  async send(request: VatHttpRequest): Promise<VatHttpResponse> {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    const text = await response.text();
+    let body: unknown = text;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      // Not JSON - keep the raw text for the error message
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key.toLowerCase()] = value;
+    });
+
+    return { status: response.status, headers, body };
+  }
+}
+
+/**
+ * Submits VAT returns to the MTD VAT API. Point baseUrl at HMRC's sandbox,
+ * production, or a local mock server; swap the HTTP client to stub it entirely.
+ */
+export class MtdVatClient {
+  constructor(
+    private baseUrl: string,
+    private accessToken: string,
+    private http: VatHttpClient = new FetchVatHttpClient(),
+    private extraHeaders: Record<string, string> = {}
+  ) {}
+
+  async submitReturn(vrn: string, payload: MtdVatReturnPayload): Promise<MtdVatReceipt> {
+    if (!isValidVrn(vrn)) {
+      throw new Error(`Invalid VAT registration number "${vrn}" - expected 9 digits`);
+    }
+
+    const response = await this.http.send({
+      method: 'POST',
+      url: `${this.baseUrl.replace(/\/+$/, '')}/organisations/vat/${vrn}/returns`,
+      headers: {
+        ...this.extraHeaders,
+        Accept: 'application/vnd.hmrc.1.0+json',
+        Authorization: `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      const error = (response.body ?? {}) as { code?: string; message?: string };
+      throw new MtdVatApiError(
+        error.message || `HMRC rejected the VAT return (HTTP ${response.status})`,
+        response.status,
+        error.code
+      );
+    }
+
+    const receipt = response.body as Partial<MtdVatReceipt> | null;
+    if (!receipt?.processingDate || !receipt.formBundleNumber) {
+      throw new MtdVatApiError('HMRC response did not include a receipt', response.status);
+    }
+
+    return {
+      processingDate: receipt.processingDate,
+      formBundleNumber: receipt.formBundleNumber,
+      paymentIndicator: receipt.paymentIndicator,
+      chargeRefNumber: receipt.chargeRefNumber,
+      correlationId: response.headers['x-correlationid'],
+    };
+  }
+}
+
+/**
+ * Build a client from MTD_VAT_API_URL (defaults to HMRC's sandbox) and MTD_VAT_ACCESS_TOKEN
+ */
+export function getMtdVatClient(env: NodeJS.ProcessEnv = process.env): MtdVatClient {
+  const accessToken = env.MTD_VAT_ACCESS_TOKEN;
+  if (!accessToken) {
+    throw new Error('MTD_VAT_ACCESS_TOKEN is not configured');
+  }
+
+  return new MtdVatClient(env.MTD_VAT_API_URL || MTD_VAT_SANDBOX_URL, accessToken);
+}
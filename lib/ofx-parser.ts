@@ -0,0 +1,284 @@
+// OFX/QFX Parser Utility
+// Reads bank statement downloads in OFX 1.x (SGML) and 2.x (XML), including Quicken's QFX
+
+import {
+  RevolutTransaction,
+  RevolutTransactionType
+} from './revolut-types';
+
+export interface OFXStatement {
+  /** ACCTID from the statement's bank or credit card account */
+  accountId: string;
+  currency: string;
+  /** LEDGERBAL - the closing balance the running balances are worked back from */
+  ledgerBalance: number;
+  ledgerBalanceDate: Date | null;
+  transactions: RevolutTransaction[];
+}
+
+const OFX_EXTENSIONS = ['.ofx', '.qfx'];
+
+const roundPence = (value: number): number => Math.round(value * 100) / 100;
+
+export class OFXParser {
+  /**
+   * Whether a file should be read as OFX rather than CSV
+   */
+  static isOFXFile(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return OFX_EXTENSIONS.some(extension => name.endsWith(extension));
+  }
+
+  /**
+   * Parse OFX content into transactions, with running balances from each statement's ledger balance
+   */
+  static parseOFX(content: string): RevolutTransaction[] {
+    return this.parseStatements(content).flatMap(statement => statement.transactions);
+  }
+
+  /**
+   * Parse each bank and credit card statement in the file. Aggregates like
+   * STMTTRN are closed in both SGML and XML, so only leaf values need the
+   * SGML-tolerant read.
+   */
+  static parseStatements(content: string): OFXStatement[] {
+    const body = this.stripHeader(content);
+    const statements = this.blocks(body, 'STMTRS').concat(this.blocks(body, 'CCSTMTRS'));
+
+    if (statements.length === 0) {
+      throw new Error('OFX file contains no bank or credit card statement');
+    }
+
+    return statements.map(statement => this.parseStatement(statement));
+  }
+
+  private static parseStatement(statement: string): OFXStatement {
+    const accountId = this.value(statement, 'ACCTID') ?? '';
+    const currency = this.value(statement, 'CURDEF') ?? 'GBP';
+
+    const ledger = this.blocks(statement, 'LEDGERBAL')[0];
+    const ledgerAmount = ledger ? this.value(ledger, 'BALAMT') : null;
+    if (!ledgerAmount) {
+      throw new Error(`OFX statement for account ${accountId || 'unknown'} has no ledger balance`);
+    }
+    const ledgerBalance = this.parseAmount(ledgerAmount);
+    const ledgerAsOf = ledger ? this.value(ledger, 'DTASOF') : null;
+    const ledgerBalanceDate = ledgerAsOf ? this.parseDate(ledgerAsOf) : null;
+
+    const transactions: RevolutTransaction[] = [];
+    this.blocks(statement, 'STMTTRN').forEach((block, index) => {
+      try {
+        transactions.push(this.parseTransaction(block, accountId, currency));
+      } catch (error) {
+        console.warn(`Error parsing OFX transaction ${index + 1}:`, error);
+        // Continue processing other transactions
+      }
+    });
+
+    return {
+      accountId,
+      currency,
+      ledgerBalance,
+      ledgerBalanceDate,
+      transactions: this.withRunningBalances(transactions, ledgerBalance, ledgerBalanceDate),
+    };
+  }
+
+  private static parseTransaction(block: string, accountId: string, currency: string): RevolutTransaction {
+    const fitid = this.value(block, 'FITID');
+    const posted = this.value(block, 'DTPOSTED');
+    const amountValue = this.value(block, 'TRNAMT');
+
+    if (!fitid) throw new Error('Missing FITID');
+    if (!posted) throw new Error('Missing DTPOSTED');
+    if (!amountValue) throw new Error('Missing TRNAMT');
+
+    const amount = this.parseAmount(amountValue);
+    const completedDate = this.parseDate(posted);
+    const userDate = this.value(block, 'DTUSER');
+
+    return {
+      type: this.mapTransactionType(this.value(block, 'TRNTYPE') ?? '', amount),
+      product: accountId,
+      startedDate: userDate ? this.parseDate(userDate) : completedDate,
+      completedDate,
+      description: this.description(block),
+      amount,
+      fee: 0,
+      currency: this.value(block, 'CURRENCY') ?? currency,
+      state: 'COMPLETED',
+      balance: NaN,
+      fitid
+    };
+  }
+
+  /**
+   * NAME is often cut short at 32 characters, so MEMO is kept when it adds to it
+   */
+  private static description(block: string): string {
+    const name = this.value(block, 'NAME') ?? '';
+    const memo = this.value(block, 'MEMO') ?? '';
+
+    if (!name) return memo;
+    if (!memo || name.toLowerCase().includes(memo.toLowerCase())) return name;
+    if (memo.toLowerCase().startsWith(name.toLowerCase())) return memo;
+    return `${name} ${memo}`;
+  }
+
+  /**
+   * OFX types are coarser than Revolut's. Anything that could go either way
+   * becomes TRANSFER so income and expenditure follow the amount's sign.
+   */
+  private static mapTransactionType(trnType: string, amount: number): RevolutTransactionType {
+    const type = trnType.toUpperCase();
+    if (amount < 0 && (type === 'FEE' || type === 'SRVCHG')) return 'FEE';
+    if (amount < 0 && type === 'POS') return 'CARD_PAYMENT';
+    return 'TRANSFER';
+  }
+
+  /**
+   * Work each row's balance back from the ledger balance. Rows after DTASOF
+   * aren't in it yet; without DTASOF it is taken to follow the last row.
+   * Statement files list newest first as often as oldest first, so the file
+   * order is only used to break ties within a day.
+   */
+  private static withRunningBalances(
+    transactions: RevolutTransaction[],
+    ledgerBalance: number,
+    asOf: Date | null
+  ): RevolutTransaction[] {
+    if (transactions.length === 0) return transactions;
+
+    const first = transactions[0].completedDate!.getTime();
+    const last = transactions[transactions.length - 1].completedDate!.getTime();
+    const oldestFirst = first > last ? [...transactions].reverse() : [...transactions];
+    const ordered = oldestFirst
+      .map((transaction, index) => ({ transaction, index }))
+      .sort((a, b) =>
+        a.transaction.completedDate!.getTime() - b.transaction.completedDate!.getTime() || a.index - b.index
+      )
+      .map(({ transaction }) => transaction);
+
+    const inLedger = ordered.filter(t => !asOf || t.completedDate! <= asOf);
+    let balance = ledgerBalance - inLedger.reduce((sum, t) => sum + t.amount, 0);
+
+    return ordered.map(transaction => {
+      balance = roundPence(balance + transaction.amount);
+      return { ...transaction, balance };
+    });
+  }
+
+  /**
+   * Everything from the <OFX> tag on. OFX 1.x starts with colon-separated
+   * header lines, 2.x with XML processing instructions.
+   */
+  private static stripHeader(content: string): string {
+    const start = content.search(/<OFX>/i);
+    if (start === -1) {
+      throw new Error('File is not a valid OFX file');
+    }
+    return content.slice(start);
+  }
+
+  /**
+   * Contents of each <TAG>...</TAG> aggregate
+   */
+  private static blocks(content: string, tag: string): string[] {
+    const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+    return Array.from(content.matchAll(pattern), match => match[1]);
+  }
+
+  /**
+   * A leaf element's value. SGML leaves have no closing tag, so the value
+   * runs to the next tag or line break.
+   */
+  private static value(content: string, tag: string): string | null {
+    const match = content.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    const value = match ? this.decodeEntities(match[1].trim()) : '';
+    return value || null;
+  }
+
+  private static decodeEntities(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&');
+  }
+
+  /**
+   * Amounts are signed, and some banks write a decimal comma
+   */
+  private static parseAmount(value: string): number {
+    const normalised = value.includes('.') ? value.replace(/,/g, '') : value.replace(',', '.');
+    const amount = parseFloat(normalised.replace(/[^\d.+-]/g, ''));
+    if (isNaN(amount)) {
+      throw new Error(`Invalid OFX amount: ${value}`);
+    }
+    return amount;
+  }
+
+  /**
+   * OFX dates are YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]. The bank's own
+   * calendar date is what matters, so the time zone is ignored and date-only
+   * values are set to midday to keep them on the same day in any zone.
+   */
+  private static parseDate(value: string): Date {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/);
+    if (!match) {
+      throw new Error(`Invalid OFX date: ${value}`);
+    }
+
+    const [, year, month, day, hours, minutes, seconds] = match;
+    const date = hours
+      ? new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds ?? 0))
+      : new Date(Number(year), Number(month) - 1, Number(day), 12);
+
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid OFX date: ${value}`);
+    }
+    return date;
+  }
+
+  /**
+   * Validate OFX/QFX file before processing
+   */
+  static validateOFXFile(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.isOFXFile(file)) {
+        reject(new Error('File must be an OFX or QFX file'));
+        return;
+      }
+
+      if (file.size > 10 * 1024 * 1024) { // 10MB limit
+        reject(new Error('File size must be less than 10MB'));
+        return;
+      }
+
+      const reader = new FileReader();
+
+      reader.onload = (e) => {
+        const content = e.target?.result as string;
+        if (!content) {
+          reject(new Error('Failed to read file content'));
+          return;
+        }
+
+        if (!/<OFX>/i.test(content) || !/<STMTTRN>/i.test(content)) {
+          reject(new Error('OFX file appears to be empty or invalid'));
+          return;
+        }
+
+        resolve(content);
+      };
+
+      reader.onerror = () => {
+        reject(new Error('Failed to read file'));
+      };
+
+      reader.readAsText(file);
+    });
+  }
+}
@@ -1,6 +1,8 @@
 // Pattern Matcher Utility
 // Handles pattern matching, extraction, and learning from categorization decisions
 
+import { recordPatternEffects, type PatternLearningEffect } from './import-batches';
+
 // Common words that should never be used as patterns — they cause false positives
 const STOPWORDS = new Set([
   'main', 'plus', 'good', 'user', 'from', 'with', 'your', 'have', 'been',
@@ -29,6 +31,8 @@ export interface PatternMatch {
   category_id: string;
   confidence: number;
   pattern_id?: string;
+  /** Which text the pattern was found in, when the transaction has a counterparty */
+  matched_on?: 'counterparty' | 'description';
   category: {
     id: string;
     name: string;
@@ -39,21 +43,26 @@ export interface PatternMatch {
 
 export class PatternMatcher {
   /**
-   * Match a description against a set of patterns
+   * Match a description against a set of patterns.
+   * When the bank gave a structured counterparty name it is tried first, so
+   * a payee pattern isn't thrown off by remittance text in the description.
    */
-  static matchPatterns(description: string, patterns: Pattern[]): PatternMatch[] {
+  static matchPatterns(description: string, patterns: Pattern[], counterparty?: string | null): PatternMatch[] {
     const normalizedDescription = this.normalizeText(description);
+    const normalizedCounterparty = counterparty ? this.normalizeText(counterparty) : '';
     const matches: PatternMatch[] = [];
 
     for (const pattern of patterns) {
       try {
         const effectivePattern = this.enforceWordBoundaries(pattern.pattern);
         const patternRegex = new RegExp(effectivePattern, 'i');
-        if (patternRegex.test(normalizedDescription)) {
+        const onCounterparty = !!normalizedCounterparty && patternRegex.test(normalizedCounterparty);
+        if (onCounterparty || patternRegex.test(normalizedDescription)) {
           matches.push({
             category_id: pattern.category_id,
             confidence: pattern.confidence_score / 100,
             pattern_id: pattern.id,
+            matched_on: normalizedCounterparty ? (onCounterparty ? 'counterparty' : 'description') : undefined,
             category: pattern.category!,
           });
         }
@@ -63,7 +72,20 @@ export class PatternMatcher {
       }
     }
 
-    return matches;
+    // Stable sort keeps pattern order within each group
+    return matches.sort((a, b) =>
+      Number(b.matched_on === 'counterparty') - Number(a.matched_on === 'counterparty')
+    );
+  }
+
+  /**
+   * A single pattern for the whole counterparty name, as the name is the payee
+   * and nothing else. Returns null for names too short to be specific.
+   */
+  static extractPatternFromCounterparty(counterparty: string): string | null {
+    const words = this.normalizeText(counterparty).split(' ').filter(Boolean);
+    if (words.join('').length < 4) return null;
+    return words.length === 1 ? `\\b${words[0]}\\b` : words.join('\\s+');
   }
 
   /**
@@ -103,19 +125,28 @@ export class PatternMatcher {
   }
 
   /**
-   * Learn patterns from a categorization
+   * Learn patterns from a categorization.
+   * When the transaction came from an import batch, the changes made are
+   * recorded against the batch so rolling it back can reverse them.
+   * A structured counterparty name is learnt ahead of the description's words.
    */
   static async learnFromCategorization(
     description: string,
     categoryId: string,
     userId: string,
-    supabaseClient: import('@supabase/supabase-js').SupabaseClient
-  ): Promise<void> {
+    supabaseClient: import('@supabase/supabase-js').SupabaseClient,
+    importBatchId?: string | null,
+    counterparty?: string | null
+  ): Promise<PatternLearningEffect[]> {
+    const counterpartyPattern = counterparty ? this.extractPatternFromCounterparty(counterparty) : null;
     const patterns = this.extractPatternsFromDescription(description);
     const now = new Date().toISOString();
+    const effects: PatternLearningEffect[] = [];
 
     // Take top 3 patterns at most to avoid overwhelming the database
-    const topPatterns = patterns.slice(0, 3);
+    const topPatterns = counterpartyPattern
+      ? [counterpartyPattern, ...patterns.filter(pattern => pattern !== counterpartyPattern)].slice(0, 3)
+      : patterns.slice(0, 3);
 
     for (const pattern of topPatterns) {
       try {
@@ -135,29 +166,49 @@ export class PatternMatcher {
         if (existing) {
           // If pattern exists for this category, increase confidence and match count
           if (existing.category_id === categoryId) {
-            await supabaseClient
+            const confidence = Math.min(existing.confidence_score + 5, 100);
+            const { error: updateError } = await supabaseClient
               .from('categorization_patterns')
               .update({
                 match_count: existing.match_count + 1,
-                confidence_score: Math.min(existing.confidence_score + 5, 100),
+                confidence_score: confidence,
                 last_matched: now,
                 updated_at: now,
               })
               .eq('id', existing.id);
+
+            if (!updateError) {
+              effects.push({
+                pattern_id: existing.id,
+                effect: 'reinforced',
+                match_count_delta: 1,
+                confidence_delta: confidence - existing.confidence_score,
+              });
+            }
           } 
           // If pattern exists but for a different category, decrease confidence
           else {
-            await supabaseClient
+            const confidence = Math.max(existing.confidence_score - 5, 10);
+            const { error: updateError } = await supabaseClient
               .from('categorization_patterns')
               .update({
-                confidence_score: Math.max(existing.confidence_score - 5, 10),
+                confidence_score: confidence,
                 updated_at: now,
               })
               .eq('id', existing.id);
+
+            if (!updateError) {
+              effects.push({
+                pattern_id: existing.id,
+                effect: 'weakened',
+                match_count_delta: 0,
+                confidence_delta: confidence - existing.confidence_score,
+              });
+            }
           }
         } else {
           // Create new pattern
-          await supabaseClient
+          const { data: created, error: insertError } = await supabaseClient
             .from('categorization_patterns')
             .insert({
               user_id: userId,
@@ -168,12 +219,29 @@ export class PatternMatcher {
               last_matched: now,
               created_at: now,
               updated_at: now,
+            })
+            .select('id')
+            .single();
+
+          if (!insertError && created) {
+            effects.push({
+              pattern_id: created.id,
+              effect: 'created',
+              match_count_delta: 1,
+              confidence_delta: 60,
             });
+          }
         }
       } catch (error) {
         console.error(`Error processing pattern: ${pattern}`, error);
       }
     }
+
+    if (importBatchId && effects.length > 0) {
+      await recordPatternEffects(supabaseClient, userId, importBatchId, effects);
+    }
+
+    return effects;
   }
 
   /**
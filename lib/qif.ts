@@ -0,0 +1,363 @@
+// QIF Import and Export
+// Reads and writes Quicken Interchange Format files for older desktop accounting tools
+
+export type QIFAccountType = 'Bank' | 'CCard' | 'Cash' | 'Oth A' | 'Oth L';
+
+/** QIF has no fixed date order - UK tools write day first, US tools month first */
+export type QIFDateFormat = 'dmy' | 'mdy';
+
+export interface QIFSplit {
+  category: string | null;
+  memo: string;
+  amount: number;
+}
+
+export interface QIFRecord {
+  accountType: QIFAccountType;
+  /** From the preceding !Account block, when the file has one */
+  accountName: string | null;
+  date: string;
+  /** Signed - money in is positive */
+  amount: number;
+  payee: string;
+  memo: string;
+  /** L line - a category, `Category:Subcategory`, or `[Account]` for a transfer */
+  category: string | null;
+  number: string | null;
+  cleared: boolean;
+  splits: QIFSplit[];
+}
+
+/**
+ * One transaction to create. Split records become a line per split, as each
+ * transaction has a single category.
+ */
+export interface QIFImportLine {
+  recordIndex: number;
+  date: string;
+  description: string;
+  /** Always positive, type gives the direction */
+  amount: number;
+  type: 'income' | 'expenditure';
+  category: string | null;
+}
+
+export interface QIFExportTransaction {
+  transaction_date: string;
+  description: string;
+  amount: number;
+  type: 'income' | 'expenditure' | 'capital' | 'transfer';
+  transfer_direction?: 'in' | 'out' | null;
+  category?: { name: string } | null;
+  memo?: string | null;
+}
+
+export const QIF_ACCOUNT_TYPE_LABELS: Record<QIFAccountType, string> = {
+  Bank: 'Bank',
+  CCard: 'Credit card',
+  Cash: 'Cash',
+  'Oth A': 'Other asset',
+  'Oth L': 'Other liability',
+};
+
+const ACCOUNT_TYPES = Object.keys(QIF_ACCOUNT_TYPE_LABELS) as QIFAccountType[];
+
+const roundPence = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Day-first unless a date in the file can only be month-first
+ */
+export function detectQIFDateFormat(content: string): QIFDateFormat {
+  let monthFirst = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.startsWith('D')) continue;
+    const parts = dateParts(line.slice(1));
+    if (!parts || parts[0].length === 4) continue;
+
+    if (Number(parts[0]) > 12) return 'dmy';
+    if (Number(parts[1]) > 12) monthFirst = true;
+  }
+
+  return monthFirst ? 'mdy' : 'dmy';
+}
+
+/**
+ * Transactions from the bank, card, cash and other asset/liability sections.
+ * Investment, category, class and memorised lists are skipped.
+ */
+export function parseQIF(content: string, dateFormat: QIFDateFormat = detectQIFDateFormat(content)): QIFRecord[] {
+  const records: QIFRecord[] = [];
+  let section: QIFAccountType | 'account' | null = null;
+  let accountName: string | null = null;
+  let pendingAccountName: string | null = null;
+  let fields: Record<string, string> = {};
+  let splits: QIFSplit[] = [];
+
+  const finishRecord = (lineNumber: number) => {
+    try {
+      if (section && section !== 'account' && fields.D && (fields.T ?? fields.U) !== undefined) {
+        records.push({
+          accountType: section,
+          accountName,
+          date: parseQIFDate(fields.D, dateFormat),
+          amount: parseQIFAmount(fields.T ?? fields.U),
+          payee: fields.P ?? '',
+          memo: fields.M ?? '',
+          category: fields.L || null,
+          number: fields.N || null,
+          cleared: !!fields.C && fields.C !== ' ',
+          splits,
+        });
+      }
+    } catch (error) {
+      console.warn(`Error parsing QIF record ending on line ${lineNumber}:`, error);
+      // Continue processing other records
+    }
+    fields = {};
+    splits = [];
+  };
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trimEnd();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      finishRecord(index);
+      const header = line.toLowerCase();
+      if (header === '!account') {
+        section = 'account';
+      } else if (header.startsWith('!type:')) {
+        const type = ACCOUNT_TYPES.find(t => t.toLowerCase() === line.slice(6).trim().toLowerCase());
+        section = type ?? null;
+      }
+      // !Option and !Clear lines only switch account list modes
+      return;
+    }
+
+    if (line === '^') {
+      if (section === 'account') {
+        accountName = pendingAccountName;
+        pendingAccountName = null;
+      } else {
+        finishRecord(index + 1);
+      }
+      return;
+    }
+
+    const code = line[0];
+    const value = line.slice(1).trim();
+
+    if (section === 'account') {
+      if (code === 'N') pendingAccountName = value;
+      return;
+    }
+    if (!section) return;
+
+    const current = splits[splits.length - 1];
+    switch (code) {
+      case 'S':
+        splits.push({ category: value || null, memo: '', amount: 0 });
+        break;
+      case 'E':
+        if (!current || current.memo) splits.push({ category: null, memo: value, amount: 0 });
+        else current.memo = value;
+        break;
+      case '$':
+        if (!current || current.amount) splits.push({ category: null, memo: '', amount: parseQIFAmount(value) });
+        else current.amount = parseQIFAmount(value);
+        break;
+      default:
+        // First value wins - some tools repeat T and U
+        if (fields[code] === undefined) fields[code] = value;
+    }
+  });
+
+  finishRecord(content.split(/\r?\n/).length);
+  return records;
+}
+
+/**
+ * Category name without the class after `/`
+ */
+export function qifCategoryName(category: string | null): string | null {
+  if (!category) return null;
+  const name = category.split('/')[0].trim();
+  return name || null;
+}
+
+/**
+ * `[Account]` categories are transfers to another account in the same file
+ */
+export function isQIFTransfer(category: string | null): boolean {
+  return !!category && /^\[.*\]$/.test(category.trim());
+}
+
+/**
+ * Key for the category mapping. A QIF category used for money both in and out
+ * needs a category of each type.
+ */
+export function qifCategoryKey(line: Pick<QIFImportLine, 'type' | 'category'>): string {
+  return `${line.type}|${line.category ?? ''}`;
+}
+
+/**
+ * Lines to create from the parsed records. Splits are used when they add up
+ * to the record's amount; otherwise the record is taken as a whole.
+ */
+export function qifImportLines(records: QIFRecord[]): QIFImportLine[] {
+  const lines: QIFImportLine[] = [];
+
+  records.forEach((record, recordIndex) => {
+    const splitTotal = roundPence(record.splits.reduce((sum, split) => sum + split.amount, 0));
+    const useSplits = record.splits.length > 0 && Math.abs(splitTotal - record.amount) < 0.01;
+    const parts = useSplits
+      ? record.splits.map(split => ({ amount: split.amount, category: split.category, memo: split.memo || record.memo }))
+      : [{ amount: record.amount, category: record.category, memo: record.memo }];
+
+    parts
+      .filter(part => part.amount !== 0)
+      .forEach(part => {
+        const payee = record.payee || part.memo || 'QIF transaction';
+        lines.push({
+          recordIndex,
+          date: record.date,
+          description: part.memo && part.memo !== payee ? `${payee} - ${part.memo}` : payee,
+          amount: roundPence(Math.abs(part.amount)),
+          type: part.amount > 0 ? 'income' : 'expenditure',
+          category: qifCategoryName(part.category),
+        });
+      });
+  });
+
+  return lines;
+}
+
+/**
+ * Existing categories with the same name, or the same name as the last part
+ * of a `Category:Subcategory` path. Transfers are never mapped.
+ */
+export function suggestQIFCategoryIds(
+  lines: QIFImportLine[],
+  categories: { id: string; name: string; type: string }[]
+): Record<string, string> {
+  const suggestions: Record<string, string> = {};
+
+  lines.forEach(line => {
+    const key = qifCategoryKey(line);
+    if (!line.category || isQIFTransfer(line.category) || key in suggestions) return;
+
+    const candidates = [line.category, line.category.split(':').pop() ?? ''].map(name => name.trim().toLowerCase());
+    const match = candidates
+      .map(name => categories.find(c => c.type === line.type && c.name.trim().toLowerCase() === name))
+      .find(Boolean);
+    if (match) suggestions[key] = match.id;
+  });
+
+  return suggestions;
+}
+
+/**
+ * A single-account QIF file. Amounts are signed by their effect on the
+ * account, using the same rules as the bank balance.
+ */
+export function buildQIF(
+  transactions: QIFExportTransaction[],
+  options: { accountType?: QIFAccountType; dateFormat?: QIFDateFormat } = {}
+): string {
+  const dateFormat = options.dateFormat ?? 'dmy';
+  const lines = [`!Type:${options.accountType ?? 'Bank'}`];
+
+  [...transactions]
+    .sort((a, b) => a.transaction_date.localeCompare(b.transaction_date))
+    .forEach(transaction => {
+      lines.push(`D${formatQIFDate(transaction.transaction_date, dateFormat)}`);
+      lines.push(`T${signedAmount(transaction).toFixed(2)}`);
+      lines.push(`P${singleLine(transaction.description)}`);
+      if (transaction.memo) lines.push(`M${singleLine(transaction.memo)}`);
+      if (transaction.category?.name) lines.push(`L${singleLine(transaction.category.name).replace(/\//g, '-')}`);
+      lines.push('^');
+    });
+
+  return lines.join('\n') + '\n';
+}
+
+export function downloadQIF(content: string, baseName: string): void {
+  const timestamp = new Date().toISOString().split('T')[0];
+  const blob = new Blob([content], { type: 'application/qif;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', `${baseName}_${timestamp}.qif`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function signedAmount(transaction: QIFExportTransaction): number {
+  const amount = Math.abs(Number(transaction.amount));
+  if (transaction.type === 'income') return amount;
+  if (transaction.type === 'expenditure') return -amount;
+  if (transaction.type === 'transfer') return transaction.transfer_direction === 'out' ? -amount : amount;
+  return Number(transaction.amount);
+}
+
+// A line break would end the field early
+function singleLine(value: string): string {
+  return value.replace(/\s*[\r\n]+\s*/g, ' ').trim();
+}
+
+function dateParts(value: string): string[] | null {
+  const parts = value.replace(/'/g, '/').replace(/\s+/g, '').split(/[/.-]/);
+  return parts.length === 3 && parts.every(part => /^\d+$/.test(part)) ? parts : null;
+}
+
+/**
+ * QIF dates as yyyy-MM-dd. Two-digit years after an apostrophe are 2000s
+ * (Quicken's convention); otherwise 00-49 are 2000s and 50-99 1900s.
+ */
+function parseQIFDate(value: string, dateFormat: QIFDateFormat): string {
+  const parts = dateParts(value);
+  if (!parts) {
+    throw new Error(`Invalid QIF date: ${value}`);
+  }
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if (parts[0].length === 4) {
+    [year, month, day] = parts.map(Number);
+  } else {
+    const [first, second, rawYear] = parts.map(Number);
+    [day, month] = dateFormat === 'dmy' ? [first, second] : [second, first];
+    year = parts[2].length > 2 ? rawYear : value.includes("'") || rawYear < 50 ? 2000 + rawYear : 1900 + rawYear;
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    throw new Error(`Invalid QIF date: ${value}`);
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function formatQIFDate(date: string, dateFormat: QIFDateFormat): string {
+  const [year, month, day] = date.split('T')[0].split('-');
+  return dateFormat === 'dmy' ? `${day}/${month}/${year}` : `${month}/${day}/${year}`;
+}
+
+/**
+ * Thousands separators are dropped. Without a decimal point, commas each followed
+ * by exactly three digits are thousands separators (T-1,500); otherwise a comma
+ * is a decimal comma (T-12,50)
+ */
+function parseQIFAmount(value: string): number {
+  const thousandsOnly = /,\d{3}(?!\d)/.test(value) && !/,(?!\d{3}(?!\d))/.test(value);
+  const normalised = value.includes('.') || thousandsOnly ? value.replace(/,/g, '') : value.replace(',', '.');
+  const amount = parseFloat(normalised.replace(/[^\d.+-]/g, ''));
+  if (isNaN(amount)) {
+    throw new Error(`Invalid QIF amount: ${value}`);
+  }
+  return amount;
+}
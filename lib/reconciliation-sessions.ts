@@ -0,0 +1,86 @@
+// Reconciliation Sessions
+// Saved bank reconciliations, their flagged transactions and sign-off
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type ReconciliationSessionStatus = 'draft' | 'signed_off';
+
+export type ReconciliationFlag = 'verified' | 'suspicious';
+
+export interface ReconciliationSessionItem {
+  transaction_id: string;
+  flag: ReconciliationFlag;
+}
+
+export interface ReconciliationSession {
+  id: string;
+  user_id: string;
+  /** Null when every account was reconciled together */
+  bank_account_id: string | null;
+  statement_date: string;
+  statement_balance: number;
+  calculated_balance: number;
+  variance: number;
+  status: ReconciliationSessionStatus;
+  notes: string | null;
+  signed_off_by: string | null;
+  signed_off_by_email: string | null;
+  signed_off_at: string | null;
+  created_at: string;
+  updated_at: string;
+  reconciliation_session_items?: ReconciliationSessionItem[];
+}
+
+export const RECONCILED_EDIT_WARNING =
+  'This transaction is in a signed-off reconciliation period - changing it means the saved reconciliation may no longer match.';
+
+/**
+ * Tag every transaction up to the statement date that isn't already covered
+ * by an earlier sign-off. Returns the number of transactions tagged.
+ */
+export async function markTransactionsReconciled(
+  supabase: SupabaseClient,
+  session: Pick<ReconciliationSession, 'id' | 'bank_account_id' | 'statement_date'>
+): Promise<number> {
+  let query = supabase
+    .from('transactions')
+    .update({ reconciled_session_id: session.id })
+    .lte('transaction_date', session.statement_date)
+    .is('reconciled_session_id', null);
+
+  if (session.bank_account_id) {
+    query = query.eq('bank_account_id', session.bank_account_id);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    throw new Error(`Failed to mark transactions as reconciled: ${error.message}`);
+  }
+
+  return data?.length ?? 0;
+}
+
+/**
+ * How many of the given transactions fall in a signed-off reconciliation.
+ * Used to warn before or after edits; never throws.
+ */
+export async function countReconciledTransactions(
+  supabase: SupabaseClient,
+  transactionIds: string[]
+): Promise<number> {
+  if (transactionIds.length === 0) return 0;
+
+  const { count, error } = await supabase
+    .from('transactions')
+    .select('id', { count: 'exact', head: true })
+    .in('id', transactionIds)
+    .not('reconciled_session_id', 'is', null);
+
+  if (error) {
+    console.warn('Failed to check reconciled transactions:', error.message);
+    return 0;
+  }
+
+  return count ?? 0;
+}
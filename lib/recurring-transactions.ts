@@ -0,0 +1,278 @@
+// Recurring Transactions
+// Templates for payments that repeat on a schedule, and the expected payments generated from them
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { addMonths, addWeeks, differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+export type RecurringCadence = 'weekly' | 'monthly' | 'quarterly' | 'annual';
+
+export type ExpectedPaymentStatus = 'pending' | 'fulfilled' | 'skipped';
+
+/** Status as shown, with pending payments split by how late they are */
+export type ExpectedPaymentFlag = 'upcoming' | 'overdue' | 'missing' | 'fulfilled' | 'skipped';
+
+export interface RecurringTransaction {
+  id: string;
+  user_id: string;
+  description: string;
+  type: 'income' | 'expenditure';
+  amount: number | string;
+  category_id: string | null;
+  bank_account_id: string | null;
+  cadence: RecurringCadence;
+  /** Due dates step from here */
+  start_date: string;
+  /** First due date not generated as an expected payment yet */
+  next_date: string;
+  end_date: string | null;
+  /** Text the bank description must contain to count as this payment */
+  match_text: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  category?: { id: string; name: string; color: string; type: 'income' | 'expenditure' } | null;
+}
+
+export interface ExpectedPayment {
+  id: string;
+  user_id: string;
+  recurring_transaction_id: string;
+  due_date: string;
+  amount: number | string;
+  status: ExpectedPaymentStatus;
+  fulfilled_date: string | null;
+  fulfilled_amount: number | string | null;
+  fulfilled_description: string | null;
+  import_batch_id: string | null;
+  created_at: string;
+  updated_at: string;
+  recurring_transaction: Pick<
+    RecurringTransaction,
+    'description' | 'type' | 'category_id' | 'bank_account_id' | 'match_text' | 'cadence' | 'category'
+  >;
+}
+
+export interface ExpectedPaymentFulfilment {
+  expectedPaymentId: string;
+  date: string;
+  amount: number;
+  description: string;
+}
+
+export const RECURRING_CADENCE_LABELS: Record<RecurringCadence, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annual: 'Annually',
+};
+
+export const EXPECTED_PAYMENT_FLAG_LABELS: Record<ExpectedPaymentFlag, string> = {
+  upcoming: 'Upcoming',
+  overdue: 'Overdue',
+  missing: 'Missing',
+  fulfilled: 'Paid',
+  skipped: 'Skipped',
+};
+
+/** A bank row can land this many days either side of the due date and still count */
+export const RECURRING_MATCH_DAYS = 5;
+
+/** How far a bank row's amount can differ from the expected amount, as a percentage */
+export const RECURRING_AMOUNT_TOLERANCE_PERCENT = 10;
+
+/** The generator creates expected payments this far ahead */
+export const RECURRING_GENERATE_AHEAD_DAYS = 31;
+
+export const RECURRING_TRANSACTION_SELECT = '*, category:categories(id, name, color, type)';
+
+const EXPECTED_PAYMENT_SELECT = `
+  *,
+  recurring_transaction:recurring_transactions(
+    description,
+    type,
+    category_id,
+    bank_account_id,
+    match_text,
+    cadence,
+    category:categories(id, name, color, type)
+  )
+`;
+
+/**
+ * The `index`th due date counted from the start date. Counting from the start
+ * keeps a payment on the 31st on the last day of shorter months without
+ * drifting to the 28th afterwards.
+ */
+export function dueDateAt(startDate: string, cadence: RecurringCadence, index: number): string {
+  const start = parseISO(startDate);
+  switch (cadence) {
+    case 'weekly':
+      return format(addWeeks(start, index), 'yyyy-MM-dd');
+    case 'monthly':
+      return format(addMonths(start, index), 'yyyy-MM-dd');
+    case 'quarterly':
+      return format(addMonths(start, index * 3), 'yyyy-MM-dd');
+    case 'annual':
+      return format(addMonths(start, index * 12), 'yyyy-MM-dd');
+  }
+}
+
+/**
+ * Due dates from `from` to `through` inclusive, stopping at the end date
+ */
+export function dueDatesBetween(
+  template: Pick<RecurringTransaction, 'start_date' | 'cadence' | 'end_date'>,
+  from: string,
+  through: string
+): string[] {
+  const last = template.end_date && template.end_date < through ? template.end_date : through;
+  const dates: string[] = [];
+
+  for (let index = 0; ; index++) {
+    const date = dueDateAt(template.start_date, template.cadence, index);
+    if (date > last) break;
+    if (date >= from) dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * First due date after `date`, or null when the template has ended by then
+ */
+export function nextDueDateAfter(
+  template: Pick<RecurringTransaction, 'start_date' | 'cadence' | 'end_date'>,
+  date: string
+): string | null {
+  for (let index = 0; ; index++) {
+    const due = dueDateAt(template.start_date, template.cadence, index);
+    if (template.end_date && due > template.end_date) return null;
+    if (due > date) return due;
+  }
+}
+
+/**
+ * A pending payment is overdue once its due date passes, and missing once a
+ * bank row would be too late to match it
+ */
+export function expectedPaymentFlag(
+  payment: Pick<ExpectedPayment, 'status' | 'due_date'>,
+  today: string
+): ExpectedPaymentFlag {
+  if (payment.status !== 'pending') return payment.status;
+  if (payment.due_date >= today) return 'upcoming';
+
+  const daysLate = differenceInCalendarDays(parseISO(today), parseISO(payment.due_date));
+  return daysLate > RECURRING_MATCH_DAYS ? 'missing' : 'overdue';
+}
+
+/**
+ * Create a pending expected payment for every due date of each active template
+ * up to `through`, and move the templates' next dates on. Returns how many were created.
+ */
+export async function generateExpectedPayments(
+  supabase: SupabaseClient,
+  userId: string,
+  through: string
+): Promise<number> {
+  const { data: templates, error } = await supabase
+    .from('recurring_transactions')
+    .select('*')
+    .eq('is_active', true)
+    .lte('next_date', through);
+
+  if (error) {
+    throw new Error(`Failed to fetch recurring transactions: ${error.message}`);
+  }
+
+  let created = 0;
+  for (const template of (templates || []) as RecurringTransaction[]) {
+    const dates = dueDatesBetween(template, template.next_date, through);
+
+    if (dates.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from('expected_payments')
+        .upsert(
+          dates.map(dueDate => ({
+            user_id: userId,
+            recurring_transaction_id: template.id,
+            due_date: dueDate,
+            amount: template.amount,
+          })),
+          { onConflict: 'recurring_transaction_id,due_date', ignoreDuplicates: true }
+        )
+        .select('id');
+
+      if (insertError) {
+        throw new Error(`Failed to generate expected payments: ${insertError.message}`);
+      }
+      created += inserted?.length ?? 0;
+    }
+
+    const nextDate = nextDueDateAfter(template, through);
+    const { error: updateError } = await supabase
+      .from('recurring_transactions')
+      .update(nextDate
+        ? { next_date: nextDate, updated_at: new Date().toISOString() }
+        : { is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', template.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update recurring transaction: ${updateError.message}`);
+    }
+  }
+
+  return created;
+}
+
+export async function fetchExpectedPayments(
+  supabase: SupabaseClient,
+  options: { from: string; through: string; status?: ExpectedPaymentStatus }
+): Promise<ExpectedPayment[]> {
+  let query = supabase
+    .from('expected_payments')
+    .select(EXPECTED_PAYMENT_SELECT)
+    .gte('due_date', options.from)
+    .lte('due_date', options.through)
+    .order('due_date', { ascending: true });
+
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch expected payments: ${error.message}`);
+  }
+
+  return (data || []) as ExpectedPayment[];
+}
+
+/**
+ * Mark expected payments as fulfilled by the bank rows that matched them
+ */
+export async function fulfilExpectedPayments(
+  supabase: SupabaseClient,
+  fulfilments: ExpectedPaymentFulfilment[],
+  importBatchId: string | null
+): Promise<void> {
+  for (const fulfilment of fulfilments) {
+    const { error } = await supabase
+      .from('expected_payments')
+      .update({
+        status: 'fulfilled',
+        fulfilled_date: fulfilment.date,
+        fulfilled_amount: fulfilment.amount,
+        fulfilled_description: fulfilment.description,
+        import_batch_id: importBatchId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', fulfilment.expectedPaymentId)
+      .eq('status', 'pending');
+
+    if (error) {
+      throw new Error(`Failed to fulfil expected payment: ${error.message}`);
+    }
+  }
+}
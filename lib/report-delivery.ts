@@ -0,0 +1,232 @@
+// Report Delivery Transports
+// Purpose: Deliver rendered scheduled reports through a pluggable transport
+// Part of: Scheduled report runner (server-only - uses Node built-ins)
+
+import { mkdir, writeFile } from 'fs/promises';
+import { connect, type Socket } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { RenderedReport } from './report-export';
+
+export interface ReportDelivery {
+  subject: string;
+  body: string;
+  recipients: string[];
+  attachments: RenderedReport[];
+}
+
+export interface DeliveryResult {
+  transport: string;
+  reference: string;
+}
+
+export interface ReportTransport {
+  name: string;
+  send(delivery: ReportDelivery): Promise<DeliveryResult>;
+}
+
+// ============================================================================
+// FILE DROP TRANSPORT
+// ============================================================================
+
+/**
+ * Writes each delivery to its own folder: the attachments plus a
+ * message.json describing subject, body and recipients.
+ */
+export class FileDropTransport implements ReportTransport {
+  name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(delivery: ReportDelivery): Promise<DeliveryResult> {
+    const folder = path.join(
+      this.directory,
+      `${new Date().toISOString().replace(/[:.]/g, '-')}_${Math.random().toString(36).slice(2, 8)}`
+    );
+    await mkdir(folder, { recursive: true });
+
+    await Promise.all(
+      delivery.attachments.map(attachment =>
+        writeFile(path.join(folder, attachment.filename), attachment.content)
+      )
+    );
+
+    await writeFile(
+      path.join(folder, 'message.json'),
+      JSON.stringify({
+        subject: delivery.subject,
+        body: delivery.body,
+        recipients: delivery.recipients,
+        attachments: delivery.attachments.map(a => a.filename),
+      }, null, 2)
+    );
+
+    return { transport: this.name, reference: folder };
+  }
+}
+
+// ============================================================================
+// SMTP TRANSPORT
+// ============================================================================
+
+/**
+ * Minimal plain SMTP client intended for local mail catchers
+ * (Mailpit, MailHog, smtp4dev). No TLS or authentication.
+ */
+export class SmtpTransport implements ReportTransport {
+  name = 'smtp';
+
+  constructor(
+    private host: string,
+    private port: number,
+    private from: string,
+    private timeoutMs: number = 10000
+  ) {}
+
+  async send(delivery: ReportDelivery): Promise<DeliveryResult> {
+    if (delivery.recipients.length === 0) {
+      throw new Error('No email recipients configured for this schedule');
+    }
+
+    const session = await SmtpSession.open(this.host, this.port, this.timeoutMs);
+    try {
+      await session.expect(220);
+      await session.command(`EHLO ${this.heloName()}`, 250);
+      await session.command(`MAIL FROM:<${this.from}>`, 250);
+      for (const recipient of delivery.recipients) {
+        await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+      await session.command('DATA', 354);
+      const messageId = `<${Date.now()}.${Math.random().toString(36).slice(2)}@${this.heloName()}>`;
+      await session.command(`${this.buildMessage(delivery, messageId)}\r\n.`, 250);
+      await session.command('QUIT', 221).catch(() => undefined);
+      return { transport: this.name, reference: messageId };
+    } finally {
+      session.close();
+    }
+  }
+
+  private heloName(): string {
+    return this.from.split('@')[1] || 'localhost';
+  }
+
+  private buildMessage(delivery: ReportDelivery, messageId: string): string {
+    const boundary = `herbarium-${Math.random().toString(36).slice(2)}`;
+    const lines = [
+      `From: ${this.from}`,
+      `To: ${delivery.recipients.join(', ')}`,
+      `Subject: ${delivery.subject.replace(/[\r\n]+/g, ' ')}`,
+      `Message-ID: ${messageId}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/mixed; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      delivery.body,
+    ];
+
+    delivery.attachments.forEach(attachment => {
+      lines.push(
+        `--${boundary}`,
+        `Content-Type: ${attachment.mimeType}; name="${attachment.filename}"`,
+        'Content-Transfer-Encoding: base64',
+        `Content-Disposition: attachment; filename="${attachment.filename}"`,
+        '',
+        ...(Buffer.from(attachment.content).toString('base64').match(/.{1,76}/g) ?? [])
+      );
+    });
+    lines.push(`--${boundary}--`);
+
+    // Dot-stuff lines so a lone "." in the body can't end the DATA section
+    return lines.map(line => (line.startsWith('.') ? `.${line}` : line)).join('\r\n');
+  }
+}
+
+class SmtpSession {
+  private buffer = '';
+  private waiting: ((response: { code: number; text: string }) => void) | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.flush();
+    });
+    socket.on('error', (error) => {
+      this.failure = error;
+    });
+  }
+
+  static open(host: string, port: number, timeoutMs: number): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = connect({ host, port });
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP connection to ${host}:${port} timed out`)));
+      socket.once('connect', () => resolve(new SmtpSession(socket)));
+      socket.once('error', reject);
+    });
+  }
+
+  // A reply is complete once a line has a space after the status code
+  private flush() {
+    if (!this.waiting) return;
+    const lines = this.buffer.split('\r\n');
+    const endIndex = lines.findIndex(line => /^\d{3} /.test(line));
+    if (endIndex === -1) return;
+
+    const replyLines = lines.slice(0, endIndex + 1);
+    this.buffer = lines.slice(endIndex + 1).join('\r\n');
+    const resolve = this.waiting;
+    this.waiting = null;
+    resolve({ code: Number(replyLines[endIndex].slice(0, 3)), text: replyLines.join('\n') });
+  }
+
+  expect(expected: number | number[]): Promise<void> {
+    const codes = Array.isArray(expected) ? expected : [expected];
+    return new Promise((resolve, reject) => {
+      if (this.failure) return reject(this.failure);
+      const onClose = () => reject(this.failure ?? new Error('SMTP connection closed unexpectedly'));
+      this.socket.once('close', onClose);
+      this.waiting = ({ code, text }) => {
+        this.socket.off('close', onClose);
+        if (codes.includes(code)) resolve();
+        else reject(new Error(`SMTP error: ${text}`));
+      };
+      this.flush();
+    });
+  }
+
+  command(line: string, expected: number | number[]): Promise<void> {
+    const reply = this.expect(expected);
+    this.socket.write(`${line}\r\n`);
+    return reply;
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+// ============================================================================
+// TRANSPORT SELECTION
+// ============================================================================
+
+/**
+ * Pick the transport from environment configuration:
+ * - REPORT_TRANSPORT=smtp uses SMTP_HOST / SMTP_PORT / REPORT_EMAIL_FROM
+ * - anything else (default) drops files into REPORT_FILE_DROP_DIR
+ */
+export function getReportTransport(env: NodeJS.ProcessEnv = process.env): ReportTransport {
+  if (env.REPORT_TRANSPORT === 'smtp') {
+    return new SmtpTransport(
+      env.SMTP_HOST || 'localhost',
+      Number(env.SMTP_PORT || 1025),
+      env.REPORT_EMAIL_FROM || 'reports@herbarium.local'
+    );
+  }
+
+  return new FileDropTransport(env.REPORT_FILE_DROP_DIR || path.join(tmpdir(), 'herbarium-reports'));
+}
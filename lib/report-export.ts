@@ -0,0 +1,278 @@
+// Report Export Renderers
+// Purpose: Render a report document into each supported ExportFormat without a browser
+// Part of: Scheduled report runner
+
+import type { ExportFormat } from './reports-types';
+
+export type ReportCell = string | number | null;
+
+export interface ReportDocument {
+  title: string;
+  period: string;
+  generatedAt: string;
+  columns: string[];
+  rows: ReportCell[][];
+  summary?: { label: string; value: number }[];
+  // Raw engine output, included in JSON exports for downstream tooling
+  data?: unknown;
+}
+
+export interface RenderedReport {
+  format: ExportFormat;
+  filename: string;
+  mimeType: string;
+  content: Uint8Array;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  excel: 'application/vnd.ms-excel',
+  pdf: 'application/pdf',
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  excel: 'xls',
+  pdf: 'pdf',
+};
+
+export class ReportRenderer {
+  /**
+   * Render a report document in the requested format.
+   */
+  static render(doc: ReportDocument, format: ExportFormat): RenderedReport {
+    let content: Uint8Array;
+
+    switch (format) {
+      case 'csv':
+        content = new TextEncoder().encode(this.toCSV(doc));
+        break;
+      case 'json':
+        content = new TextEncoder().encode(this.toJSON(doc));
+        break;
+      case 'excel':
+        content = new TextEncoder().encode(this.toSpreadsheetML(doc));
+        break;
+      case 'pdf':
+        content = this.toPDF(doc);
+        break;
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+
+    return {
+      format,
+      filename: `${this.slugify(doc.title)}_${doc.generatedAt.split('T')[0]}.${FILE_EXTENSIONS[format]}`,
+      mimeType: MIME_TYPES[format],
+      content,
+    };
+  }
+
+  private static slugify(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'report';
+  }
+
+  private static formatAmount(value: number): string {
+    return value.toFixed(2);
+  }
+
+  private static cellToString(cell: ReportCell): string {
+    if (cell === null || cell === undefined) return '';
+    return typeof cell === 'number' ? this.formatAmount(cell) : cell;
+  }
+
+  // ==========================================================================
+  // CSV
+  // ==========================================================================
+
+  private static escapeCSVField(field: string): string {
+    if (field.includes(',') || field.includes('"') || field.includes('\n')) {
+      return `"${field.replace(/"/g, '""')}"`;
+    }
+    return field;
+  }
+
+  private static toCSV(doc: ReportDocument): string {
+    const lines = [
+      this.escapeCSVField(doc.title),
+      this.escapeCSVField(`Period: ${doc.period}`),
+      '',
+      doc.columns.map(c => this.escapeCSVField(c)).join(','),
+      ...doc.rows.map(row => row.map(cell => this.escapeCSVField(this.cellToString(cell))).join(',')),
+    ];
+
+    if (doc.summary?.length) {
+      lines.push('');
+      doc.summary.forEach(item => {
+        lines.push(`${this.escapeCSVField(item.label)},${this.formatAmount(item.value)}`);
+      });
+    }
+
+    return lines.join('\n');
+  }
+
+  // ==========================================================================
+  // JSON
+  // ==========================================================================
+
+  private static toJSON(doc: ReportDocument): string {
+    return JSON.stringify({
+      title: doc.title,
+      period: doc.period,
+      generatedAt: doc.generatedAt,
+      rows: doc.rows.map(row =>
+        Object.fromEntries(doc.columns.map((column, i) => [column, row[i] ?? null]))
+      ),
+      summary: doc.summary ?? [],
+      data: doc.data ?? null,
+    }, null, 2);
+  }
+
+  // ==========================================================================
+  // EXCEL (SpreadsheetML 2003 - opens natively in Excel and LibreOffice)
+  // ==========================================================================
+
+  private static escapeXML(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private static xmlCell(cell: ReportCell, style?: string): string {
+    const styleAttr = style ? ` ss:StyleID="${style}"` : '';
+    if (typeof cell === 'number') {
+      return `<Cell${styleAttr || ' ss:StyleID="amount"'}><Data ss:Type="Number">${cell}</Data></Cell>`;
+    }
+    return `<Cell${styleAttr}><Data ss:Type="String">${this.escapeXML(cell ?? '')}</Data></Cell>`;
+  }
+
+  private static toSpreadsheetML(doc: ReportDocument): string {
+    const row = (cells: string[]) => `<Row>${cells.join('')}</Row>`;
+    const rows = [
+      row([this.xmlCell(doc.title, 'title')]),
+      row([this.xmlCell(`Period: ${doc.period}`)]),
+      row([]),
+      row(doc.columns.map(c => this.xmlCell(c, 'header'))),
+      ...doc.rows.map(r => row(r.map(cell => this.xmlCell(cell)))),
+    ];
+
+    if (doc.summary?.length) {
+      rows.push(row([]));
+      doc.summary.forEach(item => {
+        rows.push(row([this.xmlCell(item.label, 'header'), this.xmlCell(item.value)]));
+      });
+    }
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<?mso-application progid="Excel.Sheet"?>',
+      '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+      '<Styles>',
+      '<Style ss:ID="title"><Font ss:Bold="1" ss:Size="14"/></Style>',
+      '<Style ss:ID="header"><Font ss:Bold="1"/></Style>',
+      '<Style ss:ID="amount"><NumberFormat ss:Format="#,##0.00"/></Style>',
+      '</Styles>',
+      `<Worksheet ss:Name="${this.escapeXML(doc.title.slice(0, 31))}">`,
+      `<Table>${rows.join('')}</Table>`,
+      '</Worksheet>',
+      '</Workbook>',
+    ].join('\n');
+  }
+
+  // ==========================================================================
+  // PDF (single-font text layout, no external dependencies)
+  // ==========================================================================
+
+  private static escapePDFText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/\(/g, '\\(')
+      .replace(/\)/g, '\\)')
+      // Helvetica/WinAnsi can only show Latin-1 characters
+      .replace(/[^\x20-\xff]/g, '?');
+  }
+
+  private static toPDF(doc: ReportDocument): Uint8Array {
+    const pageHeight = 842; // A4 portrait
+    const marginTop = 800;
+    const marginBottom = 50;
+    const lineHeight = 14;
+    const columnWidth = Math.floor(515 / Math.max(doc.columns.length, 1));
+
+    const lines: { text: string; bold?: boolean; cells?: string[] }[] = [
+      { text: doc.title, bold: true },
+      { text: `Period: ${doc.period}` },
+      { text: `Generated: ${doc.generatedAt}` },
+      { text: '' },
+      { text: '', bold: true, cells: doc.columns },
+      ...doc.rows.map(r => ({ text: '', cells: r.map(cell => this.cellToString(cell)) })),
+    ];
+
+    if (doc.summary?.length) {
+      lines.push({ text: '' });
+      doc.summary.forEach(item => {
+        lines.push({ text: '', bold: true, cells: [item.label, this.formatAmount(item.value)] });
+      });
+    }
+
+    // Lay lines out into pages
+    const pages: string[] = [];
+    let stream = '';
+    let y = marginTop;
+    lines.forEach(line => {
+      if (y < marginBottom) {
+        pages.push(stream);
+        stream = '';
+        y = marginTop;
+      }
+      const font = line.bold ? '/F2' : '/F1';
+      if (line.cells) {
+        line.cells.forEach((cell, i) => {
+          const maxChars = Math.max(Math.floor(columnWidth / 5.5), 4);
+          const text = cell.length > maxChars ? `${cell.slice(0, maxChars - 1)}~` : cell;
+          stream += `BT ${font} 9 Tf ${40 + i * columnWidth} ${y} Td (${this.escapePDFText(text)}) Tj ET\n`;
+        });
+      } else if (line.text) {
+        stream += `BT ${font} ${line.bold ? 14 : 10} Tf 40 ${y} Td (${this.escapePDFText(line.text)}) Tj ET\n`;
+      }
+      y -= lineHeight;
+    });
+    pages.push(stream);
+
+    // Object layout: 1 catalog, 2 pages, 3 regular font, 4 bold font, then page/content pairs
+    const objects: string[] = [];
+    const pageRefs = pages.map((_, i) => `${5 + i * 2} 0 R`);
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    pages.forEach((content, i) => {
+      objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 ${pageHeight}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`);
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}endstream`);
+    });
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(pdf.length);
+      pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach(offset => {
+      pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+    });
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Every character is Latin-1 at this point, so one byte per character
+    const bytes = new Uint8Array(pdf.length);
+    for (let i = 0; i < pdf.length; i++) {
+      bytes[i] = pdf.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  }
+}
@@ -0,0 +1,224 @@
+// Report Schedule Utilities
+// Purpose: Work out when a scheduled report is next due and which period it covers
+// Part of: Scheduled report runner
+
+import {
+  startOfMonth,
+  endOfMonth,
+  startOfQuarter,
+  endOfQuarter,
+  startOfWeek,
+  endOfWeek,
+  subDays,
+  subMonths,
+  subQuarters,
+  subWeeks,
+} from 'date-fns';
+import { FINANCIAL_YEAR_START_MONTH } from './constants';
+import type { ScheduleConfig, ReportFilters } from './reports-types';
+
+export const DEFAULT_SCHEDULE_TIME = '07:00';
+export const DEFAULT_SCHEDULE_TIMEZONE = 'Europe/London';
+
+// ============================================================================
+// TIMEZONE HELPERS
+// ============================================================================
+
+interface WallClock {
+  year: number;
+  month: number; // 0-indexed
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+function getWallClock(date: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+
+  return {
+    year: get('year'),
+    month: get('month') - 1,
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+  };
+}
+
+// Convert a wall-clock time in the given zone to a UTC instant
+function zonedTimeToUtc(wall: WallClock, timeZone: string): Date {
+  const asUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute);
+  const observed = getWallClock(new Date(asUtc), timeZone);
+  const observedUtc = Date.UTC(observed.year, observed.month, observed.day, observed.hour, observed.minute);
+  return new Date(asUtc - (observedUtc - asUtc));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function parseTime(time?: string): { hour: number; minute: number } {
+  const [hour, minute] = (time || DEFAULT_SCHEDULE_TIME).split(':').map(Number);
+  return {
+    hour: Number.isFinite(hour) ? hour : 7,
+    minute: Number.isFinite(minute) ? minute : 0,
+  };
+}
+
+// ============================================================================
+// NEXT RUN CALCULATION
+// ============================================================================
+
+/**
+ * Calculate the next time a schedule should fire, strictly after `from`.
+ * Times are interpreted in the schedule's timezone (UK time by default).
+ */
+export function computeNextRun(config: ScheduleConfig, from: Date = new Date()): Date {
+  const timeZone = config.timezone || DEFAULT_SCHEDULE_TIMEZONE;
+  const { hour, minute } = parseTime(config.time);
+  const now = getWallClock(from, timeZone);
+
+  const candidateAt = (year: number, month: number, day: number): Date => {
+    // Normalise month overflow and clamp the day to the month length
+    const normalised = new Date(Date.UTC(year, month, 1));
+    const y = normalised.getUTCFullYear();
+    const m = normalised.getUTCMonth();
+    const d = Math.min(day, daysInMonth(y, m));
+    return zonedTimeToUtc({ year: y, month: m, day: d, hour, minute }, timeZone);
+  };
+
+  switch (config.frequency) {
+    case 'daily': {
+      let next = candidateAt(now.year, now.month, now.day);
+      if (next <= from) next = candidateAt(now.year, now.month, now.day + 1);
+      return next;
+    }
+
+    case 'weekly': {
+      const targetDay = config.dayOfWeek ?? 1; // Monday
+      const today = new Date(Date.UTC(now.year, now.month, now.day)).getUTCDay();
+      let offset = (targetDay - today + 7) % 7;
+      let next = zonedTimeToUtc({ ...now, day: now.day + offset, hour, minute }, timeZone);
+      if (next <= from) {
+        offset += 7;
+        next = zonedTimeToUtc({ ...now, day: now.day + offset, hour, minute }, timeZone);
+      }
+      return next;
+    }
+
+    case 'monthly': {
+      const day = config.dayOfMonth ?? 1;
+      let next = candidateAt(now.year, now.month, day);
+      if (next <= from) next = candidateAt(now.year, now.month + 1, day);
+      return next;
+    }
+
+    case 'quarterly': {
+      // Quarters follow the calendar (Jan, Apr, Jul, Oct), which lines up with
+      // the April financial year
+      const day = config.dayOfMonth ?? 1;
+      const quarterStartMonth = now.month - (now.month % 3);
+      let next = candidateAt(now.year, quarterStartMonth, day);
+      if (next <= from) next = candidateAt(now.year, quarterStartMonth + 3, day);
+      return next;
+    }
+
+    case 'yearly': {
+      // Yearly reports run at the start of the financial year
+      const day = config.dayOfMonth ?? 1;
+      let next = candidateAt(now.year, FINANCIAL_YEAR_START_MONTH, day);
+      if (next <= from) next = candidateAt(now.year + 1, FINANCIAL_YEAR_START_MONTH, day);
+      return next;
+    }
+
+    default:
+      throw new Error(`Unknown schedule frequency: ${config.frequency}`);
+  }
+}
+
+export function isScheduleDue(nextRun: string | null | undefined, now: Date = new Date()): boolean {
+  // Schedules without a next_run haven't been initialised yet; the runner
+  // sets one rather than firing immediately
+  if (!nextRun) return false;
+  return new Date(nextRun) <= now;
+}
+
+// ============================================================================
+// REPORT PERIOD RESOLUTION
+// ============================================================================
+
+function getFinancialYearStart(date: Date): Date {
+  const fyStartYear = date.getMonth() < FINANCIAL_YEAR_START_MONTH ? date.getFullYear() - 1 : date.getFullYear();
+  return new Date(fyStartYear, FINANCIAL_YEAR_START_MONTH, 1);
+}
+
+/**
+ * Resolve a saved report's date range filter to concrete dates.
+ * Scheduled reports default to the last complete period for their frequency,
+ * e.g. a monthly schedule reports on the previous calendar month.
+ */
+export function resolveReportPeriod(
+  dateRange: ReportFilters['dateRange'],
+  frequency: ScheduleConfig['frequency'],
+  now: Date = new Date()
+): { start: Date; end: Date } {
+  if (dateRange && typeof dateRange === 'object') {
+    return { start: new Date(dateRange.startDate), end: new Date(dateRange.endDate) };
+  }
+
+  switch (dateRange) {
+    case 'today':
+      return { start: now, end: now };
+    case 'yesterday': {
+      const yesterday = subDays(now, 1);
+      return { start: yesterday, end: yesterday };
+    }
+    case 'last_week': {
+      const lastWeek = subWeeks(now, 1);
+      return { start: startOfWeek(lastWeek, { weekStartsOn: 1 }), end: endOfWeek(lastWeek, { weekStartsOn: 1 }) };
+    }
+    case 'last_month': {
+      const lastMonth = subMonths(now, 1);
+      return { start: startOfMonth(lastMonth), end: endOfMonth(lastMonth) };
+    }
+    case 'last_quarter': {
+      const lastQuarter = subQuarters(now, 1);
+      return { start: startOfQuarter(lastQuarter), end: endOfQuarter(lastQuarter) };
+    }
+    case 'last_year': {
+      const thisFyStart = getFinancialYearStart(now);
+      const start = new Date(thisFyStart.getFullYear() - 1, FINANCIAL_YEAR_START_MONTH, 1);
+      return { start, end: subDays(thisFyStart, 1) };
+    }
+    case 'last_three_months':
+      return { start: startOfMonth(subMonths(now, 3)), end: endOfMonth(subMonths(now, 1)) };
+    case 'last_six_months':
+      return { start: startOfMonth(subMonths(now, 6)), end: endOfMonth(subMonths(now, 1)) };
+    case 'year_to_date':
+      return { start: getFinancialYearStart(now), end: now };
+  }
+
+  // No (or 'custom' without dates) range saved: use the last complete period
+  switch (frequency) {
+    case 'daily':
+      return resolveReportPeriod('yesterday', frequency, now);
+    case 'weekly':
+      return resolveReportPeriod('last_week', frequency, now);
+    case 'quarterly':
+      return resolveReportPeriod('last_quarter', frequency, now);
+    case 'yearly':
+      return resolveReportPeriod('last_year', frequency, now);
+    case 'monthly':
+    default:
+      return resolveReportPeriod('last_month', frequency, now);
+  }
+}
@@ -1,4 +1,9 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/supabase/client';
+import { cashMovement, fetchBankAccounts, getBalanceBroughtForward, getOpeningPosition, summariseByAccount, type AccountSubtotal } from './bank-accounts';
+import { buildBalanceSheet, type BalanceSheetData, type BalanceSheetItem } from './balance-sheet';
+import { fixedAssetEntryLabel, type FixedAsset } from './fixed-assets';
+import { disallowablePortion } from './business-use';
 import type { HierarchyComparisonResult, CategoryComparisonResult } from './types';
 
 // Core Report Configuration Types
@@ -19,6 +24,7 @@ export interface FlexibleReportConfig {
   filters?: {
     categoryIds?: string[];
     hierarchyIds?: string[];
+    bankAccountId?: string;
     minAmount?: number;
     maxAmount?: number;
   };
@@ -62,6 +68,8 @@ export interface CashFlowData {
   expenditure: number;
   capital_in: number;
   capital_out: number;
+  /** Net transfers between accounts - zero unless the statement covers a single account */
+  transfers: number;
   net_flow: number;
   running_balance: number;
 }
@@ -84,6 +92,8 @@ export interface HierarchySection {
   name: string;
   type: 'income' | 'expenditure' | 'capital';
   total_amount: number;
+  /** Private-use share and disallowable expenses included in total_amount (expenditure only) */
+  disallowable_amount: number;
   categories: CategoryInHierarchy[];
   display_order: number;
 }
@@ -94,6 +104,7 @@ export interface CategoryInHierarchy {
   color?: string;
   capital_movement_type?: 'injection' | 'drawing' | null;
   total_amount: number;
+  disallowable_amount: number;
   transaction_count: number;
   transactions: TransactionInCategory[];
 }
@@ -101,6 +112,7 @@ export interface CategoryInHierarchy {
 export interface TransactionInCategory {
   id: string;
   amount: number;
+  disallowable_amount: number;
   date: string;
   description: string;
   type: string;
@@ -110,13 +122,60 @@ export interface PLTotals {
   total_income: number;
   total_expenditure: number;
   net_operating_profit: number;
+  /** Part of total_expenditure that is private use or disallowable for tax */
+  total_disallowable: number;
   total_capital_movements: number;
   profit_after_capital_movements: number;
 }
 
+// Rows as fetched for the hierarchical P&L
+interface PLTransactionRow {
+  id: string;
+  amount: string | number;
+  transaction_date: string;
+  description: string;
+  type: string;
+  fixed_asset_id?: string | null;
+  simplified_expense?: string | null;
+  business_use_percent?: number | string | null;
+  disallowable?: boolean | null;
+}
+
+interface PLHierarchyRow {
+  id: string;
+  name: string;
+  type: string;
+  display_order: number;
+  category_hierarchy_assignments: {
+    categories: {
+      id: string;
+      name: string;
+      color?: string;
+      capital_movement_type?: 'injection' | 'drawing' | null;
+      business_use_percent?: number | string | null;
+      disallowable?: boolean | null;
+      transactions: PLTransactionRow[];
+    } | null;
+  }[];
+}
+
+interface FixedAssetEntryRow {
+  id: string;
+  entry_type: 'depreciation' | 'disposal';
+  entry_date: string;
+  amount: string | number;
+  fixed_assets: { name: string; depreciation_category_id: string | null } | null;
+}
+
 // Report Data Engine Class
 export class ReportDataEngine {
-  private supabase = createClient();
+  private supabase: SupabaseClient;
+
+  // Defaults to the browser client; server-side callers (e.g. the scheduled
+  // report runner) pass their own client so queries run outside a session.
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase ?? createClient();
+  }
 
   // Get Category Breakdown (P&L Structure)
   async getCategoryBreakdown(config: FlexibleReportConfig): Promise<CategoryBreakdownData[]> {
@@ -137,12 +196,16 @@ export class ReportDataEngine {
             type
           )
         `)
+        // Capitalised purchases reach the P&L through depreciation instead
+        .is('fixed_asset_id', null)
         .gte('transaction_date', dateRange.start.toISOString().split('T')[0])
         .lte('transaction_date', dateRange.end.toISOString().split('T')[0]);
 
       // Apply type filters
       if (includeTypes.length > 0) {
         query = query.in('type', includeTypes);
+      } else {
+        query = query.neq('type', 'transfer');
       }
 
       // Apply category filters
@@ -229,6 +292,7 @@ export class ReportDataEngine {
         type,
         transaction_date
       `)
+      .is('fixed_asset_id', null)
       .gte('transaction_date', dateRange.start.toISOString().split('T')[0])
       .lte('transaction_date', dateRange.end.toISOString().split('T')[0])
       .in('type', includeTypes.length > 0 ? includeTypes : ['income', 'expenditure', 'capital']);
@@ -241,16 +305,24 @@ export class ReportDataEngine {
     return this.aggregateMonthlyData(data || []);
   }
 
+  // Get Opening Balance - bank account opening balances rolled forward to the given date
+  async getOpeningBalance(date: Date, bankAccountId?: string): Promise<number> {
+    return getBalanceBroughtForward(this.supabase, date.toISOString().split('T')[0], bankAccountId);
+  }
+
   // Get Cash Flow Data
-  async getCashFlowData(config: FlexibleReportConfig, openingBalance: number = 0): Promise<CashFlowData[]> {
-    const { dateRange } = config;
+  async getCashFlowData(config: FlexibleReportConfig, openingBalance?: number): Promise<CashFlowData[]> {
+    const { dateRange, filters } = config;
+    const startingBalance = openingBalance ?? await this.getOpeningBalance(dateRange.start, filters?.bankAccountId);
 
-    const { data, error } = await this.supabase
+    let query = this.supabase
       .from('transactions')
       .select(`
         amount,
         type,
         transaction_date,
+        transfer_direction,
+        simplified_expense,
         categories(
           capital_movement_type
         )
@@ -259,12 +331,48 @@ export class ReportDataEngine {
       .lte('transaction_date', dateRange.end.toISOString().split('T')[0])
       .order('transaction_date', { ascending: true });
 
+    if (filters?.bankAccountId) {
+      query = query.eq('bank_account_id', filters.bankAccountId);
+    }
+
+    const { data, error } = await query;
+
     if (error) {
       console.error('Error fetching cash flow data:', error);
       throw error;
     }
 
-    return this.calculateCashFlow(data || [], openingBalance);
+    return this.calculateCashFlow(data || [], startingBalance);
+  }
+
+  // Get Cash Flow by Account - inflows, outflows and net movement per bank account
+  async getCashFlowByAccount(config: FlexibleReportConfig): Promise<AccountSubtotal[]> {
+    const { dateRange } = config;
+
+    const [accounts, { data, error }] = await Promise.all([
+      fetchBankAccounts(this.supabase),
+      this.supabase
+        .from('transactions')
+        .select(`
+          amount,
+          type,
+          bank_account_id,
+          transfer_direction,
+          simplified_expense,
+          categories(
+            capital_movement_type
+          )
+        `)
+        .gte('transaction_date', dateRange.start.toISOString().split('T')[0])
+        .lte('transaction_date', dateRange.end.toISOString().split('T')[0]),
+    ]);
+
+    if (error) {
+      console.error('Error fetching cash flow by account:', error);
+      throw error;
+    }
+
+    return summariseByAccount(data || [], accounts);
   }
 
   // Get P&L Structure (Hierarchy-based)
@@ -284,7 +392,9 @@ export class ReportDataEngine {
             name,
             transactions(
               amount,
-              transaction_date
+              transaction_date,
+              type,
+              fixed_asset_id
             )
           )
         )
@@ -298,8 +408,7 @@ export class ReportDataEngine {
       throw error;
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return this.processPLStructure((data || []) as any, dateRange);
+    return this.processPLStructure((data || []) as unknown as PLHierarchyRow[], dateRange);
   }
 
   // Get Hierarchical P&L Data (Enhanced for Standard P&L Report)
@@ -321,12 +430,18 @@ export class ReportDataEngine {
               name,
               color,
               capital_movement_type,
+              business_use_percent,
+              disallowable,
               transactions(
                 id,
                 amount,
                 transaction_date,
                 description,
-                type
+                type,
+                fixed_asset_id,
+                simplified_expense,
+                business_use_percent,
+                disallowable
               )
             )
           )
@@ -347,9 +462,13 @@ export class ReportDataEngine {
           amount,
           transaction_date,
           description,
-          type
+          type,
+          business_use_percent,
+          disallowable
         `)
         .is('category_id', null)
+        .is('fixed_asset_id', null)
+        .neq('type', 'transfer')
         .gte('transaction_date', dateRange.start.toISOString().split('T')[0])
         .lte('transaction_date', dateRange.end.toISOString().split('T')[0]);
 
@@ -358,14 +477,111 @@ export class ReportDataEngine {
         throw uncategorizedError;
       }
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return this.processHierarchicalPLData((hierarchies || []) as any, dateRange, uncategorizedTransactions || []);
+      // Depreciation and disposal gains/losses stand in for capitalised purchases and sales
+      const { data: assetEntries, error: assetEntriesError } = await this.supabase
+        .from('fixed_asset_entries')
+        .select('id, entry_type, entry_date, amount, fixed_assets(name, depreciation_category_id)')
+        .gte('entry_date', dateRange.start.toISOString().split('T')[0])
+        .lte('entry_date', dateRange.end.toISOString().split('T')[0]);
+
+      if (assetEntriesError) {
+        console.error('Error fetching fixed asset entries:', assetEntriesError);
+        throw assetEntriesError;
+      }
+
+      const hierarchiesWithAssets = this.addFixedAssetEntries(
+        (hierarchies || []) as unknown as PLHierarchyRow[],
+        (assetEntries || []) as unknown as FixedAssetEntryRow[]
+      );
+      return this.processHierarchicalPLData(hierarchiesWithAssets, dateRange, uncategorizedTransactions || []);
     } catch (error) {
       console.error('Error in getHierarchicalPLData:', error);
       throw error;
     }
   }
 
+  // Get Balance Sheet at a date (YYYY-MM-DD). Everything runs from the bank opening
+  // date, so opening balances + capital + retained profit reconcile to the bank balance.
+  async getBalanceSheetData(asOf: string): Promise<BalanceSheetData> {
+    const accounts = await fetchBankAccounts(this.supabase);
+    const { openingBalance, openingDate } = getOpeningPosition(accounts);
+    // Midday avoids toISOString() moving the date across a timezone boundary
+    const toDate = (date: string) => new Date(`${date}T12:00:00`);
+
+    let movementsQuery = this.supabase
+      .from('transactions')
+      .select('amount, type, transfer_direction, simplified_expense, categories(capital_movement_type)')
+      .lte('transaction_date', asOf);
+    if (openingDate) {
+      movementsQuery = movementsQuery.gte('transaction_date', openingDate);
+    }
+
+    const [
+      { data: movements, error: movementsError },
+      { data: items, error: itemsError },
+      { data: fixedAssets, error: fixedAssetsError },
+      pl,
+    ] = await Promise.all([
+      movementsQuery,
+      this.supabase
+        .from('balance_sheet_items')
+        .select('*, balance_sheet_item_values(id, as_of_date, amount)')
+        .order('name', { ascending: true }),
+      this.supabase
+        .from('fixed_assets')
+        .select('*')
+        .lte('acquisition_date', asOf)
+        .order('acquisition_date', { ascending: true }),
+      this.getHierarchicalPLData({
+        name: 'Balance Sheet',
+        dateRange: { start: toDate(openingDate ?? '1970-01-01'), end: toDate(asOf), period: 'annual' },
+        groupBy: 'hierarchy',
+        includeTypes: ['income', 'expenditure'],
+        visualizations: ['table'],
+      }),
+    ]);
+
+    if (movementsError) {
+      console.error('Error fetching balance sheet movements:', movementsError);
+      throw movementsError;
+    }
+    if (itemsError) {
+      console.error('Error fetching balance sheet items:', itemsError);
+      throw itemsError;
+    }
+    if (fixedAssetsError) {
+      console.error('Error fetching fixed assets:', fixedAssetsError);
+      throw fixedAssetsError;
+    }
+
+    let bankMovement = 0;
+    let capitalInjections = 0;
+    let drawings = 0;
+    (movements || []).forEach(row => {
+      const movement = cashMovement(row);
+      bankMovement += movement;
+      // Simplified expenses are paid personally, which is the same as the owner putting money in
+      if (row.simplified_expense) {
+        capitalInjections += Math.abs(parseFloat(String(row.amount)));
+        return;
+      }
+      if (row.type !== 'capital') return;
+      if (movement >= 0) capitalInjections += movement;
+      else drawings += Math.abs(movement);
+    });
+
+    return buildBalanceSheet({
+      asOf,
+      bankBalance: openingBalance + bankMovement,
+      items: (items || []) as BalanceSheetItem[],
+      fixedAssets: (fixedAssets || []) as FixedAsset[],
+      openingBalance,
+      capitalInjections,
+      drawings,
+      retainedProfit: pl.totals.net_operating_profit,
+    });
+  }
+
   // Private helper methods
   private aggregateCategoryData(transactions: { category_id: string; amount: string | number; categories: { id: string; name: string; type: string } }[], groupBy: string, hierarchyData: { category_id: string; category_hierarchies: { id: string; name: string; type: string } }[] = []): CategoryBreakdownData[] {
     const aggregated = new Map<string, CategoryBreakdownData>();
@@ -521,14 +737,17 @@ export class ReportDataEngine {
     return Array.from(monthly.values()).sort((a, b) => a.month_year.localeCompare(b.month_year));
   }
 
-  private calculateCashFlow(transactions: { amount: string | number; type: string; transaction_date: string; categories?: { capital_movement_type: string | null } | { capital_movement_type: string | null }[] | null }[], openingBalance: number = 0): CashFlowData[] {
-    const daily = new Map<string, { income: number; expenditure: number; capital_in: number; capital_out: number }>();
+  private calculateCashFlow(transactions: { amount: string | number; type: string; transaction_date: string; transfer_direction?: string | null; simplified_expense?: string | null; categories?: { capital_movement_type: string | null } | { capital_movement_type: string | null }[] | null }[], openingBalance: number = 0): CashFlowData[] {
+    const daily = new Map<string, { income: number; expenditure: number; capital_in: number; capital_out: number; transfers: number }>();
 
     transactions.forEach(transaction => {
+      // Simplified expense claims are paid personally, not from the bank
+      if (transaction.simplified_expense) return;
+
       const date = transaction.transaction_date;
 
       if (!daily.has(date)) {
-        daily.set(date, { income: 0, expenditure: 0, capital_in: 0, capital_out: 0 });
+        daily.set(date, { income: 0, expenditure: 0, capital_in: 0, capital_out: 0, transfers: 0 });
       }
 
       const item = daily.get(date)!;
@@ -538,6 +757,8 @@ export class ReportDataEngine {
         item.income += amount;
       } else if (transaction.type === 'expenditure') {
         item.expenditure += Math.abs(amount);
+      } else if (transaction.type === 'transfer') {
+        item.transfers += transaction.transfer_direction === 'out' ? -Math.abs(amount) : Math.abs(amount);
       } else if (transaction.type === 'capital') {
         // Supabase category joins return arrays — unwrap to single object
         const rawCategory = transaction.categories;
@@ -566,8 +787,8 @@ export class ReportDataEngine {
 
     Array.from(daily.entries())
       .sort(([a], [b]) => a.localeCompare(b))
-      .forEach(([date, { income, expenditure, capital_in, capital_out }]) => {
-        const netFlow = income + capital_in - expenditure - capital_out;
+      .forEach(([date, { income, expenditure, capital_in, capital_out, transfers }]) => {
+        const netFlow = income + capital_in - expenditure - capital_out + transfers;
         runningBalance += netFlow;
 
         cashFlow.push({
@@ -576,6 +797,7 @@ export class ReportDataEngine {
           expenditure,
           capital_in,
           capital_out,
+          transfers,
           net_flow: netFlow,
           running_balance: runningBalance,
         });
@@ -584,7 +806,7 @@ export class ReportDataEngine {
     return cashFlow;
   }
 
-  private processPLStructure(hierarchies: { id: string; name: string; type: string; display_order: number; category_hierarchy_assignments: { categories: { id: string; name: string; transactions: { amount: string | number; transaction_date: string }[] } }[] }[], dateRange: { start: Date; end: Date }): CategoryBreakdownData[] {
+  private processPLStructure(hierarchies: PLHierarchyRow[], dateRange: { start: Date; end: Date }): CategoryBreakdownData[] {
     const startDate = dateRange.start.toISOString().split('T')[0];
     const endDate = dateRange.end.toISOString().split('T')[0];
 
@@ -594,6 +816,8 @@ export class ReportDataEngine {
 
       hierarchy.category_hierarchy_assignments?.forEach(assignment => {
         assignment.categories?.transactions?.forEach(transaction => {
+          if (transaction.type === 'transfer') return;
+          if (transaction.fixed_asset_id) return;
           if (transaction.transaction_date >= startDate && transaction.transaction_date <= endDate) {
             totalAmount += parseFloat(String(transaction.amount));
             transactionCount += 1;
@@ -614,7 +838,46 @@ export class ReportDataEngine {
     });
   }
 
-  private processHierarchicalPLData(hierarchies: { id: string; name: string; type: string; display_order: number; category_hierarchy_assignments: { categories: { id: string; name: string; color?: string; capital_movement_type?: 'injection' | 'drawing' | null; transactions: { id: string; amount: string | number; transaction_date: string; description: string; type: string }[] } }[] }[], dateRange: { start: Date; end: Date }, uncategorizedTransactions: { id: string; amount: string | number; transaction_date: string; description: string; type: string }[] = []): HierarchicalPLData {
+  // Add fixed asset entries to their depreciation category as expenditure. A profit on
+  // disposal is a negative charge, so it reduces that category's total.
+  private addFixedAssetEntries(
+    hierarchies: PLHierarchyRow[],
+    entries: FixedAssetEntryRow[]
+  ): PLHierarchyRow[] {
+    if (entries.length === 0) return hierarchies;
+
+    return hierarchies.map(hierarchy => ({
+      ...hierarchy,
+      category_hierarchy_assignments: hierarchy.category_hierarchy_assignments?.map(assignment => {
+        const category = assignment.categories;
+        if (!category) return assignment;
+
+        const categoryEntries = entries.filter(entry => entry.fixed_assets?.depreciation_category_id === category.id);
+        if (categoryEntries.length === 0) return assignment;
+
+        return {
+          ...assignment,
+          categories: {
+            ...category,
+            transactions: [
+              ...(category.transactions || []),
+              ...categoryEntries.map(entry => ({
+                id: `fixed-asset-entry-${entry.id}`,
+                amount: entry.amount,
+                transaction_date: entry.entry_date,
+                description: `${fixedAssetEntryLabel(entry.entry_type, Number(entry.amount))} - ${entry.fixed_assets?.name ?? 'Fixed asset'}`,
+                type: 'expenditure',
+                // Depreciation is added back in full for tax, so it never counts as disallowable too
+                business_use_percent: 100,
+              })),
+            ],
+          },
+        };
+      }),
+    }));
+  }
+
+  private processHierarchicalPLData(hierarchies: PLHierarchyRow[], dateRange: { start: Date; end: Date }, uncategorizedTransactions: Omit<PLTransactionRow, 'fixed_asset_id' | 'simplified_expense'>[] = []): HierarchicalPLData {
     const startDate = dateRange.start.toISOString().split('T')[0];
     const endDate = dateRange.end.toISOString().split('T')[0];
 
@@ -624,11 +887,14 @@ export class ReportDataEngine {
 
     let totalIncome = 0;
     let totalExpenditure = 0;
+    let totalDisallowable = 0;
     let totalCapital = 0;
+    let paidPersonally = 0;
 
     hierarchies.forEach(hierarchy => {
       const categories: CategoryInHierarchy[] = [];
       let hierarchyTotal = 0;
+      let hierarchyDisallowable = 0;
 
       hierarchy.category_hierarchy_assignments?.forEach(assignment => {
         const category = assignment.categories;
@@ -636,17 +902,29 @@ export class ReportDataEngine {
 
         const transactions: TransactionInCategory[] = [];
         let categoryTotal = 0;
+        let categoryDisallowable = 0;
         let transactionCount = 0;
 
         category.transactions?.forEach(transaction => {
+          // Transfers between our own accounts are neither income nor expenditure
+          if (transaction.type === 'transfer') return;
+          // Capitalised purchases and asset sale proceeds are replaced by depreciation and disposal entries
+          if (transaction.fixed_asset_id) return;
+
           if (transaction.transaction_date >= startDate && transaction.transaction_date <= endDate) {
             const amount = parseFloat(String(transaction.amount));
+            const disallowable = transaction.type === 'expenditure' ? disallowablePortion(amount, transaction, category) : 0;
             categoryTotal += amount;
+            categoryDisallowable += disallowable;
             transactionCount += 1;
+            if (transaction.simplified_expense && transaction.type === 'expenditure') {
+              paidPersonally += Math.abs(amount);
+            }
 
             transactions.push({
               id: transaction.id,
               amount: amount,
+              disallowable_amount: disallowable,
               date: transaction.transaction_date,
               description: transaction.description || '',
               type: transaction.type,
@@ -661,11 +939,13 @@ export class ReportDataEngine {
             color: category.color,
             capital_movement_type: category.capital_movement_type,
             total_amount: categoryTotal,
+            disallowable_amount: categoryDisallowable,
             transaction_count: transactionCount,
             transactions: transactions,
           });
 
           hierarchyTotal += categoryTotal;
+          hierarchyDisallowable += categoryDisallowable;
         }
       });
 
@@ -675,6 +955,7 @@ export class ReportDataEngine {
           name: hierarchy.name,
           type: hierarchy.type as 'income' | 'expenditure' | 'capital',
           total_amount: hierarchyTotal,
+          disallowable_amount: hierarchyDisallowable,
           categories: categories,
           display_order: hierarchy.display_order || 0,
         };
@@ -688,6 +969,7 @@ export class ReportDataEngine {
             expenditure.push(hierarchySection);
             // Expenditure should be positive for display but subtracted in net calculation
             totalExpenditure += Math.abs(hierarchyTotal);
+            totalDisallowable += hierarchyDisallowable;
             break;
           case 'capital':
             capital.push(hierarchySection);
@@ -706,6 +988,7 @@ export class ReportDataEngine {
 
     let uncategorizedIncome = 0;
     let uncategorizedExpenditure = 0;
+    let uncategorizedDisallowable = 0;
     let uncategorizedCapital = 0;
 
     uncategorizedTransactions.forEach(transaction => {
@@ -713,6 +996,7 @@ export class ReportDataEngine {
       const transactionItem: TransactionInCategory = {
         id: transaction.id,
         amount: amount,
+        disallowable_amount: transaction.type === 'expenditure' ? disallowablePortion(amount, transaction) : 0,
         date: transaction.transaction_date,
         description: transaction.description || '',
         type: transaction.type,
@@ -726,6 +1010,7 @@ export class ReportDataEngine {
         case 'expenditure':
           uncategorizedByType.expenditure.push(transactionItem);
           uncategorizedExpenditure += Math.abs(amount);
+          uncategorizedDisallowable += transactionItem.disallowable_amount;
           break;
         case 'capital':
           uncategorizedByType.capital.push(transactionItem);
@@ -743,11 +1028,13 @@ export class ReportDataEngine {
         name: '🔍 Uncategorized Income',
         type: 'income',
         total_amount: uncategorizedIncome,
+        disallowable_amount: 0,
         categories: [{
           id: 'uncategorized-income-category',
           name: 'Uncategorized Income Items',
           color: '#FFA500',
           total_amount: uncategorizedIncome,
+          disallowable_amount: 0,
           transaction_count: uncategorizedByType.income.length,
           transactions: uncategorizedByType.income,
         }],
@@ -762,17 +1049,20 @@ export class ReportDataEngine {
         name: '🔍 Uncategorized Expenditure',
         type: 'expenditure',
         total_amount: uncategorizedExpenditure,
+        disallowable_amount: uncategorizedDisallowable,
         categories: [{
           id: 'uncategorized-expenditure-category',
           name: 'Uncategorized Expenditure Items',
           color: '#FF6B6B',
           total_amount: uncategorizedExpenditure,
+          disallowable_amount: uncategorizedDisallowable,
           transaction_count: uncategorizedByType.expenditure.length,
           transactions: uncategorizedByType.expenditure,
         }],
         display_order: 999, // Show at the end
       });
       totalExpenditure += uncategorizedExpenditure;
+      totalDisallowable += uncategorizedDisallowable;
     }
 
     if (uncategorizedByType.capital.length > 0) {
@@ -781,11 +1071,13 @@ export class ReportDataEngine {
         name: '🔍 Uncategorized Capital',
         type: 'capital',
         total_amount: uncategorizedCapital,
+        disallowable_amount: 0,
         categories: [{
           id: 'uncategorized-capital-category',
           name: 'Uncategorized Capital Items',
           color: '#9B59B6',
           total_amount: uncategorizedCapital,
+          disallowable_amount: 0,
           transaction_count: uncategorizedByType.capital.length,
           transactions: uncategorizedByType.capital,
         }],
@@ -827,8 +1119,9 @@ export class ReportDataEngine {
       });
     });
     
-    // Calculate final bank position: Net Operating Profit + Capital Injections - Director Drawings
-    const profitAfterCapitalMovements = netOperatingProfit + capitalInjections - directorDrawings;
+    // Calculate final bank position: Net Operating Profit + Capital Injections - Director Drawings.
+    // Simplified expense claims are paid personally, so they come off profit but not the bank.
+    const profitAfterCapitalMovements = netOperatingProfit + capitalInjections - directorDrawings + paidPersonally;
 
     return {
       income,
@@ -838,6 +1131,7 @@ export class ReportDataEngine {
         total_income: totalIncome,
         total_expenditure: totalExpenditure,
         net_operating_profit: netOperatingProfit,
+        total_disallowable: Math.round(totalDisallowable * 100) / 100,
         total_capital_movements: totalCapital,
         profit_after_capital_movements: profitAfterCapitalMovements,
       },
@@ -879,6 +1173,10 @@ export class ReportDataEngine {
     page: number = 1,
     pageSize: number = 100
   ): Promise<import('./reports-types').DrillDownData> {
+    if (context.transactions) {
+      return this.paginateDrillDownTransactions(context.transactions, filters, page, pageSize);
+    }
+
     try {
       // Build base query
       let query = this.supabase
@@ -895,6 +1193,8 @@ export class ReportDataEngine {
             name
           )
         `, { count: 'exact' })
+        .neq('type', 'transfer')
+        .is('fixed_asset_id', null)
         .gte('transaction_date', context.dateRange.start.toISOString().split('T')[0])
         .lte('transaction_date', context.dateRange.end.toISOString().split('T')[0]);
 
@@ -1042,6 +1342,43 @@ export class ReportDataEngine {
     }
   }
 
+  // Same filters and paging as the database path, applied to a preloaded list
+  private paginateDrillDownTransactions(
+    transactions: import('./reports-types').TransactionDetail[],
+    filters: import('./reports-types').DrillDownFilters | undefined,
+    page: number,
+    pageSize: number
+  ): import('./reports-types').DrillDownData {
+    const search = filters?.searchText?.toLowerCase();
+    const from = filters?.dateRange?.start.toISOString().split('T')[0];
+    const to = filters?.dateRange?.end.toISOString().split('T')[0];
+
+    const filtered = transactions
+      .filter(tx => !search || tx.description.toLowerCase().includes(search))
+      .filter(tx => filters?.amountRange?.min === undefined || tx.amount >= filters.amountRange.min)
+      .filter(tx => filters?.amountRange?.max === undefined || tx.amount <= filters.amountRange.max)
+      .filter(tx => !from || !to || (tx.date >= from && tx.date <= to))
+      .sort((a, b) => b.date.localeCompare(a.date));
+
+    const total = filtered.reduce((sum, tx) => sum + tx.amount, 0);
+    const start = (page - 1) * pageSize;
+
+    return {
+      summary: {
+        total,
+        count: filtered.length,
+        average: filtered.length > 0 ? total / filtered.length : 0,
+      },
+      transactions: filtered.slice(start, start + pageSize),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(filtered.length / pageSize),
+        pageSize,
+        totalCount: filtered.length,
+      },
+    };
+  }
+
   private calculateHierarchyComparison(
     current: HierarchicalPLData,
     previous: HierarchicalPLData
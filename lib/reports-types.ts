@@ -31,6 +31,24 @@ export interface ScheduledReport {
   created_at: string;
 }
 
+export type ScheduledReportRunStatus = 'running' | 'success' | 'failed';
+
+export interface ScheduledReportRun {
+  id: string;
+  scheduled_report_id: string;
+  status: ScheduledReportRunStatus;
+  started_at: string;
+  finished_at?: string;
+  period_start?: string;
+  period_end?: string;
+  formats: ExportFormat[];
+  recipients: string[];
+  transport?: string;
+  delivery_reference?: string;
+  error_message?: string;
+  created_at: string;
+}
+
 export interface ReportConfig {
   type: ReportType;
   sections: ReportSection[];
@@ -415,6 +433,8 @@ export interface DrillDownContext {
   type: 'income' | 'expenditure' | 'capital';
   hierarchyName?: string;
   categoryName?: string;
+  /** Transactions already worked out by the report (e.g. a VAT box); used instead of a category or hierarchy query */
+  transactions?: TransactionDetail[];
 }
 
 export interface DrillDownData {
@@ -10,6 +10,7 @@ import {
   parseRevolutAmount,
   isIncomeTransaction
 } from './revolut-types';
+import { TransferMatcher } from './transfer-matcher';
 
 export class RevolutCSVParser {
   private static readonly REQUIRED_HEADERS = [
@@ -25,6 +26,18 @@ export class RevolutCSVParser {
     'Balance'
   ];
 
+  // Revolut Business exports use their own layout; 'Date started (UTC)' and 'ID' tell it apart
+  private static readonly BUSINESS_REQUIRED_HEADERS = [
+    'Date started (UTC)',
+    'Date completed (UTC)',
+    'ID',
+    'Type',
+    'State',
+    'Description',
+    'Amount',
+    'Balance'
+  ];
+
   /**
    * Parse CSV text content into Revolut transactions
    */
@@ -35,8 +48,9 @@ export class RevolutCSVParser {
       throw new Error('CSV file must contain at least a header row and one data row');
     }
 
-    const headers = this.parseCSVRow(lines[0]);
+    const headers = this.parseCSVRow(lines[0].replace(/^\uFEFF/, ''));
     this.validateHeaders(headers);
+    const isBusiness = this.isBusinessLayout(headers);
 
     const transactions: RevolutTransaction[] = [];
     
@@ -44,7 +58,9 @@ export class RevolutCSVParser {
       try {
         const row = this.parseCSVRow(lines[i]);
         const csvRow = this.mapRowToObject(headers, row);
-        const transaction = this.parseTransaction(csvRow);
+        const transaction = isBusiness
+          ? this.parseBusinessTransaction(csvRow as unknown as Record<string, string>)
+          : this.parseTransaction(csvRow);
         
         // Only include completed transactions for now
         if (transaction.state === 'COMPLETED') {
@@ -84,12 +100,20 @@ export class RevolutCSVParser {
     return result;
   }
 
+  /**
+   * Whether the headers are a Revolut Business export rather than a personal one
+   */
+  static isBusinessLayout(headers: string[]): boolean {
+    return headers.includes('Date started (UTC)') && headers.includes('ID');
+  }
+
   /**
    * Validate that all required headers are present
    */
   private static validateHeaders(headers: string[]): void {
-    const missingHeaders = this.REQUIRED_HEADERS.filter(
-      required => !headers.includes(required)
+    const required = this.isBusinessLayout(headers) ? this.BUSINESS_REQUIRED_HEADERS : this.REQUIRED_HEADERS;
+    const missingHeaders = required.filter(
+      header => !headers.includes(header)
     );
     
     if (missingHeaders.length > 0) {
@@ -147,6 +171,68 @@ export class RevolutCSVParser {
     };
   }
 
+  /**
+   * Parse a Revolut Business row. The Revolut ID is kept as the FITID so re-imports
+   * dedupe on it exactly, and the payer (money in) or beneficiary (money out) is
+   * kept as the counterparty. Orig amount and Exchange rate only describe the
+   * foreign-currency leg; Amount is already in the account's currency.
+   */
+  private static parseBusinessTransaction(row: Record<string, string>): RevolutTransaction {
+    const state = this.mapBusinessState(row.State);
+    const amount = parseRevolutAmount(row.Amount);
+    const description = row.Description || row.Reference || '';
+
+    return {
+      type: this.mapBusinessType(row.Type, amount),
+      product: row.Account || 'Revolut Business',
+      startedDate: this.parseBusinessDate(row['Date started (UTC)']),
+      completedDate: row['Date completed (UTC)'] ? this.parseBusinessDate(row['Date completed (UTC)']) : null,
+      description,
+      amount,
+      fee: parseRevolutAmount(row.Fee),
+      currency: row['Payment currency'] || row.Currency || '',
+      state,
+      // Pending rows have no balance yet
+      balance: row.Balance ? parseRevolutAmount(row.Balance) : NaN,
+      fitid: row.ID || undefined,
+      counterparty: (amount > 0 ? row.Payer : description.replace(/^To\s+/i, '')) || undefined,
+      remittanceInfo: row.Reference || undefined
+    };
+  }
+
+  /**
+   * Business exports add types the personal layout doesn't have. Anything
+   * without a fixed direction becomes TRANSFER so it follows the amount's sign.
+   */
+  private static mapBusinessType(value: string, amount: number): RevolutTransactionType {
+    const type = value.toUpperCase().replace(/\s+/g, '_');
+    if (type === 'REFUND') return 'CARD_REFUND';
+    if (type === 'FEE' && amount > 0) return 'TRANSFER';
+    if (this.isValidTransactionType(type)) return type;
+    return 'TRANSFER';
+  }
+
+  /**
+   * Declined and failed payments never moved money, so they're treated as reverted
+   */
+  private static mapBusinessState(value: string): RevolutTransactionState {
+    const state = value.toUpperCase();
+    if (this.isValidTransactionState(state)) return state;
+    if (state === 'DECLINED' || state === 'FAILED') return 'REVERTED';
+    throw new Error(`Invalid transaction state: ${state}`);
+  }
+
+  /**
+   * Business dates are YYYY-MM-DD, optionally with a time. Date-only values are
+   * placed at midday so they don't shift a day across timezones.
+   */
+  private static parseBusinessDate(value: string): Date {
+    const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return parseRevolutDate(value);
+    const [, year, month, day] = match;
+    return new Date(Number(year), Number(month) - 1, Number(day), 12);
+  }
+
   /**
    * Check if transaction type is valid
    */
@@ -182,7 +268,8 @@ export class RevolutCSVParser {
         transactionTypes: {} as Record<RevolutTransactionType, number>,
         totalAmount: 0,
         incomeAmount: 0,
-        expenditureAmount: 0
+        expenditureAmount: 0,
+        transferAmount: 0
       };
     }
 
@@ -197,11 +284,15 @@ export class RevolutCSVParser {
       transactionTypes: {} as Record<RevolutTransactionType, number>,
       totalAmount: 0,
       incomeAmount: 0,
-      expenditureAmount: 0
+      expenditureAmount: 0,
+      transferAmount: 0
     };
 
+    // Money moving between products would otherwise count as both income and expenditure
+    const transferIndexes = this.findTransferIndexes(transactions);
+
     // Count transaction types and calculate amounts
-    transactions.forEach(transaction => {
+    transactions.forEach((transaction, index) => {
       // Count types
       stats.transactionTypes[transaction.type] = 
         (stats.transactionTypes[transaction.type] || 0) + 1;
@@ -211,7 +302,9 @@ export class RevolutCSVParser {
         const absAmount = Math.abs(transaction.amount);
         stats.totalAmount += absAmount;
 
-        if (isIncomeTransaction(transaction)) {
+        if (transferIndexes.has(index)) {
+          stats.transferAmount += absAmount;
+        } else if (isIncomeTransaction(transaction)) {
           stats.incomeAmount += absAmount;
         } else {
           stats.expenditureAmount += absAmount;
@@ -222,6 +315,29 @@ export class RevolutCSVParser {
     return stats;
   }
 
+  /**
+   * Indexes of completed transactions that pair up as transfers between products
+   */
+  private static findTransferIndexes(transactions: RevolutTransaction[]): Set<number> {
+    const candidates = transactions
+      .map((transaction, index) => ({ transaction, index }))
+      .filter(({ transaction }) => transaction.state === 'COMPLETED')
+      .map(({ transaction, index }) => ({
+        id: String(index),
+        amount: transaction.amount,
+        date: transaction.startedDate.toISOString().split('T')[0],
+        accountKey: transaction.product || null,
+        description: transaction.description
+      }));
+
+    const indexes = new Set<number>();
+    TransferMatcher.findPairs(candidates).forEach(pair => {
+      indexes.add(Number(pair.outgoing.id));
+      indexes.add(Number(pair.incoming.id));
+    });
+    return indexes;
+  }
+
   /**
    * Filter transactions by date range
    */
@@ -295,14 +411,14 @@ export class RevolutCSVParser {
         }
 
         try {
-          // Basic validation - check if it looks like a Revolut CSV
+          // Basic validation - check if it looks like a Revolut personal or Business CSV
           const lines = content.trim().split('\n');
           if (lines.length < 2) {
             reject(new Error('CSV file appears to be empty or invalid'));
             return;
           }
 
-          const headers = this.parseCSVRow(lines[0]);
+          const headers = this.parseCSVRow(lines[0].replace(/^\uFEFF/, ''));
           this.validateHeaders(headers);
           
           resolve(content);
@@ -24,6 +24,12 @@ export interface RevolutTransaction {
   currency: string;
   state: RevolutTransactionState;
   balance: number;
+  /** The bank's own id for the row (OFX FITID), where the format has one */
+  fitid?: string;
+  /** Structured statement details (CAMT.053, MT940), kept apart from the description */
+  counterparty?: string;
+  remittanceInfo?: string;
+  endToEndId?: string;
 }
 
 export type RevolutTransactionType = 
@@ -66,6 +72,12 @@ export interface ImportedTransaction {
   verified: boolean;
   verification_note: string | null;
   notes: string | null;
+  import_batch_id?: string | null;
+  bank_account_id?: string | null;
+  fitid?: string | null;
+  counterparty_name?: string | null;
+  remittance_info?: string | null;
+  end_to_end_id?: string | null;
   created_at: string;
   updated_at: string;
   // Fields from matched_transactions_view
@@ -113,6 +125,7 @@ export interface MatchingResult {
   lowConfidenceMatches: number;
   unmatched: number;
   matches: TransactionMatch[];
+  importBatchId?: string;
 }
 
 export interface RevolutImportStats {
@@ -127,6 +140,8 @@ export interface RevolutImportStats {
   totalAmount: number;
   incomeAmount: number;
   expenditureAmount: number;
+  /** Movements between products (e.g. current account and savings) - excluded from income and expenditure */
+  transferAmount: number;
 }
 
 // Utility functions for transaction type mapping
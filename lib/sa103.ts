@@ -0,0 +1,351 @@
+// SA103
+// Self-employment form boxes, category/hierarchy box assignments and per-box totals
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { HierarchicalPLData } from './reports-data-engine';
+
+export type Sa103Form = 'short' | 'full';
+
+export type Sa103Line =
+  | 'turnover'
+  | 'other_income'
+  | 'cost_of_goods'
+  | 'subcontractors'
+  | 'staff'
+  | 'travel'
+  | 'premises'
+  | 'repairs'
+  | 'admin'
+  | 'advertising'
+  | 'interest'
+  | 'financial_charges'
+  | 'bad_debts'
+  | 'professional_fees'
+  | 'depreciation'
+  | 'other_expenses';
+
+export interface Sa103LineDefinition {
+  line: Sa103Line;
+  kind: 'income' | 'expense';
+  label: string;
+  /** SA103F box; expense boxes 17-30 have a disallowable twin 15 boxes later */
+  fullBox: number;
+  /** SA103S box, null where the short form has no allowable equivalent */
+  shortBox: number | null;
+  /** Never allowable, so the whole amount also goes in the full form's disallowable box */
+  alwaysDisallowable?: boolean;
+}
+
+export interface Sa103Mappings {
+  categories: Record<string, Sa103Line | null>;
+  hierarchies: Record<string, Sa103Line | null>;
+}
+
+export interface Sa103BoxCategory {
+  id: string;
+  name: string;
+  amount: number;
+  /** True when the box comes from the category's hierarchy rather than the category itself */
+  fromHierarchy: boolean;
+}
+
+/** Expense claimed outside the accounts, such as a simplified expenses flat rate */
+export interface Sa103ExtraExpense {
+  id: string;
+  name: string;
+  line: Sa103Line;
+  amount: number;
+}
+
+export interface Sa103BoxTotal {
+  box: number;
+  label: string;
+  kind: 'income' | 'expense';
+  amount: number;
+  /** Full form only: the disallowable box and amount alongside this expense box */
+  disallowableBox: number | null;
+  disallowable: number;
+  categories: Sa103BoxCategory[];
+}
+
+export interface Sa103UnmappedCategory {
+  id: string;
+  name: string;
+  hierarchyName: string;
+  kind: 'income' | 'expense';
+  amount: number;
+}
+
+export interface Sa103Summary {
+  form: Sa103Form;
+  boxes: Sa103BoxTotal[];
+  totalIncome: number;
+  /** Allowable expenses - SA103S box 20 / SA103F box 31 less box 46 */
+  totalAllowableExpenses: number;
+  /** The total expenses box: allowable only on SA103S, disallowable included on SA103F */
+  totalExpenses: number;
+  totalExpensesBox: number;
+  totalDisallowable: number;
+  totalDisallowableBox: number | null;
+  /** Income less the total expenses box; negative for a loss. SA103F adds disallowables back in box 46 */
+  netProfit: number;
+  netProfitBox: number;
+  netLossBox: number;
+  unmapped: Sa103UnmappedCategory[];
+}
+
+export const SA103_LINES: Sa103LineDefinition[] = [
+  { line: 'turnover', kind: 'income', label: 'Turnover - takings, fees, sales or money earned', fullBox: 15, shortBox: 9 },
+  { line: 'other_income', kind: 'income', label: 'Any other business income', fullBox: 16, shortBox: 10 },
+  { line: 'cost_of_goods', kind: 'expense', label: 'Cost of goods bought for resale or goods used', fullBox: 17, shortBox: 11 },
+  { line: 'subcontractors', kind: 'expense', label: 'Construction industry - payments to subcontractors', fullBox: 18, shortBox: 19 },
+  { line: 'staff', kind: 'expense', label: 'Wages, salaries and other staff costs', fullBox: 19, shortBox: 13 },
+  { line: 'travel', kind: 'expense', label: 'Car, van and travel expenses', fullBox: 20, shortBox: 12 },
+  { line: 'premises', kind: 'expense', label: 'Rent, rates, power and insurance costs', fullBox: 21, shortBox: 14 },
+  { line: 'repairs', kind: 'expense', label: 'Repairs and maintenance of property and equipment', fullBox: 22, shortBox: 15 },
+  { line: 'admin', kind: 'expense', label: 'Phone, fax, stationery and other office costs', fullBox: 23, shortBox: 18 },
+  { line: 'advertising', kind: 'expense', label: 'Advertising and business entertainment costs', fullBox: 24, shortBox: 19 },
+  { line: 'interest', kind: 'expense', label: 'Interest on bank and other loans', fullBox: 25, shortBox: 17 },
+  { line: 'financial_charges', kind: 'expense', label: 'Bank, credit card and other financial charges', fullBox: 26, shortBox: 17 },
+  { line: 'bad_debts', kind: 'expense', label: 'Irrecoverable debts written off', fullBox: 27, shortBox: 19 },
+  { line: 'professional_fees', kind: 'expense', label: 'Accountancy, legal and other professional fees', fullBox: 28, shortBox: 16 },
+  { line: 'depreciation', kind: 'expense', label: 'Depreciation and loss/profit on sale of assets', fullBox: 29, shortBox: null, alwaysDisallowable: true },
+  { line: 'other_expenses', kind: 'expense', label: 'Other business expenses', fullBox: 30, shortBox: 19 },
+];
+
+/** Short form boxes that combine several full form lines */
+const SHORT_BOX_LABELS: Record<number, string> = {
+  9: 'Turnover - takings, fees, sales or money earned',
+  10: 'Any other business income',
+  11: 'Cost of goods bought for resale or goods used',
+  12: 'Car, van and travel expenses',
+  13: 'Wages, salaries and other staff costs',
+  14: 'Rent, rates, power and insurance costs',
+  15: 'Repairs and maintenance of property and equipment',
+  16: 'Accountancy, legal and other professional fees',
+  17: 'Interest and bank and credit card etc. financial charges',
+  18: 'Phone, fax, stationery and other office costs',
+  19: 'Other allowable business expenses',
+};
+
+/** Short names for pickers, where the box number depends on the form */
+export const SA103_LINE_LABELS: Record<Sa103Line, string> = {
+  turnover: 'Turnover',
+  other_income: 'Other business income',
+  cost_of_goods: 'Cost of goods',
+  subcontractors: 'CIS subcontractors',
+  staff: 'Staff costs',
+  travel: 'Car, van and travel',
+  premises: 'Premises',
+  repairs: 'Repairs',
+  admin: 'Office costs',
+  advertising: 'Advertising',
+  interest: 'Loan interest',
+  financial_charges: 'Financial charges',
+  bad_debts: 'Bad debts',
+  professional_fees: 'Professional fees',
+  depreciation: 'Depreciation',
+  other_expenses: 'Other expenses',
+};
+
+export const SA103_FORM_LABELS: Record<Sa103Form, string> = {
+  short: 'SA103S (short)',
+  full: 'SA103F (full)',
+};
+
+const FULL_DISALLOWABLE_OFFSET = 15;
+
+const roundPence = (value: number) => Math.round(value * 100) / 100;
+
+export function getSa103Line(line: Sa103Line): Sa103LineDefinition {
+  return SA103_LINES.find(definition => definition.line === line)!;
+}
+
+/** Picker label, with the box number when the form is known */
+export function sa103LineOptionLabel(line: Sa103Line, form?: Sa103Form): string {
+  if (!form) return SA103_LINE_LABELS[line];
+  const definition = getSa103Line(line);
+  const box = form === 'full' ? definition.fullBox : definition.shortBox;
+  return box === null ? `${SA103_LINE_LABELS[line]} (not on SA103S)` : `${SA103_LINE_LABELS[line]} (box ${box})`;
+}
+
+/**
+ * Box a category's amount goes in: its own assignment, else its hierarchy's
+ */
+export function resolveSa103Line(
+  categoryId: string,
+  hierarchyId: string,
+  mappings: Sa103Mappings
+): { line: Sa103Line; fromHierarchy: boolean } | null {
+  const own = mappings.categories[categoryId];
+  if (own) return { line: own, fromHierarchy: false };
+  const inherited = mappings.hierarchies[hierarchyId];
+  return inherited ? { line: inherited, fromHierarchy: true } : null;
+}
+
+/**
+ * Per-box totals for one form from the year's P&L. Categories with no box of
+ * their own or from their hierarchy (and uncategorised transactions) are left
+ * out of every box and listed as unmapped. Private-use and disallowable parts
+ * of expenses go in the full form's disallowable boxes and are left off the
+ * short form. Extra expenses are added to their line's box as they are.
+ */
+export function buildSa103Summary(
+  data: HierarchicalPLData,
+  mappings: Sa103Mappings,
+  form: Sa103Form,
+  extraExpenses: Sa103ExtraExpense[] = []
+): Sa103Summary {
+  const boxes = new Map<number, Sa103BoxTotal>();
+  const unmapped: Sa103UnmappedCategory[] = [];
+
+  SA103_LINES.forEach(definition => {
+    const box = form === 'full' ? definition.fullBox : definition.shortBox;
+    if (box === null || boxes.has(box)) return;
+    boxes.set(box, {
+      box,
+      label: form === 'full' ? definition.label : SHORT_BOX_LABELS[box],
+      kind: definition.kind,
+      amount: 0,
+      disallowableBox: form === 'full' && definition.kind === 'expense' ? box + FULL_DISALLOWABLE_OFFSET : null,
+      disallowable: 0,
+      categories: [],
+    });
+  });
+
+  const sections: ['income' | 'expense', HierarchicalPLData['income']][] = [
+    ['income', data.income],
+    ['expense', data.expenditure],
+  ];
+
+  sections.forEach(([kind, hierarchies]) => {
+    hierarchies.forEach(hierarchy => {
+      hierarchy.categories.forEach(category => {
+        if (category.total_amount === 0) return;
+
+        const resolved = resolveSa103Line(category.id, hierarchy.id, mappings);
+        const definition = resolved ? getSa103Line(resolved.line) : null;
+        if (!resolved || !definition || definition.kind !== kind) {
+          unmapped.push({ id: category.id, name: category.name, hierarchyName: hierarchy.name, kind, amount: category.total_amount });
+          return;
+        }
+
+        // Depreciation isn't claimable on the short form; it's reversed out with the capital allowances instead
+        const boxNumber = form === 'full' ? definition.fullBox : definition.shortBox;
+        if (boxNumber === null) return;
+
+        // The full form shows the whole cost with the disallowable part alongside; the short form only wants the allowable part
+        const disallowable = definition.alwaysDisallowable ? category.total_amount : category.disallowable_amount;
+        const box = boxes.get(boxNumber)!;
+        if (form === 'full') {
+          box.amount = roundPence(box.amount + category.total_amount);
+          box.disallowable = roundPence(box.disallowable + disallowable);
+        } else {
+          box.amount = roundPence(box.amount + category.total_amount - disallowable);
+        }
+        box.categories.push({
+          id: category.id,
+          name: category.name,
+          amount: category.total_amount,
+          fromHierarchy: resolved.fromHierarchy,
+        });
+      });
+    });
+  });
+
+  extraExpenses.forEach(extra => {
+    const definition = getSa103Line(extra.line);
+    const boxNumber = form === 'full' ? definition.fullBox : definition.shortBox;
+    if (extra.amount === 0 || boxNumber === null) return;
+
+    const box = boxes.get(boxNumber)!;
+    box.amount = roundPence(box.amount + extra.amount);
+    box.categories.push({ id: extra.id, name: extra.name, amount: extra.amount, fromHierarchy: false });
+  });
+
+  const boxList = Array.from(boxes.values()).sort((a, b) => a.box - b.box);
+  const sum = (values: number[]) => roundPence(values.reduce((total, value) => total + value, 0));
+  const expenses = boxList.filter(box => box.kind === 'expense');
+  const totalDisallowable = sum(expenses.map(box => box.disallowable));
+  const totalIncome = sum(boxList.filter(box => box.kind === 'income').map(box => box.amount));
+  const totalExpenses = sum(expenses.map(box => box.amount));
+  const totalAllowableExpenses = roundPence(totalExpenses - totalDisallowable);
+
+  return {
+    form,
+    boxes: boxList,
+    totalIncome,
+    totalAllowableExpenses,
+    totalExpenses,
+    totalExpensesBox: form === 'full' ? 31 : 20,
+    totalDisallowable,
+    totalDisallowableBox: form === 'full' ? 46 : null,
+    netProfit: roundPence(totalIncome - totalExpenses),
+    netProfitBox: form === 'full' ? 47 : 21,
+    netLossBox: form === 'full' ? 48 : 22,
+    unmapped,
+  };
+}
+
+/**
+ * Box-by-box CSV for copying figures into the return
+ */
+export function sa103SummaryToCsv(summary: Sa103Summary, taxYearLabel: string): string {
+  const rows: string[] = [];
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+  rows.push(`${SA103_FORM_LABELS[summary.form]} - Tax Year ${taxYearLabel}`);
+  rows.push(summary.form === 'full' ? 'Box,Description,Amount,Disallowable Box,Disallowable' : 'Box,Description,Amount');
+  summary.boxes.forEach(box => {
+    const base = `${box.box},${quote(box.label)},${box.amount.toFixed(2)}`;
+    rows.push(
+      summary.form === 'full' && box.disallowableBox !== null
+        ? `${base},${box.disallowableBox},${box.disallowable.toFixed(2)}`
+        : base
+    );
+  });
+
+  rows.push(
+    summary.form === 'full'
+      ? `${summary.totalExpensesBox},Total expenses,${summary.totalExpenses.toFixed(2)},${summary.totalDisallowableBox},${summary.totalDisallowable.toFixed(2)}`
+      : `${summary.totalExpensesBox},Total allowable expenses,${summary.totalExpenses.toFixed(2)}`
+  );
+  rows.push(
+    summary.netProfit >= 0
+      ? `${summary.netProfitBox},Net profit,${summary.netProfit.toFixed(2)}`
+      : `${summary.netLossBox},Net loss,${Math.abs(summary.netProfit).toFixed(2)}`
+  );
+
+  if (summary.unmapped.length > 0) {
+    rows.push('');
+    rows.push('UNMAPPED CATEGORIES (not included above)');
+    rows.push('Hierarchy,Category,Type,Amount');
+    summary.unmapped.forEach(category => {
+      rows.push(`${quote(category.hierarchyName)},${quote(category.name)},${category.kind},${category.amount.toFixed(2)}`);
+    });
+  }
+
+  return rows.join('\n');
+}
+
+/**
+ * Box assignments for every category and hierarchy
+ */
+export async function fetchSa103Mappings(supabase: SupabaseClient): Promise<Sa103Mappings> {
+  const [categories, hierarchies] = await Promise.all([
+    supabase.from('categories').select('id, sa103_box'),
+    supabase.from('category_hierarchies').select('id, sa103_box'),
+  ]);
+
+  if (categories.error) {
+    throw new Error(`Failed to fetch category SA103 boxes: ${categories.error.message}`);
+  }
+  if (hierarchies.error) {
+    throw new Error(`Failed to fetch hierarchy SA103 boxes: ${hierarchies.error.message}`);
+  }
+
+  return {
+    categories: Object.fromEntries((categories.data || []).map(row => [row.id, row.sa103_box])),
+    hierarchies: Object.fromEntries((hierarchies.data || []).map(row => [row.id, row.sa103_box])),
+  };
+}
@@ -0,0 +1,336 @@
+// Scheduled Report Runner
+// Purpose: Execute due scheduled_reports, deliver the output and record run history
+// Part of: Scheduled report runner (called from /api/reports/scheduled/run)
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ReportDataEngine, type FlexibleReportConfig, type HierarchySection } from './reports-data-engine';
+import { ReportRenderer, type ReportDocument, type RenderedReport } from './report-export';
+import { getReportTransport, type ReportTransport } from './report-delivery';
+import { computeNextRun, isScheduleDue, resolveReportPeriod } from './report-schedule';
+import { formatDateRange } from './date-range-utils';
+import type { ExportFormat, ReportConfig, ScheduleConfig } from './reports-types';
+
+const DEFAULT_FORMATS: ExportFormat[] = ['pdf'];
+
+interface ScheduleRow {
+  id: string;
+  report_id: string;
+  schedule_config: ScheduleConfig;
+  next_run: string | null;
+  is_active: boolean;
+  report: {
+    id: string;
+    user_id: string;
+    name: string;
+    description?: string | null;
+    config: ReportConfig;
+  } | null;
+}
+
+export interface ScheduleRunOutcome {
+  scheduleId: string;
+  reportName: string;
+  status: 'success' | 'failed' | 'skipped';
+  nextRun: string | null;
+  error?: string;
+}
+
+export interface RunnerResult {
+  checked: number;
+  initialised: number;
+  outcomes: ScheduleRunOutcome[];
+}
+
+export interface RunnerOptions {
+  now?: Date;
+  transport?: ReportTransport;
+}
+
+/**
+ * Find every active schedule whose next_run has passed and execute it.
+ * Each schedule is claimed by moving next_run forward first, so overlapping
+ * cron invocations can't deliver the same report twice.
+ */
+export async function runDueScheduledReports(
+  supabase: SupabaseClient,
+  options: RunnerOptions = {}
+): Promise<RunnerResult> {
+  const now = options.now ?? new Date();
+  const transport = options.transport ?? getReportTransport();
+  const engine = new ReportDataEngine(supabase);
+
+  const { data, error } = await supabase
+    .from('scheduled_reports')
+    .select(`
+      id,
+      report_id,
+      schedule_config,
+      next_run,
+      is_active,
+      report:reports(id, user_id, name, description, config)
+    `)
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('Error fetching scheduled reports:', error);
+    throw error;
+  }
+
+  const schedules = (data || []).map(row => ({
+    ...row,
+    report: Array.isArray(row.report) ? row.report[0] ?? null : row.report,
+  })) as ScheduleRow[];
+
+  const result: RunnerResult = { checked: schedules.length, initialised: 0, outcomes: [] };
+
+  for (const schedule of schedules) {
+    if (!schedule.next_run) {
+      // Older schedules were created without a next_run - give them one
+      const nextRun = computeNextRun(schedule.schedule_config, now).toISOString();
+      await supabase
+        .from('scheduled_reports')
+        .update({ next_run: nextRun })
+        .eq('id', schedule.id)
+        .is('next_run', null);
+      result.initialised++;
+      continue;
+    }
+
+    if (!isScheduleDue(schedule.next_run, now)) continue;
+
+    result.outcomes.push(await runSchedule(supabase, engine, transport, schedule, now));
+  }
+
+  return result;
+}
+
+async function runSchedule(
+  supabase: SupabaseClient,
+  engine: ReportDataEngine,
+  transport: ReportTransport,
+  schedule: ScheduleRow,
+  now: Date
+): Promise<ScheduleRunOutcome> {
+  const reportName = schedule.report?.name ?? 'Unknown report';
+  const nextRun = computeNextRun(schedule.schedule_config, now).toISOString();
+
+  // Claim the schedule: only succeeds if nobody else has moved next_run yet
+  const { data: claimed, error: claimError } = await supabase
+    .from('scheduled_reports')
+    .update({ next_run: nextRun, last_run: now.toISOString() })
+    .eq('id', schedule.id)
+    .eq('next_run', schedule.next_run!)
+    .select('id');
+
+  if (claimError) {
+    console.error('Error claiming scheduled report:', claimError);
+    return { scheduleId: schedule.id, reportName, status: 'failed', nextRun: schedule.next_run, error: claimError.message };
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return { scheduleId: schedule.id, reportName, status: 'skipped', nextRun: null };
+  }
+
+  if (!schedule.report) {
+    // Report was deleted out from under the schedule - nothing to run or attribute
+    return { scheduleId: schedule.id, reportName, status: 'failed', nextRun, error: 'Linked report not found' };
+  }
+
+  const config = schedule.schedule_config;
+  const formats = config.format?.length ? config.format : DEFAULT_FORMATS;
+  const recipients = config.emailRecipients ?? [];
+  const period = resolveReportPeriod(schedule.report.config?.defaultFilters?.dateRange, config.frequency, now);
+
+  const { data: run, error: runError } = await supabase
+    .from('scheduled_report_runs')
+    .insert({
+      user_id: schedule.report.user_id,
+      scheduled_report_id: schedule.id,
+      status: 'running',
+      started_at: now.toISOString(),
+      period_start: period.start.toISOString().split('T')[0],
+      period_end: period.end.toISOString().split('T')[0],
+      formats,
+      recipients,
+    })
+    .select('id')
+    .single();
+
+  if (runError) {
+    console.error('Error recording scheduled report run:', runError);
+  }
+
+  try {
+    const doc = await buildReportDocument(supabase, engine, schedule.report, period, now);
+    const attachments: RenderedReport[] = formats.map(format => ReportRenderer.render(doc, format));
+
+    const delivery = await transport.send({
+      subject: `${doc.title} - ${doc.period}`,
+      body: [
+        `Your scheduled report "${doc.title}" is attached.`,
+        '',
+        `Period: ${doc.period}`,
+        `Formats: ${formats.join(', ')}`,
+      ].join('\n'),
+      recipients,
+      attachments,
+    });
+
+    if (run) {
+      await supabase
+        .from('scheduled_report_runs')
+        .update({
+          status: 'success',
+          finished_at: new Date().toISOString(),
+          transport: delivery.transport,
+          delivery_reference: delivery.reference,
+        })
+        .eq('id', run.id);
+    }
+
+    return { scheduleId: schedule.id, reportName, status: 'success', nextRun };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Scheduled report "${reportName}" failed:`, error);
+
+    if (run) {
+      await supabase
+        .from('scheduled_report_runs')
+        .update({
+          status: 'failed',
+          finished_at: new Date().toISOString(),
+          transport: transport.name,
+          error_message: message,
+        })
+        .eq('id', run.id);
+    }
+
+    return { scheduleId: schedule.id, reportName, status: 'failed', nextRun, error: message };
+  }
+}
+
+// ============================================================================
+// REPORT BUILDING
+// ============================================================================
+
+function toFlexibleConfig(
+  name: string,
+  config: ReportConfig,
+  period: { start: Date; end: Date }
+): FlexibleReportConfig {
+  const filters = config.defaultFilters;
+  return {
+    name,
+    dateRange: { ...period, period: 'monthly' },
+    groupBy: 'category',
+    includeTypes: filters?.transactionTypes?.length ? filters.transactionTypes : ['income', 'expenditure'],
+    visualizations: ['table'],
+    filters: {
+      categoryIds: filters?.categories,
+      minAmount: filters?.amountRange?.min,
+      maxAmount: filters?.amountRange?.max,
+    },
+  };
+}
+
+function plSectionRows(label: string, sections: HierarchySection[]): (string | number)[][] {
+  return sections.flatMap(section =>
+    section.categories.map(category => [label, section.name, category.name, category.transaction_count, category.total_amount])
+  );
+}
+
+async function buildReportDocument(
+  supabase: SupabaseClient,
+  engine: ReportDataEngine,
+  report: NonNullable<ScheduleRow['report']>,
+  period: { start: Date; end: Date },
+  now: Date
+): Promise<ReportDocument> {
+  const flexConfig = toFlexibleConfig(report.name, report.config, period);
+  const base = {
+    title: report.name,
+    period: formatDateRange(period.start, period.end),
+    generatedAt: now.toISOString(),
+  };
+
+  switch (report.config?.type) {
+    case 'cash_flow': {
+      const data = await engine.getCashFlowData(flexConfig);
+      const last = data[data.length - 1];
+      return {
+        ...base,
+        columns: ['Date', 'Income', 'Expenditure', 'Capital In', 'Capital Out', 'Net Flow', 'Running Balance'],
+        rows: data.map(d => [d.date, d.income, d.expenditure, d.capital_in, d.capital_out, d.net_flow, d.running_balance]),
+        summary: [
+          { label: 'Total Income', value: data.reduce((sum, d) => sum + d.income, 0) },
+          { label: 'Total Expenditure', value: data.reduce((sum, d) => sum + d.expenditure, 0) },
+          { label: 'Closing Balance', value: last?.running_balance ?? 0 },
+        ],
+        data,
+      };
+    }
+
+    case 'category_analysis': {
+      const data = await engine.getCategoryBreakdown(flexConfig);
+      return {
+        ...base,
+        columns: ['Category', 'Hierarchy', 'Transactions', 'Total', 'Average', '% of Total'],
+        rows: data.map(d => [d.category_name, d.hierarchy_name ?? '', d.transaction_count, d.total_amount, d.average_amount, d.percentage_of_total]),
+        summary: [{ label: 'Total', value: data.reduce((sum, d) => sum + d.total_amount, 0) }],
+        data,
+      };
+    }
+
+    case 'transaction_detail': {
+      let query = supabase
+        .from('transactions')
+        .select('id, transaction_date, description, amount, type, categories(name)')
+        .gte('transaction_date', period.start.toISOString().split('T')[0])
+        .lte('transaction_date', period.end.toISOString().split('T')[0])
+        .in('type', flexConfig.includeTypes)
+        .order('transaction_date', { ascending: true });
+
+      if (flexConfig.filters?.categoryIds?.length) {
+        query = query.in('category_id', flexConfig.filters.categoryIds);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const rows = (data || []).map(t => {
+        const category = Array.isArray(t.categories) ? t.categories[0] : t.categories;
+        return [t.transaction_date, t.description ?? '', category?.name ?? 'Uncategorized', t.type, Number(t.amount)];
+      });
+
+      return {
+        ...base,
+        columns: ['Date', 'Description', 'Category', 'Type', 'Amount'],
+        rows,
+        data,
+      };
+    }
+
+    case 'profit_loss':
+    case 'custom':
+    default: {
+      const data = await engine.getHierarchicalPLData(flexConfig);
+      return {
+        ...base,
+        columns: ['Section', 'Hierarchy', 'Category', 'Transactions', 'Amount'],
+        rows: [
+          ...plSectionRows('Income', data.income),
+          ...plSectionRows('Expenditure', data.expenditure),
+          ...plSectionRows('Capital', data.capital),
+        ],
+        summary: [
+          { label: 'Total Income', value: data.totals.total_income },
+          { label: 'Total Expenditure', value: data.totals.total_expenditure },
+          { label: 'Net Operating Profit', value: data.totals.net_operating_profit },
+          { label: 'Capital Movements', value: data.totals.total_capital_movements },
+          { label: 'Profit After Capital Movements', value: data.totals.profit_after_capital_movements },
+        ],
+        data,
+      };
+    }
+  }
+}
@@ -0,0 +1,226 @@
+// Simplified Expenses
+// HMRC flat rates for business mileage and working from home, and the claim for a tax year
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { taxYearStartYear } from './capital-allowances';
+import type { Sa103ExtraExpense, Sa103Line } from './sa103';
+
+export type SimplifiedExpenseKind = 'mileage' | 'use_of_home';
+
+export interface MileageTrip {
+  id: string;
+  user_id: string;
+  trip_date: string;
+  purpose: string;
+  from_location: string;
+  to_location: string;
+  miles: number | string;
+  /** Expenditure transaction generated for the trip's claim */
+  transaction_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UseOfHomeMonth {
+  id: string;
+  user_id: string;
+  /** First day of the month, YYYY-MM-01 */
+  month: string;
+  hours: number | string;
+  transaction_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MileageClaimLine {
+  trip: MileageTrip;
+  miles: number;
+  higherRateMiles: number;
+  lowerRateMiles: number;
+  amount: number;
+}
+
+export interface UseOfHomeClaimLine {
+  month: UseOfHomeMonth;
+  hours: number;
+  amount: number;
+}
+
+export interface SimplifiedExpenseClaim<Line> {
+  lines: Line[];
+  amount: number;
+  /** Part of the claim already in the accounts as generated transactions */
+  generatedAmount: number;
+  /** Part still to be claimed - added to the Self Assessment as its own expense line */
+  outstandingAmount: number;
+}
+
+export interface MileageClaim extends SimplifiedExpenseClaim<MileageClaimLine> {
+  totalMiles: number;
+  higherRateMiles: number;
+  lowerRateMiles: number;
+}
+
+export interface SimplifiedExpensesSummary {
+  mileage: MileageClaim;
+  useOfHome: SimplifiedExpenseClaim<UseOfHomeClaimLine>;
+}
+
+export const SIMPLIFIED_EXPENSE_LABELS: Record<SimplifiedExpenseKind, string> = {
+  mileage: 'Business mileage',
+  use_of_home: 'Use of home',
+};
+
+export const SIMPLIFIED_EXPENSE_TRANSACTION_NOTE =
+  'Generated from the simplified expenses log. It was paid personally, so it doesn\'t affect the bank balance - delete the trip or month there to remove it.';
+
+/** SA103 line each claim is reported on */
+export const SIMPLIFIED_EXPENSE_SA103_LINES: Record<SimplifiedExpenseKind, Sa103Line> = {
+  mileage: 'travel',
+  use_of_home: 'premises',
+};
+
+/** Approved mileage allowance payments for cars and vans, per tax year */
+export const MILEAGE_RATES = {
+  higherRate: 0.45,
+  lowerRate: 0.25,
+  higherRateMiles: 10000,
+};
+
+/** Monthly flat rate by hours worked at home, highest threshold first */
+export const USE_OF_HOME_RATES = [
+  { minHours: 101, monthlyAmount: 26 },
+  { minHours: 51, monthlyAmount: 18 },
+  { minHours: 25, monthlyAmount: 10 },
+];
+
+const roundPence = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Tax year a month's claim belongs to - the one holding most of the month, so
+ * April goes in the year starting that April
+ */
+export function monthTaxYearStartYear(month: string): number {
+  return taxYearStartYear(`${month.slice(0, 7)}-15`);
+}
+
+export function useOfHomeMonthlyAmount(hours: number): number {
+  return USE_OF_HOME_RATES.find(rate => hours >= rate.minHours)?.monthlyAmount ?? 0;
+}
+
+function summarise<Line extends { amount: number }>(lines: Line[], isGenerated: (line: Line) => boolean) {
+  const amount = roundPence(lines.reduce((sum, line) => sum + line.amount, 0));
+  const generatedAmount = roundPence(lines.filter(isGenerated).reduce((sum, line) => sum + line.amount, 0));
+  return { lines, amount, generatedAmount, outstandingAmount: roundPence(amount - generatedAmount) };
+}
+
+/**
+ * Mileage claim for the tax year starting 6 April `startYear`. Trips are taken
+ * in date order, so the 45p rate covers the first 10,000 miles of the year and
+ * a trip crossing the threshold is split between the two rates.
+ */
+export function calculateMileageClaim(trips: MileageTrip[], startYear: number): MileageClaim {
+  const yearTrips = trips
+    .filter(trip => taxYearStartYear(trip.trip_date) === startYear)
+    .sort((a, b) => a.trip_date.localeCompare(b.trip_date) || a.created_at.localeCompare(b.created_at));
+
+  let milesSoFar = 0;
+  const lines = yearTrips.map(trip => {
+    const miles = Number(trip.miles);
+    const higherRateMiles = Math.max(0, Math.min(miles, MILEAGE_RATES.higherRateMiles - milesSoFar));
+    const lowerRateMiles = miles - higherRateMiles;
+    milesSoFar += miles;
+
+    return {
+      trip,
+      miles,
+      higherRateMiles,
+      lowerRateMiles,
+      amount: roundPence(higherRateMiles * MILEAGE_RATES.higherRate + lowerRateMiles * MILEAGE_RATES.lowerRate),
+    };
+  });
+
+  return {
+    ...summarise(lines, line => !!line.trip.transaction_id),
+    totalMiles: milesSoFar,
+    higherRateMiles: lines.reduce((sum, line) => sum + line.higherRateMiles, 0),
+    lowerRateMiles: lines.reduce((sum, line) => sum + line.lowerRateMiles, 0),
+  };
+}
+
+/**
+ * Use-of-home claim for the tax year starting 6 April `startYear`
+ */
+export function calculateUseOfHomeClaim(
+  months: UseOfHomeMonth[],
+  startYear: number
+): SimplifiedExpenseClaim<UseOfHomeClaimLine> {
+  const lines = months
+    .filter(month => monthTaxYearStartYear(month.month) === startYear)
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map(month => {
+      const hours = Number(month.hours);
+      return { month, hours, amount: useOfHomeMonthlyAmount(hours) };
+    });
+
+  return summarise(lines, line => !!line.month.transaction_id);
+}
+
+/**
+ * Claims still to be made on the return, as expense lines for their SA103 boxes.
+ * Generated transactions are already in the accounts, so only the outstanding part is added.
+ */
+export function simplifiedExpenseSa103Lines(summary: SimplifiedExpensesSummary): Sa103ExtraExpense[] {
+  const lines: Sa103ExtraExpense[] = [
+    {
+      id: 'simplified-mileage',
+      name: `${SIMPLIFIED_EXPENSE_LABELS.mileage} (${summary.mileage.totalMiles.toLocaleString('en-GB')} miles)`,
+      line: SIMPLIFIED_EXPENSE_SA103_LINES.mileage,
+      amount: summary.mileage.outstandingAmount,
+    },
+    {
+      id: 'simplified-use-of-home',
+      name: `${SIMPLIFIED_EXPENSE_LABELS.use_of_home} flat rate`,
+      line: SIMPLIFIED_EXPENSE_SA103_LINES.use_of_home,
+      amount: summary.useOfHome.outstandingAmount,
+    },
+  ];
+  return lines.filter(line => line.amount !== 0);
+}
+
+export function mileageTripDescription(trip: Pick<MileageTrip, 'purpose' | 'from_location' | 'to_location' | 'miles'>): string {
+  return `Mileage: ${trip.purpose} (${trip.from_location} to ${trip.to_location}, ${Number(trip.miles)} miles)`;
+}
+
+export async function fetchMileageTrips(supabase: SupabaseClient, startDate: string, endDate: string): Promise<MileageTrip[]> {
+  const { data, error } = await supabase
+    .from('mileage_trips')
+    .select('*')
+    .gte('trip_date', startDate)
+    .lte('trip_date', endDate)
+    .order('trip_date', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch mileage trips: ${error.message}`);
+  }
+
+  return (data || []) as MileageTrip[];
+}
+
+/**
+ * Months from April to March - the months whose claims fall in the tax year
+ */
+export async function fetchUseOfHomeMonths(supabase: SupabaseClient, startYear: number): Promise<UseOfHomeMonth[]> {
+  const { data, error } = await supabase
+    .from('use_of_home_months')
+    .select('*')
+    .gte('month', `${startYear}-04-01`)
+    .lte('month', `${startYear + 1}-03-01`)
+    .order('month', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch use of home months: ${error.message}`);
+  }
+
+  return (data || []) as UseOfHomeMonth[];
+}
@@ -0,0 +1,112 @@
+// Bank Statement Lines
+// Keeps each imported bank row with its running balance for line-by-line reconciliation
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { StatementLineEntry } from './statement-reconciler';
+
+export interface BankStatementLine {
+  id: string;
+  user_id: string;
+  bank_account_id: string | null;
+  import_batch_id: string | null;
+  product: string | null;
+  line_date: string;
+  line_index: number;
+  description: string;
+  amount: number;
+  fee: number;
+  balance: number;
+  currency: string;
+  line_key: string;
+  transaction_id: string | null;
+  ticked_at: string | null;
+  created_at: string;
+}
+
+export interface StatementLineInput {
+  bankAccountId: string | null;
+  product: string | null;
+  /** When the bank completed the row */
+  date: Date;
+  description: string;
+  amount: number;
+  fee: number;
+  balance: number;
+  currency: string;
+}
+
+// Keeps upserts well under the PostgREST request size limit
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Identifies a bank row across overlapping statement files. The running
+ * balance makes genuinely repeated rows (same time, amount and description)
+ * distinct.
+ */
+export function statementLineKey(line: StatementLineInput): string {
+  return [
+    line.bankAccountId ?? line.product ?? '',
+    line.date.toISOString(),
+    line.amount.toFixed(2),
+    line.fee.toFixed(2),
+    line.balance.toFixed(2),
+    line.description.trim().toLowerCase(),
+  ].join('|');
+}
+
+export function toStatementLineEntry(line: BankStatementLine): StatementLineEntry {
+  return {
+    id: line.id,
+    accountKey: line.bank_account_id ?? line.product,
+    bankAccountId: line.bank_account_id,
+    date: line.line_date,
+    lineIndex: line.line_index,
+    description: line.description,
+    amount: Number(line.amount),
+    fee: Number(line.fee),
+    balance: Number(line.balance),
+    transactionId: line.transaction_id,
+  };
+}
+
+/**
+ * Save the completed rows of a statement file. Rows already recorded from an
+ * earlier, overlapping file are left alone. Returns the number of new lines;
+ * never throws, as statement lines shouldn't block an import.
+ */
+export async function recordStatementLines(
+  supabase: SupabaseClient,
+  params: { userId: string; importBatchId: string; lines: StatementLineInput[] }
+): Promise<number> {
+  const rows = params.lines.map((line, index) => ({
+    user_id: params.userId,
+    import_batch_id: params.importBatchId,
+    bank_account_id: line.bankAccountId,
+    product: line.product,
+    line_date: line.date.toISOString(),
+    line_index: index,
+    description: line.description,
+    amount: line.amount,
+    fee: line.fee,
+    balance: line.balance,
+    currency: line.currency,
+    line_key: statementLineKey(line),
+  }));
+
+  let recorded = 0;
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('bank_statement_lines')
+      .upsert(rows.slice(i, i + INSERT_CHUNK_SIZE), { onConflict: 'line_key', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) {
+      console.warn('Failed to record statement lines:', error.message);
+      return recorded;
+    }
+
+    recorded += data?.length ?? 0;
+  }
+
+  return recorded;
+}
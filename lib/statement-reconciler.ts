@@ -0,0 +1,157 @@
+// Statement Reconciliation Engine
+// Walks bank statement lines by their running balance and ticks them off against ledger transactions
+
+export interface StatementLineEntry {
+  id: string;
+  /** Bank account id or statement product; each account has its own running balance */
+  accountKey: string | null;
+  bankAccountId: string | null;
+  /** ISO timestamp the bank completed the row */
+  date: string;
+  /** Position in the original file, used to order rows with the same timestamp */
+  lineIndex: number;
+  description: string;
+  amount: number;
+  fee: number;
+  /** Balance after this row, as printed on the statement */
+  balance: number;
+  transactionId: string | null;
+}
+
+export interface LedgerEntry {
+  id: string;
+  /** Signed amount - negative when money leaves the account */
+  amount: number;
+  /** YYYY-MM-DD */
+  date: string;
+  bankAccountId: string | null;
+  description: string;
+}
+
+export type BalanceBreakKind = 'missing' | 'duplicate';
+
+export interface BalanceBreak {
+  expectedBalance: number;
+  actualBalance: number;
+  /** Actual minus expected - the net amount of rows missing before this line */
+  difference: number;
+  kind: BalanceBreakKind;
+}
+
+export interface WalkedStatementLine {
+  line: StatementLineEntry;
+  /** Null for the first line of an account */
+  previousBalance: number | null;
+  balanceBreak: BalanceBreak | null;
+}
+
+export interface TickSuggestion {
+  lineId: string;
+  transactionId: string;
+  daysApart: number;
+}
+
+export class StatementReconciler {
+  static readonly DATE_WINDOW_DAYS = 3;
+  private static readonly TOLERANCE = 0.005;
+
+  /**
+   * Net effect of a line on the running balance. Fees are charged on top of the amount.
+   */
+  static movement(line: Pick<StatementLineEntry, 'amount' | 'fee'>): number {
+    return line.amount - line.fee;
+  }
+
+  /**
+   * Order lines per account, then by completion time and file position, and
+   * check each balance follows from the one before. A line whose balance equals
+   * the previous line's despite moving money is reported as a duplicate;
+   * any other jump means rows are missing in between.
+   */
+  static walk(lines: StatementLineEntry[]): WalkedStatementLine[] {
+    const ordered = [...lines].sort((a, b) =>
+      (a.accountKey ?? '').localeCompare(b.accountKey ?? '') ||
+      a.date.localeCompare(b.date) ||
+      a.lineIndex - b.lineIndex
+    );
+
+    const previousByAccount = new Map<string, number>();
+    return ordered.map(line => {
+      const key = line.accountKey ?? '';
+      const previousBalance = previousByAccount.get(key) ?? null;
+      previousByAccount.set(key, line.balance);
+
+      if (previousBalance === null) {
+        return { line, previousBalance, balanceBreak: null };
+      }
+
+      const movement = this.movement(line);
+      const expectedBalance = this.round(previousBalance + movement);
+      const difference = this.round(line.balance - expectedBalance);
+      if (Math.abs(difference) < this.TOLERANCE) {
+        return { line, previousBalance, balanceBreak: null };
+      }
+
+      const repeatsPrevious = Math.abs(movement) >= this.TOLERANCE && Math.abs(difference + movement) < this.TOLERANCE;
+      return {
+        line,
+        previousBalance,
+        balanceBreak: {
+          expectedBalance,
+          actualBalance: line.balance,
+          difference,
+          kind: repeatsPrevious ? 'duplicate' : 'missing',
+        },
+      };
+    });
+  }
+
+  /**
+   * Suggest a ledger transaction for each line that hasn't been ticked off:
+   * same signed amount, same account (when both have one) and within the date
+   * window. Closest dates win and each transaction is used at most once.
+   */
+  static suggestTicks(lines: StatementLineEntry[], ledger: LedgerEntry[]): TickSuggestion[] {
+    const ticked = new Set(lines.map(l => l.transactionId).filter((id): id is string => !!id));
+    const available = ledger.filter(entry => !ticked.has(entry.id));
+
+    const possible: TickSuggestion[] = [];
+    for (const line of lines) {
+      if (line.transactionId) continue;
+
+      for (const entry of available) {
+        if (Math.abs(entry.amount - line.amount) >= this.TOLERANCE) continue;
+        if (line.bankAccountId && entry.bankAccountId && line.bankAccountId !== entry.bankAccountId) continue;
+
+        const daysApart = this.daysBetween(line.date.slice(0, 10), entry.date);
+        if (daysApart > this.DATE_WINDOW_DAYS) continue;
+
+        possible.push({ lineId: line.id, transactionId: entry.id, daysApart });
+      }
+    }
+
+    possible.sort((a, b) => a.daysApart - b.daysApart);
+
+    const usedLines = new Set<string>();
+    const usedTransactions = new Set<string>();
+    const suggestions: TickSuggestion[] = [];
+    for (const suggestion of possible) {
+      if (usedLines.has(suggestion.lineId) || usedTransactions.has(suggestion.transactionId)) continue;
+      usedLines.add(suggestion.lineId);
+      usedTransactions.add(suggestion.transactionId);
+      suggestions.push(suggestion);
+    }
+
+    return suggestions;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private static daysBetween(a: string, b: string): number {
+    const msPerDay = 1000 * 60 * 60 * 24;
+    const diff = new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime();
+    return Math.abs(Math.round(diff / msPerDay));
+  }
+}
@@ -0,0 +1,234 @@
+// Tax Calendar
+// Self Assessment payment dates, payments on account and a monthly tax pot from the year's estimate
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { HierarchicalPLData } from './reports-data-engine';
+import { calculateTaxEstimate, type TaxEstimate } from './tax-engine';
+import { getTaxYearRates, type TaxRegion } from './tax-rates';
+
+export type TaxPaymentKind = 'balancing' | 'first_payment_on_account' | 'second_payment_on_account';
+
+export const TAX_PAYMENT_LABELS: Record<TaxPaymentKind, string> = {
+  balancing: 'Balancing payment',
+  first_payment_on_account: '1st payment on account',
+  second_payment_on_account: '2nd payment on account',
+};
+
+/** No payments on account are due when the previous year's bill was below this */
+export const PAYMENT_ON_ACCOUNT_THRESHOLD = 1000;
+
+export interface TaxYearLiability {
+  startYear: number;
+  taxableProfit: number;
+  estimate: TaxEstimate;
+  /** Income tax and Class 4 NICs - what payments on account are worked out from */
+  paymentOnAccountBase: number;
+  /** The year isn't over, so the figures are projected from the year to date */
+  isForecast: boolean;
+}
+
+export interface TaxPayment {
+  kind: TaxPaymentKind;
+  /** Tax year the payment is for */
+  startYear: number;
+  amount: number;
+}
+
+export interface TaxCalendarDate {
+  dueDate: string;
+  payments: TaxPayment[];
+  total: number;
+  isPast: boolean;
+  /** Includes a payment worked out from a year that's still being forecast */
+  isEstimate: boolean;
+}
+
+export interface PaymentOnAccountReduction {
+  startYear: number;
+  /** Each of the two instalments as HMRC will ask for them */
+  currentPayment: number;
+  /** Each instalment based on the forecast for the year */
+  suggestedPayment: number;
+  saving: number;
+}
+
+export interface TaxPotMonth {
+  /** yyyy-MM */
+  month: string;
+  profit: number;
+  setAside: number;
+}
+
+export interface TaxPot {
+  /** Share of profit to put aside, from the forecast bill over the forecast profit */
+  rate: number;
+  months: TaxPotMonth[];
+  totalProfit: number;
+  totalSetAside: number;
+  /** Even monthly amount that covers the forecast bill */
+  suggestedMonthly: number;
+}
+
+const roundPence = (value: number) => Math.round(value * 100) / 100;
+
+export function taxYearLiability(
+  startYear: number,
+  taxableProfit: number,
+  region: TaxRegion,
+  isForecast = false
+): TaxYearLiability {
+  const estimate = calculateTaxEstimate(taxableProfit, getTaxYearRates(startYear).rates, region);
+  return {
+    startYear,
+    taxableProfit: roundPence(taxableProfit),
+    estimate,
+    paymentOnAccountBase: roundPence(estimate.totalIncomeTax + estimate.class4Nics),
+    isForecast,
+  };
+}
+
+/**
+ * Full-year figure from the year to date, scaled by the days elapsed since 6 April
+ */
+export function annualise(yearToDate: number, startYear: number, asOf: string): number {
+  const start = new Date(startYear, 3, 6);
+  const daysInYear = differenceInCalendarDays(new Date(startYear + 1, 3, 6), start);
+  const elapsed = Math.min(daysInYear, Math.max(1, differenceInCalendarDays(parseISO(asOf), start) + 1));
+  return roundPence((yearToDate * daysInYear) / elapsed);
+}
+
+/**
+ * Each of the two payments on account for the year after `previous` - half its
+ * income tax and Class 4, unless the bill was under the threshold
+ */
+export function paymentOnAccount(previous: TaxYearLiability | undefined): number {
+  if (!previous || previous.paymentOnAccountBase < PAYMENT_ON_ACCOUNT_THRESHOLD) return 0;
+  return roundPence(previous.paymentOnAccountBase / 2);
+}
+
+/**
+ * Payment dates for the tax years from `fromStartYear` to `throughStartYear`.
+ * Each 31 January after a year ends carries the balancing payment for the year
+ * before with the first payment on account for the current one; 31 July has
+ * the second. A negative balancing payment is an overpayment HMRC refunds or
+ * sets against the next bill. Years with no liability given count as nil.
+ */
+export function buildTaxCalendar(
+  liabilities: TaxYearLiability[],
+  fromStartYear: number,
+  throughStartYear: number,
+  today: string
+): TaxCalendarDate[] {
+  const byYear = new Map(liabilities.map(liability => [liability.startYear, liability]));
+  const dates: TaxCalendarDate[] = [];
+
+  const addDate = (dueDate: string, payments: TaxPayment[]) => {
+    if (payments.length === 0) return;
+    dates.push({
+      dueDate,
+      payments,
+      total: roundPence(payments.reduce((sum, payment) => sum + payment.amount, 0)),
+      isPast: dueDate < today,
+      // Payments on account come from the year before, so they're firm once it's over
+      isEstimate: payments.some(payment => {
+        const basis = payment.kind === 'balancing' ? payment.startYear : payment.startYear - 1;
+        return byYear.get(basis)?.isForecast ?? false;
+      }),
+    });
+  };
+
+  for (let year = fromStartYear; year <= throughStartYear; year++) {
+    const previous = byYear.get(year - 1);
+    const onAccount = paymentOnAccount(previous);
+    const january: TaxPayment[] = [];
+
+    if (previous) {
+      const paidOnAccount = paymentOnAccount(byYear.get(year - 2)) * 2;
+      january.push({
+        kind: 'balancing',
+        startYear: year - 1,
+        amount: roundPence(previous.estimate.totalTax - paidOnAccount),
+      });
+    }
+    if (onAccount > 0) {
+      january.push({ kind: 'first_payment_on_account', startYear: year, amount: onAccount });
+    }
+
+    addDate(`${year + 1}-01-31`, january);
+    if (onAccount > 0) {
+      addDate(`${year + 1}-07-31`, [{ kind: 'second_payment_on_account', startYear: year, amount: onAccount }]);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Whether the payments on account for a year can come down (form SA303) because
+ * its forecast bill is lower than the year before. Reducing too far means
+ * interest on the shortfall, so this only suggests the forecast figure.
+ */
+export function suggestPaymentOnAccountReduction(
+  previous: TaxYearLiability | undefined,
+  forecast: TaxYearLiability
+): PaymentOnAccountReduction | null {
+  const currentPayment = paymentOnAccount(previous);
+  if (currentPayment === 0) return null;
+
+  const suggestedPayment = forecast.paymentOnAccountBase < PAYMENT_ON_ACCOUNT_THRESHOLD
+    ? 0
+    : roundPence(forecast.paymentOnAccountBase / 2);
+  if (suggestedPayment >= currentPayment) return null;
+
+  return {
+    startYear: forecast.startYear,
+    currentPayment,
+    suggestedPayment,
+    saving: roundPence((currentPayment - suggestedPayment) * 2),
+  };
+}
+
+/**
+ * Profit per calendar month from the P&L, with expenses net of their
+ * private-use and disallowable parts
+ */
+export function monthlyProfits(data: HierarchicalPLData): Map<string, number> {
+  const months = new Map<string, number>();
+  const add = (date: string, amount: number) => {
+    const month = date.slice(0, 7);
+    months.set(month, roundPence((months.get(month) ?? 0) + amount));
+  };
+
+  data.income.forEach(section => section.categories.forEach(category =>
+    category.transactions.forEach(transaction => add(transaction.date, transaction.amount))
+  ));
+  data.expenditure.forEach(section => section.categories.forEach(category =>
+    category.transactions.forEach(transaction =>
+      add(transaction.date, transaction.disallowable_amount - transaction.amount)
+    )
+  ));
+
+  return months;
+}
+
+/**
+ * How much of each month's profit so far to set aside for the year's bill.
+ * Loss-making months don't release anything already put aside.
+ */
+export function buildTaxPot(data: HierarchicalPLData, forecast: TaxYearLiability): TaxPot {
+  const rate = forecast.taxableProfit > 0
+    ? Math.min(1, forecast.estimate.totalTax / forecast.taxableProfit)
+    : 0;
+
+  const months = Array.from(monthlyProfits(data).entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, profit]) => ({ month, profit, setAside: roundPence(Math.max(0, profit) * rate) }));
+
+  return {
+    rate,
+    months,
+    totalProfit: roundPence(months.reduce((sum, month) => sum + month.profit, 0)),
+    totalSetAside: roundPence(months.reduce((sum, month) => sum + month.setAside, 0)),
+    suggestedMonthly: roundPence(forecast.estimate.totalTax / 12),
+  };
+}
@@ -0,0 +1,139 @@
+// Tax Engine
+// Pure self-employed income tax and NIC estimate from a year's rate table
+
+import type { TaxBand, TaxRegion, TaxYearRates } from './tax-rates';
+import type { CapitalAllowanceYear } from './capital-allowances';
+
+export interface TaxAdjustments {
+  /** Depreciation and capital items in the accounts that allowances replace */
+  addBack: number;
+  /** Private-use share and disallowable expenses included in the accounts */
+  disallowableExpenses: number;
+  /** Simplified expenses flat rates not already in the accounts */
+  simplifiedExpenses: number;
+  capitalAllowances: number;
+  balancingCharges: number;
+}
+
+export interface TaxBandResult {
+  name: string;
+  rate: number;
+  /** Taxable income falling in the band */
+  income: number;
+  tax: number;
+}
+
+export interface TaxEstimate {
+  /** Accounts profit adjusted for disallowables and capital allowances - SA103S box 29 when positive */
+  taxableProfit: number;
+  personalAllowance: number;
+  bands: TaxBandResult[];
+  totalIncomeTax: number;
+  class4Nics: number;
+  class2Nics: number;
+  totalTax: number;
+}
+
+const WEEKS_PER_YEAR = 52;
+
+const roundPence = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Personal allowance after the taper: reduced by £1 for every £2 of income
+ * above the threshold, down to nil
+ */
+export function personalAllowanceFor(income: number, rates: TaxYearRates): number {
+  if (income <= rates.allowanceTaperThreshold) return rates.personalAllowance;
+  return Math.max(0, rates.personalAllowance - Math.floor((income - rates.allowanceTaperThreshold) / 2));
+}
+
+/**
+ * Split taxable income (after the personal allowance) across the bands
+ */
+export function incomeTaxByBand(taxableIncome: number, bands: TaxBand[]): TaxBandResult[] {
+  let lower = 0;
+  return bands.map(band => {
+    const upper = band.upTo ?? Infinity;
+    const income = Math.max(0, Math.min(taxableIncome, upper) - lower);
+    lower = upper;
+    return { name: band.name, rate: band.rate, income, tax: roundPence(income * band.rate) };
+  });
+}
+
+export function class4Nics(profit: number, rates: TaxYearRates): number {
+  const { lowerProfitsLimit, upperProfitsLimit, mainRate, additionalRate } = rates.class4;
+  if (profit <= lowerProfitsLimit) return 0;
+  const main = Math.min(profit, upperProfitsLimit) - lowerProfitsLimit;
+  const additional = Math.max(0, profit - upperProfitsLimit);
+  return roundPence(main * mainRate + additional * additionalRate);
+}
+
+export function class2Nics(profit: number, rates: TaxYearRates): number {
+  if (!rates.class2 || profit < rates.class2.threshold) return 0;
+  return roundPence(rates.class2.weeklyRate * WEEKS_PER_YEAR);
+}
+
+/**
+ * Adjustments for a tax year from its P&L disallowables, the capital add-back,
+ * simplified expenses not in the accounts and that year's allowances
+ */
+export function buildTaxAdjustments(
+  disallowableExpenses: number,
+  addBack: number,
+  simplifiedExpenses: number,
+  allowanceYear: CapitalAllowanceYear | null | undefined
+): TaxAdjustments {
+  return {
+    addBack,
+    disallowableExpenses,
+    simplifiedExpenses,
+    capitalAllowances: allowanceYear ? allowanceYear.totalAllowances + allowanceYear.smallPoolsAllowance : 0,
+    balancingCharges: allowanceYear?.balancingCharges ?? 0,
+  };
+}
+
+/**
+ * Accounts profit adjusted for tax, before capital allowances
+ */
+export function profitBeforeAllowances(netProfit: number, adjustments: TaxAdjustments): number {
+  return netProfit + adjustments.addBack + adjustments.disallowableExpenses - adjustments.simplifiedExpenses;
+}
+
+/**
+ * Taxable profit from the adjusted profit, after allowances and balancing charges
+ */
+export function profitAfterAllowances(adjustedProfit: number, adjustments: TaxAdjustments): number {
+  return roundPence(adjustedProfit - adjustments.capitalAllowances + adjustments.balancingCharges);
+}
+
+/**
+ * Estimate for a sole trader with no other income. Adjustments turn the
+ * accounts profit into the taxable profit before any tax is worked out.
+ */
+export function calculateTaxEstimate(
+  netProfit: number,
+  rates: TaxYearRates,
+  region: TaxRegion,
+  adjustments?: TaxAdjustments
+): TaxEstimate {
+  const taxableProfit = adjustments
+    ? profitAfterAllowances(profitBeforeAllowances(netProfit, adjustments), adjustments)
+    : roundPence(netProfit);
+  const profit = Math.max(0, taxableProfit);
+
+  const personalAllowance = personalAllowanceFor(profit, rates);
+  const bands = incomeTaxByBand(Math.max(0, profit - personalAllowance), rates.bands[region]);
+  const totalIncomeTax = roundPence(bands.reduce((sum, band) => sum + band.tax, 0));
+  const class4 = class4Nics(profit, rates);
+  const class2 = class2Nics(profit, rates);
+
+  return {
+    taxableProfit,
+    personalAllowance,
+    bands,
+    totalIncomeTax,
+    class4Nics: class4,
+    class2Nics: class2,
+    totalTax: roundPence(totalIncomeTax + class4 + class2),
+  };
+}
@@ -0,0 +1,211 @@
+// Tax Rates
+// Income tax bands, personal allowance and self-employed NIC rates per tax year
+
+import type { Sa103Form } from './sa103';
+
+export type TaxRegion = 'rest_of_uk' | 'scotland';
+
+export interface TaxBand {
+  name: string;
+  rate: number;
+  /** Upper limit of the band on taxable income (after the personal allowance); null for the top band */
+  upTo: number | null;
+}
+
+export interface TaxYearRates {
+  /** Calendar year the tax year starts in, e.g. 2024 for 2024-25 */
+  startYear: number;
+  label: string;
+  personalAllowance: number;
+  /** Income above which the personal allowance is withdrawn at £1 for every £2 */
+  allowanceTaperThreshold: number;
+  bands: Record<TaxRegion, TaxBand[]>;
+  class4: {
+    lowerProfitsLimit: number;
+    upperProfitsLimit: number;
+    mainRate: number;
+    additionalRate: number;
+  };
+  /** Null once Class 2 stopped being compulsory (from 2024-25) */
+  class2: {
+    weeklyRate: number;
+    /** Profits at or above this pay Class 2 */
+    threshold: number;
+  } | null;
+}
+
+export interface TaxSettings {
+  region: TaxRegion;
+  /** Which self-employment pages the per-box totals are laid out for */
+  sa103Form: Sa103Form;
+}
+
+export const TAX_SETTINGS_PREFERENCE_KEY = 'tax-settings';
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  region: 'rest_of_uk',
+  sa103Form: 'short',
+};
+
+export const TAX_REGION_LABELS: Record<TaxRegion, string> = {
+  rest_of_uk: 'England, Wales & Northern Ireland',
+  scotland: 'Scotland',
+};
+
+const rUKBands = (basicBand: number, additionalThreshold: number): TaxBand[] => [
+  { name: 'Basic rate', rate: 0.2, upTo: basicBand },
+  { name: 'Higher rate', rate: 0.4, upTo: additionalThreshold },
+  { name: 'Additional rate', rate: 0.45, upTo: null },
+];
+
+/**
+ * Published rates, oldest first. Add a new entry each April; years after the
+ * last entry fall back to it (see getTaxYearRates).
+ */
+export const TAX_YEAR_RATES: TaxYearRates[] = [
+  {
+    startYear: 2019,
+    label: '2019-20',
+    personalAllowance: 12500,
+    allowanceTaperThreshold: 100000,
+    bands: {
+      rest_of_uk: rUKBands(37500, 150000),
+      scotland: [
+        { name: 'Starter rate', rate: 0.19, upTo: 2049 },
+        { name: 'Basic rate', rate: 0.2, upTo: 12444 },
+        { name: 'Intermediate rate', rate: 0.21, upTo: 30930 },
+        { name: 'Higher rate', rate: 0.41, upTo: 150000 },
+        { name: 'Top rate', rate: 0.46, upTo: null },
+      ],
+    },
+    class4: { lowerProfitsLimit: 8632, upperProfitsLimit: 50000, mainRate: 0.09, additionalRate: 0.02 },
+    class2: { weeklyRate: 3.0, threshold: 6365 },
+  },
+  {
+    startYear: 2020,
+    label: '2020-21',
+    personalAllowance: 12500,
+    allowanceTaperThreshold: 100000,
+    bands: {
+      rest_of_uk: rUKBands(37500, 150000),
+      scotland: [
+        { name: 'Starter rate', rate: 0.19, upTo: 2085 },
+        { name: 'Basic rate', rate: 0.2, upTo: 12658 },
+        { name: 'Intermediate rate', rate: 0.21, upTo: 30930 },
+        { name: 'Higher rate', rate: 0.41, upTo: 150000 },
+        { name: 'Top rate', rate: 0.46, upTo: null },
+      ],
+    },
+    class4: { lowerProfitsLimit: 9500, upperProfitsLimit: 50000, mainRate: 0.09, additionalRate: 0.02 },
+    class2: { weeklyRate: 3.05, threshold: 6475 },
+  },
+  {
+    startYear: 2021,
+    label: '2021-22',
+    personalAllowance: 12570,
+    allowanceTaperThreshold: 100000,
+    bands: {
+      rest_of_uk: rUKBands(37700, 150000),
+      scotland: [
+        { name: 'Starter rate', rate: 0.19, upTo: 2097 },
+        { name: 'Basic rate', rate: 0.2, upTo: 12726 },
+        { name: 'Intermediate rate', rate: 0.21, upTo: 31092 },
+        { name: 'Higher rate', rate: 0.41, upTo: 150000 },
+        { name: 'Top rate', rate: 0.46, upTo: null },
+      ],
+    },
+    class4: { lowerProfitsLimit: 9568, upperProfitsLimit: 50270, mainRate: 0.09, additionalRate: 0.02 },
+    class2: { weeklyRate: 3.05, threshold: 6515 },
+  },
+  {
+    // Class 4 rates and lower limit are the blended figures for the Health and Social Care Levy year
+    startYear: 2022,
+    label: '2022-23',
+    personalAllowance: 12570,
+    allowanceTaperThreshold: 100000,
+    bands: {
+      rest_of_uk: rUKBands(37700, 150000),
+      scotland: [
+        { name: 'Starter rate', rate: 0.19, upTo: 2162 },
+        { name: 'Basic rate', rate: 0.2, upTo: 13118 },
+        { name: 'Intermediate rate', rate: 0.21, upTo: 31092 },
+        { name: 'Higher rate', rate: 0.41, upTo: 150000 },
+        { name: 'Top rate', rate: 0.46, upTo: null },
+      ],
+    },
+    class4: { lowerProfitsLimit: 11908, upperProfitsLimit: 50270, mainRate: 0.0973, additionalRate: 0.0273 },
+    class2: { weeklyRate: 3.15, threshold: 11908 },
+  },
+  {
+    startYear: 2023,
+    label: '2023-24',
+    personalAllowance: 12570,
+    allowanceTaperThreshold: 100000,
+    bands: {
+      rest_of_uk: rUKBands(37700, 125140),
+      scotland: [
+        { name: 'Starter rate', rate: 0.19, upTo: 2162 },
+        { name: 'Basic rate', rate: 0.2, upTo: 13118 },
+        { name: 'Intermediate rate', rate: 0.21, upTo: 31092 },
+        { name: 'Higher rate', rate: 0.42, upTo: 125140 },
+        { name: 'Top rate', rate: 0.47, upTo: null },
+      ],
+    },
+    class4: { lowerProfitsLimit: 12570, upperProfitsLimit: 50270, mainRate: 0.09, additionalRate: 0.02 },
+    class2: { weeklyRate: 3.45, threshold: 12570 },
+  },
+  {
+    startYear: 2024,
+    label: '2024-25',
+    personalAllowance: 12570,
+    allowanceTaperThreshold: 100000,
+    bands: {
+      rest_of_uk: rUKBands(37700, 125140),
+      scotland: [
+        { name: 'Starter rate', rate: 0.19, upTo: 2306 },
+        { name: 'Basic rate', rate: 0.2, upTo: 13991 },
+        { name: 'Intermediate rate', rate: 0.21, upTo: 31092 },
+        { name: 'Higher rate', rate: 0.42, upTo: 62430 },
+        { name: 'Advanced rate', rate: 0.45, upTo: 125140 },
+        { name: 'Top rate', rate: 0.48, upTo: null },
+      ],
+    },
+    class4: { lowerProfitsLimit: 12570, upperProfitsLimit: 50270, mainRate: 0.06, additionalRate: 0.02 },
+    class2: null,
+  },
+  {
+    startYear: 2025,
+    label: '2025-26',
+    personalAllowance: 12570,
+    allowanceTaperThreshold: 100000,
+    bands: {
+      rest_of_uk: rUKBands(37700, 125140),
+      scotland: [
+        { name: 'Starter rate', rate: 0.19, upTo: 2827 },
+        { name: 'Basic rate', rate: 0.2, upTo: 14921 },
+        { name: 'Intermediate rate', rate: 0.21, upTo: 31092 },
+        { name: 'Higher rate', rate: 0.42, upTo: 62430 },
+        { name: 'Advanced rate', rate: 0.45, upTo: 125140 },
+        { name: 'Top rate', rate: 0.48, upTo: null },
+      ],
+    },
+    class4: { lowerProfitsLimit: 12570, upperProfitsLimit: 50270, mainRate: 0.06, additionalRate: 0.02 },
+    class2: null,
+  },
+];
+
+/**
+ * Rates for the tax year starting 6 April `startYear`. Years outside the
+ * table use the nearest year available and are flagged as assumed, so the
+ * estimate can say so rather than silently using the wrong figures.
+ */
+export function getTaxYearRates(startYear: number): { rates: TaxYearRates; isAssumed: boolean } {
+  const exact = TAX_YEAR_RATES.find(r => r.startYear === startYear);
+  if (exact) return { rates: exact, isAssumed: false };
+
+  const earlier = TAX_YEAR_RATES.filter(r => r.startYear < startYear);
+  return {
+    rates: earlier.length > 0 ? earlier[earlier.length - 1] : TAX_YEAR_RATES[0],
+    isAssumed: true,
+  };
+}
@@ -7,6 +7,11 @@ import {
   MatchStatus,
   ImportedTransaction
 } from './revolut-types';
+import {
+  RECURRING_AMOUNT_TOLERANCE_PERCENT,
+  RECURRING_MATCH_DAYS,
+  type ExpectedPayment
+} from './recurring-transactions';
 
 interface ExistingTransaction {
   id: string;
@@ -22,9 +27,17 @@ interface ExistingTransaction {
   };
 }
 
+export interface ExpectedPaymentMatch {
+  expectedPayment: ExpectedPayment;
+  importedTransaction: ImportedTransaction;
+  score: number;
+}
+
 export class TransactionMatcher {
   private static readonly DATE_TOLERANCE_DAYS = 2;
   private static readonly DESCRIPTION_SIMILARITY_THRESHOLD = 0.6;
+  // Without match text, amount and date alone would let any similar-sized spend fulfil a template
+  private static readonly EXPECTED_PAYMENT_DESCRIPTION_THRESHOLD = 0.3;
   private static readonly HIGH_CONFIDENCE_THRESHOLD = 0.9;
   private static readonly MEDIUM_CONFIDENCE_THRESHOLD = 0.6;
 
@@ -245,6 +258,82 @@ export class TransactionMatcher {
     }
   }
 
+  /**
+   * Pair imported bank rows with pending expected recurring payments. A row
+   * counts when it's the right direction, within the amount tolerance, lands
+   * within RECURRING_MATCH_DAYS of the due date and contains the template's
+   * match text if it has one. Each row and each payment is used once, best
+   * scores first.
+   */
+  static matchExpectedPayments(
+    importedTransactions: ImportedTransaction[],
+    expectedPayments: ExpectedPayment[]
+  ): ExpectedPaymentMatch[] {
+    const candidates: ExpectedPaymentMatch[] = [];
+
+    for (const imported of importedTransactions) {
+      if (imported.state === 'REVERTED') continue;
+
+      for (const expectedPayment of expectedPayments) {
+        const score = this.calculateExpectedPaymentScore(imported, expectedPayment);
+        if (score > 0) {
+          candidates.push({ expectedPayment, importedTransaction: imported, score });
+        }
+      }
+    }
+
+    const usedPayments = new Set<string>();
+    const usedImports = new Set<string>();
+    return candidates
+      .sort((a, b) => b.score - a.score)
+      .filter(candidate => {
+        if (usedPayments.has(candidate.expectedPayment.id) || usedImports.has(candidate.importedTransaction.id)) {
+          return false;
+        }
+        usedPayments.add(candidate.expectedPayment.id);
+        usedImports.add(candidate.importedTransaction.id);
+        return true;
+      });
+  }
+
+  /**
+   * Score an imported row against an expected payment, 0 when it can't be the payment
+   */
+  private static calculateExpectedPaymentScore(
+    imported: ImportedTransaction,
+    expectedPayment: ExpectedPayment
+  ): number {
+    const template = expectedPayment.recurring_transaction;
+    const importedType = imported.amount > 0 ? 'income' : 'expenditure';
+    if (importedType !== template.type) return 0;
+
+    if (template.bank_account_id && imported.bank_account_id && template.bank_account_id !== imported.bank_account_id) {
+      return 0;
+    }
+
+    const matchText = template.match_text?.trim().toLowerCase();
+    if (matchText && !imported.original_description.toLowerCase().includes(matchText)) return 0;
+
+    const expectedAmount = Number(expectedPayment.amount);
+    const amountDifference = Math.abs(Math.abs(imported.amount) - expectedAmount);
+    if (amountDifference > expectedAmount * (RECURRING_AMOUNT_TOLERANCE_PERCENT / 100)) return 0;
+
+    // Rounded because a clock change makes the day count fractional
+    const daysDifference = Math.round(this.compareDates(imported.started_date, expectedPayment.due_date).daysDifference);
+    if (daysDifference > RECURRING_MATCH_DAYS) return 0;
+
+    const descriptionSimilarity = this.compareDescriptions(imported.original_description, template.description);
+    if (!matchText && descriptionSimilarity < this.EXPECTED_PAYMENT_DESCRIPTION_THRESHOLD) return 0;
+
+    const amountMatch = this.compareAmounts(imported.amount, expectedAmount);
+    let score = amountMatch.isExact ? 0.4 : amountMatch.isClose ? 0.3 : 0.2;
+    score += 0.3 * (1 - daysDifference / (RECURRING_MATCH_DAYS + 1));
+    score += 0.2 * descriptionSimilarity;
+    if (matchText) score += 0.1;
+
+    return score;
+  }
+
   /**
    * Filter matches by confidence level
    */
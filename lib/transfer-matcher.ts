@@ -0,0 +1,116 @@
+// Transfer Matching Engine
+// Pairs equal and opposite movements between our own accounts so they aren't counted as income and expenditure
+
+import type { MatchConfidence } from './revolut-types';
+
+export interface TransferCandidate {
+  id: string;
+  /** Signed amount - negative when money leaves the account */
+  amount: number;
+  /** YYYY-MM-DD */
+  date: string;
+  /** Bank account id or statement product; rows without one can't be paired */
+  accountKey: string | null;
+  description: string;
+}
+
+export interface TransferPairSuggestion {
+  outgoing: TransferCandidate;
+  incoming: TransferCandidate;
+  amount: number;
+  daysApart: number;
+  confidence: MatchConfidence;
+  reasons: string[];
+}
+
+export class TransferMatcher {
+  static readonly DATE_WINDOW_DAYS = 3;
+  private static readonly AMOUNT_TOLERANCE = 0.01;
+  private static readonly TRANSFER_KEYWORDS = ['transfer', 'pocket', 'savings', 'vault'];
+
+  /**
+   * Key used to remember pairings the user has broken
+   */
+  static pairKey(outgoingId: string, incomingId: string): string {
+    return `${outgoingId}:${incomingId}`;
+  }
+
+  /**
+   * Pair outgoing and incoming movements of the same amount on different
+   * accounts within the date window. Closest dates win and each row is used
+   * at most once. Pairs listed in `excludedPairs` are never suggested.
+   */
+  static findPairs(
+    candidates: TransferCandidate[],
+    excludedPairs: Set<string> = new Set()
+  ): TransferPairSuggestion[] {
+    const outgoing = candidates.filter(c => c.amount < 0 && c.accountKey);
+    const incoming = candidates.filter(c => c.amount > 0 && c.accountKey);
+
+    const possible: TransferPairSuggestion[] = [];
+    for (const out of outgoing) {
+      for (const into of incoming) {
+        if (out.accountKey === into.accountKey) continue;
+        if (Math.abs(out.amount + into.amount) >= this.AMOUNT_TOLERANCE) continue;
+        if (excludedPairs.has(this.pairKey(out.id, into.id))) continue;
+
+        const daysApart = this.daysBetween(out.date, into.date);
+        if (daysApart > this.DATE_WINDOW_DAYS) continue;
+
+        possible.push(this.buildSuggestion(out, into, daysApart));
+      }
+    }
+
+    // Greedy assignment: same-day and keyword matches first
+    possible.sort((a, b) =>
+      a.daysApart - b.daysApart ||
+      b.reasons.length - a.reasons.length ||
+      a.outgoing.date.localeCompare(b.outgoing.date)
+    );
+
+    const used = new Set<string>();
+    const pairs: TransferPairSuggestion[] = [];
+    for (const suggestion of possible) {
+      if (used.has(suggestion.outgoing.id) || used.has(suggestion.incoming.id)) continue;
+      used.add(suggestion.outgoing.id);
+      used.add(suggestion.incoming.id);
+      pairs.push(suggestion);
+    }
+
+    return pairs;
+  }
+
+  private static buildSuggestion(
+    outgoing: TransferCandidate,
+    incoming: TransferCandidate,
+    daysApart: number
+  ): TransferPairSuggestion {
+    const reasons = ['Equal and opposite amounts', 'Different accounts'];
+    reasons.push(daysApart === 0 ? 'Same date' : `Dates ${daysApart} day${daysApart === 1 ? '' : 's'} apart`);
+
+    const looksLikeTransfer = [outgoing.description, incoming.description].some(d => this.hasTransferKeyword(d));
+    if (looksLikeTransfer) {
+      reasons.push('Description mentions a transfer');
+    }
+
+    return {
+      outgoing,
+      incoming,
+      amount: Math.abs(outgoing.amount),
+      daysApart,
+      confidence: daysApart === 0 || looksLikeTransfer ? 'HIGH' : 'MEDIUM',
+      reasons,
+    };
+  }
+
+  private static hasTransferKeyword(description: string): boolean {
+    const normalized = description.toLowerCase();
+    return this.TRANSFER_KEYWORDS.some(keyword => normalized.includes(keyword));
+  }
+
+  private static daysBetween(a: string, b: string): number {
+    const msPerDay = 1000 * 60 * 60 * 24;
+    const diff = new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime();
+    return Math.abs(Math.round(diff / msPerDay));
+  }
+}
@@ -0,0 +1,124 @@
+// Inter-account Transfers
+// Detects transfers between our own accounts; confirmed pairs stay out of the P&L
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TransferMatcher, type TransferCandidate } from './transfer-matcher';
+
+export type TransferPairStatus = 'suggested' | 'confirmed' | 'broken';
+
+export type TransferDirection = 'in' | 'out';
+
+type PairableType = 'income' | 'expenditure' | 'capital';
+
+export interface TransferPair {
+  id: string;
+  user_id: string;
+  outgoing_transaction_id: string;
+  incoming_transaction_id: string;
+  outgoing_original_type: PairableType;
+  incoming_original_type: PairableType;
+  amount: number;
+  days_apart: number;
+  match_reasons: string[] | null;
+  status: TransferPairStatus;
+  created_at: string;
+  confirmed_at: string | null;
+  broken_at: string | null;
+}
+
+export interface TransferLeg {
+  id: string;
+  description: string;
+  amount: number;
+  transaction_date: string;
+  bank_account_id: string | null;
+}
+
+export interface TransferPairWithLegs extends TransferPair {
+  outgoing: TransferLeg | null;
+  incoming: TransferLeg | null;
+}
+
+export const TRANSFER_STATUS_LABELS: Record<TransferPairStatus, string> = {
+  suggested: 'Suggested',
+  confirmed: 'Confirmed',
+  broken: 'Not a transfer',
+};
+
+/**
+ * Look for unpaired income/expenditure rows that mirror each other across
+ * accounts and tag both legs with a suggested pair. The legs keep their
+ * income/expenditure type until the pair is confirmed. Pairs the user has
+ * broken before are skipped. Returns the number of new pairs.
+ */
+export async function detectTransferPairs(
+  supabase: SupabaseClient,
+  userId: string,
+  range: { from?: string; to?: string } = {}
+): Promise<number> {
+  // Widen the window so legs either side of the range can still pair up
+  const windowMs = TransferMatcher.DATE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const shift = (date: string, direction: 1 | -1) =>
+    new Date(new Date(`${date}T00:00:00Z`).getTime() + direction * windowMs).toISOString().split('T')[0];
+
+  let query = supabase
+    .from('transactions')
+    .select('id, amount, type, transaction_date, description, bank_account_id')
+    .in('type', ['income', 'expenditure'])
+    .is('transfer_pair_id', null)
+    .is('vat_return_id', null)
+    .not('bank_account_id', 'is', null);
+
+  if (range.from) query = query.gte('transaction_date', shift(range.from, -1));
+  if (range.to) query = query.lte('transaction_date', shift(range.to, 1));
+
+  const [{ data: rows, error }, { data: brokenPairs, error: brokenError }] = await Promise.all([
+    query,
+    supabase
+      .from('transfer_pairs')
+      .select('outgoing_transaction_id, incoming_transaction_id')
+      .eq('status', 'broken'),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load transactions for transfer detection: ${error.message}`);
+  }
+  if (brokenError) {
+    throw new Error(`Failed to load broken transfer pairs: ${brokenError.message}`);
+  }
+
+  const candidates: TransferCandidate[] = (rows || []).map(row => ({
+    id: row.id,
+    amount: row.type === 'expenditure' ? -Math.abs(Number(row.amount)) : Math.abs(Number(row.amount)),
+    date: row.transaction_date,
+    accountKey: row.bank_account_id,
+    description: row.description || '',
+  }));
+  const excluded = new Set(
+    (brokenPairs || []).map(p => TransferMatcher.pairKey(p.outgoing_transaction_id, p.incoming_transaction_id))
+  );
+
+  const suggestions = TransferMatcher.findPairs(candidates, excluded);
+  if (suggestions.length === 0) return 0;
+
+  // Each pair is created and both legs tagged in one database call, so a leg
+  // that can't be tagged never leaves a half-made pair behind
+  let created = 0;
+  for (const suggestion of suggestions) {
+    const { data: pairId, error: pairError } = await supabase.rpc('create_transfer_pair', {
+      target_user_id: userId,
+      outgoing_id: suggestion.outgoing.id,
+      incoming_id: suggestion.incoming.id,
+      pair_amount: suggestion.amount,
+      pair_days_apart: suggestion.daysApart,
+      pair_match_reasons: suggestion.reasons,
+    });
+
+    if (pairError) {
+      throw new Error(`Failed to save transfer pair: ${pairError.message}`);
+    }
+    if (pairId) created++;
+  }
+
+  return created;
+}
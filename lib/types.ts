@@ -1,3 +1,8 @@
+import type { VatTreatment } from './vat';
+import type { Sa103Line } from './sa103';
+import type { CapitalAllowancePool } from './capital-allowances';
+import type { SimplifiedExpenseKind } from './simplified-expenses';
+
 export interface User {
   id: string;
   email: string;
@@ -14,6 +19,11 @@ export interface Category {
   type: 'income' | 'expenditure' | 'capital';
   color?: string;
   capital_movement_type?: 'injection' | 'drawing' | null;
+  vat_treatment?: VatTreatment | null;
+  vat_rate?: number | null;
+  sa103_box?: Sa103Line | null;
+  business_use_percent?: number | null;
+  disallowable?: boolean;
   created_at: string;
 }
 
@@ -22,9 +32,24 @@ export interface Transaction {
   user_id: string;
   category_id?: string;
   amount: number;
-  type: 'income' | 'expenditure' | 'capital';
+  type: 'income' | 'expenditure' | 'capital' | 'transfer';
   description?: string;
   transaction_date: string;
+  bank_account_id?: string | null;
+  transfer_pair_id?: string | null;
+  transfer_direction?: 'in' | 'out' | null;
+  reconciled_session_id?: string | null;
+  vat_return_id?: string | null;
+  fixed_asset_id?: string | null;
+  capital_allowance_pool?: CapitalAllowancePool | null;
+  aia_eligible?: boolean;
+  business_use_percent?: number | null;
+  disallowable?: boolean;
+  simplified_expense?: SimplifiedExpenseKind | null;
+  vat_treatment?: VatTreatment | null;
+  vat_rate?: number | null;
+  vat_amount?: number | null;
+  tax_point_date?: string | null;
   created_at: string;
   updated_at: string;
   category?: Category;
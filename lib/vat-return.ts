@@ -0,0 +1,141 @@
+// VAT Return Engine
+// Builds the nine HMRC VAT return boxes from transactions under standard, flat rate or cash accounting
+
+import { resolveVat, type ResolvedVat, type VatSettings, type VatTransactionRow } from './vat';
+
+export type VatBoxNumber = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+export interface VatReturnRow extends VatTransactionRow {
+  id: string;
+  description: string | null;
+  type: 'income' | 'expenditure' | 'capital' | 'transfer';
+  transaction_date: string;
+  tax_point_date: string | null;
+  category_id: string | null;
+  /** Set when the purchase was capitalised as a fixed asset */
+  fixed_asset_id: string | null;
+}
+
+export interface VatBoxContribution {
+  row: VatReturnRow;
+  vat: ResolvedVat;
+  /** What this transaction adds to the box */
+  amount: number;
+}
+
+export interface VatReturn {
+  boxes: Record<VatBoxNumber, number>;
+  contributions: Partial<Record<VatBoxNumber, VatBoxContribution[]>>;
+  /** Income and expenditure with no VAT treatment on the transaction or its category */
+  unassigned: VatReturnRow[];
+}
+
+export const VAT_BOX_LABELS: Record<VatBoxNumber, string> = {
+  1: 'VAT due on sales and other outputs',
+  2: 'VAT due on acquisitions of goods from the EU (Northern Ireland only)',
+  3: 'Total VAT due',
+  4: 'VAT reclaimed on purchases and other inputs',
+  5: 'Net VAT to pay to HMRC or reclaim',
+  6: 'Total value of sales and all other outputs excluding VAT',
+  7: 'Total value of purchases and all other inputs excluding VAT',
+  8: 'Total value of supplies of goods to EU member states (Northern Ireland only)',
+  9: 'Total value of acquisitions of goods from EU member states (Northern Ireland only)',
+};
+
+/** Flat rate businesses can only reclaim VAT on capital goods costing this much or more including VAT */
+export const FLAT_RATE_CAPITAL_GOODS_THRESHOLD = 2000;
+
+/** Boxes that are sums of other boxes and have no transactions of their own */
+export const DERIVED_VAT_BOXES: VatBoxNumber[] = [3, 5];
+
+export class VatReturnCalculator {
+  /**
+   * Date a transaction counts towards the return: the invoice date under
+   * standard and flat rate accounting, the payment date under cash accounting.
+   */
+  static taxPoint(row: Pick<VatReturnRow, 'transaction_date' | 'tax_point_date'>, settings: VatSettings): string {
+    return settings.scheme === 'cash' ? row.transaction_date : row.tax_point_date ?? row.transaction_date;
+  }
+
+  /**
+   * Boxes 1-5 are in pounds and pence, boxes 6-9 in whole pounds (pence dropped).
+   * Box 5 is positive when VAT is owed and negative when it's a repayment.
+   * Boxes 2, 8 and 9 only apply to Northern Ireland goods movements and are left at zero.
+   * Under flat rate, boxes 4 and 7 only hold capital goods of £2,000 or more including VAT.
+   */
+  static calculate(rows: VatReturnRow[], settings: VatSettings): VatReturn {
+    const contributions: Partial<Record<VatBoxNumber, VatBoxContribution[]>> = {};
+    const unassigned: VatReturnRow[] = [];
+    const add = (box: VatBoxNumber, row: VatReturnRow, vat: ResolvedVat, amount: number) => {
+      if (amount === 0) return;
+      (contributions[box] ??= []).push({ row, vat, amount });
+    };
+
+    for (const row of rows) {
+      if (row.type !== 'income' && row.type !== 'expenditure') continue;
+
+      const vat = resolveVat(row);
+      if (!vat) {
+        unassigned.push(row);
+        continue;
+      }
+      if (vat.treatment === 'outside_scope') continue;
+
+      if (row.type === 'income') {
+        if (settings.scheme === 'flat_rate') {
+          // Flat rate turnover includes VAT and every supply, zero rated and exempt too
+          add(1, row, vat, (vat.grossAmount * settings.flatRatePercentage) / 100);
+          add(6, row, vat, vat.grossAmount);
+        } else {
+          add(1, row, vat, vat.vatAmount);
+          add(6, row, vat, vat.netAmount);
+        }
+        continue;
+      }
+
+      // Reverse charge services are both output and input VAT, and count as a sale and a purchase
+      if (vat.treatment === 'reverse_charge') {
+        add(1, row, vat, vat.vatAmount);
+        add(6, row, vat, vat.netAmount);
+      }
+
+      // Flat rate businesses can't reclaim input VAT, so other purchases stay out of boxes 4 and 7
+      if (settings.scheme === 'flat_rate' && !this.isFlatRateCapitalPurchase(row, vat)) continue;
+
+      add(4, row, vat, vat.vatAmount);
+      add(7, row, vat, vat.netAmount);
+    }
+
+    const total = (box: VatBoxNumber) =>
+      (contributions[box] ?? []).reduce((sum, contribution) => sum + contribution.amount, 0);
+
+    const box1 = this.roundPence(total(1));
+    const box2 = 0;
+    const box3 = this.roundPence(box1 + box2);
+    const box4 = this.roundPence(total(4));
+
+    return {
+      boxes: {
+        1: box1,
+        2: box2,
+        3: box3,
+        4: box4,
+        5: this.roundPence(box3 - box4),
+        6: Math.trunc(total(6)),
+        7: Math.trunc(total(7)),
+        8: 0,
+        9: 0,
+      },
+      contributions,
+      unassigned,
+    };
+  }
+
+  private static isFlatRateCapitalPurchase(row: VatReturnRow, vat: ResolvedVat): boolean {
+    return !!row.fixed_asset_id && vat.grossAmount >= FLAT_RATE_CAPITAL_GOODS_THRESHOLD;
+  }
+
+  private static roundPence(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,179 @@
+// VAT Returns
+// Finalised VAT returns, the transactions they lock and HMRC submission receipts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { format } from 'date-fns';
+import { buildMtdVatPayload, type MtdVatReceipt, type MtdVatReturnPayload } from './mtd-vat';
+import type { VatPeriod, VatScheme, VatSettings } from './vat';
+import { VatReturnCalculator, type VatBoxNumber, type VatReturn, type VatReturnRow } from './vat-return';
+
+export type VatReturnStatus = 'finalised' | 'submitted';
+
+export interface VatReturnRecord {
+  id: string;
+  user_id: string;
+  vrn: string;
+  period_key: string;
+  period_start: string;
+  period_end: string;
+  scheme: VatScheme;
+  flat_rate_percentage: number | null;
+  vat_due_sales: number;
+  vat_due_acquisitions: number;
+  total_vat_due: number;
+  vat_reclaimed_curr_period: number;
+  net_vat_due: number;
+  total_value_sales_ex_vat: number;
+  total_value_purchases_ex_vat: number;
+  total_value_goods_supplied_ex_vat: number;
+  total_acquisitions_ex_vat: number;
+  payload: MtdVatReturnPayload;
+  status: VatReturnStatus;
+  finalised_by_email: string | null;
+  finalised_at: string;
+  receipt: MtdVatReceipt | null;
+  submitted_at: string | null;
+  created_at: string;
+}
+
+export interface FinaliseVatReturnInput {
+  userId: string;
+  userEmail: string | null;
+  vrn: string;
+  periodKey: string;
+  period: VatPeriod;
+  settings: VatSettings;
+}
+
+export const VAT_LOCKED_EDIT_WARNING =
+  'This transaction is in a finalised VAT return - its amount, dates, category and VAT can\'t be changed unless the return is reopened.';
+
+/**
+ * Transactions of every type counting towards a VAT period that aren't already
+ * locked by another return. Only income and expenditure feed the boxes; the
+ * rest are fetched so finalising locks them too. Cash accounting goes by
+ * payment date; standard and flat rate go by invoice date when one is recorded.
+ */
+export async function fetchVatReturnRows(
+  supabase: SupabaseClient,
+  period: VatPeriod,
+  scheme: VatScheme
+): Promise<VatReturnRow[]> {
+  const start = format(period.start, 'yyyy-MM-dd');
+  const end = format(period.end, 'yyyy-MM-dd');
+
+  // Note: No user_id filter - transactions follow the shared data model
+  let query = supabase
+    .from('transactions')
+    .select('id, description, amount, type, transaction_date, tax_point_date, category_id, fixed_asset_id, vat_treatment, vat_rate, vat_amount, categories(name, vat_treatment, vat_rate)')
+    .is('vat_return_id', null)
+    .order('transaction_date', { ascending: true });
+
+  query = scheme === 'cash'
+    ? query.gte('transaction_date', start).lte('transaction_date', end)
+    : query.or(
+        `and(tax_point_date.gte.${start},tax_point_date.lte.${end}),` +
+        `and(tax_point_date.is.null,transaction_date.gte.${start},transaction_date.lte.${end})`
+      );
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []) as unknown as VatReturnRow[];
+}
+
+/**
+ * The nine boxes as stored on a finalised return
+ */
+export function vatReturnBoxes(record: VatReturnRecord): Record<VatBoxNumber, number> {
+  return {
+    1: Number(record.vat_due_sales),
+    2: Number(record.vat_due_acquisitions),
+    3: Number(record.total_vat_due),
+    4: Number(record.vat_reclaimed_curr_period),
+    // Stored as HMRC's absolute figure; a repayment is when box 4 exceeds box 3
+    5: Number(record.total_vat_due) - Number(record.vat_reclaimed_curr_period),
+    6: Number(record.total_value_sales_ex_vat),
+    7: Number(record.total_value_purchases_ex_vat),
+    8: Number(record.total_value_goods_supplied_ex_vat),
+    9: Number(record.total_acquisitions_ex_vat),
+  };
+}
+
+/**
+ * Recalculate the period from the database, then store the return and lock
+ * every transaction in the period in one database transaction, so a period is
+ * never half finalised. The database refuses if the period changed in between.
+ */
+export async function finaliseVatReturn(
+  supabase: SupabaseClient,
+  input: FinaliseVatReturnInput
+): Promise<{ record: VatReturnRecord; vatReturn: VatReturn; locked: number }> {
+  const rows = await fetchVatReturnRows(supabase, input.period, input.settings.scheme);
+  const vatReturn = VatReturnCalculator.calculate(rows, input.settings);
+  const payload = buildMtdVatPayload(input.periodKey, vatReturn.boxes);
+
+  const { data, error } = await supabase.rpc('finalise_vat_return', {
+    vat_return: {
+      user_id: input.userId,
+      vrn: input.vrn,
+      period_key: input.periodKey,
+      period_start: format(input.period.start, 'yyyy-MM-dd'),
+      period_end: format(input.period.end, 'yyyy-MM-dd'),
+      scheme: input.settings.scheme,
+      flat_rate_percentage: input.settings.scheme === 'flat_rate' ? input.settings.flatRatePercentage : null,
+      vat_due_sales: payload.vatDueSales,
+      vat_due_acquisitions: payload.vatDueAcquisitions,
+      total_vat_due: payload.totalVatDue,
+      vat_reclaimed_curr_period: payload.vatReclaimedCurrPeriod,
+      net_vat_due: payload.netVatDue,
+      total_value_sales_ex_vat: payload.totalValueSalesExVAT,
+      total_value_purchases_ex_vat: payload.totalValuePurchasesExVAT,
+      total_value_goods_supplied_ex_vat: payload.totalValueGoodsSuppliedExVAT,
+      total_acquisitions_ex_vat: payload.totalAcquisitionsExVAT,
+      payload,
+      finalised_by_email: input.userEmail,
+    },
+    // Every transaction in the period, including ones that fed no box (capital,
+    // transfers, outside scope, unassigned), so none can change after finalising
+    calculated_transaction_ids: rows.map(row => row.id),
+  });
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`A VAT return for period ${input.periodKey} already exists`);
+    }
+    throw new Error(`Failed to finalise VAT return: ${error.message}`);
+  }
+
+  const result = data as { record: VatReturnRecord; locked: number };
+  return { record: result.record, vatReturn, locked: result.locked };
+}
+
+/**
+ * Mark a finalised return as submitted with HMRC's receipt. After this the
+ * database refuses any further change to the record.
+ */
+export async function recordVatReturnSubmission(
+  supabase: SupabaseClient,
+  returnId: string,
+  receipt: MtdVatReceipt
+): Promise<VatReturnRecord> {
+  const { data, error } = await supabase
+    .from('vat_returns')
+    .update({
+      status: 'submitted',
+      receipt,
+      submitted_at: new Date().toISOString(),
+    })
+    .eq('id', returnId)
+    .eq('status', 'finalised')
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record VAT return submission: ${error.message}`);
+  }
+
+  return data as VatReturnRecord;
+}
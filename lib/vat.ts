@@ -0,0 +1,144 @@
+// VAT
+// VAT treatments, category defaults and VAT quarter periods
+
+export type VatTreatment = 'standard' | 'reduced' | 'zero' | 'exempt' | 'outside_scope' | 'reverse_charge';
+
+export type VatScheme = 'standard' | 'flat_rate' | 'cash';
+
+/** Which months VAT quarters end in: 1 = Mar/Jun/Sep/Dec, 2 = Apr/Jul/Oct/Jan, 3 = May/Aug/Nov/Feb */
+export type VatStagger = 1 | 2 | 3;
+
+export interface VatSettings {
+  scheme: VatScheme;
+  /** Flat rate percentage for the business sector, only used by the flat rate scheme */
+  flatRatePercentage: number;
+  stagger: VatStagger;
+  /** VAT registration number used when finalising returns */
+  vrn: string;
+}
+
+export interface VatPeriod {
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+interface VatCategoryDefaults {
+  name?: string;
+  vat_treatment: VatTreatment | null;
+  vat_rate: number | string | null;
+}
+
+export interface VatTransactionRow {
+  amount: number | string;
+  vat_treatment: VatTreatment | null;
+  vat_rate: number | string | null;
+  vat_amount: number | string | null;
+  categories?: VatCategoryDefaults | VatCategoryDefaults[] | null;
+}
+
+export interface ResolvedVat {
+  treatment: VatTreatment;
+  rate: number;
+  /** VAT included in the gross amount, or self-accounted on top of it for reverse charge */
+  vatAmount: number;
+  /** Amount excluding VAT */
+  netAmount: number;
+  grossAmount: number;
+  /** False when the treatment comes from the category default */
+  isOverride: boolean;
+}
+
+export const VAT_SETTINGS_PREFERENCE_KEY = 'vat-settings';
+
+export const DEFAULT_VAT_SETTINGS: VatSettings = {
+  scheme: 'standard',
+  flatRatePercentage: 0,
+  stagger: 1,
+  vrn: '',
+};
+
+export const VAT_TREATMENT_LABELS: Record<VatTreatment, string> = {
+  standard: 'Standard rate',
+  reduced: 'Reduced rate',
+  zero: 'Zero rated',
+  exempt: 'Exempt',
+  outside_scope: 'Outside the scope',
+  reverse_charge: 'Reverse charge',
+};
+
+export const VAT_SCHEME_LABELS: Record<VatScheme, string> = {
+  standard: 'Standard accounting',
+  flat_rate: 'Flat Rate Scheme',
+  cash: 'Cash accounting',
+};
+
+export const DEFAULT_VAT_RATES: Record<VatTreatment, number> = {
+  standard: 20,
+  reduced: 5,
+  zero: 0,
+  exempt: 0,
+  outside_scope: 0,
+  reverse_charge: 20,
+};
+
+const roundPence = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: number | string | null | undefined): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+/**
+ * Work out a transaction's VAT from its own fields, falling back to its
+ * category's defaults. Returns null when neither sets a treatment.
+ * A stored vat_amount always wins over one calculated from the rate.
+ */
+export function resolveVat(row: VatTransactionRow): ResolvedVat | null {
+  const category = Array.isArray(row.categories) ? row.categories[0] : row.categories;
+  const isOverride = !!row.vat_treatment;
+  const treatment = row.vat_treatment ?? category?.vat_treatment ?? null;
+  if (!treatment) return null;
+
+  const rate = (isOverride ? toNumber(row.vat_rate) : toNumber(category?.vat_rate)) ?? DEFAULT_VAT_RATES[treatment];
+  const grossAmount = Math.abs(Number(row.amount));
+  const storedVat = toNumber(row.vat_amount);
+
+  if (treatment === 'reverse_charge') {
+    const vatAmount = storedVat ?? roundPence((grossAmount * rate) / 100);
+    return { treatment, rate, vatAmount, netAmount: grossAmount, grossAmount, isOverride };
+  }
+
+  if (treatment === 'zero' || treatment === 'exempt' || treatment === 'outside_scope' || rate === 0) {
+    return { treatment, rate, vatAmount: 0, netAmount: grossAmount, grossAmount, isOverride };
+  }
+
+  const vatAmount = storedVat ?? roundPence((grossAmount * rate) / (100 + rate));
+  return { treatment, rate, vatAmount, netAmount: roundPence(grossAmount - vatAmount), grossAmount, isOverride };
+}
+
+/**
+ * The VAT quarter ending in the given month (0-11) of `year`
+ */
+export function buildVatQuarter(year: number, endMonth: number): VatPeriod {
+  const start = new Date(year, endMonth - 2, 1);
+  const end = new Date(year, endMonth + 1, 0);
+  const monthLabel = (d: Date) => d.toLocaleDateString('en-GB', { month: 'short', year: 'numeric' });
+  return { label: `${monthLabel(start)} – ${monthLabel(end)}`, start, end };
+}
+
+/**
+ * The most recent `count` VAT quarters for a stagger, newest first, starting
+ * with the quarter that contains `today`.
+ */
+export function getVatQuarters(stagger: VatStagger, count = 8, today: Date = new Date()): VatPeriod[] {
+  // Stagger 1 ends in March (month 2), stagger 2 in April, stagger 3 in May
+  const firstEndMonth = stagger + 1;
+  const monthsSinceEnd = (((today.getMonth() - firstEndMonth) % 3) + 3) % 3;
+  let endIndex = today.getFullYear() * 12 + today.getMonth() + (monthsSinceEnd === 0 ? 0 : 3 - monthsSinceEnd);
+
+  const quarters: VatPeriod[] = [];
+  for (let i = 0; i < count; i++) {
+    quarters.push(buildVatQuarter(Math.floor(endIndex / 12), endIndex % 12));
+    endIndex -= 3;
+  }
+  return quarters;
+}
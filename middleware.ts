@@ -14,8 +14,9 @@ export const config = {
      * - favicon.ico (favicon file)
      * - api/health (health check endpoint)
      * - api/test-auth (test authentication endpoint - dev only)
+     * - api/reports/scheduled (cron endpoint - authenticates with CRON_SECRET)
      * Feel free to modify this pattern to include more paths.
      */
-    "/((?!_next/static|_next/image|favicon.ico|api/health|api/test-auth|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
+    "/((?!_next/static|_next/image|favicon.ico|api/health|api/test-auth|api/reports/scheduled|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
   ],
 };
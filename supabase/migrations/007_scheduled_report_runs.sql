@@ -0,0 +1,61 @@
+-- Migration: Scheduled report run history
+-- Problem: scheduled_reports stores a schedule but nothing records whether a run
+--          happened, what it produced, or why it failed
+-- Changes:
+--   1. Create scheduled_report_runs (one row per runner attempt)
+--   2. Index scheduled_reports on next_run so the runner can find due schedules
+
+-- 1. Run history table
+CREATE TABLE IF NOT EXISTS scheduled_report_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  scheduled_report_id UUID REFERENCES scheduled_reports(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  period_start DATE,
+  period_end DATE,
+  formats TEXT[] NOT NULL DEFAULT '{}',
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  transport TEXT,
+  delivery_reference TEXT,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_report_runs_user_id
+  ON scheduled_report_runs(user_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_report_runs_schedule
+  ON scheduled_report_runs(scheduled_report_id, started_at DESC);
+
+ALTER TABLE scheduled_report_runs ENABLE ROW LEVEL SECURITY;
+
+-- Runs are written by the server-side runner (service role bypasses RLS);
+-- every signed-in user can read and clear the history, matching the shared data model
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'scheduled_report_runs' AND policyname = 'Authenticated users can view report runs') THEN
+    CREATE POLICY "Authenticated users can view report runs" ON scheduled_report_runs
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'scheduled_report_runs' AND policyname = 'Users can insert own report runs') THEN
+    CREATE POLICY "Users can insert own report runs" ON scheduled_report_runs
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'scheduled_report_runs' AND policyname = 'Authenticated users can update report runs') THEN
+    CREATE POLICY "Authenticated users can update report runs" ON scheduled_report_runs
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'scheduled_report_runs' AND policyname = 'Authenticated users can delete report runs') THEN
+    CREATE POLICY "Authenticated users can delete report runs" ON scheduled_report_runs
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
+
+-- 2. Due-schedule lookup
+CREATE INDEX IF NOT EXISTS idx_scheduled_reports_next_run
+  ON scheduled_reports(next_run)
+  WHERE is_active = true;
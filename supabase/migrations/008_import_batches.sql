@@ -0,0 +1,103 @@
+-- Migration: Import batches with rollback support
+-- Problem: Imports can only be undone with a full data reset - nothing records
+--          which transactions (or learned patterns) came from which file
+-- Changes:
+--   1. Create import_batches (one row per import run)
+--   2. Tag transactions and staged bank rows with import_batch_id
+--   3. Create import_batch_pattern_effects so pattern learning can be reversed
+--   RLS on both tables - visible to and reversible by every signed-in user,
+--   matching the shared data model used for transactions
+
+-- 1. Import batches
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('revolut', 'bank_upload', 'transaction_csv')),
+  file_name TEXT NOT NULL,
+  file_checksum TEXT,
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  imported_rows INTEGER NOT NULL DEFAULT 0,
+  duplicate_rows INTEGER NOT NULL DEFAULT 0,
+  failed_rows INTEGER NOT NULL DEFAULT 0,
+  committed_rows INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'staged' CHECK (status IN ('staged', 'committed', 'rolled_back')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  committed_at TIMESTAMPTZ,
+  rolled_back_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_user_id ON import_batches(user_id);
+CREATE INDEX IF NOT EXISTS idx_import_batches_checksum ON import_batches(user_id, file_checksum);
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'import_batches' AND policyname = 'Authenticated users can view import batches') THEN
+    CREATE POLICY "Authenticated users can view import batches" ON import_batches
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'import_batches' AND policyname = 'Users can insert own import batches') THEN
+    CREATE POLICY "Users can insert own import batches" ON import_batches
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'import_batches' AND policyname = 'Authenticated users can update import batches') THEN
+    CREATE POLICY "Authenticated users can update import batches" ON import_batches
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'import_batches' AND policyname = 'Authenticated users can delete import batches') THEN
+    CREATE POLICY "Authenticated users can delete import batches" ON import_batches
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
+
+-- 2. Batch tagging
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_import_batch_id ON transactions(import_batch_id);
+
+ALTER TABLE imported_transactions_test
+  ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+
+-- 3. Pattern learning side effects, recorded as the deltas actually applied
+CREATE TABLE IF NOT EXISTS import_batch_pattern_effects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  import_batch_id UUID REFERENCES import_batches(id) ON DELETE CASCADE NOT NULL,
+  pattern_id UUID REFERENCES categorization_patterns(id) ON DELETE CASCADE NOT NULL,
+  effect TEXT NOT NULL CHECK (effect IN ('created', 'reinforced', 'weakened')),
+  match_count_delta INTEGER NOT NULL DEFAULT 0,
+  confidence_delta INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batch_pattern_effects_user_id ON import_batch_pattern_effects(user_id);
+CREATE INDEX IF NOT EXISTS idx_import_batch_pattern_effects_batch ON import_batch_pattern_effects(import_batch_id);
+
+ALTER TABLE import_batch_pattern_effects ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'import_batch_pattern_effects' AND policyname = 'Authenticated users can view pattern effects') THEN
+    CREATE POLICY "Authenticated users can view pattern effects" ON import_batch_pattern_effects
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'import_batch_pattern_effects' AND policyname = 'Users can insert own pattern effects') THEN
+    CREATE POLICY "Users can insert own pattern effects" ON import_batch_pattern_effects
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'import_batch_pattern_effects' AND policyname = 'Authenticated users can update pattern effects') THEN
+    CREATE POLICY "Authenticated users can update pattern effects" ON import_batch_pattern_effects
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'import_batch_pattern_effects' AND policyname = 'Authenticated users can delete pattern effects') THEN
+    CREATE POLICY "Authenticated users can delete pattern effects" ON import_batch_pattern_effects
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
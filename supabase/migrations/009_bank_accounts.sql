@@ -0,0 +1,49 @@
+-- Migration: Bank accounts with persisted opening balances
+-- Problem: The opening balance used by cash flow and reconciliation lived in
+--          browser localStorage - per-browser, undated and invisible to colleagues
+-- Changes:
+--   1. Create bank_accounts with opening balance and opening balance date
+--   2. RLS - accounts are visible to and editable by every signed-in user,
+--      matching the shared data model used for transactions
+
+-- 1. Bank accounts
+CREATE TABLE IF NOT EXISTS bank_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  name TEXT NOT NULL,
+  provider TEXT,
+  currency TEXT NOT NULL DEFAULT 'GBP',
+  opening_balance NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  opening_balance_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_accounts_user_id ON bank_accounts(user_id);
+
+-- 2. RLS
+ALTER TABLE bank_accounts ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_accounts' AND policyname = 'Authenticated users can view bank accounts') THEN
+    CREATE POLICY "Authenticated users can view bank accounts" ON bank_accounts
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_accounts' AND policyname = 'Users can insert own bank accounts') THEN
+    CREATE POLICY "Users can insert own bank accounts" ON bank_accounts
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_accounts' AND policyname = 'Authenticated users can update bank accounts') THEN
+    CREATE POLICY "Authenticated users can update bank accounts" ON bank_accounts
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_accounts' AND policyname = 'Authenticated users can delete bank accounts') THEN
+    CREATE POLICY "Authenticated users can delete bank accounts" ON bank_accounts
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
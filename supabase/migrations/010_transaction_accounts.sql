@@ -0,0 +1,18 @@
+-- Migration: Tag transactions with the bank account they belong to
+-- Problem: Everything assumed a single bank account - transactions had no
+--          account and imports ignored the Revolut Product column
+-- Changes:
+--   1. Add product_code to bank_accounts for import auto-detection
+--   2. Add bank_account_id to transactions and staged import rows
+
+-- 1. Product mapping
+ALTER TABLE bank_accounts
+  ADD COLUMN IF NOT EXISTS product_code TEXT;
+
+-- 2. Account tagging
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_bank_account_id ON transactions(bank_account_id);
+
+ALTER TABLE imported_transactions_test
+  ADD COLUMN IF NOT EXISTS bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL;
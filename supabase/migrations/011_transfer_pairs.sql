@@ -0,0 +1,68 @@
+-- Migration: Inter-account transfers
+-- Problem: Moving money between our own accounts (e.g. Revolut current account
+--          and savings pots) was imported as an expenditure on one side and
+--          income on the other, inflating both sides of the P&L
+-- Changes:
+--   1. Allow a 'transfer' transaction type
+--   2. Create transfer_pairs linking the outgoing and incoming legs
+--   3. Tag transactions with their pair and direction
+--   4. RLS - shared data model, same as bank_accounts
+
+-- 1. Transfer type
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_type_check CHECK (type IN ('income', 'expenditure', 'capital', 'transfer'));
+
+-- 2. Transfer pairs
+-- The original types are kept so breaking a pair restores both legs exactly.
+-- Broken pairs are kept so the matcher doesn't suggest them again.
+CREATE TABLE IF NOT EXISTS transfer_pairs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  outgoing_transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE NOT NULL,
+  incoming_transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE NOT NULL,
+  outgoing_original_type TEXT NOT NULL CHECK (outgoing_original_type IN ('income', 'expenditure', 'capital')),
+  incoming_original_type TEXT NOT NULL CHECK (incoming_original_type IN ('income', 'expenditure', 'capital')),
+  amount NUMERIC(12, 2) NOT NULL,
+  days_apart INTEGER NOT NULL DEFAULT 0,
+  match_reasons TEXT[],
+  status TEXT NOT NULL DEFAULT 'suggested' CHECK (status IN ('suggested', 'confirmed', 'broken')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  confirmed_at TIMESTAMPTZ,
+  broken_at TIMESTAMPTZ,
+  UNIQUE (outgoing_transaction_id, incoming_transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_pairs_status ON transfer_pairs(status);
+
+-- 3. Transaction tagging
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS transfer_pair_id UUID REFERENCES transfer_pairs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS transfer_direction TEXT CHECK (transfer_direction IN ('in', 'out'));
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_pair_id ON transactions(transfer_pair_id);
+
+-- 4. RLS
+ALTER TABLE transfer_pairs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'transfer_pairs' AND policyname = 'Authenticated users can view transfer pairs') THEN
+    CREATE POLICY "Authenticated users can view transfer pairs" ON transfer_pairs
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'transfer_pairs' AND policyname = 'Users can insert own transfer pairs') THEN
+    CREATE POLICY "Users can insert own transfer pairs" ON transfer_pairs
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'transfer_pairs' AND policyname = 'Authenticated users can update transfer pairs') THEN
+    CREATE POLICY "Authenticated users can update transfer pairs" ON transfer_pairs
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'transfer_pairs' AND policyname = 'Authenticated users can delete transfer pairs') THEN
+    CREATE POLICY "Authenticated users can delete transfer pairs" ON transfer_pairs
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
@@ -0,0 +1,88 @@
+-- Migration: Persisted bank reconciliation sessions
+-- Problem: The statement balance, reconciled date and per-transaction flags on
+--          /bank-reconciliation only lived in React state and were lost on refresh,
+--          and there was no record of who agreed a reconciliation
+-- Changes:
+--   1. Create reconciliation_sessions with balances, variance and sign-off
+--   2. Create reconciliation_session_items for verified/suspicious flags
+--   3. Tag transactions covered by a signed-off session
+--   4. RLS - shared data model, same as bank_accounts
+
+-- 1. Sessions
+-- bank_account_id is NULL when all accounts were reconciled together
+CREATE TABLE IF NOT EXISTS reconciliation_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL,
+  statement_date DATE NOT NULL,
+  statement_balance NUMERIC(12, 2) NOT NULL,
+  calculated_balance NUMERIC(12, 2) NOT NULL,
+  variance NUMERIC(12, 2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'signed_off')),
+  notes TEXT,
+  signed_off_by UUID REFERENCES auth.users(id),
+  signed_off_by_email TEXT,
+  signed_off_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_sessions_statement_date ON reconciliation_sessions(statement_date DESC);
+
+-- 2. Flagged items
+CREATE TABLE IF NOT EXISTS reconciliation_session_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES reconciliation_sessions(id) ON DELETE CASCADE NOT NULL,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE NOT NULL,
+  flag TEXT NOT NULL CHECK (flag IN ('verified', 'suspicious')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (session_id, transaction_id)
+);
+
+-- 3. Reconciled transactions
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS reconciled_session_id UUID REFERENCES reconciliation_sessions(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_reconciled_session_id ON transactions(reconciled_session_id);
+
+-- 4. RLS
+ALTER TABLE reconciliation_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_session_items ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'reconciliation_sessions' AND policyname = 'Authenticated users can view reconciliation sessions') THEN
+    CREATE POLICY "Authenticated users can view reconciliation sessions" ON reconciliation_sessions
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'reconciliation_sessions' AND policyname = 'Users can insert own reconciliation sessions') THEN
+    CREATE POLICY "Users can insert own reconciliation sessions" ON reconciliation_sessions
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'reconciliation_sessions' AND policyname = 'Authenticated users can update draft reconciliation sessions') THEN
+    CREATE POLICY "Authenticated users can update draft reconciliation sessions" ON reconciliation_sessions
+      FOR UPDATE USING (auth.role() = 'authenticated' AND status = 'draft')
+      WITH CHECK (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'reconciliation_sessions' AND policyname = 'Authenticated users can delete draft reconciliation sessions') THEN
+    CREATE POLICY "Authenticated users can delete draft reconciliation sessions" ON reconciliation_sessions
+      FOR DELETE USING (auth.role() = 'authenticated' AND status = 'draft');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'reconciliation_session_items' AND policyname = 'Authenticated users can view reconciliation items') THEN
+    CREATE POLICY "Authenticated users can view reconciliation items" ON reconciliation_session_items
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'reconciliation_session_items' AND policyname = 'Authenticated users can manage items on draft sessions') THEN
+    CREATE POLICY "Authenticated users can manage items on draft sessions" ON reconciliation_session_items
+      FOR ALL USING (
+        auth.role() = 'authenticated' AND EXISTS (
+          SELECT 1 FROM reconciliation_sessions s
+          WHERE s.id = session_id AND s.status = 'draft'
+        )
+      );
+  END IF;
+END $$;
@@ -0,0 +1,65 @@
+-- Migration: Bank statement lines for line-by-line reconciliation
+-- Problem: Imported bank rows are deleted from imported_transactions_test once
+--          committed, so their running balance is lost and reconciliation can only
+--          compare a single closing balance
+-- Changes:
+--   1. Create bank_statement_lines, one row per completed bank row with its running balance
+--   2. Tick-off link from a statement line to the ledger transaction it agrees with
+--   3. RLS - shared data model, same as bank_accounts
+
+-- 1. Statement lines
+-- line_key identifies the same bank row across overlapping statement files,
+-- so re-importing a period doesn't record it twice
+CREATE TABLE IF NOT EXISTS bank_statement_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL,
+  import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL,
+  product TEXT,
+  line_date TIMESTAMPTZ NOT NULL,
+  line_index INTEGER NOT NULL DEFAULT 0,
+  description TEXT NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL,
+  fee NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  balance NUMERIC(12, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'GBP',
+  line_key TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_account_date ON bank_statement_lines(bank_account_id, line_date);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_import_batch_id ON bank_statement_lines(import_batch_id);
+
+-- 2. Tick-off against the ledger - a transaction can only tick off one line
+ALTER TABLE bank_statement_lines
+  ADD COLUMN IF NOT EXISTS transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS ticked_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_statement_lines_transaction_id
+  ON bank_statement_lines(transaction_id) WHERE transaction_id IS NOT NULL;
+
+-- 3. RLS
+ALTER TABLE bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_statement_lines' AND policyname = 'Authenticated users can view statement lines') THEN
+    CREATE POLICY "Authenticated users can view statement lines" ON bank_statement_lines
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_statement_lines' AND policyname = 'Users can insert own statement lines') THEN
+    CREATE POLICY "Users can insert own statement lines" ON bank_statement_lines
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_statement_lines' AND policyname = 'Authenticated users can update statement lines') THEN
+    CREATE POLICY "Authenticated users can update statement lines" ON bank_statement_lines
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_statement_lines' AND policyname = 'Authenticated users can delete statement lines') THEN
+    CREATE POLICY "Authenticated users can delete statement lines" ON bank_statement_lines
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
@@ -0,0 +1,26 @@
+-- Migration: VAT on transactions and categories
+-- Problem: We are VAT registered but transactions carry no VAT information, so
+--          the quarterly VAT return has to be worked out by hand
+-- Changes:
+--   1. VAT treatment and rate defaults on categories
+--   2. VAT treatment, rate, amount and invoice (tax point) date on transactions
+
+-- 1. Category defaults, used when a transaction has no VAT of its own
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS vat_treatment TEXT
+    CHECK (vat_treatment IN ('standard', 'reduced', 'zero', 'exempt', 'outside_scope', 'reverse_charge')),
+  ADD COLUMN IF NOT EXISTS vat_rate NUMERIC(5, 2) CHECK (vat_rate >= 0 AND vat_rate <= 100);
+
+-- 2. Transaction overrides
+-- amount stays the gross bank movement; vat_amount is the VAT included in it
+-- (or, for reverse charge, the VAT self-accounted on top of it).
+-- tax_point_date is the invoice date used under standard accounting; cash
+-- accounting always uses transaction_date.
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS vat_treatment TEXT
+    CHECK (vat_treatment IN ('standard', 'reduced', 'zero', 'exempt', 'outside_scope', 'reverse_charge')),
+  ADD COLUMN IF NOT EXISTS vat_rate NUMERIC(5, 2) CHECK (vat_rate >= 0 AND vat_rate <= 100),
+  ADD COLUMN IF NOT EXISTS vat_amount NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS tax_point_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_tax_point_date ON transactions(tax_point_date);
@@ -0,0 +1,149 @@
+-- Migration: Finalised and submitted VAT returns
+-- Problem: The VAT return report is recalculated from live transactions every time,
+--          so there is no fixed record of what was filed for a quarter, and
+--          transactions in a filed quarter can still be edited or deleted
+-- Changes:
+--   1. Create vat_returns holding the nine boxes, the MTD payload and HMRC's receipt
+--   2. Tag transactions included in a return
+--   3. Stop submitted returns from being changed or deleted
+--   4. Stop edits to the figures of transactions locked by a return
+--   5. RLS - shared data model, same as reconciliation_sessions
+
+-- 1. Returns
+-- Box values are what was finalised; payload is the exact MTD request body
+CREATE TABLE IF NOT EXISTS vat_returns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  vrn TEXT NOT NULL,
+  period_key TEXT NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  scheme TEXT NOT NULL CHECK (scheme IN ('standard', 'flat_rate', 'cash')),
+  flat_rate_percentage NUMERIC(5, 2),
+  vat_due_sales NUMERIC(12, 2) NOT NULL,
+  vat_due_acquisitions NUMERIC(12, 2) NOT NULL,
+  total_vat_due NUMERIC(12, 2) NOT NULL,
+  vat_reclaimed_curr_period NUMERIC(12, 2) NOT NULL,
+  net_vat_due NUMERIC(12, 2) NOT NULL,
+  total_value_sales_ex_vat NUMERIC(12, 0) NOT NULL,
+  total_value_purchases_ex_vat NUMERIC(12, 0) NOT NULL,
+  total_value_goods_supplied_ex_vat NUMERIC(12, 0) NOT NULL,
+  total_acquisitions_ex_vat NUMERIC(12, 0) NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'finalised' CHECK (status IN ('finalised', 'submitted')),
+  finalised_by_email TEXT,
+  finalised_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  receipt JSONB,
+  submitted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (vrn, period_key),
+  CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vat_returns_period_end ON vat_returns(period_end DESC);
+
+-- 2. Locked transactions
+-- Reopening (deleting) a finalised return releases its transactions
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS vat_return_id UUID REFERENCES vat_returns(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_vat_return_id ON transactions(vat_return_id);
+
+-- 3. Submitted returns are immutable
+-- A finalised return may only move to submitted, recording the receipt; its figures never change
+CREATE OR REPLACE FUNCTION protect_vat_return()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'submitted' THEN
+    RAISE EXCEPTION 'VAT return % has been submitted to HMRC and cannot be changed', OLD.period_key;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.vrn IS DISTINCT FROM OLD.vrn OR
+    NEW.period_key IS DISTINCT FROM OLD.period_key OR
+    NEW.period_start IS DISTINCT FROM OLD.period_start OR
+    NEW.period_end IS DISTINCT FROM OLD.period_end OR
+    NEW.payload IS DISTINCT FROM OLD.payload
+  ) THEN
+    RAISE EXCEPTION 'VAT return % is finalised - reopen it to change its figures', OLD.period_key;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_vat_return ON vat_returns;
+CREATE TRIGGER protect_vat_return
+  BEFORE UPDATE OR DELETE ON vat_returns
+  FOR EACH ROW EXECUTE FUNCTION protect_vat_return();
+
+-- 4. Locked transactions keep their figures
+-- Descriptions, notes and bank account can still change; anything the return was built from can't
+CREATE OR REPLACE FUNCTION protect_vat_locked_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.vat_return_id IS NULL THEN
+    IF TG_OP = 'DELETE' THEN
+      RETURN OLD;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Transaction is locked by a finalised VAT return and cannot be deleted';
+  END IF;
+
+  -- Released by reopening the return (ON DELETE SET NULL)
+  IF NEW.vat_return_id IS NULL AND NOT EXISTS (SELECT 1 FROM vat_returns WHERE id = OLD.vat_return_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.vat_return_id IS DISTINCT FROM OLD.vat_return_id OR
+     NEW.amount IS DISTINCT FROM OLD.amount OR
+     NEW.type IS DISTINCT FROM OLD.type OR
+     NEW.transaction_date IS DISTINCT FROM OLD.transaction_date OR
+     NEW.tax_point_date IS DISTINCT FROM OLD.tax_point_date OR
+     NEW.category_id IS DISTINCT FROM OLD.category_id OR
+     NEW.vat_treatment IS DISTINCT FROM OLD.vat_treatment OR
+     NEW.vat_rate IS DISTINCT FROM OLD.vat_rate OR
+     NEW.vat_amount IS DISTINCT FROM OLD.vat_amount THEN
+    RAISE EXCEPTION 'Transaction is locked by a finalised VAT return - reopen the return to change it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_vat_locked_transaction ON transactions;
+CREATE TRIGGER protect_vat_locked_transaction
+  BEFORE UPDATE OR DELETE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION protect_vat_locked_transaction();
+
+-- 5. RLS
+ALTER TABLE vat_returns ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'vat_returns' AND policyname = 'Authenticated users can view VAT returns') THEN
+    CREATE POLICY "Authenticated users can view VAT returns" ON vat_returns
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'vat_returns' AND policyname = 'Users can insert own VAT returns') THEN
+    CREATE POLICY "Users can insert own VAT returns" ON vat_returns
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'vat_returns' AND policyname = 'Authenticated users can update finalised VAT returns') THEN
+    CREATE POLICY "Authenticated users can update finalised VAT returns" ON vat_returns
+      FOR UPDATE USING (auth.role() = 'authenticated' AND status = 'finalised')
+      WITH CHECK (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'vat_returns' AND policyname = 'Authenticated users can delete finalised VAT returns') THEN
+    CREATE POLICY "Authenticated users can delete finalised VAT returns" ON vat_returns
+      FOR DELETE USING (auth.role() = 'authenticated' AND status = 'finalised');
+  END IF;
+END $$;
@@ -0,0 +1,66 @@
+-- Migration: Manually maintained balance sheet items
+-- Problem: The ledger only records cash, so the balance sheet has nowhere to hold
+--          equipment, debtors, creditors, loans or tax owed
+-- Changes:
+--   1. Create balance_sheet_items for each asset or liability being tracked
+--   2. Create balance_sheet_item_values holding the item's balance from a date onwards
+--   3. RLS - shared data model, same as bank_accounts
+
+-- 1. Items
+CREATE TABLE IF NOT EXISTS balance_sheet_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN (
+    'equipment', 'debtors', 'other_asset',
+    'creditors', 'tax_owed', 'loans', 'other_liability'
+  )),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 2. Dated balances
+-- An item's balance at any date is its latest value on or before that date
+CREATE TABLE IF NOT EXISTS balance_sheet_item_values (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID REFERENCES balance_sheet_items(id) ON DELETE CASCADE NOT NULL,
+  as_of_date DATE NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (item_id, as_of_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_balance_sheet_item_values_item_date ON balance_sheet_item_values(item_id, as_of_date DESC);
+
+-- 3. RLS
+ALTER TABLE balance_sheet_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE balance_sheet_item_values ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'balance_sheet_items' AND policyname = 'Authenticated users can view balance sheet items') THEN
+    CREATE POLICY "Authenticated users can view balance sheet items" ON balance_sheet_items
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'balance_sheet_items' AND policyname = 'Users can insert own balance sheet items') THEN
+    CREATE POLICY "Users can insert own balance sheet items" ON balance_sheet_items
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'balance_sheet_items' AND policyname = 'Authenticated users can update balance sheet items') THEN
+    CREATE POLICY "Authenticated users can update balance sheet items" ON balance_sheet_items
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'balance_sheet_items' AND policyname = 'Authenticated users can delete balance sheet items') THEN
+    CREATE POLICY "Authenticated users can delete balance sheet items" ON balance_sheet_items
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'balance_sheet_item_values' AND policyname = 'Authenticated users can manage balance sheet item values') THEN
+    CREATE POLICY "Authenticated users can manage balance sheet item values" ON balance_sheet_item_values
+      FOR ALL USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
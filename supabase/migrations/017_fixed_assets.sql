@@ -0,0 +1,87 @@
+-- Migration: Fixed asset register
+-- Problem: Large equipment purchases land as plain expenditure in the month they're
+--          paid for, distorting monthly profit, and there's no record of what the
+--          business owns or what it's worth
+-- Changes:
+--   1. Create fixed_assets with cost, useful life, depreciation method and disposal
+--   2. Create fixed_asset_entries for generated monthly depreciation and disposal gains/losses
+--   3. Tag the purchase (and sale proceeds) transactions so the P&L uses depreciation instead
+--   4. RLS - shared data model, same as bank_accounts
+
+-- 1. Assets
+-- reducing_balance_rate is an annual percentage, only used by the reducing balance method
+CREATE TABLE IF NOT EXISTS fixed_assets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  name TEXT NOT NULL,
+  source_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  cost NUMERIC(12, 2) NOT NULL CHECK (cost > 0),
+  acquisition_date DATE NOT NULL,
+  useful_life_months INTEGER NOT NULL CHECK (useful_life_months > 0),
+  method TEXT NOT NULL CHECK (method IN ('straight_line', 'reducing_balance')),
+  reducing_balance_rate NUMERIC(5, 2) CHECK (reducing_balance_rate IS NULL OR (reducing_balance_rate > 0 AND reducing_balance_rate <= 100)),
+  residual_value NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (residual_value >= 0),
+  depreciation_category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  disposal_date DATE,
+  disposal_proceeds NUMERIC(12, 2),
+  disposal_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (residual_value < cost),
+  CHECK (method <> 'reducing_balance' OR reducing_balance_rate IS NOT NULL),
+  CHECK (disposal_date IS NULL OR disposal_date >= acquisition_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fixed_assets_acquisition_date ON fixed_assets(acquisition_date DESC);
+
+-- 2. Generated entries
+-- Depreciation is a positive charge; a disposal entry is the loss on sale (negative for a profit)
+CREATE TABLE IF NOT EXISTS fixed_asset_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  asset_id UUID REFERENCES fixed_assets(id) ON DELETE CASCADE NOT NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('depreciation', 'disposal')),
+  entry_date DATE NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (asset_id, entry_type, entry_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fixed_asset_entries_entry_date ON fixed_asset_entries(entry_date);
+
+-- 3. Capitalised transactions
+-- Deleting an asset releases its transactions back into the P&L
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS fixed_asset_id UUID REFERENCES fixed_assets(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_fixed_asset_id ON transactions(fixed_asset_id);
+
+-- 4. RLS
+ALTER TABLE fixed_assets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fixed_asset_entries ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'fixed_assets' AND policyname = 'Authenticated users can view fixed assets') THEN
+    CREATE POLICY "Authenticated users can view fixed assets" ON fixed_assets
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'fixed_assets' AND policyname = 'Users can insert own fixed assets') THEN
+    CREATE POLICY "Users can insert own fixed assets" ON fixed_assets
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'fixed_assets' AND policyname = 'Authenticated users can update fixed assets') THEN
+    CREATE POLICY "Authenticated users can update fixed assets" ON fixed_assets
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'fixed_assets' AND policyname = 'Authenticated users can delete fixed assets') THEN
+    CREATE POLICY "Authenticated users can delete fixed assets" ON fixed_assets
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'fixed_asset_entries' AND policyname = 'Authenticated users can manage fixed asset entries') THEN
+    CREATE POLICY "Authenticated users can manage fixed asset entries" ON fixed_asset_entries
+      FOR ALL USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
@@ -0,0 +1,21 @@
+-- Migration: Capital allowance flags on transactions
+-- Problem: The Self Assessment estimate deducts equipment purchases like any other
+--          expense (or ignores them once capitalised) instead of claiming capital allowances
+-- Changes:
+--   1. Flag capital purchases (expenditure) and sale proceeds (income) with their pool
+--   2. Record whether a purchase qualifies for the Annual Investment Allowance
+
+-- 1. Pool
+-- main = 18% writing-down allowance, special_rate = 6% (integral features, long-life assets, higher-emission cars)
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS capital_allowance_pool TEXT
+    CHECK (capital_allowance_pool IS NULL OR capital_allowance_pool IN ('main', 'special_rate'));
+
+CREATE INDEX IF NOT EXISTS idx_transactions_capital_allowance_pool
+  ON transactions(capital_allowance_pool)
+  WHERE capital_allowance_pool IS NOT NULL;
+
+-- 2. AIA
+-- Cars never qualify for AIA, so they go straight into the pool
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS aia_eligible BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,28 @@
+-- Migration: SA103 box assignments
+-- Problem: The Self Assessment report only gives turnover and total expenses, leaving
+--          users to work out which SA103 box each category belongs in
+-- Changes:
+--   1. Add sa103_box to categories
+--   2. Add sa103_box to category_hierarchies as the default for every category in the hierarchy
+-- The value is a form-independent line (e.g. 'premises'); lib/sa103.ts maps it to
+-- the box number on the short (SA103S) or full (SA103F) form.
+
+-- 1. Categories
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS sa103_box TEXT
+    CHECK (sa103_box IS NULL OR sa103_box IN (
+      'turnover', 'other_income',
+      'cost_of_goods', 'subcontractors', 'staff', 'travel', 'premises', 'repairs', 'admin',
+      'advertising', 'interest', 'financial_charges', 'bad_debts', 'professional_fees',
+      'depreciation', 'other_expenses'
+    ));
+
+-- 2. Hierarchies
+ALTER TABLE category_hierarchies
+  ADD COLUMN IF NOT EXISTS sa103_box TEXT
+    CHECK (sa103_box IS NULL OR sa103_box IN (
+      'turnover', 'other_income',
+      'cost_of_goods', 'subcontractors', 'staff', 'travel', 'premises', 'repairs', 'admin',
+      'advertising', 'interest', 'financial_charges', 'bad_debts', 'professional_fees',
+      'depreciation', 'other_expenses'
+    ));
@@ -0,0 +1,24 @@
+-- Migration: Business-use percentages and disallowable flags
+-- Problem: Partly personal costs (phone, vehicle) and non-deductible costs (entertaining)
+--          are claimed in full on the Self Assessment and shown in full on the P&L
+-- Changes:
+--   1. Category defaults for business use and disallowable expenses
+--   2. Per-transaction overrides
+-- A transaction's own setting wins over its category's. NULL business_use_percent means
+-- "not set" (the category's, or 100%, applies).
+
+-- 1. Categories
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS business_use_percent NUMERIC(5,2)
+    CHECK (business_use_percent IS NULL OR (business_use_percent >= 0 AND business_use_percent <= 100));
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS disallowable BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. Transactions
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS business_use_percent NUMERIC(5,2)
+    CHECK (business_use_percent IS NULL OR (business_use_percent >= 0 AND business_use_percent <= 100));
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS disallowable BOOLEAN NOT NULL DEFAULT false;
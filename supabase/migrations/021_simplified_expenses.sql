@@ -0,0 +1,90 @@
+-- Migration: Simplified expenses - mileage log and use of home
+-- Problem: Business mileage and working from home can be claimed at HMRC flat rates,
+--          but there's nowhere to record trips or hours, so the claims are missed
+-- Changes:
+--   1. Create mileage_trips (date, purpose, from/to and miles)
+--   2. Create use_of_home_months (hours worked at home per month)
+--   3. Mark transactions generated from either log; they're paid personally, not from the bank
+--   4. RLS - shared data model, same as fixed_assets
+
+-- 1. Mileage log
+-- transaction_id is set once the trip's claim has been generated as an expenditure transaction
+CREATE TABLE IF NOT EXISTS mileage_trips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  trip_date DATE NOT NULL,
+  purpose TEXT NOT NULL,
+  from_location TEXT NOT NULL,
+  to_location TEXT NOT NULL,
+  miles NUMERIC(8, 1) NOT NULL CHECK (miles > 0),
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mileage_trips_trip_date ON mileage_trips(trip_date);
+
+-- 2. Use of home
+-- month is the first day of the month
+CREATE TABLE IF NOT EXISTS use_of_home_months (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  month DATE NOT NULL UNIQUE CHECK (EXTRACT(DAY FROM month) = 1),
+  hours NUMERIC(6, 1) NOT NULL CHECK (hours >= 0),
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 3. Generated transactions
+-- No money leaves the bank, so cash and balance sheet calculations treat them as capital introduced
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS simplified_expense TEXT
+    CHECK (simplified_expense IS NULL OR simplified_expense IN ('mileage', 'use_of_home'));
+
+-- 4. RLS
+ALTER TABLE mileage_trips ENABLE ROW LEVEL SECURITY;
+ALTER TABLE use_of_home_months ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'mileage_trips' AND policyname = 'Authenticated users can view mileage trips') THEN
+    CREATE POLICY "Authenticated users can view mileage trips" ON mileage_trips
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'mileage_trips' AND policyname = 'Users can insert own mileage trips') THEN
+    CREATE POLICY "Users can insert own mileage trips" ON mileage_trips
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'mileage_trips' AND policyname = 'Authenticated users can update mileage trips') THEN
+    CREATE POLICY "Authenticated users can update mileage trips" ON mileage_trips
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'mileage_trips' AND policyname = 'Authenticated users can delete mileage trips') THEN
+    CREATE POLICY "Authenticated users can delete mileage trips" ON mileage_trips
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'use_of_home_months' AND policyname = 'Authenticated users can view use of home months') THEN
+    CREATE POLICY "Authenticated users can view use of home months" ON use_of_home_months
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'use_of_home_months' AND policyname = 'Users can insert own use of home months') THEN
+    CREATE POLICY "Users can insert own use of home months" ON use_of_home_months
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'use_of_home_months' AND policyname = 'Authenticated users can update use of home months') THEN
+    CREATE POLICY "Authenticated users can update use of home months" ON use_of_home_months
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'use_of_home_months' AND policyname = 'Authenticated users can delete use of home months') THEN
+    CREATE POLICY "Authenticated users can delete use of home months" ON use_of_home_months
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
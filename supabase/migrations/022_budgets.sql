@@ -0,0 +1,55 @@
+-- Migration: Budgets per category and hierarchy
+-- Problem: There's no way to set a budget, so spending can only be compared with
+--          last year by eye and nothing warns when a category runs over
+-- Changes:
+--   1. Create budgets - a monthly or annual amount per category or hierarchy per calendar year
+--   2. One budget per category and per hierarchy each year
+--   3. RLS - shared data model, same as fixed_assets
+
+-- 1. Budgets
+-- Exactly one of category_id / hierarchy_id is set. Monthly budgets apply to every
+-- month of the year; annual budgets are spread evenly across the months.
+CREATE TABLE IF NOT EXISTS budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  year INTEGER NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+  category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+  hierarchy_id UUID REFERENCES category_hierarchies(id) ON DELETE CASCADE,
+  period TEXT NOT NULL CHECK (period IN ('monthly', 'annual')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((category_id IS NULL) <> (hierarchy_id IS NULL))
+);
+
+-- 2. One budget per target per year
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_year_category
+  ON budgets(year, category_id) WHERE category_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_year_hierarchy
+  ON budgets(year, hierarchy_id) WHERE hierarchy_id IS NOT NULL;
+
+-- 3. RLS
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'budgets' AND policyname = 'Authenticated users can view budgets') THEN
+    CREATE POLICY "Authenticated users can view budgets" ON budgets
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'budgets' AND policyname = 'Users can insert own budgets') THEN
+    CREATE POLICY "Users can insert own budgets" ON budgets
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'budgets' AND policyname = 'Authenticated users can update budgets') THEN
+    CREATE POLICY "Authenticated users can update budgets" ON budgets
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'budgets' AND policyname = 'Authenticated users can delete budgets') THEN
+    CREATE POLICY "Authenticated users can delete budgets" ON budgets
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
@@ -0,0 +1,96 @@
+-- Migration: Recurring transactions and expected payments
+-- Problem: Rent, subscriptions and insurance repeat on a schedule, but nothing records
+--          that they're due, so a payment that doesn't turn up goes unnoticed
+-- Changes:
+--   1. Create recurring_transactions - templates with amount, category, cadence and next date
+--   2. Create expected_payments - one pending entry per due date, fulfilled by a matching bank row
+--   3. RLS - shared data model, same as fixed_assets
+
+-- 1. Templates
+-- Due dates step from start_date so monthly payments on the 31st don't drift; next_date is
+-- the first due date that hasn't been generated as an expected payment yet
+CREATE TABLE IF NOT EXISTS recurring_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  description TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('income', 'expenditure')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL,
+  cadence TEXT NOT NULL CHECK (cadence IN ('weekly', 'monthly', 'quarterly', 'annual')),
+  start_date DATE NOT NULL,
+  next_date DATE NOT NULL CHECK (next_date >= start_date),
+  end_date DATE CHECK (end_date IS NULL OR end_date >= start_date),
+  -- Text the bank description must contain to count as this payment, e.g. 'ADOBE'
+  match_text TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 2. Expected payments
+-- The fulfilled_* columns hold the bank row that matched, or today's date when marked paid by hand
+CREATE TABLE IF NOT EXISTS expected_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  recurring_transaction_id UUID REFERENCES recurring_transactions(id) ON DELETE CASCADE NOT NULL,
+  due_date DATE NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'fulfilled', 'skipped')),
+  fulfilled_date DATE,
+  fulfilled_amount NUMERIC(12, 2),
+  fulfilled_description TEXT,
+  import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (recurring_transaction_id, due_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expected_payments_status_due_date ON expected_payments(status, due_date);
+
+-- 3. RLS
+ALTER TABLE recurring_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE expected_payments ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'recurring_transactions' AND policyname = 'Authenticated users can view recurring transactions') THEN
+    CREATE POLICY "Authenticated users can view recurring transactions" ON recurring_transactions
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'recurring_transactions' AND policyname = 'Users can insert own recurring transactions') THEN
+    CREATE POLICY "Users can insert own recurring transactions" ON recurring_transactions
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'recurring_transactions' AND policyname = 'Authenticated users can update recurring transactions') THEN
+    CREATE POLICY "Authenticated users can update recurring transactions" ON recurring_transactions
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'recurring_transactions' AND policyname = 'Authenticated users can delete recurring transactions') THEN
+    CREATE POLICY "Authenticated users can delete recurring transactions" ON recurring_transactions
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'expected_payments' AND policyname = 'Authenticated users can view expected payments') THEN
+    CREATE POLICY "Authenticated users can view expected payments" ON expected_payments
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'expected_payments' AND policyname = 'Users can insert own expected payments') THEN
+    CREATE POLICY "Users can insert own expected payments" ON expected_payments
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'expected_payments' AND policyname = 'Authenticated users can update expected payments') THEN
+    CREATE POLICY "Authenticated users can update expected payments" ON expected_payments
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'expected_payments' AND policyname = 'Authenticated users can delete expected payments') THEN
+    CREATE POLICY "Authenticated users can delete expected payments" ON expected_payments
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
@@ -0,0 +1,17 @@
+-- Migration: Bank transaction ids (OFX FITID) for exact duplicate detection
+-- Problem: Duplicate detection compares description, amount and date, which can't
+--          tell two identical payments on the same day apart. OFX and QFX statements
+--          give every row a FITID that stays the same across downloads.
+-- Changes:
+--   1. Add fitid to staged import rows
+--   2. Add fitid to transactions, carried over when an import is committed or linked
+
+-- 1. Staged import rows
+ALTER TABLE imported_transactions_test
+  ADD COLUMN IF NOT EXISTS fitid TEXT;
+
+-- 2. Transactions
+-- FITIDs are only unique within one bank account, so the index isn't unique
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS fitid TEXT;
+CREATE INDEX IF NOT EXISTS idx_transactions_fitid ON transactions(fitid) WHERE fitid IS NOT NULL;
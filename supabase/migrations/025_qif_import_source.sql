@@ -0,0 +1,10 @@
+-- Migration: QIF import source
+-- Problem: Historical data from desktop accounting tools is only available as QIF,
+--          and import_batches only accepted the bank and transaction CSV sources
+-- Changes:
+--   1. Allow a 'qif' import batch source
+
+-- 1. Source
+ALTER TABLE import_batches DROP CONSTRAINT IF EXISTS import_batches_source_check;
+ALTER TABLE import_batches
+  ADD CONSTRAINT import_batches_source_check CHECK (source IN ('revolut', 'bank_upload', 'transaction_csv', 'qif'));
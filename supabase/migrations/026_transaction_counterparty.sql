@@ -0,0 +1,19 @@
+-- Migration: Structured counterparty details from CAMT.053 and MT940 statements
+-- Problem: Business bank statements name the counterparty, the remittance text and the
+--          end-to-end reference separately, but imports flatten them into the description.
+--          Pattern matching then has to find the payee inside free text.
+-- Changes:
+--   1. Add counterparty_name, remittance_info and end_to_end_id to staged import rows
+--   2. Add the same columns to transactions, carried over when an import is committed or linked
+
+-- 1. Staged import rows
+ALTER TABLE imported_transactions_test
+  ADD COLUMN IF NOT EXISTS counterparty_name TEXT,
+  ADD COLUMN IF NOT EXISTS remittance_info TEXT,
+  ADD COLUMN IF NOT EXISTS end_to_end_id TEXT;
+
+-- 2. Transactions
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS counterparty_name TEXT,
+  ADD COLUMN IF NOT EXISTS remittance_info TEXT,
+  ADD COLUMN IF NOT EXISTS end_to_end_id TEXT;
@@ -0,0 +1,46 @@
+-- Migration: Saved bank CSV profiles
+-- Problem: Built-in CSV profiles cover the common UK banks, but any other export has to be
+--          mapped column by column on every import
+-- Changes:
+--   1. Create bank_csv_profiles - column mapping, date format, sign convention and encoding
+--   2. RLS - shared data model, same as recurring_transactions
+
+-- 1. Profiles
+-- columns holds the CSVColumnMapping from lib/bank-csv-profiles.ts: header names keyed by field
+CREATE TABLE IF NOT EXISTS bank_csv_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  name TEXT NOT NULL,
+  columns JSONB NOT NULL,
+  date_format TEXT NOT NULL CHECK (date_format IN ('dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd', 'dd MMM yyyy')),
+  sign_convention TEXT NOT NULL CHECK (sign_convention IN ('signed', 'inverted', 'split')),
+  encoding TEXT NOT NULL DEFAULT 'utf-8' CHECK (encoding IN ('utf-8', 'windows-1252')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 2. RLS
+ALTER TABLE bank_csv_profiles ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_csv_profiles' AND policyname = 'Authenticated users can view bank CSV profiles') THEN
+    CREATE POLICY "Authenticated users can view bank CSV profiles" ON bank_csv_profiles
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_csv_profiles' AND policyname = 'Users can insert own bank CSV profiles') THEN
+    CREATE POLICY "Users can insert own bank CSV profiles" ON bank_csv_profiles
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_csv_profiles' AND policyname = 'Authenticated users can update bank CSV profiles') THEN
+    CREATE POLICY "Authenticated users can update bank CSV profiles" ON bank_csv_profiles
+      FOR UPDATE USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_csv_profiles' AND policyname = 'Authenticated users can delete bank CSV profiles') THEN
+    CREATE POLICY "Authenticated users can delete bank CSV profiles" ON bank_csv_profiles
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
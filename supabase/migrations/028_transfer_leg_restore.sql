@@ -0,0 +1,29 @@
+-- Migration: Restore the surviving leg when a transfer leg is deleted
+-- Problem: Deleting one leg of a transfer pair (import rollback or manual delete) removes
+--          the pair by ON DELETE CASCADE and only nulls the other leg's transfer_pair_id.
+--          That leg keeps type 'transfer' and its direction, so it drops out of the P&L
+--          and can no longer be broken from the Transfers page.
+-- Changes:
+--   1. When a pair is deleted, put any leg still tagged with it back to its original type
+
+-- 1. Restore surviving legs
+-- transfer_pair_id may already be nulled by its own ON DELETE SET NULL, so a leg that still
+-- carries a direction without a pair is treated as belonging to the deleted pair
+CREATE OR REPLACE FUNCTION restore_transfer_legs()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE transactions
+  SET type = CASE WHEN id = OLD.outgoing_transaction_id THEN OLD.outgoing_original_type ELSE OLD.incoming_original_type END,
+      transfer_direction = NULL,
+      transfer_pair_id = NULL
+  WHERE id IN (OLD.outgoing_transaction_id, OLD.incoming_transaction_id)
+    AND (transfer_pair_id = OLD.id OR (transfer_pair_id IS NULL AND transfer_direction IS NOT NULL));
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS restore_transfer_legs ON transfer_pairs;
+CREATE TRIGGER restore_transfer_legs
+  AFTER DELETE ON transfer_pairs
+  FOR EACH ROW EXECUTE FUNCTION restore_transfer_legs();
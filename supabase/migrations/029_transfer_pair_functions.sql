@@ -0,0 +1,79 @@
+-- Migration: Create and confirm transfer pairs in one transaction
+-- Problem: Transfer detection inserted the pair and then tagged each leg with separate
+--          requests. A leg locked by a finalised VAT return made the later step fail,
+--          leaving a pair with only one leg tagged. Confirming had the same gap.
+-- Changes:
+--   1. create_transfer_pair - insert the pair and tag both legs, or do nothing
+--   2. confirm_transfer_pair - turn both legs into transfers and confirm the pair together
+
+-- 1. Create
+-- Returns NULL without writing anything when either leg is already paired or locked
+CREATE OR REPLACE FUNCTION create_transfer_pair(
+  target_user_id UUID,
+  outgoing_id UUID,
+  incoming_id UUID,
+  pair_amount NUMERIC,
+  pair_days_apart INTEGER,
+  pair_match_reasons TEXT[]
+)
+RETURNS UUID AS $$
+DECLARE
+  available_legs INTEGER;
+  outgoing_type TEXT;
+  incoming_type TEXT;
+  new_pair_id UUID;
+BEGIN
+  SELECT COUNT(*) INTO available_legs
+  FROM (
+    SELECT id FROM transactions
+    WHERE id IN (outgoing_id, incoming_id)
+      AND transfer_pair_id IS NULL
+      AND vat_return_id IS NULL
+      AND type IN ('income', 'expenditure')
+    FOR UPDATE
+  ) legs;
+
+  IF available_legs <> 2 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT type INTO outgoing_type FROM transactions WHERE id = outgoing_id;
+  SELECT type INTO incoming_type FROM transactions WHERE id = incoming_id;
+
+  INSERT INTO transfer_pairs (
+    user_id, outgoing_transaction_id, incoming_transaction_id,
+    outgoing_original_type, incoming_original_type,
+    amount, days_apart, match_reasons, status
+  )
+  VALUES (
+    target_user_id, outgoing_id, incoming_id,
+    outgoing_type, incoming_type,
+    pair_amount, pair_days_apart, pair_match_reasons, 'suggested'
+  )
+  RETURNING id INTO new_pair_id;
+
+  UPDATE transactions
+  SET transfer_pair_id = new_pair_id,
+      transfer_direction = CASE WHEN id = outgoing_id THEN 'out' ELSE 'in' END
+  WHERE id IN (outgoing_id, incoming_id);
+
+  RETURN new_pair_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 2. Confirm
+-- A leg locked by a finalised VAT return makes the type change fail, which rolls back both
+CREATE OR REPLACE FUNCTION confirm_transfer_pair(target_pair_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE transactions
+  SET type = 'transfer'
+  WHERE transfer_pair_id = target_pair_id;
+
+  UPDATE transfer_pairs
+  SET status = 'confirmed',
+      confirmed_at = NOW()
+  WHERE id = target_pair_id
+    AND status = 'suggested';
+END;
+$$ LANGUAGE plpgsql;
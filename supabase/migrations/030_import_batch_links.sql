@@ -0,0 +1,76 @@
+-- Migration: Record the existing transactions an import batch linked to
+-- Problem: Committing links matched rows by stamping the bank reference, account, FITID
+--          and counterparty details on an existing transaction. Nothing recorded which
+--          batch wrote them, so the batch count missed linked rows and rolling the batch
+--          back left the stamped values behind.
+-- Changes:
+--   1. Create import_batch_links (one row per linked transaction, holding only the values
+--      the link actually wrote)
+--   2. RLS - visible to and reversible by every signed-in user, matching the shared data model
+--   3. clear_import_batch_links - put the linked transactions back as they were
+
+-- 1. Links
+CREATE TABLE IF NOT EXISTS import_batch_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  import_batch_id UUID REFERENCES import_batches(id) ON DELETE CASCADE NOT NULL,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE NOT NULL,
+  bank_reference TEXT,
+  bank_account_id UUID,
+  fitid TEXT,
+  counterparty_name TEXT,
+  remittance_info TEXT,
+  end_to_end_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batch_links_batch ON import_batch_links(import_batch_id);
+CREATE INDEX IF NOT EXISTS idx_import_batch_links_transaction ON import_batch_links(transaction_id);
+
+-- 2. RLS
+ALTER TABLE import_batch_links ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'import_batch_links' AND policyname = 'Authenticated users can view import batch links') THEN
+    CREATE POLICY "Authenticated users can view import batch links" ON import_batch_links
+      FOR SELECT USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'import_batch_links' AND policyname = 'Users can insert own import batch links') THEN
+    CREATE POLICY "Users can insert own import batch links" ON import_batch_links
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'import_batch_links' AND policyname = 'Authenticated users can delete import batch links') THEN
+    CREATE POLICY "Authenticated users can delete import batch links" ON import_batch_links
+      FOR DELETE USING (auth.role() = 'authenticated');
+  END IF;
+END $$;
+
+-- 3. Undo
+-- Linking only ever filled empty columns, so each recorded value is cleared back to NULL.
+-- A value someone has since changed by hand is left alone. Returns the transactions touched.
+CREATE OR REPLACE FUNCTION clear_import_batch_links(target_batch_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  cleared INTEGER;
+BEGIN
+  UPDATE transactions t
+  SET bank_reference = CASE WHEN t.bank_reference = l.bank_reference THEN NULL ELSE t.bank_reference END,
+      bank_account_id = CASE WHEN t.bank_account_id = l.bank_account_id THEN NULL ELSE t.bank_account_id END,
+      fitid = CASE WHEN t.fitid = l.fitid THEN NULL ELSE t.fitid END,
+      counterparty_name = CASE WHEN t.counterparty_name = l.counterparty_name THEN NULL ELSE t.counterparty_name END,
+      remittance_info = CASE WHEN t.remittance_info = l.remittance_info THEN NULL ELSE t.remittance_info END,
+      end_to_end_id = CASE WHEN t.end_to_end_id = l.end_to_end_id THEN NULL ELSE t.end_to_end_id END
+  FROM import_batch_links l
+  WHERE l.import_batch_id = target_batch_id
+    AND t.id = l.transaction_id;
+
+  GET DIAGNOSTICS cleared = ROW_COUNT;
+
+  DELETE FROM import_batch_links WHERE import_batch_id = target_batch_id;
+
+  RETURN cleared;
+END;
+$$ LANGUAGE plpgsql;
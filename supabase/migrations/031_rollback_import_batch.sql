@@ -0,0 +1,119 @@
+-- Migration: Roll back an import batch in one transaction
+-- Problem: Rollback was a chain of separate requests from the browser. Metadata and staging
+--          links went first, so when a transaction in the batch was locked by a finalised
+--          VAT return the delete failed and left the batch half rolled back.
+-- Changes:
+--   1. rollback_import_batch - refuse batches with VAT-locked transactions, then undo
+--      everything the batch did, or nothing
+
+-- 1. Rollback
+-- Returns the counts shown to the user once the batch is rolled back
+CREATE OR REPLACE FUNCTION rollback_import_batch(target_batch_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  batch_status TEXT;
+  locked_count INTEGER;
+  transactions_deleted INTEGER;
+  staged_rows_deleted INTEGER;
+  links_cleared INTEGER;
+  patterns_deleted INTEGER := 0;
+  patterns_reverted INTEGER := 0;
+  effect RECORD;
+  pattern RECORD;
+BEGIN
+  SELECT status INTO batch_status FROM import_batches WHERE id = target_batch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch not found';
+  END IF;
+
+  IF batch_status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import batch has already been rolled back';
+  END IF;
+
+  SELECT COUNT(*) INTO locked_count
+  FROM transactions
+  WHERE import_batch_id = target_batch_id
+    AND vat_return_id IS NOT NULL;
+
+  IF locked_count > 0 THEN
+    RAISE EXCEPTION '% transactions in this import are locked by a finalised VAT return - reopen the return to roll it back', locked_count;
+  END IF;
+
+  -- Metadata and staging references go before the transactions
+  DELETE FROM transaction_metadata
+  WHERE transaction_id IN (SELECT id FROM transactions WHERE import_batch_id = target_batch_id);
+
+  UPDATE imported_transactions_test
+  SET matched_transaction_id = NULL
+  WHERE matched_transaction_id IN (SELECT id FROM transactions WHERE import_batch_id = target_batch_id);
+
+  DELETE FROM transactions WHERE import_batch_id = target_batch_id;
+  GET DIAGNOSTICS transactions_deleted = ROW_COUNT;
+
+  -- Anything from this batch still waiting in staging, and statement lines it first recorded
+  DELETE FROM imported_transactions_test WHERE import_batch_id = target_batch_id;
+  GET DIAGNOSTICS staged_rows_deleted = ROW_COUNT;
+
+  DELETE FROM bank_statement_lines WHERE import_batch_id = target_batch_id;
+
+  -- Expected payments this batch fulfilled are due again - no bank row backs them now
+  UPDATE expected_payments
+  SET status = 'pending',
+      fulfilled_date = NULL,
+      fulfilled_amount = NULL,
+      fulfilled_description = NULL,
+      import_batch_id = NULL,
+      updated_at = NOW()
+  WHERE import_batch_id = target_batch_id
+    AND status = 'fulfilled';
+
+  links_cleared := clear_import_batch_links(target_batch_id);
+
+  -- Reverse pattern learning, newest effect first. A pattern this batch created is removed
+  -- unless later categorisations have built on it, in which case only this batch's share
+  -- is taken off.
+  FOR effect IN
+    SELECT pattern_id, effect AS effect_type, match_count_delta, confidence_delta
+    FROM import_batch_pattern_effects
+    WHERE import_batch_id = target_batch_id
+    ORDER BY created_at DESC
+  LOOP
+    SELECT id, match_count, confidence_score INTO pattern
+    FROM categorization_patterns
+    WHERE id = effect.pattern_id
+    FOR UPDATE;
+
+    -- Already removed by an earlier effect or by the user
+    CONTINUE WHEN NOT FOUND;
+
+    IF effect.effect_type = 'created' AND pattern.match_count <= effect.match_count_delta THEN
+      DELETE FROM categorization_patterns WHERE id = pattern.id;
+      patterns_deleted := patterns_deleted + 1;
+    ELSE
+      UPDATE categorization_patterns
+      SET match_count = GREATEST(pattern.match_count - effect.match_count_delta, 0),
+          confidence_score = LEAST(GREATEST(pattern.confidence_score - effect.confidence_delta, 10), 100),
+          updated_at = NOW()
+      WHERE id = pattern.id;
+      patterns_reverted := patterns_reverted + 1;
+    END IF;
+  END LOOP;
+
+  DELETE FROM import_batch_pattern_effects WHERE import_batch_id = target_batch_id;
+
+  -- Keep the batch row as an audit trail
+  UPDATE import_batches
+  SET status = 'rolled_back',
+      rolled_back_at = NOW()
+  WHERE id = target_batch_id;
+
+  RETURN json_build_object(
+    'transactions_deleted', transactions_deleted,
+    'staged_rows_deleted', staged_rows_deleted,
+    'links_cleared', links_cleared,
+    'patterns_deleted', patterns_deleted,
+    'patterns_reverted', patterns_reverted
+  );
+END;
+$$ LANGUAGE plpgsql;
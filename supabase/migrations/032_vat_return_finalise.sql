@@ -0,0 +1,115 @@
+-- Migration: Finalise VAT returns in one transaction and close finalised periods
+-- Problem: Finalising inserted the return and then locked transactions in separate
+--          requests, deleting the return again if a request failed, so a failure could
+--          leave rows locked to a return that no longer existed. Only income and
+--          expenditure were locked, and new transactions could still be added with a
+--          date inside a finalised period, changing what was filed after the fact.
+-- Changes:
+--   1. finalise_vat_return - store the return and lock every transaction in its period
+--      together, refusing if the period changed since the boxes were calculated
+--   2. Reject transactions added or moved into a finalised period
+
+-- 1. Finalise
+-- calculated_transaction_ids are the rows the boxes were built from. Returns the stored
+-- return and the number of transactions locked.
+CREATE OR REPLACE FUNCTION finalise_vat_return(vat_return JSONB, calculated_transaction_ids UUID[])
+RETURNS JSON AS $$
+DECLARE
+  new_return vat_returns;
+  return_scheme TEXT := vat_return->>'scheme';
+  return_start DATE := (vat_return->>'period_start')::DATE;
+  return_end DATE := (vat_return->>'period_end')::DATE;
+  in_period UUID[];
+  locked_count INTEGER;
+BEGIN
+  -- Cash accounting goes by payment date; standard and flat rate by invoice date when recorded
+  SELECT COALESCE(array_agg(id), '{}') INTO in_period
+  FROM (
+    SELECT id FROM transactions
+    WHERE vat_return_id IS NULL
+      AND CASE WHEN return_scheme = 'cash' THEN transaction_date ELSE COALESCE(tax_point_date, transaction_date) END
+          BETWEEN return_start AND return_end
+    FOR UPDATE
+  ) period_transactions;
+
+  IF EXISTS (SELECT unnest(in_period) EXCEPT SELECT unnest(calculated_transaction_ids))
+     OR EXISTS (SELECT unnest(calculated_transaction_ids) EXCEPT SELECT unnest(in_period)) THEN
+    RAISE EXCEPTION 'Transactions in the period changed while finalising - recalculate the return and try again';
+  END IF;
+
+  INSERT INTO vat_returns (
+    user_id, vrn, period_key, period_start, period_end, scheme, flat_rate_percentage,
+    vat_due_sales, vat_due_acquisitions, total_vat_due, vat_reclaimed_curr_period, net_vat_due,
+    total_value_sales_ex_vat, total_value_purchases_ex_vat,
+    total_value_goods_supplied_ex_vat, total_acquisitions_ex_vat,
+    payload, finalised_by_email
+  )
+  VALUES (
+    (vat_return->>'user_id')::UUID,
+    vat_return->>'vrn',
+    vat_return->>'period_key',
+    return_start,
+    return_end,
+    return_scheme,
+    (vat_return->>'flat_rate_percentage')::NUMERIC,
+    (vat_return->>'vat_due_sales')::NUMERIC,
+    (vat_return->>'vat_due_acquisitions')::NUMERIC,
+    (vat_return->>'total_vat_due')::NUMERIC,
+    (vat_return->>'vat_reclaimed_curr_period')::NUMERIC,
+    (vat_return->>'net_vat_due')::NUMERIC,
+    (vat_return->>'total_value_sales_ex_vat')::NUMERIC,
+    (vat_return->>'total_value_purchases_ex_vat')::NUMERIC,
+    (vat_return->>'total_value_goods_supplied_ex_vat')::NUMERIC,
+    (vat_return->>'total_acquisitions_ex_vat')::NUMERIC,
+    vat_return->'payload',
+    vat_return->>'finalised_by_email'
+  )
+  RETURNING * INTO new_return;
+
+  -- Every transaction dated in the period, whatever its type, so none can change afterwards
+  UPDATE transactions
+  SET vat_return_id = new_return.id
+  WHERE id = ANY(in_period);
+
+  GET DIAGNOSTICS locked_count = ROW_COUNT;
+
+  RETURN json_build_object('record', row_to_json(new_return), 'locked', locked_count);
+END;
+$$ LANGUAGE plpgsql;
+
+-- 2. Closed periods
+-- Only new dates are checked, so other edits to a transaction are left to protect_vat_locked_transaction
+CREATE OR REPLACE FUNCTION protect_finalised_vat_period()
+RETURNS TRIGGER AS $$
+DECLARE
+  finalised_period TEXT;
+BEGIN
+  IF NEW.vat_return_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND
+     NEW.transaction_date IS NOT DISTINCT FROM OLD.transaction_date AND
+     NEW.tax_point_date IS NOT DISTINCT FROM OLD.tax_point_date THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT period_key INTO finalised_period
+  FROM vat_returns
+  WHERE CASE WHEN scheme = 'cash' THEN NEW.transaction_date ELSE COALESCE(NEW.tax_point_date, NEW.transaction_date) END
+        BETWEEN period_start AND period_end
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Transaction dated % falls in VAT period % which has been finalised - reopen the return to add to it',
+      NEW.transaction_date, finalised_period;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_finalised_vat_period ON transactions;
+CREATE TRIGGER protect_finalised_vat_period
+  BEFORE INSERT OR UPDATE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION protect_finalised_vat_period();